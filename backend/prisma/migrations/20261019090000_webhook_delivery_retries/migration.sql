@@ -0,0 +1,8 @@
+ALTER TABLE "webhooks"
+  ADD COLUMN "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN "last_failure_at" TIMESTAMP(3),
+  ADD COLUMN "paused_at" TIMESTAMP(3),
+  ADD COLUMN "paused_reason" TEXT;
+
+ALTER TABLE "webhook_deliveries"
+  ADD COLUMN "redelivery_of_id" TEXT;
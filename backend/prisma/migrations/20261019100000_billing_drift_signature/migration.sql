@@ -0,0 +1,2 @@
+-- Fingerprint of the last drift reported via the billing_period.drift_detected webhook
+ALTER TABLE "billing_periods" ADD COLUMN "drift_signature" TEXT;
@@ -0,0 +1,19 @@
+CREATE TYPE "ClosureKind" AS ENUM ('vacation', 'strike', 'ministry_calendar', 'other');
+
+CREATE TABLE "organization_closures" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "kind" "ClosureKind" NOT NULL DEFAULT 'other',
+  "start_date" DATE NOT NULL,
+  "end_date" DATE NOT NULL,
+  "branch_types" "BranchType"[] DEFAULT ARRAY[]::"BranchType"[],
+  "closed" BOOLEAN NOT NULL DEFAULT true,
+  "notes" TEXT,
+  "created_by_id" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "organization_closures_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "organization_closures_start_date_end_date_idx" ON "organization_closures"("start_date", "end_date");
@@ -0,0 +1,18 @@
+CREATE TABLE "branch_blackouts" (
+  "id" TEXT NOT NULL,
+  "branch_id" TEXT NOT NULL,
+  "reason" TEXT NOT NULL,
+  "start_date" DATE NOT NULL,
+  "end_date" DATE NOT NULL,
+  "applied_at" TIMESTAMP(3),
+  "postponed_count" INTEGER NOT NULL DEFAULT 0,
+  "created_by_id" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "branch_blackouts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "branch_blackouts_branch_id_start_date_end_date_idx" ON "branch_blackouts"("branch_id", "start_date", "end_date");
+
+ALTER TABLE "branch_blackouts" ADD CONSTRAINT "branch_blackouts_branch_id_fkey" FOREIGN KEY ("branch_id") REFERENCES "branches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+CREATE TYPE "ParentNotificationType" AS ENUM ('meeting_cancelled', 'meeting_postponed', 'replacement_scheduled', 'lesson_summary', 'lesson_reminder', 'payment_due', 'cycle_completed');
+
+CREATE TABLE "parent_notifications" (
+  "id" TEXT NOT NULL,
+  "customer_id" TEXT NOT NULL,
+  "student_id" TEXT,
+  "cycle_id" TEXT,
+  "meeting_id" TEXT,
+  "type" "ParentNotificationType" NOT NULL,
+  "title" TEXT NOT NULL,
+  "body" TEXT NOT NULL,
+  "data" JSONB,
+  "read_at" TIMESTAMP(3),
+  "pushed_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "parent_notifications_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "parent_notifications_customer_id_created_at_idx" ON "parent_notifications"("customer_id", "created_at" DESC);
+CREATE INDEX "parent_notifications_customer_id_read_at_idx" ON "parent_notifications"("customer_id", "read_at");
+
+ALTER TABLE "parent_notifications" ADD CONSTRAINT "parent_notifications_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "parent_push_subscriptions" (
+  "id" TEXT NOT NULL,
+  "customer_id" TEXT NOT NULL,
+  "endpoint" TEXT NOT NULL,
+  "p256dh" TEXT NOT NULL,
+  "auth" TEXT NOT NULL,
+  "user_agent" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "last_used_at" TIMESTAMP(3),
+
+  CONSTRAINT "parent_push_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "parent_push_subscriptions_endpoint_key" ON "parent_push_subscriptions"("endpoint");
+CREATE INDEX "parent_push_subscriptions_customer_id_idx" ON "parent_push_subscriptions"("customer_id");
+
+ALTER TABLE "parent_push_subscriptions" ADD CONSTRAINT "parent_push_subscriptions_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
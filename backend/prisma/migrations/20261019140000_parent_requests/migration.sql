@@ -0,0 +1,35 @@
+ALTER TYPE "ParentNotificationType" ADD VALUE 'request_update';
+
+CREATE TYPE "ParentRequestType" AS ENUM ('absence', 'makeup', 'cancellation');
+
+CREATE TYPE "ParentRequestStatus" AS ENUM ('pending', 'approved', 'rejected');
+
+CREATE TABLE "parent_requests" (
+  "id" TEXT NOT NULL,
+  "type" "ParentRequestType" NOT NULL,
+  "status" "ParentRequestStatus" NOT NULL DEFAULT 'pending',
+  "customer_id" TEXT NOT NULL,
+  "student_id" TEXT NOT NULL,
+  "registration_id" TEXT NOT NULL,
+  "meeting_id" TEXT,
+  "makeup_meeting_id" TEXT,
+  "cancellation_request_id" TEXT,
+  "previous_registration_status" "RegistrationStatus",
+  "reason" TEXT,
+  "task_id" TEXT,
+  "reviewed_by_id" TEXT,
+  "reviewed_at" TIMESTAMP(3),
+  "review_notes" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "parent_requests_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "parent_requests_task_id_key" ON "parent_requests"("task_id");
+CREATE INDEX "parent_requests_customer_id_created_at_idx" ON "parent_requests"("customer_id", "created_at");
+CREATE INDEX "parent_requests_status_created_at_idx" ON "parent_requests"("status", "created_at");
+
+ALTER TABLE "parent_requests" ADD CONSTRAINT "parent_requests_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "parent_requests" ADD CONSTRAINT "parent_requests_registration_id_fkey" FOREIGN KEY ("registration_id") REFERENCES "registrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "parent_requests" ADD CONSTRAINT "parent_requests_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Parent billing: tie payment links and the payments they produce to a registration
+ALTER TABLE "payment_links" ADD COLUMN "registration_id" TEXT;
+ALTER TABLE "payments" ADD COLUMN "registration_id" TEXT;
+
+CREATE INDEX "payment_links_registration_id_idx" ON "payment_links"("registration_id");
+CREATE INDEX "payments_registration_id_idx" ON "payments"("registration_id");
+
+ALTER TABLE "payment_links" ADD CONSTRAINT "payment_links_registration_id_fkey" FOREIGN KEY ("registration_id") REFERENCES "registrations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "payments" ADD CONSTRAINT "payments_registration_id_fkey" FOREIGN KEY ("registration_id") REFERENCES "registrations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
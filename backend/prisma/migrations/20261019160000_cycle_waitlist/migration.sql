@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('waiting', 'offered', 'placed', 'expired', 'declined', 'removed');
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+  "id" TEXT NOT NULL,
+  "cycle_id" TEXT NOT NULL,
+  "customer_id" TEXT NOT NULL,
+  "student_id" TEXT,
+  "child_name" TEXT,
+  "position" INTEGER NOT NULL,
+  "status" "WaitlistStatus" NOT NULL DEFAULT 'waiting',
+  "notes" TEXT,
+  "offer_token" TEXT,
+  "offered_at" TIMESTAMP(3),
+  "offer_expires_at" TIMESTAMP(3),
+  "responded_at" TIMESTAMP(3),
+  "registration_id" TEXT,
+  "created_by_id" TEXT,
+  "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "waitlist_entries_offer_token_key" ON "waitlist_entries"("offer_token");
+CREATE INDEX "waitlist_entries_cycle_id_status_position_idx" ON "waitlist_entries"("cycle_id", "status", "position");
+CREATE INDEX "waitlist_entries_status_offer_expires_at_idx" ON "waitlist_entries"("status", "offer_expires_at");
+
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_cycle_id_fkey" FOREIGN KEY ("cycle_id") REFERENCES "cycles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_registration_id_fkey" FOREIGN KEY ("registration_id") REFERENCES "registrations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "instructor_availability" (
+  "id" TEXT NOT NULL,
+  "instructor_id" TEXT NOT NULL,
+  "day_of_week" "DayOfWeek" NOT NULL,
+  "start_time" TIME NOT NULL,
+  "end_time" TIME NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "instructor_availability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "instructor_unavailable_dates" (
+  "id" TEXT NOT NULL,
+  "instructor_id" TEXT NOT NULL,
+  "date" DATE NOT NULL,
+  "reason" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "instructor_unavailable_dates_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "meeting_change_requests" ADD COLUMN "substitute_instructor_id" TEXT;
+
+CREATE INDEX "instructor_availability_instructor_id_day_of_week_idx" ON "instructor_availability"("instructor_id", "day_of_week");
+CREATE UNIQUE INDEX "instructor_unavailable_dates_instructor_id_date_key" ON "instructor_unavailable_dates"("instructor_id", "date");
+CREATE INDEX "instructor_unavailable_dates_date_idx" ON "instructor_unavailable_dates"("date");
+
+ALTER TABLE "instructor_availability" ADD CONSTRAINT "instructor_availability_instructor_id_fkey" FOREIGN KEY ("instructor_id") REFERENCES "instructors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "instructor_unavailable_dates" ADD CONSTRAINT "instructor_unavailable_dates_instructor_id_fkey" FOREIGN KEY ("instructor_id") REFERENCES "instructors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "meeting_change_requests" ADD CONSTRAINT "meeting_change_requests_substitute_instructor_id_fkey" FOREIGN KEY ("substitute_instructor_id") REFERENCES "instructors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
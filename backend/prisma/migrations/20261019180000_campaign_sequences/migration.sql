@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'one_shot',
+ADD COLUMN "trigger" TEXT,
+ADD COLUMN "exit_conditions" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "campaign_recipients" ADD COLUMN "step_id" TEXT,
+ADD COLUMN "enrollment_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "campaign_steps" (
+  "id" TEXT NOT NULL,
+  "campaign_id" TEXT NOT NULL,
+  "position" INTEGER NOT NULL,
+  "delay_minutes" INTEGER NOT NULL DEFAULT 0,
+  "channel" TEXT NOT NULL DEFAULT 'email',
+  "condition" TEXT NOT NULL DEFAULT 'always',
+  "subject" TEXT,
+  "content_html" TEXT,
+  "content_wa" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "campaign_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "campaign_enrollments" (
+  "id" TEXT NOT NULL,
+  "campaign_id" TEXT NOT NULL,
+  "customer_id" TEXT,
+  "recipient_name" TEXT,
+  "phone" TEXT,
+  "email" TEXT,
+  "trigger" TEXT NOT NULL,
+  "trigger_ref" TEXT,
+  "status" TEXT NOT NULL DEFAULT 'active',
+  "exit_reason" TEXT,
+  "current_step" INTEGER NOT NULL DEFAULT 1,
+  "next_run_at" TIMESTAMP(3),
+  "last_step_at" TIMESTAMP(3),
+  "completed_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "campaign_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "campaign_steps_campaign_id_position_key" ON "campaign_steps"("campaign_id", "position");
+CREATE UNIQUE INDEX "campaign_enrollments_campaign_id_customer_id_trigger_ref_key" ON "campaign_enrollments"("campaign_id", "customer_id", "trigger_ref");
+CREATE INDEX "campaign_enrollments_status_next_run_at_idx" ON "campaign_enrollments"("status", "next_run_at");
+CREATE INDEX "campaign_recipients_enrollment_id_idx" ON "campaign_recipients"("enrollment_id");
+
+ALTER TABLE "campaign_steps" ADD CONSTRAINT "campaign_steps_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "campaign_enrollments" ADD CONSTRAINT "campaign_enrollments_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "campaign_enrollments" ADD CONSTRAINT "campaign_enrollments_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "campaign_recipients" ADD CONSTRAINT "campaign_recipients_step_id_fkey" FOREIGN KEY ("step_id") REFERENCES "campaign_steps"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "campaign_recipients" ADD CONSTRAINT "campaign_recipients_enrollment_id_fkey" FOREIGN KEY ("enrollment_id") REFERENCES "campaign_enrollments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "campaigns" ADD COLUMN "ab_test_percent" INTEGER,
+ADD COLUMN "ab_winner_metric" TEXT,
+ADD COLUMN "ab_window_hours" INTEGER,
+ADD COLUMN "ab_test_sent_at" TIMESTAMP(3),
+ADD COLUMN "ab_decided_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "campaign_recipients" ADD COLUMN "variant_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "campaign_variants" (
+  "id" TEXT NOT NULL,
+  "campaign_id" TEXT NOT NULL,
+  "label" TEXT NOT NULL,
+  "subject" TEXT,
+  "content_html" TEXT,
+  "content_wa" TEXT,
+  "is_winner" BOOLEAN NOT NULL DEFAULT false,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "campaign_variants_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "campaign_variants_campaign_id_label_key" ON "campaign_variants"("campaign_id", "label");
+
+ALTER TABLE "campaign_variants" ADD CONSTRAINT "campaign_variants_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "campaign_recipients" ADD CONSTRAINT "campaign_recipients_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "campaign_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
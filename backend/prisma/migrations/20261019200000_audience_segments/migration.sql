@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "audience_segments" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "filters" JSONB NOT NULL,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "audience_segments_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "audience_segments" ADD CONSTRAINT "audience_segments_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
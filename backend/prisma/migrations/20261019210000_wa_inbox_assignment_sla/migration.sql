@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "wa_conversations" ADD COLUMN "assigned_to_id" TEXT,
+ADD COLUMN "assigned_at" TIMESTAMP(3),
+ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "opened_at" TIMESTAMP(3),
+ADD COLUMN "awaiting_reply_since" TIMESTAMP(3),
+ADD COLUMN "first_response_at" TIMESTAMP(3),
+ADD COLUMN "resolved_at" TIMESTAMP(3),
+ADD COLUMN "first_response_alerted_at" TIMESTAMP(3),
+ADD COLUMN "resolution_alerted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "wa_conversation_notes" (
+  "id" TEXT NOT NULL,
+  "conversation_id" TEXT NOT NULL,
+  "author_id" TEXT,
+  "body" TEXT NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "wa_conversation_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wa_canned_replies" (
+  "id" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "body" TEXT NOT NULL,
+  "shortcut" TEXT,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "wa_canned_replies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "wa_conversations_assigned_to_id_idx" ON "wa_conversations"("assigned_to_id");
+
+-- CreateIndex
+CREATE INDEX "wa_conversation_notes_conversation_id_idx" ON "wa_conversation_notes"("conversation_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wa_canned_replies_shortcut_key" ON "wa_canned_replies"("shortcut");
+
+-- AddForeignKey
+ALTER TABLE "wa_conversations" ADD CONSTRAINT "wa_conversations_assigned_to_id_fkey" FOREIGN KEY ("assigned_to_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wa_conversation_notes" ADD CONSTRAINT "wa_conversation_notes_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "wa_conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wa_conversation_notes" ADD CONSTRAINT "wa_conversation_notes_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wa_canned_replies" ADD CONSTRAINT "wa_canned_replies_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "InboxChannel" AS ENUM ('whatsapp', 'messenger', 'instagram');
+
+-- CreateTable
+CREATE TABLE "inbox_threads" (
+  "id" TEXT NOT NULL,
+  "channel" "InboxChannel" NOT NULL,
+  "thread_id" TEXT NOT NULL,
+  "customer_id" TEXT,
+  "linked_by" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "inbox_threads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbox_threads_channel_thread_id_key" ON "inbox_threads"("channel", "thread_id");
+
+-- CreateIndex
+CREATE INDEX "inbox_threads_customer_id_idx" ON "inbox_threads"("customer_id");
+
+-- AddForeignKey
+ALTER TABLE "inbox_threads" ADD CONSTRAINT "inbox_threads_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Link existing WhatsApp threads to customers by the last 9 phone digits
+INSERT INTO "inbox_threads" ("id", "channel", "thread_id", "customer_id", "linked_by", "updated_at")
+SELECT gen_random_uuid()::text, 'whatsapp', w."id", c."id", 'phone', CURRENT_TIMESTAMP
+FROM "wa_conversations" w
+JOIN LATERAL (
+  SELECT "id" FROM "customers"
+  WHERE "deleted_at" IS NULL
+    AND "phone" IS NOT NULL
+    AND right(regexp_replace("phone", '\D', '', 'g'), 9) = right(w."phone", 9)
+  ORDER BY "created_at"
+  LIMIT 1
+) c ON true;
@@ -0,0 +1,57 @@
+-- Global search: trigram matching over normalized text (see src/services/global-search.ts)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lowercase, drop niqqud / cantillation, geresh, gershayim and quotes, fold Hebrew final letters
+CREATE OR REPLACE FUNCTION crm_search_norm(input text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT translate(lower(regexp_replace(coalesce(input, ''), '[\u0591-\u05C7\u05F3\u05F4"'']', '', 'g')), 'ךםןףץ', 'כמנפצ')
+$$;
+
+-- Searchable document built from several columns (NULLs skipped)
+CREATE OR REPLACE FUNCTION crm_search_doc(VARIADIC parts text[]) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT crm_search_norm(array_to_string(parts, ' '))
+$$;
+
+-- Digits only, for matching 050-… against 97250…
+CREATE OR REPLACE FUNCTION crm_phone_digits(input text) RETURNS text
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT regexp_replace(coalesce(input, ''), '\D', '', 'g')
+$$;
+
+-- CreateIndex
+CREATE INDEX "customers_search_trgm_idx" ON "customers" USING gin (crm_search_doc("name", "email", "phone", "city") gin_trgm_ops);
+CREATE INDEX "customers_phone_digits_trgm_idx" ON "customers" USING gin (crm_phone_digits("phone") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "students_search_trgm_idx" ON "students" USING gin (crm_search_doc("name", "grade") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "instructors_search_trgm_idx" ON "instructors" USING gin (crm_search_doc("name", "email", "phone", "city") gin_trgm_ops);
+CREATE INDEX "instructors_phone_digits_trgm_idx" ON "instructors" USING gin (crm_phone_digits("phone") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "cycles_search_trgm_idx" ON "cycles" USING gin (crm_search_doc("name", "location") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "branches_search_trgm_idx" ON "branches" USING gin (crm_search_doc("name", "city", "address", "contact_name") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "institutional_orders_search_trgm_idx" ON "institutional_orders" USING gin (crm_search_doc("order_name", "order_number", "contact_name", "paying_body", "city") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "paying_bodies_search_trgm_idx" ON "paying_bodies" USING gin (crm_search_doc("name", "tax_id", "contact_name", "email") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "quotes_search_trgm_idx" ON "quotes" USING gin (crm_search_doc("quote_number", "institution_name", "contact_name", "contact_email") gin_trgm_ops);
+CREATE INDEX "quotes_phone_digits_trgm_idx" ON "quotes" USING gin (crm_phone_digits("contact_phone") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "tasks_search_trgm_idx" ON "tasks" USING gin (crm_search_doc("title", "description") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "lead_appointments_search_trgm_idx" ON "lead_appointments" USING gin (crm_search_doc("customer_name", "customer_email", "child_name", "interest") gin_trgm_ops);
+CREATE INDEX "lead_appointments_phone_digits_trgm_idx" ON "lead_appointments" USING gin (crm_phone_digits("customer_phone") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "wa_messages_search_trgm_idx" ON "wa_messages" USING gin (crm_search_doc("content") gin_trgm_ops);
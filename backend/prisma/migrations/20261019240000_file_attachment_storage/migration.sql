@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "file_attachments" ADD COLUMN "storage" TEXT NOT NULL DEFAULT 'local';
+
+-- CreateIndex
+CREATE INDEX "file_attachments_entity_type_entity_id_idx" ON "file_attachments"("entity_type", "entity_id");
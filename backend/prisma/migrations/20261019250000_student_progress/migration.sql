@@ -0,0 +1,89 @@
+-- AlterEnum
+ALTER TYPE "ParentNotificationType" ADD VALUE IF NOT EXISTS 'report_card';
+
+-- CreateEnum
+CREATE TYPE "CourseSkillKind" AS ENUM ('skill', 'milestone');
+
+-- CreateTable
+CREATE TABLE "course_skills" (
+  "id" TEXT NOT NULL,
+  "course_id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT,
+  "kind" "CourseSkillKind" NOT NULL DEFAULT 'skill',
+  "sort_order" INTEGER NOT NULL DEFAULT 0,
+  "is_active" BOOLEAN NOT NULL DEFAULT true,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "course_skills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "student_skill_ratings" (
+  "id" TEXT NOT NULL,
+  "meeting_id" TEXT NOT NULL,
+  "student_id" TEXT NOT NULL,
+  "skill_id" TEXT NOT NULL,
+  "score" INTEGER NOT NULL,
+  "note" TEXT,
+  "rated_by" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "student_skill_ratings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "student_report_cards" (
+  "id" TEXT NOT NULL,
+  "registration_id" TEXT NOT NULL,
+  "student_id" TEXT NOT NULL,
+  "cycle_id" TEXT NOT NULL,
+  "summary" JSONB NOT NULL,
+  "file_attachment_id" TEXT,
+  "generated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "sent_at" TIMESTAMP(3),
+  "sent_to" TEXT,
+
+  CONSTRAINT "student_report_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "course_skills_course_id_idx" ON "course_skills"("course_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "student_skill_ratings_meeting_id_student_id_skill_id_key" ON "student_skill_ratings"("meeting_id", "student_id", "skill_id");
+
+-- CreateIndex
+CREATE INDEX "student_skill_ratings_student_id_idx" ON "student_skill_ratings"("student_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "student_report_cards_registration_id_key" ON "student_report_cards"("registration_id");
+
+-- CreateIndex
+CREATE INDEX "student_report_cards_student_id_idx" ON "student_report_cards"("student_id");
+
+-- AddForeignKey
+ALTER TABLE "course_skills" ADD CONSTRAINT "course_skills_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_skill_ratings" ADD CONSTRAINT "student_skill_ratings_meeting_id_fkey" FOREIGN KEY ("meeting_id") REFERENCES "meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_skill_ratings" ADD CONSTRAINT "student_skill_ratings_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_skill_ratings" ADD CONSTRAINT "student_skill_ratings_skill_id_fkey" FOREIGN KEY ("skill_id") REFERENCES "course_skills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_skill_ratings" ADD CONSTRAINT "student_skill_ratings_rated_by_fkey" FOREIGN KEY ("rated_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_report_cards" ADD CONSTRAINT "student_report_cards_registration_id_fkey" FOREIGN KEY ("registration_id") REFERENCES "registrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_report_cards" ADD CONSTRAINT "student_report_cards_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "student_report_cards" ADD CONSTRAINT "student_report_cards_cycle_id_fkey" FOREIGN KEY ("cycle_id") REFERENCES "cycles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "course_lessons" (
+  "id" TEXT NOT NULL,
+  "course_id" TEXT NOT NULL,
+  "lesson_number" INTEGER NOT NULL,
+  "title" TEXT NOT NULL,
+  "objectives" TEXT,
+  "material_links" TEXT[] DEFAULT ARRAY[]::TEXT[],
+  "duration_minutes" INTEGER,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "course_lessons_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "meetings" ADD COLUMN "lesson_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "course_lessons_course_id_lesson_number_key" ON "course_lessons"("course_id", "lesson_number");
+
+-- CreateIndex
+CREATE INDEX "meetings_lesson_id_idx" ON "meetings"("lesson_id");
+
+-- AddForeignKey
+ALTER TABLE "course_lessons" ADD CONSTRAINT "course_lessons_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "meetings" ADD CONSTRAINT "meetings_lesson_id_fkey" FOREIGN KEY ("lesson_id") REFERENCES "course_lessons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "vat_rates" (
+  "id" TEXT NOT NULL,
+  "rate" DECIMAL(5,4) NOT NULL,
+  "effective_from" DATE NOT NULL,
+  "note" TEXT,
+  "recalculated_at" TIMESTAMP(3),
+  "created_by_id" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "vat_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vat_rates_effective_from_key" ON "vat_rates"("effective_from");
+
+-- Rates in force so far; revenue already stored before this table existed was derived at them
+INSERT INTO "vat_rates" ("id", "rate", "effective_from", "note", "updated_at") VALUES
+  (gen_random_uuid()::text, 0.17, '2015-10-01', 'מע״מ 17%', CURRENT_TIMESTAMP),
+  (gen_random_uuid()::text, 0.18, '2025-01-01', 'מע״מ 18%', CURRENT_TIMESTAMP);
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "quote_versions" (
+  "id" TEXT NOT NULL,
+  "quote_id" TEXT NOT NULL,
+  "version_number" INTEGER NOT NULL,
+  "snapshot" JSONB NOT NULL,
+  "final_amount" DECIMAL(10,2) NOT NULL,
+  "sent_by_id" TEXT,
+  "sent_to" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "quote_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quote_signatures" (
+  "id" TEXT NOT NULL,
+  "quote_id" TEXT NOT NULL,
+  "version_id" TEXT NOT NULL,
+  "signer_name" TEXT NOT NULL,
+  "signer_role" TEXT,
+  "signature" TEXT NOT NULL,
+  "ip_address" TEXT,
+  "user_agent" TEXT,
+  "file_attachment_id" TEXT,
+  "signed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "quote_signatures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quote_versions_quote_id_version_number_key" ON "quote_versions"("quote_id", "version_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quote_signatures_version_id_key" ON "quote_signatures"("version_id");
+
+-- CreateIndex
+CREATE INDEX "quote_signatures_quote_id_idx" ON "quote_signatures"("quote_id");
+
+-- AddForeignKey
+ALTER TABLE "quote_versions" ADD CONSTRAINT "quote_versions_quote_id_fkey" FOREIGN KEY ("quote_id") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_signatures" ADD CONSTRAINT "quote_signatures_quote_id_fkey" FOREIGN KEY ("quote_id") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_signatures" ADD CONSTRAINT "quote_signatures_version_id_fkey" FOREIGN KEY ("version_id") REFERENCES "quote_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
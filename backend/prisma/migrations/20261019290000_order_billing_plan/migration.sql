@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "billing_periods" ADD COLUMN "planned_amount" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "order_billing_plan_months" (
+  "id" TEXT NOT NULL,
+  "institutional_order_id" TEXT NOT NULL,
+  "month" DATE NOT NULL,
+  "expected_meetings" INTEGER NOT NULL,
+  "expected_amount" DECIMAL(10,2) NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "order_billing_plan_months_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_billing_plan_months_institutional_order_id_month_key" ON "order_billing_plan_months"("institutional_order_id", "month");
+
+-- AddForeignKey
+ALTER TABLE "order_billing_plan_months" ADD CONSTRAINT "order_billing_plan_months_institutional_order_id_fkey" FOREIGN KEY ("institutional_order_id") REFERENCES "institutional_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
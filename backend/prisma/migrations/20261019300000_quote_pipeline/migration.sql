@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "quotes" ADD COLUMN "sent_at" TIMESTAMP(3),
+ADD COLUMN "accepted_at" TIMESTAMP(3),
+ADD COLUMN "first_viewed_at" TIMESTAMP(3),
+ADD COLUMN "last_viewed_at" TIMESTAMP(3),
+ADD COLUMN "view_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "video_watched_at" TIMESTAMP(3),
+ADD COLUMN "expiry_reminder_sent_at" TIMESTAMP(3);
+
+-- Backfill: first send from the version history, acceptance from the client's signature
+UPDATE "quotes" q SET "sent_at" = v."first_sent"
+FROM (SELECT "quote_id", MIN("created_at") AS "first_sent" FROM "quote_versions" GROUP BY "quote_id") v
+WHERE v."quote_id" = q."id";
+
+UPDATE "quotes" q SET "accepted_at" = s."signed_at"
+FROM "quote_signatures" s
+WHERE s."quote_id" = q."id";
+
+-- CreateIndex
+CREATE INDEX "quotes_status_valid_until_idx" ON "quotes"("status", "valid_until");
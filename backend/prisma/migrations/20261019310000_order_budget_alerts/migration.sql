@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "institutional_orders" ADD COLUMN "budget_alert_80_sent_at" TIMESTAMP(3),
+ADD COLUMN "budget_alert_100_sent_at" TIMESTAMP(3),
+ADD COLUMN "budget_overrun_alert_sent_at" TIMESTAMP(3);
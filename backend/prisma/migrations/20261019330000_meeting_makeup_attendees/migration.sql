@@ -0,0 +1,14 @@
+CREATE TABLE "meeting_makeup_attendees" (
+  "id" TEXT NOT NULL,
+  "meeting_id" TEXT NOT NULL,
+  "registration_id" TEXT NOT NULL,
+  "parent_request_id" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "meeting_makeup_attendees_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "meeting_makeup_attendees_meeting_id_registration_id_key" ON "meeting_makeup_attendees"("meeting_id", "registration_id");
+
+ALTER TABLE "meeting_makeup_attendees" ADD CONSTRAINT "meeting_makeup_attendees_meeting_id_fkey" FOREIGN KEY ("meeting_id") REFERENCES "meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "meeting_makeup_attendees" ADD CONSTRAINT "meeting_makeup_attendees_registration_id_fkey" FOREIGN KEY ("registration_id") REFERENCES "registrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
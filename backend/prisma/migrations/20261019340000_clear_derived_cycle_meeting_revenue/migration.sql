@@ -0,0 +1,17 @@
+-- Registration changes used to store the registration-derived net revenue (gross / 1.18 /
+-- total meetings) on private cycles, where meeting_revenue means an explicit net amount.
+-- Clear the stored values that still match that derivation so those cycles derive revenue
+-- at each meeting's VAT rate again. Amounts entered by hand don't match and are kept.
+UPDATE "cycles" c
+SET "meeting_revenue" = NULL
+FROM (
+  SELECT "cycle_id", SUM(COALESCE("amount", 0)) AS gross
+  FROM "registrations"
+  WHERE "status" NOT IN ('cancelled', 'pending_cancellation')
+  GROUP BY "cycle_id"
+) r
+WHERE r."cycle_id" = c."id"
+  AND c."type" IN ('private', 'trial_private')
+  AND c."meeting_revenue" > 0
+  AND c."total_meetings" > 0
+  AND ABS(c."meeting_revenue" - ROUND(r.gross / 1.18 / c."total_meetings", 2)) <= 0.01;
@@ -0,0 +1,25 @@
+-- Quotes sent or accepted before quote_pipeline have no version or signature to date them.
+-- Take the first status change the audit log recorded; for accepted_at fall back to the
+-- converted order's creation, and only then to the quote's last update.
+UPDATE "quotes" q SET "sent_at" = a."first_at"
+FROM (
+  SELECT "entity_id", MIN("created_at") AS "first_at" FROM "audit_logs"
+  WHERE "entity" = 'Quote' AND "action" = 'UPDATE' AND "new_value"->>'status' = 'sent'
+  GROUP BY "entity_id"
+) a
+WHERE a."entity_id" = q."id" AND q."sent_at" IS NULL AND q."status" <> 'draft';
+
+UPDATE "quotes" q SET "accepted_at" = a."first_at"
+FROM (
+  SELECT "entity_id", MIN("created_at") AS "first_at" FROM "audit_logs"
+  WHERE "entity" = 'Quote' AND "action" = 'UPDATE' AND "new_value"->>'status' IN ('accepted', 'converted')
+  GROUP BY "entity_id"
+) a
+WHERE a."entity_id" = q."id" AND q."accepted_at" IS NULL AND q."status" IN ('accepted', 'converted');
+
+UPDATE "quotes" q SET "accepted_at" = o."created_at"
+FROM "institutional_orders" o
+WHERE o."id" = q."order_id" AND q."accepted_at" IS NULL AND q."status" = 'converted';
+
+UPDATE "quotes" SET "accepted_at" = "updated_at"
+WHERE "accepted_at" IS NULL AND "status" IN ('accepted', 'converted');
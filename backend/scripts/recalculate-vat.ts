@@ -0,0 +1,59 @@
+/**
+ * Re-derive meeting revenue after a VAT rate change.
+ *
+ * --from must be the effectiveFrom date of a rate already in vat_rates (add it via
+ * POST /api/vat-rates first). Only meetings scheduled from that date up to the next
+ * rate are considered, and of those only the ones whose revenue comes from VAT-inclusive
+ * registration amounts and that are not in an issued billing period — see
+ * recalculateMeetingsForVatRate() in src/services/vat-rates.ts.
+ *
+ * Runs as a dry run (prints the preview) unless --apply is passed.
+ *
+ * Usage:
+ *   npx tsx scripts/recalculate-vat.ts --from 2025-01-01
+ *   npx tsx scripts/recalculate-vat.ts --from 2025-01-01 --apply
+ */
+import { prisma } from '../src/utils/prisma.js';
+import { loadVatRates, recalculateMeetingsForVatRate } from '../src/services/vat-rates.js';
+
+async function main() {
+  const fromIndex = process.argv.indexOf('--from');
+  const from = fromIndex >= 0 ? process.argv[fromIndex + 1] : undefined;
+  const apply = process.argv.includes('--apply');
+
+  if (!from || !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+    throw new Error('Usage: npx tsx scripts/recalculate-vat.ts --from YYYY-MM-DD [--apply]');
+  }
+
+  const rate = await prisma.vatRate.findUnique({
+    where: { effectiveFrom: new Date(`${from}T00:00:00.000Z`) },
+  });
+  if (!rate) {
+    throw new Error(`No VAT rate starts on ${from} — refusing to recalculate`);
+  }
+
+  await loadVatRates();
+  const result = await recalculateMeetingsForVatRate(rate.id, { apply });
+
+  for (const change of result.changes) {
+    console.log(`${change.scheduledDate}  ${change.cycleName}: ${change.before} → ${change.after}`);
+  }
+  if (result.meetings > result.changes.length) {
+    console.log(`… and ${result.meetings - result.changes.length} more`);
+  }
+
+  console.log('\n=== Summary ===');
+  console.log(`Rate:           ${result.rate} (${result.from} – ${result.until ?? 'open'})`);
+  console.log(`Meetings:       ${result.meetings}`);
+  console.log(`Revenue before: ${result.revenueBefore}`);
+  console.log(`Revenue after:  ${result.revenueAfter}`);
+  if (!result.applied) console.log('(dry run — pass --apply to write)');
+  if (rate.recalculatedAt) console.log(`(already applied on ${rate.recalculatedAt.toISOString()})`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -164,6 +164,22 @@ export async function getDeliveries(req: AuthRequest, res: Response, next: NextF
   }
 }
 
+/**
+ * Redeliver a past webhook delivery
+ */
+export async function redeliverDelivery(req: AuthRequest, res: Response, next: NextFunction) {
+  try {
+    if (req.user?.role !== 'admin') {
+      throw new ForbiddenError('Only administrators can manage webhooks');
+    }
+
+    const delivery = await webhooksService.redeliver(req.params.deliveryId);
+    return sendCreated(res, delivery);
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Get available webhook events
  */
@@ -183,6 +199,14 @@ export async function getAvailableEvents(req: AuthRequest, res: Response, next:
         meeting: ['meeting.created', 'meeting.updated', 'meeting.completed', 'meeting.cancelled', 'meeting.postponed'],
         attendance: ['attendance.recorded'],
         lead: ['lead.received'],
+        billing: [
+          'billing_period.generated',
+          'billing_period.issued',
+          'billing_period.tax_invoice_issued',
+          'billing_period.drift_detected',
+          'billing_payment.recorded',
+        ],
+        quote: ['quote.accepted'],
       },
     });
   } catch (error) {
@@ -48,9 +48,21 @@ Headers:
 - customer.created, customer.updated, customer.deleted
 - meeting.completed, meeting.cancelled
 - lead.received
+- billing_period.generated, billing_period.issued, billing_period.tax_invoice_issued, billing_period.drift_detected
+- billing_payment.recorded
+- quote.accepted
 - ועוד...
 
+אירועי החיוב המוסדי (billing_*) ו-quote.accepted שולחים payload קבוע — ראו את הסכמות
+\`BillingPeriodEvent\`, \`BillingDriftEvent\`, \`BillingPaymentEvent\` ו-\`QuoteAcceptedEvent\`.
+סכומים הם מספרים ב-₪: \`totalAmount\` לפני מע״מ, \`totalGross\` / \`paidAmount\` / \`amount\` כולל מע״מ.
+
 כל webhook כולל HMAC-SHA256 signature ב-header \`X-Webhook-Signature\`.
+
+כל שליחה נרשמת ב-\`/webhooks/deliveries\`. שליחה שנכשלה (timeout / תשובה שאינה 2xx) נשלחת שוב
+עם backoff אקספוננציאלי (1 דק׳, 4 דק׳, 16 דק׳, ~1 שעה, ~4 שעות) עד 6 ניסיונות.
+webhook שנכשל 20 פעמים ברציפות מושהה אוטומטית (\`status: paused\`) — החזרה ל-\`active\` מאפסת את המונה.
+ה-header \`X-Webhook-Delivery\` זהה בכל הניסיונות ובשליחה חוזרת ידנית — השתמשו בו למניעת כפילויות.
     `,
     version: '1.0.0',
     contact: {
@@ -197,9 +209,121 @@ Headers:
           url: { type: 'string', format: 'uri' },
           events: { type: 'array', items: { type: 'string' } },
           status: { type: 'string', enum: ['active', 'paused', 'disabled'] },
+          consecutiveFailures: { type: 'integer' },
+          pausedAt: { type: 'string', format: 'date-time', nullable: true },
+          pausedReason: { type: 'string', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      WebhookDelivery: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          webhookId: { type: 'string' },
+          event: { type: 'string' },
+          payload: { type: 'object' },
+          responseCode: { type: 'integer', nullable: true },
+          success: { type: 'boolean' },
+          attempts: { type: 'integer' },
+          nextRetryAt: { type: 'string', format: 'date-time', nullable: true },
+          completedAt: { type: 'string', format: 'date-time', nullable: true },
+          error: { type: 'string', nullable: true },
+          redeliveryOfId: { type: 'string', nullable: true },
           createdAt: { type: 'string', format: 'date-time' },
         },
       },
+      WebhookPayload: {
+        type: 'object',
+        description: 'Body POSTed to the webhook URL. `data` depends on `event`.',
+        properties: {
+          id: { type: 'string', description: 'Delivery id — same as the X-Webhook-Delivery header' },
+          event: { type: 'string', example: 'billing_period.issued' },
+          timestamp: { type: 'string', format: 'date-time' },
+          data: { type: 'object' },
+        },
+      },
+      BillingPeriodEvent: {
+        type: 'object',
+        description: 'data for billing_period.generated / billing_period.issued / billing_period.tax_invoice_issued',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          institutionalOrderId: { type: 'string', format: 'uuid' },
+          institutionName: { type: 'string', nullable: true },
+          monthStart: { type: 'string', example: '2026-09' },
+          monthEnd: { type: 'string', example: '2026-09' },
+          status: { type: 'string', enum: ['draft', 'issued', 'cancelled'] },
+          totalAmount: { type: 'number', description: 'Net (before VAT)' },
+          totalGross: { type: 'number', description: 'Gross charged on the proforma' },
+          paidAmount: { type: 'number' },
+          paymentStatus: { type: 'string', enum: ['unpaid', 'partial', 'paid'] },
+          issuedAt: { type: 'string', format: 'date-time', nullable: true },
+          dueDate: { type: 'string', format: 'date', nullable: true },
+          proformaNumber: { type: 'integer', nullable: true },
+          proformaUrl: { type: 'string', nullable: true },
+          taxInvoiceNumber: { type: 'integer', nullable: true },
+          taxInvoiceType: { type: 'integer', nullable: true, description: '305 (tax invoice) or 320 (tax invoice + receipt)' },
+          taxInvoiceUrl: { type: 'string', nullable: true },
+          taxInvoiceIssuedAt: { type: 'string', format: 'date-time', nullable: true },
+          lines: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                cycleId: { type: 'string', nullable: true },
+                description: { type: 'string' },
+                quantity: { type: 'number' },
+                unitPrice: { type: 'number' },
+                total: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+      BillingDriftEvent: {
+        type: 'object',
+        description: 'data for billing_period.drift_detected — billable meetings changed after the proforma was issued',
+        properties: {
+          billingPeriod: { $ref: '#/components/schemas/BillingPeriodEvent' },
+          snapshotCount: { type: 'integer' },
+          currentCount: { type: 'integer' },
+          newSinceIssue: { type: 'array', items: { type: 'string' }, description: 'Meeting ids completed after issue (under-billed)' },
+          removedSinceIssue: { type: 'array', items: { type: 'string' }, description: 'Meeting ids no longer billable (over-billed)' },
+        },
+      },
+      BillingPaymentEvent: {
+        type: 'object',
+        description: 'data for billing_payment.recorded',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          billingPeriodId: { type: 'string', format: 'uuid' },
+          institutionalOrderId: { type: 'string', format: 'uuid' },
+          amount: { type: 'number' },
+          method: { type: 'string', nullable: true },
+          paidAt: { type: 'string', format: 'date-time' },
+          receiptNumber: { type: 'integer', nullable: true },
+          receiptUrl: { type: 'string', nullable: true },
+          periodPaidAmount: { type: 'number', description: 'Sum of all payments on the period after this one' },
+          periodPaymentStatus: { type: 'string', enum: ['unpaid', 'partial', 'paid'] },
+        },
+      },
+      QuoteAcceptedEvent: {
+        type: 'object',
+        description: 'data for quote.accepted',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          quoteNumber: { type: 'string' },
+          institutionName: { type: 'string' },
+          contactName: { type: 'string' },
+          contactEmail: { type: 'string', nullable: true },
+          customerId: { type: 'string', nullable: true },
+          branchId: { type: 'string', nullable: true },
+          totalAmount: { type: 'number' },
+          finalAmount: { type: 'number' },
+          includesVat: { type: 'boolean' },
+          acceptedVia: { type: 'string', enum: ['crm', 'public_link'] },
+          clientNotes: { type: 'string', nullable: true },
+        },
+      },
     },
     responses: {
       Unauthorized: {
@@ -453,6 +577,32 @@ Headers:
         },
       },
     },
+    '/webhooks/deliveries/{deliveryId}/redeliver': {
+      post: {
+        tags: ['Webhooks'],
+        summary: 'Redeliver a past delivery (admin only)',
+        description: 'Creates a new delivery with the same payload and sends it immediately, even if the webhook is paused.',
+        parameters: [
+          { name: 'deliveryId', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+          201: {
+            description: 'New delivery',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    data: { $ref: '#/components/schemas/WebhookDelivery' },
+                  },
+                },
+              },
+            },
+          },
+          404: { description: 'Delivery not found' },
+        },
+      },
+    },
     '/reports/revenue': {
       get: {
         tags: ['Reports'],
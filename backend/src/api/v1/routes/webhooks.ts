@@ -7,6 +7,7 @@ import {
   deleteWebhook,
   testWebhook,
   getDeliveries,
+  redeliverDelivery,
   getAvailableEvents,
 } from '../controllers/webhooks.controller.js';
 import { authenticate } from '../middleware/auth.js';
@@ -37,6 +38,13 @@ router.get('/events', getAvailableEvents);
  */
 router.get('/deliveries', getDeliveries);
 
+/**
+ * @route   POST /api/v1/webhooks/deliveries/:deliveryId/redeliver
+ * @desc    Send a past delivery again (new delivery row, same payload)
+ * @access  Private (admin)
+ */
+router.post('/deliveries/:deliveryId/redeliver', redeliverDelivery);
+
 /**
  * @route   GET /api/v1/webhooks/:id
  * @desc    Get a single webhook (includes secret)
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../../../utils/prisma.js', () => ({
+  prisma: {
+    webhook: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    webhookDelivery: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../middleware/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { prisma } from '../../../../utils/prisma.js';
+import {
+  webhooksService,
+  nextRetryDelayMs,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_AUTO_PAUSE_FAILURES,
+} from '../webhooks.service.js';
+
+const mockPrisma = vi.mocked(prisma) as any;
+const fetchMock = vi.fn();
+
+function delivery(overrides: Record<string, any> = {}) {
+  return {
+    id: 'delivery-1',
+    webhookId: 'webhook-1',
+    event: 'meeting.completed',
+    payload: { id: 'delivery-1', event: 'meeting.completed', timestamp: '2026-10-19T08:00:00.000Z', data: { id: 'meeting-1' } },
+    attempts: 0,
+    success: false,
+    completedAt: null,
+    nextRetryAt: new Date('2026-10-19T08:00:00.000Z'),
+    webhook: {
+      id: 'webhook-1',
+      url: 'https://hooks.example/crm',
+      secret: 'secret',
+      headers: null,
+      status: 'active',
+      consecutiveFailures: 0,
+    },
+    ...overrides,
+  };
+}
+
+describe('webhook delivery retries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([{ id: 'delivery-1' }]);
+    mockPrisma.webhookDelivery.update.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('backs off exponentially and caps the delay at 12 hours', () => {
+    expect(nextRetryDelayMs(1)).toBe(60_000);
+    expect(nextRetryDelayMs(2)).toBe(240_000);
+    expect(nextRetryDelayMs(3)).toBe(960_000);
+    expect(nextRetryDelayMs(20)).toBe(12 * 60 * 60 * 1000);
+  });
+
+  it('schedules the next attempt when the endpoint fails', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(delivery());
+    mockPrisma.webhook.update.mockResolvedValue({ id: 'webhook-1', status: 'active', consecutiveFailures: 1 });
+    fetchMock.mockResolvedValue({ ok: false, status: 503, text: () => Promise.resolve('unavailable') });
+
+    await webhooksService.processDueRetries(new Date('2026-10-19T08:00:00.000Z'));
+
+    const update = mockPrisma.webhookDelivery.update.mock.calls[0][0];
+    expect(update.data).toMatchObject({ attempts: 1, success: false, responseCode: 503, completedAt: null });
+    expect(update.data.nextRetryAt.getTime() - Date.now()).toBeGreaterThan(50_000);
+    expect(mockPrisma.webhook.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(delivery({ attempts: WEBHOOK_MAX_ATTEMPTS - 1 }));
+    mockPrisma.webhook.update.mockResolvedValue({ id: 'webhook-1', status: 'active', consecutiveFailures: 1 });
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await webhooksService.processDueRetries();
+
+    const update = mockPrisma.webhookDelivery.update.mock.calls[0][0];
+    expect(update.data).toMatchObject({ attempts: WEBHOOK_MAX_ATTEMPTS, error: 'ECONNREFUSED', nextRetryAt: null });
+    expect(update.data.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('auto-pauses the webhook after too many consecutive failures', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(delivery());
+    mockPrisma.webhook.update.mockResolvedValueOnce({
+      id: 'webhook-1',
+      status: 'active',
+      consecutiveFailures: WEBHOOK_AUTO_PAUSE_FAILURES,
+    });
+    fetchMock.mockResolvedValue({ ok: false, status: 500, text: () => Promise.resolve('') });
+
+    await webhooksService.processDueRetries();
+
+    expect(mockPrisma.webhook.update).toHaveBeenLastCalledWith({
+      where: { id: 'webhook-1' },
+      data: expect.objectContaining({ status: 'paused', pausedAt: expect.any(Date) }),
+    });
+  });
+
+  it('marks the delivery complete and resets the failure counter on success', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(delivery({
+      attempts: 2,
+      webhook: { ...delivery().webhook, consecutiveFailures: 3 },
+    }));
+    fetchMock.mockResolvedValue({ ok: true, status: 200, text: () => Promise.resolve('ok') });
+
+    await webhooksService.processDueRetries();
+
+    expect(mockPrisma.webhookDelivery.update.mock.calls[0][0].data).toMatchObject({ attempts: 3, success: true, nextRetryAt: null });
+    expect(mockPrisma.webhook.update).toHaveBeenCalledWith({ where: { id: 'webhook-1' }, data: { consecutiveFailures: 0 } });
+    expect(fetchMock.mock.calls[0][1].headers['X-Webhook-Signature']).toMatch(/^sha256=/);
+  });
+
+  it('keeps a new delivery away from the retry worker while its inline attempt is in flight', async () => {
+    mockPrisma.webhook.findMany.mockResolvedValue([delivery().webhook]);
+    mockPrisma.webhookDelivery.create.mockResolvedValue({ id: 'delivery-1' });
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(delivery());
+    fetchMock.mockResolvedValue({ ok: true, status: 200, text: async () => 'ok' });
+
+    await webhooksService.emitEvent('meeting.completed', { id: 'meeting-1' });
+
+    const created = mockPrisma.webhookDelivery.create.mock.calls[0][0];
+    expect(created.data.nextRetryAt.getTime() - Date.now()).toBeGreaterThan(30_000);
+  });
+
+  it('skips deliveries whose webhook has been paused', async () => {
+    mockPrisma.webhookDelivery.findUnique.mockResolvedValue(delivery({
+      webhook: { ...delivery().webhook, status: 'paused' },
+    }));
+
+    await webhooksService.processDueRetries();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockPrisma.webhookDelivery.update).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,7 @@
 import { NotFoundError, ConflictError } from '../../../common/errors/index.js';
 import { attendanceRepository, AttendanceRepository } from '../repositories/attendance.repository.js';
 import { logAudit } from '../../../utils/audit.js';
+import { publishDomainEvent } from '../../../services/domain-events.js';
 import { prisma } from '../../../utils/prisma.js';
 import { Request } from 'express';
 import {
@@ -104,6 +105,8 @@ export class AttendanceService {
       });
     }
 
+    publishDomainEvent('attendance.recorded', { meetingId: attendance.meetingId, records: [attendance] });
+
     return attendance;
   }
 
@@ -132,6 +135,8 @@ export class AttendanceService {
       });
     }
 
+    publishDomainEvent('attendance.recorded', { meetingId: attendance.meetingId, records: [attendance] });
+
     return attendance;
   }
 
@@ -198,6 +203,13 @@ export class AttendanceService {
       });
     }
 
+    publishDomainEvent('attendance.recorded', {
+      meetingId: meeting.id,
+      cycleId: meeting.cycleId,
+      scheduledDate: meeting.scheduledDate,
+      records: results,
+    });
+
     return results;
   }
 }
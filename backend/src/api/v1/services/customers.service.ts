@@ -1,6 +1,7 @@
 import { NotFoundError, ConflictError } from '../../../common/errors/index.js';
 import { customersRepository, CustomersRepository } from '../repositories/customers.repository.js';
 import { logAudit } from '../../../utils/audit.js';
+import { publishDomainEvent } from '../../../services/domain-events.js';
 import { Request } from 'express';
 import { 
   CustomerQuery, 
@@ -70,6 +71,8 @@ export class CustomersService {
       });
     }
 
+    publishDomainEvent('customer.created', customer);
+
     return customer;
   }
 
@@ -118,6 +121,8 @@ export class CustomersService {
       });
     }
 
+    publishDomainEvent('customer.updated', customer);
+
     return customer;
   }
 
@@ -144,6 +149,8 @@ export class CustomersService {
         req,
       });
     }
+
+    publishDomainEvent('customer.deleted', existing);
   }
 
   /**
@@ -183,6 +190,8 @@ export class CustomersService {
       });
     }
 
+    publishDomainEvent('student.created', student);
+
     return student;
   }
 }
@@ -1,6 +1,7 @@
 import { NotFoundError, ConflictError } from '../../../common/errors/index.js';
 import { cyclesRepository, CyclesRepository } from '../repositories/cycles.repository.js';
 import { logAudit } from '../../../utils/audit.js';
+import { publishDomainEvent } from '../../../services/domain-events.js';
 import { prisma } from '../../../utils/prisma.js';
 import { Request } from 'express';
 import {
@@ -14,6 +15,7 @@ import {
 import { fetchHolidays, dayNameToNumber } from '../../../utils/holidays.js';
 import { recalculateInstructorPaymentsForCycle } from '../../../services/instructor-payment.js';
 import { resolveRegistrationAmount } from '../../../utils/registration-amount.js';
+import { assignCycleLessons } from '../../../services/course-curriculum.js';
 
 /**
  * Cycles Service - Business logic layer
@@ -76,6 +78,8 @@ export class CyclesService {
       });
     }
 
+    publishDomainEvent('cycle.created', cycle);
+
     return cycle;
   }
 
@@ -131,6 +135,11 @@ export class CyclesService {
       });
     }
 
+    publishDomainEvent('cycle.updated', cycle);
+    if (cycle.status !== existing.status && (cycle.status === 'completed' || cycle.status === 'cancelled')) {
+      publishDomainEvent(cycle.status === 'completed' ? 'cycle.completed' : 'cycle.cancelled', cycle);
+    }
+
     return cycle;
   }
 
@@ -226,6 +235,8 @@ export class CyclesService {
       });
     }
 
+    publishDomainEvent('registration.created', registration);
+
     return registration;
   }
 
@@ -235,7 +246,10 @@ export class CyclesService {
   async generateMeetings(cycleId: string, req?: Request) {
     const cycle = await prisma.cycle.findUnique({
       where: { id: cycleId },
-      include: { meetings: { where: { deletedAt: null } } },
+      include: {
+        branch: { select: { type: true } },
+        meetings: { where: { deletedAt: null } },
+      },
     });
 
     if (!cycle) {
@@ -274,10 +288,10 @@ export class CyclesService {
       }
     }
 
-    // Fetch holidays
+    // Fetch holidays and organization closures for the branch type
     const startYear = currentDate.getFullYear();
-    const holidaysThisYear = await fetchHolidays(startYear);
-    const holidaysNextYear = await fetchHolidays(startYear + 1);
+    const holidaysThisYear = await fetchHolidays(startYear, cycle.branch?.type, cycle.branchId);
+    const holidaysNextYear = await fetchHolidays(startYear + 1, cycle.branch?.type, cycle.branchId);
     const allHolidays = new Set([...holidaysThisYear, ...holidaysNextYear]);
 
     // Generate meetings, skipping holidays
@@ -305,6 +319,7 @@ export class CyclesService {
 
     if (meetings.length > 0) {
       await prisma.meeting.createMany({ data: meetings });
+      await assignCycleLessons(cycleId);
 
       // Update cycle end date and remaining meetings
       const lastMeetingDate = meetings[meetings.length - 1].scheduledDate;
@@ -1,6 +1,7 @@
 import { NotFoundError, ValidationError } from '../../../common/errors/index.js';
 import { meetingsRepository, MeetingsRepository } from '../repositories/meetings.repository.js';
 import { logAudit } from '../../../utils/audit.js';
+import { publishDomainEvent, publishMeetingUpdated } from '../../../services/domain-events.js';
 import { prisma } from '../../../utils/prisma.js';
 import { Request } from 'express';
 import {
@@ -94,6 +95,8 @@ export class MeetingsService {
       });
     }
 
+    publishDomainEvent('meeting.created', meeting);
+
     return meeting;
   }
 
@@ -172,6 +175,8 @@ export class MeetingsService {
       });
     }
 
+    publishMeetingUpdated(meeting, existing.status, existing);
+
     return meeting;
   }
 
@@ -275,6 +280,11 @@ export class MeetingsService {
       });
     }
 
+    publishMeetingUpdated({ ...existing, status: 'postponed' }, existing.status);
+    if (newMeeting) {
+      publishDomainEvent('meeting.created', newMeeting);
+    }
+
     return {
       originalMeeting: { id, status: 'postponed' },
       newMeeting,
@@ -290,6 +300,7 @@ export class MeetingsService {
     id?: string;
     cycleId: string;
     instructorId: string;
+    scheduledDate: Date;
     startTime: Date;
     endTime: Date;
     activityType: string | null;
@@ -300,7 +311,7 @@ export class MeetingsService {
       return { revenue: 0, instructorPayment: 0, profit: 0 };
     }
 
-    const revenue = meeting.nature === 'no_revenue' ? 0 : meetingRevenueForCycle(cycle);
+    const revenue = meeting.nature === 'no_revenue' ? 0 : meetingRevenueForCycle(cycle, meeting.scheduledDate);
 
     const instructor = meeting.instructorId === cycle.instructorId
       ? cycle.instructor
@@ -370,6 +381,8 @@ export class MeetingsService {
       });
     }
 
+    publishMeetingUpdated(meeting, existing.status);
+
     return meeting;
   }
 
@@ -423,6 +436,8 @@ export class MeetingsService {
       });
     }
 
+    publishMeetingUpdated(meeting, existing.status);
+
     return meeting;
   }
 
@@ -560,7 +575,8 @@ export class MeetingsService {
           updateData.profit = 0;
         }
 
-        await this.repository.update(id, updateData, req?.user?.userId);
+        const meeting = await this.repository.update(id, updateData, req?.user?.userId);
+        publishMeetingUpdated(meeting, existing.status);
         updated++;
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : 'Unknown error';
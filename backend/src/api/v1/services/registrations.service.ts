@@ -1,6 +1,7 @@
 import { NotFoundError, ConflictError } from '../../../common/errors/index.js';
 import { registrationsRepository, RegistrationsRepository } from '../repositories/registrations.repository.js';
 import { logAudit } from '../../../utils/audit.js';
+import { publishDomainEvent } from '../../../services/domain-events.js';
 import { prisma } from '../../../utils/prisma.js';
 import { resolveRegistrationAmount } from '../../../utils/registration-amount.js';
 import { Request } from 'express';
@@ -84,6 +85,8 @@ export class RegistrationsService {
       });
     }
 
+    publishDomainEvent('registration.created', registration);
+
     return registration;
   }
 
@@ -112,6 +115,8 @@ export class RegistrationsService {
       });
     }
 
+    publishDomainEvent('registration.updated', registration);
+
     return registration;
   }
 
@@ -182,6 +187,8 @@ export class RegistrationsService {
       });
     }
 
+    publishDomainEvent('registration.cancelled', registration);
+
     return registration;
   }
 
@@ -216,6 +223,8 @@ export class RegistrationsService {
       });
     }
 
+    publishDomainEvent('registration.updated', registration);
+
     return registration;
   }
 }
@@ -1,6 +1,7 @@
 import { NotFoundError, ValidationError } from '../../../common/errors/index.js';
 import { studentsRepository, StudentsRepository } from '../repositories/students.repository.js';
 import { logAudit } from '../../../utils/audit.js';
+import { publishDomainEvent } from '../../../services/domain-events.js';
 import { Request } from 'express';
 import { StudentQuery, CreateStudentInput, UpdateStudentInput } from '../validators/students.js';
 
@@ -53,6 +54,8 @@ export class StudentsService {
       });
     }
 
+    publishDomainEvent('student.created', student);
+
     return student;
   }
 
@@ -81,6 +84,8 @@ export class StudentsService {
       });
     }
 
+    publishDomainEvent('student.updated', student);
+
     return student;
   }
 
@@ -107,6 +112,8 @@ export class StudentsService {
         req,
       });
     }
+
+    publishDomainEvent('student.deleted', existing);
   }
 
   /**
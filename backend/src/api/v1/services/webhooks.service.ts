@@ -14,6 +14,10 @@ export interface WebhookResponse {
   url: string;
   events: string[];
   status: string;
+  consecutiveFailures: number;
+  lastFailureAt: Date | null;
+  pausedAt: Date | null;
+  pausedReason: string | null;
   headers: Record<string, string> | null;
   createdBy: {
     id: string;
@@ -51,6 +55,36 @@ function generateSecret(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
+/**
+ * Attempts per delivery before it is given up on (first try + retries)
+ */
+export const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+
+/**
+ * Consecutive failed attempts (across deliveries) before a webhook is auto-paused
+ */
+export const WEBHOOK_AUTO_PAUSE_FAILURES = Number(process.env.WEBHOOK_AUTO_PAUSE_FAILURES) || 20;
+
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 12 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * A new delivery is first attempted inline, so the retry worker must not see it until that
+ * attempt has certainly finished (or the process died mid-send).
+ */
+const IN_FLIGHT_GRACE_MS = 4 * DELIVERY_TIMEOUT_MS;
+
+const afterInlineAttempt = () => new Date(Date.now() + IN_FLIGHT_GRACE_MS);
+
+/**
+ * Exponential backoff after the Nth failed attempt: 1m, 4m, 16m, ~1h, ~4h, then capped at 12h
+ */
+export function nextRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(RETRY_BASE_MS * Math.pow(4, exponent), RETRY_MAX_MS);
+}
+
 /**
  * Webhooks Service - Business logic for webhook management and delivery
  */
@@ -147,6 +181,9 @@ export class WebhooksService {
       throw new NotFoundError('Webhook');
     }
 
+    // Re-activating a paused webhook clears the auto-pause bookkeeping
+    const resuming = input.status === 'active' && existing.status !== 'active';
+
     const webhook = await prisma.webhook.update({
       where: { id },
       data: {
@@ -156,6 +193,7 @@ export class WebhooksService {
         secret: input.secret,
         headers: input.headers,
         status: input.status,
+        ...(resuming && { consecutiveFailures: 0, pausedAt: null, pausedReason: null }),
       },
       include: {
         createdBy: {
@@ -180,7 +218,8 @@ export class WebhooksService {
   }
 
   /**
-   * Test webhook by sending a test payload
+   * Test webhook by sending a test payload.
+   * Test deliveries are recorded but never retried and never count towards auto-pause.
    */
   async test(id: string, event: WebhookEvent, payload?: Record<string, any>): Promise<{
     success: boolean;
@@ -200,11 +239,35 @@ export class WebhooksService {
       data: payload || { test: true, message: 'This is a test webhook delivery' },
     };
 
-    return this.deliverWebhook(webhook, testPayload);
+    const result = await this.send(webhook, testPayload);
+
+    await prisma.webhookDelivery.create({
+      data: {
+        webhookId: webhook.id,
+        event,
+        payload: testPayload as any,
+        responseCode: result.responseCode,
+        responseBody: result.responseBody,
+        success: result.success,
+        error: result.error,
+        completedAt: new Date(),
+      },
+    });
+
+    return {
+      success: result.success,
+      responseCode: result.responseCode,
+      responseBody: result.responseBody?.substring(0, 500),
+      error: result.error,
+    };
   }
 
   /**
-   * Emit an event to all subscribed webhooks
+   * Emit an event to all subscribed webhooks.
+   *
+   * A WebhookDelivery row is written per subscribed webhook BEFORE the first attempt,
+   * so a crash mid-send still leaves a pending row for the retry worker to pick up once
+   * the inline attempt's grace period has passed.
    */
   async emitEvent(event: WebhookEvent, data: Record<string, any>): Promise<void> {
     // Find all active webhooks subscribed to this event
@@ -223,24 +286,175 @@ export class WebhooksService {
       id: crypto.randomUUID(),
       event,
       timestamp: new Date().toISOString(),
-      data,
+      // Round-trip through JSON so Decimal/Date values are stored exactly as they are sent
+      data: JSON.parse(JSON.stringify(data)),
     };
 
+    const deliveries = await Promise.all(
+      webhooks.map(webhook =>
+        prisma.webhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            event,
+            payload: payload as any,
+            attempts: 0,
+            nextRetryAt: afterInlineAttempt(),
+          },
+          select: { id: true },
+        })
+      )
+    );
+
     // Deliver to all webhooks in parallel
-    const deliveries = webhooks.map(webhook => 
-      this.deliverWebhook(webhook, payload).catch(error => {
-        logger.error({ error, webhookId: webhook.id }, 'Webhook delivery failed');
-        return { success: false, error: error.message };
-      })
+    await Promise.all(
+      deliveries.map(delivery =>
+        this.attemptDelivery(delivery.id).catch(error => {
+          logger.error({ error, deliveryId: delivery.id }, 'Webhook delivery failed');
+        })
+      )
     );
+  }
+
+  /**
+   * Manually redeliver a past delivery. Creates a new delivery row with the same
+   * payload (same payload id, so receivers can de-duplicate) and attempts it right away.
+   * Works for paused webhooks too — the admin asked for it explicitly.
+   */
+  async redeliver(deliveryId: string) {
+    const original = await prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+    if (!original) {
+      throw new NotFoundError('Webhook delivery');
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        webhookId: original.webhookId,
+        event: original.event,
+        payload: original.payload as any,
+        attempts: 0,
+        nextRetryAt: afterInlineAttempt(),
+        redeliveryOfId: original.id,
+      },
+      select: { id: true },
+    });
+
+    await this.attemptDelivery(delivery.id, { force: true });
 
-    await Promise.all(deliveries);
+    return prisma.webhookDelivery.findUnique({
+      where: { id: delivery.id },
+      include: {
+        webhook: {
+          select: { id: true, name: true, url: true, status: true },
+        },
+      },
+    });
   }
 
   /**
-   * Deliver webhook payload with retry logic
+   * Process deliveries whose nextRetryAt has passed. Called by the retry worker.
+   * Returns the number of deliveries attempted.
    */
-  private async deliverWebhook(
+  async processDueRetries(now: Date = new Date(), batchSize = 50): Promise<number> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        success: false,
+        completedAt: null,
+        nextRetryAt: { lte: now },
+        webhook: { status: 'active' },
+      },
+      select: { id: true },
+      orderBy: { nextRetryAt: 'asc' },
+      take: batchSize,
+    });
+
+    for (const delivery of due) {
+      await this.attemptDelivery(delivery.id).catch(error => {
+        logger.error({ error, deliveryId: delivery.id }, 'Webhook retry failed');
+      });
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Make one attempt at a stored delivery and record the outcome on the row:
+   * success → completedAt; failure → exponential backoff via nextRetryAt, or
+   * completedAt once WEBHOOK_MAX_ATTEMPTS is reached. Also maintains the
+   * webhook's consecutive-failure counter and auto-pauses it past the threshold.
+   */
+  private async attemptDelivery(deliveryId: string, options: { force?: boolean } = {}) {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+    if (!delivery || delivery.success || (delivery.completedAt && !options.force)) return;
+    if (delivery.webhook.status !== 'active' && !options.force) return;
+
+    const result = await this.send(delivery.webhook, delivery.payload as WebhookPayload);
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+
+    if (result.success) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          attempts,
+          success: true,
+          responseCode: result.responseCode,
+          responseBody: result.responseBody,
+          error: null,
+          nextRetryAt: null,
+          completedAt: now,
+        },
+      });
+      if (delivery.webhook.consecutiveFailures > 0) {
+        await prisma.webhook.update({
+          where: { id: delivery.webhookId },
+          data: { consecutiveFailures: 0 },
+        });
+      }
+      return;
+    }
+
+    const exhausted = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts,
+        success: false,
+        responseCode: result.responseCode ?? null,
+        responseBody: result.responseBody ?? null,
+        error: result.error ?? `HTTP ${result.responseCode}`,
+        nextRetryAt: exhausted ? null : new Date(now.getTime() + nextRetryDelayMs(attempts)),
+        completedAt: exhausted ? now : null,
+      },
+    });
+
+    const webhook = await prisma.webhook.update({
+      where: { id: delivery.webhookId },
+      data: {
+        consecutiveFailures: { increment: 1 },
+        lastFailureAt: now,
+      },
+    });
+
+    if (webhook.status === 'active' && webhook.consecutiveFailures >= WEBHOOK_AUTO_PAUSE_FAILURES) {
+      await prisma.webhook.update({
+        where: { id: webhook.id },
+        data: {
+          status: 'paused',
+          pausedAt: now,
+          pausedReason: `Auto-paused after ${webhook.consecutiveFailures} consecutive failed deliveries`,
+        },
+      });
+      logger.warn({ webhookId: webhook.id, failures: webhook.consecutiveFailures }, 'Webhook auto-paused');
+    }
+  }
+
+  /**
+   * POST a signed payload to the webhook URL. Never throws — failures are returned.
+   */
+  private async send(
     webhook: { id: string; url: string; secret: string | null; headers: any },
     payload: WebhookPayload
   ): Promise<{ success: boolean; responseCode?: number; responseBody?: string; error?: string }> {
@@ -267,7 +481,7 @@ export class WebhooksService {
 
     try {
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
+      const timeoutId = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
 
       const response = await fetch(webhook.url, {
         method: 'POST',
@@ -279,43 +493,17 @@ export class WebhooksService {
       clearTimeout(timeoutId);
 
       const responseBody = await response.text().catch(() => '');
-      const success = response.ok;
-
-      // Record delivery
-      await prisma.webhookDelivery.create({
-        data: {
-          webhookId: webhook.id,
-          event: payload.event,
-          payload: payload as any,
-          responseCode: response.status,
-          responseBody: responseBody.substring(0, 1000), // Limit response body size
-          success,
-          completedAt: new Date(),
-        },
-      });
 
       return {
-        success,
+        success: response.ok,
         responseCode: response.status,
-        responseBody: responseBody.substring(0, 500),
+        responseBody: responseBody.substring(0, 1000), // Limit response body size
       };
     } catch (error: any) {
       const errorMessage = error.name === 'AbortError' 
         ? 'Request timeout' 
         : error.message || 'Unknown error';
 
-      // Record failed delivery
-      await prisma.webhookDelivery.create({
-        data: {
-          webhookId: webhook.id,
-          event: payload.event,
-          payload: payload as any,
-          success: false,
-          error: errorMessage,
-          nextRetryAt: new Date(Date.now() + 5 * 60 * 1000), // Retry in 5 minutes
-        },
-      });
-
       return {
         success: false,
         error: errorMessage,
@@ -372,6 +560,10 @@ export class WebhooksService {
       url: webhook.url,
       events: webhook.events,
       status: webhook.status,
+      consecutiveFailures: webhook.consecutiveFailures,
+      lastFailureAt: webhook.lastFailureAt,
+      pausedAt: webhook.pausedAt,
+      pausedReason: webhook.pausedReason,
       headers: webhook.headers as Record<string, string> | null,
       createdBy: webhook.createdBy,
       createdAt: webhook.createdAt,
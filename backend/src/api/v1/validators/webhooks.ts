@@ -37,6 +37,16 @@ export const WEBHOOK_EVENTS = [
   
   // Lead events (from public endpoint)
   'lead.received',
+
+  // Institutional billing events
+  'billing_period.generated',
+  'billing_period.issued',
+  'billing_period.tax_invoice_issued',
+  'billing_period.drift_detected',
+  'billing_payment.recorded',
+
+  // Quote events
+  'quote.accepted',
 ] as const;
 
 export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
@@ -12,6 +12,7 @@ import { studentsRouter } from './routes/students.js';
 import { coursesRouter } from './routes/courses.js';
 import { lessonAiRouter } from './routes/lesson-ai.js';
 import { branchesRouter } from './routes/branches.js';
+import { closuresRouter } from './routes/closures.js';
 import { instructorsRouter } from './routes/instructors.js';
 import { inviteRouter } from './routes/invite.js';
 import { cyclesRouter } from './routes/cycles.js';
@@ -28,6 +29,8 @@ import zoomRouter from './routes/zoom.js';
 import zoomWebhookRouter from './routes/zoom-webhook.js';
 import { instructorMagicRouter } from './routes/instructor-magic.js';
 import { parentAppRouter } from './routes/parent-app.js';
+import { parentRequestsRouter } from './routes/parent-requests.js';
+import { waitlistRouter } from './routes/waitlist.js';
 import { messagingRouter } from './routes/messaging.js';
 import expensesRouter from './routes/expenses.js';
 import { emailRouter } from './routes/email.js';
@@ -39,11 +42,24 @@ import { initProformaAlertScheduler } from './services/proforma-alerts.js';
 import { initTaskReminderScheduler } from './services/task-reminders.js';
 import { initWooBackupSyncScheduler } from './services/woo-sync-scheduler.js';
 import { initGoogleMeetArtifactsScheduler } from './services/google-meet-artifacts-scheduler.js';
+import { initWebhookRetryScheduler } from './services/webhook-retry-scheduler.js';
+import { initParentNotificationSubscribers } from './services/parent-notifications.js';
+import { initWaitlistScheduler, initWaitlistSubscribers } from './services/waitlist.js';
+import { initCampaignDripScheduler, initCampaignDripSubscribers } from './services/campaignDrip.service.js';
+import { initCurriculumSubscribers } from './services/course-curriculum.js';
+import { loadVatRates } from './services/vat-rates.js';
+import { initCampaignAbTestScheduler } from './services/campaignAbTest.service.js';
+import { initWaInboxScheduler } from './services/wa-inbox.js';
+import { initFileRetentionScheduler } from './services/file-attachments.js';
+import { initQuoteExpiryScheduler } from './services/quote-expiry.js';
+import { initOrderBudgetScheduler } from './services/order-budget.js';
 import { reconcileOmerRegistrationPayment } from './services/omer-payment-reconciliation.js';
+import { reconcileRegistrationBalance } from './services/parent-billing.js';
 import { forecastRouter } from './routes/forecast.js';
 import { quotesRouter } from './routes/quotes.js';
 import { publicQuoteRouter } from './routes/public-quote.js';
 import { publicCancelRouter } from './routes/public-cancel.js';
+import { publicWaitlistRouter } from './routes/public-waitlist.js';
 import { vapiWebhookRouter } from './routes/vapi-webhook.js';
 import { morningWebhookRouter } from './routes/morning-webhook.js';
 import { morningRouter } from './routes/morning.js';
@@ -63,8 +79,13 @@ import { operationsControlRouter } from './routes/operations-control.js';
 import waRouter from './routes/whatsapp.js';
 import { messengerRouter } from './routes/messenger.js';
 import { instagramRouter } from './routes/instagram.js';
+import { inboxRouter } from './routes/inbox.js';
+import { searchRouter } from './routes/search.js';
+import { progressRouter } from './routes/progress.js';
+import { vatRatesRouter } from './routes/vat-rates.js';
 import { paymentsRouter } from './routes/payments.js';
-import { ensureMorningClientId, paymentLinksRouter } from './routes/payment-links.js';
+import { paymentLinksRouter } from './routes/payment-links.js';
+import { ensureMorningClientId } from './services/payment-links.js';
 import { campaignsRouter } from './routes/campaigns.js';
 import { campaignLeadsRouter } from './routes/campaign-leads.js';
 import { facebookLeadsRouter } from './routes/facebook-leads.js';
@@ -202,6 +223,7 @@ app.use('/api/students', studentsRouter);
 app.use('/api/courses', coursesRouter);
 app.use('/api/lesson-ai', lessonAiRouter);
 app.use('/api/branches', branchesRouter);
+app.use('/api/closures', closuresRouter); // Holiday calendar + organization closures
 app.use('/api/instructors', instructorsRouter);
 app.use('/api/messaging', messagingRouter);
 app.use('/api/cycles', cyclesRouter);
@@ -217,11 +239,14 @@ app.use('/api/zoom', zoomRouter);
 app.use('/api/zoom-webhook', zoomWebhookRouter);
 app.use('/api/instructor-magic', instructorMagicRouter);
 app.use('/api/parent', parentAppRouter); // Parent mobile app API
+app.use('/api/parent-requests', parentRequestsRouter); // Review of parent self-service requests
+app.use('/api/waitlist', waitlistRouter); // Cycle waitlist entries (offer, place, reorder, remove)
 app.use('/api/expenses', expensesRouter); // Expense tracking
 app.use('/api/email', emailRouter); // Email service
 app.use('/api/forecast', forecastRouter); // Financial forecasting
 app.use('/api/public/quotes', publicQuoteRouter); // Public quote view (no auth)
 app.use('/api/public/cancel', publicCancelRouter); // Public cancellation form (no auth)
+app.use('/api/public/waitlist', publicWaitlistRouter); // Public waitlist seat offer (no auth)
 app.use('/api/quotes', quotesRouter); // Quote management
 app.use('/api/vapi-webhook', vapiWebhookRouter); // Vapi AI webhook (no auth)
 app.use('/api/vapi-tools', vapiToolsRouter); // Vapi AI tool calls - Google Calendar (no auth)
@@ -238,6 +263,10 @@ app.use('/api/files', filesRouter); // File attachments (instructors, quotes)
 app.use('/api/wa', waRouter); // WhatsApp Cloud API inbox
 app.use('/api/messenger', messengerRouter); // Facebook Messenger inbox
 app.use('/api/instagram', instagramRouter); // Instagram DM inbox
+app.use('/api/inbox', inboxRouter); // Unified inbox across WhatsApp / Messenger / Instagram
+app.use('/api/search', searchRouter); // Global search across CRM entities (command palette)
+app.use('/api/progress', progressRouter); // Student skill ratings, progress timeline, report cards
+app.use('/api/vat-rates', vatRatesRouter); // Effective-dated VAT rates + guarded revenue recalculation
 app.use('/api/payments', paymentsRouter); // WooCommerce payment links
 app.use('/api/payment-links', paymentLinksRouter); // Morning hosted payment forms
 app.use('/api/system-users', systemUsersRouter); // System users management (admin/manager)
@@ -335,10 +364,15 @@ async function recordPaidPaymentLink(code: string) {
       status: 'paid',
       paymentMethod: 'payment_link_success',
       paidAt: new Date(),
+      registrationId: link.registrationId,
     },
   });
 
-  await reconcileOmerRegistrationPayment(payment.id);
+  if (link.registrationId) {
+    await reconcileRegistrationBalance(link.registrationId);
+  } else {
+    await reconcileOmerRegistrationPayment(payment.id);
+  }
 
   return { link, payment, customer, created: createdCustomer, duplicate: false };
 }
@@ -651,8 +685,15 @@ const start = async () => {
     await prisma.$connect();
     console.log('✅ Database connected');
 
+    // VAT rate table used by the net/gross helpers
+    await loadVatRates();
+
     // Initialize email services
     initEmailQueue();
+    initParentNotificationSubscribers();
+    initWaitlistSubscribers();
+    initCampaignDripSubscribers();
+    initCurriculumSubscribers();
     if (process.env.DISABLE_CRON === 'true') {
       console.log('⚠️  DISABLE_CRON=true — schedulers disabled (dev mode)');
       if (process.env.DISABLE_TASK_REMINDERS_CRON !== 'true') {
@@ -666,6 +707,14 @@ const start = async () => {
       initTaskReminderScheduler();
       initWooBackupSyncScheduler();
       initGoogleMeetArtifactsScheduler();
+      initWebhookRetryScheduler();
+      initWaitlistScheduler();
+      initCampaignDripScheduler();
+      initCampaignAbTestScheduler();
+      initWaInboxScheduler();
+      initFileRetentionScheduler();
+      initQuoteExpiryScheduler();
+      initOrderBudgetScheduler();
     }
 
     app.listen(config.port, () => {
@@ -72,9 +72,19 @@ vi.mock('../../utils/recalcMeetingRevenue.js', () => ({
   recalcMeetingRevenue: vi.fn(),
 }));
 
+vi.mock('../../services/instructor-conflicts.js', () => ({
+  checkInstructorConflicts: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../../services/course-curriculum.js', () => ({
+  assignCycleLessons: vi.fn(),
+}));
+
 import { cyclesRouter } from '../cycles.js';
 import { prisma } from '../../utils/prisma.js';
-import { errorHandler } from '../../middleware/errorHandler.js';
+import { assignCycleLessons } from '../../services/course-curriculum.js';
+import { checkInstructorConflicts } from '../../services/instructor-conflicts.js';
+import { AppError, errorHandler } from '../../middleware/errorHandler.js';
 
 const mockPrisma = vi.mocked(prisma);
 
@@ -159,6 +169,7 @@ describe('cycle meeting generation', () => {
       '2026-09-27',
     ]);
     expect(response.body.generated).toBe(2);
+    expect(assignCycleLessons).toHaveBeenCalledWith('cycle-1');
   });
 
   it('regenerates editable meetings while preserving completed and cancelled meetings', async () => {
@@ -224,6 +235,28 @@ describe('cycle meeting generation', () => {
     ]);
   });
 
+  it('checks the regenerated schedule with the caller\'s allowConflicts before updating the cycle', async () => {
+    mockPrisma.cycle.findUnique.mockResolvedValueOnce(baseCycle as any);
+    mockPrisma.branch.findUnique.mockResolvedValue({ type: 'school' } as any);
+    mockPrisma.meeting.findMany.mockResolvedValueOnce([
+      { id: 'scheduled-1', scheduledDate: date('2026-09-13'), status: 'scheduled' },
+      { id: 'completed-1', scheduledDate: date('2026-09-06'), status: 'completed' },
+    ] as any);
+    vi.mocked(checkInstructorConflicts).mockRejectedValueOnce(new AppError(409, 'conflict'));
+
+    const response = await request(app)
+      .put('/api/cycles/cycle-1')
+      .send({ dayOfWeek: 'tuesday', regenerateMeetings: true });
+
+    expect(response.status).toBe(409);
+    const [planned, allowConflicts, replacedIds] = vi.mocked(checkInstructorConflicts).mock.calls[0];
+    expect(planned.map(m => m.scheduledDate.toISOString().slice(0, 10))).toEqual(['2026-09-15', '2026-09-22', '2026-09-29']);
+    expect(allowConflicts).toBe(false);
+    expect(replacedIds).toEqual(['scheduled-1']);
+    expect(mockPrisma.cycle.update).not.toHaveBeenCalled();
+    expect(mockPrisma.meeting.deleteMany).not.toHaveBeenCalled();
+  });
+
   it('does not auto-generate meetings for trial private cycles', async () => {
     const trialCycle = {
       ...baseCycle,
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: (_req: any, _res: any, next: any) => next(),
+  managerOrAdmin: (_req: any, _res: any, next: any) => next(),
+}));
+
+vi.mock('../../utils/prisma.js', () => ({
+  prisma: {
+    institutionalOrder: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../services/quotes.service.js', () => ({ buildOrderPreview: vi.fn() }));
+vi.mock('../../services/order-billing-plan.js', () => ({ buildOrderBillingPlan: vi.fn(), getOrderBillingPlan: vi.fn() }));
+vi.mock('../../services/order-budget.js', () => ({ getOrderBudgetConsumption: vi.fn() }));
+vi.mock('../../utils/audit.js', () => ({ logAudit: vi.fn() }));
+
+import { institutionalOrdersRouter } from '../institutional-orders.js';
+import { prisma } from '../../utils/prisma.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+
+const mockPrisma = vi.mocked(prisma);
+
+const app = express();
+app.use(express.json());
+app.use('/api/institutional-orders', institutionalOrdersRouter);
+app.use(errorHandler);
+
+const ALERTS_CLEARED = { budgetAlert80SentAt: null, budgetAlert100SentAt: null, budgetOverrunAlertSentAt: null };
+
+describe('institutional order budget alerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.institutionalOrder.findUnique.mockResolvedValue({
+      id: 'order-1',
+      estimatedTotal: null,
+      estimatedMeetings: 10,
+      totalAmount: null,
+      pricePerMeeting: 360,
+    } as any);
+    mockPrisma.institutionalOrder.update.mockResolvedValue({ id: 'order-1' } as any);
+  });
+
+  it('re-arms the alerts when the price per meeting changes', async () => {
+    const res = await request(app).put('/api/institutional-orders/order-1').send({ pricePerMeeting: 400 });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.institutionalOrder.update.mock.calls[0][0].data).toMatchObject({ ...ALERTS_CLEARED, pricePerMeeting: 400 });
+  });
+
+  it('keeps the alerts when the budget is unchanged', async () => {
+    const res = await request(app).put('/api/institutional-orders/order-1').send({ pricePerMeeting: 360, notes: 'עודכן' });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.institutionalOrder.update.mock.calls[0][0].data).not.toHaveProperty('budgetAlert80SentAt');
+  });
+});
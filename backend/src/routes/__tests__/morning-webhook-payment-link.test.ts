@@ -33,10 +33,15 @@ vi.mock('../../services/omer-payment-reconciliation.js', () => ({
   reconcileOmerRegistrationPayment: vi.fn(),
 }));
 
+vi.mock('../../services/parent-billing.js', () => ({
+  reconcileRegistrationBalance: vi.fn(),
+}));
+
 import { morningWebhookRouter } from '../morning-webhook.js';
 import { prisma } from '../../utils/prisma.js';
 import { sendWhatsAppMessage } from '../../services/notifications.js';
 import { reconcileOmerRegistrationPayment } from '../../services/omer-payment-reconciliation.js';
+import { reconcileRegistrationBalance } from '../../services/parent-billing.js';
 
 const mockPrisma = vi.mocked(prisma);
 const mockSendWhatsAppMessage = vi.mocked(sendWhatsAppMessage);
@@ -170,4 +175,26 @@ describe('Morning webhook payment-link sync', () => {
     expect(res.body.ignored).toBe(true);
     expect(mockPrisma.payment.create).not.toHaveBeenCalled();
   });
+
+  it('settles the enrollment a parent-app payment link was issued for', async () => {
+    mockPrisma.paymentLink.findUnique.mockResolvedValue({
+      id: 'link-id',
+      code: 'pay23',
+      customerId: 'customer-id',
+      registrationId: 'reg-1',
+      clientName: 'לקוח',
+    } as any);
+    mockPrisma.customer.findUnique.mockResolvedValue({ id: 'customer-id', name: 'לקוח', phone: '972501234567', email: 'payer@example.com' } as any);
+
+    const res = await request(app)
+      .post('/api/morning-webhook?paymentLinkCode=pay23')
+      .send(paidPayload);
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.payment.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ registrationId: 'reg-1' }),
+    }));
+    expect(reconcileRegistrationBalance).toHaveBeenCalledWith('reg-1');
+    expect(mockReconcileOmerRegistrationPayment).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: {} }));
+vi.mock('../../services/quotes.service.js', () => ({ getQuoteById: vi.fn() }));
+vi.mock('../../services/quote-versions.js', () => ({ getPublicQuoteView: vi.fn(), signQuote: vi.fn() }));
+vi.mock('../../services/notifications.js', () => ({ sendEmail: vi.fn() }));
+vi.mock('../../services/quote-pipeline.js', () => ({ recordQuoteViewEvent: vi.fn() }));
+
+import { publicQuoteRouter } from '../public-quote.js';
+import { recordQuoteViewEvent } from '../../services/quote-pipeline.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { config } from '../../config.js';
+
+const app = express();
+app.use(express.json());
+app.use('/api/public/quotes', publicQuoteRouter);
+app.use(errorHandler);
+
+const QUOTE_ID = '6f1c2d3e-4b5a-4c6d-8e7f-901234567890';
+
+describe('public quote view events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('records views from the client', async () => {
+    const res = await request(app).post(`/api/public/quotes/${QUOTE_ID}/events`).send({ type: 'video' });
+
+    expect(res.status).toBe(204);
+    expect(recordQuoteViewEvent).toHaveBeenCalledWith(QUOTE_ID, 'video');
+  });
+
+  it('ignores views from staff logged into the CRM', async () => {
+    const token = jwt.sign({ userId: 'user-1', email: 'staff@example.com', role: 'sales' }, config.jwt.secret);
+
+    const res = await request(app)
+      .post(`/api/public/quotes/${QUOTE_ID}/events`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ type: 'view' });
+
+    expect(res.status).toBe(204);
+    expect(recordQuoteViewEvent).not.toHaveBeenCalled();
+  });
+});
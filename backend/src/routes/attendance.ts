@@ -4,6 +4,7 @@ import { authenticate } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { z } from 'zod';
 import { logAudit } from '../utils/audit.js';
+import { publishDomainEvent } from '../services/domain-events.js';
 
 export const attendanceRouter = Router();
 
@@ -11,6 +12,16 @@ attendanceRouter.use(authenticate);
 
 const uuidSchema = z.string().uuid();
 
+function publishAttendanceRecorded(meeting: { id: string; cycleId: string; scheduledDate: Date }, records: unknown[]) {
+  if (records.length === 0) return;
+  publishDomainEvent('attendance.recorded', {
+    meetingId: meeting.id,
+    cycleId: meeting.cycleId,
+    scheduledDate: meeting.scheduledDate,
+    records,
+  });
+}
+
 // Get attendance for a meeting (with registered students pre-populated)
 attendanceRouter.get('/meeting/:meetingId', async (req, res, next) => {
   try {
@@ -33,6 +44,19 @@ attendanceRouter.get('/meeting/:meetingId', async (req, res, next) => {
             },
           },
         },
+        makeupAttendees: {
+          include: {
+            registration: {
+              include: {
+                student: {
+                  include: {
+                    customer: { select: { name: true, phone: true } },
+                  },
+                },
+              },
+            },
+          },
+        },
         attendance: {
           include: {
             registration: {
@@ -68,6 +92,7 @@ attendanceRouter.get('/meeting/:meetingId', async (req, res, next) => {
       grade: string | null;
       status: string | null;
       isTrial: boolean;
+      isMakeup: boolean;
       notes: string | null;
       attendanceId: string | null;
     };
@@ -99,11 +124,30 @@ attendanceRouter.get('/meeting/:meetingId', async (req, res, next) => {
         grade: reg.student.grade,
         status: existing?.status || null,
         isTrial: false,
+        isMakeup: false,
         notes: existing?.notes || null,
         attendanceId: existing?.id || null,
       };
     });
 
+    // Add students from other cycles joining this meeting as an approved make-up lesson
+    meeting.makeupAttendees.forEach(({ registration: reg }) => {
+      const existing = attendanceMap.get(reg.id);
+      attendanceList.push({
+        registrationId: reg.id,
+        studentId: reg.student.id,
+        studentName: reg.student.name,
+        customerName: reg.student.customer?.name || null,
+        customerPhone: reg.student.customer?.phone || null,
+        grade: reg.student.grade,
+        status: existing?.status || null,
+        isTrial: false,
+        isMakeup: true,
+        notes: existing?.notes || null,
+        attendanceId: existing?.id || null,
+      });
+    });
+
     // Add any trial/guest attendees that aren't in registrations
     meeting.attendance
       .filter((a) => a.isTrial || (!a.registrationId && a.studentId))
@@ -118,6 +162,7 @@ attendanceRouter.get('/meeting/:meetingId', async (req, res, next) => {
             grade: a.student?.grade || null,
             status: a.status,
             isTrial: true,
+            isMakeup: false,
             notes: a.notes,
             attendanceId: a.id,
           });
@@ -137,6 +182,7 @@ attendanceRouter.get('/meeting/:meetingId', async (req, res, next) => {
           grade: null,
           status: a.status,
           isTrial: true,
+          isMakeup: false,
           notes: a.notes,
           attendanceId: a.id,
         });
@@ -210,6 +256,7 @@ attendanceRouter.post('/meeting/:meetingId', async (req, res, next) => {
           recordedAt: new Date(),
         },
       });
+      publishAttendanceRecorded(meeting, [attendance]);
       return res.json(attendance);
     }
 
@@ -236,6 +283,7 @@ attendanceRouter.post('/meeting/:meetingId', async (req, res, next) => {
           recordedAt: new Date(),
         },
       });
+      publishAttendanceRecorded(meeting, [attendance]);
       return res.json(attendance);
     }
 
@@ -254,6 +302,7 @@ attendanceRouter.post('/meeting/:meetingId', async (req, res, next) => {
             recordedById: userId,
           },
         });
+        publishAttendanceRecorded(meeting, [updated]);
         return res.json(updated);
       }
 
@@ -267,6 +316,7 @@ attendanceRouter.post('/meeting/:meetingId', async (req, res, next) => {
           recordedById: userId,
         },
       });
+      publishAttendanceRecorded(meeting, [created]);
       return res.status(201).json(created);
     }
 
@@ -386,7 +436,10 @@ attendanceRouter.put('/meeting/:meetingId/bulk', async (req, res, next) => {
       })
     );
 
-    res.json({ updated: results.filter(Boolean).length });
+    const recorded = results.filter((r): r is NonNullable<typeof r> => r !== null);
+    publishAttendanceRecorded(meeting, recorded);
+
+    res.json({ updated: recorded.length });
   } catch (error) {
     next(error);
   }
@@ -7,10 +7,12 @@ import {
   updateBranchSchema, 
   createInstitutionalOrderSchema,
   updateInstitutionalOrderSchema,
+  createBranchBlackoutSchema,
   paginationSchema, 
   uuidSchema 
 } from '../types/schemas.js';
 import { logAudit, logUpdateAudit } from '../utils/audit.js';
+import { applyBranchBlackout, findBlackoutMeetings } from '../services/branch-blackout.js';
 
 export const branchesRouter = Router();
 
@@ -279,3 +281,124 @@ branchesRouter.get('/:id/cycles', async (req, res, next) => {
     next(error);
   }
 });
+
+function parseBlackoutDate(value: unknown, name: string): Date {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new AppError(400, `${name} must be YYYY-MM-DD`);
+  }
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+// Get branch's blackout days
+branchesRouter.get('/:id/blackouts', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+
+    const blackouts = await prisma.branchBlackout.findMany({
+      where: { branchId: id },
+      orderBy: { startDate: 'desc' },
+    });
+
+    res.json(blackouts);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Preview the meetings a blackout would postpone
+branchesRouter.get('/:id/blackouts/preview', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const startDate = parseBlackoutDate(req.query.startDate, 'startDate');
+    const endDate = req.query.endDate ? parseBlackoutDate(req.query.endDate, 'endDate') : startDate;
+
+    const meetings = await findBlackoutMeetings(id, startDate, endDate);
+
+    res.json(meetings.map((meeting) => ({
+      id: meeting.id,
+      scheduledDate: meeting.scheduledDate,
+      startTime: meeting.startTime,
+      cycle: { id: meeting.cycle.id, name: meeting.cycle.name },
+      instructor: meeting.instructor ? { id: meeting.instructor.id, name: meeting.instructor.name } : null,
+    })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a blackout to a branch — by default postpones the affected meetings right away
+branchesRouter.post('/:id/blackouts', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const branchId = uuidSchema.parse(req.params.id);
+    const data = createBranchBlackoutSchema.parse(req.body);
+
+    const branch = await prisma.branch.findUnique({ where: { id: branchId } });
+    if (!branch) {
+      throw new AppError(404, 'Branch not found');
+    }
+
+    const blackout = await prisma.branchBlackout.create({
+      data: {
+        branchId,
+        reason: data.reason,
+        startDate: new Date(`${data.startDate}T00:00:00.000Z`),
+        endDate: new Date(`${data.endDate || data.startDate}T00:00:00.000Z`),
+        createdById: req.user?.userId ?? null,
+      },
+    });
+
+    await logAudit({
+      action: 'CREATE',
+      entity: 'BranchBlackout',
+      entityId: blackout.id,
+      newValue: { branchId, reason: blackout.reason, startDate: data.startDate, endDate: data.endDate || data.startDate },
+      req,
+    });
+
+    const result = data.apply ? await applyBranchBlackout(blackout.id, req.user!.userId) : null;
+
+    res.status(201).json({ blackout, result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Re-apply a blackout (e.g. meetings were scheduled on its dates after it was added)
+branchesRouter.post('/:id/blackouts/:blackoutId/apply', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const branchId = uuidSchema.parse(req.params.id);
+    const blackoutId = uuidSchema.parse(req.params.blackoutId);
+
+    const blackout = await prisma.branchBlackout.findFirst({ where: { id: blackoutId, branchId } });
+    if (!blackout) {
+      throw new AppError(404, 'Blackout not found');
+    }
+
+    const result = await applyBranchBlackout(blackout.id, req.user!.userId);
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a blackout — future generation stops skipping it; postponed meetings stay postponed
+branchesRouter.delete('/:id/blackouts/:blackoutId', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const branchId = uuidSchema.parse(req.params.id);
+    const blackoutId = uuidSchema.parse(req.params.blackoutId);
+
+    const blackout = await prisma.branchBlackout.findFirst({ where: { id: blackoutId, branchId } });
+    if (!blackout) {
+      throw new AppError(404, 'Blackout not found');
+    }
+
+    await prisma.branchBlackout.delete({ where: { id: blackout.id } });
+
+    await logAudit({ action: 'DELETE', entity: 'BranchBlackout', entityId: blackout.id, oldValue: { branchId, reason: blackout.reason }, req });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
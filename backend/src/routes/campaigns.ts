@@ -1,8 +1,13 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
 import { authenticate, managerOrAdmin } from '../middleware/auth.js';
 import { prisma } from '../utils/prisma.js';
-import { resolveAudience, sendCampaign, AudienceFilters } from '../services/campaigns.service.js';
+import { getAudienceOptions, resolveAudience, sendCampaign, AudienceFilters } from '../services/campaigns.service.js';
 import { generateCampaignAI } from '../services/campaignAI.service.js';
+import { activateDripCampaign, pauseDripCampaign, replaceCampaignSteps } from '../services/campaignDrip.service.js';
+import { assignVariantSlices, decideAbTest, getVariantStats, replaceCampaignVariants } from '../services/campaignAbTest.service.js';
+import { getCampaignAttribution } from '../services/campaignAttribution.service.js';
+import { audienceSegmentSchema, campaignAttributionQuerySchema, campaignDripSettingsSchema, campaignStepsSchema, campaignVariantsSchema } from '../types/schemas.js';
 import { sendEmail } from '../services/email/sender.js';
 import axios from 'axios';
 
@@ -134,7 +139,7 @@ campaignsRouter.get('/', async (_req: Request, res: Response, next: NextFunction
       orderBy: { createdAt: 'desc' },
       include: {
         createdBy: { select: { id: true, name: true } },
-        _count: { select: { recipients: true } },
+        _count: { select: { recipients: true, steps: true, enrollments: true, variants: true } },
       },
     });
 
@@ -203,10 +208,12 @@ campaignsRouter.get('/', async (_req: Request, res: Response, next: NextFunction
 campaignsRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { name, description, channel, audienceFilters, subject, contentHtml, contentWa, landingUrl } = req.body;
+    const drip = campaignDripSettingsSchema.parse(req.body);
     const userId = req.user!.userId;
 
     const campaign = await prisma.campaign.create({
       data: {
+        ...drip,
         name,
         description,
         channel: channel || 'email',
@@ -235,6 +242,73 @@ campaignsRouter.post('/preview-audience', async (req: Request, res: Response, ne
   }
 });
 
+// GET /api/campaigns/audience-options — distinct sources / cities for the audience rules
+campaignsRouter.get('/audience-options', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await getAudienceOptions());
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─── Saved audience segments (must come before /:id) ──────────────────────
+
+campaignsRouter.get('/segments', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const segments = await prisma.audienceSegment.findMany({
+      orderBy: { name: 'asc' },
+      include: { createdBy: { select: { id: true, name: true } } },
+    });
+    res.json(segments);
+  } catch (err) {
+    next(err);
+  }
+});
+
+campaignsRouter.post('/segments', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = audienceSegmentSchema.parse(req.body);
+    const segment = await prisma.audienceSegment.create({
+      data: { ...data, filters: data.filters as Prisma.InputJsonValue, createdById: req.user!.userId },
+    });
+    res.status(201).json(segment);
+  } catch (err) {
+    next(err);
+  }
+});
+
+campaignsRouter.put('/segments/:segmentId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = audienceSegmentSchema.parse(req.body);
+    const segment = await prisma.audienceSegment.update({
+      where: { id: req.params.segmentId },
+      data: { ...data, filters: data.filters as Prisma.InputJsonValue },
+    });
+    res.json(segment);
+  } catch (err) {
+    next(err);
+  }
+});
+
+campaignsRouter.delete('/segments/:segmentId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await prisma.audienceSegment.delete({ where: { id: req.params.segmentId } });
+    res.json({ success: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/campaigns/attribution?from=&to=&windowDays= — registrations / revenue per campaign; must come before /:id
+campaignsRouter.get('/attribution', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query = campaignAttributionQuerySchema.parse(req.query);
+    res.json(await getCampaignAttribution(query));
+  } catch (err) {
+    next(err);
+  }
+});
+
 // GET /api/campaigns/:id — single
 campaignsRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -242,10 +316,12 @@ campaignsRouter.get('/:id', async (req: Request, res: Response, next: NextFuncti
       where: { id: req.params.id },
       include: {
         createdBy: { select: { id: true, name: true } },
-        _count: { select: { recipients: true } },
+        steps: { orderBy: { position: 'asc' } },
+        _count: { select: { recipients: true, enrollments: true } },
       },
     });
-    res.json(campaign);
+    const variants = await getVariantStats(campaign.id);
+    res.json({ ...campaign, variants });
   } catch (err) {
     next(err);
   }
@@ -255,9 +331,11 @@ campaignsRouter.get('/:id', async (req: Request, res: Response, next: NextFuncti
 campaignsRouter.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { name, description, channel, audienceFilters, subject, contentHtml, contentWa, scheduledAt, landingUrl } = req.body;
+    const drip = campaignDripSettingsSchema.parse(req.body);
     const campaign = await prisma.campaign.update({
       where: { id: req.params.id },
       data: {
+        ...drip,
         ...(name !== undefined && { name }),
         ...(description !== undefined && { description }),
         ...(channel !== undefined && { channel }),
@@ -430,9 +508,20 @@ campaignsRouter.post('/:id/send', async (req: Request, res: Response, next: Next
 
     const campaign = await prisma.campaign.findUniqueOrThrow({
       where: { id: campaignId },
-      include: { _count: { select: { recipients: { where: { status: 'pending' } } } } },
+      include: {
+        _count: { select: { recipients: { where: { status: 'pending' } }, variants: true } },
+      },
     });
 
+    if (campaign.type === 'drip') {
+      res.status(400).json({ error: 'Drip campaigns are started with /activate' });
+      return;
+    }
+    if (campaign.status === 'ab_testing') {
+      res.status(400).json({ error: 'Waiting for the A/B test winner' });
+      return;
+    }
+
     const pendingCount = (campaign as any)._count?.recipients ?? 0;
 
     // Allow re-sending if there are still pending recipients (daily batch mode)
@@ -473,13 +562,21 @@ campaignsRouter.post('/:id/send', async (req: Request, res: Response, next: Next
 
       await prisma.campaign.update({
         where: { id: campaignId },
-        data: { recipientCount: audience.count },
+        data: { recipientCount: audience.count, dailyLimit: dailyLimit ?? null },
       });
     }
 
     const batchSize = dailyLimit ?? undefined;
+    const isAbTest = !isResend && campaign._count.variants >= 2;
 
-    if (scheduledAt) {
+    if (isAbTest && !scheduledAt) {
+      // Send the variants to the test slice; the winner goes to the rest after the window
+      const slices = await assignVariantSlices(campaignId);
+      sendCampaign(campaignId, undefined, { abTest: true }).catch(err => {
+        console.error(`Campaign ${campaignId} A/B test send error:`, err);
+      });
+      res.json({ status: 'ab_testing', ...slices });
+    } else if (scheduledAt) {
       await prisma.campaign.update({
         where: { id: campaignId },
         data: { status: 'scheduled', scheduledAt: new Date(scheduledAt) },
@@ -522,3 +619,107 @@ campaignsRouter.get('/:id/recipients', async (req: Request, res: Response, next:
     next(err);
   }
 });
+
+// ─── Drip campaigns ────────────────────────────────────────────────────────
+
+// GET /api/campaigns/:id/steps
+campaignsRouter.get('/:id/steps', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const steps = await prisma.campaignStep.findMany({
+      where: { campaignId: req.params.id },
+      orderBy: { position: 'asc' },
+    });
+    res.json(steps);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/campaigns/:id/steps — replace the whole sequence
+campaignsRouter.put('/:id/steps', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = campaignStepsSchema.parse(req.body);
+    res.json(await replaceCampaignSteps(req.params.id, data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/campaigns/:id/activate
+campaignsRouter.post('/:id/activate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await activateDripCampaign(req.params.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/campaigns/:id/pause
+campaignsRouter.post('/:id/pause', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await pauseDripCampaign(req.params.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /api/campaigns/:id/enrollments — each recipient's progress through the sequence
+campaignsRouter.get('/:id/enrollments', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = parseInt(String(req.query.page || '1'));
+    const limit = parseInt(String(req.query.limit || '50'));
+    const skip = (page - 1) * limit;
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    const where = { campaignId: req.params.id, ...(status && { status }) };
+
+    const [enrollments, total, byStatus] = await Promise.all([
+      prisma.campaignEnrollment.findMany({
+        where,
+        skip,
+        take: limit,
+        include: {
+          customer: { select: { id: true, name: true, phone: true, email: true } },
+          recipients: {
+            select: { id: true, stepId: true, status: true, sentAt: true, openedAt: true, clickCount: true },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.campaignEnrollment.count({ where }),
+      prisma.campaignEnrollment.groupBy({
+        by: ['status'],
+        where: { campaignId: req.params.id },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const counts: Record<string, number> = {};
+    for (const row of byStatus) counts[row.status] = row._count._all;
+
+    res.json({ enrollments, counts, total, page, limit, pages: Math.ceil(total / limit) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ─── A/B tests ─────────────────────────────────────────────────────────────
+
+// PUT /api/campaigns/:id/variants — replace variants + test settings (empty list turns the test off)
+campaignsRouter.put('/:id/variants', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const data = campaignVariantsSchema.parse(req.body);
+    res.json(await replaceCampaignVariants(req.params.id, data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// POST /api/campaigns/:id/ab-decide — pick the winner now instead of waiting for the window
+campaignsRouter.post('/:id/ab-decide', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await decideAbTest(req.params.id));
+  } catch (err) {
+    next(err);
+  }
+});
@@ -0,0 +1,151 @@
+import { Router } from 'express';
+import type { BranchType } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { authenticate, operationsManagerOrAdmin } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { createClosureSchema, updateClosureSchema, uuidSchema } from '../types/schemas.js';
+import { logAudit, logUpdateAudit } from '../utils/audit.js';
+import { getClosedDays } from '../utils/holidays.js';
+
+export const closuresRouter = Router();
+
+closuresRouter.use(authenticate);
+
+const BRANCH_TYPES = ['school', 'community_center', 'frontal', 'online'];
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new AppError(400, `${name} must be YYYY-MM-DD`);
+  }
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+function parseBranchType(value: unknown): BranchType | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string' || !BRANCH_TYPES.includes(value)) {
+    throw new AppError(400, 'Invalid branch type');
+  }
+  return value as BranchType;
+}
+
+// List organization closures (optionally overlapping a date range)
+closuresRouter.get('/', async (req, res, next) => {
+  try {
+    const from = parseDate(req.query.from, 'from');
+    const to = parseDate(req.query.to, 'to');
+
+    const closures = await prisma.organizationClosure.findMany({
+      where: {
+        ...(to && { startDate: { lte: to } }),
+        ...(from && { endDate: { gte: from } }),
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    res.json(closures);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Effective closed days (built-in holidays + closures, + blackouts for a branch) for a range
+closuresRouter.get('/calendar', async (req, res, next) => {
+  try {
+    const now = new Date();
+    const from = parseDate(req.query.from, 'from') ?? new Date(Date.UTC(now.getFullYear(), 0, 1));
+    const to = parseDate(req.query.to, 'to') ?? new Date(Date.UTC(now.getFullYear(), 11, 31));
+    const branchType = parseBranchType(req.query.branchType);
+    const branchId = typeof req.query.branchId === 'string' && req.query.branchId ? req.query.branchId : undefined;
+
+    if (to < from) {
+      throw new AppError(400, 'to must be on or after from');
+    }
+    if (to.getTime() - from.getTime() > 3 * 366 * 24 * 60 * 60 * 1000) {
+      throw new AppError(400, 'Range is limited to 3 years');
+    }
+
+    const days = await getClosedDays(from, to, branchType, branchId);
+    res.json(Array.from(days.values()));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create closure
+closuresRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const data = createClosureSchema.parse(req.body);
+
+    const closure = await prisma.organizationClosure.create({
+      data: {
+        ...data,
+        startDate: new Date(`${data.startDate}T00:00:00.000Z`),
+        endDate: new Date(`${data.endDate}T00:00:00.000Z`),
+        createdById: req.user?.userId ?? null,
+      },
+    });
+
+    await logAudit({
+      action: 'CREATE',
+      entity: 'OrganizationClosure',
+      entityId: closure.id,
+      newValue: { name: closure.name, kind: closure.kind, startDate: data.startDate, endDate: data.endDate, closed: closure.closed },
+      req,
+    });
+
+    res.status(201).json(closure);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update closure
+closuresRouter.put('/:id', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const data = updateClosureSchema.parse(req.body);
+
+    const oldClosure = await prisma.organizationClosure.findUnique({ where: { id } });
+    if (!oldClosure) {
+      throw new AppError(404, 'Closure not found');
+    }
+
+    const startDate = data.startDate ? new Date(`${data.startDate}T00:00:00.000Z`) : oldClosure.startDate;
+    const endDate = data.endDate ? new Date(`${data.endDate}T00:00:00.000Z`) : oldClosure.endDate;
+    if (endDate < startDate) {
+      throw new AppError(400, 'End date must be on or after start date');
+    }
+
+    const closure = await prisma.organizationClosure.update({
+      where: { id },
+      data: { ...data, startDate, endDate },
+    });
+
+    await logUpdateAudit({ entity: 'OrganizationClosure', entityId: id, oldRecord: oldClosure, newRecord: closure, req });
+
+    res.json(closure);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete closure
+closuresRouter.delete('/:id', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+
+    const closure = await prisma.organizationClosure.findUnique({ where: { id } });
+    if (!closure) {
+      throw new AppError(404, 'Closure not found');
+    }
+
+    await prisma.organizationClosure.delete({ where: { id } });
+
+    await logAudit({ action: 'DELETE', entity: 'OrganizationClosure', entityId: id, oldValue: { name: closure.name, kind: closure.kind }, req });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
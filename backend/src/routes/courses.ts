@@ -2,9 +2,11 @@ import { Router } from 'express';
 import { prisma } from '../utils/prisma.js';
 import { authenticate, operationsManagerOrAdmin } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { createCourseSchema, updateCourseSchema, paginationSchema, uuidSchema } from '../types/schemas.js';
+import { createCourseSchema, updateCourseSchema, courseSkillSchema, updateCourseSkillSchema, courseLessonSchema, updateCourseLessonSchema, reorderCourseLessonsSchema, paginationSchema, uuidSchema } from '../types/schemas.js';
 import { logAudit, logUpdateAudit } from '../utils/audit.js';
 import { listDriveFolder, getDriveViewUrl } from '../services/google-drive.js';
+import { listCourseSkills } from '../services/student-progress.js';
+import { createCourseLesson, deleteCourseLesson, listCourseLessons, reorderCourseLessons } from '../services/course-curriculum.js';
 
 export const coursesRouter = Router();
 
@@ -147,6 +149,151 @@ coursesRouter.get('/:id/materials', async (req, res, next) => {
   }
 });
 
+// GET /api/courses/:id/skills — skills and milestones instructors rate students on
+coursesRouter.get('/:id/skills', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    res.json(await listCourseSkills(id, req.query.includeInactive === 'true'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+coursesRouter.post('/:id/skills', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const courseId = uuidSchema.parse(req.params.id);
+    const data = courseSkillSchema.parse(req.body);
+
+    const course = await prisma.course.findUnique({ where: { id: courseId }, select: { id: true } });
+    if (!course) throw new AppError(404, 'Course not found');
+
+    const skill = await prisma.courseSkill.create({ data: { ...data, courseId } });
+    await logAudit({ action: 'CREATE', entity: 'CourseSkill', entityId: skill.id, newValue: { courseId, name: skill.name, kind: skill.kind }, req });
+
+    res.status(201).json(skill);
+  } catch (error) {
+    next(error);
+  }
+});
+
+coursesRouter.put('/:id/skills/:skillId', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const courseId = uuidSchema.parse(req.params.id);
+    const skillId = uuidSchema.parse(req.params.skillId);
+    const data = updateCourseSkillSchema.parse(req.body);
+
+    const oldSkill = await prisma.courseSkill.findFirst({ where: { id: skillId, courseId } });
+    if (!oldSkill) throw new AppError(404, 'Skill not found');
+
+    const skill = await prisma.courseSkill.update({ where: { id: skillId }, data });
+    await logUpdateAudit({ entity: 'CourseSkill', entityId: skillId, oldRecord: oldSkill, newRecord: skill, req });
+
+    res.json(skill);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Skills that were already rated are deactivated rather than deleted, so report cards keep their history
+coursesRouter.delete('/:id/skills/:skillId', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const courseId = uuidSchema.parse(req.params.id);
+    const skillId = uuidSchema.parse(req.params.skillId);
+
+    const skill = await prisma.courseSkill.findFirst({
+      where: { id: skillId, courseId },
+      include: { _count: { select: { ratings: true } } },
+    });
+    if (!skill) throw new AppError(404, 'Skill not found');
+
+    if (skill._count.ratings > 0) {
+      await prisma.courseSkill.update({ where: { id: skillId }, data: { isActive: false } });
+    } else {
+      await prisma.courseSkill.delete({ where: { id: skillId } });
+    }
+    await logAudit({ action: 'DELETE', entity: 'CourseSkill', entityId: skillId, oldValue: { courseId, name: skill.name }, req });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/courses/:id/lessons — the course curriculum, in lesson order
+coursesRouter.get('/:id/lessons', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    res.json(await listCourseLessons(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+coursesRouter.post('/:id/lessons', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const courseId = uuidSchema.parse(req.params.id);
+    const data = courseLessonSchema.parse(req.body);
+
+    const course = await prisma.course.findUnique({ where: { id: courseId }, select: { id: true } });
+    if (!course) throw new AppError(404, 'Course not found');
+
+    const lesson = await createCourseLesson(courseId, data);
+    await logAudit({ action: 'CREATE', entity: 'CourseLesson', entityId: lesson.id, newValue: { courseId, lessonNumber: lesson.lessonNumber, title: lesson.title }, req });
+
+    res.status(201).json(lesson);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/courses/:id/lessons/order — body: every lesson id of the course, in the new order
+coursesRouter.put('/:id/lessons/order', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const courseId = uuidSchema.parse(req.params.id);
+    const { lessonIds } = reorderCourseLessonsSchema.parse(req.body);
+
+    const lessons = await reorderCourseLessons(courseId, lessonIds);
+    await logAudit({ action: 'UPDATE', entity: 'Course', entityId: courseId, newValue: { action: 'reorder-lessons', lessonIds }, req });
+
+    res.json(lessons);
+  } catch (error) {
+    next(error);
+  }
+});
+
+coursesRouter.put('/:id/lessons/:lessonId', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const courseId = uuidSchema.parse(req.params.id);
+    const lessonId = uuidSchema.parse(req.params.lessonId);
+    const data = updateCourseLessonSchema.parse(req.body);
+
+    const oldLesson = await prisma.courseLesson.findFirst({ where: { id: lessonId, courseId } });
+    if (!oldLesson) throw new AppError(404, 'Lesson not found');
+
+    const lesson = await prisma.courseLesson.update({ where: { id: lessonId }, data });
+    await logUpdateAudit({ entity: 'CourseLesson', entityId: lessonId, oldRecord: oldLesson, newRecord: lesson, req });
+
+    res.json(lesson);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Later lessons move up one number; meetings that had this lesson are reassigned
+coursesRouter.delete('/:id/lessons/:lessonId', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const courseId = uuidSchema.parse(req.params.id);
+    const lessonId = uuidSchema.parse(req.params.lessonId);
+
+    const lesson = await deleteCourseLesson(courseId, lessonId);
+    await logAudit({ action: 'DELETE', entity: 'CourseLesson', entityId: lessonId, oldValue: { courseId, lessonNumber: lesson.lessonNumber, title: lesson.title }, req });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Delete course
 coursesRouter.delete('/:id', operationsManagerOrAdmin, async (req, res, next) => {
   try {
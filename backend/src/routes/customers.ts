@@ -5,6 +5,7 @@ import { authenticate, cycleRosterOrAdmin, operationsManagerOrAdmin, salesOrAbov
 import { AppError } from '../middleware/errorHandler.js';
 import { createCustomerSchema, updateCustomerSchema, createStudentSchema, paginationSchema, uuidSchema } from '../types/schemas.js';
 import { logAudit } from '../utils/audit.js';
+import { publishDomainEvent } from '../services/domain-events.js';
 
 // Customer ids are usually UUIDs, but Fireberry-imported records use CUIDs — accept any non-empty id here.
 const customerIdSchema = z.string().min(1);
@@ -281,6 +282,7 @@ customersRouter.post('/', cycleRosterOrAdmin, async (req, res, next) => {
       newValue: { name: customer.name, phone: customer.phone, email: customer.email },
       req,
     });
+    publishDomainEvent('customer.created', customer);
 
     res.status(201).json(customer);
   } catch (error) {
@@ -339,6 +341,7 @@ customersRouter.put('/:id', operationsManagerOrAdmin, async (req, res, next) =>
       newValue: { name: customer.name, phone: customer.phone, email: customer.email },
       req,
     });
+    publishDomainEvent('customer.updated', customer);
 
     res.json(customer);
   } catch (error) {
@@ -368,6 +371,7 @@ customersRouter.delete('/:id', operationsManagerOrAdmin, async (req, res, next)
         oldValue: { name: oldCustomer.name, phone: oldCustomer.phone, email: oldCustomer.email },
         req,
       });
+      publishDomainEvent('customer.deleted', oldCustomer);
     }
 
     res.status(204).send();
@@ -541,6 +545,7 @@ customersRouter.post('/:id/students', cycleRosterOrAdmin, async (req, res, next)
         },
       },
     });
+    publishDomainEvent('student.created', student);
 
     res.status(201).json(student);
   } catch (error) {
@@ -1,18 +1,24 @@
 import { Router } from 'express';
+import { z } from 'zod';
+import type { Cycle } from '@prisma/client';
 import { prisma } from '../utils/prisma.js';
 import { authenticate, cycleRosterOrAdmin, operationsManagerOrAdmin } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { createCycleSchema, updateCycleSchema, createRegistrationSchema, paginationSchema, uuidSchema, bulkUpdateCyclesSchema } from '../types/schemas.js';
-import { fetchHolidays, dayNameToNumber, calculateCycleEndDate } from '../utils/holidays.js';
+import { createCycleSchema, updateCycleSchema, createRegistrationSchema, paginationSchema, uuidSchema, bulkUpdateCyclesSchema, addWaitlistEntrySchema, allowConflictsSchema } from '../types/schemas.js';
+import { dayNameToNumber, calculateCycleEndDate } from '../utils/holidays.js';
 import { zoomService, getHostKeyByEmail } from '../services/zoom.js';
 import { googleMeetService } from '../services/google-meet.js';
 import { logAudit, logUpdateAudit } from '../utils/audit.js';
+import { publishDomainEvent } from '../services/domain-events.js';
 import { recalcMeetingRevenue } from '../utils/recalcMeetingRevenue.js';
 import { meetingRevenueFromRegistrations, netAmount, revenueRegistrations, roundMoney } from '../utils/revenue.js';
 import { recalculateInstructorPaymentsForCycle } from '../services/instructor-payment.js';
 import { checkAndSendInstitutionalOrderCompletionAlert } from '../services/institutional-order-completion-alert.js';
 import { assertMeetingNotInIssuedPeriod } from '../services/billing-lock.js';
 import { resolveRegistrationAmountForCycle } from '../utils/registration-amount.js';
+import { addToWaitlist, availableSeats, listCycleWaitlist } from '../services/waitlist.js';
+import { checkInstructorConflicts, type InstructorConflict } from '../services/instructor-conflicts.js';
+import { addDays, generateMeetingsForCycle, planMeetingsForCycle } from '../services/cycle-meetings.js';
 
 // Make.com webhook removed — Zoom recordings handled directly via /api/zoom-webhook
 
@@ -55,95 +61,33 @@ const AUTO_REGENERATED_MEETING_STATUSES = [
   'pending_postponement',
 ] as const;
 
-function addDays(date: Date, days: number) {
-  const next = new Date(date);
-  next.setDate(next.getDate() + days);
-  return next;
-}
+/**
+ * Check the schedule regenerateMeetingsForCycle would write for `cycle` — which may carry edits
+ * that aren't saved yet — against the instructor's other meetings. The auto-generated meetings
+ * it replaces are left out of the check.
+ */
+async function checkRegeneratedScheduleConflicts(cycle: Cycle, allowConflicts: boolean) {
+  if (cycle.type === 'trial_private') return [];
 
-// Helper to generate meetings for a cycle (skips Israeli holidays)
-async function generateMeetingsForCycle(cycleId: string, fromDate?: Date, targetCount?: number) {
-  const cycle = await prisma.cycle.findUnique({
-    where: { id: cycleId },
-    include: {
-      meetings: {
-        where: { deletedAt: null },
-        select: { id: true, scheduledDate: true, status: true },
-      },
-    },
+  const meetings = await prisma.meeting.findMany({
+    where: { cycleId: cycle.id, deletedAt: null },
+    select: { id: true, scheduledDate: true, status: true },
+    orderBy: { scheduledDate: 'desc' },
   });
-
-  if (!cycle) return;
-
-  const meetings = [];
-  const targetDay = dayNameToNumber(cycle.dayOfWeek);
-  let currentDate: Date;
-  if (fromDate) {
-    currentDate = new Date(fromDate);
-  } else if (cycle.meetings.length > 0) {
-    const lastMeeting = cycle.meetings.reduce((latest, meeting) =>
-      meeting.scheduledDate.getTime() > latest.scheduledDate.getTime() ? meeting : latest
-    );
-    currentDate = addDays(lastMeeting.scheduledDate, 7);
-  } else {
-    currentDate = new Date(cycle.startDate);
-  }
-  
-  // How many meetings to generate. Existing callers that do not pass targetCount
-  // should fill only the missing meetings, not create another full cycle.
-  const meetingsToGenerate = targetCount ?? Math.max(0, cycle.totalMeetings - cycle.meetings.length);
-  if (meetingsToGenerate <= 0) return;
-
-  // Fetch holidays for relevant years
-  const startYear = currentDate.getFullYear();
-  const holidaysThisYear = await fetchHolidays(startYear);
-  const holidaysNextYear = await fetchHolidays(startYear + 1);
-  const allHolidays = new Set([...holidaysThisYear, ...holidaysNextYear]);
-  
-  // Find first occurrence of the target day on or after fromDate
-  while (currentDate.getDay() !== targetDay) {
-    currentDate.setDate(currentDate.getDate() + 1);
-  }
-
-  // Generate meetings, skipping holidays
-  let attempts = 0;
-  const maxAttempts = meetingsToGenerate * 3; // Safety limit
-  
-  while (meetings.length < meetingsToGenerate && attempts < maxAttempts) {
-    attempts++;
-    const dateStr = currentDate.toISOString().split('T')[0];
-    
-    // Check if this date is a holiday
-    if (!allHolidays.has(dateStr)) {
-      meetings.push({
-        cycleId: cycle.id,
-        instructorId: cycle.instructorId,
-        scheduledDate: new Date(currentDate),
-        startTime: cycle.startTime,
-        endTime: cycle.endTime,
-        status: 'scheduled' as const,
-        activityType: cycle.activityType,
-      });
-    }
-    
-    // Move to next week
-    currentDate.setDate(currentDate.getDate() + 7);
-  }
-
-  if (meetings.length > 0) {
-    await prisma.meeting.createMany({ data: meetings });
-    
-    // Update cycle progress and end date based on the generated schedule.
-    const lastMeetingDate = meetings[meetings.length - 1].scheduledDate;
-    const completedCount = cycle.meetings.filter(m => m.status === 'completed').length;
-    await prisma.cycle.update({
-      where: { id: cycleId },
-      data: { 
-        remainingMeetings: Math.max(0, cycle.totalMeetings - completedCount),
-        endDate: lastMeetingDate,
-      },
-    });
-  }
+  const completed = meetings.filter(m => m.status === 'completed');
+  const remainingCount = cycle.status === 'completed' ? 0 : Math.max(0, cycle.totalMeetings - completed.length);
+  if (remainingCount <= 0) return [];
+
+  const branch = await prisma.branch.findUnique({ where: { id: cycle.branchId }, select: { type: true } });
+  const planned = await planMeetingsForCycle(
+    { ...cycle, branch, meetings: [] },
+    completed[0] ? addDays(completed[0].scheduledDate, 7) : cycle.startDate,
+    remainingCount,
+  );
+  const replacedIds = meetings
+    .filter(m => AUTO_REGENERATED_MEETING_STATUSES.includes(m.status as any))
+    .map(m => m.id);
+  return checkInstructorConflicts(planned, allowConflicts, replacedIds);
 }
 
 async function regenerateMeetingsForCycle(cycleId: string) {
@@ -168,7 +112,7 @@ async function regenerateMeetingsForCycle(cycleId: string) {
         remainingMeetings: cycle.status === 'completed' ? 0 : Math.max(0, cycle.totalMeetings - completedCount),
       },
     });
-    return { deleted: 0, generated: 0, completedCount };
+    return { deleted: 0, generated: 0, completedCount, conflictWarnings: [] as InstructorConflict[] };
   }
 
   const meetingsToDelete = cycle.meetings.filter(m =>
@@ -215,16 +159,18 @@ async function regenerateMeetingsForCycle(cycleId: string) {
   });
 
   if (remainingCount <= 0) {
-    return { deleted: meetingsToDelete.length, generated: 0, completedCount };
+    return { deleted: meetingsToDelete.length, generated: 0, completedCount, conflictWarnings: [] as InstructorConflict[] };
   }
 
   const generateFrom = completedMeetings[0]
     ? addDays(completedMeetings[0].scheduledDate, 7)
     : cycle.startDate;
 
-  await generateMeetingsForCycle(cycleId, generateFrom, remainingCount);
+  // The caller checked this schedule with its allowConflicts before the old meetings were
+  // deleted (checkRegeneratedScheduleConflicts), so here conflicts are only reported
+  const conflictWarnings = await generateMeetingsForCycle(cycleId, generateFrom, remainingCount, { allowConflicts: true });
 
-  return { deleted: meetingsToDelete.length, generated: remainingCount, completedCount };
+  return { deleted: meetingsToDelete.length, generated: remainingCount, completedCount, conflictWarnings };
 }
 
 // List cycles
@@ -385,7 +331,7 @@ cyclesRouter.get('/:id', async (req, res, next) => {
 // Create cycle
 cyclesRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
   try {
-    const data = createCycleSchema.parse(req.body);
+    const { allowConflicts = false, ...data } = createCycleSchema.parse(req.body);
 
     // Verify all foreign keys exist
     const [course, branch, instructor] = await Promise.all([
@@ -419,11 +365,32 @@ cyclesRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
       const result = await calculateCycleEndDate(
         new Date(data.startDate),
         targetDay,
-        data.totalMeetings
+        data.totalMeetings,
+        branch.type,
+        branch.id
       );
       endDate = result.endDate;
     }
 
+    // Block double-booking the instructor before anything is written
+    if (data.type !== 'trial_private') {
+      const planned = await planMeetingsForCycle({
+        name: data.name,
+        instructorId: data.instructorId,
+        dayOfWeek: data.dayOfWeek,
+        startDate: new Date(data.startDate),
+        startTime,
+        endTime,
+        activityType: data.activityType ?? null,
+        location: data.location ?? null,
+        totalMeetings: data.totalMeetings,
+        branchId: branch.id,
+        branch,
+        meetings: [],
+      });
+      await checkInstructorConflicts(planned, allowConflicts);
+    }
+
     const createData: any = {
       name: data.name,
       courseId: data.courseId,
@@ -465,8 +432,9 @@ cyclesRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
     });
 
     // Generate meetings (skip for trial_private — meetings are added manually)
+    let conflictWarnings: InstructorConflict[] = [];
     if (data.type !== 'trial_private') {
-      await generateMeetingsForCycle(cycle.id);
+      conflictWarnings = await generateMeetingsForCycle(cycle.id, undefined, undefined, { allowConflicts: true });
     }
 
     // Audit log for cycle creation
@@ -486,8 +454,9 @@ cyclesRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
       },
       req,
     });
+    publishDomainEvent('cycle.created', cycle);
 
-    res.status(201).json(cycle);
+    res.status(201).json({ ...cycle, conflictWarnings });
   } catch (error) {
     next(error);
   }
@@ -497,7 +466,7 @@ cyclesRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
 cyclesRouter.put('/:id', operationsManagerOrAdmin, async (req, res, next) => {
   try {
     const id = uuidSchema.parse(req.params.id);
-    const data = updateCycleSchema.parse(req.body);
+    const { allowConflicts = false, ...data } = updateCycleSchema.parse(req.body);
 
     // Get existing cycle for audit comparison
     const existingCycle = await prisma.cycle.findUnique({
@@ -547,6 +516,11 @@ cyclesRouter.put('/:id', operationsManagerOrAdmin, async (req, res, next) => {
     // Remove regenerateMeetings from updateData as it's not a Cycle field
     delete updateData.regenerateMeetings;
 
+    // Check the regenerated schedule before anything is written, so a 409 leaves the cycle as it was
+    if (regenerateMeetings) {
+      await checkRegeneratedScheduleConflicts({ ...existingCycle, ...updateData }, allowConflicts);
+    }
+
     // If the cycle is being cancelled (transitioning into 'cancelled'), cascade to all
     // of its meetings. Invariant: cancelled cycle => every meeting is cancelled too.
     const cancellingNow = data.status === 'cancelled' && existingCycle.status !== 'cancelled';
@@ -627,13 +601,21 @@ cyclesRouter.put('/:id', operationsManagerOrAdmin, async (req, res, next) => {
       await checkAndSendInstitutionalOrderCompletionAlert(cycle.institutionalOrderId, 'cycle-update');
     }
 
+    publishDomainEvent('cycle.updated', cycle);
+    if (cancellingNow) {
+      publishDomainEvent('cycle.cancelled', cycle);
+    } else if (data.status === 'completed' && existingCycle.status !== 'completed') {
+      publishDomainEvent('cycle.completed', cycle);
+    }
+
     // If regenerateMeetings flag is set, delete generated future/pending meetings
     // and recreate the remaining schedule from the updated cycle definition.
+    let conflictWarnings: InstructorConflict[] = [];
     if (regenerateMeetings) {
-      await regenerateMeetingsForCycle(id);
+      ({ conflictWarnings } = await regenerateMeetingsForCycle(id));
     }
 
-    res.json(cycle);
+    res.json({ ...cycle, conflictWarnings });
   } catch (error) {
     next(error);
   }
@@ -813,7 +795,8 @@ cyclesRouter.post('/:id/generate-meetings', operationsManagerOrAdmin, async (req
     }
 
     // Generate only the missing meetings
-    await generateMeetingsForCycle(cycleId, undefined, meetingsToGenerate);
+    const { allowConflicts } = allowConflictsSchema.parse(req.body ?? {});
+    const conflictWarnings = await generateMeetingsForCycle(cycleId, undefined, meetingsToGenerate, { allowConflicts });
 
     // Get updated cycle
     const updatedCycle = await prisma.cycle.findUnique({
@@ -824,7 +807,8 @@ cyclesRouter.post('/:id/generate-meetings', operationsManagerOrAdmin, async (req
     res.json({ 
       message: `נוצרו ${meetingsToGenerate} פגישות חדשות`,
       generated: meetingsToGenerate,
-      total: updatedCycle?.meetings.length || 0
+      total: updatedCycle?.meetings.length || 0,
+      conflictWarnings,
     });
   } catch (error) {
     next(error);
@@ -835,6 +819,7 @@ cyclesRouter.post('/:id/generate-meetings', operationsManagerOrAdmin, async (req
 cyclesRouter.post('/bulk-generate-meetings', operationsManagerOrAdmin, async (req, res, next) => {
   try {
     const { ids } = req.body as { ids: string[] };
+    const { allowConflicts } = allowConflictsSchema.parse(req.body ?? {});
 
     if (!ids || !Array.isArray(ids) || ids.length === 0) {
       throw new AppError(400, 'Invalid cycle IDs');
@@ -847,6 +832,7 @@ cyclesRouter.post('/bulk-generate-meetings', operationsManagerOrAdmin, async (re
       generated?: number;
       message?: string;
       error?: string;
+      conflicts?: InstructorConflict[];
     }
 
     const results: GenerateResult[] = [];
@@ -870,10 +856,21 @@ cyclesRouter.post('/bulk-generate-meetings', operationsManagerOrAdmin, async (re
           continue;
         }
 
-        await generateMeetingsForCycle(cycleId, undefined, meetingsToGenerate);
-        results.push({ cycleId, name: cycle.name, success: true, generated: meetingsToGenerate });
+        const conflicts = await generateMeetingsForCycle(cycleId, undefined, meetingsToGenerate, { allowConflicts });
+        results.push({
+          cycleId,
+          name: cycle.name,
+          success: true,
+          generated: meetingsToGenerate,
+          ...(conflicts.length > 0 && { conflicts }),
+        });
       } catch (err: any) {
-        results.push({ cycleId, success: false, error: err.message });
+        results.push({
+          cycleId,
+          success: false,
+          error: err.message,
+          ...(err instanceof AppError && err.data?.code === 'INSTRUCTOR_CONFLICT' && { conflicts: err.data.conflicts }),
+        });
       }
     }
 
@@ -1063,6 +1060,36 @@ cyclesRouter.get('/:id/registrations', async (req, res, next) => {
   }
 });
 
+// Get cycle's waitlist in line order (?all=true includes placed/expired/declined entries)
+cyclesRouter.get('/:id/waitlist', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const [entries, seats] = await Promise.all([
+      listCycleWaitlist(id, req.query.all === 'true'),
+      availableSeats(id),
+    ]);
+
+    res.json({ cycleId: id, availableSeats: seats, entries });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a family to the cycle's waitlist
+cyclesRouter.post('/:id/waitlist', cycleRosterOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const data = addWaitlistEntrySchema.parse(req.body);
+
+    const entry = await addToWaitlist(id, data, req.user!.userId);
+    await logAudit({ action: 'CREATE', entity: 'WaitlistEntry', entityId: entry.id, newValue: { cycleId: id, customerId: entry.customerId, studentId: entry.studentId, childName: entry.childName }, req });
+
+    res.status(201).json(entry);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // ─── GET /api/cycles/:id/students ───────────────────────────────────────────
 // Clean flat list of students enrolled in a cycle.
 // Query params:
@@ -1130,11 +1157,28 @@ cyclesRouter.post('/:id/registrations', cycleRosterOrAdmin, async (req, res, nex
       where: { studentId_cycleId: { studentId: data.studentId, cycleId } },
     });
 
+    if (existing && existing.status !== 'cancelled') {
+      throw new AppError(409, 'Student already registered for this cycle');
+    }
+
+    // Full cycle: queue the student on the waitlist, or register anyway when explicitly overridden
+    const { joinWaitlist, overCapacity } = z.object({
+      joinWaitlist: z.boolean().optional(),
+      overCapacity: z.boolean().optional(),
+    }).parse(req.body);
+    const seats = await availableSeats(cycleId);
+    if (seats !== null && seats <= 0 && !overCapacity) {
+      if (!joinWaitlist) throw new AppError(409, 'Cycle is full', { code: 'CYCLE_FULL' });
+      const entry = await addToWaitlist(cycleId, {
+        customerId: student.customerId,
+        studentId: student.id,
+        notes: data.notes,
+      }, req.user!.userId);
+      return res.status(202).json({ waitlisted: true, entry });
+    }
+
     // If cancelled registration exists — reactivate it instead of creating new
     if (existing) {
-      if (existing.status !== 'cancelled') {
-        throw new AppError(409, 'Student already registered for this cycle');
-      }
       const reactivated = await prisma.registration.update({
         where: { id: existing.id },
         data: {
@@ -1153,6 +1197,7 @@ cyclesRouter.post('/:id/registrations', cycleRosterOrAdmin, async (req, res, nex
           cycle: { select: { id: true, name: true } },
         },
       });
+      publishDomainEvent('registration.created', reactivated);
       return res.status(200).json(reactivated);
     }
 
@@ -1181,6 +1226,7 @@ cyclesRouter.post('/:id/registrations', cycleRosterOrAdmin, async (req, res, nex
     recalcMeetingRevenue(cycleId).catch(err =>
       console.error('[RECALC REVENUE] Error after registration create:', err)
     );
+    publishDomainEvent('registration.created', registration);
 
     res.status(201).json(registration);
   } catch (error) {
@@ -3,6 +3,7 @@ import { prisma } from '../utils/prisma.js';
 import { authenticate, managerOrAdmin } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { findOrCreateCustomer } from '../utils/lead-customer.js';
+import { enrollInDripCampaigns } from '../services/campaignDrip.service.js';
 
 export const facebookLeadsRouter = Router();
 
@@ -264,6 +265,9 @@ async function saveLead(lead: any, formId?: string) {
           data: { crmCustomerId: customerId },
         });
         console.log(`[FB] Lead ${lead.id} linked to ${isNew ? 'new' : 'existing'} customer ${customerId}`);
+
+        enrollInDripCampaigns('facebook_lead', [{ customerId, name: fullName, phone, email }], lead.id)
+          .catch(err => console.error('[FB] Drip campaign enrollment error:', err));
       }
 
     } catch (err) {
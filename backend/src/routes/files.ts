@@ -1,110 +1,50 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
 import path from 'path';
-import fs from 'fs';
 import jwt from 'jsonwebtoken';
-import { v4 as uuidv4 } from 'uuid';
-import { UserRole } from '@prisma/client';
+import { UserRole, type FileAttachment } from '@prisma/client';
 import { prisma } from '../utils/prisma.js';
 import { authenticate } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { config } from '../config.js';
+import {
+  ALLOWED_EXTENSIONS,
+  PREVIEWABLE_MIME_TYPES,
+  assertAttachmentEntity,
+  deleteAttachment,
+  getAttachmentUsage,
+  isAttachmentEntityType,
+  openAttachment,
+  storeAttachment,
+} from '../services/file-attachments.js';
 
 export const filesRouter = Router();
 
-// Supported entity types
-const ALLOWED_ENTITY_TYPES = ['instructor', 'quote', 'institutional-order', 'task'];
 const TASK_VISIBLE_TO_ALL_ROLES: UserRole[] = ['admin', 'manager', 'operations', 'operations_control', 'operations_manager'];
 
-// Upload directory
-const UPLOADS_BASE = path.join(process.cwd(), 'uploads');
-
-// Ensure upload directories exist
-const ensureDir = (dir: string) => {
-  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-};
-
-// Multer storage config
-const storage = multer.diskStorage({
-  destination: (req, _file, cb) => {
-    const entityType = req.params.entityType || req.body.entityType || 'misc';
-    const entityId = req.params.entityId || req.body.entityId || 'unknown';
-    const dir = path.join(UPLOADS_BASE, entityType, entityId);
-    ensureDir(dir);
-    cb(null, dir);
-  },
-  filename: (_req, file, cb) => {
-    const ext = path.extname(file.originalname);
-    cb(null, `${uuidv4()}${ext}`);
-  },
-});
-
-const ALLOWED_EXTENSIONS = new Set([
-  '.pdf',
-  '.doc',
-  '.docx',
-  '.xls',
-  '.xlsx',
-  '.csv',
-  '.ppt',
-  '.pptx',
-  '.jpg',
-  '.jpeg',
-  '.png',
-  '.gif',
-  '.webp',
-  '.heic',
-  '.heif',
-  '.txt',
-  '.rtf',
-  '.zip',
-  '.rar',
-]);
-
-const ALLOWED_MIMES = new Set([
-  'application/pdf',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'text/csv',
-  'application/csv',
-  'application/vnd.ms-powerpoint',
-  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-  'image/jpeg',
-  'image/png',
-  'image/gif',
-  'image/webp',
-  'image/heic',
-  'image/heif',
-  'text/plain',
-  'application/rtf',
-  'text/rtf',
-  'application/zip',
-  'application/x-zip-compressed',
-  'application/x-rar-compressed',
-  'application/vnd.rar',
-]);
-
+// Files are held in memory so their content can be type-checked before reaching storage
 const fileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   const ext = path.extname(file.originalname || '').toLowerCase();
-
-  // Some browsers/OSes upload valid documents with a generic MIME type.
-  // Accept when either MIME or extension is known, but reject unknown extensions.
-  const isGenericMime = ['application/octet-stream', 'binary/octet-stream'].includes(file.mimetype);
-  if (ALLOWED_MIMES.has(file.mimetype) || (isGenericMime && ALLOWED_EXTENSIONS.has(ext))) {
+  if (ALLOWED_EXTENSIONS.includes(ext)) {
     cb(null, true);
   } else {
-    cb(new AppError(400, `סוג קובץ לא נתמך: ${file.mimetype || ext || 'לא ידוע'}`));
+    cb(new AppError(400, `סוג קובץ לא נתמך: ${ext || file.mimetype || 'לא ידוע'}`));
   }
 };
 
 const upload = multer({
-  storage,
+  storage: multer.memoryStorage(),
   fileFilter,
   limits: { fileSize: 20 * 1024 * 1024 }, // 20MB
 });
 
+function parseEntityType(entityType: string) {
+  if (!isAttachmentEntityType(entityType)) {
+    throw new AppError(400, `entityType לא חוקי: ${entityType}`);
+  }
+  return entityType;
+}
+
 function canSeeAllTasks(role: UserRole) {
   return TASK_VISIBLE_TO_ALL_ROLES.includes(role);
 }
@@ -135,111 +75,114 @@ async function assertTaskFileAccess(taskId: string, user: Express.Request['user'
 // POST /api/files/:entityType/:entityId — upload a file
 filesRouter.post('/:entityType/:entityId', authenticate, upload.single('file'), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { entityType, entityId } = req.params;
+    const entityType = parseEntityType(req.params.entityType);
+    const { entityId } = req.params;
     const { label } = req.body;
 
-    if (!ALLOWED_ENTITY_TYPES.includes(entityType)) {
-      throw new AppError(400, `entityType לא חוקי: ${entityType}`);
-    }
-
     if (!req.file) {
       throw new AppError(400, 'לא הועלה קובץ');
     }
 
-    // Verify entity exists
-    if (entityType === 'instructor') {
-      const instructor = await prisma.instructor.findUnique({ where: { id: entityId } });
-      if (!instructor) throw new AppError(404, 'מדריך לא נמצא');
-    } else if (entityType === 'quote') {
-      const quote = await prisma.quote.findUnique({ where: { id: entityId } });
-      if (!quote) throw new AppError(404, 'הצעת מחיר לא נמצאה');
-    } else if (entityType === 'institutional-order') {
-      const order = await prisma.institutionalOrder.findUnique({ where: { id: entityId } });
-      if (!order) throw new AppError(404, 'הזמנה מוסדית לא נמצאה');
-    } else if (entityType === 'task') {
+    if (entityType === 'task') {
       await assertTaskFileAccess(entityId, req.user, 'modify');
+    } else {
+      await assertAttachmentEntity(entityType, entityId);
     }
 
-    const filePath = `${entityType}/${entityId}/${req.file.filename}`;
-    // Fix Hebrew/Unicode filenames: multer delivers originalname as latin1, convert to utf-8
-    const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
-
-    const attachment = await prisma.fileAttachment.create({
-      data: {
-        entityType,
-        entityId,
-        fileName: req.file.filename,
-        originalName,
-        mimeType: req.file.mimetype,
-        fileSize: req.file.size,
-        filePath,
-        label: label || null,
-        uploadedById: req.user?.userId || null,
-      },
-      include: {
-        uploadedBy: { select: { id: true, name: true } },
-      },
+    const attachment = await storeAttachment({
+      entityType,
+      entityId,
+      // Fix Hebrew/Unicode filenames: multer delivers originalname as latin1, convert to utf-8
+      originalName: Buffer.from(req.file.originalname, 'latin1').toString('utf8'),
+      bytes: req.file.buffer,
+      label,
+      uploadedById: req.user?.userId,
     });
 
     res.status(201).json(attachment);
   } catch (error) {
-    // Clean up uploaded file on error
-    if (req.file) {
-      fs.unlink(req.file.path, () => {});
-    }
     next(error);
   }
 });
 
-// GET /api/files/download/:id — download a file (MUST be before /:entityType/:entityId)
-// Auth: Bearer header OR ?token= query param (for direct browser links)
-filesRouter.get('/download/:id', async (req: Request, res: Response, next: NextFunction) => {
+// Auth for direct browser links: Bearer header OR ?token= query param
+function authenticateFileLink(req: Request) {
+  const authHeader = req.headers.authorization;
+  const token = req.query.token
+    ? String(req.query.token)
+    : authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+  if (!token) throw new AppError(401, 'נדרשת התחברות');
   try {
-    // Allow token via query param for direct browser download links
-    if (req.query.token) {
-      try {
-        const decoded = jwt.verify(req.query.token as string, config.jwt.secret) as any;
-        (req as any).user = decoded;
-      } catch {
-        throw new AppError(401, 'טוקן לא תקין');
-      }
-    } else {
-      const authHeader = req.headers.authorization;
-      if (!authHeader?.startsWith('Bearer ')) {
-        throw new AppError(401, 'נדרשת התחברות');
-      }
-      try {
-        const decoded = jwt.verify(authHeader.substring(7), config.jwt.secret) as any;
-        (req as any).user = decoded;
-      } catch {
-        throw new AppError(401, 'טוקן לא תקין');
-      }
-    }
+    req.user = jwt.verify(token, config.jwt.secret) as Request['user'];
+  } catch {
+    throw new AppError(401, 'טוקן לא תקין');
+  }
+}
 
-    const attachment = await prisma.fileAttachment.findUnique({
-      where: { id: req.params.id },
-    });
+async function loadLinkedAttachment(req: Request) {
+  authenticateFileLink(req);
+  const attachment = await prisma.fileAttachment.findUnique({
+    where: { id: req.params.id },
+  });
 
-    if (!attachment) throw new AppError(404, 'קובץ לא נמצא');
-    if (attachment.entityType === 'task') {
-      await assertTaskFileAccess(attachment.entityId, req.user, 'view');
+  if (!attachment) throw new AppError(404, 'קובץ לא נמצא');
+  if (attachment.entityType === 'task') {
+    await assertTaskFileAccess(attachment.entityId, req.user, 'view');
+  }
+  return attachment;
+}
+
+async function sendAttachment(res: Response, next: NextFunction, attachment: FileAttachment, disposition: 'attachment' | 'inline') {
+  const stream = await openAttachment(attachment);
+  if (!stream) throw new AppError(404, 'קובץ לא נמצא באחסון');
+
+  res.type(attachment.mimeType);
+  res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.originalName)}`);
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  if (disposition === 'inline') res.setHeader('Cache-Control', 'private, max-age=3600');
+
+  stream.on('error', (err) => {
+    console.error('File download error:', err);
+    if (!res.headersSent) {
+      next(new AppError(500, `שגיאה בשליחת הקובץ: ${err.message}`));
+    } else {
+      res.destroy(err);
     }
+  });
+  stream.pipe(res);
+}
 
-    const fullPath = path.join(UPLOADS_BASE, attachment.filePath);
+// GET /api/files/download/:id — download a file (MUST be before /:entityType/:entityId)
+filesRouter.get('/download/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const attachment = await loadLinkedAttachment(req);
+    await sendAttachment(res, next, attachment, 'attachment');
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (!fs.existsSync(fullPath)) {
-      throw new AppError(404, 'קובץ לא נמצא בדיסק');
+// GET /api/files/preview/:id — inline image / PDF for thumbnails and the preview modal
+filesRouter.get('/preview/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const attachment = await loadLinkedAttachment(req);
+    if (!PREVIEWABLE_MIME_TYPES.includes(attachment.mimeType)) {
+      throw new AppError(415, 'אין תצוגה מקדימה לסוג קובץ זה');
     }
+    await sendAttachment(res, next, attachment, 'inline');
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // res.download sends the file with proper Content-Disposition header
-    res.download(fullPath, attachment.originalName, (err) => {
-      if (err) {
-        console.error('File download error:', err);
-        if (!res.headersSent) {
-          next(new AppError(500, `שגיאה בשליחת הקובץ: ${(err as any).message}`));
-        }
-      }
-    });
+// GET /api/files/:entityType/:entityId/usage — storage used vs. quota
+filesRouter.get('/:entityType/:entityId/usage', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entityType = parseEntityType(req.params.entityType);
+    if (entityType === 'task') {
+      await assertTaskFileAccess(req.params.entityId, req.user, 'view');
+    }
+    res.json(await getAttachmentUsage(entityType, req.params.entityId));
   } catch (error) {
     next(error);
   }
@@ -248,11 +191,9 @@ filesRouter.get('/download/:id', async (req: Request, res: Response, next: NextF
 // GET /api/files/:entityType/:entityId — list files for entity
 filesRouter.get('/:entityType/:entityId', authenticate, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { entityType, entityId } = req.params;
+    const entityType = parseEntityType(req.params.entityType);
+    const { entityId } = req.params;
 
-    if (!ALLOWED_ENTITY_TYPES.includes(entityType)) {
-      throw new AppError(400, `entityType לא חוקי: ${entityType}`);
-    }
     if (entityType === 'task') {
       await assertTaskFileAccess(entityId, req.user, 'view');
     }
@@ -288,14 +229,8 @@ filesRouter.delete('/:id', authenticate, async (req: Request, res: Response, nex
       await assertTaskFileAccess(attachment.entityId, req.user, 'modify');
     }
 
-    // Delete from disk
-    const fullPath = path.join(UPLOADS_BASE, attachment.filePath);
-    if (fs.existsSync(fullPath)) {
-      fs.unlinkSync(fullPath);
-    }
-
-    // Delete from DB
-    await prisma.fileAttachment.delete({ where: { id: req.params.id } });
+    // Delete from storage, then DB
+    await deleteAttachment(attachment);
 
     res.json({ success: true });
   } catch (error) {
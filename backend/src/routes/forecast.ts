@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { prisma } from '../utils/prisma.js';
 import { authenticate, managerOrAdmin } from '../middleware/auth.js';
 import { Decimal } from '@prisma/client/runtime/library';
+import type { BranchType } from '@prisma/client';
+import { getClosedDays } from '../utils/holidays.js';
 
 export const forecastRouter = Router();
 
@@ -28,6 +30,31 @@ function getMonthKey(date: Date): string {
   return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
 }
 
+// Helper: Drop scheduled meetings that fall on a holiday or organization closure
+// for their branch type — they won't actually happen, so they mustn't be forecast.
+async function excludeClosedDays<T extends { scheduledDate: Date }>(
+  meetings: T[],
+  start: Date,
+  end: Date,
+  branchTypeOf: (meeting: T) => BranchType | null | undefined,
+): Promise<T[]> {
+  const closedByType = new Map<string, Set<string>>();
+  const result: T[] = [];
+  for (const meeting of meetings) {
+    const branchType = branchTypeOf(meeting) ?? null;
+    const cacheKey = branchType ?? '';
+    let closed = closedByType.get(cacheKey);
+    if (!closed) {
+      closed = new Set((await getClosedDays(start, end, branchType)).keys());
+      closedByType.set(cacheKey, closed);
+    }
+    if (!closed.has(meeting.scheduledDate.toISOString().split('T')[0])) {
+      result.push(meeting);
+    }
+  }
+  return result;
+}
+
 // Helper: Get month name in Hebrew
 function getMonthNameHebrew(monthKey: string): string {
   const [year, month] = monthKey.split('-');
@@ -384,7 +411,7 @@ forecastRouter.get('/', managerOrAdmin, async (req, res, next) => {
     currentMonthEnd.setMonth(currentMonthEnd.getMonth() + 1);
 
     // Fetch scheduled meetings in the current month that haven't happened yet
-    const currentMonthScheduled = await prisma.meeting.findMany({
+    const currentMonthCandidates = await prisma.meeting.findMany({
       where: {
         scheduledDate: {
           gte: tomorrow, // from tomorrow onwards
@@ -396,7 +423,7 @@ forecastRouter.get('/', managerOrAdmin, async (req, res, next) => {
       },
       include: {
         cycle: {
-          include: { expenses: true },
+          include: { expenses: true, branch: { select: { type: true } } },
         },
         instructor: {
           select: {
@@ -408,6 +435,9 @@ forecastRouter.get('/', managerOrAdmin, async (req, res, next) => {
         },
       },
     });
+    const currentMonthScheduled = await excludeClosedDays(
+      currentMonthCandidates, tomorrow, currentMonthEnd, (m) => m.cycle.branch.type,
+    );
 
     const currentMonthKey = getMonthKey(currentMonth);
     const currentMonthData = historicalByMonth.get(currentMonthKey);
@@ -472,7 +502,7 @@ forecastRouter.get('/', managerOrAdmin, async (req, res, next) => {
     nextMonth.setMonth(nextMonth.getMonth() + 1);
 
     // Get scheduled future meetings (from next month onwards)
-    const futureMeetings = await prisma.meeting.findMany({
+    const scheduledFutureMeetings = await prisma.meeting.findMany({
       where: {
         scheduledDate: {
           gte: nextMonth,
@@ -486,6 +516,7 @@ forecastRouter.get('/', managerOrAdmin, async (req, res, next) => {
         cycle: {
           include: {
             expenses: true,
+            branch: { select: { type: true } },
           },
         },
         instructor: {
@@ -499,6 +530,9 @@ forecastRouter.get('/', managerOrAdmin, async (req, res, next) => {
         },
       },
     });
+    const futureMeetings = await excludeClosedDays(
+      scheduledFutureMeetings, nextMonth, forecastEnd, (m) => m.cycle.branch.type,
+    );
 
     // Aggregate forecast by month
     const forecastByMonth: Map<string, MonthlyData> = new Map();
@@ -688,7 +722,7 @@ forecastRouter.get('/cycle/:id', managerOrAdmin, async (req, res, next) => {
         },
         expenses: true,
         instructor: { select: { id: true, name: true } },
-        branch: { select: { id: true, name: true } },
+        branch: { select: { id: true, name: true, type: true } },
         course: { select: { id: true, name: true } },
       },
     });
@@ -740,7 +774,9 @@ forecastRouter.get('/cycle/:id', managerOrAdmin, async (req, res, next) => {
         cycleExpensePerMeeting += toNumber(expense.amount);
       }
     }
-    const forecastableMeetings = cycle.status === 'active' ? cycle.meetings : [];
+    const forecastableMeetings = cycle.status === 'active'
+      ? await excludeClosedDays(cycle.meetings, currentMonth, forecastEnd, () => cycle.branch.type)
+      : [];
 
     if (forecastableMeetings.length > 0) {
       cycleExpensePerMeeting /= forecastableMeetings.length;
@@ -8,7 +8,7 @@
  */
 import { Router } from 'express';
 import { authenticate, managerOrAdmin } from '../middleware/auth.js';
-import { GoogleAdsApi } from 'google-ads-api';
+import { getGoogleAdsCustomer, isGoogleAdsConfigured } from '../services/google-ads.js';
 
 export const googleAdsRouter = Router();
 googleAdsRouter.use(authenticate);
@@ -26,43 +26,11 @@ function getDateRange(days: number): { startDate: string; endDate: string } {
   return { startDate: fmt(start), endDate: fmt(end) };
 }
 
-function getCustomer() {
-  const {
-    GOOGLE_ADS_DEVELOPER_TOKEN,
-    GOOGLE_ADS_CLIENT_ID,
-    GOOGLE_ADS_CLIENT_SECRET,
-    GOOGLE_ADS_REFRESH_TOKEN,
-    GOOGLE_ADS_CUSTOMER_ID,
-  } = process.env;
-
-  if (!GOOGLE_ADS_DEVELOPER_TOKEN || !GOOGLE_ADS_CLIENT_ID || !GOOGLE_ADS_CLIENT_SECRET
-      || !GOOGLE_ADS_REFRESH_TOKEN || !GOOGLE_ADS_CUSTOMER_ID) {
-    throw new Error('Google Ads credentials missing in .env');
-  }
-
-  const client = new GoogleAdsApi({
-    client_id: GOOGLE_ADS_CLIENT_ID,
-    client_secret: GOOGLE_ADS_CLIENT_SECRET,
-    developer_token: GOOGLE_ADS_DEVELOPER_TOKEN,
-  });
-
-  return client.Customer({
-    customer_id: GOOGLE_ADS_CUSTOMER_ID.replace(/-/g, ''),
-    refresh_token: GOOGLE_ADS_REFRESH_TOKEN,
-  });
-}
-
 // ─── Routes ───────────────────────────────────────────────────────────────────
 
 // GET /api/google-ads/status
 googleAdsRouter.get('/status', (_req, res) => {
-  const configured = !!(
-    process.env.GOOGLE_ADS_DEVELOPER_TOKEN &&
-    process.env.GOOGLE_ADS_CLIENT_ID &&
-    process.env.GOOGLE_ADS_CLIENT_SECRET &&
-    process.env.GOOGLE_ADS_REFRESH_TOKEN &&
-    process.env.GOOGLE_ADS_CUSTOMER_ID
-  );
+  const configured = isGoogleAdsConfigured();
   res.json({ configured, customerId: process.env.GOOGLE_ADS_CUSTOMER_ID || null });
 });
 
@@ -72,7 +40,7 @@ googleAdsRouter.get('/campaigns', async (req, res, next) => {
     const days = Math.min(parseInt(req.query.days as string) || 30, 365);
     const { startDate, endDate } = getDateRange(days);
 
-    const customer = getCustomer();
+    const customer = getGoogleAdsCustomer();
 
     // Query 1: all campaigns (including paused with no recent activity)
     const campaignList = await customer.query(`
@@ -152,7 +120,7 @@ googleAdsRouter.get('/summary', async (req, res, next) => {
     const days = Math.min(parseInt(req.query.days as string) || 30, 365);
     const { startDate, endDate } = getDateRange(days);
 
-    const customer = getCustomer();
+    const customer = getGoogleAdsCustomer();
     const results = await customer.query(`
       SELECT
         metrics.impressions,
@@ -200,7 +168,7 @@ googleAdsRouter.get('/daily', async (req, res, next) => {
     const days = Math.min(parseInt(req.query.days as string) || 30, 365);
     const { startDate, endDate } = getDateRange(days);
 
-    const customer = getCustomer();
+    const customer = getGoogleAdsCustomer();
     const results = await customer.query(`
       SELECT
         segments.date,
@@ -256,7 +224,7 @@ googleAdsRouter.get('/campaigns/:id', async (req, res, next) => {
     const days = Math.min(parseInt(req.query.days as string) || 30, 365);
     const { startDate, endDate } = getDateRange(days);
 
-    const customer = getCustomer();
+    const customer = getGoogleAdsCustomer();
 
     // 1. Basic campaign info
     const campaignResults = await customer.query(`
@@ -387,7 +355,7 @@ googleAdsRouter.patch('/campaigns/:id/status', managerOrAdmin, async (req, res,
       return res.status(400).json({ error: 'status must be active or paused' });
     }
 
-    const customer = getCustomer();
+    const customer = getGoogleAdsCustomer();
     const customerId = (process.env.GOOGLE_ADS_CUSTOMER_ID || '').replace(/-/g, '');
     const newStatus = status === 'active' ? 2 : 3; // 2=ENABLED, 3=PAUSED
 
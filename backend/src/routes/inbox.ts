@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  getContactMessages,
+  getInboxUnreadCount,
+  isInboxChannel,
+  listInboxContacts,
+  replyToThread,
+  searchInboxMessages,
+  setThreadCustomer,
+} from '../services/inbox.js';
+
+export const inboxRouter = Router();
+
+inboxRouter.use(authenticate);
+
+function parseChannel(value: unknown) {
+  if (!isInboxChannel(value)) throw new AppError(400, 'Invalid channel');
+  return value;
+}
+
+// Contacts with their WhatsApp / Messenger / Instagram threads merged
+inboxRouter.get('/contacts', async (req, res, next) => {
+  try {
+    const channel = req.query.channel ? parseChannel(req.query.channel) : undefined;
+    const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+    res.json(await listInboxContacts({ search, channel }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Combined unread counter (nav badge)
+inboxRouter.get('/unread-count', async (_req, res, next) => {
+  try {
+    res.json(await getInboxUnreadCount());
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Merged timeline of a contact — key is "customer:<id>" or "<channel>:<threadId>"
+inboxRouter.get('/contacts/:key/messages', async (req, res, next) => {
+  try {
+    res.json(await getContactMessages(req.params.key));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Search the message history of all channels
+inboxRouter.get('/search', async (req, res, next) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (q.length < 2) throw new AppError(400, 'Search query must be at least 2 characters');
+    res.json(await searchInboxMessages(q));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reply on the thread's originating channel
+inboxRouter.post('/threads/:channel/:threadId/reply', async (req, res, next) => {
+  try {
+    const channel = parseChannel(req.params.channel);
+    const text = typeof req.body.text === 'string' ? req.body.text.trim() : '';
+    if (!text) throw new AppError(400, 'text is required');
+
+    let message;
+    try {
+      message = await replyToThread(channel, req.params.threadId, text);
+    } catch {
+      throw new AppError(502, `Failed to send ${channel} message`);
+    }
+    if (!message) throw new AppError(404, 'Conversation not found');
+    res.json(message);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Link / unlink a thread to a customer manually
+inboxRouter.put('/threads/:channel/:threadId/customer', async (req, res, next) => {
+  try {
+    const channel = parseChannel(req.params.channel);
+    const customerId = req.body.customerId ?? null;
+    if (customerId !== null && typeof customerId !== 'string') throw new AppError(400, 'customerId must be a string or null');
+    res.json(await setThreadCustomer(channel, req.params.threadId, customerId));
+  } catch (error) {
+    next(error);
+  }
+});
@@ -6,6 +6,8 @@
 import { Router, Request, Response } from 'express';
 import { prisma } from '../utils/prisma.js';
 import { authenticate } from '../middleware/auth.js';
+import { saveDmMessage, sendDmReply, sendDmText } from '../services/social-dm.js';
+import { linkInboxThread } from '../services/inbox.js';
 import axios from 'axios';
 import OpenAI from 'openai';
 
@@ -24,23 +26,6 @@ const SYSTEM_PROMPT = `אתה נציג שירות לקוחות ידידותי ש
 תשובות קצרות וברורות — לא יותר מ-3 משפטים.`;
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
-async function sendInstagramMessage(igsid: string, text: string): Promise<string | null> {
-  if (!PAGE_ACCESS_TOKEN) {
-    console.warn('[Instagram] No PAGE_ACCESS_TOKEN configured');
-    return null;
-  }
-  try {
-    const res = await axios.post(
-      `https://graph.facebook.com/v19.0/${IG_USER_ID}/messages?access_token=${PAGE_ACCESS_TOKEN}`,
-      { recipient: { id: igsid }, message: { text } }
-    );
-    return res.data?.message_id || null;
-  } catch (err: any) {
-    console.error('[Instagram] Send error:', err.response?.data || err.message);
-    return null;
-  }
-}
-
 async function getSenderProfile(igsid: string): Promise<{ name: string; username: string }> {
   try {
     if (PAGE_ACCESS_TOKEN) {
@@ -69,16 +54,6 @@ async function getOrCreateConversation(igsid: string, senderName: string, sender
   return rows[0];
 }
 
-async function saveMessage(convId: string, direction: 'inbound' | 'outbound', content: string, msgId?: string, isAi = false) {
-  const rows = await prisma.$queryRaw<any[]>`
-    INSERT INTO instagram_messages (conversation_id, direction, content, msg_id, is_ai_generated)
-    VALUES (${convId}::uuid, ${direction}, ${content}, ${msgId || null}, ${isAi})
-    ON CONFLICT (msg_id) DO NOTHING
-    RETURNING *
-  `;
-  return rows[0];
-}
-
 async function generateAIReply(igsid: string, _userMessage: string): Promise<string> {
   const conv = await prisma.$queryRaw<any[]>`
     SELECT m.* FROM instagram_messages m
@@ -149,7 +124,10 @@ router.post('/webhook', async (req: Request, res: Response) => {
       if (!conv) continue;
 
       // Save inbound message
-      await saveMessage(conv.id, 'inbound', text, msgId);
+      await saveDmMessage('instagram', conv.id, 'inbound', text, msgId);
+      linkInboxThread('instagram', conv.id, { text }).catch((err) =>
+        console.error('[Instagram] inbox customer link failed:', err)
+      );
 
       // Update conversation
       await prisma.$queryRaw`
@@ -162,8 +140,8 @@ router.post('/webhook', async (req: Request, res: Response) => {
       if (conv.ai_enabled && PAGE_ACCESS_TOKEN) {
         try {
           const aiReply = await generateAIReply(igsid, text);
-          const outMsgId = await sendInstagramMessage(igsid, aiReply);
-          await saveMessage(conv.id, 'outbound', aiReply, outMsgId || undefined, true);
+          const outMsgId = await sendDmText('instagram', igsid, aiReply);
+          await saveDmMessage('instagram', conv.id, 'outbound', aiReply, outMsgId || undefined, true);
           await prisma.$queryRaw`
             UPDATE instagram_conversations
             SET last_message = ${aiReply}, last_message_at = NOW(), updated_at = NOW()
@@ -205,21 +183,14 @@ router.get('/conversations/:id/messages', authenticate, async (req: Request, res
 
 // ─── API: Send reply ──────────────────────────────────────────────────────────
 router.post('/send', authenticate, async (req: Request, res: Response) => {
-  const { conversation_id, igsid, text } = req.body;
-  if (!text || !igsid) return res.status(400).json({ error: 'igsid and text required' });
+  const { conversation_id, text } = req.body;
+  if (!text || !conversation_id) return res.status(400).json({ error: 'conversation_id and text required' });
   try {
-    const msgId = await sendInstagramMessage(igsid, text);
-    if (!msgId && PAGE_ACCESS_TOKEN) {
-      return res.status(500).json({ error: 'Failed to send message — check INSTAGRAM_PAGE_ACCESS_TOKEN' });
-    }
-    const msg = await saveMessage(conversation_id, 'outbound', text, msgId || undefined, false);
-    await prisma.$queryRaw`
-      UPDATE instagram_conversations SET last_message = ${text}, last_message_at = NOW(), updated_at = NOW()
-      WHERE id = ${conversation_id}::uuid
-    `;
-    res.json(msg || { ok: true });
-  } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    const msg = await sendDmReply('instagram', conversation_id, text);
+    if (!msg) return res.status(404).json({ error: 'Conversation not found' });
+    res.json(msg);
+  } catch {
+    res.status(500).json({ error: 'Failed to send message — check INSTAGRAM_PAGE_ACCESS_TOKEN' });
   }
 });
 
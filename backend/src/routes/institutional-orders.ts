@@ -5,6 +5,9 @@ import { authenticate, managerOrAdmin } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { paginationSchema } from '../types/schemas.js';
 import { buildOrderPreview } from '../services/quotes.service.js';
+import { buildOrderBillingPlan, getOrderBillingPlan } from '../services/order-billing-plan.js';
+import { getOrderBudgetConsumption } from '../services/order-budget.js';
+import { logAudit } from '../utils/audit.js';
 import { z } from 'zod';
 
 // pdf-parse ships as CommonJS; its index.js runs debug code when it is the entry module,
@@ -195,6 +198,44 @@ institutionalOrdersRouter.get('/:id', async (req, res, next) => {
   }
 });
 
+// Projected monthly billing vs. the billing periods generated so far
+institutionalOrdersRouter.get('/:id/billing-plan', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    res.json(await getOrderBillingPlan(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Budget consumption: meetings held and amount billed vs. the order, and where the schedule runs out
+institutionalOrdersRouter.get('/:id/budget', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    res.json(await getOrderBudgetConsumption(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rebuild the projection from the order's current meeting schedule
+institutionalOrdersRouter.post('/:id/billing-plan/rebuild', managerOrAdmin, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const months = await buildOrderBillingPlan(id);
+    await logAudit({
+      action: 'UPDATE',
+      entity: 'InstitutionalOrder',
+      entityId: id,
+      newValue: { billingPlanMonths: months.length, plannedTotal: months.reduce((sum, m) => sum + m.expectedAmount, 0) },
+      req,
+    });
+    res.json(await getOrderBillingPlan(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
 export const orderSchema = z.object({
   branchId: z.string().optional().nullable(),
   payingBodyId: z.string().optional().nullable(),
@@ -293,9 +334,18 @@ institutionalOrdersRouter.put('/:id', managerOrAdmin, async (req, res, next) =>
     const existing = await prisma.institutionalOrder.findUnique({ where: { id } });
     if (!existing) throw new AppError(404, 'Institutional order not found');
 
+    // A new budget (usually an extension from the school) re-arms the consumption alerts
+    const changed = (next: unknown, current: unknown) =>
+      next !== undefined && (next == null ? null : Number(next)) !== (current == null ? null : Number(current));
+    const budgetChanged = changed(data.estimatedTotal, existing.estimatedTotal)
+      || changed(data.estimatedMeetings, existing.estimatedMeetings)
+      || changed(data.totalAmount, existing.totalAmount)
+      || changed(data.pricePerMeeting, existing.pricePerMeeting);
+
     const order = await prisma.institutionalOrder.update({
       where: { id },
       data: {
+        ...(budgetChanged && { budgetAlert80SentAt: null, budgetAlert100SentAt: null, budgetOverrunAlertSentAt: null }),
         ...(data.branchId !== undefined && { branchId: data.branchId || null }),
         ...(data.payingBodyId !== undefined && { payingBodyId: data.payingBodyId || null }),
         ...(data.orderName !== undefined && { orderName: data.orderName }),
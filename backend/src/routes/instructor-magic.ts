@@ -22,6 +22,7 @@ import { syncCycleProgress } from '../utils/cycle-sync.js';
 import { calculateInstructorPayment, recalculateDailyInstructorPaymentsForMeeting } from '../services/instructor-payment.js';
 import { checkAndSendNegativeProfitAlert } from '../services/negative-profit-alert.js';
 import { checkAndSendMeetingReportQualityAlert } from '../services/meeting-report-quality-alert.js';
+import { publishMeetingUpdated } from '../services/domain-events.js';
 
 // WhatsApp group for pending meeting requests (postponements, cancellations)
 const ADMIN_PHONE = '120363353459332838@g.us';
@@ -64,6 +65,9 @@ router.get('/verify/:meetingId/:token', async (req: Request, res: Response) => {
             branch: { select: { id: true, name: true } },
             course: { select: { id: true, name: true } },
           }
+        },
+        lesson: {
+          select: { lessonNumber: true, title: true, objectives: true, materialLinks: true, durationMinutes: true }
         }
       }
     });
@@ -119,10 +123,28 @@ router.get('/verify/:meetingId/:token', async (req: Request, res: Response) => {
       }
     });
     
+    // Students from other cycles joining this meeting as an approved make-up lesson
+    const makeupAttendees = await prisma.meetingMakeupAttendee.findMany({
+      where: { meetingId },
+      include: {
+        registration: {
+          include: {
+            student: {
+              include: {
+                customer: {
+                  select: { name: true, phone: true }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+    
     // Build attendance list
     const attendanceMap = new Map(attendance.map(a => [a.registrationId, a]));
     
-    const attendanceList = registrations.map(reg => {
+    const attendanceList = [...registrations, ...makeupAttendees.map(m => m.registration)].map(reg => {
       const existing = attendanceMap.get(reg.id);
       return {
         registrationId: reg.id,
@@ -168,6 +190,7 @@ router.get('/verify/:meetingId/:token', async (req: Request, res: Response) => {
         courseName: meeting.cycle?.course?.name,
         activityType: meeting.cycle?.activityType,
         zoomJoinUrl: meeting.zoomJoinUrl,
+        lesson: meeting.lesson,
       },
       instructor: {
         id: meeting.instructor?.id,
@@ -240,10 +263,11 @@ router.post('/update/:meetingId/:token', async (req: Request, res: Response) =>
     }
     
     if (Object.keys(updates).length > 0) {
-      await prisma.meeting.update({
+      const updated = await prisma.meeting.update({
         where: { id: meetingId },
         data: updates,
       });
+      publishMeetingUpdated(updated, meeting.status);
     }
     
     // Update attendance (only for completed meetings)
@@ -438,7 +462,7 @@ router.post('/approve-request/:meetingId', authenticate, adminOnly, async (req:
       newStatus = 'scheduled'; // Rejected — revert to scheduled
     }
     
-    await prisma.meeting.update({
+    const updated = await prisma.meeting.update({
       where: { id: meetingId },
       data: { 
         status: newStatus as any,
@@ -447,6 +471,7 @@ router.post('/approve-request/:meetingId', authenticate, adminOnly, async (req:
         notes: adminNotes || meeting.notes,
       },
     });
+    publishMeetingUpdated(updated, meeting.status);
 
     if (action === 'approve' && isPostponeRequest) {
       const replacementId = await addReplacementMeetingWithRetry(
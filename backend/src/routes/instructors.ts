@@ -1,11 +1,23 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import crypto from 'crypto';
 import { prisma } from '../utils/prisma.js';
 import { authenticate, operationsManagerOrAdmin } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { createInstructorSchema, updateInstructorSchema, uuidSchema } from '../types/schemas.js';
+import {
+  createInstructorSchema,
+  updateInstructorSchema,
+  instructorAvailabilitySchema,
+  instructorUnavailableDateSchema,
+  uuidSchema,
+} from '../types/schemas.js';
 import { parsePaginationParams, paginatedResponse } from '../utils/pagination.js';
 import { logAudit, logUpdateAudit } from '../utils/audit.js';
+import {
+  addUnavailableDate,
+  getInstructorAvailability,
+  removeUnavailableDate,
+  replaceInstructorAvailability,
+} from '../services/substitute-finder.js';
 
 export const instructorsRouter = Router();
 
@@ -389,6 +401,81 @@ instructorsRouter.get('/:id/schedule', async (req, res, next) => {
   }
 });
 
+// Ops roles manage anyone's availability; an instructor manages only their own.
+async function assertCanEditAvailability(req: Request, instructorId: string) {
+  const role = req.user!.role;
+  if (['admin', 'manager', 'operations_manager'].includes(role)) return;
+  if (role === 'instructor') {
+    const own = await prisma.instructor.findUnique({
+      where: { userId: req.user!.userId },
+      select: { id: true },
+    });
+    if (own?.id === instructorId) return;
+  }
+  throw new AppError(403, 'אין הרשאה לעדכן זמינות של מדריך זה');
+}
+
+// Get instructor's weekly availability and upcoming unavailable dates
+instructorsRouter.get('/:id/availability', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    res.json(await getInstructorAvailability(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace instructor's weekly availability slots
+instructorsRouter.put('/:id/availability', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    await assertCanEditAvailability(req, id);
+    const data = instructorAvailabilitySchema.parse(req.body);
+
+    const before = await getInstructorAvailability(id);
+    const availability = await replaceInstructorAvailability(id, data);
+
+    await logAudit({
+      action: 'UPDATE',
+      entity: 'InstructorAvailability',
+      entityId: id,
+      oldValue: { slots: before.slots },
+      newValue: { slots: availability.slots },
+      req,
+    });
+
+    res.json(availability);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark a date the instructor cannot teach
+instructorsRouter.post('/:id/unavailable-dates', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    await assertCanEditAvailability(req, id);
+    const data = instructorUnavailableDateSchema.parse(req.body);
+
+    const row = await addUnavailableDate(id, data);
+    res.status(201).json({ id: row.id, date: data.date, reason: row.reason });
+  } catch (error) {
+    next(error);
+  }
+});
+
+instructorsRouter.delete('/:id/unavailable-dates/:dateId', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    await assertCanEditAvailability(req, id);
+
+    await removeUnavailableDate(id, req.params.dateId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Generate invite for instructor
 instructorsRouter.post('/:id/invite', operationsManagerOrAdmin, async (req, res, next) => {
   try {
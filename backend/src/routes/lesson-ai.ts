@@ -20,6 +20,8 @@ const generateSchema = z.object({
   ageGroup: z.string().min(1),
   cycleName: z.string().optional(),
   topic: z.string().optional(),
+  meetingId: z.string().uuid().optional(),
+  lessonNumber: z.number().int().positive().optional(),
 });
 
 // POST /api/lesson-ai/generate
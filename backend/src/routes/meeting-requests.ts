@@ -6,6 +6,10 @@ import { AppError } from '../middleware/errorHandler.js';
 import { sendEmail } from '../services/email/sender.js';
 import { config } from '../config.js';
 import { addReplacementMeetingWithRetry } from '../services/replacement-meeting.js';
+import { findSubstitutes, reassignMeetingInstructor } from '../services/substitute-finder.js';
+import { publishMeetingUpdated } from '../services/domain-events.js';
+import type { InstructorConflict } from '../services/instructor-conflicts.js';
+import { allowConflictsSchema } from '../types/schemas.js';
 
 export const meetingRequestsRouter = Router();
 
@@ -21,7 +25,9 @@ const createRequestSchema = z.object({
 const reviewRequestSchema = z.object({
   reviewNotes: z.string().trim().max(1000).optional(),
   reason: z.string().trim().max(1000).optional(),
-});
+  // Replacement requests only: reassign the meeting to this instructor on approval
+  substituteInstructorId: z.string().uuid().optional(),
+}).merge(allowConflictsSchema);
 
 const logQuerySchema = z.object({
   instructorId: z.string().min(1).optional(),
@@ -540,6 +546,28 @@ meetingRequestsRouter.get('/log', async (req, res, next) => {
   }
 });
 
+// GET /api/meeting-requests/:id/substitutes — ranked instructors who could take the meeting
+meetingRequestsRouter.get('/:id/substitutes', async (req, res, next) => {
+  try {
+    if (req.user!.role === 'instructor') {
+      throw new AppError(403, 'אין הרשאה לצפות במדריכים מחליפים');
+    }
+    const limit = z.coerce.number().int().min(1).max(50).optional().default(10).parse(req.query.limit);
+
+    const request = await prisma.meetingChangeRequest.findUnique({
+      where: { id: req.params.id },
+      select: { meetingId: true },
+    });
+    if (!request) {
+      throw new AppError(404, 'בקשה לא נמצאה');
+    }
+
+    res.json(await findSubstitutes(request.meetingId, limit));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // PUT /api/meeting-requests/:id/approve
 meetingRequestsRouter.put('/:id/approve', async (req, res, next) => {
   try {
@@ -561,9 +589,14 @@ meetingRequestsRouter.put('/:id/approve', async (req, res, next) => {
       throw new AppError(400, 'הבקשה כבר טופלה');
     }
 
+    if (review.substituteInstructorId && request.type !== 'replacement') {
+      throw new AppError(400, 'ניתן לבחור מדריך מחליף רק בבקשת החלפה');
+    }
+
     // Execute the action based on type
+    let conflictWarnings: InstructorConflict[] = [];
     if (request.type === 'cancel') {
-      await prisma.meeting.update({
+      const meeting = await prisma.meeting.update({
         where: { id: request.meetingId },
         data: {
           status: 'cancelled',
@@ -571,8 +604,9 @@ meetingRequestsRouter.put('/:id/approve', async (req, res, next) => {
           statusUpdatedById: req.user!.userId,
         },
       });
+      publishMeetingUpdated(meeting, request.meeting.status);
     } else if (request.type === 'postpone') {
-      await prisma.meeting.update({
+      const meeting = await prisma.meeting.update({
         where: { id: request.meetingId },
         data: {
           status: 'postponed',
@@ -580,6 +614,7 @@ meetingRequestsRouter.put('/:id/approve', async (req, res, next) => {
           statusUpdatedById: req.user!.userId,
         },
       });
+      publishMeetingUpdated(meeting, request.meeting.status);
       // Add replacement meeting at end of cycle (with retry + admin notification on failure)
       const replacementId = await addReplacementMeetingWithRetry(
         request.meetingId,
@@ -589,8 +624,14 @@ meetingRequestsRouter.put('/:id/approve', async (req, res, next) => {
       if (!replacementId) {
         console.error('[ReplacementMeeting] All retries failed for meeting-request approval:', request.meetingId);
       }
+    } else if (request.type === 'replacement' && review.substituteInstructorId) {
+      ({ conflictWarnings } = await reassignMeetingInstructor(
+        request.meetingId,
+        review.substituteInstructorId,
+        review.allowConflicts ?? false,
+      ));
     }
-    // 'replacement' type — just mark as approved, admin handles manually
+    // 'replacement' without a chosen substitute — just mark as approved, admin handles manually
 
     const updated = await prisma.meetingChangeRequest.update({
       where: { id: req.params.id },
@@ -599,14 +640,16 @@ meetingRequestsRouter.put('/:id/approve', async (req, res, next) => {
         reviewedBy: req.user!.userId,
         reviewedAt: new Date(),
         reviewNotes: review.reviewNotes || review.reason || null,
+        substituteInstructorId: review.substituteInstructorId ?? null,
       },
       include: {
         meeting: { include: { cycle: true } },
         instructor: true,
+        substituteInstructor: { select: { id: true, name: true } },
       },
     });
 
-    res.json(updated);
+    res.json({ ...updated, conflictWarnings });
   } catch (error) {
     next(error);
   }
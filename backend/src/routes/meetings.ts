@@ -2,9 +2,10 @@ import { Router } from 'express';
 import { prisma } from '../utils/prisma.js';
 import { authenticate, operationsManagerOrAdmin } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { updateMeetingSchema, postponeMeetingSchema, paginationSchema, uuidSchema } from '../types/schemas.js';
+import { updateMeetingSchema, postponeMeetingSchema, paginationSchema, uuidSchema, allowConflictsSchema } from '../types/schemas.js';
 import { addReplacementMeetingWithRetry } from '../services/replacement-meeting.js';
 import { logAudit, logUpdateAudit } from '../utils/audit.js';
+import { publishDomainEvent, publishMeetingUpdated } from '../services/domain-events.js';
 import { zoomService, getIsraelOffset } from '../services/zoom.js';
 import { googleMeetService } from '../services/google-meet.js';
 import { handleCycleCompletion } from '../services/cycle-completion.js';
@@ -17,6 +18,7 @@ import {
 } from '../services/instructor-payment.js';
 import { checkAndSendNegativeProfitAlert } from '../services/negative-profit-alert.js';
 import { checkAndSendMeetingReportQualityAlert } from '../services/meeting-report-quality-alert.js';
+import { checkInstructorConflicts, type InstructorConflict } from '../services/instructor-conflicts.js';
 
 export const meetingsRouter = Router();
 
@@ -353,7 +355,7 @@ meetingsRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
       if (cycle.meetingRevenue && Number(cycle.meetingRevenue) > 0) {
         revenue = Number(cycle.meetingRevenue);
       } else {
-        revenue = meetingRevenueFromRegistrations(cycle.registrations, cycle.totalMeetings, cycle.type);
+        revenue = meetingRevenueFromRegistrations(cycle.registrations, cycle.totalMeetings, cycle.type, scheduledDate);
       }
     }
 
@@ -514,6 +516,7 @@ meetingsRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
       newValue: meeting as any,
       req,
     });
+    publishDomainEvent('meeting.created', meeting);
 
     res.status(201).json(meeting);
   } catch (error) {
@@ -525,7 +528,7 @@ meetingsRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
 meetingsRouter.put('/:id', async (req, res, next) => {
   try {
     const id = uuidSchema.parse(req.params.id);
-    const data = updateMeetingSchema.parse(req.body);
+    const { allowConflicts = false, ...data } = updateMeetingSchema.parse(req.body);
 
     // Check if user can update this meeting
     const existingMeeting = await prisma.meeting.findUnique({
@@ -586,6 +589,24 @@ meetingsRouter.put('/:id', async (req, res, next) => {
       updateData.endTime = new Date(`1970-01-01T${data.endTime}:00Z`);
     }
 
+    // Moving the meeting or changing its instructor must not double-book the instructor
+    let conflictWarnings: InstructorConflict[] = [];
+    const scheduleChanged = ['scheduledDate', 'startTime', 'endTime', 'instructorId']
+      .some((field) => updateData[field] !== undefined);
+    const nextStatus = data.status ?? existingMeeting.status;
+    if (scheduleChanged && nextStatus !== 'cancelled' && nextStatus !== 'postponed') {
+      conflictWarnings = await checkInstructorConflicts([{
+        meetingId: id,
+        instructorId: updateData.instructorId ?? existingMeeting.instructorId,
+        scheduledDate: updateData.scheduledDate ?? existingMeeting.scheduledDate,
+        startTime: updateData.startTime ?? existingMeeting.startTime,
+        endTime: updateData.endTime ?? existingMeeting.endTime,
+        activityType: data.activityType ?? existingMeeting.activityType ?? existingMeeting.cycle.activityType,
+        location: existingMeeting.cycle.location,
+        cycleName: existingMeeting.cycle.name,
+      }], allowConflicts);
+    }
+
     // Flags for post-update cycle sync
     let statusChangedToCompleted = false;
     let statusChangedFromCompleted = false;
@@ -624,7 +645,7 @@ meetingsRouter.put('/:id', async (req, res, next) => {
               if (cycleData.meetingRevenue && Number(cycleData.meetingRevenue) > 0) {
                 revenue = Number(cycleData.meetingRevenue);
               } else {
-                revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type);
+                revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type, existingMeeting.scheduledDate);
               }
             } else if (cycleData.type === 'institutional_per_child') {
               // Price per student × number of students (use studentCount if set, otherwise count registrations)
@@ -778,8 +799,9 @@ meetingsRouter.put('/:id', async (req, res, next) => {
       newRecord: auditNewRecord,
       req,
     });
+    publishMeetingUpdated(meeting, existingMeeting.status, existingMeeting);
 
-    res.json(meeting);
+    res.json({ ...meeting, conflictWarnings });
   } catch (error) {
     next(error);
   }
@@ -848,6 +870,8 @@ meetingsRouter.post('/:id/postpone', operationsManagerOrAdmin, async (req, res,
       newValue: { status: 'postponed', rescheduledToId: newMeeting.id },
       req,
     });
+    publishMeetingUpdated(postponedMeeting, existingMeeting.status);
+    publishDomainEvent('meeting.created', newMeeting);
 
     res.json({
       originalMeeting: { id, status: 'postponed' },
@@ -879,10 +903,23 @@ meetingsRouter.get('/:id/attendance', async (req, res, next) => {
       },
     });
 
-    // Also get students who haven't been marked
+    // Also get students who haven't been marked, including approved make-up students from other cycles
     const meeting = await prisma.meeting.findUnique({
       where: { id },
       include: {
+        makeupAttendees: {
+          include: {
+            registration: {
+              include: {
+                student: {
+                  include: {
+                    customer: { select: { name: true, phone: true } },
+                  },
+                },
+              },
+            },
+          },
+        },
         cycle: {
           include: {
             registrations: {
@@ -901,7 +938,11 @@ meetingsRouter.get('/:id/attendance', async (req, res, next) => {
     });
 
     const markedIds = new Set(attendance.map(a => a.registrationId));
-    const unmarked = meeting?.cycle.registrations.filter(r => !markedIds.has(r.id)) || [];
+    const roster = [
+      ...(meeting?.cycle.registrations ?? []),
+      ...(meeting?.makeupAttendees.map(m => m.registration) ?? []),
+    ];
+    const unmarked = roster.filter(r => !markedIds.has(r.id));
 
     res.json({
       marked: attendance,
@@ -1122,7 +1163,7 @@ meetingsRouter.post('/:id/recalculate', operationsManagerOrAdmin, async (req, re
         if (cycleData.meetingRevenue && Number(cycleData.meetingRevenue) > 0) {
           revenue = Number(cycleData.meetingRevenue);
         } else {
-          revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type);
+          revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type, meeting.scheduledDate);
         }
       } else if (cycleData.type === 'institutional_per_child') {
         const pricePerStudent = Number(cycleData.pricePerStudent || 0);
@@ -1224,7 +1265,7 @@ meetingsRouter.post('/bulk-recalculate', operationsManagerOrAdmin, async (req, r
           if (cycleData.meetingRevenue && Number(cycleData.meetingRevenue) > 0) {
             revenue = Number(cycleData.meetingRevenue);
           } else {
-            revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type);
+            revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type, meeting.scheduledDate);
           }
         } else if (cycleData.type === 'institutional_per_child') {
           const pricePerStudent = Number(cycleData.pricePerStudent || 0);
@@ -1312,7 +1353,7 @@ meetingsRouter.post('/bulk-update-status', operationsManagerOrAdmin, async (req,
               if (cycleData.meetingRevenue && Number(cycleData.meetingRevenue) > 0) {
                 revenue = Number(cycleData.meetingRevenue);
               } else {
-                revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type);
+                revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type, existingMeeting.scheduledDate);
               }
             } else if (cycleData.type === 'institutional_per_child') {
               const pricePerStudent = Number(cycleData.pricePerStudent || 0);
@@ -1406,6 +1447,7 @@ meetingsRouter.post('/bulk-update-status', operationsManagerOrAdmin, async (req,
           newValue: { status },
           req,
         });
+        publishMeetingUpdated(updatedMeeting, existingMeeting.status);
 
         // Trigger replacement meeting when admin bulk-sets status to 'postponed'
         if (status === 'postponed' && existingMeeting.status !== 'postponed') {
@@ -1435,6 +1477,7 @@ meetingsRouter.post('/bulk-update-status', operationsManagerOrAdmin, async (req,
 meetingsRouter.post('/bulk-update', operationsManagerOrAdmin, async (req, res, next) => {
   try {
     const { ids, data } = req.body;
+    const { allowConflicts = false } = allowConflictsSchema.parse(req.body);
     
     if (!Array.isArray(ids) || ids.length === 0) {
       throw new AppError(400, 'ids array is required');
@@ -1467,6 +1510,27 @@ meetingsRouter.post('/bulk-update', operationsManagerOrAdmin, async (req, res, n
       throw new AppError(400, 'No valid fields to update');
     }
 
+    // Check the whole batch at once so two meetings moved onto the same slot also clash
+    let conflictWarnings: InstructorConflict[] = [];
+    const scheduleChanged = ['scheduledDate', 'startTime', 'endTime', 'instructorId']
+      .some((field) => updateData[field] !== undefined);
+    if (scheduleChanged && updateData.status !== 'cancelled' && updateData.status !== 'postponed') {
+      const targets = await prisma.meeting.findMany({
+        where: { id: { in: ids }, deletedAt: null, status: { notIn: ['cancelled', 'postponed'] } },
+        include: { cycle: { select: { name: true, location: true, activityType: true } } },
+      });
+      conflictWarnings = await checkInstructorConflicts(targets.map((meeting) => ({
+        meetingId: meeting.id,
+        instructorId: updateData.instructorId ?? meeting.instructorId,
+        scheduledDate: updateData.scheduledDate ?? meeting.scheduledDate,
+        startTime: updateData.startTime ?? meeting.startTime,
+        endTime: updateData.endTime ?? meeting.endTime,
+        activityType: updateData.activityType ?? meeting.activityType ?? meeting.cycle.activityType,
+        location: meeting.cycle.location,
+        cycleName: meeting.cycle.name,
+      })), allowConflicts);
+    }
+
     let updated = 0;
     let errors: string[] = [];
     const shouldRecalculate = updateData.status === 'completed';
@@ -1503,7 +1567,7 @@ meetingsRouter.post('/bulk-update', operationsManagerOrAdmin, async (req, res, n
           await assertRegistrationBelongsToCycle(perMeetingUpdateData.registrationId, existingMeeting.cycleId);
         }
 
-        await prisma.meeting.update({
+        const bulkUpdatedMeeting = await prisma.meeting.update({
           where: { id },
           data: perMeetingUpdateData,
         });
@@ -1531,7 +1595,7 @@ meetingsRouter.post('/bulk-update', operationsManagerOrAdmin, async (req, res, n
               if (cycleData.meetingRevenue && Number(cycleData.meetingRevenue) > 0) {
                 revenue = Number(cycleData.meetingRevenue);
               } else {
-                revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type);
+                revenue = meetingRevenueFromRegistrations(cycleData.registrations, cycleData.totalMeetings, cycleData.type, meeting.scheduledDate);
               }
             } else if (cycleData.type === 'institutional_per_child') {
               revenue = roundMoney(Number(cycleData.pricePerStudent || 0) * (cycleData.studentCount || registrationCount));
@@ -1547,8 +1611,10 @@ meetingsRouter.post('/bulk-update', operationsManagerOrAdmin, async (req, res, n
             });
             await recalculateDailyInstructorPaymentsForMeeting(updatedMeeting);
             await checkAndSendNegativeProfitAlert(id, 'meeting-bulk-update');
+            Object.assign(bulkUpdatedMeeting, updatedMeeting);
           }
         }
+        publishMeetingUpdated(bulkUpdatedMeeting, existingMeeting.status, existingMeeting);
 
         updated++;
       } catch (err: any) {
@@ -1559,7 +1625,8 @@ meetingsRouter.post('/bulk-update', operationsManagerOrAdmin, async (req, res, n
     res.json({ 
       success: true, 
       updated, 
-      errors: errors.length > 0 ? errors : undefined 
+      errors: errors.length > 0 ? errors : undefined,
+      conflictWarnings,
     });
   } catch (error) {
     next(error);
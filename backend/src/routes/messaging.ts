@@ -157,6 +157,7 @@ messagingRouter.post('/send', async (req, res, next) => {
               course: true,
             },
           },
+          lesson: true,
         },
       });
       
@@ -8,6 +8,9 @@ import { prisma } from '../utils/prisma.js';
 import { authenticate } from '../middleware/auth.js';
 import { findOrCreateCustomer } from '../utils/lead-customer.js';
 import { findOrCreateLeadAppointment } from '../utils/lead-dedup.js';
+import { enrollInDripCampaigns } from '../services/campaignDrip.service.js';
+import { saveDmMessage, sendDmReply, sendDmText } from '../services/social-dm.js';
+import { linkInboxThread } from '../services/inbox.js';
 import axios from 'axios';
 import OpenAI from 'openai';
 
@@ -25,23 +28,6 @@ const SYSTEM_PROMPT = `אתה נציג שירות לקוחות ידידותי ש
 תשובות קצרות וברורות — לא יותר מ-3 משפטים.`;
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
-async function sendMessengerMessage(psid: string, text: string): Promise<string | null> {
-  if (!PAGE_ACCESS_TOKEN) {
-    console.warn('[Messenger] No PAGE_ACCESS_TOKEN configured');
-    return null;
-  }
-  try {
-    const res = await axios.post(
-      `https://graph.facebook.com/v19.0/me/messages?access_token=${PAGE_ACCESS_TOKEN}`,
-      { recipient: { id: psid }, message: { text } }
-    );
-    return res.data?.message_id || null;
-  } catch (err: any) {
-    console.error('[Messenger] Send error:', err.response?.data || err.message);
-    return null;
-  }
-}
-
 async function getOrCreateConversation(psid: string, senderName: string, pageId: string) {
   const rows = await prisma.$queryRaw<any[]>`
     INSERT INTO messenger_conversations (psid, sender_name, page_id, last_message_at)
@@ -54,16 +40,6 @@ async function getOrCreateConversation(psid: string, senderName: string, pageId:
   return rows[0];
 }
 
-async function saveMessage(convId: string, direction: 'inbound' | 'outbound', content: string, msgId?: string, isAi = false) {
-  const rows = await prisma.$queryRaw<any[]>`
-    INSERT INTO messenger_messages (conversation_id, direction, content, msg_id, is_ai_generated)
-    VALUES (${convId}::uuid, ${direction}, ${content}, ${msgId || null}, ${isAi})
-    ON CONFLICT (msg_id) DO NOTHING
-    RETURNING *
-  `;
-  return rows[0];
-}
-
 async function generateAIReply(psid: string, _userMessage: string): Promise<string> {
   // Get last 10 messages for context
   const conv = await prisma.$queryRaw<any[]>`
@@ -141,7 +117,10 @@ router.post('/webhook', async (req: Request, res: Response) => {
       if (!conv) continue;
 
       // Save inbound message
-      await saveMessage(conv.id, 'inbound', text, msgId);
+      await saveDmMessage('messenger', conv.id, 'inbound', text, msgId);
+      linkInboxThread('messenger', conv.id, { text }).catch((err) =>
+        console.error('[Messenger] inbox customer link failed:', err)
+      );
 
       // Update conversation
       await prisma.$queryRaw`
@@ -155,8 +134,8 @@ router.post('/webhook', async (req: Request, res: Response) => {
       if (convFull[0]?.ai_enabled && PAGE_ACCESS_TOKEN) {
         try {
           const aiReply = await generateAIReply(psid, text);
-          const outMsgId = await sendMessengerMessage(psid, aiReply);
-          await saveMessage(conv.id, 'outbound', aiReply, outMsgId || undefined, true);
+          const outMsgId = await sendDmText('messenger', psid, aiReply);
+          await saveDmMessage('messenger', conv.id, 'outbound', aiReply, outMsgId || undefined, true);
           await prisma.$queryRaw`
             UPDATE messenger_conversations
             SET last_message = ${aiReply}, last_message_at = NOW(), updated_at = NOW()
@@ -198,21 +177,14 @@ router.get('/conversations/:id/messages', authenticate, async (req: Request, res
 
 // ─── API: Send reply ──────────────────────────────────────────────────────────
 router.post('/send', authenticate, async (req: Request, res: Response) => {
-  const { conversation_id, psid, text } = req.body;
-  if (!text || !psid) return res.status(400).json({ error: 'psid and text required' });
+  const { conversation_id, text } = req.body;
+  if (!text || !conversation_id) return res.status(400).json({ error: 'conversation_id and text required' });
   try {
-    const msgId = await sendMessengerMessage(psid, text);
-    if (!msgId && PAGE_ACCESS_TOKEN) {
-      return res.status(500).json({ error: 'Failed to send message — check PAGE_ACCESS_TOKEN' });
-    }
-    const msg = await saveMessage(conversation_id, 'outbound', text, msgId || undefined, false);
-    await prisma.$queryRaw`
-      UPDATE messenger_conversations SET last_message = ${text}, last_message_at = NOW(), updated_at = NOW()
-      WHERE id = ${conversation_id}::uuid
-    `;
-    res.json(msg || { ok: true });
-  } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    const msg = await sendDmReply('messenger', conversation_id, text);
+    if (!msg) return res.status(404).json({ error: 'Conversation not found' });
+    res.json(msg);
+  } catch {
+    res.status(500).json({ error: 'Failed to send message — check PAGE_ACCESS_TOKEN' });
   }
 });
 
@@ -301,6 +273,11 @@ async function fetchAndSaveFBLead(leadgenId: string) {
       childAge: childAge || undefined,
     });
 
+    if (customerId) {
+      enrollInDripCampaigns('facebook_lead', [{ customerId, name: fullName, phone, email }], lead.id)
+        .catch(err => console.error('[FB LeadAds] Drip campaign enrollment error:', err));
+    }
+
     const { isDuplicate: fbDuplicate } = await findOrCreateLeadAppointment({
       customerId: customerId || null,
       customerName: fullName || phone || 'ליד פייסבוק',
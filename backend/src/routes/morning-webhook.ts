@@ -11,6 +11,7 @@ import { prisma } from '../utils/prisma.js';
 import { sendWhatsAppMessage } from '../services/notifications.js';
 import { handlePostPaymentPlacement } from '../services/trial-placement.js';
 import { reconcileOmerRegistrationPayment } from '../services/omer-payment-reconciliation.js';
+import { reconcileRegistrationBalance } from '../services/parent-billing.js';
 
 export const morningWebhookRouter = Router();
 
@@ -202,12 +203,19 @@ morningWebhookRouter.post('/', async (req, res) => {
         status: 'paid',
         paymentMethod: 'morning_webhook',
         paidAt,
+        registrationId: paymentLink?.registrationId ?? null,
       },
     });
 
     console.log('[Morning Webhook] Created payment:', payment.id);
 
-    await reconcileOmerRegistrationPayment(payment.id);
+    // Links issued for a specific registration (parent app "pay now") settle that
+    // registration; anything else goes through the Omer auto-match.
+    if (paymentLink?.registrationId) {
+      await reconcileRegistrationBalance(paymentLink.registrationId);
+    } else {
+      await reconcileOmerRegistrationPayment(payment.id);
+    }
 
     // Trial-lesson placement automation (non-digital payments → flag + notify).
     await handlePostPaymentPlacement(payment.id);
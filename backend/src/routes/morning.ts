@@ -9,6 +9,7 @@ import { isMorningConfigured, morningRequest } from '../services/morning/client.
 import { prodPrisma as prisma } from '../utils/prodPrisma.js';
 import { calculateInstructorPayment } from '../services/instructor-payment.js';
 import { buildProformaSnapshotFromMorningDocument } from '../services/billing.js';
+import { grossFromNet } from '../utils/revenue.js';
 
 // Fixed monthly salaries for global employees (not paid via Morning or per-meeting).
 // `monthOverrides` lets specific months override the default (e.g. partial month,
@@ -553,11 +554,10 @@ morningRouter.get('/paying-body-reconciliation', managerOrAdmin, async (req, res
       monthKeys.push(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`);
     }
 
-    // All three columns are shown GROSS (incl. 18% VAT) so they are comparable. The CRM
+    // All three columns are shown GROSS (incl. VAT) so they are comparable. The CRM
     // stores meeting.revenue and BillingPeriod.totalAmount NET, while paidAmount is the
-    // real (gross) cash received — the system's own convention is gross = totalAmount × 1.18
-    // everywhere (see billing.ts). So we gross up shouldBill + issued; paid is already gross.
-    const VAT_MULT = 1.18;
+    // real (gross) cash received. So we gross up shouldBill (at the VAT rate of the
+    // meeting's date) and issued (at the rate of the proforma's date); paid is already gross.
 
     // Column 1 ("should bill"): per-paying-body, per-month revenue from past meetings,
     // attributed to the month the lesson actually took place.
@@ -613,7 +613,7 @@ morningRouter.get('/paying-body-reconciliation', managerOrAdmin, async (req, res
       if (!pb) continue;
       const key = `${m.scheduledDate.getFullYear()}-${String(m.scheduledDate.getMonth() + 1).padStart(2, '0')}`;
       const acc = ensureBody(pb);
-      acc.shouldBillByMonth[key] = (acc.shouldBillByMonth[key] ?? 0) + Number(m.revenue ?? 0) * VAT_MULT;
+      acc.shouldBillByMonth[key] = (acc.shouldBillByMonth[key] ?? 0) + grossFromNet(Number(m.revenue ?? 0), m.scheduledDate);
     }
 
     // Columns 2 + 3 ("issued" / "paid"): the CRM's own billing periods, NOT Morning
@@ -636,6 +636,7 @@ morningRouter.get('/paying-body-reconciliation', managerOrAdmin, async (req, res
         monthEnd: true,
         totalAmount: true,
         paidAmount: true,
+        issuedAt: true,
         proformaSource: true,
         proformaSnapshot: true,
         morningDocId: true,
@@ -677,7 +678,7 @@ morningRouter.get('/paying-body-reconciliation', managerOrAdmin, async (req, res
           });
         }
       }
-      const issuedPer = (chargedGross ?? (Number(p.totalAmount ?? 0) * VAT_MULT)) / span;
+      const issuedPer = (chargedGross ?? grossFromNet(Number(p.totalAmount ?? 0), p.issuedAt)) / span;
       const paidPer = Number(p.paidAmount ?? 0) / span;
       for (let idx = startIdx; idx <= endIdx; idx++) {
         const key = `${Math.floor(idx / 12)}-${String((idx % 12) + 1).padStart(2, '0')}`;
@@ -18,6 +18,7 @@ const querySchema = z.object({
     'instructor_change_risk',
     'cycle_churn_risk',
     'low_enrollment',
+    'instructor_conflict',
   ]).optional(),
 });
 
@@ -36,6 +37,7 @@ const issueStatusSchema = z.object({
       'instructor_change_risk',
       'cycle_churn_risk',
       'low_enrollment',
+      'instructor_conflict',
     ]).optional(),
     priority: z.enum(['urgent', 'high', 'normal']).optional(),
     entityType: z.enum(['meeting', 'cycle', 'task', 'instructor']).optional(),
@@ -8,6 +8,21 @@ import jwt, { SignOptions } from 'jsonwebtoken';
 import { prisma } from '../utils/prisma.js';
 import { config } from '../config.js';
 import { AppError } from '../middleware/errorHandler.js';
+import { getParentVapidPublicKey } from '../services/parent-notifications.js';
+import { createRegistrationPaymentLink, getParentBilling } from '../services/parent-billing.js';
+import { getStudentProgress } from '../services/student-progress.js';
+import { openAttachment } from '../services/file-attachments.js';
+import {
+  createAbsenceRequest,
+  createCancellationRequest,
+  createMakeupRequest,
+  listMakeupOptions,
+} from '../services/parent-requests.js';
+import {
+  parentAbsenceRequestSchema,
+  parentCancellationRequestSchema,
+  parentMakeupRequestSchema,
+} from '../types/schemas.js';
 
 const router = Router();
 
@@ -468,6 +483,73 @@ router.get('/children/:childId/attendance/stats', authenticateParent, async (req
   }
 });
 
+// Get child's progress timeline (skill ratings per meeting, per cycle)
+router.get('/children/:childId/progress', authenticateParent, async (req: any, res, next) => {
+  try {
+    const { childId } = req.params;
+
+    const child = await prisma.student.findFirst({
+      where: {
+        id: childId,
+        customerId: req.parent.id,
+      },
+    });
+
+    if (!child) {
+      throw new AppError(404, 'Child not found');
+    }
+
+    res.json(await getStudentProgress(childId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get child's end-of-cycle report cards
+router.get('/children/:childId/report-cards', authenticateParent, async (req: any, res, next) => {
+  try {
+    const { childId } = req.params;
+
+    const reportCards = await prisma.studentReportCard.findMany({
+      where: { studentId: childId, student: { customerId: req.parent.id } },
+      include: { cycle: { select: { id: true, name: true, course: { select: { name: true } } } } },
+      orderBy: { generatedAt: 'desc' },
+    });
+
+    res.json(reportCards.map(({ fileAttachmentId, ...card }) => ({ ...card, hasPdf: !!fileAttachmentId })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Download a report card PDF
+router.get('/report-cards/:id/pdf', authenticateParent, async (req: any, res, next) => {
+  try {
+    const reportCard = await prisma.studentReportCard.findFirst({
+      where: { id: req.params.id, student: { customerId: req.parent.id } },
+      select: { fileAttachmentId: true },
+    });
+    const attachment = reportCard?.fileAttachmentId
+      ? await prisma.fileAttachment.findUnique({ where: { id: reportCard.fileAttachmentId } })
+      : null;
+    if (!attachment) {
+      throw new AppError(404, 'Report card not found');
+    }
+
+    const stream = await openAttachment(attachment);
+    if (!stream) {
+      throw new AppError(404, 'Report card not found');
+    }
+
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(attachment.originalName)}`);
+    stream.on('error', next);
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // ==========================================
 // Schedule Routes
 // ==========================================
@@ -768,25 +850,250 @@ router.get('/dashboard', authenticateParent, async (req: any, res, next) => {
   }
 });
 
+// ==========================================
+// Self-Service Requests Routes
+// ==========================================
+// Absence, make-up and cancellation requests. Each opens a task on the ops
+// Tasks board and is applied only once staff approve it.
+
+router.get('/requests', authenticateParent, async (req: any, res, next) => {
+  try {
+    const requests = await prisma.parentRequest.findMany({
+      where: { customerId: req.parent.id },
+      select: {
+        id: true,
+        type: true,
+        status: true,
+        studentId: true,
+        registrationId: true,
+        meetingId: true,
+        makeupMeetingId: true,
+        reason: true,
+        reviewNotes: true,
+        reviewedAt: true,
+        createdAt: true,
+        registration: { select: { cycle: { select: { id: true, name: true } } } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    res.json(requests);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Meetings in other cycles of the same course that can host a make-up lesson
+router.get('/enrollments/:registrationId/makeup-options', authenticateParent, async (req: any, res, next) => {
+  try {
+    const options = await listMakeupOptions(req.parent.id, req.params.registrationId);
+    res.json(options);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/requests/absence', authenticateParent, async (req: any, res, next) => {
+  try {
+    const data = parentAbsenceRequestSchema.parse(req.body);
+    const request = await createAbsenceRequest(req.parent.id, data);
+    res.status(201).json(request);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/requests/makeup', authenticateParent, async (req: any, res, next) => {
+  try {
+    const data = parentMakeupRequestSchema.parse(req.body);
+    const request = await createMakeupRequest(req.parent.id, data);
+    res.status(201).json(request);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/requests/cancellation', authenticateParent, async (req: any, res, next) => {
+  try {
+    const data = parentCancellationRequestSchema.parse(req.body);
+    const request = await createCancellationRequest(req.parent.id, data);
+    res.status(201).json(request);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// Billing Routes
+// ==========================================
+// Balance per enrollment, invoices, and a Morning "pay now" link for the
+// outstanding balance. Payments are reconciled by the morning webhook.
+
+router.get('/billing', authenticateParent, async (req: any, res, next) => {
+  try {
+    res.json(await getParentBilling(req.parent.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/billing/:registrationId/pay', authenticateParent, async (req: any, res, next) => {
+  try {
+    const proto = (req.headers['x-forwarded-proto'] as string) || req.protocol;
+    const link = await createRegistrationPaymentLink(req.parent.id, req.params.registrationId, `${proto}://${req.get('host')}`);
+    res.status(201).json(link);
+  } catch (error: any) {
+    // Morning rejects the form (e.g. plugin misconfigured) with a 400 body
+    if (error?.body?.errorCode) {
+      return next(new AppError(400, error.body.errorMessage || error.message));
+    }
+    next(error);
+  }
+});
+
 // ==========================================
 // Notifications Routes
 // ==========================================
 
-router.get('/notifications', authenticateParent, async (_req: any, res, next) => {
+router.get('/notifications', authenticateParent, async (req: any, res, next) => {
   try {
-    // For now, return empty array
-    // In production, implement notification storage
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const unreadOnly = req.query.unreadOnly === 'true';
+    const where = {
+      customerId: req.parent.id,
+      ...(unreadOnly && { readAt: null }),
+    };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.parentNotification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: {
+          id: true,
+          type: true,
+          title: true,
+          body: true,
+          data: true,
+          studentId: true,
+          cycleId: true,
+          meetingId: true,
+          readAt: true,
+          createdAt: true,
+        },
+      }),
+      prisma.parentNotification.count({ where }),
+      prisma.parentNotification.count({ where: { customerId: req.parent.id, readAt: null } }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
     res.json({
-      data: [],
+      data: notifications,
       pagination: {
-        page: 1,
-        limit: 20,
-        total: 0,
-        totalPages: 0,
-        hasNext: false,
-        hasPrev: false,
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
       },
+      unreadCount,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark all notifications as read
+router.post('/notifications/read-all', authenticateParent, async (req: any, res, next) => {
+  try {
+    const result = await prisma.parentNotification.updateMany({
+      where: { customerId: req.parent.id, readAt: null },
+      data: { readAt: new Date() },
     });
+
+    res.json({ updated: result.count });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mark a notification as read
+router.post('/notifications/:id/read', authenticateParent, async (req: any, res, next) => {
+  try {
+    const notification = await prisma.parentNotification.findFirst({
+      where: { id: req.params.id, customerId: req.parent.id },
+    });
+
+    if (!notification) {
+      throw new AppError(404, 'Notification not found');
+    }
+
+    const updated = notification.readAt
+      ? notification
+      : await prisma.parentNotification.update({
+        where: { id: notification.id },
+        data: { readAt: new Date() },
+      });
+
+    res.json({ id: updated.id, readAt: updated.readAt });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// ==========================================
+// Web Push Routes
+// ==========================================
+
+// VAPID public key for PushManager.subscribe
+router.get('/push/vapid-public-key', (_req, res) => {
+  const publicKey = getParentVapidPublicKey();
+  res.json({ publicKey, enabled: Boolean(publicKey) });
+});
+
+// Register (or move to this parent) a push subscription
+router.post('/push/subscribe', authenticateParent, async (req: any, res, next) => {
+  try {
+    const { endpoint, keys } = req.body ?? {};
+
+    if (typeof endpoint !== 'string' || !endpoint.startsWith('https://')) {
+      throw new AppError(400, 'A valid subscription endpoint is required');
+    }
+    if (typeof keys?.p256dh !== 'string' || typeof keys?.auth !== 'string') {
+      throw new AppError(400, 'Subscription keys (p256dh, auth) are required');
+    }
+
+    const userAgent = req.get('user-agent') ?? null;
+    const subscription = await prisma.parentPushSubscription.upsert({
+      where: { endpoint },
+      create: { customerId: req.parent.id, endpoint, p256dh: keys.p256dh, auth: keys.auth, userAgent },
+      update: { customerId: req.parent.id, p256dh: keys.p256dh, auth: keys.auth, userAgent },
+    });
+
+    res.status(201).json({ id: subscription.id });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a push subscription (on logout or when the app unsubscribes)
+router.delete('/push/subscribe', authenticateParent, async (req: any, res, next) => {
+  try {
+    const { endpoint } = req.body ?? {};
+
+    if (typeof endpoint !== 'string' || !endpoint) {
+      throw new AppError(400, 'Subscription endpoint is required');
+    }
+
+    await prisma.parentPushSubscription.deleteMany({
+      where: { endpoint, customerId: req.parent.id },
+    });
+
+    res.status(204).send();
   } catch (error) {
     next(error);
   }
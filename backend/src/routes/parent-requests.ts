@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import type { ParentRequestStatus, ParentRequestType, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { authenticate, cycleRosterOrAdmin } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { reviewParentRequestSchema, uuidSchema } from '../types/schemas.js';
+import { parsePaginationParams, paginatedResponse } from '../utils/pagination.js';
+import { reviewParentRequest } from '../services/parent-requests.js';
+
+export const parentRequestsRouter = Router();
+
+parentRequestsRouter.use(authenticate);
+
+const STATUSES: ParentRequestStatus[] = ['pending', 'approved', 'rejected'];
+const TYPES: ParentRequestType[] = ['absence', 'makeup', 'cancellation'];
+
+// List parent self-service requests
+parentRequestsRouter.get('/', cycleRosterOrAdmin, async (req, res, next) => {
+  try {
+    const { page, limit, skip, take } = parsePaginationParams(req.query);
+    const { status, type } = req.query;
+
+    if (status !== undefined && !STATUSES.includes(status as ParentRequestStatus)) {
+      throw new AppError(400, 'Invalid status');
+    }
+    if (type !== undefined && !TYPES.includes(type as ParentRequestType)) {
+      throw new AppError(400, 'Invalid type');
+    }
+
+    const where: Prisma.ParentRequestWhereInput = {
+      ...(status && { status: status as ParentRequestStatus }),
+      ...(type && { type: type as ParentRequestType }),
+    };
+
+    const [requests, total] = await Promise.all([
+      prisma.parentRequest.findMany({
+        where,
+        include: {
+          customer: { select: { id: true, name: true, phone: true } },
+          registration: {
+            select: {
+              id: true,
+              status: true,
+              student: { select: { id: true, name: true } },
+              cycle: { select: { id: true, name: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take,
+      }),
+      prisma.parentRequest.count({ where }),
+    ]);
+
+    res.json(paginatedResponse(requests, total, page, limit));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Approve a request — applies the change and completes its task
+parentRequestsRouter.post('/:id/approve', cycleRosterOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const { notes } = reviewParentRequestSchema.parse(req.body ?? {});
+
+    const request = await reviewParentRequest(id, 'approved', req.user!.userId, notes);
+    res.json(request);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reject a request — a pending cancellation restores the registration
+parentRequestsRouter.post('/:id/reject', cycleRosterOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const { notes } = reviewParentRequestSchema.parse(req.body ?? {});
+
+    const request = await reviewParentRequest(id, 'rejected', req.user!.userId, notes);
+    res.json(request);
+  } catch (error) {
+    next(error);
+  }
+});
@@ -5,8 +5,8 @@ import { AppError } from '../middleware/errorHandler.js';
 import { prisma } from '../utils/prisma.js';
 import { createPaymentForm } from '../services/morning/payment-forms.js';
 import { DOCUMENT_TYPES } from '../services/morning/documents.js';
-import { createMorningClient, findClientForCustomer } from '../services/morning/clients.js';
-import { randomBytes } from 'crypto';
+import { createParentNotification } from '../services/parent-notifications.js';
+import { ensureMorningClientId, generateUniqueShortCode, paymentLinkUrls } from '../services/payment-links.js';
 
 export const paymentLinksRouter = Router();
 paymentLinksRouter.use(authenticate);
@@ -29,59 +29,6 @@ const createSchema = z.object({
   }).optional(),
 });
 
-// Crockford-style base32, no ambiguous chars. 32^5 ≈ 33M combos.
-const SHORT_CODE_ALPHABET = '23456789abcdefghjkmnpqrstuvwxyz';
-function generateShortCode(): string {
-  const bytes = randomBytes(5);
-  let out = '';
-  for (let i = 0; i < 5; i++) out += SHORT_CODE_ALPHABET[bytes[i] % SHORT_CODE_ALPHABET.length];
-  return out;
-}
-
-async function generateUniqueShortCode(): Promise<string> {
-  for (let attempt = 0; attempt < 10; attempt++) {
-    const code = generateShortCode();
-    const existing = await prisma.paymentLink.findUnique({ where: { code }, select: { id: true } });
-    if (!existing) return code;
-  }
-  throw new AppError(500, 'Failed to allocate a unique short code — try again');
-}
-
-// Find or create the matching Morning client UUID for a CRM customer and cache
-// it on the customer row. Returns null if Morning is unreachable so the caller
-// can still issue the payment link with inline client info.
-export async function ensureMorningClientId(customerId: string): Promise<string | null> {
-  const customer = await prisma.customer.findUnique({ where: { id: customerId } });
-  if (!customer) return null;
-  if (customer.morningClientId) return customer.morningClientId;
-
-  try {
-    const existing = await findClientForCustomer({
-      name: customer.name,
-      email: customer.email,
-      phone: customer.phone,
-    });
-    let morningId = existing?.id;
-    if (!morningId) {
-      const created = await createMorningClient({
-        name: customer.name,
-        emails: customer.email ? [customer.email] : undefined,
-        phone: customer.phone ?? undefined,
-        address: customer.address ?? undefined,
-        city: customer.city ?? undefined,
-      });
-      morningId = created.id;
-    }
-    await prisma.customer.update({
-      where: { id: customerId },
-      data: { morningClientId: morningId },
-    });
-    return morningId;
-  } catch {
-    return null;
-  }
-}
-
 // POST /api/payment-links — sales+ generates a Morning payment link
 paymentLinksRouter.post('/', salesOrAbove, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -106,9 +53,7 @@ paymentLinksRouter.post('/', salesOrAbove, async (req: Request, res: Response, n
     const host = req.get('host');
     const proto = (req.headers['x-forwarded-proto'] as string) || req.protocol;
     const code = await generateUniqueShortCode();
-    const webhookUrl = `${proto}://${host}/api/morning-webhook?paymentLinkCode=${encodeURIComponent(code)}`;
-    const successUrl = `${proto}://${host}/pl/${encodeURIComponent(code)}/success`;
-    const failureUrl = `${proto}://${host}/pl/${encodeURIComponent(code)}?failed=1`;
+    const { webhookUrl, successUrl, failureUrl } = paymentLinkUrls(`${proto}://${host}`, code);
 
     const result = await createPaymentForm({
       description: input.description,
@@ -161,6 +106,15 @@ paymentLinksRouter.post('/', salesOrAbove, async (req: Request, res: Response, n
 
     const shortUrl = `${proto}://${host}/pl/${saved.code}`;
 
+    if (input.customerId) {
+      await createParentNotification(input.customerId, {
+        type: 'payment_due',
+        title: 'בקשת תשלום חדשה',
+        body: `${input.description} — ₪${input.amount.toLocaleString('he-IL')}`,
+        data: { paymentLinkId: saved.id, code: saved.code, amount: input.amount, url: shortUrl },
+      });
+    }
+
     res.json({
       url: result.url,
       shortUrl,
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate, operationsManagerOrAdmin } from '../middleware/auth.js';
+import { uuidSchema } from '../types/schemas.js';
+import {
+  assertCanRateMeeting,
+  assertCanViewStudentProgress,
+  generateCycleReportCards,
+  generateReportCard,
+  getMeetingRatingSheet,
+  getStudentProgress,
+  saveMeetingRatings,
+} from '../services/student-progress.js';
+
+export const progressRouter = Router();
+
+progressRouter.use(authenticate);
+
+const ratingsSchema = z.object({
+  ratings: z.array(z.object({
+    studentId: z.string().uuid(),
+    skillId: z.string().uuid(),
+    score: z.number().int().min(0),
+    note: z.string().max(1000).optional().nullable(),
+  })).max(2000),
+});
+
+const generateSchema = z.object({ send: z.boolean().default(true) });
+
+// Rating form for a meeting — course skills, cycle students, saved ratings
+progressRouter.get('/meetings/:meetingId/ratings', async (req, res, next) => {
+  try {
+    const meetingId = uuidSchema.parse(req.params.meetingId);
+    await assertCanRateMeeting(meetingId, req.user!);
+    res.json(await getMeetingRatingSheet(meetingId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+progressRouter.put('/meetings/:meetingId/ratings', async (req, res, next) => {
+  try {
+    const meetingId = uuidSchema.parse(req.params.meetingId);
+    const { ratings } = ratingsSchema.parse(req.body);
+    await assertCanRateMeeting(meetingId, req.user!);
+    res.json(await saveMeetingRatings(meetingId, ratings, req.user!.userId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Student progress timeline across all of their cycles
+progressRouter.get('/students/:studentId', async (req, res, next) => {
+  try {
+    const studentId = uuidSchema.parse(req.params.studentId);
+    await assertCanViewStudentProgress(studentId, req.user!);
+    res.json(await getStudentProgress(studentId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// (Re)generate report cards — normally done by cycle completion
+progressRouter.post('/cycles/:cycleId/report-cards', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const cycleId = uuidSchema.parse(req.params.cycleId);
+    const { send } = generateSchema.parse(req.body ?? {});
+    res.json(await generateCycleReportCards(cycleId, { send, generatedById: req.user!.userId }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+progressRouter.post('/registrations/:registrationId/report-card', operationsManagerOrAdmin, async (req, res, next) => {
+  try {
+    const registrationId = uuidSchema.parse(req.params.registrationId);
+    const { send } = generateSchema.parse(req.body ?? {});
+    res.json(await generateReportCard(registrationId, { send, generatedById: req.user!.userId }));
+  } catch (error) {
+    next(error);
+  }
+});
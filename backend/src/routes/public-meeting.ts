@@ -9,6 +9,7 @@ import {
 } from '../services/instructor-payment.js';
 import { checkAndSendNegativeProfitAlert } from '../services/negative-profit-alert.js';
 import { checkAndSendMeetingReportQualityAlert } from '../services/meeting-report-quality-alert.js';
+import { publishMeetingUpdated } from '../services/domain-events.js';
 import crypto from 'crypto';
 
 const MEETING_TOKEN_SECRET = process.env.MEETING_TOKEN_SECRET || 'haitech-meeting-status-2026';
@@ -135,6 +136,7 @@ publicMeetingRouter.put('/:meetingId/:token/status', async (req, res, next) => {
       where: { id: meetingId },
       data: updateData,
     });
+    publishMeetingUpdated(meeting, existingMeeting.status);
     await recalculateDailyInstructorPaymentsForMeeting(existingMeeting);
     await recalculateDailyInstructorPaymentsForMeeting(meeting);
     await checkAndSendNegativeProfitAlert(meetingId, 'public-meeting-status');
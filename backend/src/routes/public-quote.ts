@@ -1,11 +1,46 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import jwt from 'jsonwebtoken';
+import { config } from '../config.js';
 import { uuidSchema } from '../types/schemas.js';
 import { getQuoteById } from '../services/quotes.service.js';
+import { getPublicQuoteView, signQuote } from '../services/quote-versions.js';
+import { recordQuoteViewEvent } from '../services/quote-pipeline.js';
 import { prisma } from '../utils/prisma.js';
 import { sendEmail } from '../services/notifications.js';
 
 export const publicQuoteRouter = Router();
 
+// Accepting is an e-signature on the version the client is looking at
+const signatureSchema = z.object({
+  versionNumber: z.number().int().positive().nullable(),
+  signerName: z.string().trim().min(2).max(120),
+  signerRole: z.string().trim().max(120).optional().nullable(),
+  signature: z.string().max(500_000),
+});
+
+const viewEventSchema = z.object({
+  type: z.enum(['view', 'video']),
+});
+
+function clientIp(req: Request) {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (forwarded) return (typeof forwarded === 'string' ? forwarded : forwarded[0]).split(',')[0].trim();
+  return req.socket.remoteAddress || null;
+}
+
+// Staff opening the link from the CRM send their session token along; their visits aren't the client's
+function isCrmUser(req: Request) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) return false;
+  try {
+    jwt.verify(authHeader.substring(7), config.jwt.secret);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // GET /api/public/quotes/:id — public, no auth
 publicQuoteRouter.get('/:id', async (req, res, next) => {
   try {
@@ -16,13 +51,25 @@ publicQuoteRouter.get('/:id', async (req, res, next) => {
       return res.status(404).json({ error: 'הצעה לא נמצאה' });
     }
 
-    // Allow public access to draft (preview), sent, accepted, converted quotes
-    const allowedStatuses = ['draft', 'sent', 'accepted', 'converted'];
+    // Allow public access to draft (preview), sent, accepted, converted and expired quotes
+    const allowedStatuses = ['draft', 'sent', 'accepted', 'converted', 'expired'];
     if (!allowedStatuses.includes(quote.status)) {
       return res.status(404).json({ error: 'הצעה לא נמצאה' });
     }
 
-    res.json(quote);
+    res.json(await getPublicQuoteView(quote));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/public/quotes/:id/events — the page reports views and a watched video
+publicQuoteRouter.post('/:id/events', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const { type } = viewEventSchema.parse(req.body);
+    if (!isCrmUser(req)) await recordQuoteViewEvent(id, type);
+    res.status(204).send();
   } catch (error) {
     next(error);
   }
@@ -50,14 +97,25 @@ publicQuoteRouter.post('/:id/respond', async (req, res, next) => {
 
     const newStatus = action === 'accept' ? 'accepted' : 'rejected';
 
-    // Update quote status + save client notes
-    await prisma.quote.update({
-      where: { id },
-      data: {
-        status: newStatus,
-        ...(clientNotes ? { clientNotes } : {}),
-      },
-    });
+    let signerLine = '';
+    if (newStatus === 'accepted') {
+      const signer = signatureSchema.parse(req.body);
+      await signQuote(id, {
+        ...signer,
+        clientNotes,
+        ipAddress: clientIp(req),
+        userAgent: req.get('user-agent') ?? null,
+      });
+      signerLine = `${signer.signerName}${signer.signerRole ? ` (${signer.signerRole})` : ''}`;
+    } else {
+      await prisma.quote.update({
+        where: { id },
+        data: {
+          status: newStatus,
+          ...(clientNotes ? { clientNotes } : {}),
+        },
+      });
+    }
 
     // Send email notification to info@hai.tech
     const actionText = action === 'accept' ? '✅ אושרה' : '❌ נדחתה';
@@ -68,6 +126,7 @@ publicQuoteRouter.post('/:id/respond', async (req, res, next) => {
           <tr><td style="padding: 8px; font-weight: bold;">הצעה:</td><td style="padding: 8px;">${quote.quoteNumber}</td></tr>
           <tr><td style="padding: 8px; font-weight: bold;">מוסד:</td><td style="padding: 8px;">${quote.institutionName}</td></tr>
           <tr><td style="padding: 8px; font-weight: bold;">איש קשר:</td><td style="padding: 8px;">${quote.contactName || '-'}</td></tr>
+          ${signerLine ? `<tr><td style="padding: 8px; font-weight: bold;">נחתם ע״י:</td><td style="padding: 8px;">${signerLine}</td></tr>` : ''}
           <tr><td style="padding: 8px; font-weight: bold;">סכום:</td><td style="padding: 8px;">₪${Number(quote.finalAmount || quote.totalAmount).toLocaleString()}</td></tr>
           ${clientNotes ? `<tr><td style="padding: 8px; font-weight: bold;">הערות הלקוח:</td><td style="padding: 8px;">${clientNotes}</td></tr>` : ''}
         </table>
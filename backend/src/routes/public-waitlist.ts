@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getWaitlistOffer, respondToWaitlistOffer } from '../services/waitlist.js';
+
+export const publicWaitlistRouter = Router();
+
+// GET /api/public/waitlist/:token — seat offer details for the family
+publicWaitlistRouter.get('/:token', async (req, res, next) => {
+  try {
+    const entry = await getWaitlistOffer(req.params.token);
+
+    res.json({
+      customerName: entry.customer.name,
+      childName: entry.student?.name ?? entry.childName,
+      courseName: entry.cycle.course?.name ?? entry.cycle.name,
+      cycleName: entry.cycle.name,
+      status: entry.status,
+      offerExpiresAt: entry.offerExpiresAt,
+      expired: entry.status === 'expired' || (!!entry.offerExpiresAt && entry.offerExpiresAt < new Date()),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/public/waitlist/:token — accept or decline the seat
+publicWaitlistRouter.post('/:token', async (req, res, next) => {
+  try {
+    const { accept } = z.object({ accept: z.boolean() }).parse(req.body);
+    const registration = await respondToWaitlistOffer(req.params.token, accept);
+
+    res.json({ success: true, status: accept ? 'placed' : 'declined', registrationId: registration?.id ?? null });
+  } catch (error) {
+    next(error);
+  }
+});
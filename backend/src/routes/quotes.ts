@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { authenticate, managerOrAdmin } from '../middleware/auth.js';
 import { paginationSchema, uuidSchema } from '../types/schemas.js';
 import {
@@ -12,6 +13,9 @@ import {
   convertToOrder,
   buildOrderPreview,
 } from '../services/quotes.service.js';
+import { createQuoteVersion, getQuoteVersionDiff, listQuoteVersions } from '../services/quote-versions.js';
+import { getQuotePipelineReport } from '../services/quote-pipeline.js';
+import { assertQuoteSendable } from '../services/quote-expiry.js';
 import { renderQuoteVideo, getVideoStatus, getVideoUrl, setRenderStatus, persistVideo, getPersistedVideoPath, isVimeoUrl } from '../services/video.service.js';
 import fs from 'fs';
 import { prisma } from '../utils/prisma.js';
@@ -22,6 +26,34 @@ export const quotesRouter = Router();
 
 quotesRouter.use(authenticate);
 
+const convertQuoteSchema = z.object({
+  allowNonAccepted: z.boolean().optional(),
+  allowConflicts: z.boolean().optional(),
+  // Optional wizard step: one entry per item group to open as a cycle with the order
+  cycles: z.array(z.object({
+    quoteItemId: z.string().min(1),
+    instructorId: z.string().min(1, 'חובה לבחור מדריך לכל קבוצה'),
+    dayOfWeek: z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']),
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+    activityType: z.enum(['online', 'frontal', 'private_lesson']).default('frontal'),
+    location: z.string().trim().optional().nullable(),
+  }).refine((plan) => plan.activityType !== 'frontal' || Boolean(plan.location), {
+    path: ['location'],
+    message: 'חובה למלא מיקום/עיר למחזור פרונטלי',
+  })).optional(),
+});
+
+const pipelineSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+const versionDiffSchema = z.object({
+  to: z.coerce.number().int().positive(),
+  from: z.coerce.number().int().positive().optional(),
+});
+
 // List quotes
 quotesRouter.get('/', async (req, res, next) => {
   try {
@@ -36,6 +68,21 @@ quotesRouter.get('/', async (req, res, next) => {
   }
 });
 
+// Pipeline report: counts/amounts by status, salesperson, client type and month (to is inclusive)
+quotesRouter.get('/pipeline', managerOrAdmin, async (req, res, next) => {
+  try {
+    const { from, to } = pipelineSchema.parse(req.query);
+    const toExclusive = to ? new Date(`${to}T00:00:00.000Z`) : undefined;
+    toExclusive?.setUTCDate(toExclusive.getUTCDate() + 1);
+    res.json(await getQuotePipelineReport({
+      from: from ? new Date(`${from}T00:00:00.000Z`) : undefined,
+      to: toExclusive,
+    }));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get quote by ID
 quotesRouter.get('/:id', async (req, res, next) => {
   try {
@@ -94,6 +141,10 @@ quotesRouter.post('/:id/send', managerOrAdmin, async (req, res, next) => {
   try {
     const id = uuidSchema.parse(req.params.id);
     const quote = await getQuoteById(id);
+    assertQuoteSendable(quote);
+
+    // Freeze what the client is about to see; the public page shows this version
+    const version = await createQuoteVersion(id, { sentById: req.user?.userId, sentTo: quote.contactEmail });
 
     let emailSent = false;
     if (quote.contactEmail) {
@@ -129,7 +180,28 @@ quotesRouter.post('/:id/send', managerOrAdmin, async (req, res, next) => {
     }
 
     const updated = await updateQuote(id, { status: 'sent' });
-    res.json({ ...updated, emailSent });
+    res.json({ ...updated, emailSent, versionNumber: version.versionNumber });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Versions snapshotted on each send, newest first, with the client's signature if any
+quotesRouter.get('/:id/versions', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    res.json(await listQuoteVersions(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Diff between two versions — ?to=N[&from=M], from defaults to N-1
+quotesRouter.get('/:id/versions/diff', async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const { to, from } = versionDiffSchema.parse(req.query);
+    res.json(await getQuoteVersionDiff(id, to, from));
   } catch (error) {
     next(error);
   }
@@ -193,8 +265,19 @@ quotesRouter.get('/:id/order-preview', managerOrAdmin, async (req, res, next) =>
 quotesRouter.post('/:id/convert', managerOrAdmin, async (req, res, next) => {
   try {
     const id = uuidSchema.parse(req.params.id);
-    const allowNonAccepted = req.body?.allowNonAccepted === true;
-    const result = await convertToOrder(id, { allowNonAccepted });
+    const options = convertQuoteSchema.parse(req.body ?? {});
+    const result = await convertToOrder(id, options);
+    await logAudit({
+      action: 'CREATE',
+      entity: 'InstitutionalOrder',
+      entityId: result.order.id,
+      newValue: {
+        quoteNumber: result.quote.quoteNumber,
+        cycles: result.cycles.map((cycle) => cycle.name),
+        billingPlanMonths: result.billingPlan.length,
+      },
+      req,
+    });
     res.json(result);
   } catch (error) {
     next(error);
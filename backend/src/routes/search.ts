@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { authenticate, operationsManagerOrAdmin } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { globalSearch, SEARCH_ENTITY_TYPES, type SearchEntityType } from '../services/global-search.js';
+
+export const searchRouter = Router();
+
+searchRouter.use(authenticate);
+searchRouter.use(operationsManagerOrAdmin);
+
+// Global search (command palette) — ?q=...&types=customer,quote
+searchRouter.get('/', async (req, res, next) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (q.length < 2) return res.json({ results: [] });
+    if (q.length > 100) throw new AppError(400, 'Search query is too long');
+
+    const types = typeof req.query.types === 'string' && req.query.types
+      ? req.query.types.split(',') as SearchEntityType[]
+      : undefined;
+    if (types?.some(t => !SEARCH_ENTITY_TYPES.includes(t))) {
+      throw new AppError(400, 'Invalid search type');
+    }
+
+    res.json({ results: await globalSearch(q, types) });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -4,6 +4,7 @@ import { authenticate, operationsManagerOrAdmin } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { createStudentSchema, updateStudentSchema, paginationSchema, uuidSchema } from '../types/schemas.js';
 import { logAudit, logUpdateAudit } from '../utils/audit.js';
+import { publishDomainEvent } from '../services/domain-events.js';
 
 export const studentsRouter = Router();
 
@@ -138,6 +139,7 @@ studentsRouter.post('/', operationsManagerOrAdmin, async (req, res, next) => {
     });
 
     await logAudit({ action: 'CREATE', entity: 'Student', entityId: student.id, newValue: { name: student.name, customerId: student.customerId, grade: student.grade }, req });
+    publishDomainEvent('student.created', student);
 
     res.status(201).json(student);
   } catch (error) {
@@ -167,6 +169,7 @@ studentsRouter.put('/:id', operationsManagerOrAdmin, async (req, res, next) => {
     if (oldStudent) {
       await logUpdateAudit({ entity: 'Student', entityId: id, oldRecord: oldStudent, newRecord: student, req });
     }
+    publishDomainEvent('student.updated', student);
 
     res.json(student);
   } catch (error) {
@@ -187,6 +190,7 @@ studentsRouter.delete('/:id', operationsManagerOrAdmin, async (req, res, next) =
 
     if (oldStudent) {
       await logAudit({ action: 'DELETE', entity: 'Student', entityId: id, oldValue: { name: oldStudent.name, customerId: oldStudent.customerId }, req });
+      publishDomainEvent('student.deleted', oldStudent);
     }
 
     res.status(204).send();
@@ -19,6 +19,7 @@ const taskInclude = {
   createdBy: { select: { id: true, name: true, email: true, phone: true, role: true } },
   assignee: { select: { id: true, name: true, email: true, phone: true, role: true } },
   completedBy: { select: { id: true, name: true, email: true, role: true } },
+  parentRequest: { select: { id: true, type: true, status: true } },
 } satisfies Prisma.TaskInclude;
 
 const createTaskSchema = z.object({
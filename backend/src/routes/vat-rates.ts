@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { adminOnly, authenticate } from '../middleware/auth.js';
+import { uuidSchema } from '../types/schemas.js';
+import { logAudit } from '../utils/audit.js';
+import {
+  createVatRate,
+  deleteVatRate,
+  listVatRates,
+  recalculateMeetingsForVatRate,
+} from '../services/vat-rates.js';
+
+export const vatRatesRouter = Router();
+
+vatRatesRouter.use(authenticate);
+
+const vatRateSchema = z.object({
+  rate: z.number().min(0).max(1),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+  note: z.string().max(200).optional().nullable(),
+});
+
+const recalculateSchema = z.object({ apply: z.boolean().default(false) });
+
+vatRatesRouter.get('/', async (_req, res, next) => {
+  try {
+    res.json(await listVatRates());
+  } catch (error) {
+    next(error);
+  }
+});
+
+vatRatesRouter.post('/', adminOnly, async (req, res, next) => {
+  try {
+    const data = vatRateSchema.parse(req.body);
+    const rate = await createVatRate(data, req.user!.userId);
+    await logAudit({ action: 'CREATE', entity: 'VatRate', entityId: rate.id, newValue: data, req });
+    res.status(201).json(rate);
+  } catch (error) {
+    next(error);
+  }
+});
+
+vatRatesRouter.delete('/:id', adminOnly, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const rate = await deleteVatRate(id);
+    await logAudit({ action: 'DELETE', entity: 'VatRate', entityId: id, oldValue: { rate: Number(rate.rate), effectiveFrom: rate.effectiveFrom }, req });
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Re-derive meeting revenue in the rate's period — a preview unless { apply: true }
+vatRatesRouter.post('/:id/recalculate', adminOnly, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const { apply } = recalculateSchema.parse(req.body ?? {});
+    const result = await recalculateMeetingsForVatRate(id, { apply });
+    if (result.applied) {
+      await logAudit({
+        action: 'UPDATE',
+        entity: 'VatRate',
+        entityId: id,
+        newValue: { recalculatedMeetings: result.meetings, revenueBefore: result.revenueBefore, revenueAfter: result.revenueAfter },
+        req,
+      });
+    }
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
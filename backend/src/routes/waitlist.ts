@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { authenticate, cycleRosterOrAdmin } from '../middleware/auth.js';
+import { updateWaitlistEntrySchema, uuidSchema } from '../types/schemas.js';
+import { logAudit } from '../utils/audit.js';
+import { prisma } from '../utils/prisma.js';
+import {
+  closeWaitlistEntry,
+  moveWaitlistEntry,
+  offerWaitlistEntry,
+  placeWaitlistEntry,
+} from '../services/waitlist.js';
+
+export const waitlistRouter = Router();
+
+waitlistRouter.use(authenticate);
+
+// Move an entry in line and/or edit its notes
+waitlistRouter.patch('/:id', cycleRosterOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const data = updateWaitlistEntrySchema.parse(req.body);
+
+    if (data.notes !== undefined) {
+      await prisma.waitlistEntry.update({ where: { id }, data: { notes: data.notes } });
+    }
+    const entry = data.position !== undefined
+      ? await moveWaitlistEntry(id, data.position)
+      : await prisma.waitlistEntry.findUnique({ where: { id } });
+
+    res.json(entry);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Send the WhatsApp seat offer to this family now, out of turn
+waitlistRouter.post('/:id/offer', cycleRosterOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const entry = await offerWaitlistEntry(id);
+
+    await logAudit({ action: 'UPDATE', entity: 'WaitlistEntry', entityId: id, newValue: { status: 'offered' }, req });
+    res.json(entry);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Place the child in the cycle on the family's behalf (e.g. they answered by phone)
+waitlistRouter.post('/:id/place', cycleRosterOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const registration = await placeWaitlistEntry(id);
+
+    await logAudit({ action: 'UPDATE', entity: 'WaitlistEntry', entityId: id, newValue: { status: 'placed', registrationId: registration.id }, req });
+    res.json(registration);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a family from the waitlist — an outstanding offer moves on to the next in line
+waitlistRouter.delete('/:id', cycleRosterOrAdmin, async (req, res, next) => {
+  try {
+    const id = uuidSchema.parse(req.params.id);
+    const entry = await closeWaitlistEntry(id, 'removed');
+
+    await logAudit({ action: 'DELETE', entity: 'WaitlistEntry', entityId: id, oldValue: { cycleId: entry.cycleId, customerId: entry.customerId }, req });
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
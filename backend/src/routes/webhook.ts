@@ -6,6 +6,7 @@ import { sendWelcomeNotifications, notifyAdminNewLead } from '../services/notifi
 import { findOrCreateLeadAppointment } from '../utils/lead-dedup.js';
 import { handleStatusReply } from '../services/whatsapp-reminder.service.js';
 import { logAudit } from '../utils/audit.js';
+import { publishDomainEvent, publishMeetingUpdated } from '../services/domain-events.js';
 import { sendLeadWelcomeTemplate } from '../services/lead-welcome.js';
 import { meetingRevenueForMeeting } from '../utils/revenue.js';
 import { calculateInstructorPayment, recalculateDailyInstructorPaymentsForMeeting } from '../services/instructor-payment.js';
@@ -492,17 +493,17 @@ webhookRouter.post('/meetings/:id/zoom', async (req, res, next) => {
         zoomJoinUrl,
         zoomStartUrl: zoomStartUrl || null,
       },
-      select: {
-        id: true,
-        zoomMeetingId: true,
-        zoomJoinUrl: true,
-        zoomStartUrl: true,
-      },
     });
+    publishMeetingUpdated(meeting, meeting.status);
 
     res.json({
       success: true,
-      meeting,
+      meeting: {
+        id: meeting.id,
+        zoomMeetingId: meeting.zoomMeetingId,
+        zoomJoinUrl: meeting.zoomJoinUrl,
+        zoomStartUrl: meeting.zoomStartUrl,
+      },
     });
   } catch (error) {
     next(error);
@@ -535,6 +536,9 @@ webhookRouter.post('/cycles/:id/zoom', async (req, res, next) => {
         });
       })
     );
+    for (const meeting of updates) {
+      publishMeetingUpdated(meeting, meeting.status);
+    }
 
     res.json({
       success: true,
@@ -766,6 +770,17 @@ webhookRouter.post('/leads', leadsRateLimiter, async (req, res, next) => {
         },
       }).catch(err => console.error('[WEBHOOK] Failed to create audit log (existing customer):', err));
 
+      publishDomainEvent('lead.received', {
+        source,
+        isNew: false,
+        isDuplicateLead: isDuplicate,
+        customer: { id: customer.id, name: customer.name, phone: customer.phone, email: customer.email },
+        leadAppointmentId: lead.id,
+        childName: childName || null,
+        interest: interest || null,
+        cycleId: cycleId || null,
+      });
+
       res.json({
         success: true,
         isNew: false,
@@ -893,6 +908,18 @@ webhookRouter.post('/leads', leadsRateLimiter, async (req, res, next) => {
       },
     }).catch(err => console.error('[WEBHOOK] Failed to create audit log:', err));
 
+    publishDomainEvent('customer.created', customer);
+    publishDomainEvent('lead.received', {
+      source,
+      isNew: true,
+      isDuplicateLead: false,
+      customer: { id: customer.id, name: customer.name, phone: customer.phone, email: customer.email },
+      leadAppointmentId: lead.id,
+      childName: childName || null,
+      interest: interest || null,
+      cycleId: cycleId || null,
+    });
+
     res.status(201).json({
       success: true,
       isNew: true,
@@ -1076,6 +1103,14 @@ webhookRouter.patch('/meetings/:id', async (req, res, next) => {
       throw new AppError(400, 'No valid fields to update');
     }
 
+    const existing = await prisma.meeting.findUnique({
+      where: { id: meetingId },
+      select: { status: true },
+    });
+    if (!existing) {
+      throw new AppError(404, 'Meeting not found');
+    }
+
     let meeting = await prisma.meeting.update({
       where: { id: meetingId },
       data: updateData,
@@ -1088,6 +1123,7 @@ webhookRouter.patch('/meetings/:id', async (req, res, next) => {
         meeting = recalculated;
       }
     }
+    publishMeetingUpdated(meeting, existing.status);
 
     res.json({
       success: true,
@@ -18,6 +18,17 @@ import { sendEmail } from '../services/email/sender.js';
 import { sendWhatsAppToChat } from '../services/messaging.js';
 import { handleStatusReply, parseInstructorStatusReply } from '../services/whatsapp-reminder.service.js';
 import { addWaSseClient, broadcastWaSSE as broadcastSSE, removeWaSseClient } from '../services/wa-events.js';
+import {
+  assignConversation,
+  getSlaState,
+  renderCannedReply,
+  sendWaTextReply,
+  sendWhatsAppCloudText as sendWhatsAppMessage,
+  statusTimerUpdate,
+  trackInboundMessage,
+  trackStaffReply
+} from '../services/wa-inbox.js';
+import { linkInboxThread } from '../services/inbox.js';
 
 const router = Router();
 
@@ -224,26 +235,6 @@ initBotConfigFromDB();
 // ============================================================
 // Meta WhatsApp Cloud API helper
 // ============================================================
-async function sendWhatsAppMessage(phone: string, text: string, phoneNumberId?: string | null): Promise<string | null> {
-  const fromId = phoneNumberId || PHONE_NUMBER_ID;
-  try {
-    const res = await axios.post(
-      `${WA_API_URL}/${fromId}/messages`,
-      {
-        messaging_product: 'whatsapp',
-        to: phone,
-        type: 'text',
-        text: { body: text }
-      },
-      { headers: { Authorization: `Bearer ${ACCESS_TOKEN}`, 'Content-Type': 'application/json' } }
-    );
-    return res.data?.messages?.[0]?.id || null;
-  } catch (err: any) {
-    console.error('[WA] Send error:', err.response?.data || err.message);
-    return null;
-  }
-}
-
 // ============================================================
 // Quiet-wakeup alert — notify management when a customer breaks silence
 // ============================================================
@@ -839,6 +830,14 @@ router.post('/webhook', async (req: Request, res: Response) => {
             if (handled) continue;
           }
 
+          // Inbox assignment + SLA clocks (instructor status replies are handled above)
+          trackInboundMessage(conv).catch(err =>
+            console.error('[WA] inbox tracking failed:', err)
+          );
+          linkInboxThread('whatsapp', conv.id, { phone, email: conv.leadEmail, text }).catch(err =>
+            console.error('[WA] inbox customer link failed:', err)
+          );
+
           // Quiet-wakeup alert — notify the management group via Green API when a
           // customer breaks silence. New conversations (no prior message) always alert.
           maybeAlertQuietWakeup(conv.id, newMsg.id, text, contactName || conv.contactName || phone).catch(err =>
@@ -1209,6 +1208,7 @@ router.post('/send-template', authenticate, async (req: Request, res: Response)
       }
     });
 
+    await trackStaffReply(conv.id);
     broadcastSSE('new_message', { conversationId: conv.id, message: msg });
     res.json(msg);
   } catch (err) {
@@ -1330,18 +1330,29 @@ router.get('/phones', authenticate, (_req: Request, res: Response) => {
 });
 
 // ── GET /api/wa/conversations — List all conversations
-router.get('/conversations', authenticate, async (_req: Request, res: Response) => {
+// ?assignee=me|unassigned|<userId> and ?tag=<tag> narrow the list
+router.get('/conversations', authenticate, async (req: Request, res: Response) => {
   try {
+    const { assignee, tag } = req.query as { assignee?: string; tag?: string };
     const instructorPhones = await getInstructorConversationPhones();
     const conversations = await prisma.waConversation.findMany({
-      where: instructorPhones.length > 0 ? { phone: { notIn: instructorPhones } } : undefined,
+      where: {
+        ...(instructorPhones.length > 0 && { phone: { notIn: instructorPhones } }),
+        ...(assignee === 'me' && { assignedToId: req.user!.userId }),
+        ...(assignee === 'unassigned' && { assignedToId: null }),
+        ...(!!assignee && assignee !== 'me' && assignee !== 'unassigned' && { assignedToId: assignee }),
+        ...(!!tag && { tags: { has: tag } })
+      },
       orderBy: { lastMessageAt: 'desc' },
       include: {
-        _count: { select: { messages: true } }
+        _count: { select: { messages: true } },
+        assignedTo: { select: { id: true, name: true } }
       }
     });
 
-    const displayConversations = await Promise.all(conversations.map(async (conv) => {
+    const now = new Date();
+    const displayConversations = await Promise.all(conversations.map(async (rawConv) => {
+      const conv = { ...rawConv, sla: getSlaState(rawConv, now) };
       if (isUsablePersonName(conv.contactName)) return conv;
 
       const leadName = cleanContactValue(conv.leadName);
@@ -1385,17 +1396,24 @@ router.get('/conversations/:id/messages', authenticate, async (req: Request, res
   }
 });
 
-// ── PATCH /api/wa/conversations/:id — Update conversation (status, aiEnabled, etc.)
+// ── PATCH /api/wa/conversations/:id — Update conversation (status, aiEnabled, tags, etc.)
 router.patch('/conversations/:id', authenticate, async (req: Request, res: Response) => {
   try {
-    const { status, aiEnabled, contactName } = req.body;
+    const { status, aiEnabled, contactName, tags } = req.body;
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some((t: unknown) => typeof t !== 'string'))) {
+      return res.status(400).json({ error: 'tags must be an array of strings' });
+    }
+    const current = await prisma.waConversation.findUnique({ where: { id: req.params.id }, select: { status: true } });
+    if (!current) return res.status(404).json({ error: 'Conversation not found' });
     const conv = await prisma.waConversation.update({
       where: { id: req.params.id },
       data: {
-        ...(status !== undefined && { status }),
+        ...(status !== undefined && { status, ...statusTimerUpdate(current.status, status) }),
         ...(aiEnabled !== undefined && { aiEnabled }),
-        ...(contactName !== undefined && { contactName })
-      }
+        ...(contactName !== undefined && { contactName }),
+        ...(tags !== undefined && { tags: [...new Set((tags as string[]).map(t => t.trim()).filter(Boolean))] })
+      },
+      include: { assignedTo: { select: { id: true, name: true } } }
     });
     broadcastSSE('conversation_updated', conv);
     res.json(conv);
@@ -1404,6 +1422,130 @@ router.patch('/conversations/:id', authenticate, async (req: Request, res: Respo
   }
 });
 
+// ── PUT /api/wa/conversations/:id/assignee — Assign (or unassign with null) a conversation
+router.put('/conversations/:id/assignee', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.body as { userId?: string | null };
+    if (userId) {
+      const user = await prisma.user.findFirst({ where: { id: userId, isActive: true } });
+      if (!user) return res.status(400).json({ error: 'User not found' });
+    }
+    res.json(await assignConversation(req.params.id, userId || null));
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to assign conversation' });
+  }
+});
+
+// ── GET /api/wa/assignees — Staff that conversations can be assigned to
+router.get('/assignees', authenticate, async (_req: Request, res: Response) => {
+  try {
+    const users = await prisma.user.findMany({
+      where: { isActive: true, role: { not: 'instructor' } },
+      select: { id: true, name: true, role: true },
+      orderBy: { name: 'asc' }
+    });
+    res.json(users);
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to fetch assignees' });
+  }
+});
+
+// ── GET /api/wa/conversations/:id/notes — Internal notes (never sent to the customer)
+router.get('/conversations/:id/notes', authenticate, async (req: Request, res: Response) => {
+  try {
+    const notes = await prisma.waConversationNote.findMany({
+      where: { conversationId: req.params.id },
+      orderBy: { createdAt: 'asc' },
+      include: { author: { select: { id: true, name: true } } }
+    });
+    res.json(notes);
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to fetch notes' });
+  }
+});
+
+// ── POST /api/wa/conversations/:id/notes
+router.post('/conversations/:id/notes', authenticate, async (req: Request, res: Response) => {
+  try {
+    const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+    if (!body) return res.status(400).json({ error: 'Missing body' });
+    const note = await prisma.waConversationNote.create({
+      data: { conversationId: req.params.id, authorId: req.user!.userId, body },
+      include: { author: { select: { id: true, name: true } } }
+    });
+    broadcastSSE('conversation_note', note);
+    res.status(201).json(note);
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to add note' });
+  }
+});
+
+// ── Canned replies — text may use {{customer_name}}, {{student_name}}, {{cycle_name}}, etc.
+router.get('/canned-replies', authenticate, async (_req: Request, res: Response) => {
+  try {
+    res.json(await prisma.waCannedReply.findMany({ orderBy: { title: 'asc' } }));
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to fetch canned replies' });
+  }
+});
+
+function cannedReplyData(body: Record<string, unknown>) {
+  const title = typeof body.title === 'string' ? body.title.trim() : '';
+  const text = typeof body.body === 'string' ? body.body.trim() : '';
+  const shortcut = typeof body.shortcut === 'string' && body.shortcut.trim() ? body.shortcut.trim() : null;
+  return title && text ? { title, body: text, shortcut } : null;
+}
+
+router.post('/canned-replies', authenticate, async (req: Request, res: Response) => {
+  try {
+    const data = cannedReplyData(req.body);
+    if (!data) return res.status(400).json({ error: 'Missing title or body' });
+    const reply = await prisma.waCannedReply.create({ data: { ...data, createdById: req.user!.userId } });
+    res.status(201).json(reply);
+  } catch (err: any) {
+    if (err?.code === 'P2002') return res.status(409).json({ error: 'Shortcut already in use' });
+    res.status(500).json({ error: 'Failed to create canned reply' });
+  }
+});
+
+router.put('/canned-replies/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const data = cannedReplyData(req.body);
+    if (!data) return res.status(400).json({ error: 'Missing title or body' });
+    res.json(await prisma.waCannedReply.update({ where: { id: req.params.id }, data }));
+  } catch (err: any) {
+    if (err?.code === 'P2002') return res.status(409).json({ error: 'Shortcut already in use' });
+    res.status(500).json({ error: 'Failed to update canned reply' });
+  }
+});
+
+router.delete('/canned-replies/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    await prisma.waCannedReply.delete({ where: { id: req.params.id } });
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to delete canned reply' });
+  }
+});
+
+// ── POST /api/wa/canned-replies/:id/render — Fill placeholders for a conversation (not sent)
+router.post('/canned-replies/:id/render', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { conversationId } = req.body;
+    if (!conversationId) return res.status(400).json({ error: 'Missing conversationId' });
+    const [reply, agent] = await Promise.all([
+      prisma.waCannedReply.findUnique({ where: { id: req.params.id } }),
+      prisma.user.findUnique({ where: { id: req.user!.userId }, select: { name: true } })
+    ]);
+    if (!reply) return res.status(404).json({ error: 'Canned reply not found' });
+    const text = await renderCannedReply(conversationId, reply.body, agent?.name);
+    if (text === null) return res.status(404).json({ error: 'Conversation not found' });
+    res.json({ text });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to render canned reply' });
+  }
+});
+
 // ── POST /api/wa/send — Send manual message
 router.post('/send', authenticate, async (req: Request, res: Response) => {
   try {
@@ -1412,31 +1554,9 @@ router.post('/send', authenticate, async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Missing conversationId or text' });
     }
 
-    const conv = await prisma.waConversation.findUnique({ where: { id: conversationId } });
-    if (!conv) return res.status(404).json({ error: 'Conversation not found' });
-
-    const waId = await sendWhatsAppMessage(conv.phone, text, conv.phoneNumberId);
-    const msg = await prisma.waMessage.create({
-      data: {
-        conversationId,
-        direction: 'outbound',
-        content: text,
-        waMessageId: waId || undefined,
-        status: 'sent',
-        isAiGenerated: false
-      }
-    });
-
-    await prisma.waConversation.update({
-      where: { id: conversationId },
-      data: {
-        lastMessageAt: new Date(),
-        lastMessagePreview: text.slice(0, 100),
-        updatedAt: new Date()
-      }
-    });
+    const msg = await sendWaTextReply(conversationId, text);
+    if (!msg) return res.status(404).json({ error: 'Conversation not found' });
 
-    broadcastSSE('new_message', { conversationId, message: msg });
     scheduleLeadExtraction(conversationId);
     res.json(msg);
   } catch (err) {
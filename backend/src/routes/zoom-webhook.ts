@@ -3,6 +3,7 @@ import crypto from 'crypto';
 import { PrismaClient } from '@prisma/client';
 import nodemailer from 'nodemailer';
 import { processRecording } from '../services/transcription';
+import { notifyCycleParents } from '../services/parent-notifications.js';
 import { sendGreenApiMessage } from '../services/green-api-client';
 
 const router = Router();
@@ -89,16 +90,25 @@ async function processTranscriptionInBackground(
       ? `${existing}\n\n📝 ${summary}`
       : summary;
 
-    await prisma.meeting.update({
+    const updated = await prisma.meeting.update({
       where: { id: meetingId },
       data: {
         lessonTranscript: transcript,
         topic: mergedTopic
-      }
+      },
+      select: { cycleId: true }
     });
 
     console.log(`[Transcription] Saved transcript + merged summary into topic for meeting ${meetingId}`);
 
+    // Let the parents read the summary in the parent app
+    await notifyCycleParents(updated.cycleId, {
+      type: 'lesson_summary',
+      title: `סיכום שיעור: ${topic}`,
+      body: summary.length > 180 ? `${summary.slice(0, 180)}…` : summary,
+      meetingId,
+    });
+
     // Send WhatsApp to instructor with recording + summary
     if (instructorPhone) {
       await sendWhatsAppToInstructor(
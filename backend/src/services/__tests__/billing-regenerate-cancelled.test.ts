@@ -12,11 +12,16 @@ const prismaMock = vi.hoisted(() => ({
   cycle: {
     findMany: vi.fn(),
   },
+  orderBillingPlanMonth: {
+    findMany: vi.fn(),
+  },
 }));
 
 vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../domain-events.js', () => ({ publishDomainEvent: vi.fn() }));
 
 import { generateBillingPeriod } from '../billing.js';
+import { publishDomainEvent } from '../domain-events.js';
 
 describe('generateBillingPeriod cancelled periods', () => {
   beforeEach(() => {
@@ -24,6 +29,7 @@ describe('generateBillingPeriod cancelled periods', () => {
     prismaMock.billingPeriod.findFirst.mockResolvedValue(null);
     prismaMock.billingPeriodLine.deleteMany.mockResolvedValue({ count: 1 });
     prismaMock.cycle.findMany.mockResolvedValue([]);
+    prismaMock.orderBillingPlanMonth.findMany.mockResolvedValue([]);
   });
 
   it('revives a cancelled period as a fresh draft and clears old Morning proforma links', async () => {
@@ -72,6 +78,50 @@ describe('generateBillingPeriod cancelled periods', () => {
     }));
   });
 
+  it('records the billing plan projection for the regenerated months', async () => {
+    prismaMock.billingPeriod.findUnique.mockResolvedValue({
+      id: 'period-1',
+      status: 'draft',
+      paidAmount: 0,
+      lines: [],
+    });
+    prismaMock.orderBillingPlanMonth.findMany.mockResolvedValue([
+      { month: new Date('2026-05-01T00:00:00.000Z'), expectedAmount: 1440 },
+      { month: new Date('2026-06-01T00:00:00.000Z'), expectedAmount: 720 },
+    ]);
+    prismaMock.billingPeriod.update.mockResolvedValue({ id: 'period-1', status: 'draft', lines: [] });
+
+    await generateBillingPeriod('order-1', '2026-05', '2026-05');
+
+    expect(prismaMock.billingPeriod.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ totalAmount: 0, plannedAmount: 1440 }),
+    }));
+  });
+
+  it('publishes billing_period.generated with the institution name', async () => {
+    prismaMock.billingPeriod.findUnique.mockResolvedValue({ id: 'period-1', status: 'draft', paidAmount: 0, lines: [] });
+    prismaMock.billingPeriod.update.mockResolvedValue({
+      id: 'period-1',
+      institutionalOrderId: 'order-1',
+      monthStart: new Date('2026-05-01T00:00:00.000Z'),
+      monthEnd: new Date('2026-05-01T00:00:00.000Z'),
+      status: 'draft',
+      totalAmount: 0,
+      paidAmount: 0,
+      lines: [],
+      institutionalOrder: { orderName: 'אורט — רובוטיקה' },
+    });
+
+    await generateBillingPeriod('order-1', '2026-05', '2026-05');
+
+    expect(prismaMock.billingPeriod.update).toHaveBeenCalledWith(expect.objectContaining({
+      include: { lines: true, institutionalOrder: { select: { orderName: true } } },
+    }));
+    expect(publishDomainEvent).toHaveBeenCalledWith('billing_period.generated', expect.objectContaining({
+      institutionName: 'אורט — רובוטיקה',
+    }));
+  });
+
   it('still refuses to regenerate a cancelled period with a binding tax document', async () => {
     prismaMock.billingPeriod.findUnique.mockResolvedValue({
       id: 'period-1',
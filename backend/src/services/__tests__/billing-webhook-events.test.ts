@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  billingPeriod: {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  },
+  meeting: {
+    findMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+
+vi.mock('../domain-events.js', () => ({
+  publishDomainEvent: vi.fn(),
+}));
+
+const tx = {
+  billingPayment: {
+    create: vi.fn(),
+    aggregate: vi.fn(),
+  },
+  billingPeriod: {
+    update: vi.fn(),
+  },
+};
+
+import { addPayment, checkBillingDrift } from '../billing.js';
+import { publishDomainEvent } from '../domain-events.js';
+
+const mockPublish = vi.mocked(publishDomainEvent);
+
+const period = {
+  id: 'period-1',
+  institutionalOrderId: 'order-1',
+  monthStart: new Date('2026-09-01T00:00:00.000Z'),
+  monthEnd: new Date('2026-09-01T00:00:00.000Z'),
+  status: 'issued',
+  totalAmount: 1000,
+  paidAmount: 0,
+  paymentStatus: 'unpaid',
+  proformaSnapshot: { grossTotal: 1180 },
+  morningDocNumber: 40012,
+  morningDocUrl: 'https://morning.example/doc',
+  issuedAt: new Date('2026-10-02T00:00:00.000Z'),
+  dueDate: null,
+  taxInvoiceNumber: null,
+  taxInvoiceType: null,
+  taxInvoiceUrl: null,
+  taxInvoiceIssuedAt: null,
+  driftSignature: null,
+  lines: [],
+  institutionalOrder: { orderName: 'בית ספר אלון' },
+};
+
+describe('billing webhook events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.$transaction.mockImplementation((fn) => fn(tx));
+  });
+
+  it('publishes billing_payment.recorded with the period roll-up after a manual payment', async () => {
+    prismaMock.billingPeriod.findUnique.mockResolvedValue(period);
+    tx.billingPayment.create.mockResolvedValue({
+      id: 'payment-1',
+      billingPeriodId: 'period-1',
+      amount: 590,
+      method: 'העברה בנקאית',
+      paidAt: new Date('2026-10-10T00:00:00.000Z'),
+      morningReceiptNumber: null,
+      morningReceiptUrl: null,
+    });
+    tx.billingPayment.aggregate.mockResolvedValue({ _sum: { amount: 590 } });
+    tx.billingPeriod.update.mockResolvedValue({ ...period, paidAmount: 590, paymentStatus: 'partial' });
+
+    await addPayment('period-1', { amount: 590, method: 'העברה בנקאית', paidAt: '2026-10-10' });
+
+    expect(mockPublish).toHaveBeenCalledWith('billing_payment.recorded', expect.objectContaining({
+      id: 'payment-1',
+      institutionalOrderId: 'order-1',
+      amount: 590,
+      periodPaidAmount: 590,
+      periodPaymentStatus: 'partial',
+    }));
+  });
+
+  it('reports new drift once and stores its fingerprint', async () => {
+    prismaMock.billingPeriod.findUnique
+      .mockResolvedValueOnce({ ...period, meetings: [{ meetingId: 'meeting-1' }] })
+      .mockResolvedValueOnce(period);
+    prismaMock.meeting.findMany.mockResolvedValue([{ id: 'meeting-1' }, { id: 'meeting-2' }]);
+
+    await expect(checkBillingDrift('period-1')).resolves.toBe(true);
+
+    expect(prismaMock.billingPeriod.update).toHaveBeenCalledWith({
+      where: { id: 'period-1' },
+      data: { driftSignature: '+meeting-2|-' },
+    });
+    expect(mockPublish).toHaveBeenCalledWith('billing_period.drift_detected', expect.objectContaining({
+      newSinceIssue: ['meeting-2'],
+      removedSinceIssue: [],
+      billingPeriod: expect.objectContaining({ id: 'period-1', monthStart: '2026-09', totalGross: 1180 }),
+    }));
+  });
+
+  it('stays quiet when the drift has already been reported', async () => {
+    prismaMock.billingPeriod.findUnique
+      .mockResolvedValueOnce({ ...period, meetings: [{ meetingId: 'meeting-1' }] })
+      .mockResolvedValueOnce({ ...period, driftSignature: '+meeting-2|-' });
+    prismaMock.meeting.findMany.mockResolvedValue([{ id: 'meeting-1' }, { id: 'meeting-2' }]);
+
+    await expect(checkBillingDrift('period-1')).resolves.toBe(false);
+
+    expect(prismaMock.billingPeriod.update).not.toHaveBeenCalled();
+    expect(mockPublish).not.toHaveBeenCalled();
+  });
+
+  it('clears the fingerprint once the drift is resolved', async () => {
+    prismaMock.billingPeriod.findUnique
+      .mockResolvedValueOnce({ ...period, meetings: [{ meetingId: 'meeting-1' }] })
+      .mockResolvedValueOnce({ ...period, driftSignature: '+meeting-2|-' });
+    prismaMock.meeting.findMany.mockResolvedValue([{ id: 'meeting-1' }]);
+
+    await expect(checkBillingDrift('period-1')).resolves.toBe(false);
+
+    expect(prismaMock.billingPeriod.update).toHaveBeenCalledWith({
+      where: { id: 'period-1' },
+      data: { driftSignature: null },
+    });
+    expect(mockPublish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  branchBlackout: {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  },
+  meeting: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  },
+  registration: {
+    findMany: vi.fn(),
+  },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../../utils/audit.js', () => ({ logAudit: vi.fn() }));
+vi.mock('../../utils/cycle-sync.js', () => ({ syncCycleEndDate: vi.fn() }));
+vi.mock('../replacement-meeting.js', () => ({ addReplacementMeetingWithRetry: vi.fn() }));
+vi.mock('../instructor-payment.js', () => ({ recalculateDailyInstructorPaymentsForMeeting: vi.fn() }));
+vi.mock('../notifications.js', () => ({ sendWhatsAppMessage: vi.fn().mockResolvedValue(true) }));
+vi.mock('../domain-events.js', () => ({ publishMeetingUpdated: vi.fn() }));
+
+import { applyBranchBlackout } from '../branch-blackout.js';
+import { addReplacementMeetingWithRetry } from '../replacement-meeting.js';
+import { sendWhatsAppMessage } from '../notifications.js';
+import { syncCycleEndDate } from '../../utils/cycle-sync.js';
+import { publishMeetingUpdated } from '../domain-events.js';
+
+const blackout = {
+  id: 'blackout-1',
+  branchId: 'branch-1',
+  reason: 'טיול שנתי',
+  startDate: new Date('2026-11-10T00:00:00.000Z'),
+  endDate: new Date('2026-11-11T00:00:00.000Z'),
+  branch: { id: 'branch-1', name: 'בית ספר אלון' },
+};
+
+function meeting(id: string, cycleId: string, date: string, sendParentReminders = true) {
+  return {
+    id,
+    cycleId,
+    instructorId: 'instructor-1',
+    scheduledDate: new Date(`${date}T00:00:00.000Z`),
+    startTime: new Date('1970-01-01T14:00:00.000Z'),
+    status: 'scheduled',
+    notes: null,
+    cycle: { id: cycleId, name: `מחזור ${cycleId}`, sendParentReminders },
+    instructor: { id: 'instructor-1', name: 'דנה', phone: '0501234567' },
+  };
+}
+
+describe('applyBranchBlackout', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.branchBlackout.findUnique.mockResolvedValue(blackout);
+    prismaMock.meeting.update.mockImplementation(({ where, data }) => Promise.resolve({ id: where.id, ...data }));
+    prismaMock.meeting.findUnique.mockResolvedValue({ scheduledDate: new Date('2027-01-05T00:00:00.000Z') });
+    prismaMock.registration.findMany.mockResolvedValue([]);
+  });
+
+  it('postpones affected meetings, adds replacements and resyncs each cycle once', async () => {
+    prismaMock.meeting.findMany.mockResolvedValue([
+      meeting('m1', 'c1', '2026-11-10'),
+      meeting('m2', 'c1', '2026-11-11'),
+      meeting('m3', 'c2', '2026-11-11'),
+    ]);
+    vi.mocked(addReplacementMeetingWithRetry)
+      .mockResolvedValueOnce('r1')
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce('r3');
+
+    const result = await applyBranchBlackout('blackout-1', 'user-1');
+
+    expect(prismaMock.meeting.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        status: 'scheduled',
+        scheduledDate: { gte: blackout.startDate, lte: blackout.endDate },
+        cycle: { branchId: 'branch-1', status: 'active', deletedAt: null },
+      }),
+    }));
+    expect(prismaMock.meeting.update).toHaveBeenCalledTimes(3);
+    expect(prismaMock.meeting.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'm1' },
+      data: expect.objectContaining({ status: 'postponed', revenue: 0, instructorPayment: 0, profit: 0, notes: 'טיול שנתי' }),
+    }));
+    expect(addReplacementMeetingWithRetry).toHaveBeenCalledWith('m1', 'user-1', 'מחזור c1');
+    expect(publishMeetingUpdated).toHaveBeenCalledTimes(3);
+    expect(vi.mocked(syncCycleEndDate).mock.calls.map(([id]) => id)).toEqual(['c1', 'c2']);
+    expect(prismaMock.branchBlackout.update).toHaveBeenCalledWith({
+      where: { id: 'blackout-1' },
+      data: { appliedAt: expect.any(Date), postponedCount: { increment: 3 } },
+    });
+    expect(result.postponed).toHaveLength(3);
+    expect(result.replacementFailures).toBe(1);
+    expect(result.postponed[1]).toMatchObject({ meetingId: 'm2', replacementMeetingId: null, replacementDate: null });
+  });
+
+  it('sends one summary per instructor and per parent, only for cycles with parent messaging', async () => {
+    prismaMock.meeting.findMany.mockResolvedValue([
+      meeting('m1', 'c1', '2026-11-10'),
+      meeting('m2', 'c2', '2026-11-10', false),
+    ]);
+    vi.mocked(addReplacementMeetingWithRetry).mockResolvedValue('r');
+    prismaMock.registration.findMany.mockResolvedValue([
+      { cycleId: 'c1', student: { name: 'נועה', customer: { id: 'cust-1', name: 'רוני', phone: '0527654321' } } },
+      { cycleId: 'c1', student: { name: 'איתי', customer: { id: 'cust-1', name: 'רוני', phone: '0527654321' } } },
+    ]);
+
+    const result = await applyBranchBlackout('blackout-1', 'user-1');
+
+    expect(prismaMock.registration.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ cycleId: { in: ['c1'] } }),
+    }));
+    expect(sendWhatsAppMessage).toHaveBeenCalledTimes(2);
+    const parentMessage = vi.mocked(sendWhatsAppMessage).mock.calls.find(([phone]) => phone === '0527654321')?.[1];
+    expect(parentMessage).toContain('נועה');
+    expect(parentMessage).toContain('איתי');
+    expect(result.instructorsNotified).toBe(1);
+    expect(result.parentsNotified).toBe(1);
+  });
+
+  it('does nothing but stamp the blackout when no meetings are affected', async () => {
+    prismaMock.meeting.findMany.mockResolvedValue([]);
+
+    const result = await applyBranchBlackout('blackout-1', 'user-1');
+
+    expect(addReplacementMeetingWithRetry).not.toHaveBeenCalled();
+    expect(sendWhatsAppMessage).not.toHaveBeenCalled();
+    expect(result.postponed).toEqual([]);
+    expect(prismaMock.branchBlackout.update).toHaveBeenCalled();
+  });
+});
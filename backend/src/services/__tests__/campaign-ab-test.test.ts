@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  campaign: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  campaignVariant: { findMany: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn() },
+  campaignRecipient: { findMany: vi.fn(), updateMany: vi.fn(), groupBy: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../campaigns.service.js', () => ({ sendCampaign: vi.fn().mockResolvedValue(undefined) }));
+
+import { assignVariantSlices, decideAbTest, pickWinner, processAbTests, type VariantStats } from '../campaignAbTest.service.js';
+import { sendCampaign } from '../campaigns.service.js';
+
+function stats(label: string, overrides: Partial<VariantStats> = {}): VariantStats {
+  return {
+    id: `v-${label}`,
+    label,
+    subject: `נושא ${label}`,
+    contentWa: null,
+    isWinner: false,
+    recipients: 100,
+    sent: 100,
+    opened: 0,
+    clicked: 0,
+    openRate: 0,
+    clickRate: 0,
+    ...overrides,
+  };
+}
+
+function mockTestResults() {
+  prismaMock.campaignVariant.findMany.mockResolvedValue([
+    { id: 'v-A', label: 'A', subject: 'A', contentWa: null, isWinner: false },
+    { id: 'v-B', label: 'B', subject: 'B', contentWa: null, isWinner: false },
+  ]);
+  // groupBy order: recipients, sent, opened, clicked
+  prismaMock.campaignRecipient.groupBy
+    .mockResolvedValueOnce([{ variantId: 'v-A', _count: { _all: 10 } }, { variantId: 'v-B', _count: { _all: 10 } }])
+    .mockResolvedValueOnce([{ variantId: 'v-A', _count: { _all: 10 } }, { variantId: 'v-B', _count: { _all: 10 } }])
+    .mockResolvedValueOnce([{ variantId: 'v-A', _count: { _all: 6 } }, { variantId: 'v-B', _count: { _all: 4 } }])
+    .mockResolvedValueOnce([{ variantId: 'v-A', _count: { _all: 1 } }, { variantId: 'v-B', _count: { _all: 3 } }]);
+  prismaMock.campaignVariant.findUniqueOrThrow.mockResolvedValue({
+    id: 'v-B', subject: 'נושא מנצח', contentHtml: '<p>B</p>', contentWa: 'B',
+  });
+}
+
+describe('campaign A/B tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.$transaction.mockImplementation((fn: (tx: typeof prismaMock) => unknown) => fn(prismaMock));
+    prismaMock.campaign.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('picks the winner by the configured metric, breaking ties on the other one', () => {
+    const variants = [
+      stats('A', { openRate: 40, clickRate: 5 }),
+      stats('B', { openRate: 30, clickRate: 9 }),
+      stats('C', { openRate: 40, clickRate: 7 }),
+    ];
+
+    expect(pickWinner(variants, 'open')?.label).toBe('C');
+    expect(pickWinner(variants, 'click')?.label).toBe('B');
+    expect(pickWinner([stats('A'), stats('B')], 'open')?.label).toBe('A');
+    expect(pickWinner([], 'open')).toBeNull();
+  });
+
+  it('splits a random test slice evenly between the variants and leaves the rest pending', async () => {
+    prismaMock.campaign.findUniqueOrThrow.mockResolvedValue({ abTestPercent: 20, variants: [{ id: 'v-A' }, { id: 'v-B' }] });
+    prismaMock.campaignRecipient.findMany.mockResolvedValue(
+      Array.from({ length: 50 }, (_, i) => ({ id: `r-${i}` })),
+    );
+
+    const result = await assignVariantSlices('c-1');
+
+    expect(result).toEqual({ testSize: 10, remainder: 40 });
+    const calls = prismaMock.campaignRecipient.updateMany.mock.calls.map(([args]) => args);
+    expect(calls.map((args) => args.data.variantId)).toEqual(['v-A', 'v-B']);
+    expect(calls.map((args) => args.where.id.in.length)).toEqual([5, 5]);
+    const assigned = calls.flatMap((args) => args.where.id.in);
+    expect(new Set(assigned).size).toBe(10);
+  });
+
+  it('copies the winning content to the campaign and sends it to the remainder at the send pace', async () => {
+    prismaMock.campaign.findUnique.mockResolvedValue({ status: 'ab_testing', abWinnerMetric: 'click', dailyLimit: 500 });
+    mockTestResults();
+
+    const result = await decideAbTest('c-1');
+
+    expect(result.winner).toMatchObject({ id: 'v-B', clickRate: 30, openRate: 40 });
+    expect(prismaMock.campaign.updateMany).toHaveBeenCalledWith({
+      where: { id: 'c-1', status: 'ab_testing' },
+      data: expect.objectContaining({ subject: 'נושא מנצח', contentHtml: '<p>B</p>', contentWa: 'B', status: 'sending' }),
+    });
+    expect(prismaMock.campaignVariant.update).toHaveBeenCalledWith({ where: { id: 'v-B' }, data: { isWinner: true } });
+    expect(sendCampaign).toHaveBeenCalledWith('c-1', 500);
+  });
+
+  it('sends the remainder once when the decision races another one', async () => {
+    prismaMock.campaign.findUnique.mockResolvedValue({ status: 'ab_testing', abWinnerMetric: 'open', dailyLimit: null });
+    mockTestResults();
+    prismaMock.campaign.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(decideAbTest('c-1')).rejects.toMatchObject({ statusCode: 400 });
+    expect(prismaMock.campaignVariant.update).not.toHaveBeenCalled();
+    expect(sendCampaign).not.toHaveBeenCalled();
+  });
+
+  it('only decides tests whose window has passed', async () => {
+    const now = new Date('2026-11-03T12:00:00.000Z');
+    prismaMock.campaign.findMany.mockResolvedValue([
+      { id: 'fresh', abTestSentAt: new Date('2026-11-03T10:00:00.000Z'), abWindowHours: 4 },
+    ]);
+
+    expect(await processAbTests(now)).toBe(0);
+    expect(prismaMock.campaign.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  campaign: { findMany: vi.fn() },
+  campaignRecipient: { findMany: vi.fn() },
+  facebookLead: { findMany: vi.fn() },
+  leadAppointment: { findMany: vi.fn() },
+  registration: { findMany: vi.fn() },
+  payment: { findMany: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../google-ads.js', () => ({
+  isGoogleAdsConfigured: vi.fn(() => true),
+  getGoogleAdsSpend: vi.fn().mockResolvedValue([{ id: '777', name: 'Python Summer', cost: 1500 }]),
+}));
+
+import { getCampaignAttribution } from '../campaignAttribution.service.js';
+
+const from = new Date('2026-10-01T00:00:00.000Z');
+const to = new Date('2026-10-31T23:59:59.000Z');
+
+describe('campaign attribution', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.campaign.findMany.mockResolvedValue([]);
+    prismaMock.campaignRecipient.findMany.mockResolvedValue([]);
+    prismaMock.facebookLead.findMany.mockResolvedValue([]);
+    prismaMock.leadAppointment.findMany.mockResolvedValue([]);
+    prismaMock.registration.findMany.mockResolvedValue([]);
+    prismaMock.payment.findMany.mockResolvedValue([]);
+  });
+
+  it('credits each conversion to the latest touch inside the window', async () => {
+    prismaMock.campaignRecipient.findMany.mockResolvedValue([
+      { customerId: 'cust-1', sentAt: new Date('2026-10-02T08:00:00.000Z'), campaignId: 'c-1', campaign: { name: 'ניוזלטר' } },
+      { customerId: 'cust-2', sentAt: new Date('2026-10-02T08:00:00.000Z'), campaignId: 'c-1', campaign: { name: 'ניוזלטר' } },
+    ]);
+    prismaMock.facebookLead.findMany.mockResolvedValue([
+      { crmCustomerId: 'cust-1', campaignId: '777', campaignName: 'Python Summer', fbCreatedTime: new Date('2026-10-05T08:00:00.000Z'), createdAt: new Date('2026-10-05T08:00:00.000Z') },
+    ]);
+    prismaMock.registration.findMany.mockResolvedValue([
+      { amount: 1200, createdAt: new Date('2026-10-06T08:00:00.000Z'), student: { customerId: 'cust-1' } },
+      { amount: 900, createdAt: new Date('2026-10-03T08:00:00.000Z'), student: { customerId: 'cust-2' } },
+    ]);
+    prismaMock.payment.findMany.mockResolvedValue([
+      { customerId: 'cust-1', amount: 1200, paidAt: new Date('2026-10-06T09:00:00.000Z'), description: 'קורס [payment-link:ab2cd]' },
+      // Outside the 7-day window of the newsletter
+      { customerId: 'cust-2', amount: 900, paidAt: new Date('2026-10-20T09:00:00.000Z'), description: 'קורס' },
+    ]);
+
+    const report = await getCampaignAttribution({ from, to, windowDays: 7 });
+
+    const ads = report.campaigns.find((row) => row.key === 'ads:777')!;
+    expect(ads).toMatchObject({
+      name: 'Python Summer',
+      source: 'facebook',
+      registrations: 1,
+      revenue: 1200,
+      paymentLinkRevenue: 1200,
+      cost: 1500,
+      costPerRegistration: 1500,
+    });
+    const crm = report.campaigns.find((row) => row.key === 'crm:c-1')!;
+    expect(crm).toMatchObject({ reached: 2, registrations: 1, registrationValue: 900, revenue: 0, cost: null, costPerRegistration: null });
+    expect(crm.conversionRate).toBe(50);
+    expect(report.totals).toEqual({ registrations: 2, revenue: 1200, cost: 1500 });
+    expect(report.spendAvailable).toBe(true);
+  });
+
+  it('resolves landing-page leads to their CRM campaign', async () => {
+    prismaMock.leadAppointment.findMany.mockResolvedValue([
+      { customerId: 'cust-3', campaignId: null, campaignName: null, source: 'campaign:c-9', createdAt: new Date('2026-10-10T08:00:00.000Z') },
+    ]);
+    prismaMock.campaign.findMany.mockResolvedValue([{ id: 'c-9', name: 'חוג רובוטיקה' }]);
+    prismaMock.registration.findMany.mockResolvedValue([
+      { amount: null, createdAt: new Date('2026-10-12T08:00:00.000Z'), student: { customerId: 'cust-3' } },
+    ]);
+
+    const report = await getCampaignAttribution({ from, to, windowDays: 30 });
+
+    expect(report.campaigns).toEqual([
+      expect.objectContaining({ key: 'crm:c-9', platform: 'crm', name: 'חוג רובוטיקה', reached: 1, registrations: 1 }),
+    ]);
+    expect(prismaMock.registration.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ status: { notIn: ['cancelled', 'trial'] }, student: { customerId: { in: ['cust-3'] } } }),
+    }));
+  });
+
+  it('looks back one window before the period for touches', async () => {
+    await getCampaignAttribution({ from, to, windowDays: 10 });
+
+    expect(prismaMock.campaignRecipient.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { customerId: { not: null }, sentAt: { gte: new Date('2026-09-21T00:00:00.000Z'), lte: to } },
+    }));
+    expect(prismaMock.registration.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  customer: { findMany: vi.fn() },
+  registration: { findMany: vi.fn() },
+  waConversation: { findMany: vi.fn() },
+  campaignRecipient: { findMany: vi.fn() },
+  audienceSegment: { findMany: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../email/sender.js', () => ({ sendEmail: vi.fn() }));
+
+import { resolveAudience } from '../campaigns.service.js';
+
+const customer = (id: string, phone: string | null = null) => ({ id, name: id, phone, email: null });
+
+describe('campaign audience rules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.customer.findMany.mockResolvedValue([]);
+    prismaMock.waConversation.findMany.mockResolvedValue([]);
+    prismaMock.campaignRecipient.findMany.mockResolvedValue([]);
+    prismaMock.audienceSegment.findMany.mockResolvedValue([]);
+  });
+
+  it('turns CRM rules into customer conditions', async () => {
+    await resolveAudience({
+      leadStatuses: ['new', 'contacted'],
+      cities: ['חיפה'],
+      upsellStatuses: ['new'],
+      unpaidRegistrations: true,
+      completedCourseIds: ['course-1'],
+    });
+
+    const { where } = prismaMock.customer.findMany.mock.calls[0][0];
+    expect(where).toMatchObject({
+      deletedAt: null,
+      emailUnsubscribed: false,
+      leadStatus: { in: ['new', 'contacted'] },
+      city: { in: ['חיפה'] },
+    });
+    expect(where.AND).toEqual([
+      { upsellLeads: { some: { status: { in: ['new'] } } } },
+      { students: { some: { registrations: { some: expect.objectContaining({ paymentStatus: { in: ['unpaid', 'partial'] } }) } } } },
+      { students: { some: { registrations: { some: expect.objectContaining({ cycle: { courseId: { in: ['course-1'] } } }) } } } },
+    ]);
+  });
+
+  it('keeps only customers with a matching WhatsApp conversation', async () => {
+    prismaMock.customer.findMany.mockResolvedValue([customer('a', '050-1234567'), customer('b', '0529999999'), customer('c')]);
+    prismaMock.waConversation.findMany.mockResolvedValue([{ phone: '972501234567' }]);
+
+    const result = await resolveAudience({ waConversationStatuses: ['open'] });
+
+    expect(result.recipients.map((r) => r.customerId)).toEqual(['a']);
+  });
+
+  it('drops recipients of excluded campaigns, segments and phones', async () => {
+    prismaMock.customer.findMany
+      .mockResolvedValueOnce([customer('a', '0501111111'), customer('b', '0502222222'), customer('c', '0503333333'), customer('d', '0504444444')])
+      // the excluded segment's own audience
+      .mockResolvedValueOnce([customer('c', '0503333333')]);
+    prismaMock.campaignRecipient.findMany.mockResolvedValue([{ customerId: 'a', phone: '0501111111' }]);
+    prismaMock.audienceSegment.findMany.mockResolvedValue([{ filters: { leadStatuses: ['closed'], excludeSegmentIds: ['seg-1'] } }]);
+
+    const result = await resolveAudience({
+      excludeCampaignIds: ['camp-1'],
+      excludeSegmentIds: ['seg-1'],
+      excludePhones: ['+972-50-222-2222'],
+    });
+
+    expect(result.recipients.map((r) => r.customerId)).toEqual(['d']);
+    expect(result.count).toBe(1);
+    expect(prismaMock.audienceSegment.findMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.customer.findMany.mock.calls[1][0].where).toMatchObject({ leadStatus: { in: ['closed'] } });
+  });
+});
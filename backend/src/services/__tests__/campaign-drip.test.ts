@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  campaign: { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn(), count: vi.fn() },
+  campaignEnrollment: { findMany: vi.fn(), createMany: vi.fn(), update: vi.fn() },
+  campaignRecipient: { create: vi.fn(), update: vi.fn(), count: vi.fn() },
+  registration: { count: vi.fn(), findMany: vi.fn() },
+  waMessage: { count: vi.fn() },
+  attendance: { findMany: vi.fn() },
+  customer: { findMany: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../campaigns.service.js', () => ({
+  campaignLandingUrl: vi.fn(() => 'https://crm.test/campaign/c-1'),
+  deliverToRecipient: vi.fn().mockResolvedValue({ sent: true }),
+  resolveAudience: vi.fn(),
+}));
+
+import { enrollInDripCampaigns, enrollTrialFollowups, processDueEnrollments } from '../campaignDrip.service.js';
+import { deliverToRecipient } from '../campaigns.service.js';
+
+const now = new Date('2026-11-03T10:00:00.000Z');
+
+function step(position: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `step-${position}`,
+    position,
+    delayMinutes: 60 * 24,
+    channel: 'whatsapp',
+    condition: 'always',
+    subject: null,
+    contentHtml: null,
+    contentWa: `הודעה ${position}`,
+    ...overrides,
+  };
+}
+
+function enrollment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'enr-1',
+    campaignId: 'c-1',
+    customerId: 'cust-1',
+    recipientName: 'דנה',
+    phone: '050-1234567',
+    email: 'dana@example.com',
+    status: 'active',
+    currentStep: 1,
+    createdAt: new Date('2026-11-01T10:00:00.000Z'),
+    campaign: { id: 'c-1', landingUrl: null, exitConditions: [], steps: [step(1), step(2)] },
+    customer: { name: 'דנה', emailUnsubscribed: false },
+    recipients: [],
+    ...overrides,
+  };
+}
+
+describe('drip campaigns', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.campaignRecipient.create.mockImplementation(({ data }) => Promise.resolve({ id: 'rec-1', ...data }));
+    prismaMock.campaignRecipient.count.mockResolvedValue(0);
+    prismaMock.registration.count.mockResolvedValue(0);
+    prismaMock.waMessage.count.mockResolvedValue(0);
+    prismaMock.campaignEnrollment.createMany.mockResolvedValue({ count: 1 });
+    prismaMock.customer.findMany.mockResolvedValue([]);
+  });
+
+  it('enrolls a recipient in every active campaign of the trigger, timed by the first step', async () => {
+    prismaMock.campaign.findMany.mockResolvedValue([
+      { id: 'c-1', steps: [{ delayMinutes: 30 }] },
+      { id: 'c-2', steps: [] },
+    ]);
+
+    const enrolled = await enrollInDripCampaigns('facebook_lead', [{ customerId: 'cust-1', name: 'דנה', phone: '0501234567' }], 'lead-9');
+
+    expect(enrolled).toBe(1);
+    expect(prismaMock.campaign.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { type: 'drip', status: 'active', trigger: 'facebook_lead' },
+    }));
+    expect(prismaMock.campaignEnrollment.createMany).toHaveBeenCalledTimes(1);
+    expect(prismaMock.campaignEnrollment.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ campaignId: 'c-1', customerId: 'cust-1', trigger: 'facebook_lead', triggerRef: 'lead-9' })],
+      skipDuplicates: true,
+    });
+  });
+
+  it('sends the due step as a tracked recipient and schedules the next one', async () => {
+    prismaMock.campaignEnrollment.findMany.mockResolvedValue([enrollment()]);
+
+    const summary = await processDueEnrollments(now);
+
+    expect(summary).toMatchObject({ processed: 1, sent: 1 });
+    expect(prismaMock.campaignRecipient.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ campaignId: 'c-1', stepId: 'step-1', enrollmentId: 'enr-1', phone: '050-1234567' }),
+    });
+    expect(deliverToRecipient).toHaveBeenCalledWith(
+      'c-1',
+      expect.objectContaining({ id: 'rec-1' }),
+      expect.objectContaining({ channel: 'whatsapp', contentWa: 'הודעה 1' }),
+    );
+    expect(prismaMock.campaignEnrollment.update).toHaveBeenCalledWith({
+      where: { id: 'enr-1' },
+      data: { currentStep: 2, lastStepAt: now, nextRunAt: new Date('2026-11-04T10:00:00.000Z') },
+    });
+  });
+
+  it('skips a tick while the previous run is still sending', async () => {
+    let release!: (value: unknown[]) => void;
+    prismaMock.campaignEnrollment.findMany.mockReturnValueOnce(new Promise((resolve) => { release = resolve; }));
+
+    const first = processDueEnrollments(now);
+    expect(await processDueEnrollments(now)).toMatchObject({ processed: 0 });
+    release([enrollment()]);
+
+    expect(await first).toMatchObject({ processed: 1, sent: 1 });
+    expect(prismaMock.campaignEnrollment.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a branch whose condition is not met and completes after the last step', async () => {
+    prismaMock.campaignEnrollment.findMany.mockResolvedValue([enrollment({
+      currentStep: 2,
+      campaign: { id: 'c-1', landingUrl: null, exitConditions: [], steps: [step(1), step(2, { condition: 'not_clicked' })] },
+      recipients: [{ openedAt: now, clickCount: 2 }],
+    })]);
+
+    const summary = await processDueEnrollments(now);
+
+    expect(summary).toMatchObject({ skipped: 1 });
+    expect(deliverToRecipient).not.toHaveBeenCalled();
+    expect(prismaMock.campaignEnrollment.update).toHaveBeenCalledWith({
+      where: { id: 'enr-1' },
+      data: expect.objectContaining({ status: 'completed', completedAt: now, nextRunAt: null }),
+    });
+  });
+
+  it('never enrolls or emails unsubscribed customers, whatever the exit conditions', async () => {
+    prismaMock.campaign.findMany.mockResolvedValue([{ id: 'c-1', steps: [{ delayMinutes: 30 }] }]);
+    prismaMock.customer.findMany.mockResolvedValue([{ id: 'cust-1' }]);
+
+    expect(await enrollInDripCampaigns('cycle_completed', [{ customerId: 'cust-1', email: 'dana@example.com' }], 'cycle-1')).toBe(0);
+    expect(prismaMock.campaignEnrollment.createMany).not.toHaveBeenCalled();
+
+    prismaMock.campaignEnrollment.findMany.mockResolvedValue([enrollment({
+      campaign: { id: 'c-1', landingUrl: null, exitConditions: [], steps: [step(1, { channel: 'email', subject: 'שלום', contentHtml: '<p>היי</p>' })] },
+      customer: { name: 'דנה', emailUnsubscribed: true },
+    })]);
+
+    const summary = await processDueEnrollments(now);
+
+    expect(summary).toMatchObject({ exited: 1, sent: 0 });
+    expect(deliverToRecipient).not.toHaveBeenCalled();
+    expect(prismaMock.campaignEnrollment.update).toHaveBeenCalledWith({
+      where: { id: 'enr-1' },
+      data: { status: 'exited', exitReason: 'unsubscribed', nextRunAt: null, completedAt: now },
+    });
+  });
+
+  it('exits the sequence when the recipient registered or replied on WhatsApp', async () => {
+    prismaMock.campaignEnrollment.findMany.mockResolvedValue([
+      enrollment({ campaign: { id: 'c-1', landingUrl: null, exitConditions: ['registered', 'replied'], steps: [step(1)] } }),
+    ]);
+    prismaMock.waMessage.count.mockResolvedValue(1);
+
+    const summary = await processDueEnrollments(now);
+
+    expect(summary).toMatchObject({ exited: 1, sent: 0 });
+    expect(prismaMock.waMessage.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ direction: 'inbound', conversation: { phone: { contains: '501234567' } } }),
+    });
+    expect(prismaMock.campaignEnrollment.update).toHaveBeenCalledWith({
+      where: { id: 'enr-1' },
+      data: { status: 'exited', exitReason: 'replied', nextRunAt: null, completedAt: now },
+    });
+    expect(deliverToRecipient).not.toHaveBeenCalled();
+  });
+
+  it('enrolls trial families that have not registered since the trial', async () => {
+    prismaMock.campaign.count.mockResolvedValue(1);
+    prismaMock.campaign.findMany.mockResolvedValue([{ id: 'c-1', steps: [{ delayMinutes: 0 }] }]);
+    const customer = (id: string) => ({ id, name: id, phone: '0500000000', email: null });
+    prismaMock.attendance.findMany.mockResolvedValue([
+      { meetingId: 'm-1', meeting: { scheduledDate: now }, student: { customer: customer('waiting') }, registration: null },
+      { meetingId: 'm-1', meeting: { scheduledDate: now }, student: { customer: customer('converted') }, registration: null },
+    ]);
+    prismaMock.registration.count.mockImplementation(({ where }) => Promise.resolve(where.student.customerId === 'converted' ? 1 : 0));
+
+    const enrolled = await enrollTrialFollowups(now);
+
+    expect(enrolled).toBe(1);
+    expect(prismaMock.campaignEnrollment.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ customerId: 'waiting', trigger: 'trial_not_registered', triggerRef: 'm-1' })],
+      skipDuplicates: true,
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  cycle: { findUnique: vi.fn(), findMany: vi.fn() },
+  courseLesson: { findMany: vi.fn(), create: vi.fn(), update: vi.fn() },
+  meeting: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../domain-events.js', () => ({ subscribeDomainEvents: vi.fn() }));
+
+import {
+  assignCycleLessons,
+  createCourseLesson,
+  getLessonPlanContext,
+  initCurriculumSubscribers,
+  reorderCourseLessons,
+} from '../course-curriculum.js';
+import { subscribeDomainEvents } from '../domain-events.js';
+
+const LESSONS = [{ id: 'l-1' }, { id: 'l-2' }, { id: 'l-3' }];
+
+describe('course curriculum', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.cycle.findUnique.mockResolvedValue({ courseId: 'co-1' });
+    prismaMock.cycle.findMany.mockResolvedValue([]);
+    prismaMock.courseLesson.findMany.mockResolvedValue(LESSONS);
+    prismaMock.meeting.update.mockImplementation((args) => ({ op: 'update', ...args }));
+    prismaMock.meeting.updateMany.mockImplementation((args) => ({ op: 'updateMany', ...args }));
+    prismaMock.$transaction.mockImplementation((arg) => (typeof arg === 'function' ? arg(prismaMock) : Promise.resolve(arg)));
+  });
+
+  it('assigns lessons by position, skipping cancelled meetings and keeping completed ones', async () => {
+    prismaMock.meeting.findMany.mockResolvedValue([
+      { id: 'm-1', status: 'completed', lessonId: 'l-2' },
+      { id: 'm-2', status: 'cancelled', lessonId: 'l-2' },
+      { id: 'm-3', status: 'scheduled', lessonId: 'l-3' },
+      { id: 'm-4', status: 'scheduled', lessonId: null },
+      { id: 'm-5', status: 'scheduled', lessonId: 'l-1' },
+    ]);
+
+    const changed = await assignCycleLessons('cy-1');
+
+    expect(prismaMock.meeting.update).toHaveBeenCalledTimes(2);
+    expect(prismaMock.meeting.update).toHaveBeenCalledWith({ where: { id: 'm-3' }, data: { lessonId: 'l-2' } });
+    expect(prismaMock.meeting.update).toHaveBeenCalledWith({ where: { id: 'm-4' }, data: { lessonId: 'l-3' } });
+    // m-2 was cancelled and m-5 is past the end of the curriculum
+    expect(prismaMock.meeting.updateMany).toHaveBeenCalledWith({ where: { id: { in: ['m-2', 'm-5'] } }, data: { lessonId: null } });
+    expect(changed).toBe(4);
+  });
+
+  it('writes nothing when every meeting already has its lesson', async () => {
+    prismaMock.meeting.findMany.mockResolvedValue([
+      { id: 'm-1', status: 'completed', lessonId: 'l-1' },
+      { id: 'm-2', status: 'scheduled', lessonId: 'l-2' },
+    ]);
+
+    expect(await assignCycleLessons('cy-1')).toBe(0);
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('inserts a lesson at the requested number and renumbers the rest', async () => {
+    prismaMock.courseLesson.create.mockResolvedValue({ id: 'l-new', courseId: 'co-1', title: 'משתנים', lessonNumber: -4 });
+
+    const lesson = await createCourseLesson('co-1', { title: 'משתנים', lessonNumber: 2 });
+
+    expect(lesson.lessonNumber).toBe(2);
+    const finalNumbers = prismaMock.courseLesson.update.mock.calls
+      .map(([args]) => args)
+      .filter((args) => args.data.lessonNumber > 0)
+      .map((args) => [args.where.id, args.data.lessonNumber]);
+    expect(finalNumbers).toEqual([['l-1', 1], ['l-new', 2], ['l-2', 3], ['l-3', 4]]);
+  });
+
+  it('rejects an order that does not list every lesson exactly once', async () => {
+    await expect(reorderCourseLessons('co-1', ['l-1', 'l-2'])).rejects.toMatchObject({ statusCode: 400 });
+    await expect(reorderCourseLessons('co-1', ['l-1', 'l-1', 'l-3'])).rejects.toMatchObject({ statusCode: 400 });
+    expect(prismaMock.courseLesson.update).not.toHaveBeenCalled();
+  });
+
+  it('picks the lesson assigned to the meeting for lesson plan context', async () => {
+    prismaMock.courseLesson.findMany.mockResolvedValue([
+      { id: 'l-1', lessonNumber: 1, title: 'היכרות' },
+      { id: 'l-2', lessonNumber: 2, title: 'לולאות' },
+    ]);
+    prismaMock.meeting.findFirst.mockResolvedValue({ lessonId: 'l-2' });
+
+    const context = await getLessonPlanContext('co-1', { meetingId: 'm-1' });
+
+    expect(context?.outline).toEqual([{ lessonNumber: 1, title: 'היכרות' }, { lessonNumber: 2, title: 'לולאות' }]);
+    expect(context?.current).toMatchObject({ id: 'l-2', title: 'לולאות' });
+  });
+
+  it('reassigns the cycle\'s lessons when a meeting moves to another date or time', async () => {
+    initCurriculumSubscribers();
+    const handler = vi.mocked(subscribeDomainEvents).mock.calls[0][0];
+    prismaMock.meeting.findMany.mockResolvedValue([]);
+    const meeting = {
+      id: 'm-1',
+      cycleId: 'cy-1',
+      status: 'scheduled',
+      previousStatus: 'scheduled',
+      scheduledDate: new Date('2026-11-03'),
+      startTime: new Date('1970-01-01T16:00:00Z'),
+    };
+
+    await handler('meeting.updated', { ...meeting, previousScheduledDate: new Date('2026-11-03'), previousStartTime: new Date('1970-01-01T16:00:00Z') });
+    await handler('meeting.updated', { ...meeting, topic: 'חזרה' });
+    expect(prismaMock.cycle.findUnique).not.toHaveBeenCalled();
+
+    await handler('meeting.updated', { ...meeting, previousScheduledDate: new Date('2026-10-27'), previousStartTime: new Date('1970-01-01T16:00:00Z') });
+    await handler('meeting.updated', { ...meeting, previousScheduledDate: new Date('2026-11-03'), previousStartTime: new Date('1970-01-01T14:00:00Z') });
+    expect(prismaMock.cycle.findUnique).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  fileAttachment: { aggregate: vi.fn(), create: vi.fn(), delete: vi.fn(), findMany: vi.fn() },
+  customer: { findMany: vi.fn() },
+  student: { findMany: vi.fn() },
+  cycle: { findMany: vi.fn() },
+  meeting: { findMany: vi.fn() },
+  task: { findMany: vi.fn() },
+}));
+
+const storageMock = vi.hoisted(() => ({ driver: 'local', put: vi.fn(), get: vi.fn(), remove: vi.fn() }));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../file-storage.js', () => ({
+  defaultStorageDriver: () => 'local',
+  getFileStorage: () => storageMock,
+}));
+
+import { detectAllowedType, purgeDeletedEntityFiles, storeAttachment } from '../file-attachments.js';
+
+const PDF = Buffer.from('%PDF-1.7\n...');
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+const zipWith = (...names: string[]) => Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from(names.join('\n'))]);
+
+describe('file attachments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.fileAttachment.aggregate.mockResolvedValue({ _sum: { fileSize: 0 } });
+    prismaMock.fileAttachment.create.mockImplementation(async ({ data }) => ({ id: 'f-1', ...data }));
+  });
+
+  it('checks file content against the extension', () => {
+    expect(detectAllowedType('חוזה.PDF', PDF)).toBe('application/pdf');
+    expect(detectAllowedType('scan.png', PNG)).toBe('image/png');
+    expect(detectAllowedType('report.docx', zipWith('[Content_Types].xml', 'word/document.xml')))
+      .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+
+    expect(() => detectAllowedType('invoice.pdf', Buffer.from('MZ\x90\x00'))).toThrow('אינו תואם');
+    expect(() => detectAllowedType('macro.docx', zipWith('[Content_Types].xml', 'word/vbaProject.bin'))).toThrow('אינו תואם');
+    expect(() => detectAllowedType('setup.exe', Buffer.from('MZ'))).toThrow('לא נתמך');
+    expect(() => detectAllowedType('archive.zip', zipWith('a.txt'))).toThrow('לא נתמך');
+  });
+
+  it('stores under the entity key and records the storage driver', async () => {
+    const attachment = await storeAttachment({ entityType: 'customer', entityId: 'c-1', originalName: 'id.pdf', bytes: PDF });
+
+    expect(storageMock.put).toHaveBeenCalledWith(expect.stringMatching(/^customer\/c-1\/[\w-]+\.pdf$/), PDF, 'application/pdf');
+    expect(attachment).toMatchObject({ entityType: 'customer', mimeType: 'application/pdf', fileSize: PDF.length, storage: 'local' });
+  });
+
+  it('rejects uploads over the entity quota', async () => {
+    process.env.FILE_QUOTA_MB_BILLING_PERIOD = '1';
+    prismaMock.fileAttachment.aggregate.mockResolvedValue({ _sum: { fileSize: 1024 * 1024 - 4 } });
+
+    await expect(storeAttachment({ entityType: 'billing-period', entityId: 'bp-1', originalName: 'a.pdf', bytes: PDF }))
+      .rejects.toMatchObject({ statusCode: 413 });
+    expect(storageMock.put).not.toHaveBeenCalled();
+    delete process.env.FILE_QUOTA_MB_BILLING_PERIOD;
+  });
+
+  it('purges files of entities soft-deleted before the retention cutoff', async () => {
+    prismaMock.fileAttachment.findMany.mockImplementation(async ({ where, distinct }) => {
+      if (where.entityType !== 'customer') return [];
+      return distinct
+        ? [{ entityId: 'c-old' }, { entityId: 'c-live' }]
+        : [{ id: 'f-1', storage: 'local', filePath: 'customer/c-old/a.pdf' }];
+    });
+    prismaMock.customer.findMany.mockResolvedValue([{ id: 'c-old' }]);
+
+    const result = await purgeDeletedEntityFiles(new Date('2026-10-31T00:00:00.000Z'));
+
+    expect(result).toEqual({ purged: 1 });
+    expect(prismaMock.customer.findMany.mock.calls[0][0].where).toEqual({
+      id: { in: ['c-old', 'c-live'] },
+      deletedAt: { lte: new Date('2026-10-01T00:00:00.000Z') },
+    });
+    expect(storageMock.remove).toHaveBeenCalledWith('customer/c-old/a.pdf');
+    expect(prismaMock.fileAttachment.delete).toHaveBeenCalledWith({ where: { id: 'f-1' } });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({ $queryRaw: vi.fn() }));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+
+import { globalSearch, normalizeSearchText, phoneSearchDigits, searchTokens } from '../global-search.js';
+
+describe('global search', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.$queryRaw.mockResolvedValue([]);
+  });
+
+  it('normalizes Hebrew the same way as the database', () => {
+    expect(normalizeSearchText('  שָׁלוֹם   צה"ל ')).toBe('שלומ צהל');
+    expect(searchTokens('בחיפה רובוטיקה חיפה')).toEqual([['בחיפה', 'חיפה'], ['רובוטיקה'], ['חיפה']]);
+    expect(searchTokens('בית')).toEqual([['בית']]);
+  });
+
+  it('reduces phone numbers in any format to the national digits', () => {
+    expect(phoneSearchDigits('050-123-4567')).toBe('501234567');
+    expect(phoneSearchDigits('+972 50 1234567')).toBe('501234567');
+    expect(phoneSearchDigits('1234')).toBeNull();
+    expect(phoneSearchDigits('דנה 050')).toBeNull();
+  });
+
+  it('searches only the requested types and returns numeric ranks', async () => {
+    prismaMock.$queryRaw.mockResolvedValue([
+      { type: 'customer', id: 'c-1', title: 'דנה כהן', subtitle: '0501234567', url: '/customers/c-1', rank: '0.9' },
+    ]);
+
+    const results = await globalSearch('050-123-4567', ['customer', 'quote']);
+
+    expect(results).toEqual([
+      { type: 'customer', id: 'c-1', title: 'דנה כהן', subtitle: '0501234567', url: '/customers/c-1', rank: 0.9 },
+    ]);
+    const query = prismaMock.$queryRaw.mock.calls[0][0];
+    expect(query.sql).toContain('FROM customers e');
+    expect(query.sql).toContain('FROM quotes e');
+    expect(query.sql).not.toContain('FROM students e');
+    expect(query.values).toContain('%501234567%');
+  });
+
+  it('skips the database for empty queries', async () => {
+    expect(await globalSearch(' "  ')).toEqual([]);
+    expect(prismaMock.$queryRaw).not.toHaveBeenCalled();
+  });
+});
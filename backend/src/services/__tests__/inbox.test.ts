@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+  customer: { findFirst: vi.fn() },
+  instructor: { findMany: vi.fn() },
+  inboxThread: { findUnique: vi.fn(), findMany: vi.fn(), upsert: vi.fn() },
+  waConversation: { findMany: vi.fn() },
+}));
+
+const waInboxMock = vi.hoisted(() => ({ sendWaTextReply: vi.fn() }));
+const socialDmMock = vi.hoisted(() => ({ sendDmReply: vi.fn() }));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../wa-inbox.js', () => waInboxMock);
+vi.mock('../social-dm.js', () => socialDmMock);
+
+import { extractContactDetails, getInboxUnreadCount, linkInboxThread, listInboxContacts, replyToThread } from '../inbox.js';
+
+const at = (hour: number) => new Date(`2026-10-19T${String(hour).padStart(2, '0')}:00:00.000Z`);
+
+describe('unified inbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.instructor.findMany.mockResolvedValue([{ phone: '0529999999' }]);
+    prismaMock.inboxThread.findMany.mockResolvedValue([]);
+    prismaMock.waConversation.findMany.mockResolvedValue([
+      { id: 'wa-1', phone: '972501234567', contactName: 'דנה', leadName: null, unreadCount: 2, lastMessageAt: at(9), lastMessagePreview: 'היי' },
+      { id: 'wa-2', phone: '972529999999', contactName: 'מדריך', leadName: null, unreadCount: 5, lastMessageAt: at(11), lastMessagePreview: 'סטטוס' },
+    ]);
+    prismaMock.$queryRaw
+      .mockResolvedValueOnce([{ id: 'fb-1', name: 'Dana Cohen', last_message: 'מה המחיר?', last_message_at: at(10), unread_count: 1 }])
+      .mockResolvedValueOnce([{ id: 'ig-1', name: 'yossi', last_message: 'hi', last_message_at: at(8), unread_count: 3 }]);
+  });
+
+  it('pulls a phone number or email out of a DM', () => {
+    expect(extractContactDetails('המספר שלי 050-123-4567 תודה')).toEqual({ phone: '050-123-4567', email: null });
+    expect(extractContactDetails('write to Dana.C@Example.co.il')).toEqual({ phone: null, email: 'dana.c@example.co.il' });
+  });
+
+  it('links a thread by phone and leaves already-linked threads alone', async () => {
+    prismaMock.inboxThread.findUnique.mockResolvedValueOnce(null);
+    prismaMock.customer.findFirst.mockResolvedValueOnce({ id: 'cust-1' });
+
+    expect(await linkInboxThread('messenger', 'fb-1', { text: 'תתקשרו ל 0501234567' })).toBe('cust-1');
+    expect(prismaMock.customer.findFirst.mock.calls[0][0].where).toEqual({ phone: { endsWith: '501234567' }, deletedAt: null });
+    expect(prismaMock.inboxThread.upsert).toHaveBeenCalledWith({
+      where: { channel_threadId: { channel: 'messenger', threadId: 'fb-1' } },
+      create: { channel: 'messenger', threadId: 'fb-1', customerId: 'cust-1', linkedBy: 'phone' },
+      update: { customerId: 'cust-1', linkedBy: 'phone' },
+    });
+
+    prismaMock.inboxThread.findUnique.mockResolvedValueOnce({ customerId: 'cust-2' });
+    expect(await linkInboxThread('whatsapp', 'wa-1', { phone: '972501234567' })).toBe('cust-2');
+    expect(prismaMock.customer.findFirst).toHaveBeenCalledTimes(1);
+  });
+
+  it('merges threads linked to the same customer into one contact', async () => {
+    const customer = { id: 'cust-1', name: 'דנה כהן', phone: '0501234567', email: null };
+    prismaMock.inboxThread.findMany.mockResolvedValue([
+      { channel: 'whatsapp', threadId: 'wa-1', customerId: 'cust-1', customer },
+      { channel: 'messenger', threadId: 'fb-1', customerId: 'cust-1', customer },
+    ]);
+
+    const contacts = await listInboxContacts();
+
+    expect(contacts.map(c => c.key)).toEqual(['customer:cust-1', 'instagram:ig-1']);
+    expect(contacts[0]).toMatchObject({
+      name: 'דנה כהן',
+      unreadCount: 3,
+      lastMessageAt: at(10),
+      lastChannel: 'messenger',
+    });
+    expect(contacts[0].threads.map(t => t.channel)).toEqual(['whatsapp', 'messenger']);
+  });
+
+  it('sums unread messages over every thread, without instructor chats', async () => {
+    prismaMock.$queryRaw.mockReset();
+    prismaMock.$queryRaw
+      .mockResolvedValueOnce([{ unread: 2n }])
+      .mockResolvedValueOnce([{ unread: 1n }])
+      .mockResolvedValueOnce([{ unread: null }]);
+
+    expect(await getInboxUnreadCount()).toEqual({ total: 3, byChannel: { whatsapp: 2, messenger: 1, instagram: 0 } });
+    const [waSql, ...waParams] = prismaMock.$queryRaw.mock.calls[0];
+    expect(waSql.join('?')).toContain('SUM(unread_count)');
+    expect(waParams).toEqual([['529999999']]);
+    expect(prismaMock.waConversation.findMany).not.toHaveBeenCalled();
+  });
+
+  it('replies on the originating channel', async () => {
+    waInboxMock.sendWaTextReply.mockResolvedValue({ id: 'm-1' });
+    socialDmMock.sendDmReply.mockResolvedValue({ id: 'm-2' });
+
+    await replyToThread('whatsapp', 'wa-1', 'שלום');
+    await replyToThread('instagram', 'ig-1', 'שלום');
+
+    expect(waInboxMock.sendWaTextReply).toHaveBeenCalledWith('wa-1', 'שלום');
+    expect(socialDmMock.sendDmReply).toHaveBeenCalledWith('instagram', 'ig-1', 'שלום');
+  });
+});
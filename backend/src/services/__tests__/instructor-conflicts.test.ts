@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  meeting: { findMany: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+
+import {
+  checkInstructorConflicts,
+  findInstructorConflicts,
+  type ScheduleSlot,
+} from '../instructor-conflicts.js';
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00Z`);
+
+function slot(overrides: Partial<ScheduleSlot> & { start?: string; end?: string } = {}): ScheduleSlot {
+  const { start = '16:00', end = '17:00', ...rest } = overrides;
+  return {
+    meetingId: null,
+    instructorId: 'inst-1',
+    scheduledDate: new Date('2026-11-03T00:00:00.000Z'),
+    startTime: time(start),
+    endTime: time(end),
+    activityType: 'frontal',
+    location: 'חיפה',
+    cycleName: 'רובלוקס א',
+    ...rest,
+  };
+}
+
+describe('instructor conflicts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.meeting.findMany.mockResolvedValue([]);
+  });
+
+  it('blocks overlapping meetings of the same instructor and ignores other instructors and days', () => {
+    const conflicts = findInstructorConflicts(
+      [slot({ start: '16:00', end: '17:00' })],
+      [
+        slot({ meetingId: 'm-1', start: '16:30', end: '17:30', cycleName: 'פייתון ב' }),
+        slot({ meetingId: 'm-2', instructorId: 'inst-2', start: '16:00', end: '17:00' }),
+        slot({ meetingId: 'm-3', scheduledDate: new Date('2026-11-04T00:00:00.000Z') }),
+      ],
+    );
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      type: 'overlap',
+      severity: 'block',
+      instructorId: 'inst-1',
+      date: '2026-11-03',
+      meetings: [
+        { meetingId: null, startTime: '16:00', endTime: '17:00' },
+        { meetingId: 'm-1', cycleName: 'פייתון ב', startTime: '16:30', endTime: '17:30' },
+      ],
+    });
+  });
+
+  it('warns when back-to-back frontal meetings in different locations leave too little travel time', () => {
+    const conflicts = findInstructorConflicts(
+      [slot({ start: '16:00', end: '17:00', location: 'חיפה' })],
+      [
+        slot({ meetingId: 'm-1', start: '17:15', end: '18:15', location: 'עכו' }),
+        slot({ meetingId: 'm-2', start: '14:00', end: '15:45', location: ' חיפה ' }),
+      ],
+      45,
+    );
+
+    expect(conflicts).toEqual([expect.objectContaining({
+      type: 'travel_gap',
+      severity: 'warn',
+      gapMinutes: 15,
+      meetings: [
+        expect.objectContaining({ startTime: '16:00', location: 'חיפה' }),
+        expect.objectContaining({ meetingId: 'm-1', location: 'עכו' }),
+      ],
+    })]);
+  });
+
+  it('does not require travel time around online meetings or touching meetings at the same place', () => {
+    const conflicts = findInstructorConflicts(
+      [slot({ start: '16:00', end: '17:00' })],
+      [
+        slot({ meetingId: 'm-1', start: '17:00', end: '18:00', activityType: 'online', location: null }),
+        slot({ meetingId: 'm-2', start: '15:00', end: '16:00' }),
+      ],
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('treats an existing meeting with the same id as the one being moved', () => {
+    const conflicts = findInstructorConflicts(
+      [slot({ meetingId: 'm-1', start: '16:30', end: '17:30' })],
+      [slot({ meetingId: 'm-1', start: '16:00', end: '17:00' })],
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('rejects a blocking conflict with 409 unless allowConflicts is set', async () => {
+    prismaMock.meeting.findMany.mockResolvedValue([{
+      id: 'm-9',
+      instructorId: 'inst-1',
+      scheduledDate: new Date('2026-11-03T00:00:00.000Z'),
+      startTime: time('16:30'),
+      endTime: time('17:30'),
+      activityType: null,
+      cycle: { name: 'פייתון ב', location: 'חיפה', activityType: 'frontal' },
+    }]);
+
+    await expect(checkInstructorConflicts([slot({ meetingId: 'm-1' })])).rejects.toMatchObject({
+      statusCode: 409,
+      data: { code: 'INSTRUCTOR_CONFLICT', conflicts: [expect.objectContaining({ type: 'overlap' })] },
+    });
+    expect(prismaMock.meeting.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        instructorId: { in: ['inst-1'] },
+        id: { notIn: ['m-1'] },
+        status: { notIn: ['cancelled', 'postponed'] },
+      }),
+    }));
+
+    const allowed = await checkInstructorConflicts([slot({ meetingId: 'm-1' })], true);
+    expect(allowed).toHaveLength(1);
+  });
+});
@@ -217,6 +217,25 @@ describe('operations control alert rules', () => {
     });
   });
 
+  it('creates an urgent instructor-conflict alert for overlapping upcoming meetings', () => {
+    const alerts = __operationsControlTestUtils.buildInstructorConflictAlerts(
+      [
+        { ...meeting({ id: 'meeting-1', startTime: '16:00', endTime: '17:00' }), instructorId: 'instructor-1' },
+        { ...meeting({ id: 'meeting-2', startTime: '16:30', endTime: '17:30' }), instructorId: 'instructor-1' },
+        { ...meeting({ id: 'meeting-3', startTime: '16:00', endTime: '17:00' }), instructorId: 'instructor-2' },
+      ],
+      detectedAt,
+    );
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      id: 'instructor-conflict:meeting-1:meeting-2',
+      type: 'instructor_conflict',
+      priority: 'urgent',
+      entityUrl: '/meetings/meeting-1',
+    });
+  });
+
   it('applies saved issue statuses and hides closed alerts', () => {
     const alerts = [
       {
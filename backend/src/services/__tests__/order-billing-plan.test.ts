@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  institutionalOrder: { findUnique: vi.fn() },
+  cycle: { findMany: vi.fn() },
+  billingPeriod: { findMany: vi.fn() },
+  orderBillingPlanMonth: { findMany: vi.fn(), deleteMany: vi.fn(), createMany: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+
+import { buildOrderBillingPlan, getOrderBillingPlan, plannedAmountForRange } from '../order-billing-plan.js';
+
+const meetings = (...dates: string[]) => dates.map((date) => ({ scheduledDate: new Date(date) }));
+
+describe('order billing plan', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.institutionalOrder.findUnique.mockResolvedValue({ id: 'order-1' });
+    prismaMock.$transaction.mockResolvedValue([]);
+  });
+
+  it('projects each month from the scheduled meetings at the billed unit price', async () => {
+    prismaMock.cycle.findMany.mockResolvedValue([
+      { type: 'institutional_fixed', meetingRevenue: 360, pricePerStudent: null, studentCount: null, meetings: meetings('2026-11-02', '2026-11-09', '2026-12-07') },
+      { type: 'institutional_per_child', meetingRevenue: null, pricePerStudent: 25, studentCount: 12, meetings: meetings('2026-11-04') },
+    ]);
+
+    const months = await buildOrderBillingPlan('order-1');
+
+    expect(months).toEqual([
+      { month: new Date('2026-11-01'), expectedMeetings: 3, expectedAmount: 1020 },
+      { month: new Date('2026-12-01'), expectedMeetings: 1, expectedAmount: 360 },
+    ]);
+    expect(prismaMock.orderBillingPlanMonth.deleteMany).toHaveBeenCalledWith({ where: { institutionalOrderId: 'order-1' } });
+    expect(prismaMock.orderBillingPlanMonth.createMany).toHaveBeenCalledWith({
+      data: months.map((month) => ({ institutionalOrderId: 'order-1', ...month })),
+    });
+  });
+
+  it('sums the planned months inside a billing range, or null for an unplanned order', async () => {
+    prismaMock.orderBillingPlanMonth.findMany.mockResolvedValueOnce([]);
+    expect(await plannedAmountForRange('order-1', new Date('2026-11-01'), new Date('2026-11-01'))).toBeNull();
+
+    prismaMock.orderBillingPlanMonth.findMany.mockResolvedValueOnce([
+      { month: new Date('2026-11-01'), expectedAmount: 1020 },
+      { month: new Date('2026-12-01'), expectedAmount: 360 },
+      { month: new Date('2027-01-01'), expectedAmount: 720 },
+    ]);
+    expect(await plannedAmountForRange('order-1', new Date('2026-11-01'), new Date('2026-12-01'))).toBe(1380);
+  });
+
+  it('reports the variance of each billing period against its planned amount', async () => {
+    prismaMock.orderBillingPlanMonth.findMany.mockResolvedValue([
+      { month: new Date('2026-11-01'), expectedMeetings: 3, expectedAmount: 1080 },
+    ]);
+    prismaMock.billingPeriod.findMany.mockResolvedValue([
+      { id: 'p-1', monthStart: new Date('2026-11-01'), monthEnd: new Date('2026-11-01'), status: 'draft', totalAmount: 720, plannedAmount: 1080 },
+      { id: 'p-0', monthStart: new Date('2026-10-01'), monthEnd: new Date('2026-10-01'), status: 'issued', totalAmount: 100, plannedAmount: null },
+    ]);
+
+    const plan = await getOrderBillingPlan('order-1');
+
+    expect(plan.plannedTotal).toBe(1080);
+    expect(plan.billedTotal).toBe(820);
+    expect(plan.periods.map((period) => period.variance)).toEqual([-360, null]);
+  });
+});
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  institutionalOrder: { findUnique: vi.fn(), update: vi.fn() },
+  cycle: { findMany: vi.fn() },
+  billingPeriod: { aggregate: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../operations-notifications.js', () => ({
+  sendOperationsWhatsApp: vi.fn().mockResolvedValue([{ success: true }]),
+}));
+
+import { checkOrderBudgetAlerts, getOrderBudgetConsumption } from '../order-budget.js';
+import { sendOperationsWhatsApp } from '../operations-notifications.js';
+
+const NOW = new Date('2026-10-20T06:00:00.000Z');
+
+const completed = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ status: 'completed', scheduledDate: new Date(Date.UTC(2026, 8, 1 + i * 7)) }));
+const scheduled = (...dates: string[]) => dates.map((date) => ({ status: 'scheduled', scheduledDate: new Date(date) }));
+
+function mockOrder(overrides: Record<string, unknown> = {}) {
+  prismaMock.institutionalOrder.findUnique.mockResolvedValue({
+    id: 'order-1',
+    orderName: 'אורט — רובוטיקה',
+    orderNumber: null,
+    estimatedTotal: 3600,
+    estimatedMeetings: 10,
+    totalAmount: null,
+    pricePerMeeting: 360,
+    budgetAlert80SentAt: null,
+    budgetAlert100SentAt: null,
+    budgetOverrunAlertSentAt: null,
+    ...overrides,
+  });
+}
+
+function mockMeetings(meetings: { status: string; scheduledDate: Date }[], billed: number) {
+  prismaMock.cycle.findMany.mockResolvedValue([
+    { type: 'institutional_fixed', meetingRevenue: 360, pricePerStudent: null, studentCount: null, meetings },
+  ]);
+  prismaMock.billingPeriod.aggregate.mockResolvedValue({ _sum: { totalAmount: billed } });
+}
+
+describe('order budget', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.institutionalOrder.update.mockResolvedValue({});
+  });
+
+  it('measures consumption by what was taught when billing trails it and projects where the schedule runs out', async () => {
+    mockOrder();
+    mockMeetings([...completed(7), ...scheduled('2026-10-26', '2026-11-02', '2026-11-09', '2026-11-16', '2026-11-23')], 2160);
+
+    const consumption = await getOrderBudgetConsumption('order-1', NOW);
+
+    expect(consumption).toMatchObject({
+      heldMeetings: 7,
+      heldAmount: 2520,
+      billedAmount: 2160,
+      consumedAmount: 2520,
+      remainingBudget: 1080,
+      remainingMeetings: 3,
+      consumedPercent: 70,
+      scheduledMeetings: 5,
+      projectedAmount: 4320,
+      projectedExhaustionDate: '2026-11-09',
+      unfundedMeetings: 2,
+      overrunAmount: 720,
+      level: 'ok',
+    });
+  });
+
+  it('sends the 80% and overrun alerts once and marks them', async () => {
+    mockOrder();
+    mockMeetings([...completed(8), ...scheduled('2026-10-26', '2026-11-02', '2026-11-09')], 2880);
+
+    const sent = await checkOrderBudgetAlerts('order-1', NOW);
+
+    expect(sent).toEqual(['80', 'overrun']);
+    expect(sendOperationsWhatsApp).toHaveBeenCalledTimes(2);
+    expect(prismaMock.institutionalOrder.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { budgetAlert80SentAt: NOW },
+    });
+    expect(prismaMock.institutionalOrder.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { budgetOverrunAlertSentAt: NOW },
+    });
+
+    vi.clearAllMocks();
+    mockOrder({ budgetAlert80SentAt: NOW, budgetOverrunAlertSentAt: NOW });
+    expect(await checkOrderBudgetAlerts('order-1', NOW)).toEqual([]);
+    expect(sendOperationsWhatsApp).not.toHaveBeenCalled();
+  });
+
+  it('jumps straight to the 100% alert and leaves it unmarked when every send fails', async () => {
+    mockOrder();
+    mockMeetings(completed(10), 3600);
+    vi.mocked(sendOperationsWhatsApp).mockResolvedValueOnce([{ success: false, error: 'offline' }]);
+
+    expect(await checkOrderBudgetAlerts('order-1', NOW)).toEqual([]);
+    expect(prismaMock.institutionalOrder.update).not.toHaveBeenCalled();
+
+    expect(await checkOrderBudgetAlerts('order-1', NOW)).toEqual(['100']);
+    expect(prismaMock.institutionalOrder.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: { budgetAlert100SentAt: NOW, budgetAlert80SentAt: NOW },
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  registration: { findMany: vi.fn(), findFirst: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
+  payment: { findMany: vi.fn(), findFirst: vi.fn() },
+  paymentLink: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn() },
+  customer: { findUnique: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../../utils/recalcMeetingRevenue.js', () => ({ recalcMeetingRevenue: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../morning/payment-forms.js', () => ({ createPaymentForm: vi.fn() }));
+vi.mock('../payment-links.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../payment-links.js')>()),
+  ensureMorningClientId: vi.fn().mockResolvedValue('morning-client-1'),
+  generateUniqueShortCode: vi.fn().mockResolvedValue('pay23'),
+}));
+
+import { createRegistrationPaymentLink, getParentBilling, reconcileRegistrationBalance } from '../parent-billing.js';
+import { createPaymentForm } from '../morning/payment-forms.js';
+import { recalcMeetingRevenue } from '../../utils/recalcMeetingRevenue.js';
+
+function registration(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'reg-1',
+    status: 'active',
+    registrationDate: new Date('2026-09-01T00:00:00.000Z'),
+    amount: '900',
+    paymentStatus: 'partial',
+    paymentMethod: null,
+    invoiceLink: 'https://morning.example/inv-1',
+    creditInvoiceLink: null,
+    refundAmount: null,
+    student: { id: 'st-1', name: 'נועה' },
+    cycle: { id: 'cycle-1', name: 'רובלוקס א', type: 'private', defaultRegistrationAmount: null, course: { name: 'רובלוקס' } },
+    payments: [{ id: 'pay-1', amount: 300, paidAt: new Date(), invoiceUrl: 'https://morning.example/rcpt-1', invoiceNumber: '1001' }],
+    ...overrides,
+  };
+}
+
+describe('parent billing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.payment.findMany.mockResolvedValue([]);
+    prismaMock.payment.findFirst.mockResolvedValue(null);
+    prismaMock.paymentLink.findFirst.mockResolvedValue(null);
+    prismaMock.customer.findUnique.mockResolvedValue({ id: 'cust-1', name: 'רוני', email: 'roni@example.com', phone: '0527654321' });
+    vi.mocked(createPaymentForm).mockResolvedValue({ success: true, errorCode: 0, url: 'https://pay.example/form' });
+  });
+
+  it('lists each enrollment with its outstanding balance and invoices', async () => {
+    prismaMock.registration.findMany.mockResolvedValue([
+      registration(),
+      registration({
+        id: 'reg-2',
+        amount: null,
+        paymentStatus: null,
+        paymentMethod: 'institutional',
+        payments: [],
+        cycle: { id: 'cycle-2', name: 'בית ספר', type: 'institutional_per_child', defaultRegistrationAmount: '500', course: { name: 'פייתון' } },
+      }),
+    ]);
+    prismaMock.payment.findMany.mockResolvedValue([
+      { id: 'pay-1', description: 'רובלוקס — נועה [doc-1] [payment-link:abc23]', amount: 300, paidAt: new Date(), invoiceUrl: null, invoiceNumber: null, registrationId: 'reg-1' },
+    ]);
+
+    const billing = await getParentBilling('cust-1');
+
+    expect(billing.registrations[0]).toMatchObject({
+      registrationId: 'reg-1',
+      amount: 900,
+      paid: 300,
+      balance: 600,
+      invoiceLink: 'https://morning.example/inv-1',
+      canPayNow: true,
+    });
+    expect(billing.registrations[1]).toMatchObject({ paidByInstitution: true, balance: 0, canPayNow: false });
+    expect(billing.payments[0].description).toBe('רובלוקס — נועה');
+    expect(billing.totals).toEqual({ amount: 900, paid: 300, balance: 600 });
+  });
+
+  it('issues a Morning payment link for the outstanding balance tied to the enrollment', async () => {
+    prismaMock.registration.findFirst.mockResolvedValue(registration());
+
+    const link = await createRegistrationPaymentLink('cust-1', 'reg-1', 'https://crm.example');
+
+    expect(createPaymentForm).toHaveBeenCalledWith(expect.objectContaining({
+      amount: 600,
+      client: expect.objectContaining({ id: 'morning-client-1' }),
+      notifyUrl: 'https://crm.example/api/morning-webhook?paymentLinkCode=pay23',
+    }));
+    expect(prismaMock.paymentLink.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ code: 'pay23', amount: 600, customerId: 'cust-1', registrationId: 'reg-1' }),
+    });
+    expect(link).toEqual({ code: 'pay23', shortUrl: 'https://crm.example/pl/pay23', amount: 600 });
+  });
+
+  it('reuses a recent unpaid link for the same balance', async () => {
+    prismaMock.registration.findFirst.mockResolvedValue(registration());
+    prismaMock.paymentLink.findFirst.mockResolvedValue({ code: 'old45' });
+
+    const link = await createRegistrationPaymentLink('cust-1', 'reg-1', 'https://crm.example');
+
+    expect(link.shortUrl).toBe('https://crm.example/pl/old45');
+    expect(createPaymentForm).not.toHaveBeenCalled();
+    expect(prismaMock.paymentLink.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses to charge an enrollment with nothing to pay', async () => {
+    prismaMock.registration.findFirst.mockResolvedValue(registration({ paymentStatus: 'paid' }));
+
+    await expect(createRegistrationPaymentLink('cust-1', 'reg-1', 'https://crm.example'))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(createPaymentForm).not.toHaveBeenCalled();
+  });
+
+  it('does not offer to pay an enrollment the office marked partial without a linked payment', async () => {
+    prismaMock.registration.findMany.mockResolvedValue([registration({ payments: [] })]);
+
+    const billing = await getParentBilling('cust-1');
+
+    expect(billing.registrations[0]).toMatchObject({ awaitingReconciliation: true, canPayNow: false });
+
+    prismaMock.registration.findFirst.mockResolvedValue(registration({ payments: [] }));
+    await expect(createRegistrationPaymentLink('cust-1', 'reg-1', 'https://crm.example'))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(createPaymentForm).not.toHaveBeenCalled();
+  });
+
+  it('marks the enrollment paid once its payments cover the amount', async () => {
+    prismaMock.registration.findUnique.mockResolvedValue(registration({
+      payments: [
+        { id: 'pay-1', amount: 300, paidAt: new Date(), invoiceUrl: null, invoiceNumber: null },
+        { id: 'pay-2', amount: 600, paidAt: new Date(), invoiceUrl: null, invoiceNumber: null },
+      ],
+    }));
+
+    await expect(reconcileRegistrationBalance('reg-1')).resolves.toBe('paid');
+
+    expect(prismaMock.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: { amount: 900, paymentStatus: 'paid', paymentMethod: 'credit' },
+    });
+    expect(recalcMeetingRevenue).toHaveBeenCalledWith('cycle-1');
+  });
+});
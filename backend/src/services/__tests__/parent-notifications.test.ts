@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  parentNotification: {
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  parentPushSubscription: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  registration: {
+    findMany: vi.fn(),
+  },
+  cycle: {
+    findUnique: vi.fn(),
+  },
+}));
+
+const sendNotification = vi.hoisted(() => vi.fn());
+const subscribeDomainEvents = vi.hoisted(() => vi.fn());
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('web-push', () => ({ default: { sendNotification } }));
+vi.mock('../domain-events.js', () => ({ subscribeDomainEvents }));
+
+import {
+  createParentNotification,
+  notifyCycleParents,
+  initParentNotificationSubscribers,
+} from '../parent-notifications.js';
+
+function subscription(id: string) {
+  return { id, customerId: 'cust-1', endpoint: `https://push.example/${id}`, p256dh: 'p256dh', auth: 'auth' };
+}
+
+describe('parent notifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.VAPID_PUBLIC_KEY = 'public-key';
+    process.env.VAPID_PRIVATE_KEY = 'private-key';
+    prismaMock.parentNotification.create.mockImplementation(({ data }) => Promise.resolve({ id: 'n-1', ...data }));
+    prismaMock.parentPushSubscription.findMany.mockResolvedValue([]);
+    prismaMock.parentPushSubscription.delete.mockResolvedValue({});
+    sendNotification.mockResolvedValue({ statusCode: 201 });
+  });
+
+  afterEach(() => {
+    delete process.env.VAPID_PUBLIC_KEY;
+    delete process.env.VAPID_PRIVATE_KEY;
+  });
+
+  it('stores the notification and pushes it to every subscription', async () => {
+    prismaMock.parentPushSubscription.findMany.mockResolvedValue([subscription('s1'), subscription('s2')]);
+
+    const notification = await createParentNotification('cust-1', {
+      type: 'payment_due',
+      title: 'בקשת תשלום חדשה',
+      body: 'קורס רובלוקס — ₪450',
+      data: { code: 'abc' },
+    });
+
+    expect(notification).toMatchObject({ id: 'n-1', customerId: 'cust-1', type: 'payment_due' });
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    const [target, payload, options] = sendNotification.mock.calls[0];
+    expect(target).toEqual({ endpoint: 'https://push.example/s1', keys: { p256dh: 'p256dh', auth: 'auth' } });
+    expect(JSON.parse(payload)).toMatchObject({ id: 'n-1', type: 'payment_due', data: { code: 'abc' } });
+    expect(options.vapidDetails).toMatchObject({ publicKey: 'public-key', privateKey: 'private-key' });
+    expect(prismaMock.parentNotification.update).toHaveBeenCalledWith({
+      where: { id: 'n-1' },
+      data: { pushedAt: expect.any(Date) },
+    });
+  });
+
+  it('removes subscriptions the push service reports as gone', async () => {
+    prismaMock.parentPushSubscription.findMany.mockResolvedValue([subscription('s1'), subscription('s2')]);
+    sendNotification
+      .mockRejectedValueOnce(Object.assign(new Error('Gone'), { statusCode: 410 }))
+      .mockResolvedValueOnce({ statusCode: 201 });
+
+    await createParentNotification('cust-1', { type: 'lesson_reminder', title: 't', body: 'b' });
+
+    expect(prismaMock.parentPushSubscription.delete).toHaveBeenCalledWith({ where: { id: 's1' } });
+    expect(prismaMock.parentPushSubscription.update).toHaveBeenCalledWith({
+      where: { id: 's2' },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+  });
+
+  it('stores without pushing when VAPID keys are not configured', async () => {
+    delete process.env.VAPID_PRIVATE_KEY;
+
+    const notification = await createParentNotification('cust-1', { type: 'lesson_reminder', title: 't', body: 'b' });
+
+    expect(notification).not.toBeNull();
+    expect(prismaMock.parentPushSubscription.findMany).not.toHaveBeenCalled();
+    expect(prismaMock.parentNotification.update).not.toHaveBeenCalled();
+  });
+
+  it('never throws when the notification cannot be stored', async () => {
+    prismaMock.parentNotification.create.mockRejectedValue(new Error('db down'));
+
+    await expect(createParentNotification('cust-1', { type: 'lesson_reminder', title: 't', body: 'b' })).resolves.toBeNull();
+  });
+
+  it('sends one notification per parent of a cycle, naming all their children', async () => {
+    prismaMock.registration.findMany.mockResolvedValue([
+      { student: { id: 'st-1', name: 'נועה', customerId: 'cust-1' } },
+      { student: { id: 'st-2', name: 'איתי', customerId: 'cust-1' } },
+      { student: { id: 'st-3', name: 'יואב', customerId: 'cust-2' } },
+    ]);
+
+    const created = await notifyCycleParents('cycle-1', {
+      type: 'replacement_scheduled',
+      title: 'נקבע שיעור חלופי',
+      body: 'שיעור חלופי ב-5.1.2027',
+      meetingId: 'm-1',
+    });
+
+    expect(created).toBe(2);
+    expect(prismaMock.registration.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { cycleId: 'cycle-1', status: { in: ['registered', 'active', 'trial'] } },
+    }));
+    expect(prismaMock.parentNotification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        customerId: 'cust-1',
+        cycleId: 'cycle-1',
+        meetingId: 'm-1',
+        studentId: null,
+        body: 'שיעור חלופי ב-5.1.2027 (נועה, איתי)',
+        data: { studentIds: ['st-1', 'st-2'] },
+      }),
+    });
+    expect(prismaMock.parentNotification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ customerId: 'cust-2', studentId: 'st-3' }),
+    });
+  });
+
+  it('turns meeting cancellations into parent notifications', async () => {
+    initParentNotificationSubscribers();
+    const handler = subscribeDomainEvents.mock.calls[0][0];
+    prismaMock.cycle.findUnique.mockResolvedValue({ name: 'רובלוקס א' });
+    prismaMock.registration.findMany.mockResolvedValue([{ student: { id: 'st-1', name: 'נועה', customerId: 'cust-1' } }]);
+
+    await handler('meeting.updated', { id: 'm-1', cycleId: 'cycle-1', status: 'cancelled' });
+    expect(prismaMock.parentNotification.create).not.toHaveBeenCalled();
+
+    await handler('meeting.cancelled', { id: 'm-1', cycleId: 'cycle-1', scheduledDate: new Date('2026-11-10T00:00:00.000Z') });
+
+    expect(prismaMock.parentNotification.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'meeting_cancelled',
+        meetingId: 'm-1',
+        body: expect.stringContaining('רובלוקס א'),
+      }),
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  registration: { findFirst: vi.fn(), update: vi.fn() },
+  meeting: { findFirst: vi.fn(), findUnique: vi.fn(), findMany: vi.fn() },
+  parentRequest: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  cancellationRequest: { create: vi.fn(), update: vi.fn() },
+  attendance: { upsert: vi.fn() },
+  meetingMakeupAttendee: { upsert: vi.fn() },
+  task: { create: vi.fn(), update: vi.fn() },
+  user: { findFirst: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../../utils/audit.js', () => ({ logAudit: vi.fn() }));
+vi.mock('../../utils/recalcMeetingRevenue.js', () => ({ recalcMeetingRevenue: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../domain-events.js', () => ({ publishDomainEvent: vi.fn() }));
+vi.mock('../parent-notifications.js', () => ({ createParentNotification: vi.fn() }));
+vi.mock('../registration-cancellation.js', () => ({ handleCycleCascadeOnCancellation: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../notifications.js', () => ({ sendWhatsAppMessage: vi.fn().mockResolvedValue(true) }));
+
+import {
+  createAbsenceRequest,
+  createCancellationRequest,
+  createMakeupRequest,
+  reviewParentRequest,
+} from '../parent-requests.js';
+import { createParentNotification } from '../parent-notifications.js';
+import { handleCycleCascadeOnCancellation } from '../registration-cancellation.js';
+import { publishDomainEvent } from '../domain-events.js';
+
+const registration = {
+  id: 'reg-1',
+  cycleId: 'cycle-1',
+  status: 'active',
+  student: { id: 'st-1', name: 'נועה', customer: { id: 'cust-1', name: 'רוני', phone: '0527654321' } },
+  cycle: { id: 'cycle-1', name: 'רובלוקס א', courseId: 'course-1', course: { name: 'רובלוקס' } },
+};
+
+function future(days: number) {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+}
+
+function pending(overrides: Record<string, unknown>) {
+  return {
+    id: 'req-1',
+    status: 'pending',
+    customerId: 'cust-1',
+    studentId: 'st-1',
+    registrationId: 'reg-1',
+    meetingId: null,
+    makeupMeetingId: null,
+    cancellationRequestId: null,
+    previousRegistrationStatus: null,
+    reason: null,
+    taskId: 'task-1',
+    registration: { cycleId: 'cycle-1', student: { id: 'st-1', name: 'נועה' }, cycle: { id: 'cycle-1', name: 'רובלוקס א' } },
+    ...overrides,
+  };
+}
+
+describe('parent requests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.registration.findFirst.mockResolvedValue(registration);
+    prismaMock.parentRequest.findFirst.mockResolvedValue(null);
+    prismaMock.user.findFirst.mockResolvedValue({ id: 'admin-1' });
+    prismaMock.$transaction.mockImplementation((fn) => fn(prismaMock));
+    prismaMock.task.create.mockResolvedValue({ id: 'task-1' });
+    prismaMock.parentRequest.create.mockImplementation(({ data }) => Promise.resolve({ id: 'req-1', status: 'pending', ...data }));
+    prismaMock.parentRequest.update.mockImplementation(({ data }) => Promise.resolve({ id: 'req-1', ...data }));
+    prismaMock.parentRequest.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('opens a task on the board for a reported absence', async () => {
+    prismaMock.meeting.findFirst.mockResolvedValue({
+      id: 'm-1',
+      status: 'scheduled',
+      scheduledDate: future(3),
+      startTime: new Date('1970-01-01T16:00:00.000Z'),
+    });
+
+    const request = await createAbsenceRequest('cust-1', { registrationId: 'reg-1', meetingId: 'm-1', reason: 'טיול משפחתי' });
+
+    expect(prismaMock.registration.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'reg-1', deletedAt: null, student: { customerId: 'cust-1' } },
+    }));
+    expect(prismaMock.task.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        title: 'דיווח היעדרות: נועה — רובלוקס א',
+        description: expect.stringContaining('סיבה: טיול משפחתי'),
+        createdById: 'admin-1',
+        dueDate: future(3),
+      }),
+    });
+    expect(request).toMatchObject({ type: 'absence', meetingId: 'm-1', customerId: 'cust-1', registrationId: 'reg-1', taskId: 'task-1' });
+  });
+
+  it('rejects an absence for a meeting that already took place', async () => {
+    prismaMock.meeting.findFirst.mockResolvedValue({ id: 'm-1', status: 'completed', scheduledDate: future(-2) });
+
+    await expect(createAbsenceRequest('cust-1', { registrationId: 'reg-1', meetingId: 'm-1' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(prismaMock.task.create).not.toHaveBeenCalled();
+  });
+
+  it('only offers make-ups in another cycle of the same course', async () => {
+    prismaMock.meeting.findFirst.mockResolvedValue({
+      id: 'm-9',
+      cycleId: 'cycle-9',
+      status: 'scheduled',
+      scheduledDate: future(5),
+      startTime: new Date('1970-01-01T16:00:00.000Z'),
+      cycle: { id: 'cycle-9', name: 'פייתון', courseId: 'course-2', status: 'active', deletedAt: null },
+    });
+
+    await expect(createMakeupRequest('cust-1', { registrationId: 'reg-1', makeupMeetingId: 'm-9' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('starts a cancellation like the public form and remembers the previous status', async () => {
+    prismaMock.cancellationRequest.create.mockResolvedValue({ id: 'cr-1' });
+
+    const request = await createCancellationRequest('cust-1', { registrationId: 'reg-1', reason: 'עוברים דירה' });
+
+    expect(prismaMock.cancellationRequest.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ registrationId: 'reg-1', status: 'submitted', reason: 'עוברים דירה', token: expect.any(String) }),
+    });
+    expect(prismaMock.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: expect.objectContaining({ status: 'pending_cancellation', cancellationReason: 'עוברים דירה' }),
+    });
+    expect(prismaMock.task.create).toHaveBeenCalledWith({ data: expect.objectContaining({ priority: 'high' }) });
+    expect(request).toMatchObject({ type: 'cancellation', cancellationRequestId: 'cr-1', previousRegistrationStatus: 'active' });
+  });
+
+  it('refuses a second pending request of the same kind', async () => {
+    prismaMock.parentRequest.findFirst.mockResolvedValue({ id: 'req-0' });
+
+    await expect(createCancellationRequest('cust-1', { registrationId: 'reg-1', reason: 'עוברים דירה' }))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(prismaMock.cancellationRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('marks the child absent, completes the task and tells the parent on approval', async () => {
+    prismaMock.parentRequest.findUnique.mockResolvedValue(pending({ type: 'absence', meetingId: 'm-1' }));
+
+    await reviewParentRequest('req-1', 'approved', 'user-1', 'קיבלנו');
+
+    expect(prismaMock.attendance.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { meetingId_registrationId: { meetingId: 'm-1', registrationId: 'reg-1' } },
+      create: expect.objectContaining({ status: 'absent', studentId: 'st-1', recordedById: 'user-1' }),
+    }));
+    expect(prismaMock.task.update).toHaveBeenCalledWith({
+      where: { id: 'task-1' },
+      data: { status: 'completed', completedAt: expect.any(Date), completedById: 'user-1' },
+    });
+    expect(createParentNotification).toHaveBeenCalledWith('cust-1', expect.objectContaining({
+      type: 'request_update',
+      title: 'דיווח היעדרות אושרה',
+    }));
+  });
+
+  it('cancels the registration with the cycle cascade when a cancellation is approved', async () => {
+    prismaMock.parentRequest.findUnique.mockResolvedValue(pending({ type: 'cancellation', cancellationRequestId: 'cr-1', reason: 'עוברים דירה' }));
+    prismaMock.registration.update.mockResolvedValue({ id: 'reg-1', cycleId: 'cycle-1', status: 'cancelled' });
+
+    await reviewParentRequest('req-1', 'approved', 'user-1');
+
+    expect(prismaMock.registration.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'reg-1' },
+      data: expect.objectContaining({ status: 'cancelled' }),
+    }));
+    expect(prismaMock.cancellationRequest.update).toHaveBeenCalledWith({ where: { id: 'cr-1' }, data: { status: 'processed' } });
+    expect(publishDomainEvent).toHaveBeenCalledWith('registration.cancelled', expect.objectContaining({ id: 'reg-1' }));
+    expect(handleCycleCascadeOnCancellation).toHaveBeenCalledWith('cycle-1');
+  });
+
+  it('restores the registration when a cancellation is rejected', async () => {
+    prismaMock.parentRequest.findUnique.mockResolvedValue(pending({
+      type: 'cancellation',
+      cancellationRequestId: 'cr-1',
+      previousRegistrationStatus: 'trial',
+    }));
+
+    await reviewParentRequest('req-1', 'rejected', 'user-1', 'נשמח לדבר');
+
+    expect(prismaMock.registration.update).toHaveBeenCalledWith({
+      where: { id: 'reg-1' },
+      data: { status: 'trial', cancellationDate: null, cancellationReason: null },
+    });
+    expect(prismaMock.cancellationRequest.update).toHaveBeenCalledWith({ where: { id: 'cr-1' }, data: { status: 'rejected' } });
+    expect(prismaMock.parentRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'req-1', status: 'pending' },
+      data: expect.objectContaining({ status: 'rejected', reviewNotes: 'נשמח לדבר' }),
+    });
+  });
+
+  it('does not review a request twice', async () => {
+    prismaMock.parentRequest.findUnique.mockResolvedValue(pending({ type: 'absence', status: 'approved' }));
+
+    await expect(reviewParentRequest('req-1', 'rejected', 'user-1')).rejects.toMatchObject({ statusCode: 400 });
+    expect(prismaMock.parentRequest.update).not.toHaveBeenCalled();
+  });
+
+  it('applies an approval once when two reviews race past the pending check', async () => {
+    prismaMock.parentRequest.findUnique.mockResolvedValue(pending({ type: 'absence', meetingId: 'm-1' }));
+    prismaMock.parentRequest.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const results = await Promise.allSettled([
+      reviewParentRequest('req-1', 'approved', 'user-1'),
+      reviewParentRequest('req-1', 'approved', 'user-2'),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect(prismaMock.attendance.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('adds the child to the make-up meeting roster when the make-up is approved', async () => {
+    prismaMock.parentRequest.findUnique.mockResolvedValue(pending({ type: 'makeup', meetingId: 'm-1', makeupMeetingId: 'm-9' }));
+    prismaMock.meeting.findUnique.mockResolvedValue({
+      id: 'm-9',
+      status: 'scheduled',
+      scheduledDate: future(3),
+      startTime: new Date('1970-01-01T15:00:00.000Z'),
+      cycle: { name: 'רובלוקס ב' },
+      instructor: { name: 'דני', phone: null },
+    });
+
+    await reviewParentRequest('req-1', 'approved', 'user-1');
+
+    expect(prismaMock.meetingMakeupAttendee.upsert).toHaveBeenCalledWith({
+      where: { meetingId_registrationId: { meetingId: 'm-9', registrationId: 'reg-1' } },
+      create: { meetingId: 'm-9', registrationId: 'reg-1', parentRequestId: 'req-1' },
+      update: {},
+    });
+  });
+
+  it('puts the request back to pending when applying the approval fails', async () => {
+    prismaMock.parentRequest.findUnique.mockResolvedValue(pending({ type: 'makeup', makeupMeetingId: 'm-9' }));
+    prismaMock.meeting.findUnique.mockResolvedValue({ id: 'm-9', status: 'cancelled' });
+
+    await expect(reviewParentRequest('req-1', 'approved', 'user-1')).rejects.toMatchObject({ statusCode: 400 });
+    expect(prismaMock.parentRequest.update).toHaveBeenCalledWith({
+      where: { id: 'req-1' },
+      data: { status: 'pending', reviewedById: null, reviewedAt: null, reviewNotes: null },
+    });
+  });
+
+  it('leaves nothing behind when there is no admin to own the cancellation task', async () => {
+    prismaMock.user.findFirst.mockResolvedValue(null);
+
+    await expect(createCancellationRequest('cust-1', { registrationId: 'reg-1', reason: 'עוברים דירה' }))
+      .rejects.toMatchObject({ statusCode: 500 });
+    expect(prismaMock.cancellationRequest.create).not.toHaveBeenCalled();
+    expect(prismaMock.registration.update).not.toHaveBeenCalled();
+  });
+});
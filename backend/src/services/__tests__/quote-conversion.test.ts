@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  quote: { findUnique: vi.fn(), update: vi.fn() },
+  instructor: { findMany: vi.fn() },
+  branch: { findUnique: vi.fn() },
+  institutionalOrder: { create: vi.fn() },
+  cycle: { create: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../quote-ai.service.js', () => ({ generateQuoteAIContent: vi.fn() }));
+vi.mock('../domain-events.js', () => ({ publishDomainEvent: vi.fn() }));
+vi.mock('../cycle-meetings.js', () => ({ planMeetingsForCycle: vi.fn(), generateMeetingsForCycle: vi.fn() }));
+vi.mock('../instructor-conflicts.js', () => ({ checkInstructorConflicts: vi.fn() }));
+vi.mock('../order-billing-plan.js', () => ({ buildOrderBillingPlan: vi.fn() }));
+
+import { convertToOrder } from '../quotes.service.js';
+import { generateMeetingsForCycle, planMeetingsForCycle } from '../cycle-meetings.js';
+import { checkInstructorConflicts } from '../instructor-conflicts.js';
+import { buildOrderBillingPlan } from '../order-billing-plan.js';
+
+function quoteRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'q-1',
+    quoteNumber: 'QT-2026-001',
+    status: 'accepted',
+    branchId: 'b-1',
+    institutionName: 'בית ספר אורט',
+    contactName: 'דנה',
+    contactPhone: '050-0000000',
+    contactEmail: null,
+    payingBodyName: null,
+    notes: null,
+    includesVat: false,
+    totalAmount: 12000,
+    finalAmount: 10800,
+    items: [
+      { id: 'i-1', courseId: 'c-1', courseName: 'רובוטיקה', groups: 2, meetingsPerGroup: 10, meetingDuration: 90, pricePerMeeting: 400 },
+      { id: 'i-2', courseId: null, courseName: 'AI', groups: 1, meetingsPerGroup: 10, meetingDuration: 90, pricePerMeeting: 400 },
+    ],
+    ...overrides,
+  };
+}
+
+const plan = (overrides: Record<string, unknown> = {}) => ({
+  quoteItemId: 'i-1',
+  instructorId: 'ins-1',
+  dayOfWeek: 'monday' as const,
+  startTime: '16:30',
+  startDate: '2026-11-02',
+  location: 'חיפה',
+  ...overrides,
+});
+
+describe('convertToOrder with cycles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.quote.findUnique.mockResolvedValue(quoteRecord());
+    prismaMock.instructor.findMany.mockResolvedValue([{ id: 'ins-1' }]);
+    prismaMock.branch.findUnique.mockResolvedValue({ type: 'school' });
+    prismaMock.$transaction.mockImplementation((fn: (tx: typeof prismaMock) => unknown) => fn(prismaMock));
+    prismaMock.institutionalOrder.create.mockResolvedValue({ id: 'order-1' });
+    prismaMock.cycle.create.mockImplementation(({ data }) => Promise.resolve({ id: `cycle-${data.name}`, ...data }));
+    prismaMock.quote.update.mockResolvedValue({ id: 'q-1', status: 'converted' });
+    vi.mocked(planMeetingsForCycle).mockResolvedValue([
+      { scheduledDate: new Date('2026-11-02') } as any,
+      { scheduledDate: new Date('2027-01-11') } as any,
+    ]);
+    vi.mocked(checkInstructorConflicts).mockResolvedValue([]);
+    vi.mocked(buildOrderBillingPlan).mockResolvedValue([{ month: new Date('2026-11-01'), expectedMeetings: 4, expectedAmount: 1440 }]);
+  });
+
+  it('creates one fixed-price cycle per group, generates meetings and builds the billing plan', async () => {
+    const result = await convertToOrder('q-1', { cycles: [plan(), plan({ dayOfWeek: 'wednesday' })] });
+
+    expect(prismaMock.cycle.create).toHaveBeenCalledTimes(2);
+    const first = prismaMock.cycle.create.mock.calls[0][0].data;
+    expect(first).toMatchObject({
+      name: 'רובוטיקה — בית ספר אורט (קבוצה 1)',
+      courseId: 'c-1',
+      institutionalOrderId: 'order-1',
+      type: 'institutional_fixed',
+      totalMeetings: 10,
+      durationMinutes: 90,
+      meetingRevenue: 360, // 400 with the quote's 10% discount spread evenly
+      activityType: 'frontal',
+    });
+    expect(first.endTime.toISOString()).toBe('1970-01-01T18:00:00.000Z');
+    expect(first.endDate).toEqual(new Date('2027-01-11'));
+    expect(prismaMock.cycle.create.mock.calls[1][0].data.name).toBe('רובוטיקה — בית ספר אורט (קבוצה 2)');
+
+    expect(prismaMock.institutionalOrder.create.mock.calls[0][0].data).toMatchObject({
+      startDate: new Date('2026-11-02'),
+      endDate: new Date('2027-01-11'),
+    });
+    expect(generateMeetingsForCycle).toHaveBeenCalledTimes(2);
+    expect(buildOrderBillingPlan).toHaveBeenCalledWith('order-1');
+    expect(result.billingPlan).toHaveLength(1);
+    expect(result.setupFailures).toEqual([]);
+  });
+
+  it('keeps the committed order and returns retry paths when meeting generation fails', async () => {
+    vi.mocked(generateMeetingsForCycle).mockRejectedValueOnce(new Error('holiday calendar unavailable'));
+
+    const result = await convertToOrder('q-1', { cycles: [plan(), plan({ dayOfWeek: 'wednesday' })] });
+
+    expect(result.order).toEqual({ id: 'order-1' });
+    expect(generateMeetingsForCycle).toHaveBeenCalledTimes(2);
+    expect(buildOrderBillingPlan).not.toHaveBeenCalled();
+    expect(result.billingPlan).toEqual([]);
+    expect(result.setupFailures).toEqual([
+      {
+        step: 'meetings',
+        cycleId: result.cycles[0].id,
+        retry: `/api/cycles/${result.cycles[0].id}/generate-meetings`,
+        error: 'holiday calendar unavailable',
+      },
+      expect.objectContaining({ step: 'billing_plan', retry: '/api/institutional-orders/order-1/billing-plan/rebuild' }),
+    ]);
+  });
+
+  it('checks the whole schedule for instructor conflicts before writing anything', async () => {
+    vi.mocked(checkInstructorConflicts).mockRejectedValue(new Error('conflict'));
+
+    await expect(convertToOrder('q-1', { cycles: [plan()] })).rejects.toThrow('conflict');
+    expect(vi.mocked(checkInstructorConflicts).mock.calls[0][0]).toHaveLength(2);
+    expect(prismaMock.institutionalOrder.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects more cycles than the item has groups, and items without a course', async () => {
+    await expect(convertToOrder('q-1', { cycles: [plan(), plan(), plan()] })).rejects.toMatchObject({ statusCode: 400 });
+    await expect(convertToOrder('q-1', { cycles: [plan({ quoteItemId: 'i-2' })] })).rejects.toMatchObject({ statusCode: 400 });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('still converts without cycles and leaves the billing plan empty', async () => {
+    const result = await convertToOrder('q-1');
+
+    expect(prismaMock.cycle.create).not.toHaveBeenCalled();
+    expect(buildOrderBillingPlan).not.toHaveBeenCalled();
+    expect(result.billingPlan).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  quote: { updateMany: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../email/sender.js', () => ({ sendEmail: vi.fn().mockResolvedValue({ success: true }) }));
+vi.mock('../notifications.js', () => ({ sendWhatsAppMessage: vi.fn().mockResolvedValue(true) }));
+
+import { assertQuoteSendable, expireOverdueQuotes, sendQuoteExpiryReminders } from '../quote-expiry.js';
+import { sendEmail } from '../email/sender.js';
+import { sendWhatsAppMessage } from '../notifications.js';
+
+// 23:30 UTC on Oct 19 is already Oct 20 in Israel
+const NOW = new Date('2026-10-19T23:30:00.000Z');
+
+function quote(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'q-1',
+    quoteNumber: 'QT-2026-001',
+    institutionName: 'בית ספר אורט',
+    contactName: 'דנה',
+    contactPhone: '050-0000000',
+    contactEmail: 'dana@example.com',
+    finalAmount: 12000,
+    validUntil: new Date('2026-10-22T00:00:00.000Z'),
+    createdBy: { name: 'יוסי', email: 'yossi@hai.tech' },
+    ...overrides,
+  };
+}
+
+describe('quote expiry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.QUOTE_EXPIRY_REMINDER_DAYS;
+    prismaMock.quote.updateMany.mockResolvedValue({ count: 2 });
+    prismaMock.quote.update.mockResolvedValue({});
+  });
+
+  it('expires sent quotes whose last valid day is before the Israel date', async () => {
+    expect(await expireOverdueQuotes(NOW)).toBe(2);
+    expect(prismaMock.quote.updateMany).toHaveBeenCalledWith({
+      where: { status: 'sent', validUntil: { lt: new Date('2026-10-20T00:00:00.000Z') } },
+      data: { status: 'expired' },
+    });
+  });
+
+  it('refuses to send a quote past its last valid day until the date is moved', () => {
+    expect(() => assertQuoteSendable({ validUntil: new Date('2026-10-19T00:00:00.000Z') }, NOW)).toThrow(/תוקף ההצעה עבר/);
+    expect(() => assertQuoteSendable({ validUntil: new Date('2026-10-20T00:00:00.000Z') }, NOW)).not.toThrow();
+    expect(() => assertQuoteSendable({ validUntil: null }, NOW)).not.toThrow();
+  });
+
+  it('reminds the salesperson and the contact once, inside the reminder window', async () => {
+    prismaMock.quote.findMany.mockResolvedValue([quote()]);
+
+    expect(await sendQuoteExpiryReminders(NOW)).toBe(1);
+
+    expect(prismaMock.quote.findMany.mock.calls[0][0].where).toEqual({
+      status: 'sent',
+      expiryReminderSentAt: null,
+      validUntil: { gte: new Date('2026-10-20T00:00:00.000Z'), lte: new Date('2026-10-23T00:00:00.000Z') },
+    });
+    const recipients = vi.mocked(sendEmail).mock.calls.map(([options]) => options.to);
+    expect(recipients).toEqual(['yossi@hai.tech', 'dana@example.com']);
+    expect(vi.mocked(sendEmail).mock.calls[0][0].subject).toContain('בעוד 2 ימים');
+    expect(prismaMock.quote.update).toHaveBeenCalledWith({ where: { id: 'q-1' }, data: { expiryReminderSentAt: NOW } });
+  });
+
+  it('falls back to WhatsApp for a contact without email and keeps going after a failure', async () => {
+    prismaMock.quote.findMany.mockResolvedValue([quote({ id: 'q-1', contactEmail: null }), quote({ id: 'q-2' })]);
+    vi.mocked(sendWhatsAppMessage).mockRejectedValueOnce(new Error('green api down'));
+
+    expect(await sendQuoteExpiryReminders(NOW)).toBe(1);
+    expect(sendWhatsAppMessage).toHaveBeenCalledWith('050-0000000', expect.stringContaining('/public/quote/q-1'));
+    expect(prismaMock.quote.update).toHaveBeenCalledTimes(1);
+    expect(prismaMock.quote.update).toHaveBeenCalledWith({ where: { id: 'q-2' }, data: { expiryReminderSentAt: NOW } });
+  });
+});
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  quote: { findUnique: vi.fn(), update: vi.fn(), findMany: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+
+import { getQuotePipelineReport, recordQuoteViewEvent } from '../quote-pipeline.js';
+
+const NOW = new Date('2026-10-19T10:00:00.000Z');
+
+function pipelineQuote(overrides: Record<string, unknown> = {}) {
+  return {
+    status: 'sent',
+    finalAmount: 1000,
+    clientType: 'institutional',
+    createdAt: new Date('2026-09-01T00:00:00.000Z'),
+    sentAt: null,
+    acceptedAt: null,
+    firstViewedAt: null,
+    videoWatchedAt: null,
+    createdBy: { id: 'u-1', name: 'יוסי' },
+    ...overrides,
+  };
+}
+
+describe('quote view tracking', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('counts views and stamps the first one', async () => {
+    prismaMock.quote.findUnique.mockResolvedValue({ status: 'sent', firstViewedAt: null, videoWatchedAt: null });
+
+    await recordQuoteViewEvent('q-1', 'view', NOW);
+
+    expect(prismaMock.quote.update).toHaveBeenCalledWith({
+      where: { id: 'q-1' },
+      data: { viewCount: { increment: 1 }, lastViewedAt: NOW, firstViewedAt: NOW },
+    });
+  });
+
+  it('records the video once and ignores staff previews of drafts', async () => {
+    prismaMock.quote.findUnique.mockResolvedValueOnce({ status: 'sent', firstViewedAt: NOW, videoWatchedAt: NOW });
+    await recordQuoteViewEvent('q-1', 'video', NOW);
+
+    prismaMock.quote.findUnique.mockResolvedValueOnce({ status: 'draft', firstViewedAt: null, videoWatchedAt: null });
+    await recordQuoteViewEvent('q-1', 'view', NOW);
+
+    expect(prismaMock.quote.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('quote pipeline report', () => {
+  it('computes win rate over decided quotes and days to accept from the first send', async () => {
+    prismaMock.quote.findMany.mockResolvedValue([
+      pipelineQuote({ status: 'accepted', sentAt: new Date('2026-09-01T00:00:00.000Z'), acceptedAt: new Date('2026-09-05T00:00:00.000Z'), firstViewedAt: NOW }),
+      pipelineQuote({ status: 'converted', finalAmount: 3000, acceptedAt: new Date('2026-09-11T00:00:00.000Z') }),
+      pipelineQuote({ status: 'expired', clientType: null, createdBy: { id: 'u-2', name: 'רונית' } }),
+      pipelineQuote({ status: 'sent', createdAt: new Date('2026-10-03T00:00:00.000Z') }),
+    ]);
+
+    const report = await getQuotePipelineReport({ from: new Date('2026-09-01T00:00:00.000Z') });
+
+    expect(prismaMock.quote.findMany.mock.calls[0][0].where).toEqual({ createdAt: { gte: new Date('2026-09-01T00:00:00.000Z') } });
+    expect(report.totals).toMatchObject({ count: 4, amount: 6000, won: 2, wonAmount: 4000, lost: 1, winRate: 66.7, avgDaysToAccept: 7, viewed: 1 });
+    expect(report.bySalesperson.map((b) => [b.label, b.count])).toEqual([['יוסי', 3], ['רונית', 1]]);
+    expect(report.byClientType.map((b) => b.label)).toEqual(['מוסדי', 'לא צוין']);
+    expect(report.byMonth.map((b) => [b.key, b.count, b.winRate])).toEqual([['2026-09', 3, 66.7], ['2026-10', 1, null]]);
+  });
+});
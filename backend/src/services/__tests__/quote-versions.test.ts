@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  quote: { findUnique: vi.fn(), update: vi.fn() },
+  quoteVersion: { findFirst: vi.fn(), create: vi.fn() },
+  quoteSignature: { create: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../google-drive.js', () => ({ renderHtmlToPdf: vi.fn() }));
+vi.mock('../file-attachments.js', () => ({ storeAttachment: vi.fn() }));
+vi.mock('../quotes.service.js', () => ({ publishQuoteAccepted: vi.fn() }));
+
+import { buildQuoteSnapshot, createQuoteVersion, diffQuoteSnapshots, signQuote } from '../quote-versions.js';
+import { renderHtmlToPdf } from '../google-drive.js';
+import { storeAttachment } from '../file-attachments.js';
+import { publishQuoteAccepted } from '../quotes.service.js';
+
+const SIGNATURE = 'data:image/png;base64,iVBORw0KGgo=';
+
+function quoteRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'q-1',
+    quoteNumber: 'QT-2026-001',
+    institutionName: 'בית ספר אורט',
+    contactName: 'דנה',
+    contactRole: 'מנהלת',
+    contactPhone: '050-0000000',
+    contactEmail: 'dana@example.com',
+    payingBodyName: null,
+    includesVat: false,
+    introText: null,
+    aboutText: null,
+    content: null,
+    cancellationTerms: null,
+    paymentTerms: 'שוטף + 30',
+    totalAmount: 12000,
+    discount: 0,
+    finalAmount: 12000,
+    validUntil: null,
+    items: [
+      { id: 'i-1', courseName: 'רובוטיקה', description: null, groups: 2, meetingsPerGroup: 10, meetingDuration: 90, pricePerMeeting: 400, subtotal: 8000, sortOrder: 0 },
+      { id: 'i-2', courseName: 'AI', description: null, groups: 1, meetingsPerGroup: 10, meetingDuration: 90, pricePerMeeting: 400, subtotal: 4000, sortOrder: 1 },
+    ],
+    ...overrides,
+  };
+}
+
+describe('quote versions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.quoteVersion.create.mockImplementation(({ data }) => Promise.resolve({ id: 'v-new', ...data }));
+    prismaMock.$transaction.mockImplementation((ops) => Promise.all(ops));
+  });
+
+  it('snapshots a send as the next version', async () => {
+    prismaMock.quote.findUnique.mockResolvedValue(quoteRecord());
+    prismaMock.quoteVersion.findFirst.mockResolvedValue({ versionNumber: 2, snapshot: { finalAmount: 9000 } });
+
+    const version = await createQuoteVersion('q-1', { sentById: 'u-1', sentTo: 'dana@example.com' });
+
+    expect(version).toMatchObject({ versionNumber: 3, finalAmount: 12000, sentById: 'u-1' });
+  });
+
+  it('reuses the latest version when the quote has not changed since', async () => {
+    const quote = quoteRecord();
+    prismaMock.quote.findUnique.mockResolvedValue(quote);
+    const latest = { id: 'v-2', versionNumber: 2, snapshot: buildQuoteSnapshot(quote as never) };
+    prismaMock.quoteVersion.findFirst.mockResolvedValue(latest);
+
+    expect(await createQuoteVersion('q-1')).toBe(latest);
+    expect(prismaMock.quoteVersion.create).not.toHaveBeenCalled();
+  });
+
+  it('reuses the latest version when the stored snapshot comes back with its keys reordered', async () => {
+    const quote = quoteRecord();
+    prismaMock.quote.findUnique.mockResolvedValue(quote);
+    const reversed = (value: object) => Object.fromEntries(Object.entries(value).reverse());
+    const snapshot = buildQuoteSnapshot(quote as never);
+    const latest = {
+      id: 'v-2',
+      versionNumber: 2,
+      snapshot: reversed({ ...snapshot, items: snapshot.items.map(reversed) }),
+    };
+    prismaMock.quoteVersion.findFirst.mockResolvedValue(latest);
+
+    expect(await createQuoteVersion('q-1')).toBe(latest);
+    expect(prismaMock.quoteVersion.create).not.toHaveBeenCalled();
+  });
+
+  it('diffs fields and items between versions', () => {
+    const before = buildQuoteSnapshot(quoteRecord() as never);
+    const after = buildQuoteSnapshot(quoteRecord({
+      discount: 1000,
+      finalAmount: 11000,
+      items: [
+        { ...quoteRecord().items[0], groups: 3, subtotal: 12000 },
+        { id: 'i-3', courseName: 'סייבר', description: null, groups: 1, meetingsPerGroup: 5, meetingDuration: 90, pricePerMeeting: 400, subtotal: 2000, sortOrder: 2 },
+      ],
+    }) as never);
+
+    const diff = diffQuoteSnapshots(before, after);
+
+    expect(diff.fields.map((f) => f.field)).toEqual(['discount', 'finalAmount']);
+    expect(diff.items).toEqual([
+      expect.objectContaining({ change: 'changed', courseName: 'רובוטיקה', fields: [
+        expect.objectContaining({ field: 'groups', before: 2, after: 3 }),
+        expect.objectContaining({ field: 'subtotal', before: 8000, after: 12000 }),
+      ] }),
+      expect.objectContaining({ change: 'added', courseName: 'סייבר' }),
+      expect.objectContaining({ change: 'removed', courseName: 'AI' }),
+    ]);
+  });
+});
+
+describe('quote signing', () => {
+  const version = { id: 'v-2', versionNumber: 2, snapshot: buildQuoteSnapshot(quoteRecord() as never) };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.quote.findUnique.mockResolvedValue({ id: 'q-1', status: 'sent' });
+    prismaMock.quoteVersion.findFirst.mockResolvedValue(version);
+    prismaMock.quoteSignature.create.mockImplementation(({ data }) => Promise.resolve({ id: 's-1', signedAt: new Date(), ...data }));
+    prismaMock.quote.update.mockResolvedValue({ id: 'q-1', status: 'accepted' });
+    prismaMock.$transaction.mockImplementation((ops) => Promise.all(ops));
+    vi.mocked(renderHtmlToPdf).mockResolvedValue(Buffer.from('%PDF'));
+    vi.mocked(storeAttachment).mockResolvedValue({ id: 'f-1' } as never);
+  });
+
+  it('records the signature on the viewed version and attaches the signed PDF', async () => {
+    const result = await signQuote('q-1', {
+      versionNumber: 2,
+      signerName: 'דנה כהן',
+      signerRole: 'מנהלת',
+      signature: SIGNATURE,
+      ipAddress: '1.2.3.4',
+    });
+
+    expect(prismaMock.quoteSignature.create).toHaveBeenCalledWith({ data: expect.objectContaining({
+      quoteId: 'q-1', versionId: 'v-2', signerName: 'דנה כהן', signature: SIGNATURE, ipAddress: '1.2.3.4',
+    }) });
+    expect(prismaMock.quote.update).toHaveBeenCalledWith({ where: { id: 'q-1' }, data: { status: 'accepted', acceptedAt: expect.any(Date) } });
+    expect(publishQuoteAccepted).toHaveBeenCalledWith({ id: 'q-1', status: 'accepted' }, 'public_link');
+    expect(storeAttachment).toHaveBeenCalledWith(expect.objectContaining({ entityType: 'quote', entityId: 'q-1', label: 'הצעה חתומה' }));
+    expect(result.signature.fileAttachmentId).toBe('f-1');
+  });
+
+  it('refuses to sign when the quote was re-sent since the client opened it', async () => {
+    await expect(signQuote('q-1', { versionNumber: 1, signerName: 'דנה', signature: SIGNATURE }))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(prismaMock.quoteSignature.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a signature that is not a PNG data URL', async () => {
+    await expect(signQuote('q-1', { versionNumber: 2, signerName: 'דנה', signature: 'דנה' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('keeps the signature when the PDF cannot be rendered', async () => {
+    vi.mocked(renderHtmlToPdf).mockRejectedValue(new Error('drive down'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await signQuote('q-1', { versionNumber: 2, signerName: 'דנה', signature: SIGNATURE });
+
+    expect(result.signature).toMatchObject({ id: 's-1' });
+    expect(prismaMock.quoteSignature.update).not.toHaveBeenCalled();
+  });
+});
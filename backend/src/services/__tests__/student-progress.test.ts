@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  meeting: { findFirst: vi.fn() },
+  courseSkill: { findMany: vi.fn() },
+  registration: { findMany: vi.fn(), findUnique: vi.fn(), findFirst: vi.fn() },
+  instructor: { findUnique: vi.fn() },
+  attendance: { findMany: vi.fn() },
+  studentSkillRating: { findMany: vi.fn(), upsert: vi.fn(), deleteMany: vi.fn() },
+  studentReportCard: { findUnique: vi.fn(), upsert: vi.fn(), update: vi.fn() },
+  customer: { findUnique: vi.fn() },
+  fileAttachment: { findUnique: vi.fn() },
+}));
+
+const renderHtmlToPdf = vi.hoisted(() => vi.fn());
+const storeAttachment = vi.hoisted(() => vi.fn());
+const deleteAttachment = vi.hoisted(() => vi.fn());
+const sendEmail = vi.hoisted(() => vi.fn());
+const createParentNotification = vi.hoisted(() => vi.fn());
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../google-drive.js', () => ({ renderHtmlToPdf }));
+vi.mock('../file-attachments.js', () => ({ storeAttachment, deleteAttachment }));
+vi.mock('../email/sender.js', () => ({ sendEmail }));
+vi.mock('../parent-notifications.js', () => ({ createParentNotification }));
+
+import {
+  assertCanViewStudentProgress,
+  generateReportCard,
+  renderReportCardHtml,
+  saveMeetingRatings,
+  summarizeSkills,
+} from '../student-progress.js';
+
+const SKILLS = [
+  { id: 'sk-loops', name: 'לולאות', kind: 'skill' as const },
+  { id: 'ms-game', name: 'בניית משחק', kind: 'milestone' as const },
+];
+const on = (date: string) => ({ meeting: { scheduledDate: new Date(date) } });
+
+function mockReportCardRegistration() {
+  prismaMock.registration.findUnique.mockResolvedValue({
+    studentId: 's-1',
+    cycleId: 'cy-1',
+    student: { name: 'נועה', customerId: 'c-1' },
+    cycle: {
+      name: 'פייתון א',
+      startDate: new Date('2026-03-01'),
+      endDate: new Date('2026-06-30'),
+      course: { id: 'co-1', name: 'פייתון' },
+      instructor: { name: 'דני' },
+      branch: { name: 'חיפה' },
+      meetings: [{ id: 'm-1' }],
+    },
+  });
+}
+
+describe('student progress', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.meeting.findFirst.mockResolvedValue({
+      id: 'm-1', cycleId: 'cy-1', instructorId: 'i-1', cycle: { id: 'cy-1', name: 'פייתון', courseId: 'co-1' },
+    });
+    prismaMock.courseSkill.findMany.mockResolvedValue(SKILLS);
+    prismaMock.registration.findMany.mockResolvedValue([{ studentId: 's-1' }]);
+    prismaMock.studentSkillRating.findMany.mockResolvedValue([]);
+    prismaMock.$transaction.mockResolvedValue([]);
+  });
+
+  it('summarizes ratings per skill in meeting order', () => {
+    const [loops, game] = summarizeSkills(SKILLS, [
+      { skillId: 'sk-loops', score: 4, ...on('2026-03-10') },
+      { skillId: 'sk-loops', score: 2, ...on('2026-03-03') },
+      { skillId: 'sk-loops', score: 3, ...on('2026-03-17') },
+      { skillId: 'ms-game', score: 1, ...on('2026-03-17') },
+    ]);
+
+    expect(loops).toMatchObject({ ratings: 3, firstScore: 2, latestScore: 3, average: 3, achievedAt: null });
+    expect(game).toMatchObject({ kind: 'milestone', achievedAt: '2026-03-17' });
+  });
+
+  it('validates ratings against the course skills and the cycle roster', async () => {
+    await expect(saveMeetingRatings('m-1', [{ studentId: 's-1', skillId: 'sk-other', score: 3 }], 'u-1'))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(saveMeetingRatings('m-1', [{ studentId: 's-9', skillId: 'sk-loops', score: 3 }], 'u-1'))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(saveMeetingRatings('m-1', [{ studentId: 's-1', skillId: 'sk-loops', score: 6 }], 'u-1'))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+
+    await saveMeetingRatings('m-1', [
+      { studentId: 's-1', skillId: 'sk-loops', score: 4, note: 'מצוין' },
+      { studentId: 's-1', skillId: 'ms-game', score: 0 },
+    ], 'u-1');
+
+    expect(prismaMock.studentSkillRating.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { meetingId_studentId_skillId: { meetingId: 'm-1', studentId: 's-1', skillId: 'sk-loops' } },
+      update: { score: 4, note: 'מצוין', ratedById: 'u-1' },
+    }));
+    expect(prismaMock.studentSkillRating.deleteMany).toHaveBeenCalledWith({
+      where: { meetingId: 'm-1', studentId: 's-1', skillId: 'ms-game' },
+    });
+  });
+
+  it('lets instructors see progress only for students in cycles they teach', async () => {
+    prismaMock.instructor.findUnique.mockResolvedValue({ id: 'i-1' });
+    prismaMock.registration.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'r-1' });
+
+    await expect(assertCanViewStudentProgress('s-9', { userId: 'u-1', role: 'instructor' }))
+      .rejects.toMatchObject({ statusCode: 403 });
+    await expect(assertCanViewStudentProgress('s-1', { userId: 'u-1', role: 'instructor' })).resolves.toBeUndefined();
+    await expect(assertCanViewStudentProgress('s-9', { userId: 'u-2', role: 'admin' })).resolves.toBeUndefined();
+    expect(prismaMock.registration.findFirst).toHaveBeenCalledTimes(2);
+  });
+
+  it('renders an escaped RTL report card', () => {
+    const html = renderReportCardHtml({
+      studentName: 'נועה <b>',
+      cycleName: 'פייתון א',
+      courseName: 'פייתון',
+      instructorName: 'דני',
+      branchName: 'חיפה',
+      startDate: '1.3.2026',
+      endDate: '30.6.2026',
+      attendance: { present: 9, late: 1, absent: 2, total: 12, rate: 83 },
+      skills: summarizeSkills([SKILLS[0]], [{ skillId: 'sk-loops', score: 2, ...on('2026-03-03') }, { skillId: 'sk-loops', score: 4, ...on('2026-06-30') }]),
+      milestones: [],
+      notes: [],
+    });
+
+    expect(html).toContain('dir="rtl"');
+    expect(html).toContain('נועה &lt;b&gt;');
+    expect(html).toContain('10 מתוך 12 מפגשים (83%)');
+    expect(html).toContain('שיפור מ-2 ל-4');
+  });
+
+  it('still records and sends the report card when the PDF cannot be rendered', async () => {
+    mockReportCardRegistration();
+    prismaMock.attendance.findMany.mockResolvedValue([{ status: 'present' }]);
+    renderHtmlToPdf.mockRejectedValue(new Error('Google Drive service not configured'));
+    prismaMock.studentReportCard.findUnique.mockResolvedValue(null);
+    prismaMock.studentReportCard.upsert.mockResolvedValue({ id: 'rc-1' });
+    prismaMock.customer.findUnique.mockResolvedValue({ email: 'parent@example.com', emailUnsubscribed: false });
+    sendEmail.mockResolvedValue({ success: true });
+
+    await generateReportCard('r-1');
+
+    expect(storeAttachment).not.toHaveBeenCalled();
+    expect(prismaMock.studentReportCard.upsert.mock.calls[0][0].create).toMatchObject({
+      registrationId: 'r-1', studentId: 's-1', cycleId: 'cy-1', fileAttachmentId: null,
+    });
+    expect(sendEmail.mock.calls[0][0]).not.toHaveProperty('attachments');
+    expect(createParentNotification).toHaveBeenCalledWith('c-1', expect.objectContaining({ type: 'report_card', studentId: 's-1' }));
+    expect(prismaMock.studentReportCard.update).toHaveBeenCalledWith({
+      where: { id: 'rc-1' },
+      data: { sentAt: expect.any(Date), sentTo: 'parent@example.com' },
+    });
+  });
+
+  it('deletes the superseded PDF when the report card is regenerated', async () => {
+    mockReportCardRegistration();
+    prismaMock.attendance.findMany.mockResolvedValue([{ status: 'present' }]);
+    renderHtmlToPdf.mockResolvedValue(Buffer.from('%PDF'));
+    storeAttachment.mockResolvedValue({ id: 'fa-new' });
+    prismaMock.studentReportCard.findUnique.mockResolvedValue({ fileAttachmentId: 'fa-old' });
+    prismaMock.studentReportCard.upsert.mockResolvedValue({ id: 'rc-1' });
+    prismaMock.fileAttachment.findUnique.mockResolvedValue({ id: 'fa-old', storage: 'local', filePath: 'student/s-1/old.pdf' });
+    deleteAttachment.mockResolvedValue(undefined);
+
+    await generateReportCard('r-1', { send: false });
+
+    expect(prismaMock.studentReportCard.upsert.mock.calls[0][0].update).toMatchObject({ fileAttachmentId: 'fa-new' });
+    expect(deleteAttachment).toHaveBeenCalledWith({ id: 'fa-old', storage: 'local', filePath: 'student/s-1/old.pdf' });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  meeting: { findUnique: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+  instructor: { findMany: vi.fn(), findUnique: vi.fn() },
+  cycle: { findMany: vi.fn(), findUnique: vi.fn().mockResolvedValue(null) },
+  meetingExpense: { findMany: vi.fn() },
+  instructorAvailability: { findMany: vi.fn(), deleteMany: vi.fn(), createMany: vi.fn() },
+  instructorUnavailableDate: { findMany: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../notifications.js', () => ({ sendWhatsAppMessage: vi.fn().mockResolvedValue(true) }));
+vi.mock('../negative-profit-alert.js', () => ({ checkAndSendNegativeProfitAlert: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../domain-events.js', () => ({ publishMeetingUpdated: vi.fn() }));
+
+import { findSubstitutes, reassignMeetingInstructor, replaceInstructorAvailability } from '../substitute-finder.js';
+import { sendWhatsAppMessage } from '../notifications.js';
+import { publishMeetingUpdated } from '../domain-events.js';
+
+const time = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00Z`);
+
+function meeting(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'm-1',
+    cycleId: 'cycle-1',
+    instructorId: 'inst-sick',
+    scheduledDate: new Date('2026-11-03T00:00:00.000Z'), // Tuesday
+    startTime: time('16:00'),
+    endTime: time('17:00'),
+    activityType: null,
+    status: 'scheduled',
+    revenue: '500',
+    deletedAt: null,
+    instructor: { id: 'inst-sick', rateFrontal: '150', employmentType: 'freelancer' },
+    cycle: {
+      id: 'cycle-1',
+      name: 'רובלוקס א',
+      courseId: 'course-1',
+      instructorId: 'inst-sick',
+      instructorPaymentMode: 'hourly',
+      activityType: 'frontal',
+      location: 'חיפה',
+      durationMinutes: 60,
+      course: { id: 'course-1', name: 'רובלוקס' },
+    },
+    ...overrides,
+  };
+}
+
+function instructor(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: id,
+    phone: `05${id.length}0000000`,
+    city: null,
+    rateFrontal: '150',
+    employmentType: 'freelancer',
+    availability: [],
+    unavailableDates: [],
+    _count: { availability: 0 },
+    ...overrides,
+  };
+}
+
+describe('substitute finder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.meeting.findUnique.mockResolvedValue(meeting());
+    prismaMock.meeting.findMany.mockResolvedValue([]);
+    prismaMock.cycle.findMany.mockResolvedValue([]);
+    prismaMock.$transaction.mockImplementation((fn) => fn(prismaMock));
+  });
+
+  it('ranks an available, local, experienced instructor above the rest', async () => {
+    const tuesdaySlot = { dayOfWeek: 'tuesday', startTime: time('15:00'), endTime: time('19:00') };
+    prismaMock.instructor.findMany.mockResolvedValue([
+      instructor('unknown'),
+      instructor('local', { city: ' חיפה ', availability: [tuesdaySlot], _count: { availability: 2 } }),
+      instructor('busy-evening', { availability: [], _count: { availability: 3 } }),
+    ]);
+    prismaMock.cycle.findMany.mockResolvedValue([{ instructorId: 'local' }, { instructorId: 'local' }]);
+
+    const result = await findSubstitutes('m-1');
+
+    expect(prismaMock.instructor.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { isActive: true, kind: 'instructor', id: { not: 'inst-sick' } },
+    }));
+    expect(result.candidates.map((c) => c.instructorId)).toEqual(['local', 'unknown', 'busy-evening']);
+    expect(result.candidates[0]).toMatchObject({
+      availability: 'available',
+      sameCity: true,
+      pastCyclesOfCourse: 2,
+      estimatedPayment: 150,
+    });
+    expect(result.candidates[2].availability).toBe('outside_hours');
+  });
+
+  it('pushes instructors with a clashing meeting or a day off to the bottom', async () => {
+    prismaMock.instructor.findMany.mockResolvedValue([
+      instructor('clash'),
+      instructor('day-off', { unavailableDates: [{ reason: 'מילואים' }] }),
+      instructor('expensive', { rateFrontal: '200' }),
+    ]);
+    prismaMock.meeting.findMany.mockResolvedValue([
+      { id: 'm-9', instructorId: 'clash', startTime: time('16:30'), endTime: time('17:30'), cycle: { name: 'פייתון ב' } },
+      { id: 'm-10', instructorId: 'expensive', startTime: time('17:00'), endTime: time('18:00'), cycle: { name: 'צמוד' } },
+    ]);
+
+    const result = await findSubstitutes('m-1');
+
+    expect(result.candidates[0]).toMatchObject({ instructorId: 'expensive', conflicts: [], estimatedPayment: 200 });
+    const clash = result.candidates.find((c) => c.instructorId === 'clash')!;
+    expect(clash.conflicts).toEqual([{ meetingId: 'm-9', cycleName: 'פייתון ב', startTime: '16:30', endTime: '17:30' }]);
+    const dayOff = result.candidates.find((c) => c.instructorId === 'day-off')!;
+    expect(dayOff).toMatchObject({ availability: 'unavailable_date', unavailableReason: 'מילואים' });
+    expect(clash.score).toBeLessThan(0);
+    expect(dayOff.score).toBeLessThan(0);
+  });
+
+  it('reassigns the meeting and recalculates the instructor payment at the substitute rate', async () => {
+    prismaMock.instructor.findUnique.mockResolvedValue(instructor('sub', { name: 'דנה', isActive: true, rateFrontal: '180' }));
+    prismaMock.meetingExpense.findMany.mockResolvedValue([{ amount: '20' }]);
+    prismaMock.meeting.update.mockImplementation(({ data }) => Promise.resolve({ ...meeting(), ...data }));
+
+    await reassignMeetingInstructor('m-1', 'sub');
+
+    expect(prismaMock.meeting.update).toHaveBeenCalledWith({
+      where: { id: 'm-1' },
+      data: { instructorId: 'sub', instructorPayment: 180, profit: 300 },
+    });
+    expect(sendWhatsAppMessage).toHaveBeenCalledWith(expect.any(String), expect.stringContaining('מדריך מחליף'));
+    expect(publishMeetingUpdated).toHaveBeenCalledWith(expect.objectContaining({ id: 'm-1', instructorId: 'sub' }), 'scheduled');
+  });
+
+  it('refuses to double-book the substitute unless the conflict is overridden', async () => {
+    prismaMock.instructor.findUnique.mockResolvedValue(instructor('sub', { isActive: true }));
+    prismaMock.meetingExpense.findMany.mockResolvedValue([]);
+    prismaMock.meeting.findMany.mockResolvedValue([{
+      id: 'm-9',
+      instructorId: 'sub',
+      scheduledDate: new Date('2026-11-03T00:00:00.000Z'),
+      startTime: time('16:30'),
+      endTime: time('17:30'),
+      activityType: 'frontal',
+      cycle: { name: 'פייתון ב', location: 'חיפה', activityType: 'frontal' },
+    }]);
+    prismaMock.meeting.update.mockImplementation(({ data }) => Promise.resolve({ ...meeting(), ...data }));
+
+    await expect(reassignMeetingInstructor('m-1', 'sub')).rejects.toMatchObject({ statusCode: 409 });
+    expect(prismaMock.meeting.update).not.toHaveBeenCalled();
+
+    const result = await reassignMeetingInstructor('m-1', 'sub', true);
+    expect(result.conflictWarnings).toEqual([expect.objectContaining({ type: 'overlap', instructorId: 'sub' })]);
+    expect(prismaMock.meeting.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to reassign to an inactive instructor', async () => {
+    prismaMock.instructor.findUnique.mockResolvedValue(instructor('sub', { isActive: false }));
+
+    await expect(reassignMeetingInstructor('m-1', 'sub')).rejects.toMatchObject({ statusCode: 400 });
+    expect(prismaMock.meeting.update).not.toHaveBeenCalled();
+  });
+
+  it('replaces the weekly availability slots', async () => {
+    prismaMock.instructorAvailability.findMany.mockResolvedValue([]);
+    prismaMock.instructorUnavailableDate.findMany.mockResolvedValue([]);
+
+    await replaceInstructorAvailability('inst-1', {
+      slots: [{ dayOfWeek: 'sunday', startTime: '14:00', endTime: '18:30' }],
+    });
+
+    expect(prismaMock.instructorAvailability.deleteMany).toHaveBeenCalledWith({ where: { instructorId: 'inst-1' } });
+    expect(prismaMock.instructorAvailability.createMany).toHaveBeenCalledWith({
+      data: [{ instructorId: 'inst-1', dayOfWeek: 'sunday', startTime: time('14:00'), endTime: time('18:30') }],
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  vatRate: { findUnique: vi.fn(), findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(), delete: vi.fn() },
+  meeting: { findMany: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../negative-profit-alert.js', () => ({ checkAndSendNegativeProfitAlert: vi.fn() }));
+
+import { deleteVatRate, loadVatRates, recalculateMeetingsForVatRate } from '../vat-rates.js';
+import { DEFAULT_VAT_RATES, setVatRates, vatRateOn } from '../../utils/revenue.js';
+
+const day = (d: string) => new Date(`${d}T00:00:00.000Z`);
+
+const NEW_RATE = { id: 'vr-19', rate: 0.19, effectiveFrom: day('2027-01-01'), recalculatedAt: null };
+
+function privateMeeting(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    scheduledDate: day('2027-01-15'),
+    revenue: 100,
+    profit: 40,
+    cycle: {
+      id: 'cycle-1',
+      name: 'רובוטיקה',
+      type: 'private',
+      meetingRevenue: null,
+      totalMeetings: 10,
+      registrations: [{ amount: 1180, status: 'active', deletedAt: null }],
+    },
+    ...overrides,
+  };
+}
+
+describe('VAT rate recalculation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setVatRates([...DEFAULT_VAT_RATES, { effectiveFrom: '2027-01-01', rate: 0.19 }]);
+    prismaMock.vatRate.findUnique.mockResolvedValue(NEW_RATE);
+    prismaMock.vatRate.findFirst.mockResolvedValue(null);
+    prismaMock.meeting.update.mockImplementation((args) => ({ op: 'meeting.update', ...args }));
+    prismaMock.vatRate.update.mockImplementation((args) => ({ op: 'vatRate.update', ...args }));
+    prismaMock.$transaction.mockImplementation((ops) => Promise.resolve(ops));
+  });
+
+  afterEach(() => setVatRates(DEFAULT_VAT_RATES));
+
+  it('only queries regular meetings inside the rate period that are not in issued billing periods', async () => {
+    prismaMock.vatRate.findFirst.mockResolvedValue({ effectiveFrom: day('2028-01-01') });
+    prismaMock.meeting.findMany.mockResolvedValue([]);
+
+    await recalculateMeetingsForVatRate('vr-19');
+
+    const { where } = prismaMock.meeting.findMany.mock.calls[0][0];
+    expect(where.scheduledDate).toEqual({ gte: day('2027-01-01'), lt: day('2028-01-01') });
+    expect(where.nature).toBe('regular');
+    expect(where.deletedAt).toBeNull();
+    expect(where.billingPeriodMeetings).toEqual({ none: { billingPeriod: { status: 'issued' } } });
+  });
+
+  it('previews without writing by default', async () => {
+    prismaMock.meeting.findMany.mockResolvedValue([privateMeeting('m-1')]);
+
+    const result = await recalculateMeetingsForVatRate('vr-19');
+
+    expect(result).toMatchObject({ applied: false, meetings: 1, revenueBefore: 100, revenueAfter: 99.16 });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('skips cycles with an explicit meeting revenue and moves profit with revenue when applied', async () => {
+    prismaMock.meeting.findMany.mockResolvedValue([
+      privateMeeting('m-1'),
+      privateMeeting('m-2', { cycle: { ...privateMeeting('m-2').cycle, id: 'cycle-2', meetingRevenue: 250 } }),
+    ]);
+
+    const result = await recalculateMeetingsForVatRate('vr-19', { apply: true });
+
+    expect(result).toMatchObject({ applied: true, meetings: 1 });
+    expect(result.skippedCycles).toEqual([{ cycleId: 'cycle-2', cycleName: 'רובוטיקה', meetingRevenue: 250, meetings: 1 }]);
+    expect(prismaMock.meeting.update).toHaveBeenCalledTimes(1);
+    expect(prismaMock.meeting.update).toHaveBeenCalledWith({ where: { id: 'm-1' }, data: { revenue: 99.16, profit: 39.16 } });
+    expect(prismaMock.vatRate.update).toHaveBeenCalledWith({ where: { id: 'vr-19' }, data: { recalculatedAt: expect.any(Date) } });
+  });
+
+  it('refuses to delete a rate that is already in effect', async () => {
+    prismaMock.vatRate.findUnique.mockResolvedValue({ ...NEW_RATE, effectiveFrom: day('2025-01-01') });
+
+    await expect(deleteVatRate('vr-19')).rejects.toMatchObject({ statusCode: 409 });
+    expect(prismaMock.vatRate.delete).not.toHaveBeenCalled();
+  });
+
+  it('loads the table into the revenue helpers', async () => {
+    prismaMock.vatRate.findMany.mockResolvedValue([
+      { rate: 0.18, effectiveFrom: day('2025-01-01') },
+      { rate: 0.2, effectiveFrom: day('2030-01-01') },
+    ]);
+
+    await loadVatRates();
+
+    expect(vatRateOn('2030-01-01')).toBe(0.2);
+    expect(vatRateOn('2029-12-31')).toBe(0.18);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  user: { findMany: vi.fn() },
+  customer: { findFirst: vi.fn() },
+  waConversation: { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn(), groupBy: vi.fn() },
+}));
+
+const messagingMock = vi.hoisted(() => ({ sendWhatsApp: vi.fn() }));
+const opsMock = vi.hoisted(() => ({ sendOperationsWhatsApp: vi.fn() }));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../messaging.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../messaging.js')>()),
+  sendWhatsApp: messagingMock.sendWhatsApp,
+}));
+vi.mock('../operations-notifications.js', () => opsMock);
+vi.mock('../wa-events.js', () => ({ broadcastWaSSE: vi.fn() }));
+
+import { checkWaSlaBreaches, pickNextAssignee, renderCannedReply, trackInboundMessage } from '../wa-inbox.js';
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+const conversation = (overrides: Record<string, unknown> = {}) => ({
+  id: 'conv-1',
+  phone: '972501234567',
+  contactName: 'דנה',
+  status: 'open',
+  assignedToId: null,
+  openedAt: null,
+  awaitingReplySince: null,
+  ...overrides,
+});
+
+describe('WhatsApp inbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.user.findMany.mockResolvedValue([]);
+    prismaMock.waConversation.groupBy.mockResolvedValue([]);
+    prismaMock.waConversation.findMany.mockResolvedValue([]);
+    prismaMock.waConversation.update.mockImplementation(async ({ data }) => ({ ...conversation(), ...data }));
+  });
+
+  it('hands new threads to whoever was assigned least recently', async () => {
+    prismaMock.user.findMany.mockResolvedValue([{ id: 'u-1', name: 'אבי' }, { id: 'u-2', name: 'בתיה' }, { id: 'u-3', name: 'גיל' }]);
+    prismaMock.waConversation.groupBy.mockResolvedValue([
+      { assignedToId: 'u-1', _max: { assignedAt: new Date('2026-10-19T10:00:00.000Z') } },
+      { assignedToId: 'u-2', _max: { assignedAt: new Date('2026-10-19T09:00:00.000Z') } },
+    ]);
+
+    expect(await pickNextAssignee()).toEqual({ id: 'u-3', name: 'גיל' });
+
+    prismaMock.waConversation.groupBy.mockResolvedValue([
+      { assignedToId: 'u-1', _max: { assignedAt: new Date('2026-10-19T10:00:00.000Z') } },
+      { assignedToId: 'u-2', _max: { assignedAt: new Date('2026-10-19T09:00:00.000Z') } },
+      { assignedToId: 'u-3', _max: { assignedAt: new Date('2026-10-19T11:00:00.000Z') } },
+    ]);
+    expect((await pickNextAssignee())?.id).toBe('u-2');
+  });
+
+  it('re-opens a closed thread, starts the reply clock and assigns it', async () => {
+    prismaMock.user.findMany.mockResolvedValue([{ id: 'u-1', name: 'אבי' }]);
+
+    await trackInboundMessage(conversation({ status: 'closed', openedAt: new Date('2026-10-01T00:00:00.000Z') }) as never, now);
+
+    expect(prismaMock.waConversation.update).toHaveBeenNthCalledWith(1, {
+      where: { id: 'conv-1' },
+      data: { status: 'open', openedAt: now, resolvedAt: null, resolutionAlertedAt: null, awaitingReplySince: now, firstResponseAlertedAt: null },
+    });
+    expect(prismaMock.waConversation.update).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      data: expect.objectContaining({ assignedToId: 'u-1' }),
+    }));
+  });
+
+  it('alerts the assignee, or operations when unassigned, once per breach', async () => {
+    prismaMock.waConversation.findMany
+      .mockResolvedValueOnce([{ ...conversation(), assignedTo: { name: 'אבי', phone: '0501111111' } }])
+      .mockResolvedValueOnce([{ ...conversation({ id: 'conv-2' }), assignedTo: null }]);
+
+    const result = await checkWaSlaBreaches(now);
+
+    expect(result).toEqual({ firstResponse: 1, resolution: 1 });
+    expect(prismaMock.waConversation.findMany.mock.calls[0][0].where).toEqual({
+      awaitingReplySince: { lte: new Date('2026-10-19T11:30:00.000Z') },
+      firstResponseAlertedAt: null,
+      status: { not: 'closed' },
+    });
+    expect(messagingMock.sendWhatsApp).toHaveBeenCalledWith(expect.objectContaining({ phone: '0501111111' }));
+    expect(opsMock.sendOperationsWhatsApp).toHaveBeenCalledWith(expect.stringContaining('conv=conv-2'));
+    expect(prismaMock.waConversation.update).toHaveBeenCalledWith({ where: { id: 'conv-1' }, data: { firstResponseAlertedAt: now } });
+    expect(prismaMock.waConversation.update).toHaveBeenCalledWith({ where: { id: 'conv-2' }, data: { resolutionAlertedAt: now } });
+  });
+
+  it('keeps alerting the other conversations when one alert fails', async () => {
+    prismaMock.waConversation.findMany
+      .mockResolvedValueOnce([
+        { ...conversation(), assignedTo: { name: 'אבי', phone: '0501111111' } },
+        { ...conversation({ id: 'conv-3' }), assignedTo: null },
+      ])
+      .mockResolvedValueOnce([]);
+    messagingMock.sendWhatsApp.mockRejectedValueOnce(new Error('Green API down'));
+
+    const result = await checkWaSlaBreaches(now);
+
+    expect(result).toEqual({ firstResponse: 1, resolution: 0 });
+    expect(prismaMock.waConversation.update).toHaveBeenCalledTimes(1);
+    expect(prismaMock.waConversation.update).toHaveBeenCalledWith({ where: { id: 'conv-3' }, data: { firstResponseAlertedAt: now } });
+  });
+
+  it('fills canned-reply placeholders from the linked customer, student and cycle', async () => {
+    prismaMock.waConversation.findUnique.mockResolvedValue({ phone: '972501234567', contactName: 'Dana', leadName: null, childName: null });
+    prismaMock.customer.findFirst.mockResolvedValue({
+      name: 'דנה כהן',
+      students: [{
+        name: 'נועם',
+        registrations: [{
+          cycle: { name: 'רובוטיקה א׳', dayOfWeek: 'tuesday', startTime: new Date('1970-01-01T16:30:00.000Z'), course: { name: 'רובוטיקה' }, branch: { name: 'חיפה' } },
+        }],
+      }],
+    });
+
+    const text = await renderCannedReply('conv-1', 'היי {{first_name}}, {{student_name}} רשום ל{{course_name}} ב{{branch_name}} (יום {{meeting_day}}). {{agent_name}}', 'אבי');
+
+    expect(text).toBe('היי דנה, נועם רשום לרובוטיקה בחיפה (יום שלישי). אבי');
+    expect(prismaMock.customer.findFirst.mock.calls[0][0].where).toEqual({ phone: { endsWith: '501234567' }, deletedAt: null });
+  });
+});
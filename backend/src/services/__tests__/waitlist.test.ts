@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  cycle: { findUnique: vi.fn(), findFirst: vi.fn() },
+  customer: { findFirst: vi.fn() },
+  student: { findFirst: vi.fn(), create: vi.fn() },
+  registration: { count: vi.fn(), findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+  waitlistEntry: {
+    count: vi.fn(),
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}));
+
+const subscribeDomainEvents = vi.hoisted(() => vi.fn());
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../../utils/recalcMeetingRevenue.js', () => ({ recalcMeetingRevenue: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../notifications.js', () => ({ sendWhatsAppMessage: vi.fn().mockResolvedValue(true) }));
+vi.mock('../domain-events.js', () => ({ publishDomainEvent: vi.fn(), subscribeDomainEvents }));
+
+import {
+  addToWaitlist,
+  expireWaitlistOffers,
+  initWaitlistSubscribers,
+  offerNextSeats,
+  respondToWaitlistOffer,
+} from '../waitlist.js';
+import { sendWhatsAppMessage } from '../notifications.js';
+import { publishDomainEvent } from '../domain-events.js';
+
+function offeredEntry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'w-1',
+    cycleId: 'cycle-1',
+    customerId: 'cust-1',
+    studentId: null,
+    childName: 'נועה',
+    status: 'offered',
+    offerToken: 'token-1',
+    offerExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    customer: { id: 'cust-1', name: 'רוני', phone: '0527654321' },
+    student: null,
+    cycle: { id: 'cycle-1', name: 'רובלוקס א', status: 'active', maxStudents: 10, defaultRegistrationAmount: '900', course: { name: 'רובלוקס' } },
+    ...overrides,
+  };
+}
+
+describe('cycle waitlist', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.cycle.findUnique.mockResolvedValue({ maxStudents: 10 });
+    prismaMock.registration.count.mockResolvedValue(10);
+    prismaMock.waitlistEntry.count.mockResolvedValue(0);
+    prismaMock.waitlistEntry.update.mockImplementation(({ data }) => Promise.resolve(offeredEntry({ ...data })));
+    prismaMock.$transaction.mockImplementation((fn) => fn(prismaMock));
+  });
+
+  it('offers a released seat to the first family in line over WhatsApp', async () => {
+    prismaMock.registration.count.mockResolvedValueOnce(9).mockResolvedValue(9);
+    prismaMock.waitlistEntry.count.mockResolvedValueOnce(0).mockResolvedValue(1);
+    prismaMock.waitlistEntry.findFirst.mockResolvedValueOnce({ id: 'w-1' });
+
+    const offered = await offerNextSeats('cycle-1');
+
+    expect(offered).toBe(1);
+    expect(prismaMock.waitlistEntry.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { cycleId: 'cycle-1', status: 'waiting' },
+      orderBy: [{ position: 'asc' }, { joinedAt: 'asc' }],
+    }));
+    expect(prismaMock.waitlistEntry.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'w-1' },
+      data: expect.objectContaining({ status: 'offered', offerToken: expect.any(String), offerExpiresAt: expect.any(Date) }),
+    }));
+    expect(sendWhatsAppMessage).toHaveBeenCalledWith('0527654321', expect.stringContaining('/public/waitlist/'));
+  });
+
+  it('counts outstanding offers as taken seats', async () => {
+    prismaMock.registration.count.mockResolvedValue(9);
+    prismaMock.waitlistEntry.count.mockResolvedValue(1);
+
+    await expect(offerNextSeats('cycle-1')).resolves.toBe(0);
+    expect(prismaMock.waitlistEntry.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('queues a lead at the end of the line', async () => {
+    prismaMock.cycle.findFirst.mockResolvedValue({ id: 'cycle-1', status: 'active' });
+    prismaMock.customer.findFirst.mockResolvedValue({ id: 'cust-1' });
+    prismaMock.waitlistEntry.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ position: 3 });
+    prismaMock.waitlistEntry.create.mockImplementation(({ data }) => Promise.resolve({ id: 'w-4', ...data }));
+
+    const entry = await addToWaitlist('cycle-1', { customerId: 'cust-1', childName: 'איתי' }, 'user-1');
+
+    expect(entry).toMatchObject({ position: 4, childName: 'איתי', studentId: null, createdById: 'user-1' });
+  });
+
+  it('refuses to queue the same child twice', async () => {
+    prismaMock.cycle.findFirst.mockResolvedValue({ id: 'cycle-1', status: 'active' });
+    prismaMock.customer.findFirst.mockResolvedValue({ id: 'cust-1' });
+    prismaMock.waitlistEntry.findFirst.mockResolvedValueOnce({ id: 'w-1' });
+
+    await expect(addToWaitlist('cycle-1', { customerId: 'cust-1', childName: 'נועה' }))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(prismaMock.waitlistEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('places the child when the family accepts, creating the student for a lead', async () => {
+    prismaMock.waitlistEntry.findUnique
+      .mockResolvedValueOnce(offeredEntry())
+      .mockResolvedValueOnce(offeredEntry());
+    prismaMock.student.findFirst.mockResolvedValue(null);
+    prismaMock.student.create.mockResolvedValue({ id: 'st-9' });
+    prismaMock.registration.findUnique.mockResolvedValue(null);
+    prismaMock.registration.create.mockResolvedValue({ id: 'reg-9', cycleId: 'cycle-1', studentId: 'st-9' });
+
+    const registration = await respondToWaitlistOffer('token-1', true);
+
+    expect(prismaMock.student.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ customerId: 'cust-1', name: 'נועה' }),
+    }));
+    expect(prismaMock.registration.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ studentId: 'st-9', cycleId: 'cycle-1', status: 'registered', amount: 900 }),
+    });
+    expect(prismaMock.waitlistEntry.update).toHaveBeenCalledWith({
+      where: { id: 'w-1' },
+      data: expect.objectContaining({ status: 'placed', studentId: 'st-9', registrationId: 'reg-9' }),
+    });
+    expect(publishDomainEvent).toHaveBeenCalledWith('registration.created', expect.objectContaining({ id: 'reg-9' }));
+    expect(registration).toMatchObject({ id: 'reg-9' });
+  });
+
+  it('rejects an answer after the offer expired', async () => {
+    prismaMock.waitlistEntry.findUnique.mockResolvedValue(offeredEntry({ offerExpiresAt: new Date(Date.now() - 1000) }));
+
+    await expect(respondToWaitlistOffer('token-1', true)).rejects.toMatchObject({ statusCode: 410 });
+    expect(prismaMock.registration.create).not.toHaveBeenCalled();
+  });
+
+  it('expires overdue offers and moves on to the next family', async () => {
+    prismaMock.waitlistEntry.findMany.mockResolvedValue([{ id: 'w-1', cycleId: 'cycle-1' }]);
+    prismaMock.registration.count.mockResolvedValue(9);
+    prismaMock.waitlistEntry.count.mockResolvedValueOnce(0).mockResolvedValue(1);
+    prismaMock.waitlistEntry.findFirst.mockResolvedValueOnce({ id: 'w-2' });
+
+    const expired = await expireWaitlistOffers();
+
+    expect(expired).toBe(1);
+    expect(prismaMock.waitlistEntry.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['w-1'] } },
+      data: { status: 'expired' },
+    });
+    expect(prismaMock.waitlistEntry.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'w-2' } }));
+  });
+
+  it('offers seats when a registration is cancelled', async () => {
+    initWaitlistSubscribers();
+    const handler = subscribeDomainEvents.mock.calls[0][0];
+    prismaMock.cycle.findUnique.mockResolvedValue({ maxStudents: null });
+
+    await handler('registration.updated', { id: 'reg-1', cycleId: 'cycle-1' });
+    expect(prismaMock.cycle.findUnique).not.toHaveBeenCalled();
+
+    await handler('registration.cancelled', { id: 'reg-1', cycle: { id: 'cycle-1' } });
+    expect(prismaMock.cycle.findUnique).toHaveBeenCalledWith({ where: { id: 'cycle-1' }, select: { maxStudents: true } });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { formatLessonProgress, isPreMeetingReminderDue } from '../whatsapp-reminder.service.js';
+import { buildInstructorPreLessonTemplatePayload, formatLessonProgress, isPreMeetingReminderDue } from '../whatsapp-reminder.service.js';
 
 describe('pre-meeting WhatsApp reminder window', () => {
   it('sends in the normal 60-minute reminder window', () => {
@@ -32,4 +32,21 @@ describe('instructor lesson progress text', () => {
       remainingAfter: 11,
     }, true)).toBe('שיעור 5/16, נותרו 11');
   });
+
+  it('adds the planned curriculum lesson to the pre-lesson reminder', () => {
+    const payload = buildInstructorPreLessonTemplatePayload({
+      startTime: new Date('1970-01-01T16:00:00.000Z'),
+      instructor: { name: 'דני', phone: '0501234567' },
+      cycle: { name: 'פייתון', branch: { name: 'חיפה' } },
+    }, 'https://crm.example.com/i/m-1/token', {
+      lessonNumber: 3,
+      totalMeetings: 12,
+      lesson: { title: 'לולאות', objectives: 'for ו-while', materialLinks: ['https://example.com/loops'], durationMinutes: 90 },
+    });
+
+    expect(payload.bodyParameters[1]).toBe('פייתון | חיפה | שיעור 3/12, נותרו 9 | לולאות');
+    expect(payload.preview).toContain("🎯 נושא השיעור: לולאות (90 דק')");
+    expect(payload.preview).toContain('מטרות:\nfor ו-while');
+    expect(payload.preview).toContain('📎 https://example.com/loops');
+  });
 });
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+  $executeRaw: vi.fn(),
+  meeting: { findUnique: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('../../utils/prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../../utils/cycle-sync.js', () => ({ syncCycleProgress: vi.fn().mockResolvedValue({ remainingMeetings: 3 }) }));
+vi.mock('../domain-events.js', () => ({ publishMeetingUpdated: vi.fn() }));
+vi.mock('../whatsapp-cloud-templates.js', () => ({
+  normalizeWhatsAppCloudPhone: vi.fn(),
+  sendWhatsAppCloudTemplate: vi.fn(),
+  sendWhatsAppCloudText: vi.fn().mockResolvedValue({ success: true }),
+  templateText: vi.fn(),
+}));
+vi.mock('../operations-notifications.js', () => ({
+  getOperationsWhatsAppRecipients: vi.fn(),
+  sendOperationsWhatsApp: vi.fn().mockResolvedValue([{ success: true }]),
+}));
+
+import { handleStatusReply } from '../whatsapp-reminder.service.js';
+import { publishMeetingUpdated } from '../domain-events.js';
+
+describe('WhatsApp status reply', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.$queryRaw.mockResolvedValue([{
+      id: 'reminder-1',
+      meeting_id: 'meeting-1',
+      instructor_id: 'instructor-1',
+      instructor_name: 'דני',
+      cycle_name: 'פייתון',
+      meeting_notes: null,
+      meeting_status: 'scheduled',
+      cycle_id: 'cycle-1',
+    }]);
+  });
+
+  it('publishes the cancellation when the instructor reports the lesson did not happen', async () => {
+    const cancelled = { id: 'meeting-1', cycleId: 'cycle-1', status: 'cancelled' };
+    prismaMock.meeting.update.mockResolvedValue(cancelled);
+
+    expect(await handleStatusReply('0501234567', false)).toBe(true);
+
+    expect(publishMeetingUpdated).toHaveBeenCalledWith(cancelled, 'scheduled');
+  });
+
+  it('publishes the completion when the instructor confirms the lesson', async () => {
+    const completed = { id: 'meeting-1', cycleId: 'cycle-1', status: 'completed' };
+    prismaMock.meeting.update.mockResolvedValue(completed);
+    prismaMock.meeting.findUnique.mockResolvedValue(null);
+
+    expect(await handleStatusReply('0501234567', true)).toBe(true);
+
+    expect(publishMeetingUpdated).toHaveBeenCalledWith(completed, 'scheduled');
+  });
+});
@@ -1,5 +1,5 @@
 import cron from 'node-cron';
-import { generateAllBillingPeriodsForMonth } from './billing.js';
+import { generateAllBillingPeriodsForMonth, scanBillingDrift } from './billing.js';
 
 /**
  * On the 1st of each month at 02:00 (Asia/Jerusalem implicit via host TZ),
@@ -23,5 +23,18 @@ export function initBillingScheduler() {
       console.error('[BILLING] Scheduler error:', e);
     }
   });
-  console.log('[BILLING] Scheduler initialized (1st of month, 02:00) — drafts only, manual approval to issue');
+  // Nightly at 03:00 — re-check issued periods against the meetings that actually happened
+  // and fire billing_period.drift_detected webhooks for new discrepancies.
+  cron.schedule('0 3 * * *', async () => {
+    try {
+      const result = await scanBillingDrift();
+      if (result.detected || result.errors.length) {
+        console.log(`[BILLING] Drift scan — checked=${result.checked}, detected=${result.detected}, errors=${result.errors.length}`);
+      }
+      if (result.errors.length) console.warn('[BILLING] drift errors:', result.errors);
+    } catch (e) {
+      console.error('[BILLING] Drift scan error:', e);
+    }
+  });
+  console.log('[BILLING] Scheduler initialized (1st of month, 02:00; drift scan nightly 03:00) — drafts only, manual approval to issue');
 }
@@ -3,6 +3,9 @@ import { prisma } from '../utils/prisma.js';
 import { createDocument, previewDocument, createDraftDocument, deleteDraftDocument, getMorningDocument, searchMorningDocuments, closeMorningDocument, DOCUMENT_TYPES, PAYMENT_TYPES } from './morning/documents.js';
 import type { CreateDocumentInput, MorningClient, MorningDocument, MorningIncomeItem, MorningPaymentItem } from './morning/documents.js';
 import { findClientForInstitutionalOrder } from './morning/clients.js';
+import { publishDomainEvent } from './domain-events.js';
+import { grossFromNet, vatRateOn } from '../utils/revenue.js';
+import { plannedAmountForRange } from './order-billing-plan.js';
 
 export type BillingMonth = string; // 'YYYY-MM' — first day of that month, UTC
 
@@ -190,11 +193,12 @@ async function computeBillingLines(
         ? (monthBreakdown[0]?.children ?? 0)
         : (completedMeetings > 0 ? Math.round(quantity / completedMeetings) : 0);
 
-      // Display the agreed gross (price × 1.18) when prices are stored net, otherwise
+      // Display the agreed gross (price + VAT) when prices are stored net, otherwise
       // the per-child price as-is. This keeps the description in the customer's mental
-      // model ("9 ילדים × ₪ 60") even when our DB carries the net (₪ 50.85).
+      // model ("9 ילדים × ₪ 60") even when our DB carries the net (₪ 50.85). VAT is taken
+      // at today's rate — the rate of the document these lines are issued on.
       const grossPerChild = cycle.revenueIncludesVat === false
-        ? Math.round(perChild * 1.18 * 100) / 100
+        ? Math.round(grossFromNet(perChild) * 100) / 100
         : perChild;
       const countsPart = distinctCounts.size === 1
         ? `${completedMeetings} פגישות × ${studentCount} ילדים`
@@ -290,6 +294,9 @@ export async function generateBillingPeriod(
 
   const summaries = await computeBillingLines(institutionalOrderId, monthStart, monthEnd);
   const totalAmount = summaries.reduce((s, l) => s + l.total, 0);
+  // What the order's billing plan projected for these months — kept on the period so the
+  // actual total can be checked against it (null when the order was never planned).
+  const plannedAmount = await plannedAmountForRange(institutionalOrderId, start, end);
 
   // Preserve any per-line description that the admin marked as customized — match by cycleId.
   const customizedByCycle = new Map<string, string>();
@@ -308,6 +315,7 @@ export async function generateBillingPeriod(
       data: {
         status: 'draft',
         totalAmount,
+        plannedAmount,
         generatedAt: new Date(),
         generatedById,
         morningDocId: null,
@@ -337,8 +345,9 @@ export async function generateBillingPeriod(
           })),
         },
       },
-      include: { lines: true },
+      include: { lines: true, institutionalOrder: { select: { orderName: true } } },
     });
+    publishBillingPeriodEvent('billing_period.generated', period);
     return period;
   }
 
@@ -349,6 +358,7 @@ export async function generateBillingPeriod(
       monthEnd: end,
       status: 'draft',
       totalAmount,
+      plannedAmount,
       generatedById,
       lines: {
         create: summaries.map((s, i) => ({
@@ -362,8 +372,9 @@ export async function generateBillingPeriod(
         })),
       },
     },
-    include: { lines: true },
+    include: { lines: true, institutionalOrder: { select: { orderName: true } } },
   });
+  publishBillingPeriodEvent('billing_period.generated', period);
   return period;
 }
 
@@ -598,7 +609,6 @@ async function fetchMorningDocClientName(docId: string): Promise<string | null>
   }
 }
 
-const VAT_RATE = 0.18;
 const round2 = (n: number) => Math.round(n * 100) / 100;
 
 /**
@@ -626,28 +636,113 @@ export function proformaSnapshotGross(snapshot: unknown): number | null {
   return grossTotal > 0 ? round2(grossTotal) : null;
 }
 
+/**
+ * Gross the customer is charged for a period: the proforma's frozen total, or the net total
+ * plus VAT at the rate of the document date (issuedAt, or today for a period not issued yet).
+ */
 export function billingPeriodChargedGross(period: {
   totalAmount?: Prisma.Decimal | number | string | null;
   proformaSnapshot?: unknown;
+  issuedAt?: Date | null;
 }): number {
-  return proformaSnapshotGross(period.proformaSnapshot) ?? round2(Number(period.totalAmount ?? 0) * (1 + VAT_RATE));
+  return proformaSnapshotGross(period.proformaSnapshot) ?? round2(grossFromNet(Number(period.totalAmount ?? 0), period.issuedAt));
 }
 
 export function billingPeriodOutstandingGross(period: {
   totalAmount?: Prisma.Decimal | number | string | null;
   proformaSnapshot?: unknown;
+  issuedAt?: Date | null;
   paidAmount?: Prisma.Decimal | number | string | null;
 }): number {
   return Math.max(0, round2(billingPeriodChargedGross(period) - Number(period.paidAmount ?? 0)));
 }
 
-/** Gross total (incl VAT) of a set of income lines, honoring each line's vatType. */
-export function grossFromIncome(income: MorningIncomeItem[]): number {
+type BillingPeriodEventSource = Prisma.BillingPeriodGetPayload<{}> & {
+  lines?: Prisma.BillingPeriodLineGetPayload<{}>[];
+  institutionalOrder?: { orderName: string | null } | null;
+};
+
+/**
+ * Webhook payload for billing_period.* events (documented as BillingPeriodEvent in the v1
+ * OpenAPI spec). Decimals are flattened to numbers so consumers never see Prisma strings.
+ */
+export function billingPeriodEventData(period: BillingPeriodEventSource) {
+  return {
+    id: period.id,
+    institutionalOrderId: period.institutionalOrderId,
+    institutionName: period.institutionalOrder?.orderName ?? null,
+    monthStart: monthKey(period.monthStart),
+    monthEnd: monthKey(period.monthEnd),
+    status: period.status,
+    totalAmount: Number(period.totalAmount),
+    totalGross: billingPeriodChargedGross(period),
+    paidAmount: Number(period.paidAmount),
+    paymentStatus: period.paymentStatus,
+    issuedAt: period.issuedAt,
+    dueDate: period.dueDate ? period.dueDate.toISOString().slice(0, 10) : null,
+    proformaNumber: period.morningDocNumber,
+    proformaUrl: period.morningDocUrl,
+    taxInvoiceNumber: period.taxInvoiceNumber,
+    taxInvoiceType: period.taxInvoiceType,
+    taxInvoiceUrl: period.taxInvoiceUrl,
+    taxInvoiceIssuedAt: period.taxInvoiceIssuedAt,
+    lines: (period.lines ?? []).map((l) => ({
+      cycleId: l.cycleId,
+      description: l.description,
+      quantity: Number(l.quantity),
+      unitPrice: Number(l.unitPrice),
+      total: Number(l.total),
+    })),
+  };
+}
+
+/**
+ * Publish a billing_period.* event. The mutation is already committed by the time this runs,
+ * so a payload problem is logged rather than surfaced as a failed billing action.
+ */
+function publishBillingPeriodEvent(
+  event: 'billing_period.generated' | 'billing_period.issued' | 'billing_period.tax_invoice_issued',
+  period: BillingPeriodEventSource,
+) {
+  try {
+    publishDomainEvent(event, billingPeriodEventData(period));
+  } catch (err) {
+    console.warn(`[billing] failed to publish ${event}`, period.id, err);
+  }
+}
+
+/** Publish billing_payment.recorded for each new payment row, with the period's rolled-up totals. */
+function publishPaymentsRecorded(
+  payments: Prisma.BillingPaymentGetPayload<{}>[],
+  period: Pick<Prisma.BillingPeriodGetPayload<{}>, 'institutionalOrderId' | 'paidAmount' | 'paymentStatus'>,
+) {
+  for (const payment of payments) {
+    publishDomainEvent('billing_payment.recorded', {
+      id: payment.id,
+      billingPeriodId: payment.billingPeriodId,
+      institutionalOrderId: period.institutionalOrderId,
+      amount: Number(payment.amount),
+      method: payment.method,
+      paidAt: payment.paidAt,
+      receiptNumber: payment.morningReceiptNumber,
+      receiptUrl: payment.morningReceiptUrl,
+      periodPaidAmount: Number(period.paidAmount),
+      periodPaymentStatus: period.paymentStatus,
+    });
+  }
+}
+
+/**
+ * Gross total (incl VAT) of a set of income lines, honoring each line's vatType.
+ * VAT added on top is taken at the rate in force on the document date (today when omitted).
+ */
+export function grossFromIncome(income: MorningIncomeItem[], documentDate?: Date | string | null): number {
+  const vatRate = vatRateOn(documentDate);
   let total = 0;
   for (const l of income) {
     const net = Number(l.price) * Number(l.quantity);
     // vatType 2 = price already includes VAT; 1 = exempt (no VAT); 0/undefined = add VAT on top.
-    const gross = l.vatType === 2 || l.vatType === 1 ? net : net * (1 + VAT_RATE);
+    const gross = l.vatType === 2 || l.vatType === 1 ? net : net * (1 + vatRate);
     total += gross;
   }
   return round2(total);
@@ -662,7 +757,7 @@ export function buildProformaSnapshot(payload: CreateDocumentInput, morningAmoun
     description: payload.description,
     grossTotal: typeof morningAmount === 'number' && morningAmount > 0
       ? round2(morningAmount)
-      : grossFromIncome(payload.income),
+      : grossFromIncome(payload.income, payload.date),
   };
 }
 
@@ -670,7 +765,7 @@ export function buildProformaSnapshot(payload: CreateDocumentInput, morningAmoun
 export function buildProformaSnapshotFromMorningDocument(doc: MorningDocument): ProformaSnapshot | null {
   const gross = typeof doc.amount === 'number' && doc.amount > 0
     ? round2(doc.amount)
-    : (doc.income ? grossFromIncome(doc.income) : 0);
+    : (doc.income ? grossFromIncome(doc.income, doc.documentDate) : 0);
   if (!(gross > 0)) return null;
 
   const snap: ProformaSnapshot = { grossTotal: gross };
@@ -740,7 +835,7 @@ export function assertProformaAmountMatch(
   docLabel: string,
 ): void {
   if (!snap) return;
-  const gross = grossFromIncome(payload.income);
+  const gross = grossFromIncome(payload.income, payload.date);
   if (Math.abs(gross - snap.grossTotal) > 0.02) {
     throw new Error(
       `${docLabel} amount (₪${gross.toFixed(2)}) does not match the issued חשבון עסקה (₪${snap.grossTotal.toFixed(2)}). ` +
@@ -882,7 +977,7 @@ export async function issueBillingPeriod(billingPeriodId: string, issuedById?: s
   const dueDate = new Date(issuedAt);
   dueDate.setUTCDate(dueDate.getUTCDate() + 8); // matches Morning's default proforma due date
 
-  return prisma.$transaction(async (tx) => {
+  const issued = await prisma.$transaction(async (tx) => {
     if (snapshot.length > 0) {
       await tx.billingPeriodMeeting.createMany({
         data: snapshot,
@@ -910,6 +1005,8 @@ export async function issueBillingPeriod(billingPeriodId: string, issuedById?: s
       include: { lines: true, institutionalOrder: true },
     });
   });
+  publishBillingPeriodEvent('billing_period.issued', issued);
+  return issued;
 }
 
 /**
@@ -1009,7 +1106,7 @@ export async function markBillingPeriodIssuedManually(
     }
   }
 
-  return prisma.$transaction(async (tx) => {
+  const issued = await prisma.$transaction(async (tx) => {
     if (snapshot.length > 0) {
       await tx.billingPeriodMeeting.createMany({ data: snapshot, skipDuplicates: true });
     }
@@ -1032,6 +1129,8 @@ export async function markBillingPeriodIssuedManually(
       include: { lines: true, institutionalOrder: true },
     });
   });
+  publishBillingPeriodEvent('billing_period.issued', issued);
+  return issued;
 }
 
 /**
@@ -1084,6 +1183,62 @@ export async function detectDrift(billingPeriodId: string) {
   };
 }
 
+/**
+ * Run {@link detectDrift} for an issued period and publish billing_period.drift_detected when
+ * the drift differs from what was last reported. The reported set is fingerprinted on the
+ * period (driftSignature) so an unchanged drift never fires twice; resolving the drift clears it.
+ * Returns true when an event was published.
+ */
+export async function checkBillingDrift(billingPeriodId: string): Promise<boolean> {
+  const drift = await detectDrift(billingPeriodId);
+  const newIds = drift.newSinceIssue.map((m) => m.id).sort();
+  const removedIds = [...drift.removedSinceIssue].sort();
+  const signature = newIds.length || removedIds.length
+    ? `+${newIds.join(',')}|-${removedIds.join(',')}`
+    : null;
+
+  const period = await prisma.billingPeriod.findUnique({
+    where: { id: billingPeriodId },
+    include: { lines: true, institutionalOrder: true },
+  });
+  if (!period || period.driftSignature === signature) return false;
+
+  await prisma.billingPeriod.update({ where: { id: billingPeriodId }, data: { driftSignature: signature } });
+  if (!signature) return false;
+
+  publishDomainEvent('billing_period.drift_detected', {
+    billingPeriod: billingPeriodEventData(period),
+    snapshotCount: drift.snapshotCount,
+    currentCount: drift.currentCount,
+    newSinceIssue: newIds,
+    removedSinceIssue: removedIds,
+  });
+  return true;
+}
+
+/**
+ * Drift scan over every issued period whose range ended within the last `lookbackMonths`.
+ * Older periods are settled history — late edits there are not worth alerting on.
+ */
+export async function scanBillingDrift(now: Date = new Date(), lookbackMonths = 6) {
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - lookbackMonths, 1));
+  const periods = await prisma.billingPeriod.findMany({
+    where: { status: 'issued', monthEnd: { gte: since } },
+    select: { id: true },
+  });
+
+  const results = { checked: 0, detected: 0, errors: [] as string[] };
+  for (const p of periods) {
+    try {
+      if (await checkBillingDrift(p.id)) results.detected++;
+      results.checked++;
+    } catch (err: any) {
+      results.errors.push(`${p.id}: ${err.message}`);
+    }
+  }
+  return results;
+}
+
 /**
  * Append a payment record and recompute the period's paymentStatus + paidAmount.
  * Treats sums >= totalAmount (with 1 agora tolerance) as fully paid.
@@ -1097,8 +1252,9 @@ export async function addPayment(
 
   const paidAt = input.paidAt ? new Date(input.paidAt) : new Date();
 
-  return prisma.$transaction(async (tx) => {
-    await tx.billingPayment.create({
+  const recorded: Prisma.BillingPaymentGetPayload<{}>[] = [];
+  const updated = await prisma.$transaction(async (tx) => {
+    recorded.push(await tx.billingPayment.create({
       data: {
         billingPeriodId,
         amount: input.amount,
@@ -1107,13 +1263,13 @@ export async function addPayment(
         paidAt,
         recordedById: input.recordedById || null,
       },
-    });
+    }));
     const sums = await tx.billingPayment.aggregate({
       where: { billingPeriodId },
       _sum: { amount: true },
     });
     const paidAmount = Number(sums._sum.amount ?? 0);
-    // Total includes 18% VAT — periods store NET, but the client owes gross.
+    // Total includes VAT — periods store NET, but the client owes gross.
     const totalGross = billingPeriodChargedGross(period);
     const isFullyPaid = paidAmount + 0.01 >= totalGross;
     const paymentStatus = isFullyPaid ? 'paid' : paidAmount > 0 ? 'partial' : 'unpaid';
@@ -1128,6 +1284,8 @@ export async function addPayment(
       include: { payments: { orderBy: { paidAt: 'desc' } }, lines: true },
     });
   });
+  publishPaymentsRecorded(recorded, updated);
+  return updated;
 }
 
 export async function deletePayment(billingPeriodId: string, paymentId: string) {
@@ -1369,6 +1527,7 @@ export async function issueTaxInvoice(
   const document = await createDocument(payload);
   const resolvedMorningClientId = discoveredId ?? document.client?.id ?? null;
 
+  const recorded: Prisma.BillingPaymentGetPayload<{}>[] = [];
   const updated = await prisma.$transaction(async (tx) => {
     await cacheMorningClientId(tx, cacheTarget, resolvedMorningClientId);
     await tx.billingPeriod.update({
@@ -1390,7 +1549,7 @@ export async function issueTaxInvoice(
     // still reflects them.
     if (payments && payments.length > 0) {
       for (const p of payments) {
-        await tx.billingPayment.create({
+        recorded.push(await tx.billingPayment.create({
           data: {
             billingPeriodId,
             amount: p.amount,
@@ -1402,7 +1561,7 @@ export async function issueTaxInvoice(
             morningReceiptNumber: document.number,
             morningReceiptUrl: document.url?.he || document.url?.origin || null,
           },
-        });
+        }));
       }
     }
 
@@ -1433,6 +1592,8 @@ export async function issueTaxInvoice(
     }
   }
 
+  publishBillingPeriodEvent('billing_period.tax_invoice_issued', updated);
+  publishPaymentsRecorded(recorded, updated);
   return updated;
 }
 
@@ -1491,6 +1652,7 @@ export async function issueTaxInvoiceOnly(
     }
   }
 
+  publishBillingPeriodEvent('billing_period.tax_invoice_issued', updated);
   return updated;
 }
 
@@ -1533,9 +1695,10 @@ export async function issueReceipt(
   const document = await createDocument(payload);
   const resolvedMorningClientId = discoveredId ?? document.client?.id ?? null;
 
-  return prisma.$transaction(async (tx) => {
+  const recorded: Prisma.BillingPaymentGetPayload<{}>[] = [];
+  const updated = await prisma.$transaction(async (tx) => {
     await cacheMorningClientId(tx, cacheTarget, resolvedMorningClientId);
-    await tx.billingPayment.create({
+    recorded.push(await tx.billingPayment.create({
       data: {
         billingPeriodId,
         amount: input.amount,
@@ -1546,7 +1709,7 @@ export async function issueReceipt(
         morningReceiptNumber: document.number,
         morningReceiptUrl: document.url?.he || document.url?.origin || null,
       },
-    });
+    }));
     const sums = await tx.billingPayment.aggregate({ where: { billingPeriodId }, _sum: { amount: true } });
     const paidAmount = Number(sums._sum.amount ?? 0);
     const totalGross = billingPeriodChargedGross(period);
@@ -1559,6 +1722,8 @@ export async function issueReceipt(
       include: { payments: { orderBy: { paidAt: 'desc' } }, lines: true, institutionalOrder: true },
     });
   });
+  publishPaymentsRecorded(recorded, updated);
+  return updated;
 }
 
 const UUID_RE = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
@@ -1696,8 +1861,9 @@ export async function linkExternalReceipt(
 
   const paidAtDate = input.paidAt ? new Date(input.paidAt) : new Date();
 
-  return prisma.$transaction(async (tx) => {
-    await tx.billingPayment.create({
+  const recorded: Prisma.BillingPaymentGetPayload<{}>[] = [];
+  const updated = await prisma.$transaction(async (tx) => {
+    recorded.push(await tx.billingPayment.create({
       data: {
         billingPeriodId,
         amount: input.amount,
@@ -1708,7 +1874,7 @@ export async function linkExternalReceipt(
         morningReceiptNumber: docNumber,
         morningReceiptUrl: docUrl,
       },
-    });
+    }));
     const sums = await tx.billingPayment.aggregate({ where: { billingPeriodId }, _sum: { amount: true } });
     const paidAmount = Number(sums._sum.amount ?? 0);
     const totalGross = billingPeriodChargedGross(period);
@@ -1721,6 +1887,8 @@ export async function linkExternalReceipt(
       include: { payments: { orderBy: { paidAt: 'desc' } }, lines: true, institutionalOrder: true },
     });
   });
+  publishPaymentsRecorded(recorded, updated);
+  return updated;
 }
 
 /**
@@ -1803,16 +1971,19 @@ export async function linkExternalTaxInvoice(
 
   // 305 — a tax invoice only, no money received: just link it, never mark paid.
   if (!is320) {
-    return prisma.billingPeriod.update({
+    const linked = await prisma.billingPeriod.update({
       where: { id: billingPeriodId },
       data: linkData,
       include: { lines: true, institutionalOrder: true, payments: true },
     });
+    publishBillingPeriodEvent('billing_period.tax_invoice_issued', linked);
+    return linked;
   }
 
   // 320 — includes a receipt. Link it, then record each Morning receipt line as a BillingPayment
   // and roll up paidAmount/paymentStatus, mirroring issueTaxInvoice so the two paths stay in sync.
-  return prisma.$transaction(async (tx) => {
+  const recorded: Prisma.BillingPaymentGetPayload<{}>[] = [];
+  const linked = await prisma.$transaction(async (tx) => {
     await tx.billingPeriod.update({ where: { id: billingPeriodId }, data: linkData });
 
     for (const p of morningPayments) {
@@ -1825,7 +1996,7 @@ export async function linkExternalTaxInvoice(
         bankBranch: p.bankBranch,
         bankAccount: p.bankAccount,
       };
-      await tx.billingPayment.create({
+      recorded.push(await tx.billingPayment.create({
         data: {
           billingPeriodId,
           amount: p.price,
@@ -1837,7 +2008,7 @@ export async function linkExternalTaxInvoice(
           morningReceiptNumber: docNumber,
           morningReceiptUrl: docUrl,
         },
-      });
+      }));
     }
 
     const sums = await tx.billingPayment.aggregate({ where: { billingPeriodId }, _sum: { amount: true } });
@@ -1853,4 +2024,7 @@ export async function linkExternalTaxInvoice(
       include: { lines: true, institutionalOrder: true, payments: true },
     });
   });
+  publishBillingPeriodEvent('billing_period.tax_invoice_issued', linked);
+  publishPaymentsRecorded(recorded, linked);
+  return linked;
 }
@@ -0,0 +1,217 @@
+/**
+ * Branch Blackout Service
+ *
+ * When a branch-level blackout (school trip, exam week, local vacation) is added, every
+ * scheduled meeting of that branch's active cycles on those dates is postponed:
+ *  - The meeting is marked postponed with zeroed amounts (same as a manual postpone)
+ *  - A replacement is added at the end of the cycle via addReplacementMeeting
+ *  - The cycle's endDate is resynced
+ *  - The instructor and the parents get one WhatsApp summary each
+ */
+
+import { prisma } from '../utils/prisma.js';
+import { logAudit } from '../utils/audit.js';
+import { syncCycleEndDate } from '../utils/cycle-sync.js';
+import { addReplacementMeetingWithRetry } from './replacement-meeting.js';
+import { recalculateDailyInstructorPaymentsForMeeting } from './instructor-payment.js';
+import { sendWhatsAppMessage } from './notifications.js';
+import { publishMeetingUpdated } from './domain-events.js';
+
+export interface BlackoutPostponement {
+  meetingId: string;
+  cycleId: string;
+  cycleName: string;
+  scheduledDate: Date;
+  replacementMeetingId: string | null;
+  replacementDate: Date | null;
+}
+
+export interface BlackoutApplyResult {
+  blackoutId: string;
+  postponed: BlackoutPostponement[];
+  replacementFailures: number;
+  instructorsNotified: number;
+  parentsNotified: number;
+}
+
+const ACTIVE_REGISTRATION_STATUSES = ['registered', 'active', 'trial'] as const;
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('he-IL', { timeZone: 'UTC' });
+}
+
+function formatTime(time: Date): string {
+  return time.toISOString().substring(11, 16);
+}
+
+function describePostponement(p: BlackoutPostponement): string {
+  const replacement = p.replacementDate ? ` ← פגישה חלופית ב-${formatDate(p.replacementDate)}` : '';
+  return `• ${p.cycleName}: ${formatDate(p.scheduledDate)}${replacement}`;
+}
+
+/** Scheduled meetings of the branch's active cycles that fall inside the blackout range. */
+export async function findBlackoutMeetings(branchId: string, startDate: Date, endDate: Date) {
+  return prisma.meeting.findMany({
+    where: {
+      scheduledDate: { gte: startDate, lte: endDate },
+      status: 'scheduled',
+      deletedAt: null,
+      cycle: { branchId, status: 'active', deletedAt: null },
+    },
+    include: {
+      cycle: { select: { id: true, name: true, sendParentReminders: true } },
+      instructor: { select: { id: true, name: true, phone: true } },
+    },
+    orderBy: [{ scheduledDate: 'asc' }, { startTime: 'asc' }],
+  });
+}
+
+/**
+ * Postpone every affected meeting of a blackout and notify the people involved.
+ * Meetings are processed one by one so consecutive replacements in the same cycle
+ * stack at its end. A failed replacement is reported (the admin is alerted by
+ * addReplacementMeetingWithRetry) but doesn't stop the rest of the cascade.
+ */
+export async function applyBranchBlackout(blackoutId: string, actorUserId: string): Promise<BlackoutApplyResult> {
+  const blackout = await prisma.branchBlackout.findUnique({
+    where: { id: blackoutId },
+    include: { branch: { select: { id: true, name: true } } },
+  });
+  if (!blackout) {
+    throw new Error(`[BranchBlackout] blackout not found: ${blackoutId}`);
+  }
+
+  const meetings = await findBlackoutMeetings(blackout.branchId, blackout.startDate, blackout.endDate);
+  const postponed: BlackoutPostponement[] = [];
+  const cycleIds = new Set<string>();
+  let replacementFailures = 0;
+
+  for (const meeting of meetings) {
+    const updated = await prisma.meeting.update({
+      where: { id: meeting.id },
+      data: {
+        status: 'postponed',
+        statusUpdatedAt: new Date(),
+        statusUpdatedById: actorUserId,
+        revenue: 0,
+        instructorPayment: 0,
+        profit: 0,
+        notes: meeting.notes ? `${meeting.notes}\n${blackout.reason}` : blackout.reason,
+      },
+    });
+    await recalculateDailyInstructorPaymentsForMeeting(meeting);
+
+    const replacementId = await addReplacementMeetingWithRetry(meeting.id, actorUserId, meeting.cycle.name);
+    if (!replacementId) replacementFailures++;
+    const replacement = replacementId
+      ? await prisma.meeting.findUnique({ where: { id: replacementId }, select: { scheduledDate: true } })
+      : null;
+
+    await logAudit({
+      userId: actorUserId,
+      action: 'UPDATE',
+      entity: 'Meeting',
+      entityId: meeting.id,
+      oldValue: { status: meeting.status },
+      newValue: { status: 'postponed', rescheduledToId: replacementId, branchBlackoutId: blackout.id },
+    });
+    publishMeetingUpdated(updated, meeting.status);
+
+    cycleIds.add(meeting.cycleId);
+    postponed.push({
+      meetingId: meeting.id,
+      cycleId: meeting.cycleId,
+      cycleName: meeting.cycle.name,
+      scheduledDate: meeting.scheduledDate,
+      replacementMeetingId: replacementId,
+      replacementDate: replacement?.scheduledDate ?? null,
+    });
+  }
+
+  // Replacements resync on success; resync again so failed replacements don't leave a stale end date.
+  for (const cycleId of cycleIds) {
+    await syncCycleEndDate(cycleId);
+  }
+
+  await prisma.branchBlackout.update({
+    where: { id: blackout.id },
+    data: { appliedAt: new Date(), postponedCount: { increment: postponed.length } },
+  });
+
+  const instructorsNotified = await notifyInstructors(blackout, meetings, postponed);
+  const parentsNotified = await notifyParents(blackout, meetings, postponed);
+
+  console.log(`[BranchBlackout] ${blackout.branch.name} ${formatDate(blackout.startDate)}–${formatDate(blackout.endDate)}: postponed=${postponed.length}, replacementFailures=${replacementFailures}`);
+
+  return { blackoutId: blackout.id, postponed, replacementFailures, instructorsNotified, parentsNotified };
+}
+
+type BlackoutInfo = { reason: string; branch: { name: string } };
+type BlackoutMeeting = Awaited<ReturnType<typeof findBlackoutMeetings>>[number];
+
+async function notifyInstructors(blackout: BlackoutInfo, meetings: BlackoutMeeting[], postponed: BlackoutPostponement[]): Promise<number> {
+  const byInstructor = new Map<string, { phone: string; name: string; lines: string[] }>();
+  for (const meeting of meetings) {
+    const p = postponed.find((x) => x.meetingId === meeting.id);
+    if (!p || !meeting.instructor?.phone) continue;
+    const entry = byInstructor.get(meeting.instructor.id) ?? { phone: meeting.instructor.phone, name: meeting.instructor.name, lines: [] };
+    entry.lines.push(`${describePostponement(p)} (${formatTime(meeting.startTime)})`);
+    byInstructor.set(meeting.instructor.id, entry);
+  }
+
+  let sent = 0;
+  for (const { phone, name, lines } of byInstructor.values()) {
+    const message = `📅 *שינוי בלוח הפגישות — ${blackout.branch.name}*\n\n` +
+      `שלום ${name}, עקב ${blackout.reason} הפגישות הבאות נדחו:\n${lines.join('\n')}`;
+    try {
+      if (await sendWhatsAppMessage(phone, message)) sent++;
+    } catch (error) {
+      console.error('[BranchBlackout] Failed to notify instructor:', error);
+    }
+  }
+  return sent;
+}
+
+async function notifyParents(blackout: BlackoutInfo, meetings: BlackoutMeeting[], postponed: BlackoutPostponement[]): Promise<number> {
+  // Parents are only messaged for cycles that have parent messaging enabled.
+  const cycleIds = [...new Set(meetings.filter((m) => m.cycle.sendParentReminders).map((m) => m.cycleId))];
+  if (cycleIds.length === 0) return 0;
+
+  const registrations = await prisma.registration.findMany({
+    where: { cycleId: { in: cycleIds }, status: { in: [...ACTIVE_REGISTRATION_STATUSES] } },
+    select: {
+      cycleId: true,
+      student: {
+        select: {
+          name: true,
+          customer: { select: { id: true, name: true, phone: true } },
+        },
+      },
+    },
+  });
+
+  const byCustomer = new Map<string, { phone: string; name: string; lines: Set<string> }>();
+  for (const registration of registrations) {
+    const customer = registration.student.customer;
+    if (!customer?.phone) continue;
+    const entry = byCustomer.get(customer.id) ?? { phone: customer.phone, name: customer.name, lines: new Set<string>() };
+    for (const p of postponed.filter((x) => x.cycleId === registration.cycleId)) {
+      entry.lines.add(`${describePostponement(p)} (${registration.student.name})`);
+    }
+    byCustomer.set(customer.id, entry);
+  }
+
+  let sent = 0;
+  for (const { phone, name, lines } of byCustomer.values()) {
+    if (lines.size === 0) continue;
+    const message = `שלום ${name},\n` +
+      `עקב ${blackout.reason} ב${blackout.branch.name}, השיעורים הבאים לא יתקיימו במועדם:\n` +
+      `${[...lines].join('\n')}\n\nהשיעורים יושלמו בסוף המחזור. צוות דרך ההייטק`;
+    try {
+      if (await sendWhatsAppMessage(phone, message)) sent++;
+    } catch (error) {
+      console.error('[BranchBlackout] Failed to notify parent:', error);
+    }
+  }
+  return sent;
+}
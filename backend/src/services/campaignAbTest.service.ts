@@ -0,0 +1,236 @@
+/**
+ * Campaign A/B tests
+ *
+ * A one-shot campaign with two or more CampaignVariants (subject / HTML / WhatsApp text) is sent
+ * in two phases:
+ *  1. On send, abTestPercent of the audience is drawn at random and split evenly between the
+ *     variants; only that slice is sent and the campaign waits in 'ab_testing'.
+ *  2. abWindowHours later (or when ops decide manually) the variant with the best open or click
+ *     rate wins: its content becomes the campaign's content and is sent to the remainder, in
+ *     batches of the campaign's dailyLimit when the send was throttled.
+ * Opens and clicks come from the existing per-recipient tracking (/track/open, /click).
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { sendCampaign } from './campaigns.service.js';
+import type { CampaignVariantsInput } from '../types/schemas.js';
+
+const TZ = 'Asia/Jerusalem';
+const DEFAULT_TEST_PERCENT = 20;
+const DEFAULT_WINDOW_HOURS = 4;
+const LABELS = 'ABCDE';
+
+export type AbWinnerMetric = 'open' | 'click';
+
+export interface VariantStats {
+  id: string;
+  label: string;
+  subject: string | null;
+  contentWa: string | null;
+  isWinner: boolean;
+  recipients: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  openRate: number;
+  clickRate: number;
+}
+
+let scheduledTask: ScheduledTask | null = null;
+
+const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+/** Replace the variants and test settings of a campaign that hasn't been sent yet. */
+export async function replaceCampaignVariants(campaignId: string, input: CampaignVariantsInput) {
+  const campaign = await prisma.campaign.findUnique({ where: { id: campaignId }, select: { status: true, type: true } });
+  if (!campaign) throw new AppError(404, 'Campaign not found');
+  if (campaign.type === 'drip') throw new AppError(400, 'A/B tests are for one-shot campaigns');
+  if (!['draft', 'scheduled'].includes(campaign.status)) {
+    throw new AppError(400, 'לא ניתן לשנות גרסאות לאחר שהקמפיין נשלח');
+  }
+
+  const enabled = input.variants.length > 0;
+  return prisma.$transaction(async (tx) => {
+    await tx.campaignVariant.deleteMany({ where: { campaignId } });
+    await tx.campaignVariant.createMany({
+      data: input.variants.map((variant, index) => ({
+        campaignId,
+        label: LABELS[index],
+        subject: variant.subject ?? null,
+        contentHtml: variant.contentHtml ?? null,
+        contentWa: variant.contentWa ?? null,
+      })),
+    });
+    await tx.campaign.update({
+      where: { id: campaignId },
+      data: {
+        abTestPercent: enabled ? input.abTestPercent ?? DEFAULT_TEST_PERCENT : null,
+        abWinnerMetric: enabled ? input.abWinnerMetric ?? 'open' : null,
+        abWindowHours: enabled ? input.abWindowHours ?? DEFAULT_WINDOW_HOURS : null,
+      },
+    });
+    return tx.campaignVariant.findMany({ where: { campaignId }, orderBy: { label: 'asc' } });
+  });
+}
+
+/**
+ * Draw the test slice from the campaign's pending recipients and split it round-robin between
+ * the variants. Every variant gets at least one recipient when the audience allows it.
+ */
+export async function assignVariantSlices(campaignId: string) {
+  const campaign = await prisma.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    select: { abTestPercent: true, variants: { orderBy: { label: 'asc' }, select: { id: true } } },
+  });
+  const pending = await prisma.campaignRecipient.findMany({
+    where: { campaignId, status: 'pending', variantId: null },
+    select: { id: true },
+  });
+
+  const ids = pending.map((recipient) => recipient.id);
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+
+  const percent = campaign.abTestPercent ?? DEFAULT_TEST_PERCENT;
+  const testSize = Math.min(ids.length, Math.max(campaign.variants.length, Math.round((ids.length * percent) / 100)));
+  const slices = campaign.variants.map(() => [] as string[]);
+  ids.slice(0, testSize).forEach((id, index) => slices[index % slices.length].push(id));
+
+  for (const [index, variant] of campaign.variants.entries()) {
+    if (slices[index].length === 0) continue;
+    await prisma.campaignRecipient.updateMany({
+      where: { id: { in: slices[index] } },
+      data: { variantId: variant.id },
+    });
+  }
+
+  return { testSize, remainder: ids.length - testSize };
+}
+
+/** Per-variant delivery, open and click counts of the test slice. */
+export async function getVariantStats(campaignId: string): Promise<VariantStats[]> {
+  const variants = await prisma.campaignVariant.findMany({
+    where: { campaignId },
+    orderBy: { label: 'asc' },
+    select: { id: true, label: true, subject: true, contentWa: true, isWinner: true },
+  });
+  if (variants.length === 0) return [];
+
+  const countBy = async (where: Record<string, unknown> = {}) => {
+    const rows = await prisma.campaignRecipient.groupBy({
+      by: ['variantId'],
+      where: { campaignId, variantId: { not: null }, ...where },
+      _count: { _all: true },
+    });
+    return new Map(rows.map((row) => [row.variantId, row._count._all]));
+  };
+
+  const [recipients, sent, opened, clicked] = await Promise.all([
+    countBy(),
+    countBy({ sentAt: { not: null } }),
+    countBy({ OR: [{ openedAt: { not: null } }, { clickCount: { gt: 0 } }] }),
+    countBy({ clickCount: { gt: 0 } }),
+  ]);
+
+  return variants.map((variant) => {
+    const sentCount = sent.get(variant.id) ?? 0;
+    const openedCount = opened.get(variant.id) ?? 0;
+    const clickedCount = clicked.get(variant.id) ?? 0;
+    return {
+      ...variant,
+      recipients: recipients.get(variant.id) ?? 0,
+      sent: sentCount,
+      opened: openedCount,
+      clicked: clickedCount,
+      openRate: rate(openedCount, sentCount),
+      clickRate: rate(clickedCount, sentCount),
+    };
+  });
+}
+
+/** Best variant by the metric; ties go to the other metric, then to the earlier label. */
+export function pickWinner(stats: VariantStats[], metric: AbWinnerMetric): VariantStats | null {
+  const [primary, secondary] = metric === 'click' ? ['clickRate', 'openRate'] as const : ['openRate', 'clickRate'] as const;
+  return stats.reduce<VariantStats | null>((best, variant) => {
+    if (!best) return variant;
+    if (variant[primary] !== best[primary]) return variant[primary] > best[primary] ? variant : best;
+    return variant[secondary] > best[secondary] ? variant : best;
+  }, null);
+}
+
+/**
+ * Choose the winner of a campaign in 'ab_testing', copy its content to the campaign and send
+ * it to the rest of the audience. The campaign is claimed by moving it out of 'ab_testing', so
+ * a manual decision racing the scheduler sends the remainder only once.
+ */
+export async function decideAbTest(campaignId: string) {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { status: true, abWinnerMetric: true, dailyLimit: true },
+  });
+  if (!campaign) throw new AppError(404, 'Campaign not found');
+  if (campaign.status !== 'ab_testing') throw new AppError(400, 'הקמפיין אינו בבדיקת A/B');
+
+  const stats = await getVariantStats(campaignId);
+  const winner = pickWinner(stats, (campaign.abWinnerMetric as AbWinnerMetric) ?? 'open');
+  if (!winner) throw new AppError(400, 'Campaign has no variants');
+
+  const variant = await prisma.campaignVariant.findUniqueOrThrow({ where: { id: winner.id } });
+  const claimed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.campaign.updateMany({
+      where: { id: campaignId, status: 'ab_testing' },
+      data: {
+        subject: variant.subject,
+        contentHtml: variant.contentHtml,
+        contentWa: variant.contentWa,
+        abDecidedAt: new Date(),
+        status: 'sending',
+      },
+    });
+    if (count !== 1) return false;
+    await tx.campaignVariant.update({ where: { id: winner.id }, data: { isWinner: true } });
+    return true;
+  });
+  if (!claimed) throw new AppError(400, 'הקמפיין אינו בבדיקת A/B');
+
+  sendCampaign(campaignId, campaign.dailyLimit ?? undefined).catch((error) => {
+    console.error(`[CampaignAbTest] campaign ${campaignId} remainder send failed:`, error);
+  });
+
+  return { winner: { ...winner, isWinner: true }, stats };
+}
+
+/** Decide every A/B test whose window has passed. */
+export async function processAbTests(now = new Date()) {
+  const testing = await prisma.campaign.findMany({
+    where: { status: 'ab_testing', abTestSentAt: { not: null } },
+    select: { id: true, abTestSentAt: true, abWindowHours: true },
+  });
+
+  let decided = 0;
+  for (const campaign of testing) {
+    const windowMs = (campaign.abWindowHours ?? DEFAULT_WINDOW_HOURS) * 60 * 60 * 1000;
+    if (campaign.abTestSentAt!.getTime() + windowMs > now.getTime()) continue;
+    try {
+      await decideAbTest(campaign.id);
+      decided++;
+    } catch (error) {
+      console.error(`[CampaignAbTest] campaign ${campaign.id} decision failed:`, error);
+    }
+  }
+  return decided;
+}
+
+export function initCampaignAbTestScheduler() {
+  if (scheduledTask) scheduledTask.stop();
+  scheduledTask = cron.schedule('*/15 * * * *', () => {
+    processAbTests().catch((error) => {
+      console.error('[CampaignAbTest] processing failed:', error);
+    });
+  }, { timezone: TZ });
+  console.log('   ✓ Campaign A/B tests: every 15 min → pick winners, send to the remainder');
+}
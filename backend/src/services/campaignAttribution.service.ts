@@ -0,0 +1,290 @@
+/**
+ * Campaign attribution
+ *
+ * Links marketing touches to the money that followed them:
+ *  - CRM campaigns: every CampaignRecipient sent to a known customer, plus landing-page leads
+ *    (LeadAppointment source 'campaign:<id>').
+ *  - Ad campaigns: FacebookLead / LeadAppointment rows carrying a campaignId / campaignName.
+ * A registration or paid Payment (payment-link charges included) is credited to the customer's
+ * latest touch before it, as long as it happened within the attribution window. Each conversion
+ * is credited once (last touch), so per-campaign totals add up to the report total.
+ * Spend comes from Google Ads when it's configured; campaigns without known spend report no
+ * cost-per-registration.
+ */
+
+import { prisma } from '../utils/prisma.js';
+import { getGoogleAdsSpend, isGoogleAdsConfigured } from './google-ads.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PERIOD_DAYS = 90;
+const PAYMENT_LINK_MARKER = '[payment-link:';
+
+export type TouchPlatform = 'crm' | 'ads';
+
+export interface CampaignTouch {
+  key: string;
+  platform: TouchPlatform;
+  campaignId: string | null;
+  name: string;
+  source: string;
+  customerId: string;
+  at: Date;
+}
+
+export interface CampaignAttributionRow {
+  key: string;
+  platform: TouchPlatform;
+  campaignId: string | null;
+  name: string;
+  source: string;
+  reached: number;
+  convertedCustomers: number;
+  registrations: number;
+  registrationValue: number;
+  revenue: number;
+  paymentLinkRevenue: number;
+  cost: number | null;
+  costPerRegistration: number | null;
+  conversionRate: number;
+}
+
+export interface CampaignAttributionOptions {
+  from?: Date;
+  to?: Date;
+  windowDays?: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function attributionWindowDays() {
+  return Number(process.env.CAMPAIGN_ATTRIBUTION_WINDOW_DAYS) || 30;
+}
+
+/** The customer's latest touch at or before `at` that is still inside the window. */
+export function findAttributedTouch(touches: CampaignTouch[], at: Date, windowDays: number) {
+  const windowMs = windowDays * DAY_MS;
+  let best: CampaignTouch | null = null;
+  for (const touch of touches) {
+    const age = at.getTime() - touch.at.getTime();
+    if (age < 0 || age > windowMs) continue;
+    if (!best || touch.at > best.at) best = touch;
+  }
+  return best;
+}
+
+async function loadTouches(since: Date, until: Date): Promise<CampaignTouch[]> {
+  const range = { gte: since, lte: until };
+  const [recipients, facebookLeads, appointments] = await Promise.all([
+    prisma.campaignRecipient.findMany({
+      where: { customerId: { not: null }, sentAt: range },
+      select: { customerId: true, sentAt: true, campaignId: true, campaign: { select: { name: true } } },
+    }),
+    prisma.facebookLead.findMany({
+      where: {
+        crmCustomerId: { not: null },
+        createdAt: range,
+        OR: [{ campaignId: { not: null } }, { campaignName: { not: null } }],
+      },
+      select: { crmCustomerId: true, campaignId: true, campaignName: true, fbCreatedTime: true, createdAt: true },
+    }),
+    prisma.leadAppointment.findMany({
+      where: {
+        customerId: { not: null },
+        createdAt: range,
+        OR: [{ campaignId: { not: null } }, { campaignName: { not: null } }, { source: { startsWith: 'campaign:' } }],
+      },
+      select: { customerId: true, campaignId: true, campaignName: true, source: true, createdAt: true },
+    }),
+  ]);
+
+  const touches: CampaignTouch[] = recipients.map((recipient) => ({
+    key: `crm:${recipient.campaignId}`,
+    platform: 'crm',
+    campaignId: recipient.campaignId,
+    name: recipient.campaign.name,
+    source: 'crm',
+    customerId: recipient.customerId!,
+    at: recipient.sentAt!,
+  }));
+
+  const adTouch = (customerId: string, campaignId: string | null, campaignName: string | null, source: string, at: Date): CampaignTouch => ({
+    key: `ads:${campaignId ?? campaignName}`,
+    platform: 'ads',
+    campaignId,
+    name: campaignName ?? campaignId!,
+    source,
+    customerId,
+    at,
+  });
+
+  for (const lead of facebookLeads) {
+    touches.push(adTouch(lead.crmCustomerId!, lead.campaignId, lead.campaignName, 'facebook', lead.fbCreatedTime ?? lead.createdAt));
+  }
+
+  const landingCampaignIds = new Set<string>();
+  for (const appointment of appointments) {
+    if (appointment.source.startsWith('campaign:')) {
+      const campaignId = appointment.source.slice('campaign:'.length);
+      landingCampaignIds.add(campaignId);
+      touches.push({
+        key: `crm:${campaignId}`,
+        platform: 'crm',
+        campaignId,
+        name: campaignId,
+        source: 'crm',
+        customerId: appointment.customerId!,
+        at: appointment.createdAt,
+      });
+    } else {
+      touches.push(adTouch(appointment.customerId!, appointment.campaignId, appointment.campaignName, appointment.source, appointment.createdAt));
+    }
+  }
+
+  // Landing-page leads only carry the campaign id — fill in the name
+  if (landingCampaignIds.size > 0) {
+    const campaigns = await prisma.campaign.findMany({
+      where: { id: { in: [...landingCampaignIds] } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(campaigns.map((campaign) => [campaign.id, campaign.name]));
+    for (const touch of touches) {
+      if (touch.platform === 'crm' && names.has(touch.campaignId!)) touch.name = names.get(touch.campaignId!)!;
+    }
+  }
+
+  return touches;
+}
+
+async function loadAdSpend(from: Date, to: Date) {
+  if (!isGoogleAdsConfigured()) return null;
+  const fmt = (date: Date) => date.toISOString().split('T')[0];
+  try {
+    return await getGoogleAdsSpend(fmt(from), fmt(to));
+  } catch (error) {
+    console.error('[CampaignAttribution] Google Ads spend unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Per-campaign conversions and revenue for registrations / payments made between `from` and
+ * `to`. Touches up to `windowDays` before `from` still count, so early conversions in the
+ * period are not lost.
+ */
+export async function getCampaignAttribution(options: CampaignAttributionOptions = {}) {
+  const to = options.to ?? new Date();
+  const from = options.from ?? new Date(to.getTime() - DEFAULT_PERIOD_DAYS * DAY_MS);
+  const windowDays = options.windowDays ?? attributionWindowDays();
+
+  const touches = await loadTouches(new Date(from.getTime() - windowDays * DAY_MS), to);
+  const touchesByCustomer = new Map<string, CampaignTouch[]>();
+  for (const touch of touches) {
+    const list = touchesByCustomer.get(touch.customerId) ?? [];
+    list.push(touch);
+    touchesByCustomer.set(touch.customerId, list);
+  }
+  const customerIds = [...touchesByCustomer.keys()];
+
+  const [registrations, payments, spend] = await Promise.all([
+    customerIds.length === 0 ? [] : prisma.registration.findMany({
+      where: {
+        deletedAt: null,
+        status: { notIn: ['cancelled', 'trial'] },
+        createdAt: { gte: from, lte: to },
+        student: { customerId: { in: customerIds } },
+      },
+      select: { amount: true, createdAt: true, student: { select: { customerId: true } } },
+    }),
+    customerIds.length === 0 ? [] : prisma.payment.findMany({
+      where: { status: 'paid', paidAt: { gte: from, lte: to }, customerId: { in: customerIds } },
+      select: { customerId: true, amount: true, paidAt: true, description: true },
+    }),
+    loadAdSpend(from, to),
+  ]);
+
+  const rows = new Map<string, CampaignAttributionRow & { reachedIds: Set<string>; convertedIds: Set<string> }>();
+  const rowFor = (touch: CampaignTouch) => {
+    let row = rows.get(touch.key);
+    if (!row) {
+      row = {
+        key: touch.key,
+        platform: touch.platform,
+        campaignId: touch.campaignId,
+        name: touch.name,
+        source: touch.source,
+        reached: 0,
+        convertedCustomers: 0,
+        registrations: 0,
+        registrationValue: 0,
+        revenue: 0,
+        paymentLinkRevenue: 0,
+        cost: null,
+        costPerRegistration: null,
+        conversionRate: 0,
+        reachedIds: new Set(),
+        convertedIds: new Set(),
+      };
+      rows.set(touch.key, row);
+    }
+    return row;
+  };
+
+  for (const touch of touches) {
+    if (touch.at >= from) rowFor(touch).reachedIds.add(touch.customerId);
+  }
+
+  for (const registration of registrations) {
+    const customerId = registration.student.customerId;
+    const touch = findAttributedTouch(touchesByCustomer.get(customerId) ?? [], registration.createdAt, windowDays);
+    if (!touch) continue;
+    const row = rowFor(touch);
+    row.registrations++;
+    row.registrationValue += Number(registration.amount ?? 0);
+    row.convertedIds.add(customerId);
+  }
+
+  for (const payment of payments) {
+    const touch = findAttributedTouch(touchesByCustomer.get(payment.customerId!) ?? [], payment.paidAt!, windowDays);
+    if (!touch) continue;
+    const row = rowFor(touch);
+    row.revenue += payment.amount;
+    if (payment.description.includes(PAYMENT_LINK_MARKER)) row.paymentLinkRevenue += payment.amount;
+    row.convertedIds.add(payment.customerId!);
+  }
+
+  const spendById = new Map((spend ?? []).map((campaign) => [campaign.id, campaign.cost]));
+  const spendByName = new Map((spend ?? []).map((campaign) => [campaign.name.trim().toLowerCase(), campaign.cost]));
+
+  const result: CampaignAttributionRow[] = [...rows.values()].map(({ reachedIds, convertedIds, ...row }) => {
+    const cost = row.platform === 'ads'
+      ? spendById.get(row.campaignId ?? '') ?? spendByName.get(row.name.trim().toLowerCase()) ?? null
+      : null;
+    return {
+      ...row,
+      reached: reachedIds.size,
+      convertedCustomers: convertedIds.size,
+      registrationValue: round2(row.registrationValue),
+      revenue: round2(row.revenue),
+      paymentLinkRevenue: round2(row.paymentLinkRevenue),
+      cost,
+      costPerRegistration: cost !== null && row.registrations > 0 ? round2(cost / row.registrations) : null,
+      conversionRate: reachedIds.size > 0 ? Math.round((convertedIds.size / reachedIds.size) * 1000) / 10 : 0,
+    };
+  });
+  result.sort((a, b) => b.revenue - a.revenue || b.registrations - a.registrations);
+
+  const totalCost = result.reduce((sum, row) => sum + (row.cost ?? 0), 0);
+  const totalRegistrations = result.reduce((sum, row) => sum + row.registrations, 0);
+  return {
+    from,
+    to,
+    windowDays,
+    spendAvailable: spend !== null,
+    campaigns: result,
+    totals: {
+      registrations: totalRegistrations,
+      revenue: round2(result.reduce((sum, row) => sum + row.revenue, 0)),
+      cost: round2(totalCost),
+    },
+  };
+}
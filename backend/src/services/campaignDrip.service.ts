@@ -0,0 +1,460 @@
+/**
+ * Drip campaigns
+ *
+ * A Campaign with type 'drip' is an ordered sequence of CampaignSteps instead of a single send.
+ * Recipients are enrolled by the campaign's trigger:
+ *  - audience              — everyone matching audienceFilters when the campaign is activated
+ *  - facebook_lead         — every new Facebook lead-ads lead
+ *  - cycle_completed       — the families of a cycle that just completed
+ *  - trial_not_registered  — attended a trial lesson and hasn't registered since (hourly scan)
+ * Each enrollment walks the steps in order: a step runs delayMinutes after the previous one,
+ * is skipped when its condition on the earlier steps (opened / clicked) isn't met, and is sent
+ * as its own CampaignRecipient row so open, click and unsubscribe tracking work as they do for
+ * one-shot campaigns. The campaign's exit conditions (registered to a cycle, replied on
+ * WhatsApp, unsubscribed) are checked before every step and end the enrollment early.
+ * Customers who unsubscribed are never enrolled, and an unsubscribe always ends the
+ * enrollment before its next email step, exit conditions or not.
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import type { Prisma, RegistrationStatus } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { subscribeDomainEvents } from './domain-events.js';
+import { campaignLandingUrl, deliverToRecipient, resolveAudience, type AudienceFilters } from './campaigns.service.js';
+import type { CampaignStepsInput } from '../types/schemas.js';
+
+const TZ = 'Asia/Jerusalem';
+const BATCH_SIZE = 200;
+const TRIAL_LOOKBACK_DAYS = 14;
+const CONVERTED_STATUSES: RegistrationStatus[] = ['registered', 'active'];
+
+export type DripTrigger = 'audience' | 'facebook_lead' | 'cycle_completed' | 'trial_not_registered';
+export type DripExitCondition = 'registered' | 'replied' | 'unsubscribed';
+
+export interface DripRecipient {
+  customerId: string | null;
+  name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+let dueTask: ScheduledTask | null = null;
+let trialTask: ScheduledTask | null = null;
+let running = false;
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60_000);
+
+const enrollmentInclude = {
+  campaign: {
+    select: {
+      id: true,
+      landingUrl: true,
+      exitConditions: true,
+      steps: { orderBy: { position: 'asc' } },
+    },
+  },
+  customer: { select: { name: true, emailUnsubscribed: true } },
+  recipients: { select: { openedAt: true, clickCount: true } },
+} satisfies Prisma.CampaignEnrollmentInclude;
+
+type DueEnrollment = Prisma.CampaignEnrollmentGetPayload<{ include: typeof enrollmentInclude }>;
+
+/** Enroll recipients in one campaign; a customer is enrolled once per triggerRef. */
+async function enroll(
+  campaign: { id: string; steps: { delayMinutes: number }[] },
+  trigger: DripTrigger,
+  recipients: DripRecipient[],
+  triggerRef: string | null,
+): Promise<number> {
+  if (recipients.length === 0 || campaign.steps.length === 0) return 0;
+
+  // Same rule as resolveAudience(): customers who unsubscribed are never enrolled
+  let eligible = recipients;
+  const customerIds = recipients.map((recipient) => recipient.customerId).filter((id): id is string => !!id);
+  if (customerIds.length > 0) {
+    const unsubscribed = await prisma.customer.findMany({
+      where: { id: { in: customerIds }, emailUnsubscribed: true },
+      select: { id: true },
+    });
+    const excluded = new Set(unsubscribed.map((customer) => customer.id));
+    eligible = recipients.filter((recipient) => !recipient.customerId || !excluded.has(recipient.customerId));
+    if (eligible.length === 0) return 0;
+  }
+
+  const nextRunAt = addMinutes(new Date(), campaign.steps[0].delayMinutes);
+  const { count } = await prisma.campaignEnrollment.createMany({
+    data: eligible.map((recipient) => ({
+      campaignId: campaign.id,
+      customerId: recipient.customerId,
+      recipientName: recipient.name ?? null,
+      phone: recipient.phone ?? null,
+      email: recipient.email ?? null,
+      trigger,
+      triggerRef,
+      nextRunAt,
+    })),
+    skipDuplicates: true,
+  });
+
+  if (count > 0) {
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: { recipientCount: { increment: count } },
+    });
+  }
+  return count;
+}
+
+/** Enroll recipients in every active drip campaign listening to the trigger. */
+export async function enrollInDripCampaigns(
+  trigger: DripTrigger,
+  recipients: DripRecipient[],
+  triggerRef: string | null = null,
+): Promise<number> {
+  const campaigns = await prisma.campaign.findMany({
+    where: { type: 'drip', status: 'active', trigger },
+    select: { id: true, steps: { orderBy: { position: 'asc' }, take: 1, select: { delayMinutes: true } } },
+  });
+
+  let enrolled = 0;
+  for (const campaign of campaigns) {
+    enrolled += await enroll(campaign, trigger, recipients, triggerRef);
+  }
+  return enrolled;
+}
+
+/** Replace a campaign's steps; positions follow the array order. */
+export async function replaceCampaignSteps(campaignId: string, input: CampaignStepsInput) {
+  const campaign = await prisma.campaign.findUnique({ where: { id: campaignId }, select: { type: true } });
+  if (!campaign) throw new AppError(404, 'Campaign not found');
+  if (campaign.type !== 'drip') throw new AppError(400, 'Only drip campaigns have steps');
+
+  return prisma.$transaction(async (tx) => {
+    await tx.campaignStep.deleteMany({ where: { campaignId } });
+    await tx.campaignStep.createMany({
+      data: input.steps.map((step, index) => ({
+        campaignId,
+        position: index + 1,
+        delayMinutes: step.delayMinutes,
+        channel: step.channel,
+        condition: step.condition,
+        subject: step.subject ?? null,
+        contentHtml: step.contentHtml ?? null,
+        contentWa: step.contentWa ?? null,
+      })),
+    });
+    return tx.campaignStep.findMany({ where: { campaignId }, orderBy: { position: 'asc' } });
+  });
+}
+
+/**
+ * Start (or resume) a drip campaign. The 'audience' trigger enrolls the campaign's audience the
+ * first time it is activated; event triggers only enroll from now on.
+ */
+export async function activateDripCampaign(campaignId: string) {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    include: { steps: { orderBy: { position: 'asc' } } },
+  });
+  if (!campaign) throw new AppError(404, 'Campaign not found');
+  if (campaign.type !== 'drip') throw new AppError(400, 'Only drip campaigns can be activated');
+  if (!campaign.trigger) throw new AppError(400, 'יש לבחור טריגר לפני הפעלת הרצף');
+  if (campaign.steps.length === 0) throw new AppError(400, 'יש להוסיף לפחות שלב אחד לרצף');
+
+  const firstActivation = !campaign.startedAt;
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: { status: 'active', ...(firstActivation && { startedAt: new Date() }) },
+  });
+
+  let enrolled = 0;
+  if (campaign.trigger === 'audience' && firstActivation) {
+    const audience = await resolveAudience(campaign.audienceFilters as AudienceFilters);
+    enrolled = await enroll(
+      campaign,
+      'audience',
+      audience.recipients.map((recipient) => {
+        const isAnon = recipient.customerId.startsWith('file:');
+        return {
+          customerId: isAnon ? null : recipient.customerId,
+          name: recipient.customerName,
+          phone: recipient.phone,
+          email: recipient.email,
+        };
+      }),
+      'audience',
+    );
+  }
+
+  return { status: 'active', enrolled };
+}
+
+export async function pauseDripCampaign(campaignId: string) {
+  const campaign = await prisma.campaign.findUnique({ where: { id: campaignId }, select: { type: true } });
+  if (!campaign) throw new AppError(404, 'Campaign not found');
+  if (campaign.type !== 'drip') throw new AppError(400, 'Only drip campaigns can be paused');
+  await prisma.campaign.update({ where: { id: campaignId }, data: { status: 'paused' } });
+  return { status: 'paused' };
+}
+
+async function isUnsubscribed(enrollment: DueEnrollment): Promise<boolean> {
+  if (enrollment.customer?.emailUnsubscribed) return true;
+  const unsubscribed = await prisma.campaignRecipient.count({
+    where: { enrollmentId: enrollment.id, status: 'unsubscribed' },
+  });
+  return unsubscribed > 0;
+}
+
+async function findExitReason(enrollment: DueEnrollment): Promise<DripExitCondition | null> {
+  const conditions = enrollment.campaign.exitConditions as DripExitCondition[];
+
+  if (conditions.includes('unsubscribed') && await isUnsubscribed(enrollment)) return 'unsubscribed';
+
+  if (conditions.includes('registered') && enrollment.customerId) {
+    const registrations = await prisma.registration.count({
+      where: {
+        status: { in: CONVERTED_STATUSES },
+        deletedAt: null,
+        createdAt: { gte: enrollment.createdAt },
+        student: { customerId: enrollment.customerId },
+      },
+    });
+    if (registrations > 0) return 'registered';
+  }
+
+  const phoneKey = enrollment.phone?.replace(/\D/g, '').slice(-9);
+  if (conditions.includes('replied') && phoneKey) {
+    const replies = await prisma.waMessage.count({
+      where: {
+        direction: 'inbound',
+        createdAt: { gte: enrollment.createdAt },
+        conversation: { phone: { contains: phoneKey } },
+      },
+    });
+    if (replies > 0) return 'replied';
+  }
+
+  return null;
+}
+
+/** Branching: whether a step should be sent, based on how the earlier steps were received. */
+function conditionMet(condition: string, previous: { openedAt: Date | null; clickCount: number }[]) {
+  const clicked = previous.some((recipient) => recipient.clickCount > 0);
+  const opened = clicked || previous.some((recipient) => recipient.openedAt);
+  switch (condition) {
+    case 'opened': return opened;
+    case 'not_opened': return !opened;
+    case 'clicked': return clicked;
+    case 'not_clicked': return !clicked;
+    default: return true;
+  }
+}
+
+type StepOutcome = 'sent' | 'failed' | 'skipped' | 'exited' | 'completed';
+
+async function runEnrollmentStep(enrollment: DueEnrollment, now: Date): Promise<StepOutcome> {
+  const { steps } = enrollment.campaign;
+  const step = steps.find((candidate) => candidate.position >= enrollment.currentStep);
+
+  // An unsubscribe always stops email, whether or not the campaign lists it as an exit condition
+  const unsubscribedFromEmail = step && step.channel !== 'whatsapp' && await isUnsubscribed(enrollment);
+  const exitReason = unsubscribedFromEmail ? 'unsubscribed' : await findExitReason(enrollment);
+  if (exitReason) {
+    await prisma.campaignEnrollment.update({
+      where: { id: enrollment.id },
+      data: { status: 'exited', exitReason, nextRunAt: null, completedAt: now },
+    });
+    return 'exited';
+  }
+
+  if (!step) {
+    await prisma.campaignEnrollment.update({
+      where: { id: enrollment.id },
+      data: { status: 'completed', nextRunAt: null, completedAt: now },
+    });
+    return 'completed';
+  }
+
+  let outcome: StepOutcome = 'skipped';
+  if (conditionMet(step.condition, enrollment.recipients)) {
+    const recipient = await prisma.campaignRecipient.create({
+      data: {
+        campaignId: enrollment.campaignId,
+        customerId: enrollment.customerId,
+        recipientName: enrollment.recipientName,
+        phone: enrollment.phone,
+        email: enrollment.email,
+        stepId: step.id,
+        enrollmentId: enrollment.id,
+      },
+    });
+    const result = await deliverToRecipient(
+      enrollment.campaignId,
+      { ...recipient, customer: enrollment.customer },
+      {
+        channel: step.channel,
+        subject: step.subject,
+        contentHtml: step.contentHtml,
+        contentWa: step.contentWa,
+        landingUrl: campaignLandingUrl(enrollment.campaign),
+      },
+    );
+    await prisma.campaignRecipient.update({
+      where: { id: recipient.id },
+      data: result.sent ? { status: 'sent', sentAt: new Date() } : { status: 'failed', error: result.error },
+    });
+    await prisma.campaign.update({
+      where: { id: enrollment.campaignId },
+      data: result.sent ? { deliveredCount: { increment: 1 } } : { failedCount: { increment: 1 } },
+    });
+    outcome = result.sent ? 'sent' : 'failed';
+  }
+
+  const next = steps.find((candidate) => candidate.position > step.position);
+  await prisma.campaignEnrollment.update({
+    where: { id: enrollment.id },
+    data: next
+      ? { currentStep: next.position, lastStepAt: now, nextRunAt: addMinutes(now, next.delayMinutes) }
+      : { currentStep: step.position + 1, lastStepAt: now, status: 'completed', nextRunAt: null, completedAt: now },
+  });
+  return outcome;
+}
+
+/**
+ * Run the next step of every enrollment that is due, in active campaigns only.
+ * Skips a tick while the previous run is still sending — nextRunAt only moves after each
+ * send, so an overlapping run would send the same step again.
+ */
+export async function processDueEnrollments(now = new Date()) {
+  const summary: Record<StepOutcome, number> = { sent: 0, failed: 0, skipped: 0, exited: 0, completed: 0 };
+  if (running) return { processed: 0, ...summary };
+  running = true;
+  try {
+    return await runDueEnrollments(now, summary);
+  } finally {
+    running = false;
+  }
+}
+
+async function runDueEnrollments(now: Date, summary: Record<StepOutcome, number>) {
+  const due = await prisma.campaignEnrollment.findMany({
+    where: {
+      status: 'active',
+      nextRunAt: { lte: now },
+      campaign: { type: 'drip', status: 'active' },
+    },
+    include: enrollmentInclude,
+    orderBy: { nextRunAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const enrollment of due) {
+    try {
+      summary[await runEnrollmentStep(enrollment, now)]++;
+    } catch (error) {
+      console.error(`[CampaignDrip] enrollment ${enrollment.id} failed:`, error);
+    }
+  }
+  return { processed: due.length, ...summary };
+}
+
+/**
+ * Enroll families whose child attended a trial lesson in the last TRIAL_LOOKBACK_DAYS and
+ * hasn't been registered to a cycle since. Re-running is safe: the trial meeting is the
+ * triggerRef, so each trial enrolls a family once.
+ */
+export async function enrollTrialFollowups(now = new Date()) {
+  const hasCampaigns = await prisma.campaign.count({
+    where: { type: 'drip', status: 'active', trigger: 'trial_not_registered' },
+  });
+  if (hasCampaigns === 0) return 0;
+
+  const since = new Date(now.getTime() - TRIAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const customerSelect = { select: { id: true, name: true, phone: true, email: true } } as const;
+  const attendance = await prisma.attendance.findMany({
+    where: {
+      status: { in: ['present', 'late'] },
+      meeting: { scheduledDate: { gte: since, lte: now }, deletedAt: null },
+      OR: [
+        { isTrial: true },
+        { registration: { status: 'trial' } },
+        { meeting: { cycle: { type: 'trial_private' } } },
+      ],
+    },
+    select: {
+      meetingId: true,
+      meeting: { select: { scheduledDate: true } },
+      student: { select: { customer: customerSelect } },
+      registration: { select: { student: { select: { customer: customerSelect } } } },
+    },
+  });
+
+  let enrolled = 0;
+  const seen = new Set<string>();
+  for (const row of attendance) {
+    const customer = row.student?.customer ?? row.registration?.student.customer;
+    if (!customer || seen.has(`${customer.id}|${row.meetingId}`)) continue;
+    seen.add(`${customer.id}|${row.meetingId}`);
+
+    const registered = await prisma.registration.count({
+      where: {
+        status: { in: CONVERTED_STATUSES },
+        deletedAt: null,
+        createdAt: { gte: row.meeting.scheduledDate },
+        student: { customerId: customer.id },
+      },
+    });
+    if (registered > 0) continue;
+
+    enrolled += await enrollInDripCampaigns(
+      'trial_not_registered',
+      [{ customerId: customer.id, name: customer.name, phone: customer.phone, email: customer.email }],
+      row.meetingId,
+    );
+  }
+  return enrolled;
+}
+
+/**
+ * cycle.completed is published before the cycle's registrations are closed, so completed
+ * registrations are included (as in parent-notifications.ts).
+ */
+async function enrollCompletedCycle(cycleId: string) {
+  const registrations = await prisma.registration.findMany({
+    where: { cycleId, deletedAt: null, status: { in: [...CONVERTED_STATUSES, 'completed'] } },
+    select: { student: { select: { customer: { select: { id: true, name: true, phone: true, email: true } } } } },
+  });
+
+  const recipients = new Map<string, DripRecipient>();
+  for (const { student: { customer } } of registrations) {
+    recipients.set(customer.id, { customerId: customer.id, name: customer.name, phone: customer.phone, email: customer.email });
+  }
+  await enrollInDripCampaigns('cycle_completed', [...recipients.values()], cycleId);
+}
+
+export function initCampaignDripSubscribers(): () => void {
+  return subscribeDomainEvents(async (event, data) => {
+    if (event !== 'cycle.completed') return;
+    if (data.id) await enrollCompletedCycle(data.id);
+  });
+}
+
+export function initCampaignDripScheduler() {
+  if (dueTask) dueTask.stop();
+  if (trialTask) trialTask.stop();
+
+  dueTask = cron.schedule('*/5 * * * *', () => {
+    processDueEnrollments().catch((error) => {
+      console.error('[CampaignDrip] processing failed:', error);
+    });
+  }, { timezone: TZ });
+
+  trialTask = cron.schedule('20 * * * *', () => {
+    enrollTrialFollowups().catch((error) => {
+      console.error('[CampaignDrip] trial scan failed:', error);
+    });
+  }, { timezone: TZ });
+
+  console.log('   ✓ Drip campaigns: every 5 min → due steps, hourly → trial follow-ups');
+}
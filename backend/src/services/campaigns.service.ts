@@ -28,6 +28,20 @@ export interface AudienceFilters {
   hasEmail?: boolean;
   hasPhone?: boolean;
   fileRecipients?: FileRecipient[];
+  // CRM rules — narrow any of the modes above
+  leadStatuses?: string[];
+  sources?: string[];
+  cities?: string[];
+  attendedWithinDays?: number;
+  notAttendedForDays?: number;
+  upsellStatuses?: string[];
+  unpaidRegistrations?: boolean;
+  completedCourseIds?: string[];
+  waConversationStatuses?: string[];
+  // Exclusion lists
+  excludeSegmentIds?: string[];
+  excludeCampaignIds?: string[]; // customers who already received these campaigns
+  excludePhones?: string[];
 }
 
 export interface RecipientInfo {
@@ -48,6 +62,122 @@ function sleep(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const last9 = (phone: string) => phone.replace(/\D/g, '').slice(-9);
+
+/** Customer-level conditions for the CRM rules of an audience. */
+function crmRulesWhere(filters: AudienceFilters): Record<string, unknown> {
+  const { leadStatuses, sources, cities, attendedWithinDays, notAttendedForDays, upsellStatuses, unpaidRegistrations, completedCourseIds } = filters;
+  const where: Record<string, unknown> = {};
+  const and: Record<string, unknown>[] = [];
+  const attendedSince = (days: number) => ({
+    attendance: { some: { status: { in: ['present', 'late'] }, meeting: { scheduledDate: { gte: new Date(Date.now() - days * DAY_MS) } } } },
+  });
+
+  if (leadStatuses?.length) where.leadStatus = { in: leadStatuses };
+  if (sources?.length) where.source = { in: sources };
+  if (cities?.length) where.city = { in: cities };
+  if (attendedWithinDays) and.push({ students: { some: attendedSince(attendedWithinDays) } });
+  if (notAttendedForDays) and.push({ students: { none: attendedSince(notAttendedForDays) } });
+  if (upsellStatuses?.length) and.push({ upsellLeads: { some: { status: { in: upsellStatuses } } } });
+  if (unpaidRegistrations) {
+    and.push({
+      students: { some: { registrations: { some: { deletedAt: null, status: { notIn: ['cancelled'] }, paymentStatus: { in: ['unpaid', 'partial'] } } } } },
+    });
+  }
+  if (completedCourseIds?.length) {
+    and.push({
+      students: {
+        some: {
+          registrations: {
+            some: {
+              deletedAt: null,
+              cycle: { courseId: { in: completedCourseIds } },
+              OR: [{ status: 'completed' }, { cycle: { status: 'completed' } }],
+            },
+          },
+        },
+      },
+    });
+  }
+  if (and.length) where.AND = and;
+  return where;
+}
+
+/**
+ * Drop recipients that fail the WhatsApp-conversation rule (no customer relation — matched by
+ * phone) or that are on one of the exclusion lists.
+ */
+async function applyAudienceExclusions(recipients: RecipientInfo[], filters: AudienceFilters): Promise<RecipientInfo[]> {
+  const { waConversationStatuses, excludeSegmentIds, excludeCampaignIds, excludePhones } = filters;
+  let result = recipients;
+
+  if (waConversationStatuses?.length) {
+    const conversations = await prisma.waConversation.findMany({
+      where: { status: { in: waConversationStatuses as ('open' | 'pending' | 'closed')[] } },
+      select: { phone: true },
+    });
+    const phones = new Set(conversations.map(c => last9(c.phone)));
+    result = result.filter(r => r.phone && phones.has(last9(r.phone)));
+  }
+
+  const excludedIds = new Set<string>();
+  const excludedPhones = new Set((excludePhones ?? []).map(last9).filter(Boolean));
+
+  if (excludeCampaignIds?.length) {
+    const received = await prisma.campaignRecipient.findMany({
+      where: { campaignId: { in: excludeCampaignIds }, status: 'sent' },
+      select: { customerId: true, phone: true },
+    });
+    for (const r of received) {
+      if (r.customerId) excludedIds.add(r.customerId);
+      if (r.phone) excludedPhones.add(last9(r.phone));
+    }
+  }
+
+  if (excludeSegmentIds?.length) {
+    const segments = await prisma.audienceSegment.findMany({
+      where: { id: { in: excludeSegmentIds } },
+      select: { filters: true },
+    });
+    for (const segment of segments) {
+      // Exclusions of an excluded segment are not followed — one level is enough and can't loop
+      const segmentFilters = { ...(segment.filters as AudienceFilters), excludeSegmentIds: undefined };
+      const { recipients: excluded } = await resolveAudience(segmentFilters);
+      for (const r of excluded) excludedIds.add(r.customerId);
+    }
+  }
+
+  if (excludedIds.size === 0 && excludedPhones.size === 0) return result;
+  return result.filter(r => !excludedIds.has(r.customerId) && !(r.phone && excludedPhones.has(last9(r.phone))));
+}
+
+function audienceResult(recipients: RecipientInfo[]): AudienceResult {
+  return { count: recipients.length, sample: recipients.slice(0, 10), recipients };
+}
+
+/** Distinct customer sources and cities, for the audience builder's rule pickers. */
+export async function getAudienceOptions() {
+  const [sources, cities] = await Promise.all([
+    prisma.customer.findMany({
+      where: { deletedAt: null, source: { not: null } },
+      distinct: ['source'],
+      select: { source: true },
+      orderBy: { source: 'asc' },
+    }),
+    prisma.customer.findMany({
+      where: { deletedAt: null, city: { not: null } },
+      distinct: ['city'],
+      select: { city: true },
+      orderBy: { city: 'asc' },
+    }),
+  ]);
+  return {
+    sources: sources.map(c => c.source!).filter(Boolean),
+    cities: cities.map(c => c.city!).filter(Boolean),
+  };
+}
+
 export async function resolveAudience(filters: AudienceFilters): Promise<AudienceResult> {
   const {
     cycleIds, courseIds, branchIds, ageMin, ageMax,
@@ -105,7 +235,7 @@ export async function resolveAudience(filters: AudienceFilters): Promise<Audienc
       }
     }
 
-    return { count: recipients.length, sample: recipients.slice(0, 10), recipients };
+    return audienceResult(await applyAudienceExclusions(recipients, filters));
   }
 
   const hasCycleFilters =
@@ -117,6 +247,7 @@ export async function resolveAudience(filters: AudienceFilters): Promise<Audienc
     (cycleStatus && cycleStatus !== 'all');
 
   const hasContactFilters = hasEmail !== undefined || hasPhone !== undefined;
+  const rulesWhere = crmRulesWhere(filters);
 
   // ── "not_registered": customers with NO active registrations ─────────────
   if (registrationStatus === 'not_registered') {
@@ -127,7 +258,7 @@ export async function resolveAudience(filters: AudienceFilters): Promise<Audienc
     });
     const registeredIds = new Set(activeRegs.map(r => r.student.customerId));
 
-    const customerWhere: Record<string, unknown> = { deletedAt: null, emailUnsubscribed: false };
+    const customerWhere: Record<string, unknown> = { deletedAt: null, emailUnsubscribed: false, ...rulesWhere };
     if (hasEmail) customerWhere.email = { not: null };
     if (hasPhone) customerWhere.phone = { not: null };
 
@@ -145,13 +276,13 @@ export async function resolveAudience(filters: AudienceFilters): Promise<Audienc
         email: c.email || undefined,
       }));
 
-    return { count: recipients.length, sample: recipients.slice(0, 10), recipients };
+    return audienceResult(await applyAudienceExclusions(recipients, filters));
   }
 
   // ── No cycle/contact filters + registered=all: all customers ─────────────
   if (!hasCycleFilters && !hasContactFilters && registrationStatus === 'all') {
     const customers = await prisma.customer.findMany({
-      where: { deletedAt: null, emailUnsubscribed: false },
+      where: { deletedAt: null, emailUnsubscribed: false, ...rulesWhere },
       select: { id: true, name: true, phone: true, email: true },
     });
 
@@ -162,7 +293,7 @@ export async function resolveAudience(filters: AudienceFilters): Promise<Audienc
       email: c.email || undefined,
     }));
 
-    return { count: recipients.length, sample: recipients.slice(0, 10), recipients };
+    return audienceResult(await applyAudienceExclusions(recipients, filters));
   }
 
   // ── With cycle/contact filters: go through registrations ──────────────────
@@ -197,7 +328,7 @@ export async function resolveAudience(filters: AudienceFilters): Promise<Audienc
   }
 
   // Customer contact filter (always exclude unsubscribed)
-  const customerWhere: Record<string, unknown> = { deletedAt: null, emailUnsubscribed: false };
+  const customerWhere: Record<string, unknown> = { deletedAt: null, emailUnsubscribed: false, ...rulesWhere };
   if (hasEmail) customerWhere.email = { not: null };
   if (hasPhone) customerWhere.phone = { not: null };
 
@@ -233,18 +364,154 @@ export async function resolveAudience(filters: AudienceFilters): Promise<Audienc
   }
 
   // If registrationStatus = 'registered', we already filtered by registrations
-  return { count: recipients.length, sample: recipients.slice(0, 10), recipients };
+  return audienceResult(await applyAudienceExclusions(recipients, filters));
+}
+
+export interface CampaignContent {
+  channel: string; // 'email', 'whatsapp', 'both'
+  subject: string | null;
+  contentHtml: string | null;
+  contentWa: string | null;
+  landingUrl: string;
 }
 
-export async function sendCampaign(campaignId: string, dailyLimit?: number): Promise<void> {
+export interface DeliveryRecipient {
+  id: string;
+  recipientName: string | null;
+  phone: string | null;
+  email: string | null;
+  customer?: { name?: string } | null;
+}
+
+/** Landing URL for UTM tracking (fallback to the public campaign landing page) */
+export function campaignLandingUrl(campaign: { id: string; landingUrl: string | null }): string {
+  return campaign.landingUrl || `${BASE_URL}/campaign/${campaign.id}`;
+}
+
+/**
+ * Send one campaign message (or one drip step) to a single CampaignRecipient row.
+ * Resolves placeholders, adds tracking + unsubscribe links, and sends on the content's channel.
+ */
+export async function deliverToRecipient(
+  campaignId: string,
+  recipient: DeliveryRecipient,
+  content: CampaignContent,
+): Promise<{ sent: boolean; error?: string }> {
+  const { channel } = content;
+  const waToken = process.env.WA_CLOUD_TOKEN;
+  const waPhoneId = process.env.WA_CLOUD_PHONE_NUMBER_ID;
+
+  let recipientError: string | undefined;
+  let sent = false;
+
+  // Build per-recipient tracking URL and replace all placeholders
+  const trackingUrl = buildTrackingUrl(campaignId, recipient.id, content.landingUrl);
+  const recipientName = recipient.customer?.name || recipient.recipientName || '';
+
+  // Build unsubscribe URL BEFORE resolving HTML so {{{unsubscribe_url}}} placeholder works
+  const unsubscribeUrl = `${BASE_URL}/api/campaigns/unsubscribe?rid=${encodeURIComponent(recipient.id)}`;
+
+  const resolvedHtml = (content.contentHtml ?? '')
+    .replace(/\{utm_link\}/g, trackingUrl)
+    .replace(/\{שם_הורה\}/g, recipientName)
+    .replace(/\{שם_ילד\}/g, recipientName)
+    .replace(/\{{2,3}unsubscribe_url\}{2,3}/g, unsubscribeUrl);
+  const resolvedWa = (content.contentWa ?? '')
+    .replace(/\{utm_link\}/g, trackingUrl)
+    .replace(/\{שם_הורה\}/g, recipientName)
+    .replace(/\{שם_ילד\}/g, recipientName);
+
+  const shouldSendEmail = (channel === 'email' || channel === 'both') && recipient.email;
+  const shouldSendWa = (channel === 'whatsapp' || channel === 'both') && recipient.phone;
+
+  // Inject open-tracking pixel into email HTML
+  const openPixelUrl = `${BASE_URL}/api/campaigns/track/open/${encodeURIComponent(campaignId)}/${encodeURIComponent(recipient.id)}`;
+  const openPixel = `<img src="${openPixelUrl}" width="1" height="1" style="display:none;border:0;outline:0;" alt="" />`;
+
+  // Build unsubscribe footer
+  const unsubscribeFooter = `
+<div style="margin-top:32px;padding-top:16px;border-top:1px solid #e5e7eb;text-align:center;font-family:Arial,sans-serif;font-size:12px;color:#9ca3af;">
+  קיבלת מייל זה כי אתה נמצא ברשימת התפוצה של דרך ההייטק.<br>
+  <a href="${unsubscribeUrl}" style="color:#6b7280;text-decoration:underline;">הסר אותי מרשימת התפוצה</a>
+</div>`;
+
+  const htmlWithExtras = resolvedHtml
+    ? resolvedHtml.includes('</body>')
+      ? resolvedHtml.replace(/<\/body>/i, `${unsubscribeFooter}${openPixel}</body>`)
+      : resolvedHtml + unsubscribeFooter + openPixel
+    : resolvedHtml;
+
+  // Send email
+  if (shouldSendEmail && content.subject && htmlWithExtras) {
+    try {
+      const result = await sendEmail({
+        to: recipient.email!,
+        subject: (content.subject || '').replace(/\{שם_הורה\}/g, recipientName).replace(/\{שם_ילד\}/g, recipientName),
+        html: htmlWithExtras,
+        headers: {
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      });
+      if (result.success) {
+        sent = true;
+      } else {
+        recipientError = result.error;
+      }
+      await sleep(100);
+    } catch (err) {
+      recipientError = String(err);
+    }
+  }
+
+  // Send WhatsApp
+  if (shouldSendWa && resolvedWa) {
+    try {
+      const phone = recipient.phone!.replace(/\D/g, '');
+      const resp = await axios.post(
+        `https://graph.facebook.com/v18.0/${waPhoneId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          to: phone,
+          type: 'text',
+          text: { body: resolvedWa },
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${waToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+      if (resp.status === 200) {
+        sent = true;
+      }
+      await sleep(200);
+    } catch (err: unknown) {
+      const axErr = err as { response?: { data?: unknown }; message?: string };
+      recipientError = JSON.stringify(axErr.response?.data || axErr.message);
+    }
+  }
+
+  return { sent, error: recipientError };
+}
+
+/**
+ * Send the campaign to its pending recipients.
+ * With `abTest`, only the A/B test slice is sent (each recipient gets their variant's content)
+ * and the campaign waits in 'ab_testing' for the winner; otherwise recipients outside the test
+ * slice are sent the campaign's own content.
+ */
+export async function sendCampaign(campaignId: string, dailyLimit?: number, options: { abTest?: boolean } = {}): Promise<void> {
   const campaign = await prisma.campaign.findUniqueOrThrow({
     where: { id: campaignId },
     include: {
       recipients: {
-        where: { status: 'pending' },
+        where: { status: 'pending', variantId: options.abTest ? { not: null } : null },
         include: { customer: { select: { name: true } } },
         ...(dailyLimit ? { take: dailyLimit } : {}),
       },
+      variants: true,
     },
   });
 
@@ -254,13 +521,20 @@ export async function sendCampaign(campaignId: string, dailyLimit?: number): Pro
     data: { status: 'sending', startedAt: new Date() },
   });
 
-  const channel = campaign.channel; // 'email', 'whatsapp', 'both'
-  const waToken = process.env.WA_CLOUD_TOKEN;
-  const waPhoneId = process.env.WA_CLOUD_PHONE_NUMBER_ID;
-
-  // Landing URL for UTM tracking (fallback to the public campaign landing page)
-  const landingUrl = (campaign as { landingUrl?: string }).landingUrl ||
-    `${BASE_URL}/campaign/${campaign.id}`;
+  const content: CampaignContent = {
+    channel: campaign.channel,
+    subject: campaign.subject,
+    contentHtml: campaign.contentHtml,
+    contentWa: campaign.contentWa,
+    landingUrl: campaignLandingUrl(campaign),
+  };
+
+  const variantContent = new Map(campaign.variants.map((variant) => [variant.id, {
+    ...content,
+    subject: variant.subject,
+    contentHtml: variant.contentHtml,
+    contentWa: variant.contentWa,
+  }]));
 
   let deliveredCount = 0;
   let failedCount = 0;
@@ -268,99 +542,8 @@ export async function sendCampaign(campaignId: string, dailyLimit?: number): Pro
   for (const recipient of campaign.recipients) {
     if (recipient.status !== 'pending') continue;
 
-    let recipientError: string | undefined;
-    let sent = false;
-
-    // Build per-recipient tracking URL and replace all placeholders
-    const trackingUrl = buildTrackingUrl(campaign.id, recipient.id, landingUrl);
-    const recipientName = (recipient as { customer?: { name?: string }; recipientName?: string }).customer?.name
-      || (recipient as { recipientName?: string }).recipientName
-      || '';
-
-    // Build unsubscribe URL BEFORE resolving HTML so {{{unsubscribe_url}}} placeholder works
-    const unsubscribeUrl = `${BASE_URL}/api/campaigns/unsubscribe?rid=${encodeURIComponent(recipient.id)}`;
-
-    const resolvedHtml = (campaign.contentHtml ?? '')
-      .replace(/\{utm_link\}/g, trackingUrl)
-      .replace(/\{שם_הורה\}/g, recipientName)
-      .replace(/\{שם_ילד\}/g, recipientName)
-      .replace(/\{{2,3}unsubscribe_url\}{2,3}/g, unsubscribeUrl);
-    const resolvedWa = (campaign.contentWa ?? '')
-      .replace(/\{utm_link\}/g, trackingUrl)
-      .replace(/\{שם_הורה\}/g, recipientName)
-      .replace(/\{שם_ילד\}/g, recipientName);
-
-    const shouldSendEmail = (channel === 'email' || channel === 'both') && recipient.email;
-    const shouldSendWa = (channel === 'whatsapp' || channel === 'both') && recipient.phone;
-
-    // Inject open-tracking pixel into email HTML
-    const openPixelUrl = `${BASE_URL}/api/campaigns/track/open/${encodeURIComponent(campaign.id)}/${encodeURIComponent(recipient.id)}`;
-    const openPixel = `<img src="${openPixelUrl}" width="1" height="1" style="display:none;border:0;outline:0;" alt="" />`;
-
-    // Build unsubscribe footer
-    const unsubscribeFooter = `
-<div style="margin-top:32px;padding-top:16px;border-top:1px solid #e5e7eb;text-align:center;font-family:Arial,sans-serif;font-size:12px;color:#9ca3af;">
-  קיבלת מייל זה כי אתה נמצא ברשימת התפוצה של דרך ההייטק.<br>
-  <a href="${unsubscribeUrl}" style="color:#6b7280;text-decoration:underline;">הסר אותי מרשימת התפוצה</a>
-</div>`;
-
-    const htmlWithExtras = resolvedHtml
-      ? resolvedHtml.includes('</body>')
-        ? resolvedHtml.replace(/<\/body>/i, `${unsubscribeFooter}${openPixel}</body>`)
-        : resolvedHtml + unsubscribeFooter + openPixel
-      : resolvedHtml;
-
-    // Send email
-    if (shouldSendEmail && campaign.subject && htmlWithExtras) {
-      try {
-        const result = await sendEmail({
-          to: recipient.email!,
-          subject: (campaign.subject || '').replace(/\{שם_הורה\}/g, recipientName).replace(/\{שם_ילד\}/g, recipientName),
-          html: htmlWithExtras,
-          headers: {
-            'List-Unsubscribe': `<${unsubscribeUrl}>`,
-            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
-          },
-        });
-        if (result.success) {
-          sent = true;
-        } else {
-          recipientError = result.error;
-        }
-        await sleep(100);
-      } catch (err) {
-        recipientError = String(err);
-      }
-    }
-
-    // Send WhatsApp
-    if (shouldSendWa && resolvedWa) {
-      try {
-        const phone = recipient.phone!.replace(/\D/g, '');
-        const resp = await axios.post(
-          `https://graph.facebook.com/v18.0/${waPhoneId}/messages`,
-          {
-            messaging_product: 'whatsapp',
-            to: phone,
-            type: 'text',
-            text: { body: resolvedWa },
-          },
-          {
-            headers: {
-              Authorization: `Bearer ${waToken}`,
-              'Content-Type': 'application/json',
-            },
-          }
-        );
-        if (resp.status === 200) {
-          sent = true;
-        }
-        await sleep(200);
-      } catch (err: unknown) {
-        const axErr = err as { response?: { data?: unknown }; message?: string };
-        recipientError = JSON.stringify(axErr.response?.data || axErr.message);
-      }
-    }
+    const recipientContent = (recipient.variantId && variantContent.get(recipient.variantId)) || content;
+    const { sent, error: recipientError } = await deliverToRecipient(campaign.id, recipient, recipientContent);
 
     // Update recipient status
     if (sent) {
@@ -378,14 +561,16 @@ export async function sendCampaign(campaignId: string, dailyLimit?: number): Pro
     }
   }
 
-  // Mark campaign as completed
+  // Mark campaign as completed (or waiting for the A/B winner). Counts accumulate across
+  // batches and the A/B test slice.
   await prisma.campaign.update({
     where: { id: campaignId },
     data: {
-      status: 'completed',
-      completedAt: new Date(),
-      deliveredCount,
-      failedCount,
+      ...(options.abTest
+        ? { status: 'ab_testing', abTestSentAt: new Date() }
+        : { status: 'completed', completedAt: new Date() }),
+      deliveredCount: { increment: deliveredCount },
+      failedCount: { increment: failedCount },
     },
   });
 }
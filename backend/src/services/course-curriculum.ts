@@ -0,0 +1,238 @@
+/**
+ * Course Curriculum
+ *
+ * Ordered lessons per course (title, objectives, material links, duration) — CourseLesson.
+ * Every meeting of a cycle gets the lesson matching its position in the cycle: the first
+ * held-or-upcoming meeting is lesson 1, the second lesson 2, and so on. Cancelled and
+ * postponed meetings don't take a lesson, so the plan slides to the next meeting.
+ *
+ * Assignment is re-run whenever that order can change: after meetings are generated for a
+ * cycle, when a single meeting is created or changes status (domain events), and when the
+ * course's curriculum is edited. Completed meetings keep the lesson they were taught.
+ *
+ * The lesson is shown on the instructor magic-link page and in the pre-meeting reminders,
+ * and lesson-ai.service.ts uses the curriculum as context when generating plans.
+ */
+
+import type { CourseLesson, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { subscribeDomainEvents } from './domain-events.js';
+
+/** Meetings that don't take a slot in the curriculum. */
+const SKIPPED_MEETING_STATUSES = ['cancelled', 'postponed'] as const;
+
+/** Cycles whose upcoming meetings still follow the curriculum. */
+const OPEN_CYCLE_STATUSES = ['active', 'frozen', 'retainer'] as const;
+
+export interface CourseLessonInput {
+  title: string;
+  objectives?: string | null;
+  materialLinks?: string[];
+  durationMinutes?: number | null;
+  lessonNumber?: number;
+}
+
+export function listCourseLessons(courseId: string) {
+  return prisma.courseLesson.findMany({
+    where: { courseId },
+    orderBy: { lessonNumber: 'asc' },
+  });
+}
+
+// ===================
+// Editing
+// ===================
+
+/**
+ * Write lessonNumber 1..n in the given order. Goes through negative numbers first so
+ * the (courseId, lessonNumber) unique constraint never sees two lessons on one number.
+ */
+async function renumberLessons(tx: Prisma.TransactionClient, lessonIds: string[]) {
+  for (const [index, id] of lessonIds.entries()) {
+    await tx.courseLesson.update({ where: { id }, data: { lessonNumber: -(index + 1) } });
+  }
+  for (const [index, id] of lessonIds.entries()) {
+    await tx.courseLesson.update({ where: { id }, data: { lessonNumber: index + 1 } });
+  }
+}
+
+export async function createCourseLesson(courseId: string, input: CourseLessonInput): Promise<CourseLesson> {
+  const { lessonNumber, ...data } = input;
+
+  const lesson = await prisma.$transaction(async (tx) => {
+    const existing = await tx.courseLesson.findMany({
+      where: { courseId },
+      orderBy: { lessonNumber: 'asc' },
+      select: { id: true },
+    });
+
+    const position = Math.min(lessonNumber ?? existing.length + 1, existing.length + 1);
+    const created = await tx.courseLesson.create({
+      data: { ...data, courseId, lessonNumber: -(existing.length + 1) },
+    });
+
+    const order = existing.map((l) => l.id);
+    order.splice(position - 1, 0, created.id);
+    await renumberLessons(tx, order);
+
+    return { ...created, lessonNumber: position };
+  });
+
+  await assignCourseLessons(courseId);
+  return lesson;
+}
+
+export async function reorderCourseLessons(courseId: string, lessonIds: string[]) {
+  const existing = await prisma.courseLesson.findMany({ where: { courseId }, select: { id: true } });
+  const known = new Set(existing.map((l) => l.id));
+  if (lessonIds.length !== known.size || new Set(lessonIds).size !== lessonIds.length || lessonIds.some((id) => !known.has(id))) {
+    throw new AppError(400, 'Lesson order must list every lesson of the course exactly once');
+  }
+
+  await prisma.$transaction((tx) => renumberLessons(tx, lessonIds));
+  await assignCourseLessons(courseId);
+  return listCourseLessons(courseId);
+}
+
+export async function deleteCourseLesson(courseId: string, lessonId: string): Promise<CourseLesson> {
+  const lesson = await prisma.courseLesson.findFirst({ where: { id: lessonId, courseId } });
+  if (!lesson) throw new AppError(404, 'Lesson not found');
+
+  await prisma.$transaction(async (tx) => {
+    await tx.courseLesson.delete({ where: { id: lessonId } });
+    const remaining = await tx.courseLesson.findMany({
+      where: { courseId },
+      orderBy: { lessonNumber: 'asc' },
+      select: { id: true },
+    });
+    await renumberLessons(tx, remaining.map((l) => l.id));
+  });
+
+  await assignCourseLessons(courseId);
+  return lesson;
+}
+
+// ===================
+// Assignment to meetings
+// ===================
+
+/**
+ * Give each meeting of the cycle the lesson at its position. Completed meetings that
+ * already have a lesson are left alone but still count towards the position.
+ * Returns the number of meetings whose lesson changed.
+ */
+export async function assignCycleLessons(cycleId: string): Promise<number> {
+  const cycle = await prisma.cycle.findUnique({
+    where: { id: cycleId },
+    select: { courseId: true },
+  });
+  if (!cycle) return 0;
+
+  const [lessons, meetings] = await Promise.all([
+    prisma.courseLesson.findMany({
+      where: { courseId: cycle.courseId },
+      orderBy: { lessonNumber: 'asc' },
+      select: { id: true },
+    }),
+    prisma.meeting.findMany({
+      where: { cycleId, deletedAt: null },
+      orderBy: [{ scheduledDate: 'asc' }, { startTime: 'asc' }],
+      select: { id: true, status: true, lessonId: true },
+    }),
+  ]);
+
+  const updates: Prisma.PrismaPromise<unknown>[] = [];
+  const unassign: string[] = [];
+  let position = 0;
+  let changed = 0;
+
+  for (const meeting of meetings) {
+    if ((SKIPPED_MEETING_STATUSES as readonly string[]).includes(meeting.status)) {
+      if (meeting.lessonId) {
+        unassign.push(meeting.id);
+        changed++;
+      }
+      continue;
+    }
+
+    const lessonId = lessons[position]?.id ?? null;
+    position++;
+
+    if (meeting.status === 'completed' && meeting.lessonId) continue;
+    if (meeting.lessonId === lessonId) continue;
+
+    changed++;
+    if (lessonId) {
+      updates.push(prisma.meeting.update({ where: { id: meeting.id }, data: { lessonId } }));
+    } else {
+      unassign.push(meeting.id);
+    }
+  }
+
+  if (unassign.length > 0) {
+    updates.push(prisma.meeting.updateMany({ where: { id: { in: unassign } }, data: { lessonId: null } }));
+  }
+  if (updates.length > 0) await prisma.$transaction(updates);
+
+  return changed;
+}
+
+/** Re-run assignment for every open cycle of the course, after its curriculum changed. */
+export async function assignCourseLessons(courseId: string): Promise<void> {
+  const cycles = await prisma.cycle.findMany({
+    where: { courseId, status: { in: [...OPEN_CYCLE_STATUSES] }, deletedAt: null },
+    select: { id: true },
+  });
+  for (const cycle of cycles) {
+    await assignCycleLessons(cycle.id);
+  }
+}
+
+// ===================
+// Lesson AI context
+// ===================
+
+/**
+ * Curriculum context for generating a lesson plan: the whole outline plus the lesson
+ * being prepared (by meeting, or by lesson number). Null when the course has no curriculum.
+ */
+export async function getLessonPlanContext(courseId: string, options: { meetingId?: string; lessonNumber?: number } = {}) {
+  const lessons = await listCourseLessons(courseId);
+  if (lessons.length === 0) return null;
+
+  let current: CourseLesson | null = null;
+  if (options.meetingId) {
+    const meeting = await prisma.meeting.findFirst({
+      where: { id: options.meetingId, deletedAt: null },
+      select: { lessonId: true },
+    });
+    current = lessons.find((l) => l.id === meeting?.lessonId) ?? null;
+  } else if (options.lessonNumber) {
+    current = lessons.find((l) => l.lessonNumber === options.lessonNumber) ?? null;
+  }
+
+  return {
+    outline: lessons.map((l) => ({ lessonNumber: l.lessonNumber, title: l.title })),
+    current,
+  };
+}
+
+const sameInstant = (a: unknown, b: unknown) => new Date(a as Date).getTime() === new Date(b as Date).getTime();
+
+/**
+ * Keep assignments in step with single-meeting changes — new meetings, status changes and
+ * meetings moved to another date or time. Called once at startup.
+ * Bulk generation calls assignCycleLessons() itself, since createMany publishes nothing.
+ */
+export function initCurriculumSubscribers(): () => void {
+  return subscribeDomainEvents(async (event, data) => {
+    if (!data.cycleId) return;
+    const statusChanged = event === 'meeting.updated' && data.previousStatus && data.previousStatus !== data.status;
+    const rescheduled = event === 'meeting.updated' && data.previousScheduledDate !== undefined
+      && (!sameInstant(data.previousScheduledDate, data.scheduledDate) || !sameInstant(data.previousStartTime, data.startTime));
+    if (event === 'meeting.created' || statusChanged || rescheduled) {
+      await assignCycleLessons(data.cycleId);
+    }
+  });
+}
@@ -2,6 +2,8 @@ import { prisma } from '../utils/prisma.js';
 import { sendEmail } from './email/sender.js';
 import { checkAndSendInstitutionalOrderCompletionAlert } from './institutional-order-completion-alert.js';
 import { getOperationsEmailRecipients } from './operations-notifications.js';
+import { publishDomainEvent } from './domain-events.js';
+import { generateCycleReportCards } from './student-progress.js';
 
 /**
  * Cycle Completion Service
@@ -41,6 +43,16 @@ export async function handleCycleCompletion(cycleId: string): Promise<void> {
       data: { status: 'completed' },
     });
     console.log(`  ✅ Cycle status → completed`);
+    publishDomainEvent('cycle.completed', {
+      id: cycle.id,
+      name: cycle.name,
+      courseId: cycle.courseId,
+      branchId: cycle.branchId,
+      instructorId: cycle.instructorId,
+      institutionalOrderId: cycle.institutionalOrderId,
+      type: cycle.type,
+      status: 'completed',
+    });
 
     // b. Update all active/registered registrations → completed
     const activeRegistrations = cycle.registrations.filter(
@@ -81,6 +93,16 @@ export async function handleCycleCompletion(cycleId: string): Promise<void> {
     // d. Send summary email
     await sendCompletionSummaryEmail(cycle, activeRegistrations);
 
+    // e. Report cards to the parents of everyone who finished — one Docs export per student,
+    // so this runs in the background instead of holding up the instructor's report
+    generateCycleReportCards(cycleId)
+      .then((reportCards) => {
+        console.log(`  🎓 ${reportCards.generated} report cards sent for cycle ${cycleId}${reportCards.failed ? `, ${reportCards.failed} failed` : ''}`);
+      })
+      .catch((err) => {
+        console.error(`  ⚠️ Failed to generate report cards for cycle ${cycleId}:`, err);
+      });
+
     await checkAndSendInstitutionalOrderCompletionAlert(cycle.institutionalOrderId, 'cycle-completion');
 
     console.log(`🎓 Cycle completion finished for "${cycle.name}"`);
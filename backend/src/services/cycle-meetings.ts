@@ -0,0 +1,144 @@
+/**
+ * Cycle Meeting Generation
+ *
+ * Plans a cycle's weekly meetings (on its dayOfWeek, skipping holidays and organization
+ * closures for the branch), checks the plan for instructor double-booking and writes it.
+ * Used by the cycles routes (create, extend, regenerate) and by quote conversion, which
+ * builds an order's cycles in one go.
+ */
+
+import type { BranchType, Cycle } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { fetchHolidays, dayNameToNumber } from '../utils/holidays.js';
+import { checkInstructorConflicts, type InstructorConflict, type ScheduleSlot } from './instructor-conflicts.js';
+import { assignCycleLessons } from './course-curriculum.js';
+
+export function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+export type MeetingPlanCycle = Pick<
+  Cycle,
+  'name' | 'instructorId' | 'dayOfWeek' | 'startDate' | 'startTime' | 'endTime' | 'activityType' | 'location' | 'totalMeetings' | 'branchId'
+> & {
+  branch: { type: BranchType } | null;
+  meetings: { scheduledDate: Date }[];
+};
+
+// Plan the dates of a cycle's next meetings (skips Israeli holidays)
+export async function planMeetingsForCycle(cycle: MeetingPlanCycle, fromDate?: Date, targetCount?: number) {
+  const meetings: ScheduleSlot[] = [];
+  const targetDay = dayNameToNumber(cycle.dayOfWeek);
+  let currentDate: Date;
+  if (fromDate) {
+    currentDate = new Date(fromDate);
+  } else if (cycle.meetings.length > 0) {
+    const lastMeeting = cycle.meetings.reduce((latest, meeting) =>
+      meeting.scheduledDate.getTime() > latest.scheduledDate.getTime() ? meeting : latest
+    );
+    currentDate = addDays(lastMeeting.scheduledDate, 7);
+  } else {
+    currentDate = new Date(cycle.startDate);
+  }
+
+  // How many meetings to generate. Existing callers that do not pass targetCount
+  // should fill only the missing meetings, not create another full cycle.
+  const meetingsToGenerate = targetCount ?? Math.max(0, cycle.totalMeetings - cycle.meetings.length);
+  if (meetingsToGenerate <= 0) return meetings;
+
+  // Fetch holidays and organization closures for relevant years
+  const startYear = currentDate.getFullYear();
+  const holidaysThisYear = await fetchHolidays(startYear, cycle.branch?.type, cycle.branchId);
+  const holidaysNextYear = await fetchHolidays(startYear + 1, cycle.branch?.type, cycle.branchId);
+  const allHolidays = new Set([...holidaysThisYear, ...holidaysNextYear]);
+
+  // Find first occurrence of the target day on or after fromDate
+  while (currentDate.getDay() !== targetDay) {
+    currentDate.setDate(currentDate.getDate() + 1);
+  }
+
+  // Generate meetings, skipping holidays
+  let attempts = 0;
+  const maxAttempts = meetingsToGenerate * 3; // Safety limit
+
+  while (meetings.length < meetingsToGenerate && attempts < maxAttempts) {
+    attempts++;
+    const dateStr = currentDate.toISOString().split('T')[0];
+
+    // Check if this date is a holiday
+    if (!allHolidays.has(dateStr)) {
+      meetings.push({
+        meetingId: null,
+        instructorId: cycle.instructorId,
+        scheduledDate: new Date(currentDate),
+        startTime: cycle.startTime,
+        endTime: cycle.endTime,
+        activityType: cycle.activityType,
+        location: cycle.location,
+        cycleName: cycle.name,
+      });
+    }
+
+    // Move to next week
+    currentDate.setDate(currentDate.getDate() + 7);
+  }
+
+  return meetings;
+}
+
+// Generate meetings for a cycle. The planned schedule is checked for instructor
+// double-booking first; returns the conflicts that were let through (travel-gap warnings,
+// or everything when allowConflicts is set).
+export async function generateMeetingsForCycle(
+  cycleId: string,
+  fromDate?: Date,
+  targetCount?: number,
+  options: { allowConflicts?: boolean } = {},
+): Promise<InstructorConflict[]> {
+  const cycle = await prisma.cycle.findUnique({
+    where: { id: cycleId },
+    include: {
+      branch: { select: { type: true } },
+      meetings: {
+        where: { deletedAt: null },
+        select: { id: true, scheduledDate: true, status: true },
+      },
+    },
+  });
+
+  if (!cycle) return [];
+
+  const planned = await planMeetingsForCycle(cycle, fromDate, targetCount);
+  if (planned.length === 0) return [];
+
+  const conflictWarnings = await checkInstructorConflicts(planned, options.allowConflicts);
+
+  await prisma.meeting.createMany({
+    data: planned.map((meeting) => ({
+      cycleId: cycle.id,
+      instructorId: meeting.instructorId,
+      scheduledDate: meeting.scheduledDate,
+      startTime: meeting.startTime,
+      endTime: meeting.endTime,
+      status: 'scheduled' as const,
+      activityType: meeting.activityType,
+    })),
+  });
+
+  // Update cycle progress and end date based on the generated schedule.
+  const lastMeetingDate = planned[planned.length - 1].scheduledDate;
+  const completedCount = cycle.meetings.filter(m => m.status === 'completed').length;
+  await prisma.cycle.update({
+    where: { id: cycleId },
+    data: {
+      remainingMeetings: Math.max(0, cycle.totalMeetings - completedCount),
+      endDate: lastMeetingDate,
+    },
+  });
+
+  await assignCycleLessons(cycleId);
+
+  return conflictWarnings;
+}
@@ -0,0 +1,69 @@
+import { webhooksService } from '../api/v1/services/webhooks.service.js';
+import type { WebhookEvent } from '../api/v1/validators/webhooks.js';
+
+/**
+ * In-process domain event bus.
+ *
+ * Every mutation path (legacy routes and v1 services alike) publishes here after the
+ * change is committed. Outbound v1 webhooks are always dispatched; other modules can
+ * subscribe for side effects of their own. Publishing never throws and never blocks
+ * the request — a failing subscriber is logged and ignored.
+ */
+
+export type DomainEvent = WebhookEvent;
+
+export type DomainEventHandler = (event: DomainEvent, data: Record<string, any>) => void | Promise<void>;
+
+const subscribers = new Set<DomainEventHandler>();
+
+export function subscribeDomainEvents(handler: DomainEventHandler): () => void {
+  subscribers.add(handler);
+  return () => {
+    subscribers.delete(handler);
+  };
+}
+
+function runHandler(name: string, fn: () => void | Promise<void>, event: DomainEvent) {
+  Promise.resolve()
+    .then(fn)
+    .catch((error) => {
+      console.error(`[DomainEvents] ${name} failed for ${event}:`, error);
+    });
+}
+
+export function publishDomainEvent(event: DomainEvent, data: Record<string, any>): void {
+  runHandler('webhook dispatch', () => webhooksService.emitEvent(event, data), event);
+  for (const handler of subscribers) {
+    runHandler('subscriber', () => handler(event, data), event);
+  }
+}
+
+const MEETING_STATUS_EVENTS: Partial<Record<string, DomainEvent>> = {
+  completed: 'meeting.completed',
+  cancelled: 'meeting.cancelled',
+  postponed: 'meeting.postponed',
+};
+
+/**
+ * Publish the events for a meeting update: always meeting.updated, plus the
+ * status-specific event when the status actually changed. Callers that can move the
+ * meeting pass its previous date and start time so subscribers can tell it was rescheduled.
+ */
+export function publishMeetingUpdated(
+  meeting: { id: string; status: string } & Record<string, any>,
+  previousStatus?: string | null,
+  previousSchedule?: { scheduledDate: Date; startTime: Date },
+) {
+  publishDomainEvent('meeting.updated', {
+    ...meeting,
+    previousStatus: previousStatus ?? null,
+    ...(previousSchedule && {
+      previousScheduledDate: previousSchedule.scheduledDate,
+      previousStartTime: previousSchedule.startTime,
+    }),
+  });
+  const statusEvent = MEETING_STATUS_EVENTS[meeting.status];
+  if (statusEvent && previousStatus !== meeting.status) {
+    publishDomainEvent(statusEvent, { ...meeting, previousStatus: previousStatus ?? null });
+  }
+}
@@ -203,6 +203,7 @@ const sendParentReminders = async () => {
             phone: parent.phone,
             contactName: parent.name,
             data,
+            notify: { customerId: parent.id, studentId: student.id, meetingId: meeting.id, cycleId: meeting.cycleId },
           });
           if (result.sent) {
             whatsAppCount++;
@@ -0,0 +1,311 @@
+/**
+ * File Attachments
+ *
+ * Files attached to CRM entities (customers, students, instructors, cycles, meetings, quotes,
+ * institutional orders, billing periods, tasks).
+ * - Type whitelist checked against the file's own bytes, not just the name / browser MIME type:
+ *   archives, executables and macro-enabled Office documents are rejected.
+ * - Per-entity storage quota (FILE_QUOTA_MB_<TYPE>, e.g. FILE_QUOTA_MB_CUSTOMER=200).
+ * - Bytes live in the configured storage backend (see file-storage.ts).
+ * - Retention: files of soft-deleted entities are purged FILE_RETENTION_DAYS (default 30) after
+ *   the deletion, by a daily job.
+ */
+
+import cron, { type ScheduledTask } from 'node-cron';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { FileAttachment } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { defaultStorageDriver, getFileStorage } from './file-storage.js';
+
+const TZ = 'Asia/Jerusalem';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let scheduledTask: ScheduledTask | null = null;
+
+// ===================
+// Entity types
+// ===================
+
+interface EntityConfig {
+  notFound: string;
+  quotaMb: number;
+  exists(id: string): Promise<boolean>;
+  /** Soft-deletable entities: which of these ids were deleted on or before the cutoff. */
+  deletedBefore?(ids: string[], cutoff: Date): Promise<string[]>;
+}
+
+const ids = (rows: { id: string }[]) => rows.map(r => r.id);
+
+const ENTITY_CONFIG = {
+  customer: {
+    notFound: 'לקוח לא נמצא',
+    quotaMb: 100,
+    exists: async (id) => !!(await prisma.customer.findFirst({ where: { id, deletedAt: null }, select: { id: true } })),
+    deletedBefore: async (entityIds, cutoff) =>
+      ids(await prisma.customer.findMany({ where: { id: { in: entityIds }, deletedAt: { lte: cutoff } }, select: { id: true } })),
+  },
+  student: {
+    notFound: 'תלמיד לא נמצא',
+    quotaMb: 50,
+    exists: async (id) => !!(await prisma.student.findFirst({ where: { id, deletedAt: null }, select: { id: true } })),
+    deletedBefore: async (entityIds, cutoff) =>
+      ids(await prisma.student.findMany({ where: { id: { in: entityIds }, deletedAt: { lte: cutoff } }, select: { id: true } })),
+  },
+  instructor: {
+    notFound: 'מדריך לא נמצא',
+    quotaMb: 50,
+    exists: async (id) => !!(await prisma.instructor.findUnique({ where: { id }, select: { id: true } })),
+  },
+  cycle: {
+    notFound: 'מחזור לא נמצא',
+    quotaMb: 200,
+    exists: async (id) => !!(await prisma.cycle.findFirst({ where: { id, deletedAt: null }, select: { id: true } })),
+    deletedBefore: async (entityIds, cutoff) =>
+      ids(await prisma.cycle.findMany({ where: { id: { in: entityIds }, deletedAt: { lte: cutoff } }, select: { id: true } })),
+  },
+  meeting: {
+    notFound: 'פגישה לא נמצאה',
+    quotaMb: 50,
+    exists: async (id) => !!(await prisma.meeting.findFirst({ where: { id, deletedAt: null }, select: { id: true } })),
+    deletedBefore: async (entityIds, cutoff) =>
+      ids(await prisma.meeting.findMany({ where: { id: { in: entityIds }, deletedAt: { lte: cutoff } }, select: { id: true } })),
+  },
+  quote: {
+    notFound: 'הצעת מחיר לא נמצאה',
+    quotaMb: 50,
+    exists: async (id) => !!(await prisma.quote.findUnique({ where: { id }, select: { id: true } })),
+  },
+  'institutional-order': {
+    notFound: 'הזמנה מוסדית לא נמצאה',
+    quotaMb: 200,
+    exists: async (id) => !!(await prisma.institutionalOrder.findUnique({ where: { id }, select: { id: true } })),
+  },
+  'billing-period': {
+    notFound: 'תקופת חיוב לא נמצאה',
+    quotaMb: 100,
+    exists: async (id) => !!(await prisma.billingPeriod.findUnique({ where: { id }, select: { id: true } })),
+  },
+  task: {
+    notFound: 'משימה לא נמצאה',
+    quotaMb: 50,
+    exists: async (id) => !!(await prisma.task.findFirst({ where: { id, deletedAt: null }, select: { id: true } })),
+    deletedBefore: async (entityIds, cutoff) =>
+      ids(await prisma.task.findMany({ where: { id: { in: entityIds }, deletedAt: { lte: cutoff } }, select: { id: true } })),
+  },
+} satisfies Record<string, EntityConfig>;
+
+export type AttachmentEntityType = keyof typeof ENTITY_CONFIG;
+
+export const ATTACHMENT_ENTITY_TYPES = Object.keys(ENTITY_CONFIG) as AttachmentEntityType[];
+
+export function isAttachmentEntityType(value: string): value is AttachmentEntityType {
+  return value in ENTITY_CONFIG;
+}
+
+export async function assertAttachmentEntity(entityType: AttachmentEntityType, entityId: string) {
+  const entity: EntityConfig = ENTITY_CONFIG[entityType];
+  if (!(await entity.exists(entityId))) throw new AppError(404, entity.notFound);
+}
+
+// ===================
+// Type whitelist
+// ===================
+
+interface AllowedType {
+  mimeType: string;
+  extensions: string[];
+  matches(bytes: Buffer): boolean;
+}
+
+const startsWith = (bytes: Buffer, signature: number[] | string, offset = 0) => {
+  const sig = typeof signature === 'string' ? Buffer.from(signature, 'latin1') : Buffer.from(signature);
+  return bytes.length >= offset + sig.length && bytes.subarray(offset, offset + sig.length).equals(sig);
+};
+
+/** OOXML is a zip with [Content_Types].xml; macro projects (vbaProject.bin) are refused. */
+const isOfficeOpenXml = (bytes: Buffer) =>
+  startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])
+  && bytes.includes('[Content_Types].xml')
+  && !bytes.includes('vbaProject.bin');
+
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/** Plain text: no NUL bytes in the first 8KB. */
+const isPlainText = (bytes: Buffer) => !bytes.subarray(0, 8192).includes(0);
+
+const ALLOWED_TYPES: AllowedType[] = [
+  { mimeType: 'application/pdf', extensions: ['.pdf'], matches: b => startsWith(b, '%PDF-') },
+  { mimeType: 'image/jpeg', extensions: ['.jpg', '.jpeg'], matches: b => startsWith(b, [0xff, 0xd8, 0xff]) },
+  { mimeType: 'image/png', extensions: ['.png'], matches: b => startsWith(b, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { mimeType: 'image/gif', extensions: ['.gif'], matches: b => startsWith(b, 'GIF87a') || startsWith(b, 'GIF89a') },
+  { mimeType: 'image/webp', extensions: ['.webp'], matches: b => startsWith(b, 'RIFF') && startsWith(b, 'WEBP', 8) },
+  { mimeType: 'image/heic', extensions: ['.heic', '.heif'], matches: b => startsWith(b, 'ftyp', 4) },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extensions: ['.docx'], matches: isOfficeOpenXml },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extensions: ['.xlsx'], matches: isOfficeOpenXml },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', extensions: ['.pptx'], matches: isOfficeOpenXml },
+  { mimeType: 'application/msword', extensions: ['.doc'], matches: b => startsWith(b, OLE_SIGNATURE) },
+  { mimeType: 'application/vnd.ms-excel', extensions: ['.xls'], matches: b => startsWith(b, OLE_SIGNATURE) },
+  { mimeType: 'application/vnd.ms-powerpoint', extensions: ['.ppt'], matches: b => startsWith(b, OLE_SIGNATURE) },
+  { mimeType: 'application/rtf', extensions: ['.rtf'], matches: b => startsWith(b, '{\\rtf') },
+  { mimeType: 'text/csv', extensions: ['.csv'], matches: isPlainText },
+  { mimeType: 'text/plain', extensions: ['.txt'], matches: isPlainText },
+];
+
+export const ALLOWED_EXTENSIONS = ALLOWED_TYPES.flatMap(t => t.extensions);
+
+/** Types the browser can render inline (thumbnails / preview). */
+export const PREVIEWABLE_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/**
+ * Resolve the stored MIME type from the extension and verify the content really is that type.
+ * Throws 400 for anything off the whitelist or whose bytes don't match its extension.
+ */
+export function detectAllowedType(originalName: string, bytes: Buffer) {
+  const ext = path.extname(originalName).toLowerCase();
+  const type = ALLOWED_TYPES.find(t => t.extensions.includes(ext));
+  if (!type) throw new AppError(400, `סוג קובץ לא נתמך: ${ext || 'לא ידוע'}`);
+  if (!type.matches(bytes)) throw new AppError(400, `תוכן הקובץ אינו תואם לסוג ${ext}`);
+  return type.mimeType;
+}
+
+// ===================
+// Quota
+// ===================
+
+export function attachmentQuotaBytes(entityType: AttachmentEntityType) {
+  const envKey = `FILE_QUOTA_MB_${entityType.replace(/-/g, '_').toUpperCase()}`;
+  const mb = Number(process.env[envKey]) || ENTITY_CONFIG[entityType].quotaMb;
+  return mb * 1024 * 1024;
+}
+
+export async function getAttachmentUsage(entityType: AttachmentEntityType, entityId: string) {
+  const usage = await prisma.fileAttachment.aggregate({
+    where: { entityType, entityId },
+    _sum: { fileSize: true },
+  });
+  return { usedBytes: usage._sum.fileSize ?? 0, quotaBytes: attachmentQuotaBytes(entityType) };
+}
+
+async function assertWithinQuota(entityType: AttachmentEntityType, entityId: string, size: number) {
+  const { usedBytes, quotaBytes } = await getAttachmentUsage(entityType, entityId);
+  if (usedBytes + size > quotaBytes) {
+    const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+    throw new AppError(413, `חריגה ממכסת האחסון (${mb(usedBytes)}MB מתוך ${mb(quotaBytes)}MB בשימוש)`);
+  }
+}
+
+// ===================
+// Store / read / delete
+// ===================
+
+export async function storeAttachment(input: {
+  entityType: AttachmentEntityType;
+  entityId: string;
+  originalName: string;
+  bytes: Buffer;
+  label?: string | null;
+  uploadedById?: string | null;
+}) {
+  const mimeType = detectAllowedType(input.originalName, input.bytes);
+  await assertWithinQuota(input.entityType, input.entityId, input.bytes.length);
+
+  const fileName = `${uuidv4()}${path.extname(input.originalName).toLowerCase()}`;
+  const filePath = `${input.entityType}/${input.entityId}/${fileName}`;
+  const storage = getFileStorage(defaultStorageDriver());
+  await storage.put(filePath, input.bytes, mimeType);
+
+  try {
+    return await prisma.fileAttachment.create({
+      data: {
+        entityType: input.entityType,
+        entityId: input.entityId,
+        fileName,
+        originalName: input.originalName,
+        mimeType,
+        fileSize: input.bytes.length,
+        filePath,
+        storage: storage.driver,
+        label: input.label || null,
+        uploadedById: input.uploadedById || null,
+      },
+      include: { uploadedBy: { select: { id: true, name: true } } },
+    });
+  } catch (error) {
+    await storage.remove(filePath).catch(() => undefined);
+    throw error;
+  }
+}
+
+export function openAttachment(attachment: Pick<FileAttachment, 'storage' | 'filePath'>) {
+  return getFileStorage(attachment.storage).get(attachment.filePath);
+}
+
+export async function deleteAttachment(attachment: Pick<FileAttachment, 'id' | 'storage' | 'filePath'>) {
+  await getFileStorage(attachment.storage).remove(attachment.filePath);
+  await prisma.fileAttachment.delete({ where: { id: attachment.id } });
+}
+
+// ===================
+// Retention
+// ===================
+
+export function fileRetentionDays() {
+  return Number(process.env.FILE_RETENTION_DAYS) || 30;
+}
+
+/** Purge files of entities soft-deleted more than FILE_RETENTION_DAYS ago. */
+export async function purgeDeletedEntityFiles(now = new Date()) {
+  const cutoff = new Date(now.getTime() - fileRetentionDays() * DAY_MS);
+  let purged = 0;
+
+  for (const entityType of ATTACHMENT_ENTITY_TYPES) {
+    const entity: EntityConfig = ENTITY_CONFIG[entityType];
+    if (!entity.deletedBefore) continue;
+
+    const attached = await prisma.fileAttachment.findMany({
+      where: { entityType },
+      distinct: ['entityId'],
+      select: { entityId: true },
+    });
+    if (attached.length === 0) continue;
+
+    const deletedIds = await entity.deletedBefore(attached.map(a => a.entityId), cutoff);
+    if (deletedIds.length === 0) continue;
+
+    const files = await prisma.fileAttachment.findMany({
+      where: { entityType, entityId: { in: deletedIds } },
+      select: { id: true, storage: true, filePath: true },
+    });
+    for (const file of files) {
+      try {
+        await deleteAttachment(file);
+        purged++;
+      } catch (error) {
+        console.error(`[FileRetention] Failed to purge ${file.filePath}:`, error);
+      }
+    }
+  }
+
+  return { purged };
+}
+
+export function initFileRetentionScheduler() {
+  if (scheduledTask) scheduledTask.stop();
+  scheduledTask = cron.schedule('30 3 * * *', () => {
+    purgeDeletedEntityFiles()
+      .then(({ purged }) => {
+        if (purged > 0) console.log(`[FileRetention] Purged ${purged} files of deleted entities`);
+      })
+      .catch((error) => {
+        console.error('[FileRetention] Purge failed:', error);
+      });
+  }, { timezone: TZ });
+  console.log(`   ✓ File retention: daily 03:30 → purge files ${fileRetentionDays()} days after entity deletion`);
+}
+
+export function stopFileRetentionScheduler() {
+  scheduledTask?.stop();
+  scheduledTask = null;
+}
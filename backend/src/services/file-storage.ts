@@ -0,0 +1,138 @@
+/**
+ * File Storage
+ *
+ * Pluggable backend for attachment bytes. FILE_STORAGE_DRIVER picks where new files go:
+ * - local (default) — uploads/<key> on the server's disk
+ * - s3 — any S3-compatible store (AWS S3, MinIO, R2…); requests are signed with SigV4 here so no
+ *   SDK is needed. Configure S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY.
+ * Each FileAttachment row records the driver it was written with, so switching drivers keeps
+ * older files readable.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import axios from 'axios';
+
+export type StorageDriver = 'local' | 's3';
+
+export interface FileStorage {
+  driver: StorageDriver;
+  put(key: string, body: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable | null>;
+  remove(key: string): Promise<void>;
+}
+
+export const UPLOADS_BASE = path.join(process.cwd(), 'uploads');
+
+function localPath(key: string) {
+  const full = path.resolve(UPLOADS_BASE, key);
+  if (!full.startsWith(UPLOADS_BASE + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+  return full;
+}
+
+const localDiskStorage: FileStorage = {
+  driver: 'local',
+  async put(key, body) {
+    const full = localPath(key);
+    await fs.promises.mkdir(path.dirname(full), { recursive: true });
+    await fs.promises.writeFile(full, body);
+  },
+  async get(key) {
+    const full = localPath(key);
+    if (!fs.existsSync(full)) return null;
+    return fs.createReadStream(full);
+  },
+  async remove(key) {
+    await fs.promises.rm(localPath(key), { force: true });
+  },
+};
+
+// ===================
+// S3-compatible (SigV4)
+// ===================
+
+function s3Config() {
+  const region = process.env.S3_REGION || 'us-east-1';
+  return {
+    endpoint: (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, ''),
+    region,
+    bucket: process.env.S3_BUCKET || '',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+  };
+}
+
+const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: Buffer | string, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+/** RFC 3986 encoding per path segment, as S3 canonical requests expect. */
+function encodeKey(key: string) {
+  return key.split('/').map(segment =>
+    encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  ).join('/');
+}
+
+/** Headers for a path-style S3 request signed with AWS Signature Version 4. */
+export function signS3Request(method: string, key: string, now = new Date(), contentType?: string) {
+  const { endpoint, region, bucket, accessKeyId, secretAccessKey } = s3Config();
+  const url = new URL(`${endpoint}/${bucket}/${encodeKey(key)}`);
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = 'UNSIGNED-PAYLOAD';
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...(contentType && { 'content-type': contentType }),
+  };
+  const signedHeaders = Object.keys(headers).sort().join(';');
+  const canonicalHeaders = Object.keys(headers).sort().map(h => `${h}:${headers[h]}\n`).join('');
+  const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    url: url.toString(),
+    headers: {
+      ...headers,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+  };
+}
+
+const s3Storage: FileStorage = {
+  driver: 's3',
+  async put(key, body, mimeType) {
+    const { url, headers } = signS3Request('PUT', key, new Date(), mimeType);
+    await axios.put(url, body, { headers, maxBodyLength: Infinity });
+  },
+  async get(key) {
+    const { url, headers } = signS3Request('GET', key);
+    try {
+      const res = await axios.get<Readable>(url, { headers, responseType: 'stream' });
+      return res.data;
+    } catch (err: any) {
+      if (err.response?.status === 404) return null;
+      throw err;
+    }
+  },
+  async remove(key) {
+    const { url, headers } = signS3Request('DELETE', key);
+    await axios.delete(url, { headers });
+  },
+};
+
+/** Driver for new uploads. */
+export function defaultStorageDriver(): StorageDriver {
+  return process.env.FILE_STORAGE_DRIVER === 's3' ? 's3' : 'local';
+}
+
+export function getFileStorage(driver: string = defaultStorageDriver()): FileStorage {
+  return driver === 's3' ? s3Storage : localDiskStorage;
+}
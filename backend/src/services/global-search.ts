@@ -0,0 +1,259 @@
+/**
+ * Global Search
+ *
+ * One ranked search over the main CRM entities and WhatsApp message history, backing the
+ * command palette. Matching runs on the SQL helpers from the global_search migration:
+ * - crm_search_doc(...) — lowercased text without niqqud / geresh / quotes, Hebrew final letters
+ *   folded (ם→מ), indexed with pg_trgm so ILIKE-style lookups stay fast.
+ * - crm_phone_digits(phone) — digits only; a query like 050-123-4567 matches 972501234567.
+ * Every query token must appear in the entity's document; tokens with a Hebrew prefix letter
+ * (ו/ה/ב/ל/מ/ש/כ) also match without it, so "בחיפה" finds "חיפה".
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+
+export type SearchEntityType =
+  | 'customer'
+  | 'student'
+  | 'instructor'
+  | 'cycle'
+  | 'branch'
+  | 'institutional_order'
+  | 'paying_body'
+  | 'quote'
+  | 'task'
+  | 'lead_appointment'
+  | 'wa_message';
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  url: string;
+  rank: number;
+}
+
+interface SearchSource {
+  type: SearchEntityType;
+  from: string;
+  where?: string;
+  title: string;
+  subtitle: string;
+  url: string;
+  /** Column ranked against the whole query (usually the display name). */
+  rankField: string;
+  /** Columns of the search document — must match the trigram index expression in the migration. */
+  fields: string[];
+  phones?: string[];
+}
+
+// Table / column names are constants — only the query text is passed as a parameter
+const SOURCES: SearchSource[] = [
+  {
+    type: 'customer',
+    from: 'customers e',
+    where: 'e.deleted_at IS NULL',
+    title: 'e.name',
+    subtitle: "concat_ws(' · ', e.phone, e.email, e.city)",
+    url: "'/customers/' || e.id",
+    rankField: 'e.name',
+    fields: ['e.name', 'e.email', 'e.phone', 'e.city'],
+    phones: ['e.phone'],
+  },
+  {
+    type: 'student',
+    from: 'students e JOIN customers p ON p.id = e.customer_id',
+    where: 'e.deleted_at IS NULL',
+    title: 'e.name',
+    subtitle: "concat_ws(' · ', p.name, e.grade)",
+    url: "'/customers/' || e.customer_id",
+    rankField: 'e.name',
+    fields: ['e.name', 'e.grade'],
+  },
+  {
+    type: 'instructor',
+    from: 'instructors e',
+    title: 'e.name',
+    subtitle: "concat_ws(' · ', e.phone, e.email, CASE WHEN e.is_active THEN NULL ELSE 'לא פעיל' END)",
+    url: "'/instructors'",
+    rankField: 'e.name',
+    fields: ['e.name', 'e.email', 'e.phone', 'e.city'],
+    phones: ['e.phone'],
+  },
+  {
+    type: 'cycle',
+    from: 'cycles e',
+    where: 'e.deleted_at IS NULL',
+    title: 'e.name',
+    subtitle: 'e.location',
+    url: "'/cycles/' || e.id",
+    rankField: 'e.name',
+    fields: ['e.name', 'e.location'],
+  },
+  {
+    type: 'branch',
+    from: 'branches e',
+    title: 'e.name',
+    subtitle: "concat_ws(' · ', e.city, e.contact_name)",
+    url: "'/branches'",
+    rankField: 'e.name',
+    fields: ['e.name', 'e.city', 'e.address', 'e.contact_name'],
+  },
+  {
+    type: 'institutional_order',
+    from: 'institutional_orders e',
+    title: "coalesce(e.order_name, e.order_number, 'הזמנה')",
+    subtitle: "concat_ws(' · ', e.order_number, e.paying_body, e.contact_name)",
+    url: "'/institutional-orders/' || e.id",
+    rankField: 'e.order_name',
+    fields: ['e.order_name', 'e.order_number', 'e.contact_name', 'e.paying_body', 'e.city'],
+  },
+  {
+    type: 'paying_body',
+    from: 'paying_bodies e',
+    title: 'e.name',
+    subtitle: "concat_ws(' · ', e.tax_id, e.contact_name)",
+    url: "'/paying-bodies'",
+    rankField: 'e.name',
+    fields: ['e.name', 'e.tax_id', 'e.contact_name', 'e.email'],
+  },
+  {
+    type: 'quote',
+    from: 'quotes e',
+    title: "e.quote_number || ' — ' || e.institution_name",
+    subtitle: "concat_ws(' · ', e.contact_name, e.contact_phone)",
+    url: "'/quotes/' || e.id",
+    rankField: 'e.institution_name',
+    fields: ['e.quote_number', 'e.institution_name', 'e.contact_name', 'e.contact_email'],
+    phones: ['e.contact_phone'],
+  },
+  {
+    type: 'task',
+    from: 'tasks e',
+    where: 'e.deleted_at IS NULL',
+    title: 'e.title',
+    subtitle: 'left(e.description, 120)',
+    url: "'/tasks'",
+    rankField: 'e.title',
+    fields: ['e.title', 'e.description'],
+  },
+  {
+    type: 'lead_appointment',
+    from: 'lead_appointments e',
+    title: 'e.customer_name',
+    subtitle: "concat_ws(' · ', e.customer_phone, e.child_name, e.interest)",
+    url: "'/lead-appointments?id=' || e.id",
+    rankField: 'e.customer_name',
+    fields: ['e.customer_name', 'e.customer_email', 'e.child_name', 'e.interest'],
+    phones: ['e.customer_phone'],
+  },
+  {
+    type: 'wa_message',
+    from: 'wa_messages e JOIN wa_conversations c ON c.id = e.conversation_id',
+    title: 'coalesce(c.contact_name, c.lead_name, c.phone)',
+    subtitle: 'left(e.content, 120)',
+    url: "'/whatsapp?conv=' || e.conversation_id",
+    rankField: 'e.content',
+    fields: ['e.content'],
+  },
+];
+
+export const SEARCH_ENTITY_TYPES = SOURCES.map(s => s.type);
+
+const PER_TYPE_LIMIT = 8;
+const TOTAL_LIMIT = 40;
+const MAX_TOKENS = 5;
+const HEBREW_PREFIXES = 'והבלמשכ';
+
+/** Mirrors crm_search_norm() so the query is compared in the same form as the data. */
+export function normalizeSearchText(text: string) {
+  return text
+    .replace(/[\u0591-\u05C7\u05F3\u05F4"']/g, '')
+    .toLowerCase()
+    .replace(/[ךםןףץ]/g, c => 'כמנפצ'['ךםןףץ'.indexOf(c)])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Query tokens, each with the variants it may match as. */
+export function searchTokens(normalized: string): string[][] {
+  const tokens = Array.from(new Set(normalized.split(' ').filter(Boolean))).slice(0, MAX_TOKENS);
+  return tokens.map(token =>
+    token.length >= 4 && HEBREW_PREFIXES.includes(token[0]) && /^[\u05D0-\u05EA]+$/.test(token)
+      ? [token, token.slice(1)]
+      : [token]
+  );
+}
+
+/**
+ * Phone-like queries ("050-123-4567", "+972 50 1234567", "1234567") become the national number
+ * without the trunk 0 / country code, matched as a substring of the stored digits.
+ */
+export function phoneSearchDigits(query: string) {
+  if (!/^[\d\s\-+().]+$/.test(query.trim())) return null;
+  let digits = query.replace(/\D/g, '');
+  if (digits.startsWith('972')) digits = digits.slice(3);
+  else if (digits.startsWith('0')) digits = digits.slice(1);
+  return digits.length >= 6 ? digits : null;
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
+function sourceQuery(source: SearchSource, phrase: string, tokens: string[][], phoneDigits: string | null) {
+  const raw = Prisma.raw;
+  const doc = raw(`crm_search_doc(${source.fields.join(', ')})`);
+  const rankField = raw(`crm_search_norm(${source.rankField})`);
+  const like = escapeLike(phrase);
+
+  const tokenMatch = tokens.length > 0
+    ? Prisma.join(
+        tokens.map(variants => Prisma.sql`(${Prisma.join(variants.map(v => Prisma.sql`${doc} LIKE ${`%${escapeLike(v)}%`}`), ' OR ')})`),
+        ' AND ',
+      )
+    : Prisma.sql`false`;
+  const phoneMatch = phoneDigits && source.phones?.length
+    ? Prisma.join(source.phones.map(p => Prisma.sql`crm_phone_digits(${raw(p)}) LIKE ${`%${phoneDigits}%`}`), ' OR ')
+    : Prisma.sql`false`;
+
+  return Prisma.sql`(
+    SELECT ${source.type} AS type, e.id::text AS id, ${raw(source.title)} AS title, ${raw(source.subtitle)} AS subtitle,
+           ${raw(source.url)} AS url,
+           GREATEST(
+             CASE
+               WHEN ${rankField} = ${phrase} THEN 1
+               WHEN ${rankField} LIKE ${`${like}%`} THEN 0.8
+               WHEN ${rankField} LIKE ${`% ${like}%`} THEN 0.6
+               WHEN ${rankField} LIKE ${`%${like}%`} THEN 0.4
+               ELSE 0.2
+             END,
+             CASE WHEN ${phoneMatch} THEN 0.9 ELSE 0 END
+           ) + similarity(${rankField}, ${phrase}) * 0.1 AS rank
+    FROM ${raw(source.from)}
+    WHERE ${raw(source.where ?? 'true')} AND ((${tokenMatch}) OR (${phoneMatch}))
+    ORDER BY rank DESC
+    LIMIT ${PER_TYPE_LIMIT}
+  )`;
+}
+
+/** Ranked results across all (or the requested) entity types. */
+export async function globalSearch(query: string, types?: SearchEntityType[]): Promise<SearchResult[]> {
+  const phrase = normalizeSearchText(query);
+  const tokens = searchTokens(phrase);
+  const phoneDigits = phoneSearchDigits(query);
+  if (tokens.length === 0 && !phoneDigits) return [];
+
+  const sources = SOURCES.filter(s => !types?.length || types.includes(s.type));
+  if (sources.length === 0) return [];
+
+  const sql = Prisma.sql`
+    SELECT * FROM (${Prisma.join(sources.map(s => sourceQuery(s, phrase, tokens, phoneDigits)), ' UNION ALL ')}) results
+    ORDER BY rank DESC, title
+    LIMIT ${TOTAL_LIMIT}
+  `;
+  const rows = await prisma.$queryRaw<SearchResult[]>(sql);
+  return rows.map(r => ({ ...r, rank: Number(r.rank) }));
+}
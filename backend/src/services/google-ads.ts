@@ -0,0 +1,74 @@
+/**
+ * Google Ads client
+ *
+ * Shared by the Google Ads dashboard routes and the campaign attribution report, which needs
+ * per-campaign spend to compute cost-per-registration.
+ */
+
+import { GoogleAdsApi } from 'google-ads-api';
+
+export interface GoogleAdsCampaignSpend {
+  id: string;
+  name: string;
+  cost: number;
+}
+
+export function isGoogleAdsConfigured() {
+  return !!(
+    process.env.GOOGLE_ADS_DEVELOPER_TOKEN &&
+    process.env.GOOGLE_ADS_CLIENT_ID &&
+    process.env.GOOGLE_ADS_CLIENT_SECRET &&
+    process.env.GOOGLE_ADS_REFRESH_TOKEN &&
+    process.env.GOOGLE_ADS_CUSTOMER_ID
+  );
+}
+
+export function getGoogleAdsCustomer() {
+  const {
+    GOOGLE_ADS_DEVELOPER_TOKEN,
+    GOOGLE_ADS_CLIENT_ID,
+    GOOGLE_ADS_CLIENT_SECRET,
+    GOOGLE_ADS_REFRESH_TOKEN,
+    GOOGLE_ADS_CUSTOMER_ID,
+  } = process.env;
+
+  if (!GOOGLE_ADS_DEVELOPER_TOKEN || !GOOGLE_ADS_CLIENT_ID || !GOOGLE_ADS_CLIENT_SECRET
+      || !GOOGLE_ADS_REFRESH_TOKEN || !GOOGLE_ADS_CUSTOMER_ID) {
+    throw new Error('Google Ads credentials missing in .env');
+  }
+
+  const client = new GoogleAdsApi({
+    client_id: GOOGLE_ADS_CLIENT_ID,
+    client_secret: GOOGLE_ADS_CLIENT_SECRET,
+    developer_token: GOOGLE_ADS_DEVELOPER_TOKEN,
+  });
+
+  return client.Customer({
+    customer_id: GOOGLE_ADS_CUSTOMER_ID.replace(/-/g, ''),
+    refresh_token: GOOGLE_ADS_REFRESH_TOKEN,
+  });
+}
+
+/** Total cost per campaign between two YYYY-MM-DD dates (inclusive). */
+export async function getGoogleAdsSpend(startDate: string, endDate: string): Promise<GoogleAdsCampaignSpend[]> {
+  const results = await getGoogleAdsCustomer().query(`
+    SELECT
+      campaign.id,
+      campaign.name,
+      metrics.cost_micros
+    FROM campaign
+    WHERE segments.date BETWEEN '${startDate}' AND '${endDate}'
+      AND campaign.status != 'REMOVED'
+  `);
+
+  return results.map((r: Record<string, unknown>) => {
+    const c = r['campaign'] as Record<string, unknown> | undefined;
+    const m = r['metrics'] as Record<string, unknown> | undefined;
+    const costMicros = Number(m?.['costMicros'] ?? m?.['cost_micros'] ?? 0);
+    return {
+      id: String(c?.['id'] ?? ''),
+      name: String(c?.['name'] ?? ''),
+      cost: Number((costMicros / 1_000_000).toFixed(2)),
+    };
+  });
+}
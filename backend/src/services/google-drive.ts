@@ -145,6 +145,41 @@ export async function uploadLessonPlan(params: {
   };
 }
 
+/**
+ * Render an HTML document to PDF by importing it as a Google Doc and exporting it.
+ * Used for generated documents (report cards) — Docs lays out Hebrew RTL text correctly,
+ * which a plain PDF writer would not. The temporary Doc is deleted afterwards.
+ */
+export async function renderHtmlToPdf(title: string, html: string): Promise<Buffer> {
+  const drive = getDriveClient();
+
+  const doc = await drive.files.create({
+    requestBody: {
+      name: title,
+      mimeType: 'application/vnd.google-apps.document',
+      parents: [SHARED_DRIVE_ID],
+    },
+    media: {
+      mimeType: 'text/html',
+      body: html,
+    },
+    supportsAllDrives: true,
+    fields: 'id',
+  });
+
+  try {
+    const pdf = await drive.files.export(
+      { fileId: doc.data.id!, mimeType: 'application/pdf' },
+      { responseType: 'arraybuffer' },
+    );
+    return Buffer.from(pdf.data as ArrayBuffer);
+  } finally {
+    await drive.files.delete({ fileId: doc.data.id!, supportsAllDrives: true }).catch(err =>
+      console.error('[GoogleDrive] Failed to delete temporary doc:', err)
+    );
+  }
+}
+
 /**
  * Map Google Drive MIME types to human-readable labels
  */
@@ -0,0 +1,407 @@
+/**
+ * Unified Inbox
+ *
+ * WhatsApp, Messenger and Instagram keep their own conversation tables; inbox_threads links each
+ * channel thread to a customer so the inbox can show one contact with every channel merged.
+ * - Threads are linked automatically on inbound messages: WhatsApp by phone, DMs by a phone number
+ *   or email the contact writes in the chat. Staff can link / unlink manually.
+ * - Unlinked threads stay their own contact (key "<channel>:<threadId>").
+ * - Replies always go out on the thread's originating channel.
+ */
+
+import type { InboxChannel } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { sendDmReply } from './social-dm.js';
+import { sendWaTextReply } from './wa-inbox.js';
+
+export const INBOX_CHANNELS: InboxChannel[] = ['whatsapp', 'messenger', 'instagram'];
+
+const CONTACT_LIMIT = 200;
+const MESSAGE_LIMIT = 200;
+const SEARCH_LIMIT = 50;
+
+export interface InboxThreadSummary {
+  channel: InboxChannel;
+  threadId: string;
+  name: string;
+  unreadCount: number;
+  lastMessageAt: Date | null;
+  lastMessagePreview: string | null;
+}
+
+export interface InboxContact {
+  key: string;
+  name: string;
+  customer: { id: string; name: string; phone: string | null; email: string | null } | null;
+  unreadCount: number;
+  lastMessageAt: Date | null;
+  lastMessagePreview: string | null;
+  lastChannel: InboxChannel;
+  threads: InboxThreadSummary[];
+}
+
+export interface InboxMessage {
+  id: string;
+  channel: InboxChannel;
+  threadId: string;
+  direction: string;
+  content: string;
+  isAiGenerated: boolean;
+  createdAt: Date;
+}
+
+interface DmConversationRow {
+  id: string;
+  name: string | null;
+  last_message: string | null;
+  last_message_at: Date | null;
+  unread_count: number;
+}
+
+interface DmMessageRow {
+  id: string;
+  conversation_id: string;
+  direction: string;
+  content: string;
+  is_ai_generated: boolean;
+  created_at: Date;
+}
+
+export function isInboxChannel(value: unknown): value is InboxChannel {
+  return typeof value === 'string' && (INBOX_CHANNELS as string[]).includes(value);
+}
+
+export function contactKey(customerId: string | null | undefined, channel: InboxChannel, threadId: string) {
+  return customerId ? `customer:${customerId}` : `${channel}:${threadId}`;
+}
+
+function last9(phone: string | null | undefined) {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 9 ? digits.slice(-9) : null;
+}
+
+/** Pull a phone number or email a contact typed into a DM ("my number is 050-1234567"). */
+export function extractContactDetails(text: string | null | undefined) {
+  const email = text?.match(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/)?.[0]?.toLowerCase() ?? null;
+  const phone = text?.match(/(?:\+?972[-\s]?|0)5\d(?:[-\s]?\d){7}/)?.[0] ?? null;
+  return { phone, email };
+}
+
+// ===================
+// Customer linking
+// ===================
+
+async function findCustomerForContact(phone: string | null, email: string | null) {
+  const phoneSuffix = last9(phone);
+  if (phoneSuffix) {
+    const customer = await prisma.customer.findFirst({
+      where: { phone: { endsWith: phoneSuffix }, deletedAt: null },
+      select: { id: true },
+    });
+    if (customer) return { customerId: customer.id, linkedBy: 'phone' };
+  }
+  if (email) {
+    const customer = await prisma.customer.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' }, deletedAt: null },
+      select: { id: true },
+    });
+    if (customer) return { customerId: customer.id, linkedBy: 'email' };
+  }
+  return null;
+}
+
+/**
+ * Link a channel thread to a customer if it isn't linked yet. Hints win over details extracted
+ * from the message text. Returns the customer id, or null when no customer matched.
+ */
+export async function linkInboxThread(
+  channel: InboxChannel,
+  threadId: string,
+  hints: { phone?: string | null; email?: string | null; text?: string | null } = {},
+) {
+  const existing = await prisma.inboxThread.findUnique({
+    where: { channel_threadId: { channel, threadId } },
+  });
+  if (existing?.customerId) return existing.customerId;
+
+  const extracted = extractContactDetails(hints.text);
+  const match = await findCustomerForContact(hints.phone || extracted.phone, hints.email || extracted.email);
+  if (!match) return null;
+
+  await prisma.inboxThread.upsert({
+    where: { channel_threadId: { channel, threadId } },
+    create: { channel, threadId, ...match },
+    update: match,
+  });
+  return match.customerId;
+}
+
+/** Manual link from the inbox; customerId null unlinks the thread. */
+export async function setThreadCustomer(channel: InboxChannel, threadId: string, customerId: string | null) {
+  const data = { customerId, linkedBy: customerId ? 'manual' : null };
+  return prisma.inboxThread.upsert({
+    where: { channel_threadId: { channel, threadId } },
+    create: { channel, threadId, ...data },
+    update: data,
+    include: { customer: { select: { id: true, name: true, phone: true, email: true } } },
+  });
+}
+
+// ===================
+// Contacts
+// ===================
+
+async function instructorPhoneSuffixes() {
+  const instructors = await prisma.instructor.findMany({ select: { phone: true } });
+  return new Set(instructors.map(i => last9(i.phone)).filter((p): p is string => !!p));
+}
+
+/** Every channel thread with its summary fields (instructor WhatsApp chats are left out). */
+async function loadThreadSummaries(): Promise<InboxThreadSummary[]> {
+  const [waConversations, instructorPhones, messengerRows, instagramRows] = await Promise.all([
+    prisma.waConversation.findMany({
+      orderBy: { lastMessageAt: { sort: 'desc', nulls: 'last' } },
+      take: CONTACT_LIMIT,
+      select: { id: true, phone: true, contactName: true, leadName: true, unreadCount: true, lastMessageAt: true, lastMessagePreview: true },
+    }),
+    instructorPhoneSuffixes(),
+    prisma.$queryRaw<DmConversationRow[]>`
+      SELECT id::text AS id, sender_name AS name, last_message, last_message_at, unread_count
+      FROM messenger_conversations ORDER BY last_message_at DESC NULLS LAST LIMIT ${CONTACT_LIMIT}
+    `,
+    prisma.$queryRaw<DmConversationRow[]>`
+      SELECT id::text AS id, sender_username AS name, last_message, last_message_at, unread_count
+      FROM instagram_conversations ORDER BY last_message_at DESC NULLS LAST LIMIT ${CONTACT_LIMIT}
+    `,
+  ]);
+
+  const dmSummary = (channel: InboxChannel) => (row: DmConversationRow): InboxThreadSummary => ({
+    channel,
+    threadId: row.id,
+    name: row.name || (channel === 'messenger' ? 'Messenger' : 'Instagram'),
+    unreadCount: Number(row.unread_count) || 0,
+    lastMessageAt: row.last_message_at,
+    lastMessagePreview: row.last_message,
+  });
+
+  return [
+    ...waConversations
+      .filter(c => !instructorPhones.has(last9(c.phone) ?? ''))
+      .map(c => ({
+        channel: 'whatsapp' as const,
+        threadId: c.id,
+        name: c.contactName || c.leadName || c.phone,
+        unreadCount: c.unreadCount,
+        lastMessageAt: c.lastMessageAt,
+        lastMessagePreview: c.lastMessagePreview,
+      })),
+    ...messengerRows.map(dmSummary('messenger')),
+    ...instagramRows.map(dmSummary('instagram')),
+  ];
+}
+
+/** Threads merged per contact, most recent activity first. */
+export async function listInboxContacts(filters: { search?: string; channel?: InboxChannel } = {}) {
+  const summaries = await loadThreadSummaries();
+  const links = await prisma.inboxThread.findMany({
+    where: {
+      customerId: { not: null },
+      OR: INBOX_CHANNELS.map(channel => ({
+        channel,
+        threadId: { in: summaries.filter(s => s.channel === channel).map(s => s.threadId) },
+      })),
+    },
+    include: { customer: { select: { id: true, name: true, phone: true, email: true } } },
+  });
+  const linkByThread = new Map(links.map(l => [`${l.channel}:${l.threadId}`, l]));
+
+  const contacts = new Map<string, InboxContact>();
+  for (const thread of summaries) {
+    const link = linkByThread.get(`${thread.channel}:${thread.threadId}`);
+    const key = contactKey(link?.customerId, thread.channel, thread.threadId);
+    const contact = contacts.get(key) ?? {
+      key,
+      name: link?.customer?.name || thread.name,
+      customer: link?.customer ?? null,
+      unreadCount: 0,
+      lastMessageAt: null,
+      lastMessagePreview: null,
+      lastChannel: thread.channel,
+      threads: [],
+    };
+    contact.threads.push(thread);
+    contact.unreadCount += thread.unreadCount;
+    if (thread.lastMessageAt && (!contact.lastMessageAt || thread.lastMessageAt > contact.lastMessageAt)) {
+      contact.lastMessageAt = thread.lastMessageAt;
+      contact.lastMessagePreview = thread.lastMessagePreview;
+      contact.lastChannel = thread.channel;
+    }
+    contacts.set(key, contact);
+  }
+
+  const q = filters.search?.trim().toLowerCase();
+  return Array.from(contacts.values())
+    .filter(c => !filters.channel || c.threads.some(t => t.channel === filters.channel))
+    .filter(c => !q || [c.name, c.customer?.phone, c.customer?.email, ...c.threads.map(t => t.name)]
+      .some(v => v?.toLowerCase().includes(q)))
+    .sort((a, b) => (b.lastMessageAt?.getTime() ?? 0) - (a.lastMessageAt?.getTime() ?? 0));
+}
+
+/**
+ * Combined unread counter across all channels (instructor WhatsApp chats excluded). Summed over
+ * every thread, not just the CONTACT_LIMIT most recent ones the contact list loads.
+ */
+export async function getInboxUnreadCount() {
+  const instructorPhones = [...await instructorPhoneSuffixes()];
+  const [[whatsapp], [messenger], [instagram]] = await Promise.all([
+    prisma.$queryRaw<{ unread: bigint | null }[]>`
+      SELECT SUM(unread_count) AS unread FROM wa_conversations
+      WHERE RIGHT(regexp_replace(COALESCE(phone, ''), '[^0-9]', '', 'g'), 9) <> ALL(${instructorPhones}::text[])
+    `,
+    prisma.$queryRaw<{ unread: bigint | null }[]>`SELECT SUM(unread_count) AS unread FROM messenger_conversations`,
+    prisma.$queryRaw<{ unread: bigint | null }[]>`SELECT SUM(unread_count) AS unread FROM instagram_conversations`,
+  ]);
+  const byChannel: Record<InboxChannel, number> = {
+    whatsapp: Number(whatsapp?.unread ?? 0),
+    messenger: Number(messenger?.unread ?? 0),
+    instagram: Number(instagram?.unread ?? 0),
+  };
+  return { total: byChannel.whatsapp + byChannel.messenger + byChannel.instagram, byChannel };
+}
+
+// ===================
+// Messages
+// ===================
+
+/** Threads behind a contact key — all threads linked to the customer, or the single thread. */
+async function threadsForContact(key: string): Promise<{ channel: InboxChannel; threadId: string }[]> {
+  const [prefix, id] = [key.slice(0, key.indexOf(':')), key.slice(key.indexOf(':') + 1)];
+  if (!id) return [];
+  if (prefix === 'customer') {
+    return prisma.inboxThread.findMany({
+      where: { customerId: id },
+      select: { channel: true, threadId: true },
+    });
+  }
+  return isInboxChannel(prefix) ? [{ channel: prefix, threadId: id }] : [];
+}
+
+async function loadThreadMessages(channel: InboxChannel, threadId: string): Promise<InboxMessage[]> {
+  if (channel === 'whatsapp') {
+    const messages = await prisma.waMessage.findMany({
+      where: { conversationId: threadId },
+      orderBy: { createdAt: 'desc' },
+      take: MESSAGE_LIMIT,
+    });
+    await prisma.waConversation.updateMany({ where: { id: threadId }, data: { unreadCount: 0 } });
+    return messages.map(m => ({
+      id: m.id,
+      channel,
+      threadId,
+      direction: m.direction,
+      content: m.content,
+      isAiGenerated: m.isAiGenerated,
+      createdAt: m.createdAt,
+    }));
+  }
+
+  const rows = channel === 'messenger'
+    ? await prisma.$queryRaw<DmMessageRow[]>`
+        SELECT id::text AS id, conversation_id::text AS conversation_id, direction, content, is_ai_generated, created_at
+        FROM messenger_messages WHERE conversation_id = ${threadId}::uuid ORDER BY created_at DESC LIMIT ${MESSAGE_LIMIT}
+      `
+    : await prisma.$queryRaw<DmMessageRow[]>`
+        SELECT id::text AS id, conversation_id::text AS conversation_id, direction, content, is_ai_generated, created_at
+        FROM instagram_messages WHERE conversation_id = ${threadId}::uuid ORDER BY created_at DESC LIMIT ${MESSAGE_LIMIT}
+      `;
+  if (channel === 'messenger') {
+    await prisma.$queryRaw`UPDATE messenger_conversations SET unread_count = 0 WHERE id = ${threadId}::uuid`;
+  } else {
+    await prisma.$queryRaw`UPDATE instagram_conversations SET unread_count = 0 WHERE id = ${threadId}::uuid`;
+  }
+  return rows.map(r => ({
+    id: r.id,
+    channel,
+    threadId,
+    direction: r.direction,
+    content: r.content,
+    isAiGenerated: r.is_ai_generated,
+    createdAt: r.created_at,
+  }));
+}
+
+/** One chronological timeline across every thread of the contact; marks them read. */
+export async function getContactMessages(key: string) {
+  const threads = await threadsForContact(key);
+  const perThread = await Promise.all(threads.map(t => loadThreadMessages(t.channel, t.threadId)));
+  return perThread.flat().sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/** Full-text-ish search (ILIKE) over the message history of all channels. */
+export async function searchInboxMessages(query: string) {
+  const pattern = `%${query.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+  const [waMessages, dmRows] = await Promise.all([
+    prisma.waMessage.findMany({
+      where: { content: { contains: query, mode: 'insensitive' } },
+      orderBy: { createdAt: 'desc' },
+      take: SEARCH_LIMIT,
+      include: { conversation: { select: { phone: true, contactName: true, leadName: true } } },
+    }),
+    prisma.$queryRaw<(DmMessageRow & { channel: 'messenger' | 'instagram'; name: string | null })[]>`
+      SELECT * FROM (
+        SELECT 'messenger' AS channel, m.id::text AS id, m.conversation_id::text AS conversation_id, m.direction,
+               m.content, m.is_ai_generated, m.created_at, c.sender_name AS name
+        FROM messenger_messages m JOIN messenger_conversations c ON c.id = m.conversation_id
+        WHERE m.content ILIKE ${pattern}
+        UNION ALL
+        SELECT 'instagram' AS channel, m.id::text AS id, m.conversation_id::text AS conversation_id, m.direction,
+               m.content, m.is_ai_generated, m.created_at, c.sender_username AS name
+        FROM instagram_messages m JOIN instagram_conversations c ON c.id = m.conversation_id
+        WHERE m.content ILIKE ${pattern}
+      ) hits ORDER BY created_at DESC LIMIT ${SEARCH_LIMIT}
+    `,
+  ]);
+
+  const hits = [
+    ...waMessages.map(m => ({
+      id: m.id,
+      channel: 'whatsapp' as InboxChannel,
+      threadId: m.conversationId,
+      name: m.conversation.contactName || m.conversation.leadName || m.conversation.phone,
+      direction: m.direction as string,
+      content: m.content,
+      createdAt: m.createdAt,
+    })),
+    ...dmRows.map(r => ({
+      id: r.id,
+      channel: r.channel as InboxChannel,
+      threadId: r.conversation_id,
+      name: r.name || r.channel,
+      direction: r.direction,
+      content: r.content,
+      createdAt: r.created_at,
+    })),
+  ]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, SEARCH_LIMIT);
+
+  const links = hits.length > 0
+    ? await prisma.inboxThread.findMany({
+        where: { customerId: { not: null }, OR: hits.map(h => ({ channel: h.channel, threadId: h.threadId })) },
+        select: { channel: true, threadId: true, customerId: true },
+      })
+    : [];
+  const customerByThread = new Map(links.map(l => [`${l.channel}:${l.threadId}`, l.customerId]));
+
+  return hits.map(h => ({ ...h, contactKey: contactKey(customerByThread.get(`${h.channel}:${h.threadId}`), h.channel, h.threadId) }));
+}
+
+// ===================
+// Replies
+// ===================
+
+/** Reply on the thread's own channel. Returns null when the thread doesn't exist. */
+export async function replyToThread(channel: InboxChannel, threadId: string, text: string) {
+  if (channel === 'whatsapp') return sendWaTextReply(threadId, text);
+  return sendDmReply(channel, threadId, text);
+}
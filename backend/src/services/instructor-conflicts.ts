@@ -0,0 +1,217 @@
+/**
+ * Instructor scheduling conflicts.
+ *
+ * zoom-conflicts.ts only catches two meetings on the same Zoom host account. This engine
+ * looks at the instructor instead: a meeting that overlaps another meeting of the same
+ * instructor is a hard conflict (blocked unless ops explicitly override it), and two frontal
+ * meetings in different locations with less than INSTRUCTOR_TRAVEL_GAP_MINUTES between them
+ * are flagged as a warning. It runs on cycle creation, meeting generation and meeting edits,
+ * and feeds the `instructor_conflict` alert in the operations control dashboard.
+ */
+
+import type { ActivityType } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const TRAVEL_GAP_MINUTES = Number(process.env.INSTRUCTOR_TRAVEL_GAP_MINUTES || 45);
+
+// Meetings in these statuses don't occupy the instructor's time
+const NON_BLOCKING_STATUSES = ['cancelled', 'postponed'] as const;
+
+export type ScheduleSlot = {
+  meetingId: string | null;
+  instructorId: string;
+  scheduledDate: Date;
+  startTime: Date;
+  endTime: Date;
+  activityType: ActivityType | null;
+  location: string | null;
+  cycleName: string | null;
+};
+
+export type InstructorConflictType = 'overlap' | 'travel_gap';
+
+export type InstructorConflict = {
+  type: InstructorConflictType;
+  severity: 'block' | 'warn';
+  instructorId: string;
+  date: string;
+  meetings: {
+    meetingId: string | null;
+    cycleName: string | null;
+    startTime: string;
+    endTime: string;
+    location: string | null;
+  }[];
+  gapMinutes: number | null;
+  message: string;
+};
+
+type TaggedSlot = ScheduleSlot & { proposed: boolean };
+
+const minutesOf = (value: Date) => value.getUTCHours() * 60 + value.getUTCMinutes();
+
+const formatTime = (value: Date) => value.toISOString().substring(11, 16);
+
+const toDateString = (value: Date) => value.toISOString().split('T')[0];
+
+const normalizeLocation = (value: string | null | undefined) => (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+function slotRef(slot: ScheduleSlot) {
+  return {
+    meetingId: slot.meetingId,
+    cycleName: slot.cycleName,
+    startTime: formatTime(slot.startTime),
+    endTime: formatTime(slot.endTime),
+    location: slot.location,
+  };
+}
+
+function slotLabel(slot: ScheduleSlot) {
+  return `${slot.cycleName || 'פגישה'} ${formatTime(slot.startTime)}-${formatTime(slot.endTime)}`;
+}
+
+function needsTravel(a: ScheduleSlot, b: ScheduleSlot) {
+  if (a.activityType !== 'frontal' || b.activityType !== 'frontal') return false;
+  const from = normalizeLocation(a.location);
+  const to = normalizeLocation(b.location);
+  return Boolean(from && to && from !== to);
+}
+
+/**
+ * Pure conflict check. Only conflicts that involve at least one proposed slot are reported;
+ * existing slots with the same meetingId as a proposed one are ignored (the proposal
+ * replaces them). Pass everything as `proposed` to scan a schedule as a whole.
+ */
+export function findInstructorConflicts(
+  proposed: ScheduleSlot[],
+  existing: ScheduleSlot[] = [],
+  travelGapMinutes = TRAVEL_GAP_MINUTES,
+): InstructorConflict[] {
+  const proposedIds = new Set(proposed.map((slot) => slot.meetingId).filter(Boolean));
+  const slots: TaggedSlot[] = [
+    ...proposed.map((slot) => ({ ...slot, proposed: true })),
+    ...existing
+      .filter((slot) => !slot.meetingId || !proposedIds.has(slot.meetingId))
+      .map((slot) => ({ ...slot, proposed: false })),
+  ];
+
+  const byInstructorDay = new Map<string, TaggedSlot[]>();
+  for (const slot of slots) {
+    const key = `${slot.instructorId}|${toDateString(slot.scheduledDate)}`;
+    if (!byInstructorDay.has(key)) byInstructorDay.set(key, []);
+    byInstructorDay.get(key)!.push(slot);
+  }
+
+  const conflicts: InstructorConflict[] = [];
+
+  for (const daySlots of byInstructorDay.values()) {
+    daySlots.sort((a, b) => minutesOf(a.startTime) - minutesOf(b.startTime) || minutesOf(a.endTime) - minutesOf(b.endTime));
+
+    for (let i = 0; i < daySlots.length; i++) {
+      const a = daySlots[i];
+      const aEnd = minutesOf(a.endTime);
+      let nextFollowing: TaggedSlot | null = null;
+
+      for (let j = i + 1; j < daySlots.length; j++) {
+        const b = daySlots[j];
+        const bStart = minutesOf(b.startTime);
+        if (bStart >= aEnd) {
+          nextFollowing = b;
+          break;
+        }
+        if (!a.proposed && !b.proposed) continue;
+        conflicts.push({
+          type: 'overlap',
+          severity: 'block',
+          instructorId: a.instructorId,
+          date: toDateString(a.scheduledDate),
+          meetings: [slotRef(a), slotRef(b)],
+          gapMinutes: null,
+          message: `${toDateString(a.scheduledDate)}: ${slotLabel(a)} חופפת ל-${slotLabel(b)}`,
+        });
+      }
+
+      if (!nextFollowing || (!a.proposed && !nextFollowing.proposed) || !needsTravel(a, nextFollowing)) continue;
+      const gapMinutes = minutesOf(nextFollowing.startTime) - aEnd;
+      if (gapMinutes >= travelGapMinutes) continue;
+      conflicts.push({
+        type: 'travel_gap',
+        severity: 'warn',
+        instructorId: a.instructorId,
+        date: toDateString(a.scheduledDate),
+        meetings: [slotRef(a), slotRef(nextFollowing)],
+        gapMinutes,
+        message: `${toDateString(a.scheduledDate)}: ${gapMinutes} דקות בלבד בין ${slotLabel(a)} (${a.location}) ל-${slotLabel(nextFollowing)} (${nextFollowing.location})`,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Check proposed slots against the instructors' other active meetings on the same days.
+ * `replacedMeetingIds` are meetings the proposal will delete (e.g. a cycle's regenerated schedule).
+ */
+export async function detectInstructorConflicts(proposed: ScheduleSlot[], replacedMeetingIds: string[] = []) {
+  if (proposed.length === 0) return [];
+
+  const instructorIds = [...new Set(proposed.map((slot) => slot.instructorId))];
+  const dates = [...new Set(proposed.map((slot) => toDateString(slot.scheduledDate)))].map((date) => new Date(date));
+  const proposedIds = [
+    ...proposed.map((slot) => slot.meetingId).filter((id): id is string => Boolean(id)),
+    ...replacedMeetingIds,
+  ];
+
+  const meetings = await prisma.meeting.findMany({
+    where: {
+      instructorId: { in: instructorIds },
+      scheduledDate: { in: dates },
+      deletedAt: null,
+      status: { notIn: [...NON_BLOCKING_STATUSES] },
+      ...(proposedIds.length > 0 && { id: { notIn: proposedIds } }),
+    },
+    select: {
+      id: true,
+      instructorId: true,
+      scheduledDate: true,
+      startTime: true,
+      endTime: true,
+      activityType: true,
+      cycle: { select: { name: true, location: true, activityType: true } },
+    },
+  });
+
+  const existing: ScheduleSlot[] = meetings.map((meeting) => ({
+    meetingId: meeting.id,
+    instructorId: meeting.instructorId,
+    scheduledDate: meeting.scheduledDate,
+    startTime: meeting.startTime,
+    endTime: meeting.endTime,
+    activityType: meeting.activityType ?? meeting.cycle.activityType,
+    location: meeting.cycle.location,
+    cycleName: meeting.cycle.name,
+  }));
+
+  return findInstructorConflicts(proposed, existing);
+}
+
+/**
+ * Throw 409 INSTRUCTOR_CONFLICT when a blocking conflict exists and the caller didn't pass
+ * allowConflicts. Returns the conflicts that are let through, for the response body.
+ */
+export function enforceInstructorConflicts(conflicts: InstructorConflict[], allowConflicts = false) {
+  if (!allowConflicts && conflicts.some((conflict) => conflict.severity === 'block')) {
+    throw new AppError(409, 'המדריך כבר משובץ לפגישה אחרת באותו זמן', {
+      code: 'INSTRUCTOR_CONFLICT',
+      conflicts,
+    });
+  }
+  return conflicts;
+}
+
+/** detectInstructorConflicts + enforceInstructorConflicts. */
+export async function checkInstructorConflicts(proposed: ScheduleSlot[], allowConflicts = false, replacedMeetingIds: string[] = []) {
+  return enforceInstructorConflicts(await detectInstructorConflicts(proposed, replacedMeetingIds), allowConflicts);
+}
@@ -19,6 +19,7 @@ interface DailyMeeting {
   activityType: string;
   studentCount: number;
   zoomJoinUrl?: string;
+  lessonTitle?: string;
 }
 
 interface InstructorDailySummary {
@@ -103,7 +104,8 @@ export async function getDailyMeetingsForInstructors(
             select: { registrations: true }
           }
         }
-      }
+      },
+      lesson: { select: { title: true } },
     },
     orderBy: [
       { instructorId: 'asc' },
@@ -149,6 +151,7 @@ export async function getDailyMeetingsForInstructors(
       activityType: meeting.cycle?.activityType || 'frontal',
       studentCount: meeting.cycle?._count?.registrations || 0,
       zoomJoinUrl: meeting.zoomJoinUrl || undefined,
+      lessonTitle: meeting.lesson?.title,
     });
     
     // Generate magic link for this meeting
@@ -179,6 +182,10 @@ export function formatWhatsAppReminder(summary: InstructorDailySummary): string
     message += `⏰ *${meeting.startTime} - ${meeting.endTime}*\n`;
     message += `📚 ${meeting.cycleName}\n`;
     
+    if (meeting.lessonTitle) {
+      message += `🎯 נושא השיעור: ${meeting.lessonTitle}\n`;
+    }
+    
     if (meeting.branchName) {
       message += `📍 ${meeting.branchName}\n`;
     }
@@ -6,6 +6,7 @@
 import OpenAI from 'openai';
 import { listDriveFolder, uploadLessonPlan } from './google-drive.js';
 import { prisma } from '../utils/prisma.js';
+import { getLessonPlanContext } from './course-curriculum.js';
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
@@ -16,6 +17,8 @@ export interface LessonPlanRequest {
   ageGroup: string;           // e.g. "כיתות ג-ד (8-10)"
   cycleName?: string;         // e.g. "מחזור 3 - חולון"
   topic?: string;             // Optional: specific topic/lesson number
+  meetingId?: string;         // Optional: plan for this meeting's curriculum lesson
+  lessonNumber?: number;      // Optional: plan for this curriculum lesson
   language?: string;          // default: he
   userId: string;
   userName?: string;
@@ -53,8 +56,31 @@ async function getDriveMaterials(folderId: string, depth = 0): Promise<string[]>
 /**
  * Build system prompt for the AI
  */
-function buildPrompt(req: LessonPlanRequest, driveFiles: string[]): string {
+type CurriculumContext = Awaited<ReturnType<typeof getLessonPlanContext>>;
+
+function buildCurriculumSection(curriculum: CurriculumContext): string {
+  if (!curriculum) return '';
+  const { outline, current } = curriculum;
+
+  const outlineLines = outline
+    .map(l => `${l.lessonNumber}. ${l.title}${current?.lessonNumber === l.lessonNumber ? ' ← השיעור הנוכחי' : ''}`)
+    .join('\n');
+  let section = `\n\n## תוכנית הלימודים של הקורס:\n${outlineLines}`;
+
+  if (current) {
+    section += `\n\n## השיעור המבוקש בתוכנית (שיעור ${current.lessonNumber}):\n- **כותרת:** ${current.title}`;
+    if (current.objectives) section += `\n- **מטרות:** ${current.objectives}`;
+    if (current.durationMinutes) section += `\n- **משך:** ${current.durationMinutes} דקות`;
+    if (current.materialLinks.length > 0) section += `\n- **חומרים:** ${current.materialLinks.join(', ')}`;
+    section += '\n\nבנה את המערך סביב מטרות השיעור הזה, בהמשך לשיעורים שלפניו ובהכנה לשיעורים שאחריו.';
+  }
+
+  return section;
+}
+
+function buildPrompt(req: LessonPlanRequest, driveFiles: string[], curriculum: CurriculumContext = null): string {
   const hasDrive = driveFiles.length > 0;
+  const duration = curriculum?.current?.durationMinutes ? `${curriculum.current.durationMinutes} דקות` : '75-90 דקות';
 
   const driveSection = hasDrive
     ? `\n\n## חומרי הלימוד הזמינים לקורס זה (ב-Google Drive שלנו):\n${driveFiles.map(f => `- ${f}`).join('\n')}\n\nאם רלוונטי, ציין בסוף ה-מערך "📁 חומר מומלץ לעיון: [שם הקובץ]".`
@@ -67,10 +93,10 @@ function buildPrompt(req: LessonPlanRequest, driveFiles: string[]): string {
 - **גיל הילדים:** ${req.ageGroup}
 ${req.cycleName ? `- **מחזור:** ${req.cycleName}` : ''}
 ${req.topic ? `- **נושא/בקשה:** ${req.topic}` : '- **נושא:** שיעור כללי מתאים לרמה'}
-${driveSection}
+${buildCurriculumSection(curriculum)}${driveSection}
 
 ## הנחיות:
-1. צור מערך שיעור מלא ומפורט ב**עברית** (75-90 דקות)
+1. צור מערך שיעור מלא ומפורט ב**עברית** (${duration})
 2. כולל: פתיחה, הסבר תיאורטי, פעילות מעשית, סיכום
 3. התאם לגיל: ${req.ageGroup}
 4. כולל קוד לדוגמה אם רלוונטי (ב-\`\`\` blocks)
@@ -90,8 +116,11 @@ export async function generateLessonPlan(req: LessonPlanRequest): Promise<Lesson
   }
   const usedDrive = driveFiles.length > 0;
 
-  // 2. Build prompt
-  const systemPrompt = buildPrompt(req, driveFiles);
+  // 2. Build prompt, with the course curriculum as context when one is defined
+  const curriculum = req.courseId
+    ? await getLessonPlanContext(req.courseId, { meetingId: req.meetingId, lessonNumber: req.lessonNumber })
+    : null;
+  const systemPrompt = buildPrompt(req, driveFiles, curriculum);
 
   // 3. Call GPT-4o
   const completion = await openai.chat.completions.create({
@@ -102,7 +131,9 @@ export async function generateLessonPlan(req: LessonPlanRequest): Promise<Lesson
         role: 'user',
         content: req.topic
           ? `צור מערך שיעור על הנושא: ${req.topic}`
-          : `צור מערך שיעור מתאים לרמה ולגיל`,
+          : curriculum?.current
+            ? `צור מערך שיעור לשיעור ${curriculum.current.lessonNumber} בתוכנית: ${curriculum.current.title}`
+            : `צור מערך שיעור מתאים לרמה ולגיל`,
       },
     ],
     temperature: 0.7,
@@ -123,6 +154,7 @@ export async function generateLessonPlan(req: LessonPlanRequest): Promise<Lesson
     `גיל הלומדים: ${req.ageGroup}`,
     req.cycleName ? `מחזור: ${req.cycleName}` : null,
     req.topic ? `נושא: ${req.topic}` : null,
+    curriculum?.current ? `שיעור בתוכנית: ${curriculum.current.lessonNumber}. ${curriculum.current.title}` : null,
     '---',
     '',
   ].filter(Boolean).join('\n');
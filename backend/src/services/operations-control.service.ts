@@ -1,9 +1,11 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../utils/prisma.js';
+import { findInstructorConflicts } from './instructor-conflicts.js';
 
 const TZ = 'Asia/Jerusalem';
 const LOW_PROFIT_THRESHOLD = Number(process.env.OPERATIONS_CONTROL_LOW_PROFIT_THRESHOLD || 100);
 const DEFAULT_START_DATE = '2026-07-22';
+const CONFLICT_LOOKAHEAD_DAYS = 14;
 
 export type OperationsAlertPriority = 'urgent' | 'high' | 'normal';
 export type OperationsIssueStatus = 'new' | 'in_progress' | 'waiting' | 'closed';
@@ -16,7 +18,8 @@ export type OperationsAlertType =
   | 'student_absence_risk'
   | 'instructor_change_risk'
   | 'cycle_churn_risk'
-  | 'low_enrollment';
+  | 'low_enrollment'
+  | 'instructor_conflict';
 export type FreshnessStatus = 'fresh' | 'stale' | 'error';
 export type OverallStatus = 'ok' | 'watch' | 'urgent' | 'data_error';
 
@@ -507,6 +510,45 @@ function buildLowEnrollmentAlerts(cycles: CycleWithRegistrationRisk[], detectedA
   });
 }
 
+function buildInstructorConflictAlerts(meetings: MeetingWithRelations[], detectedAt: string): AlertCandidate[] {
+  const meetingsById = new Map(meetings.map((meeting) => [meeting.id, meeting]));
+  const conflicts = findInstructorConflicts(meetings.map((meeting) => ({
+    meetingId: meeting.id,
+    instructorId: meeting.instructorId,
+    scheduledDate: meeting.scheduledDate,
+    startTime: meeting.startTime,
+    endTime: meeting.endTime,
+    activityType: meeting.activityType ?? meeting.cycle.activityType ?? null,
+    location: meeting.cycle.location ?? null,
+    cycleName: meeting.cycle.name,
+  })));
+
+  return conflicts.map((conflict) => {
+    const [first, second] = conflict.meetings;
+    const meeting = meetingsById.get(first.meetingId!)!;
+    const overlap = conflict.type === 'overlap';
+
+    return {
+      id: `instructor-conflict:${first.meetingId}:${second.meetingId}`,
+      priority: overlap ? 'urgent' : 'high',
+      type: 'instructor_conflict',
+      title: overlap ? 'מדריך משובץ לשתי פגישות חופפות' : 'אין מספיק זמן נסיעה בין פגישות פרונטליות',
+      entityType: 'meeting',
+      entityId: meeting.id,
+      entityUrl: meetingUrl(meeting.id),
+      clientName: meetingClientName(meeting),
+      cycleName: meeting.cycle.name,
+      instructorName: meeting.instructor?.name || null,
+      description: conflict.message,
+      recommendedAction: overlap
+        ? 'לשבץ מדריך מחליף לאחת הפגישות או להזיז אותה.'
+        : 'לוודא מול המדריך שהנסיעה אפשרית, או להזיז/להחליף מדריך.',
+      detectedAt,
+      taskId: null,
+    } as AlertCandidate;
+  });
+}
+
 export function filterAndSortAlerts<T extends AlertCandidate>(
   alerts: T[],
   filters: Pick<OperationsControlFilters, 'priority' | 'type'>,
@@ -525,6 +567,7 @@ export function buildOperationsAlerts(data: {
   recentAbsences: AbsenceRiskRecord[];
   recentChangeRequests: MeetingChangeRequestWithRelations[];
   activeCycles: CycleWithRegistrationRisk[];
+  upcomingMeetings: MeetingWithRelations[];
   churnSinceDate: Date;
   detectedAt: string;
   today: string;
@@ -547,6 +590,7 @@ export function buildOperationsAlerts(data: {
       sinceDate: data.churnSinceDate,
     }),
     ...buildLowEnrollmentAlerts(data.activeCycles, data.detectedAt),
+    ...buildInstructorConflictAlerts(data.upcomingMeetings, data.detectedAt),
   ];
 }
 
@@ -665,6 +709,7 @@ export async function getOperationsControlToday(filters: OperationsControlFilter
   const weekStart = addDays(todayDate, -todayDate.getUTCDay());
   const effectiveWeekStart = maxDate(weekStart, operationsStartDate);
   const weekEnd = addDays(weekStart, 7);
+  const conflictWindowEnd = addDays(todayDate, CONFLICT_LOOKAHEAD_DAYS);
 
   const meetingInclude = {
     cycle: {
@@ -683,7 +728,7 @@ export async function getOperationsControlToday(filters: OperationsControlFilter
     createdBy: { select: { id: true, name: true, role: true } },
   } satisfies Prisma.TaskInclude;
 
-  const [todayMeetings, recentCompletedMeetings, pastScheduledMeetings, weekMeetings, overdueTasks, openTasks, openTaskCount, recentAbsences, recentChangeRequests, activeCycles] = await Promise.all([
+  const [todayMeetings, recentCompletedMeetings, pastScheduledMeetings, weekMeetings, overdueTasks, openTasks, openTaskCount, recentAbsences, recentChangeRequests, activeCycles, upcomingMeetings] = await Promise.all([
     prisma.meeting.findMany({
       where: { scheduledDate: todayDate, deletedAt: null },
       include: meetingInclude,
@@ -794,6 +839,15 @@ export async function getOperationsControlToday(filters: OperationsControlFilter
       },
       take: 300,
     }),
+    prisma.meeting.findMany({
+      where: {
+        scheduledDate: { gte: todayDate, lt: conflictWindowEnd },
+        status: 'scheduled',
+        deletedAt: null,
+      },
+      include: meetingInclude,
+      orderBy: [{ scheduledDate: 'asc' }, { startTime: 'asc' }],
+    }),
   ]);
 
   const allAlerts = buildOperationsAlerts({
@@ -803,6 +857,7 @@ export async function getOperationsControlToday(filters: OperationsControlFilter
     recentAbsences,
     recentChangeRequests,
     activeCycles,
+    upcomingMeetings,
     churnSinceDate: churnWindowStart,
     detectedAt: generatedAtIso,
     today,
@@ -905,6 +960,7 @@ export const __operationsControlTestUtils = {
   buildInstructorChangeRiskAlerts,
   buildCycleChurnRiskAlerts,
   buildLowEnrollmentAlerts,
+  buildInstructorConflictAlerts,
   applyIssueStates,
   dateFromDateString,
 };
@@ -0,0 +1,142 @@
+/**
+ * Order Billing Plan
+ *
+ * Projected monthly billing for an institutional order (order_billing_plan_months). The plan
+ * is built from the scheduled meetings of the order's cycles — meetings × meetingRevenue for
+ * fixed-price cycles, meetings × pricePerStudent × studentCount for per-child ones — which is
+ * the same unit price computeBillingLines() bills later, so plan and actual are comparable.
+ *
+ * It is created when a quote is converted with cycles and can be rebuilt after the schedule
+ * changes. generateBillingPeriod() stores the planned amount for the period's months on the
+ * BillingPeriod, and getOrderBillingPlan() lines every period up against its projection.
+ */
+
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { roundMoney } from '../utils/revenue.js';
+
+/** Meetings that will not be billed and so don't count towards the plan. */
+const UNBILLED_MEETING_STATUSES = ['cancelled', 'postponed'] as const;
+
+/** What one meeting of an institutional cycle bills for — the unit price computeBillingLines() uses. */
+export function meetingUnitPrice(cycle: {
+  type: string;
+  meetingRevenue: unknown;
+  pricePerStudent: unknown;
+  studentCount: number | null;
+}): number {
+  return cycle.type === 'institutional_fixed'
+    ? Number(cycle.meetingRevenue ?? 0)
+    : Number(cycle.pricePerStudent ?? 0) * (cycle.studentCount ?? 0);
+}
+
+function monthOf(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+// ==================== Plan ====================
+
+/**
+ * Rebuild the order's plan from the current schedule. Replaces every existing month, so it
+ * is safe to re-run after meetings were added, moved or cancelled.
+ */
+export async function buildOrderBillingPlan(institutionalOrderId: string) {
+  const order = await prisma.institutionalOrder.findUnique({
+    where: { id: institutionalOrderId },
+    select: { id: true },
+  });
+  if (!order) throw new AppError(404, 'Institutional order not found');
+
+  const cycles = await prisma.cycle.findMany({
+    where: {
+      institutionalOrderId,
+      deletedAt: null,
+      status: { not: 'cancelled' },
+      type: { in: ['institutional_fixed', 'institutional_per_child'] },
+    },
+    select: {
+      type: true,
+      meetingRevenue: true,
+      pricePerStudent: true,
+      studentCount: true,
+      meetings: {
+        where: { deletedAt: null, status: { notIn: [...UNBILLED_MEETING_STATUSES] } },
+        select: { scheduledDate: true },
+      },
+    },
+  });
+
+  const months = new Map<number, { month: Date; expectedMeetings: number; expectedAmount: number }>();
+  for (const cycle of cycles) {
+    const perMeeting = meetingUnitPrice(cycle);
+    for (const meeting of cycle.meetings) {
+      const month = monthOf(meeting.scheduledDate);
+      const entry = months.get(month.getTime()) ?? { month, expectedMeetings: 0, expectedAmount: 0 };
+      entry.expectedMeetings += 1;
+      entry.expectedAmount += perMeeting;
+      months.set(month.getTime(), entry);
+    }
+  }
+
+  const rows = [...months.values()]
+    .sort((a, b) => a.month.getTime() - b.month.getTime())
+    .map((entry) => ({ ...entry, expectedAmount: roundMoney(entry.expectedAmount) }));
+
+  await prisma.$transaction([
+    prisma.orderBillingPlanMonth.deleteMany({ where: { institutionalOrderId } }),
+    prisma.orderBillingPlanMonth.createMany({
+      data: rows.map((row) => ({ institutionalOrderId, ...row })),
+    }),
+  ]);
+
+  return rows;
+}
+
+/**
+ * Planned amount for the months in [monthStart, monthEnd] (both the 1st of a month), or null
+ * when the order has no plan at all — a period of an unplanned order has nothing to check.
+ */
+export async function plannedAmountForRange(institutionalOrderId: string, monthStart: Date, monthEnd: Date) {
+  const plan = await prisma.orderBillingPlanMonth.findMany({
+    where: { institutionalOrderId },
+    select: { month: true, expectedAmount: true },
+  });
+  if (plan.length === 0) return null;
+
+  const planned = plan
+    .filter((row) => row.month >= monthStart && row.month <= monthEnd)
+    .reduce((sum, row) => sum + Number(row.expectedAmount), 0);
+  return roundMoney(planned);
+}
+
+// ==================== Plan vs. actual ====================
+
+/** The order's plan by month, and every non-cancelled billing period against its projection. */
+export async function getOrderBillingPlan(institutionalOrderId: string) {
+  const [months, periods] = await Promise.all([
+    prisma.orderBillingPlanMonth.findMany({
+      where: { institutionalOrderId },
+      orderBy: { month: 'asc' },
+    }),
+    prisma.billingPeriod.findMany({
+      where: { institutionalOrderId, status: { not: 'cancelled' } },
+      orderBy: { monthStart: 'asc' },
+      select: { id: true, monthStart: true, monthEnd: true, status: true, totalAmount: true, plannedAmount: true },
+    }),
+  ]);
+
+  const plannedTotal = roundMoney(months.reduce((sum, month) => sum + Number(month.expectedAmount), 0));
+  const billedTotal = roundMoney(periods.reduce((sum, period) => sum + Number(period.totalAmount), 0));
+
+  return {
+    months,
+    periods: periods.map((period) => ({
+      ...period,
+      variance: period.plannedAmount === null
+        ? null
+        : roundMoney(Number(period.totalAmount) - Number(period.plannedAmount)),
+    })),
+    plannedTotal,
+    billedTotal,
+  };
+}
@@ -0,0 +1,318 @@
+/**
+ * Order Budget
+ *
+ * How much of an institutional order's budget has been used, and whether the meetings
+ * already on the calendar fit in what is left.
+ *
+ * The budget is estimatedTotal (falling back to totalAmount, then pricePerMeeting ×
+ * estimatedMeetings); estimatedMeetings caps the meeting count when set. Consumption is
+ * the further along of what was taught (completed meetings at the billed unit price) and
+ * what was billed (non-cancelled BillingPeriods) — billing trails teaching by up to a
+ * month, so looking at billing alone would warn too late. Scheduled meetings are walked in
+ * date order on top of that to project when the budget runs out.
+ *
+ * Operations get a WhatsApp alert at 80% and at 100% consumption, and once when the
+ * scheduled meetings would run past the budget, so an order extension can be requested
+ * before unpaid lessons are taught. Each alert is sent once; changing the order's budget
+ * re-arms them.
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { roundMoney } from '../utils/revenue.js';
+import { meetingUnitPrice } from './order-billing-plan.js';
+import { sendOperationsWhatsApp } from './operations-notifications.js';
+
+const TZ = 'Asia/Jerusalem';
+const WARNING_PERCENT = 80;
+
+let scheduledTask: ScheduledTask | null = null;
+
+/** Today's Israel calendar date at UTC midnight — the way @db.Date meeting dates are stored. */
+function israelToday(now: Date): Date {
+  const date = new Intl.DateTimeFormat('en-CA', { timeZone: TZ }).format(now);
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+const percentOf = (part: number, whole: number) => Math.round((part / whole) * 1000) / 10;
+
+function money(value: number): string {
+  return `₪${value.toLocaleString('he-IL', { maximumFractionDigits: 2 })}`;
+}
+
+// ==================== Consumption ====================
+
+export type OrderBudgetLevel = 'ok' | 'warning' | 'exhausted';
+
+export interface OrderBudgetConsumption {
+  institutionalOrderId: string;
+  orderName: string;
+  budget: number | null;
+  estimatedMeetings: number | null;
+  heldMeetings: number;
+  heldAmount: number;
+  billedAmount: number;
+  consumedAmount: number;
+  remainingBudget: number | null;
+  remainingMeetings: number | null;
+  consumedPercent: number | null;
+  scheduledMeetings: number;
+  scheduledAmount: number;
+  projectedAmount: number;
+  projectedMeetings: number;
+  /** Date of the scheduled meeting that uses up the budget; null if the schedule fits. */
+  projectedExhaustionDate: string | null;
+  /** Scheduled meetings the remaining budget does not cover. */
+  unfundedMeetings: number;
+  overrunAmount: number;
+  level: OrderBudgetLevel;
+}
+
+export async function getOrderBudgetConsumption(
+  institutionalOrderId: string,
+  now: Date = new Date(),
+): Promise<OrderBudgetConsumption> {
+  const order = await prisma.institutionalOrder.findUnique({
+    where: { id: institutionalOrderId },
+    select: {
+      id: true,
+      orderName: true,
+      orderNumber: true,
+      estimatedTotal: true,
+      estimatedMeetings: true,
+      totalAmount: true,
+      pricePerMeeting: true,
+    },
+  });
+  if (!order) throw new AppError(404, 'Institutional order not found');
+
+  const today = israelToday(now);
+  const [cycles, billed] = await Promise.all([
+    prisma.cycle.findMany({
+      where: {
+        institutionalOrderId,
+        deletedAt: null,
+        status: { not: 'cancelled' },
+        type: { in: ['institutional_fixed', 'institutional_per_child'] },
+      },
+      select: {
+        type: true,
+        meetingRevenue: true,
+        pricePerStudent: true,
+        studentCount: true,
+        meetings: {
+          where: {
+            deletedAt: null,
+            OR: [{ status: 'completed' }, { status: 'scheduled', scheduledDate: { gte: today } }],
+          },
+          select: { status: true, scheduledDate: true },
+        },
+      },
+    }),
+    prisma.billingPeriod.aggregate({
+      where: { institutionalOrderId, status: { not: 'cancelled' } },
+      _sum: { totalAmount: true },
+    }),
+  ]);
+
+  const estimatedMeetings = order.estimatedMeetings ?? null;
+  const budgetSource = order.estimatedTotal ?? order.totalAmount
+    ?? (order.pricePerMeeting != null && estimatedMeetings != null ? Number(order.pricePerMeeting) * estimatedMeetings : null);
+  const budget = budgetSource == null ? null : Number(budgetSource);
+
+  let heldMeetings = 0;
+  let heldAmount = 0;
+  const scheduled: { date: Date; price: number }[] = [];
+  for (const cycle of cycles) {
+    const price = meetingUnitPrice(cycle);
+    for (const meeting of cycle.meetings) {
+      if (meeting.status === 'completed') {
+        heldMeetings += 1;
+        heldAmount += price;
+      } else {
+        scheduled.push({ date: meeting.scheduledDate, price });
+      }
+    }
+  }
+  scheduled.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const billedAmount = Number(billed._sum.totalAmount ?? 0);
+  const consumedAmount = Math.max(heldAmount, billedAmount);
+
+  // Walk the calendar: the first meeting that reaches the budget (or the meeting cap) is
+  // where it runs out; everything after it is taught without an order behind it.
+  let runningAmount = consumedAmount;
+  let runningMeetings = heldMeetings;
+  let projectedExhaustionDate: string | null = null;
+  let unfundedMeetings = 0;
+  for (const meeting of scheduled) {
+    const alreadyExhausted = (budget != null && runningAmount >= budget - 0.005)
+      || (estimatedMeetings != null && runningMeetings >= estimatedMeetings);
+    runningAmount += meeting.price;
+    runningMeetings += 1;
+    if (alreadyExhausted) {
+      unfundedMeetings += 1;
+      continue;
+    }
+    const exhaustsNow = (budget != null && runningAmount >= budget - 0.005)
+      || (estimatedMeetings != null && runningMeetings >= estimatedMeetings);
+    if (exhaustsNow && !projectedExhaustionDate) {
+      projectedExhaustionDate = meeting.date.toISOString().slice(0, 10);
+    }
+  }
+
+  const percents = [
+    ...(budget ? [percentOf(consumedAmount, budget)] : []),
+    ...(estimatedMeetings ? [percentOf(heldMeetings, estimatedMeetings)] : []),
+  ];
+  const consumedPercent = percents.length > 0 ? Math.max(...percents) : null;
+  const level: OrderBudgetLevel = consumedPercent == null || consumedPercent < WARNING_PERCENT
+    ? 'ok'
+    : consumedPercent < 100 ? 'warning' : 'exhausted';
+
+  return {
+    institutionalOrderId,
+    orderName: order.orderName ?? order.orderNumber ?? order.id,
+    budget,
+    estimatedMeetings,
+    heldMeetings,
+    heldAmount: roundMoney(heldAmount),
+    billedAmount: roundMoney(billedAmount),
+    consumedAmount: roundMoney(consumedAmount),
+    remainingBudget: budget == null ? null : roundMoney(budget - consumedAmount),
+    remainingMeetings: estimatedMeetings == null ? null : estimatedMeetings - heldMeetings,
+    consumedPercent,
+    scheduledMeetings: scheduled.length,
+    scheduledAmount: roundMoney(runningAmount - consumedAmount),
+    projectedAmount: roundMoney(runningAmount),
+    projectedMeetings: runningMeetings,
+    projectedExhaustionDate,
+    unfundedMeetings,
+    overrunAmount: budget == null ? 0 : roundMoney(Math.max(0, runningAmount - Math.max(budget, consumedAmount))),
+    level,
+  };
+}
+
+// ==================== Alerts ====================
+
+function consumptionLines(consumption: OrderBudgetConsumption): string {
+  const lines = [
+    consumption.budget != null
+      && `💰 נוצל ${money(consumption.consumedAmount)} מתוך ${money(consumption.budget)} (יתרה ${money(consumption.remainingBudget ?? 0)})`,
+    `🧾 חויב עד כה: ${money(consumption.billedAmount)}`,
+    consumption.estimatedMeetings != null
+      && `📅 התקיימו ${consumption.heldMeetings} מתוך ${consumption.estimatedMeetings} מפגשים`,
+    `🗓️ מתוכננים עוד ${consumption.scheduledMeetings} מפגשים (${money(consumption.scheduledAmount)})`,
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * Send the order's pending budget alerts. Crossing 100% straight from below 80% sends the
+ * 100% alert only. An alert is marked sent once at least one recipient got it.
+ */
+export async function checkOrderBudgetAlerts(institutionalOrderId: string, now: Date = new Date()) {
+  const order = await prisma.institutionalOrder.findUnique({
+    where: { id: institutionalOrderId },
+    select: { budgetAlert80SentAt: true, budgetAlert100SentAt: true, budgetOverrunAlertSentAt: true },
+  });
+  if (!order) return [];
+
+  const consumption = await getOrderBudgetConsumption(institutionalOrderId, now);
+  const sent: string[] = [];
+
+  const send = async (message: string) => {
+    const results = await sendOperationsWhatsApp(message);
+    if (results.length > 0 && results.every((result) => !result.success)) {
+      console.error(`[OrderBudget] alert for order ${institutionalOrderId} failed: ${results.map((result) => result.error).join('; ')}`);
+      return false;
+    }
+    return true;
+  };
+
+  const percent = consumption.consumedPercent ?? 0;
+  if (percent >= 100 && !order.budgetAlert100SentAt) {
+    const message = `🛑 הזמנה מוסדית נוצלה במלואה: ${consumption.orderName}
+
+${consumptionLines(consumption)}
+
+${consumption.scheduledMeetings > 0 ? 'יש מפגשים מתוכננים ללא כיסוי בהזמנה — יש לבקש הגדלת הזמנה מהמוסד.' : 'אין מפגשים מתוכננים נוספים.'}`;
+    if (await send(message)) {
+      await prisma.institutionalOrder.update({
+        where: { id: institutionalOrderId },
+        data: { budgetAlert100SentAt: now, ...(order.budgetAlert80SentAt ? {} : { budgetAlert80SentAt: now }) },
+      });
+      sent.push('100');
+    }
+  } else if (percent >= WARNING_PERCENT && percent < 100 && !order.budgetAlert80SentAt) {
+    const message = `⚠️ הזמנה מוסדית נוצלה ב-${percent}%: ${consumption.orderName}
+
+${consumptionLines(consumption)}${consumption.projectedExhaustionDate ? `\n⏳ צפויה להיגמר ב-${new Date(consumption.projectedExhaustionDate).toLocaleDateString('he-IL', { timeZone: 'UTC' })}` : ''}`;
+    if (await send(message)) {
+      await prisma.institutionalOrder.update({
+        where: { id: institutionalOrderId },
+        data: { budgetAlert80SentAt: now },
+      });
+      sent.push('80');
+    }
+  }
+
+  if (consumption.unfundedMeetings > 0 && !order.budgetOverrunAlertSentAt) {
+    const message = `📈 מפגשים מתוכננים חורגים מההזמנה: ${consumption.orderName}
+
+${consumptionLines(consumption)}
+⏳ ההזמנה צפויה להיגמר ב-${consumption.projectedExhaustionDate ? new Date(consumption.projectedExhaustionDate).toLocaleDateString('he-IL', { timeZone: 'UTC' }) : 'כבר נגמרה'}
+❗ ${consumption.unfundedMeetings} מפגשים ללא כיסוי${consumption.overrunAmount > 0 ? ` (${money(consumption.overrunAmount)})` : ''}
+
+יש לבקש הגדלת הזמנה מהמוסד לפני המפגשים האלה.`;
+    if (await send(message)) {
+      await prisma.institutionalOrder.update({
+        where: { id: institutionalOrderId },
+        data: { budgetOverrunAlertSentAt: now },
+      });
+      sent.push('overrun');
+    }
+  }
+
+  return sent;
+}
+
+/** Check every active order that has a budget or a meeting cap. */
+export async function runOrderBudgetAlerts(now: Date = new Date()) {
+  const orders = await prisma.institutionalOrder.findMany({
+    where: {
+      status: 'active',
+      OR: [
+        { estimatedTotal: { not: null } },
+        { totalAmount: { not: null } },
+        { estimatedMeetings: { not: null } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  let alerts = 0;
+  for (const order of orders) {
+    try {
+      alerts += (await checkOrderBudgetAlerts(order.id, now)).length;
+    } catch (error) {
+      console.error(`[OrderBudget] check for order ${order.id} failed:`, error);
+    }
+  }
+  return { checked: orders.length, alerts };
+}
+
+export function initOrderBudgetScheduler() {
+  if (scheduledTask) scheduledTask.stop();
+  scheduledTask = cron.schedule('30 7 * * *', () => {
+    runOrderBudgetAlerts()
+      .then(({ checked, alerts }) => {
+        if (alerts > 0) console.log(`[OrderBudget] Checked ${checked} orders, sent ${alerts} alerts`);
+      })
+      .catch((error) => {
+        console.error('[OrderBudget] run failed:', error);
+      });
+  }, { timezone: TZ });
+  console.log('   ✓ Order budget: daily 07:30 → alerts at 80%/100% consumption and scheduled overrun');
+}
@@ -0,0 +1,262 @@
+/**
+ * Parent Billing
+ *
+ * Balance view and "pay now" for the parent app:
+ *  - Each registration's amount, payment status, paid total and outstanding balance,
+ *    with the registration invoice and the invoices of payments made against it
+ *  - A Morning payment link for a registration's outstanding balance. The link is
+ *    tied to the registration, so when the morning webhook (or the /pl success page)
+ *    records the payment it is attributed to that registration and the balance is
+ *    reconciled here.
+ * Institutional registrations are paid by the institution and are never payable.
+ */
+
+import type { PaymentStatus, Prisma, RegistrationStatus } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { recalcMeetingRevenue } from '../utils/recalcMeetingRevenue.js';
+import { defaultRegistrationAmountForCycle, positiveMoneyOrNull } from '../utils/registration-amount.js';
+import { createPaymentForm } from './morning/payment-forms.js';
+import { DOCUMENT_TYPES } from './morning/documents.js';
+import { ensureMorningClientId, generateUniqueShortCode, paymentLinkUrls } from './payment-links.js';
+
+const PAYABLE_STATUSES: RegistrationStatus[] = ['registered', 'active', 'trial', 'completed'];
+// A pay-now link for the same balance is reused for a day instead of minting a new one per tap
+const PAYMENT_LINK_REUSE_MS = 24 * 60 * 60 * 1000;
+
+const registrationBillingSelect = {
+  id: true,
+  status: true,
+  registrationDate: true,
+  amount: true,
+  paymentStatus: true,
+  paymentMethod: true,
+  invoiceLink: true,
+  creditInvoiceLink: true,
+  refundAmount: true,
+  student: { select: { id: true, name: true } },
+  cycle: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      defaultRegistrationAmount: true,
+      course: { select: { name: true } },
+    },
+  },
+  payments: {
+    where: { status: 'paid' },
+    orderBy: { paidAt: 'desc' },
+    select: { id: true, amount: true, paidAt: true, invoiceUrl: true, invoiceNumber: true },
+  },
+} satisfies Prisma.RegistrationSelect;
+
+type BillingRegistration = Prisma.RegistrationGetPayload<{ select: typeof registrationBillingSelect }>;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Strip the "[morning-doc-id]" / "[payment-link:code]" markers kept for dedup
+function displayDescription(description: string): string {
+  return description.replace(/\s*\[[^\]]*\]/g, '').trim();
+}
+
+function isInstitutional(registration: BillingRegistration): boolean {
+  return registration.paymentMethod === 'institutional' || registration.cycle.type.startsWith('institutional');
+}
+
+/**
+ * Amount, paid total and outstanding balance of a registration. Only payments
+ * made through the registration's own payment links are itemized; a registration
+ * marked paid by the office has no balance regardless. One the office marked
+ * `partial` without any linked payment was paid offline by an amount we don't know,
+ * so it can't be paid online until the office reconciles it.
+ */
+export function registrationBalance(registration: BillingRegistration) {
+  const amount = positiveMoneyOrNull(registration.amount) ?? defaultRegistrationAmountForCycle(registration.cycle);
+  const paid = roundMoney(registration.payments.reduce((sum, payment) => sum + payment.amount, 0));
+  const institutional = isInstitutional(registration);
+  const settled = institutional || registration.paymentStatus === 'paid' || registration.status === 'cancelled';
+  const balance = settled || amount === null ? 0 : roundMoney(Math.max(amount - paid, 0));
+  const awaitingReconciliation = !settled && registration.paymentStatus === 'partial' && paid === 0;
+
+  return {
+    amount,
+    paid,
+    balance,
+    institutional,
+    awaitingReconciliation,
+    canPayNow: balance > 0 && !awaitingReconciliation && PAYABLE_STATUSES.includes(registration.status),
+  };
+}
+
+/** Billing section of the parent app: every registration of the parent's children with its balance. */
+export async function getParentBilling(customerId: string) {
+  const [registrations, payments] = await Promise.all([
+    prisma.registration.findMany({
+      where: { deletedAt: null, student: { customerId, deletedAt: null } },
+      orderBy: { registrationDate: 'desc' },
+      select: registrationBillingSelect,
+    }),
+    prisma.payment.findMany({
+      where: { customerId, status: 'paid' },
+      orderBy: { paidAt: 'desc' },
+      take: 50,
+      select: {
+        id: true,
+        description: true,
+        amount: true,
+        paidAt: true,
+        invoiceUrl: true,
+        invoiceNumber: true,
+        registrationId: true,
+      },
+    }),
+  ]);
+
+  const items = registrations.map((registration) => {
+    const { amount, paid, balance, institutional, awaitingReconciliation, canPayNow } = registrationBalance(registration);
+    return {
+      registrationId: registration.id,
+      status: registration.status,
+      registrationDate: registration.registrationDate,
+      student: registration.student,
+      cycle: { id: registration.cycle.id, name: registration.cycle.name, courseName: registration.cycle.course.name },
+      amount,
+      paid,
+      balance,
+      paymentStatus: institutional ? null : registration.paymentStatus,
+      paidByInstitution: institutional,
+      invoiceLink: registration.invoiceLink,
+      creditInvoiceLink: registration.creditInvoiceLink,
+      refundAmount: positiveMoneyOrNull(registration.refundAmount),
+      payments: registration.payments,
+      awaitingReconciliation,
+      canPayNow,
+    };
+  });
+
+  return {
+    registrations: items,
+    payments: payments.map(payment => ({ ...payment, description: displayDescription(payment.description) })),
+    totals: {
+      amount: roundMoney(items.reduce((sum, item) => sum + (item.paidByInstitution ? 0 : item.amount ?? 0), 0)),
+      paid: roundMoney(payments.reduce((sum, payment) => sum + payment.amount, 0)),
+      balance: roundMoney(items.reduce((sum, item) => sum + item.balance, 0)),
+    },
+  };
+}
+
+/**
+ * Create (or reuse a recent) Morning payment link for a registration's outstanding
+ * balance. `baseUrl` is the public origin the /pl short link and webhook live on.
+ */
+export async function createRegistrationPaymentLink(customerId: string, registrationId: string, baseUrl: string) {
+  const registration = await prisma.registration.findFirst({
+    where: { id: registrationId, deletedAt: null, student: { customerId, deletedAt: null } },
+    select: registrationBillingSelect,
+  });
+  if (!registration) throw new AppError(404, 'Enrollment not found');
+
+  const { balance, canPayNow } = registrationBalance(registration);
+  if (!canPayNow) throw new AppError(400, 'Nothing to pay for this enrollment');
+
+  const reusable = await prisma.paymentLink.findFirst({
+    where: {
+      registrationId,
+      amount: balance,
+      createdAt: { gte: new Date(Date.now() - PAYMENT_LINK_REUSE_MS) },
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { code: true },
+  });
+  if (reusable) {
+    const alreadyPaid = await prisma.payment.findFirst({
+      where: { description: { contains: `[payment-link:${reusable.code}]` } },
+      select: { id: true },
+    });
+    if (!alreadyPaid) {
+      return { code: reusable.code, shortUrl: paymentLinkUrls(baseUrl, reusable.code).shortUrl, amount: balance };
+    }
+  }
+
+  const customer = await prisma.customer.findUnique({ where: { id: customerId } });
+  if (!customer) throw new AppError(404, 'Customer not found');
+
+  const description = `${registration.cycle.course.name} — ${registration.student.name}`;
+  const morningClientId = await ensureMorningClientId(customerId);
+  const code = await generateUniqueShortCode();
+  const { shortUrl, webhookUrl, successUrl, failureUrl } = paymentLinkUrls(baseUrl, code);
+
+  const form = await createPaymentForm({
+    description,
+    amount: balance,
+    maxPayments: 1,
+    type: DOCUMENT_TYPES.RECEIPT,
+    client: {
+      id: morningClientId ?? undefined,
+      name: customer.name,
+      emails: customer.email ? [customer.email] : undefined,
+      phone: customer.phone || undefined,
+    },
+    notifyUrl: webhookUrl,
+    successUrl,
+    failureUrl,
+  });
+
+  await prisma.paymentLink.create({
+    data: {
+      code,
+      description,
+      amount: balance,
+      maxPayments: 1,
+      documentType: DOCUMENT_TYPES.RECEIPT,
+      vatType: 0,
+      morningUrl: form.url,
+      customerId,
+      registrationId,
+      clientName: customer.name,
+      clientEmail: customer.email || null,
+      clientPhone: customer.phone || null,
+    },
+  });
+
+  return { code, shortUrl, amount: balance };
+}
+
+/**
+ * Recompute a registration's payment status from the payments attributed to it.
+ * Called after a payment made through the registration's payment link is recorded.
+ * Returns the new status, or null when the registration has no known amount.
+ */
+export async function reconcileRegistrationBalance(registrationId: string): Promise<PaymentStatus | null> {
+  try {
+    const registration = await prisma.registration.findUnique({
+      where: { id: registrationId },
+      select: registrationBillingSelect,
+    });
+    if (!registration) return null;
+
+    const { amount, paid } = registrationBalance(registration);
+    if (amount === null) return null;
+
+    const paymentStatus: PaymentStatus = paid >= amount ? 'paid' : paid > 0 ? 'partial' : 'unpaid';
+    await prisma.registration.update({
+      where: { id: registrationId },
+      data: {
+        amount,
+        paymentStatus,
+        ...(!registration.paymentMethod && { paymentMethod: 'credit' }),
+      },
+    });
+
+    recalcMeetingRevenue(registration.cycle.id)
+      .catch(err => console.error('[parent-billing] failed to recalculate cycle revenue:', err));
+
+    return paymentStatus;
+  } catch (error) {
+    console.error(`[parent-billing] failed to reconcile registration ${registrationId}:`, error);
+    return null;
+  }
+}
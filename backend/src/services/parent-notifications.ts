@@ -0,0 +1,206 @@
+/**
+ * Parent Notification Center
+ *
+ * Persists the notifications shown in the parent app (GET /api/parent/notifications)
+ * and pushes each one to the parent's Web Push subscriptions:
+ *  - Meeting cancelled / postponed and cycle completed — from domain events
+ *  - Replacement scheduled — from addReplacementMeeting
+ *  - Lesson summary — when a recording's AI summary is saved
+ *  - Lesson reminder — alongside the parent WhatsApp reminder
+ *  - Payment due — when a payment link is created for the customer
+ * Recording a notification never throws; failures are logged and the caller moves on.
+ */
+
+import webpush from 'web-push';
+import type { ParentNotificationType, Prisma, RegistrationStatus } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { subscribeDomainEvents } from './domain-events.js';
+
+export interface ParentNotificationInput {
+  type: ParentNotificationType;
+  title: string;
+  body: string;
+  studentId?: string | null;
+  cycleId?: string | null;
+  meetingId?: string | null;
+  data?: Record<string, unknown>;
+}
+
+const CYCLE_PARENT_STATUSES: RegistrationStatus[] = ['registered', 'active', 'trial'];
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+function vapidDetails() {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return { subject: process.env.VAPID_SUBJECT || 'mailto:info@hai.tech', publicKey, privateKey };
+}
+
+/** Public VAPID key for the parent app's PushManager.subscribe, or null when push is not configured. */
+export function getParentVapidPublicKey(): string | null {
+  return vapidDetails()?.publicKey ?? null;
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('he-IL', { timeZone: 'UTC' });
+}
+
+/**
+ * Send a notification to every push subscription of the customer.
+ * Subscriptions the push service reports as gone (404/410) are removed.
+ * Returns the number of subscriptions that accepted the message.
+ */
+export async function pushParentNotification(
+  customerId: string,
+  notification: { id: string; type: ParentNotificationType; title: string; body: string; data?: unknown },
+): Promise<number> {
+  const vapid = vapidDetails();
+  if (!vapid) return 0;
+
+  const subscriptions = await prisma.parentPushSubscription.findMany({ where: { customerId } });
+  if (subscriptions.length === 0) return 0;
+
+  const payload = JSON.stringify({
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    data: notification.data ?? null,
+  });
+
+  let delivered = 0;
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { vapidDetails: vapid, TTL: PUSH_TTL_SECONDS },
+      );
+      await prisma.parentPushSubscription.update({ where: { id: subscription.id }, data: { lastUsedAt: new Date() } });
+      delivered++;
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        await prisma.parentPushSubscription.delete({ where: { id: subscription.id } }).catch(() => {});
+        console.log(`[ParentNotifications] Removed expired push subscription ${subscription.id}`);
+      } else {
+        console.error(`[ParentNotifications] Push to subscription ${subscription.id} failed:`, error);
+      }
+    }
+  }
+  return delivered;
+}
+
+/** Persist a notification for a parent and push it to their devices. */
+export async function createParentNotification(customerId: string, input: ParentNotificationInput) {
+  try {
+    const notification = await prisma.parentNotification.create({
+      data: {
+        customerId,
+        type: input.type,
+        title: input.title,
+        body: input.body,
+        studentId: input.studentId ?? null,
+        cycleId: input.cycleId ?? null,
+        meetingId: input.meetingId ?? null,
+        data: input.data as Prisma.InputJsonValue | undefined,
+      },
+    });
+
+    const delivered = await pushParentNotification(customerId, notification);
+    if (delivered > 0) {
+      await prisma.parentNotification.update({ where: { id: notification.id }, data: { pushedAt: new Date() } });
+    }
+    return notification;
+  } catch (error) {
+    console.error(`[ParentNotifications] Failed to record ${input.type} for customer ${customerId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Notify the parents of everyone registered to a cycle — one notification per
+ * parent, naming all of their children in the cycle.
+ */
+export async function notifyCycleParents(
+  cycleId: string,
+  input: Omit<ParentNotificationInput, 'cycleId' | 'studentId'>,
+  statuses: RegistrationStatus[] = CYCLE_PARENT_STATUSES,
+): Promise<number> {
+  try {
+    const registrations = await prisma.registration.findMany({
+      where: { cycleId, status: { in: statuses } },
+      select: { student: { select: { id: true, name: true, customerId: true } } },
+    });
+
+    const byCustomer = new Map<string, { studentIds: string[]; names: string[] }>();
+    for (const { student } of registrations) {
+      const entry = byCustomer.get(student.customerId) ?? { studentIds: [], names: [] };
+      entry.studentIds.push(student.id);
+      entry.names.push(student.name);
+      byCustomer.set(student.customerId, entry);
+    }
+
+    let created = 0;
+    for (const [customerId, { studentIds, names }] of byCustomer) {
+      const notification = await createParentNotification(customerId, {
+        ...input,
+        body: `${input.body} (${names.join(', ')})`,
+        cycleId,
+        studentId: studentIds.length === 1 ? studentIds[0] : null,
+        data: { ...input.data, studentIds },
+      });
+      if (notification) created++;
+    }
+    return created;
+  } catch (error) {
+    console.error(`[ParentNotifications] Failed to notify parents of cycle ${cycleId}:`, error);
+    return 0;
+  }
+}
+
+async function cycleName(cycleId: string): Promise<string> {
+  const cycle = await prisma.cycle.findUnique({ where: { id: cycleId }, select: { name: true } });
+  return cycle?.name ?? '';
+}
+
+/**
+ * Subscribe to the domain events that concern parents. Called once at startup.
+ * cycle.completed is published before the cycle's registrations are closed, so
+ * completed registrations are included to avoid racing that update.
+ */
+export function initParentNotificationSubscribers(): () => void {
+  return subscribeDomainEvents(async (event, data) => {
+    switch (event) {
+      case 'meeting.cancelled': {
+        const name = await cycleName(data.cycleId);
+        await notifyCycleParents(data.cycleId, {
+          type: 'meeting_cancelled',
+          title: 'שיעור בוטל',
+          body: `השיעור ב${name} בתאריך ${formatDate(data.scheduledDate)} בוטל`,
+          meetingId: data.id,
+          data: { scheduledDate: data.scheduledDate },
+        });
+        break;
+      }
+      case 'meeting.postponed': {
+        const name = await cycleName(data.cycleId);
+        await notifyCycleParents(data.cycleId, {
+          type: 'meeting_postponed',
+          title: 'שיעור נדחה',
+          body: `השיעור ב${name} בתאריך ${formatDate(data.scheduledDate)} נדחה`,
+          meetingId: data.id,
+          data: { scheduledDate: data.scheduledDate },
+        });
+        break;
+      }
+      case 'cycle.completed':
+        await notifyCycleParents(data.id, {
+          type: 'cycle_completed',
+          title: 'המחזור הסתיים',
+          body: `המחזור ${data.name} הסתיים. תודה שלמדתם איתנו!`,
+        }, [...CYCLE_PARENT_STATUSES, 'completed']);
+        break;
+    }
+  });
+}
@@ -0,0 +1,466 @@
+/**
+ * Parent Self-Service Requests
+ *
+ * Parents report an upcoming absence, ask for a make-up lesson in another cycle of the
+ * same course, or start a cancellation from the parent app. Every request opens a task
+ * on the ops Tasks board; the change is only applied when staff approve it:
+ *  - Absence      → the child is marked absent for that meeting
+ *  - Make-up      → the make-up meeting's instructor is told the child is joining
+ *  - Cancellation → the registration is cancelled (with the usual cycle cascade)
+ * A cancellation puts the registration in pending_cancellation right away, exactly like
+ * the public cancellation form; rejecting it restores the previous status.
+ */
+
+import { randomBytes } from 'crypto';
+import type { ParentRequest, ParentRequestType, Prisma, RegistrationStatus } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../config.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { logAudit } from '../utils/audit.js';
+import { recalcMeetingRevenue } from '../utils/recalcMeetingRevenue.js';
+import { publishDomainEvent } from './domain-events.js';
+import { createParentNotification } from './parent-notifications.js';
+import { handleCycleCascadeOnCancellation } from './registration-cancellation.js';
+import { sendWhatsAppMessage } from './notifications.js';
+import type {
+  ParentAbsenceRequestInput,
+  ParentCancellationRequestInput,
+  ParentMakeupRequestInput,
+} from '../types/schemas.js';
+
+const ACTIVE_REGISTRATION_STATUSES: RegistrationStatus[] = ['registered', 'active', 'trial'];
+const MAKEUP_LOOKAHEAD_DAYS = 45;
+
+export const PARENT_REQUEST_TYPE_LABELS: Record<ParentRequestType, string> = {
+  absence: 'דיווח היעדרות',
+  makeup: 'בקשת שיעור השלמה',
+  cancellation: 'בקשת ביטול',
+};
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('he-IL', { timeZone: 'UTC' });
+}
+
+function formatTime(time: Date): string {
+  return time.toISOString().substring(11, 16);
+}
+
+function startOfTodayUtc(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function crmUrl(path: string): string {
+  const base = config.frontendUrl && config.frontendUrl !== '*' ? config.frontendUrl : 'https://crm.orma-ai.com';
+  return `${base}${path}`;
+}
+
+/** Registration of one of the parent's children that can still take requests. */
+async function loadParentRegistration(customerId: string, registrationId: string) {
+  const registration = await prisma.registration.findFirst({
+    where: { id: registrationId, deletedAt: null, student: { customerId } },
+    include: {
+      student: { select: { id: true, name: true, customer: { select: { id: true, name: true, phone: true } } } },
+      cycle: { select: { id: true, name: true, courseId: true, course: { select: { name: true } } } },
+    },
+  });
+  if (!registration) {
+    throw new AppError(404, 'Registration not found');
+  }
+  if (!ACTIVE_REGISTRATION_STATUSES.includes(registration.status)) {
+    throw new AppError(400, 'Requests can only be made for an active registration');
+  }
+  return registration;
+}
+
+type ParentRegistration = Awaited<ReturnType<typeof loadParentRegistration>>;
+
+async function assertNoPendingRequest(where: Prisma.ParentRequestWhereInput) {
+  const existing = await prisma.parentRequest.findFirst({ where: { ...where, status: 'pending' }, select: { id: true } });
+  if (existing) {
+    throw new AppError(409, 'A request like this is already waiting for approval');
+  }
+}
+
+/** Tasks need a creator; parent requests are owned by the longest-standing active admin. */
+async function requestTaskOwnerId(): Promise<string> {
+  const owner = await prisma.user.findFirst({
+    where: { role: 'admin', isActive: true },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+  });
+  if (!owner) {
+    throw new AppError(500, 'No active admin to own parent request tasks');
+  }
+  return owner.id;
+}
+
+type OpenRequestData = Omit<Prisma.ParentRequestUncheckedCreateInput, 'customerId' | 'studentId' | 'registrationId' | 'taskId'>;
+
+/**
+ * Create the request and its task on the ops board in one transaction. `prepare` runs
+ * first inside the same transaction for the writes the request depends on, and returns
+ * any request fields they produce.
+ */
+async function openRequest(
+  registration: ParentRegistration,
+  data: OpenRequestData,
+  task: { details: string[]; dueDate?: Date | null; priority?: 'normal' | 'high' },
+  prepare?: (tx: Prisma.TransactionClient) => Promise<Partial<OpenRequestData>>,
+): Promise<ParentRequest> {
+  const customer = registration.student.customer;
+  const createdById = await requestTaskOwnerId();
+  const description = [
+    ...task.details,
+    data.reason ? `סיבה: ${data.reason}` : null,
+    `הורה: ${customer.name}${customer.phone ? ` (${customer.phone})` : ''}`,
+    `מחזור: ${crmUrl(`/cycles/${registration.cycleId}`)}`,
+    'לאישור או דחייה — כפתורי הבקשה בכרטיס המשימה.',
+  ].filter(Boolean).join('\n');
+
+  const request = await prisma.$transaction(async (tx) => {
+    const prepared = prepare ? await prepare(tx) : {};
+    const created = await tx.task.create({
+      data: {
+        title: `${PARENT_REQUEST_TYPE_LABELS[data.type]}: ${registration.student.name} — ${registration.cycle.name}`,
+        description,
+        priority: task.priority ?? 'normal',
+        dueDate: task.dueDate ?? null,
+        createdById,
+      },
+    });
+    return tx.parentRequest.create({
+      data: {
+        ...data,
+        ...prepared,
+        customerId: customer.id,
+        studentId: registration.student.id,
+        registrationId: registration.id,
+        taskId: created.id,
+      },
+    });
+  });
+
+  await logAudit({
+    userName: `הורה: ${customer.name}`,
+    action: 'CREATE',
+    entity: 'ParentRequest',
+    entityId: request.id,
+    newValue: { type: request.type, registrationId: request.registrationId, meetingId: request.meetingId, makeupMeetingId: request.makeupMeetingId },
+  });
+
+  return request;
+}
+
+export async function createAbsenceRequest(customerId: string, input: ParentAbsenceRequestInput) {
+  const registration = await loadParentRegistration(customerId, input.registrationId);
+
+  const meeting = await prisma.meeting.findFirst({
+    where: { id: input.meetingId, cycleId: registration.cycleId, deletedAt: null },
+  });
+  if (!meeting) {
+    throw new AppError(404, 'Meeting not found');
+  }
+  if (meeting.status !== 'scheduled' || meeting.scheduledDate < startOfTodayUtc()) {
+    throw new AppError(400, 'Absence can only be reported for an upcoming meeting');
+  }
+  await assertNoPendingRequest({ type: 'absence', registrationId: registration.id, meetingId: meeting.id });
+
+  return openRequest(
+    registration,
+    { type: 'absence', meetingId: meeting.id, reason: input.reason ?? null },
+    {
+      details: [`${registration.student.name} לא יגיע/תגיע לשיעור ב-${formatDate(meeting.scheduledDate)} בשעה ${formatTime(meeting.startTime)}`],
+      dueDate: meeting.scheduledDate,
+    },
+  );
+}
+
+/** Upcoming meetings in the other active cycles of the same course, for choosing a make-up slot. */
+export async function listMakeupOptions(customerId: string, registrationId: string) {
+  const registration = await loadParentRegistration(customerId, registrationId);
+  const from = startOfTodayUtc();
+  const to = new Date(from);
+  to.setUTCDate(to.getUTCDate() + MAKEUP_LOOKAHEAD_DAYS);
+
+  const meetings = await prisma.meeting.findMany({
+    where: {
+      status: 'scheduled',
+      deletedAt: null,
+      scheduledDate: { gte: from, lte: to },
+      cycle: { courseId: registration.cycle.courseId, id: { not: registration.cycleId }, status: 'active', deletedAt: null },
+    },
+    include: {
+      cycle: { select: { id: true, name: true, isOnline: true, branch: { select: { name: true } } } },
+      instructor: { select: { name: true } },
+    },
+    orderBy: [{ scheduledDate: 'asc' }, { startTime: 'asc' }],
+  });
+
+  return meetings.map((meeting) => ({
+    id: meeting.id,
+    scheduledDate: meeting.scheduledDate,
+    startTime: meeting.startTime,
+    endTime: meeting.endTime,
+    cycleId: meeting.cycle.id,
+    cycleName: meeting.cycle.name,
+    branchName: meeting.cycle.branch?.name ?? null,
+    isOnline: meeting.cycle.isOnline,
+    instructorName: meeting.instructor.name,
+  }));
+}
+
+export async function createMakeupRequest(customerId: string, input: ParentMakeupRequestInput) {
+  const registration = await loadParentRegistration(customerId, input.registrationId);
+
+  const makeup = await prisma.meeting.findFirst({
+    where: { id: input.makeupMeetingId, deletedAt: null },
+    include: { cycle: { select: { id: true, name: true, courseId: true, status: true, deletedAt: true } } },
+  });
+  if (!makeup) {
+    throw new AppError(404, 'Make-up meeting not found');
+  }
+  if (makeup.cycle.courseId !== registration.cycle.courseId || makeup.cycleId === registration.cycleId
+    || makeup.cycle.status !== 'active' || makeup.cycle.deletedAt) {
+    throw new AppError(400, 'A make-up lesson must be in another active cycle of the same course');
+  }
+  if (makeup.status !== 'scheduled' || makeup.scheduledDate < startOfTodayUtc()) {
+    throw new AppError(400, 'The make-up meeting is not upcoming');
+  }
+
+  let missed: { id: string; scheduledDate: Date } | null = null;
+  if (input.meetingId) {
+    missed = await prisma.meeting.findFirst({
+      where: { id: input.meetingId, cycleId: registration.cycleId, deletedAt: null },
+      select: { id: true, scheduledDate: true },
+    });
+    if (!missed) {
+      throw new AppError(404, 'Meeting not found');
+    }
+  }
+  await assertNoPendingRequest({ type: 'makeup', registrationId: registration.id, makeupMeetingId: makeup.id });
+
+  return openRequest(
+    registration,
+    { type: 'makeup', meetingId: missed?.id ?? null, makeupMeetingId: makeup.id, reason: input.reason ?? null },
+    {
+      details: [
+        `שיעור השלמה ל-${registration.student.name} ב${makeup.cycle.name}, ${formatDate(makeup.scheduledDate)} בשעה ${formatTime(makeup.startTime)}`,
+        missed ? `במקום השיעור מ-${formatDate(missed.scheduledDate)}` : null,
+      ].filter((line): line is string => Boolean(line)),
+      dueDate: makeup.scheduledDate,
+    },
+  );
+}
+
+export async function createCancellationRequest(customerId: string, input: ParentCancellationRequestInput) {
+  const registration = await loadParentRegistration(customerId, input.registrationId);
+  await assertNoPendingRequest({ type: 'cancellation', registrationId: registration.id });
+
+  // The cancellation form row, the registration status and the request land together or not at all
+  const request = await openRequest(
+    registration,
+    {
+      type: 'cancellation',
+      previousRegistrationStatus: registration.status,
+      reason: input.reason,
+    },
+    {
+      details: [`ביטול ההרשמה של ${registration.student.name} ל${registration.cycle.course?.name || registration.cycle.name}`],
+      priority: 'high',
+    },
+    async (tx) => {
+      const cancellationRequest = await tx.cancellationRequest.create({
+        data: {
+          registrationId: registration.id,
+          customerName: registration.student.customer.name,
+          studentName: registration.student.name,
+          reason: input.reason,
+          status: 'submitted',
+          submittedAt: new Date(),
+          token: randomBytes(32).toString('hex'),
+        },
+      });
+      await tx.registration.update({
+        where: { id: registration.id },
+        data: { status: 'pending_cancellation', cancellationDate: new Date(), cancellationReason: input.reason },
+      });
+      return { cancellationRequestId: cancellationRequest.id };
+    },
+  );
+
+  recalcMeetingRevenue(registration.cycleId).catch((error: unknown) =>
+    console.error('[ParentRequests] Failed to recalc meeting revenue:', error)
+  );
+  return request;
+}
+
+// ==========================================
+// Review
+// ==========================================
+
+async function loadPendingRequest(id: string) {
+  const request = await prisma.parentRequest.findUnique({
+    where: { id },
+    include: {
+      registration: {
+        include: {
+          student: { select: { id: true, name: true } },
+          cycle: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+  if (!request) {
+    throw new AppError(404, 'Request not found');
+  }
+  if (request.status !== 'pending') {
+    throw new AppError(400, 'This request was already reviewed');
+  }
+  return request;
+}
+
+type PendingRequest = Awaited<ReturnType<typeof loadPendingRequest>>;
+
+async function markAbsent(request: PendingRequest, meetingId: string, notes: string, reviewerId: string) {
+  await prisma.attendance.upsert({
+    where: { meetingId_registrationId: { meetingId, registrationId: request.registrationId } },
+    create: {
+      meetingId,
+      registrationId: request.registrationId,
+      studentId: request.studentId,
+      status: 'absent',
+      notes,
+      recordedById: reviewerId,
+    },
+    update: {},
+  });
+}
+
+async function applyApproval(request: PendingRequest, reviewerId: string) {
+  switch (request.type) {
+    case 'absence':
+      await markAbsent(request, request.meetingId!, `היעדרות שדווחה מראש${request.reason ? `: ${request.reason}` : ''}`, reviewerId);
+      break;
+
+    case 'makeup': {
+      const makeup = await prisma.meeting.findUnique({
+        where: { id: request.makeupMeetingId! },
+        include: { cycle: { select: { name: true } }, instructor: { select: { name: true, phone: true } } },
+      });
+      if (!makeup || makeup.status !== 'scheduled') {
+        throw new AppError(400, 'The make-up meeting is no longer scheduled');
+      }
+      if (request.meetingId) {
+        await markAbsent(request, request.meetingId, `שיעור השלמה ב-${formatDate(makeup.scheduledDate)}`, reviewerId);
+      }
+      // Put the child on the make-up meeting's roster so the instructor can take their attendance
+      await prisma.meetingMakeupAttendee.upsert({
+        where: { meetingId_registrationId: { meetingId: makeup.id, registrationId: request.registrationId } },
+        create: { meetingId: makeup.id, registrationId: request.registrationId, parentRequestId: request.id },
+        update: {},
+      });
+      if (makeup.instructor.phone) {
+        const message = `שלום ${makeup.instructor.name},\n` +
+          `${request.registration.student.name} (מ${request.registration.cycle.name}) יצטרף/תצטרף לשיעור ב${makeup.cycle.name} ` +
+          `ב-${formatDate(makeup.scheduledDate)} בשעה ${formatTime(makeup.startTime)} כשיעור השלמה.`;
+        await sendWhatsAppMessage(makeup.instructor.phone, message).catch((error) => {
+          console.error('[ParentRequests] Failed to notify make-up instructor:', error);
+        });
+      }
+      break;
+    }
+
+    case 'cancellation': {
+      const registration = await prisma.registration.update({
+        where: { id: request.registrationId },
+        data: { status: 'cancelled', cancellationDate: new Date(), cancellationReason: request.reason },
+        include: { student: { select: { name: true } }, cycle: { select: { id: true, name: true } } },
+      });
+      if (request.cancellationRequestId) {
+        await prisma.cancellationRequest.update({ where: { id: request.cancellationRequestId }, data: { status: 'processed' } });
+      }
+      publishDomainEvent('registration.cancelled', registration);
+      handleCycleCascadeOnCancellation(registration.cycleId).catch((error) =>
+        console.error('[CANCEL CASCADE] Error:', error)
+      );
+      recalcMeetingRevenue(registration.cycleId).catch((error: unknown) =>
+        console.error('[ParentRequests] Failed to recalc meeting revenue:', error)
+      );
+      break;
+    }
+  }
+}
+
+async function applyRejection(request: PendingRequest) {
+  if (request.type !== 'cancellation') return;
+
+  await prisma.registration.update({
+    where: { id: request.registrationId },
+    data: { status: request.previousRegistrationStatus ?? 'active', cancellationDate: null, cancellationReason: null },
+  });
+  if (request.cancellationRequestId) {
+    await prisma.cancellationRequest.update({ where: { id: request.cancellationRequestId }, data: { status: 'rejected' } });
+  }
+  recalcMeetingRevenue(request.registration.cycleId).catch((error: unknown) =>
+    console.error('[ParentRequests] Failed to recalc meeting revenue:', error)
+  );
+}
+
+/** Approve or reject a pending request, close its task and tell the parent. */
+export async function reviewParentRequest(id: string, decision: 'approved' | 'rejected', reviewerId: string, notes?: string | null) {
+  const request = await loadPendingRequest(id);
+
+  // Claim the request before acting on it, so a double click or two reviewers can't apply it twice
+  const now = new Date();
+  const review = { status: decision, reviewedById: reviewerId, reviewedAt: now, reviewNotes: notes ?? null };
+  const { count } = await prisma.parentRequest.updateMany({ where: { id, status: 'pending' }, data: review });
+  if (count === 0) {
+    throw new AppError(400, 'This request was already reviewed');
+  }
+
+  try {
+    if (decision === 'approved') {
+      await applyApproval(request, reviewerId);
+    } else {
+      await applyRejection(request);
+    }
+  } catch (error) {
+    await prisma.parentRequest.update({
+      where: { id },
+      data: { status: 'pending', reviewedById: null, reviewedAt: null, reviewNotes: null },
+    });
+    throw error;
+  }
+
+  const updated = { ...request, ...review };
+  if (request.taskId) {
+    await prisma.task.update({
+      where: { id: request.taskId },
+      data: { status: 'completed', completedAt: now, completedById: reviewerId },
+    });
+  }
+
+  await logAudit({
+    userId: reviewerId,
+    action: 'UPDATE',
+    entity: 'ParentRequest',
+    entityId: id,
+    oldValue: { status: request.status },
+    newValue: { status: decision, reviewNotes: notes ?? null },
+  });
+
+  const label = PARENT_REQUEST_TYPE_LABELS[request.type];
+  await createParentNotification(request.customerId, {
+    type: 'request_update',
+    title: decision === 'approved' ? `${label} אושרה` : `${label} נדחתה`,
+    body: `${label} עבור ${request.registration.student.name} (${request.registration.cycle.name})` +
+      (decision === 'approved' ? ' אושרה' : ' נדחתה') + (notes ? `: ${notes}` : ''),
+    studentId: request.studentId,
+    cycleId: request.registration.cycleId,
+    meetingId: request.makeupMeetingId ?? request.meetingId,
+    data: { requestId: id, requestType: request.type, status: decision },
+  });
+
+  return updated;
+}
@@ -3,6 +3,7 @@ import {
   sendWhatsAppCloudTemplate,
   templateText,
 } from './whatsapp-cloud-templates.js';
+import { createParentNotification } from './parent-notifications.js';
 
 export function buildParentReminderTemplateVariables(data: ParentReminderData): string[] {
   const zoomText = data.zoomLink
@@ -39,7 +40,21 @@ export async function sendParentWhatsAppReminder(params: {
   phone?: string | null;
   contactName?: string | null;
   data: ParentReminderData;
+  /** When set, the reminder is also recorded in the parent app's notification center (even if WhatsApp is off). */
+  notify?: { customerId: string; studentId?: string; meetingId?: string; cycleId?: string };
 }): Promise<{ sent: boolean; skipped?: string; messageId?: string }> {
+  if (params.notify) {
+    await createParentNotification(params.notify.customerId, {
+      type: 'lesson_reminder',
+      title: `תזכורת: ${params.data.className} ${params.data.date}`,
+      body: `ל-${params.data.studentName} יש שיעור ${params.data.className} ${params.data.date} בשעה ${params.data.time} (${params.data.location})`,
+      studentId: params.notify.studentId,
+      meetingId: params.notify.meetingId,
+      cycleId: params.notify.cycleId,
+      data: params.data.zoomLink ? { zoomLink: params.data.zoomLink } : undefined,
+    });
+  }
+
   if (process.env.PARENT_REMINDER_WA_ENABLED !== 'true') {
     return { sent: false, skipped: 'disabled' };
   }
@@ -0,0 +1,76 @@
+/**
+ * Payment Links
+ *
+ * Shared helpers for the CRM short payment links (/pl/:code) that wrap a
+ * Morning hosted payment form. Used by the sales "payment links" screen and by
+ * the parent app's "pay now" action.
+ */
+
+import { randomBytes } from 'crypto';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { createMorningClient, findClientForCustomer } from './morning/clients.js';
+
+// Crockford-style base32, no ambiguous chars. 32^5 ≈ 33M combos.
+const SHORT_CODE_ALPHABET = '23456789abcdefghjkmnpqrstuvwxyz';
+function generateShortCode(): string {
+  const bytes = randomBytes(5);
+  let out = '';
+  for (let i = 0; i < 5; i++) out += SHORT_CODE_ALPHABET[bytes[i] % SHORT_CODE_ALPHABET.length];
+  return out;
+}
+
+export async function generateUniqueShortCode(): Promise<string> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const code = generateShortCode();
+    const existing = await prisma.paymentLink.findUnique({ where: { code }, select: { id: true } });
+    if (!existing) return code;
+  }
+  throw new AppError(500, 'Failed to allocate a unique short code — try again');
+}
+
+/** Morning callback, success and failure URLs for a short link code. */
+export function paymentLinkUrls(baseUrl: string, code: string) {
+  const encoded = encodeURIComponent(code);
+  return {
+    shortUrl: `${baseUrl}/pl/${encoded}`,
+    webhookUrl: `${baseUrl}/api/morning-webhook?paymentLinkCode=${encoded}`,
+    successUrl: `${baseUrl}/pl/${encoded}/success`,
+    failureUrl: `${baseUrl}/pl/${encoded}?failed=1`,
+  };
+}
+
+// Find or create the matching Morning client UUID for a CRM customer and cache
+// it on the customer row. Returns null if Morning is unreachable so the caller
+// can still issue the payment link with inline client info.
+export async function ensureMorningClientId(customerId: string): Promise<string | null> {
+  const customer = await prisma.customer.findUnique({ where: { id: customerId } });
+  if (!customer) return null;
+  if (customer.morningClientId) return customer.morningClientId;
+
+  try {
+    const existing = await findClientForCustomer({
+      name: customer.name,
+      email: customer.email,
+      phone: customer.phone,
+    });
+    let morningId = existing?.id;
+    if (!morningId) {
+      const created = await createMorningClient({
+        name: customer.name,
+        emails: customer.email ? [customer.email] : undefined,
+        phone: customer.phone ?? undefined,
+        address: customer.address ?? undefined,
+        city: customer.city ?? undefined,
+      });
+      morningId = created.id;
+    }
+    await prisma.customer.update({
+      where: { id: customerId },
+      data: { morningClientId: morningId },
+    });
+    return morningId;
+  } catch {
+    return null;
+  }
+}
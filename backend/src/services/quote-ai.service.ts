@@ -1,4 +1,5 @@
 import OpenAI from 'openai';
+import { vatRateOn } from '../utils/revenue.js';
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const openai = OPENAI_API_KEY ? new OpenAI({ apiKey: OPENAI_API_KEY }) : null;
@@ -60,13 +61,14 @@ export async function generateQuoteAIContent(quote: QuoteForAI): Promise<string>
     contentInstructions = `ההצעה היא עבור קורסים והכשרות טכנולוגיות שדרך ההייטק מלמדת. תאר מטרות למידה, פעילויות מרכזיות, תוצאות צפויות והתאמה למוסד.`;
   }
 
+  const vatPercent = Math.round(vatRateOn() * 100);
   const prompt = `אתה כותב הצעות מחיר מקצועיות עבור חברת "דרך ההייטק בע״מ" - חברה המתמחה בהכשרות טכנולוגיות, AI ופרויקטי אוטומציה לבתי ספר וארגונים.
 
 פרטי המוסד: ${quote.institutionName}
 איש קשר: ${contactInfo}
 ${itemsSection}
 
-סה"כ: ${quote.finalAmount} ₪ ${quote.includesVat ? '(כולל מע״מ 18%)' : '(לא כולל מע״מ)'}
+סה"כ: ${quote.finalAmount} ₪ ${quote.includesVat ? `(כולל מע״מ ${vatPercent}%)` : '(לא כולל מע״מ)'}
 
 ${contentInstructions}
 
@@ -74,7 +76,7 @@ ${contentInstructions}
 1. מבוא על חברת "דרך ההייטק בע״מ" - החברה מתמחה בהכשרות טכנולוגיות ובפרויקטי אוטומציה, עם ניסיון עשיר בתחום החינוך והטכנולוגיה
 2. ניתוח צרכים - מותאם לסוג המוסד ולפריטים שנבחרו
 3. תיאור כל פריט - מותאם לסוג (קורס או פרויקט)
-4. טבלת תמחור מסודרת — ${quote.includesVat ? 'המחירים כוללים מע״מ 18%, ציין זאת בטבלה' : 'המחירים לא כוללים מע״מ, הוסף שורת מע״מ 18% ושורת סה״כ כולל מע״מ'}
+4. טבלת תמחור מסודרת — ${quote.includesVat ? `המחירים כוללים מע״מ ${vatPercent}%, ציין זאת בטבלה` : `המחירים לא כוללים מע״מ, הוסף שורת מע״מ ${vatPercent}% ושורת סה״כ כולל מע״מ`}
 5. סיכום והמלצות למימוש
 6. סיום עם חתימת החברה: "בברכה, דרך ההייטק בע״מ"
 
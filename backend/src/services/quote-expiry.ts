@@ -0,0 +1,182 @@
+/**
+ * Quote Expiry
+ *
+ * Daily job over sent quotes with a validUntil date:
+ *  - QUOTE_EXPIRY_REMINDER_DAYS (default 3) days before the last valid day, the salesperson
+ *    (the quote's creator) and the client contact get a reminder with the public link —
+ *    once per validUntil date; changing the date re-arms it
+ *  - the day after validUntil the quote moves to `expired`, and the public page stops
+ *    accepting responses. It can only be re-sent (which reopens it) after validUntil is
+ *    moved to today or later
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../config.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { sendEmail } from './email/sender.js';
+import { sendWhatsAppMessage } from './notifications.js';
+
+const TZ = 'Asia/Jerusalem';
+const DEFAULT_REMINDER_DAYS = 3;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+let scheduledTask: ScheduledTask | null = null;
+
+function reminderDays(): number {
+  const days = Number(process.env.QUOTE_EXPIRY_REMINDER_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_REMINDER_DAYS;
+}
+
+/** Today's Israel calendar date at UTC midnight — the way @db.Date validUntil is stored. */
+function israelToday(now: Date): Date {
+  const date = new Intl.DateTimeFormat('en-CA', { timeZone: TZ }).format(now);
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+function publicQuoteUrl(id: string) {
+  const base = config.frontendUrl && config.frontendUrl !== '*' ? config.frontendUrl : 'https://crm.orma-ai.com';
+  return `${base}/public/quote/${id}`;
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('he-IL', { timeZone: 'UTC' });
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => (
+    { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string
+  ));
+}
+
+// ==================== Expiry ====================
+
+/** Move sent quotes whose last valid day has passed to `expired`. */
+export async function expireOverdueQuotes(now: Date = new Date()) {
+  const result = await prisma.quote.updateMany({
+    where: { status: 'sent', validUntil: { lt: israelToday(now) } },
+    data: { status: 'expired' },
+  });
+  return result.count;
+}
+
+/**
+ * A quote past its last valid day would be expired again by the next run, so sending it is
+ * refused until the date is moved (which also re-arms the expiry reminder).
+ */
+export function assertQuoteSendable(quote: { validUntil: Date | null }, now: Date = new Date()) {
+  if (quote.validUntil && quote.validUntil < israelToday(now)) {
+    throw new AppError(400, 'תוקף ההצעה עבר — יש לעדכן את תאריך התוקף לפני שליחה חוזרת');
+  }
+}
+
+// ==================== Reminders ====================
+
+type ReminderQuote = {
+  id: string;
+  quoteNumber: string;
+  institutionName: string;
+  contactName: string;
+  contactPhone: string;
+  contactEmail: string | null;
+  finalAmount: unknown;
+  validUntil: Date | null;
+  createdBy: { name: string; email: string } | null;
+};
+
+async function sendExpiryReminder(quote: ReminderQuote, today: Date) {
+  const validUntil = quote.validUntil!;
+  const daysLeft = Math.round((validUntil.getTime() - today.getTime()) / MS_PER_DAY);
+  const url = publicQuoteUrl(quote.id);
+  const amount = `₪${Number(quote.finalAmount).toLocaleString('he-IL')}`;
+  const whenText = daysLeft === 0 ? 'היום' : `בעוד ${daysLeft} ימים (${formatDate(validUntil)})`;
+
+  if (quote.createdBy?.email) {
+    await sendEmail({
+      to: quote.createdBy.email,
+      subject: `הצעת מחיר ${quote.quoteNumber} פגה ${daysLeft === 0 ? 'היום' : `בעוד ${daysLeft} ימים`} — ${quote.institutionName}`,
+      html: `
+        <div dir="rtl" style="font-family:Arial,sans-serif">
+          <p>שלום ${escapeHtml(quote.createdBy.name)},</p>
+          <p>הצעת המחיר ל${escapeHtml(quote.institutionName)} (${quote.quoteNumber}, ${amount}) עדיין לא נענתה ותוקפה פג ${whenText}.</p>
+          <p>איש קשר: ${escapeHtml(quote.contactName)} · ${escapeHtml(quote.contactPhone)}</p>
+          <p><a href="${url}">להצעה</a></p>
+        </div>`,
+    });
+  }
+
+  const contactText = `שלום ${quote.contactName}, תזכורת: הצעת המחיר מדרך ההייטק עבור ${quote.institutionName} בתוקף עד ${formatDate(validUntil)}. לצפייה ולאישור: ${url}`;
+  if (quote.contactEmail) {
+    await sendEmail({
+      to: quote.contactEmail,
+      subject: `תזכורת: הצעת המחיר עבור ${quote.institutionName} בתוקף עד ${formatDate(validUntil)}`,
+      html: `
+        <div dir="rtl" style="font-family:Arial,sans-serif">
+          <p>שלום ${escapeHtml(quote.contactName)},</p>
+          <p>רצינו להזכיר שהצעת המחיר שהכנו עבור ${escapeHtml(quote.institutionName)} בתוקף עד ${formatDate(validUntil)}.</p>
+          <p><a href="${url}">לצפייה בהצעה ולאישורה</a></p>
+          <p style="color:#94a3b8;font-size:12px">דרך ההייטק | hai.tech</p>
+        </div>`,
+    });
+  } else if (quote.contactPhone) {
+    await sendWhatsAppMessage(quote.contactPhone, contactText);
+  }
+}
+
+/**
+ * Remind about sent quotes whose last valid day is within the reminder window.
+ * Each quote is reminded once per validUntil (expiryReminderSentAt).
+ */
+export async function sendQuoteExpiryReminders(now: Date = new Date()) {
+  const today = israelToday(now);
+  const windowEnd = new Date(today.getTime() + reminderDays() * MS_PER_DAY);
+
+  const quotes = await prisma.quote.findMany({
+    where: {
+      status: 'sent',
+      expiryReminderSentAt: null,
+      validUntil: { gte: today, lte: windowEnd },
+    },
+    select: {
+      id: true,
+      quoteNumber: true,
+      institutionName: true,
+      contactName: true,
+      contactPhone: true,
+      contactEmail: true,
+      finalAmount: true,
+      validUntil: true,
+      createdBy: { select: { name: true, email: true } },
+    },
+  });
+
+  let reminded = 0;
+  for (const quote of quotes) {
+    try {
+      await sendExpiryReminder(quote, today);
+      await prisma.quote.update({ where: { id: quote.id }, data: { expiryReminderSentAt: now } });
+      reminded++;
+    } catch (error) {
+      console.error(`[QuoteExpiry] reminder for ${quote.quoteNumber} failed:`, error);
+    }
+  }
+  return reminded;
+}
+
+export async function runQuoteExpiry(now: Date = new Date()) {
+  const expired = await expireOverdueQuotes(now);
+  const reminded = await sendQuoteExpiryReminders(now);
+  return { expired, reminded };
+}
+
+export function initQuoteExpiryScheduler() {
+  if (scheduledTask) scheduledTask.stop();
+  scheduledTask = cron.schedule('0 8 * * *', () => {
+    runQuoteExpiry()
+      .then(({ expired, reminded }) => {
+        if (expired > 0 || reminded > 0) console.log(`[QuoteExpiry] Expired ${expired}, reminded ${reminded}`);
+      })
+      .catch((error) => {
+        console.error('[QuoteExpiry] run failed:', error);
+      });
+  }, { timezone: TZ });
+  console.log(`   ✓ Quote expiry: daily 08:00 → expire past validUntil, remind ${reminderDays()} days before`);
+}
@@ -0,0 +1,150 @@
+/**
+ * Quote Pipeline
+ *
+ * Engagement on the public quote page and the sales pipeline report.
+ *
+ * The public page reports a `view` on every load and `video` once the client actually
+ * watched the marketing video; staff previews of drafts are not counted. The pipeline
+ * report groups quotes created in a date range by status, salesperson (createdBy), client
+ * type and month. Win rate is won / decided, where won = accepted or converted and
+ * decided adds rejected and expired; quotes still open don't count against it. Days to
+ * accept run from the first send (or creation, for quotes accepted without being sent).
+ */
+
+import type { QuoteStatus } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { roundMoney } from '../utils/revenue.js';
+
+const WON_STATUSES: QuoteStatus[] = ['accepted', 'converted'];
+const LOST_STATUSES: QuoteStatus[] = ['rejected', 'expired'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type QuoteViewEventType = 'view' | 'video';
+
+// ==================== View tracking ====================
+
+export async function recordQuoteViewEvent(quoteId: string, type: QuoteViewEventType, now: Date = new Date()) {
+  const quote = await prisma.quote.findUnique({
+    where: { id: quoteId },
+    select: { status: true, firstViewedAt: true, videoWatchedAt: true },
+  });
+  if (!quote) throw new AppError(404, 'Quote not found');
+  if (quote.status === 'draft') return;
+
+  if (type === 'view') {
+    await prisma.quote.update({
+      where: { id: quoteId },
+      data: {
+        viewCount: { increment: 1 },
+        lastViewedAt: now,
+        ...(quote.firstViewedAt ? {} : { firstViewedAt: now }),
+      },
+    });
+  } else if (!quote.videoWatchedAt) {
+    await prisma.quote.update({ where: { id: quoteId }, data: { videoWatchedAt: now } });
+  }
+}
+
+// ==================== Pipeline report ====================
+
+type PipelineQuote = {
+  status: QuoteStatus;
+  finalAmount: unknown;
+  clientType: string | null;
+  createdAt: Date;
+  sentAt: Date | null;
+  acceptedAt: Date | null;
+  firstViewedAt: Date | null;
+  videoWatchedAt: Date | null;
+  createdBy: { id: string; name: string } | null;
+};
+
+export interface PipelineBucket {
+  key: string;
+  label: string;
+  count: number;
+  amount: number;
+  won: number;
+  wonAmount: number;
+  lost: number;
+  winRate: number | null;
+  avgDaysToAccept: number | null;
+  viewed: number;
+  videoWatched: number;
+}
+
+function summarize(key: string, label: string, quotes: PipelineQuote[]): PipelineBucket {
+  const won = quotes.filter((q) => WON_STATUSES.includes(q.status));
+  const lost = quotes.filter((q) => LOST_STATUSES.includes(q.status)).length;
+  const acceptDays = won
+    .filter((q) => q.acceptedAt)
+    .map((q) => (q.acceptedAt!.getTime() - (q.sentAt ?? q.createdAt).getTime()) / MS_PER_DAY);
+
+  return {
+    key,
+    label,
+    count: quotes.length,
+    amount: roundMoney(quotes.reduce((sum, q) => sum + Number(q.finalAmount), 0)),
+    won: won.length,
+    wonAmount: roundMoney(won.reduce((sum, q) => sum + Number(q.finalAmount), 0)),
+    lost,
+    winRate: won.length + lost > 0 ? Math.round((won.length / (won.length + lost)) * 1000) / 10 : null,
+    avgDaysToAccept: acceptDays.length > 0
+      ? Math.round((acceptDays.reduce((sum, days) => sum + days, 0) / acceptDays.length) * 10) / 10
+      : null,
+    viewed: quotes.filter((q) => q.firstViewedAt).length,
+    videoWatched: quotes.filter((q) => q.videoWatchedAt).length,
+  };
+}
+
+function groupBy(quotes: PipelineQuote[], keyOf: (quote: PipelineQuote) => { key: string; label: string }) {
+  const groups = new Map<string, { label: string; quotes: PipelineQuote[] }>();
+  for (const quote of quotes) {
+    const { key, label } = keyOf(quote);
+    const group = groups.get(key) ?? { label, quotes: [] };
+    group.quotes.push(quote);
+    groups.set(key, group);
+  }
+  return [...groups.entries()].map(([key, group]) => summarize(key, group.label, group.quotes));
+}
+
+const CLIENT_TYPE_LABELS: Record<string, string> = { private: 'פרטי', institutional: 'מוסדי' };
+
+/** Pipeline of the quotes created in [from, to) — both optional. */
+export async function getQuotePipelineReport(range: { from?: Date; to?: Date } = {}) {
+  const quotes: PipelineQuote[] = await prisma.quote.findMany({
+    where: {
+      createdAt: {
+        ...(range.from ? { gte: range.from } : {}),
+        ...(range.to ? { lt: range.to } : {}),
+      },
+    },
+    select: {
+      status: true,
+      finalAmount: true,
+      clientType: true,
+      createdAt: true,
+      sentAt: true,
+      acceptedAt: true,
+      firstViewedAt: true,
+      videoWatchedAt: true,
+      createdBy: { select: { id: true, name: true } },
+    },
+  });
+
+  return {
+    totals: summarize('all', 'הכל', quotes),
+    byStatus: groupBy(quotes, (q) => ({ key: q.status, label: q.status })),
+    bySalesperson: groupBy(quotes, (q) => ({ key: q.createdBy?.id ?? 'none', label: q.createdBy?.name ?? 'ללא' }))
+      .sort((a, b) => b.amount - a.amount),
+    byClientType: groupBy(quotes, (q) => ({
+      key: q.clientType ?? 'none',
+      label: q.clientType ? CLIENT_TYPE_LABELS[q.clientType] ?? q.clientType : 'לא צוין',
+    })),
+    byMonth: groupBy(quotes, (q) => {
+      const month = q.createdAt.toISOString().slice(0, 7);
+      return { key: month, label: month };
+    }).sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
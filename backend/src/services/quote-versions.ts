@@ -0,0 +1,387 @@
+/**
+ * Quote Versions & Signatures
+ *
+ * A Quote is edited in place, so every send takes an immutable snapshot of what the client
+ * receives (QuoteVersion) — the client-facing fields and items. Re-sending an unchanged quote
+ * reuses the latest version. Staff can diff any two versions.
+ *
+ * The public quote page shows the latest sent version, and accepting it is an e-signature:
+ * signer name, role, drawn signature (PNG data URL), timestamp, IP and user agent are kept
+ * on QuoteSignature, and a signed PDF (rendered through Google Docs, like report cards) is
+ * stored as a file attachment of the quote. A signature always refers to the version the
+ * client was looking at; if the quote was re-sent meanwhile, signing is refused.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import type { Prisma, QuoteSignature } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { renderHtmlToPdf } from './google-drive.js';
+import { storeAttachment } from './file-attachments.js';
+import { publishQuoteAccepted } from './quotes.service.js';
+
+/** Drawn signatures above this size are rejected (a typical pad PNG is 10–60 KB). */
+const MAX_SIGNATURE_BYTES = 300 * 1024;
+const SIGNATURE_DATA_URL = /^data:image\/png;base64,[A-Za-z0-9+/]+=*$/;
+
+export interface QuoteSnapshotItem {
+  id: string;
+  courseName: string;
+  description: string | null;
+  groups: number;
+  meetingsPerGroup: number;
+  meetingDuration: number;
+  pricePerMeeting: number;
+  subtotal: number;
+}
+
+/** Client-facing content of a quote as sent. Keys match Quote so it can overlay the record. */
+export interface QuoteSnapshot {
+  quoteNumber: string;
+  institutionName: string;
+  contactName: string;
+  contactRole: string | null;
+  contactPhone: string;
+  contactEmail: string | null;
+  payingBodyName: string | null;
+  includesVat: boolean;
+  introText: string | null;
+  aboutText: string | null;
+  content: Prisma.JsonValue | null;
+  cancellationTerms: string | null;
+  paymentTerms: string | null;
+  totalAmount: number;
+  discount: number;
+  finalAmount: number;
+  validUntil: string | null;
+  items: QuoteSnapshotItem[];
+}
+
+type QuoteWithItems = Prisma.QuoteGetPayload<{ include: { items: true } }>;
+
+export function buildQuoteSnapshot(quote: QuoteWithItems): QuoteSnapshot {
+  return {
+    quoteNumber: quote.quoteNumber,
+    institutionName: quote.institutionName,
+    contactName: quote.contactName,
+    contactRole: quote.contactRole,
+    contactPhone: quote.contactPhone,
+    contactEmail: quote.contactEmail,
+    payingBodyName: quote.payingBodyName,
+    includesVat: quote.includesVat,
+    introText: quote.introText,
+    aboutText: quote.aboutText,
+    content: quote.content,
+    cancellationTerms: quote.cancellationTerms,
+    paymentTerms: quote.paymentTerms,
+    totalAmount: Number(quote.totalAmount),
+    discount: Number(quote.discount ?? 0),
+    finalAmount: Number(quote.finalAmount),
+    validUntil: quote.validUntil ? quote.validUntil.toISOString().slice(0, 10) : null,
+    items: [...quote.items]
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((item) => ({
+        id: item.id,
+        courseName: item.courseName,
+        description: item.description,
+        groups: item.groups,
+        meetingsPerGroup: item.meetingsPerGroup,
+        meetingDuration: item.meetingDuration,
+        pricePerMeeting: Number(item.pricePerMeeting),
+        subtotal: Number(item.subtotal),
+      })),
+  };
+}
+
+// ===================
+// Versions
+// ===================
+
+export function getLatestQuoteVersion(quoteId: string) {
+  return prisma.quoteVersion.findFirst({
+    where: { quoteId },
+    orderBy: { versionNumber: 'desc' },
+  });
+}
+
+/**
+ * Snapshot the quote as it is being sent. Returns the latest version instead when nothing
+ * the client sees has changed since it was taken.
+ */
+export async function createQuoteVersion(quoteId: string, options: { sentById?: string | null; sentTo?: string | null } = {}) {
+  const quote = await prisma.quote.findUnique({ where: { id: quoteId }, include: { items: true } });
+  if (!quote) throw new AppError(404, 'Quote not found');
+
+  const snapshot = buildQuoteSnapshot(quote);
+  const latest = await getLatestQuoteVersion(quoteId);
+  // JSONB doesn't keep key order, so compare structurally against the snapshot as it would be stored
+  if (latest && isDeepStrictEqual(latest.snapshot, JSON.parse(JSON.stringify(snapshot)))) return latest;
+
+  return prisma.quoteVersion.create({
+    data: {
+      quoteId,
+      versionNumber: (latest?.versionNumber ?? 0) + 1,
+      snapshot: snapshot as unknown as Prisma.InputJsonValue,
+      finalAmount: snapshot.finalAmount,
+      sentById: options.sentById ?? null,
+      sentTo: options.sentTo ?? null,
+    },
+  });
+}
+
+export function listQuoteVersions(quoteId: string) {
+  return prisma.quoteVersion.findMany({
+    where: { quoteId },
+    orderBy: { versionNumber: 'desc' },
+    include: {
+      signature: {
+        select: { id: true, signerName: true, signerRole: true, signedAt: true, ipAddress: true, fileAttachmentId: true },
+      },
+    },
+  });
+}
+
+// ===================
+// Diff
+// ===================
+
+const FIELD_LABELS: Partial<Record<keyof QuoteSnapshot, string>> = {
+  institutionName: 'מוסד',
+  contactName: 'איש קשר',
+  contactRole: 'תפקיד',
+  contactPhone: 'טלפון',
+  contactEmail: 'אימייל',
+  payingBodyName: 'גוף משלם',
+  includesVat: 'כולל מע״מ',
+  introText: 'פתיח',
+  aboutText: 'אודות',
+  content: 'תוכן',
+  cancellationTerms: 'תנאי ביטול',
+  paymentTerms: 'תנאי תשלום',
+  totalAmount: 'סכום לפני הנחה',
+  discount: 'הנחה',
+  finalAmount: 'סה״כ',
+  validUntil: 'בתוקף עד',
+};
+
+const ITEM_FIELD_LABELS: Partial<Record<keyof QuoteSnapshotItem, string>> = {
+  courseName: 'שם',
+  description: 'תיאור',
+  groups: 'קבוצות',
+  meetingsPerGroup: 'מפגשים לקבוצה',
+  meetingDuration: 'משך מפגש',
+  pricePerMeeting: 'מחיר למפגש',
+  subtotal: 'סכום',
+};
+
+export interface QuoteFieldChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface QuoteItemChange {
+  change: 'added' | 'removed' | 'changed';
+  courseName: string;
+  fields: QuoteFieldChange[];
+}
+
+export interface QuoteDiff {
+  fields: QuoteFieldChange[];
+  items: QuoteItemChange[];
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function changedFields<T extends object>(before: T, after: T, labels: Partial<Record<keyof T, string>>): QuoteFieldChange[] {
+  return (Object.keys(labels) as (keyof T)[])
+    .filter((field) => !same(before[field], after[field]))
+    .map((field) => ({ field: String(field), label: labels[field]!, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+/** What changed between two snapshots. Items are matched by id, so renamed items show as changed. */
+export function diffQuoteSnapshots(before: QuoteSnapshot, after: QuoteSnapshot): QuoteDiff {
+  const beforeItems = new Map(before.items.map((item) => [item.id, item]));
+  const afterIds = new Set(after.items.map((item) => item.id));
+  const items: QuoteItemChange[] = [];
+
+  for (const item of after.items) {
+    const previous = beforeItems.get(item.id);
+    if (!previous) {
+      items.push({ change: 'added', courseName: item.courseName, fields: changedFields({} as QuoteSnapshotItem, item, ITEM_FIELD_LABELS) });
+      continue;
+    }
+    const fields = changedFields(previous, item, ITEM_FIELD_LABELS);
+    if (fields.length > 0) items.push({ change: 'changed', courseName: item.courseName, fields });
+  }
+  for (const item of before.items) {
+    if (!afterIds.has(item.id)) {
+      items.push({ change: 'removed', courseName: item.courseName, fields: changedFields(item, {} as QuoteSnapshotItem, ITEM_FIELD_LABELS) });
+    }
+  }
+
+  return { fields: changedFields(before, after, FIELD_LABELS), items };
+}
+
+/** Diff version `to` against `from` (default: the version before it). */
+export async function getQuoteVersionDiff(quoteId: string, to: number, from?: number) {
+  const fromNumber = from ?? to - 1;
+  const versions = await prisma.quoteVersion.findMany({
+    where: { quoteId, versionNumber: { in: [fromNumber, to] } },
+  });
+  const before = versions.find((v) => v.versionNumber === fromNumber);
+  const after = versions.find((v) => v.versionNumber === to);
+  if (!before || !after) throw new AppError(404, 'Quote version not found');
+
+  return {
+    from: fromNumber,
+    to,
+    ...diffQuoteSnapshots(before.snapshot as unknown as QuoteSnapshot, after.snapshot as unknown as QuoteSnapshot),
+  };
+}
+
+// ===================
+// Public view & signing
+// ===================
+
+/**
+ * The quote as the client should see it: the latest sent version over the live record,
+ * so unsent edits never reach the client. Drafts (staff preview) show the live quote.
+ */
+export async function getPublicQuoteView<T extends { id: string; status: string }>(quote: T) {
+  const latest = quote.status === 'draft' ? null : await getLatestQuoteVersion(quote.id);
+  const signature = await prisma.quoteSignature.findFirst({
+    where: { quoteId: quote.id },
+    orderBy: { signedAt: 'desc' },
+    select: { signerName: true, signerRole: true, signedAt: true },
+  });
+  if (!latest) return { ...quote, versionNumber: null, signature };
+
+  return {
+    ...quote,
+    ...(latest.snapshot as unknown as QuoteSnapshot),
+    versionNumber: latest.versionNumber,
+    signature,
+  };
+}
+
+export interface QuoteSignatureInput {
+  /** Version shown to the client; null for quotes sent before versioning. */
+  versionNumber: number | null;
+  signerName: string;
+  signerRole?: string | null;
+  signature: string;
+  clientNotes?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const money = (amount: number) => `₪${amount.toLocaleString('he-IL', { maximumFractionDigits: 2 })}`;
+
+/** Hebrew RTL signed quote — the PDF source. */
+export function renderSignedQuoteHtml(
+  snapshot: QuoteSnapshot,
+  versionNumber: number,
+  signature: Pick<QuoteSignature, 'signerName' | 'signerRole' | 'signature' | 'signedAt' | 'ipAddress'>,
+): string {
+  const cell = 'padding: 8px; border: 1px solid #e5e7eb; text-align: right;';
+  const itemRows = snapshot.items.map((item) => `
+        <tr>
+          <td style="${cell}">${escapeHtml(item.courseName)}${item.description ? `<br><span style="color: #6b7280;">${escapeHtml(item.description)}</span>` : ''}</td>
+          <td style="${cell}">${item.groups} × ${item.meetingsPerGroup}</td>
+          <td style="${cell}">${money(item.pricePerMeeting)}</td>
+          <td style="${cell}">${money(item.subtotal)}</td>
+        </tr>`).join('');
+  const signedAt = signature.signedAt.toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' });
+
+  return `<!DOCTYPE html>
+<html lang="he" dir="rtl">
+<head><meta charset="utf-8"><title>הצעת מחיר ${escapeHtml(snapshot.quoteNumber)} — חתומה</title></head>
+<body dir="rtl" style="font-family: Arial, sans-serif; direction: rtl; text-align: right; color: #111827;">
+  <h1 style="color: #2563eb;">הצעת מחיר ${escapeHtml(snapshot.quoteNumber)} (גרסה ${versionNumber})</h1>
+  <p>
+    <strong>${escapeHtml(snapshot.institutionName)}</strong><br>
+    ${escapeHtml(snapshot.contactName)}${snapshot.contactRole ? ` · ${escapeHtml(snapshot.contactRole)}` : ''}
+  </p>
+
+  <table style="border-collapse: collapse; width: 100%;" dir="rtl">
+    <tr style="background: #f3f4f6;"><th style="${cell}">פריט</th><th style="${cell}">קבוצות × מפגשים</th><th style="${cell}">מחיר למפגש</th><th style="${cell}">סכום</th></tr>${itemRows}
+  </table>
+${snapshot.discount > 0 ? `  <p>הנחה: ${money(snapshot.discount)}</p>\n` : ''}  <p style="font-size: 18px;"><strong>סה״כ: ${money(snapshot.finalAmount)} ${snapshot.includesVat ? '(כולל מע״מ)' : '(לא כולל מע״מ)'}</strong></p>
+${snapshot.paymentTerms ? `  <h3>תנאי תשלום</h3>\n  <p>${escapeHtml(snapshot.paymentTerms)}</p>\n` : ''}${snapshot.cancellationTerms ? `  <h3>תנאי ביטול</h3>\n  <p>${escapeHtml(snapshot.cancellationTerms)}</p>\n` : ''}
+  <h3>אישור וחתימה</h3>
+  <p>
+    שם החותם/ת: ${escapeHtml(signature.signerName)}${signature.signerRole ? ` · ${escapeHtml(signature.signerRole)}` : ''}<br>
+    נחתם: ${signedAt}${signature.ipAddress ? ` · IP ${escapeHtml(signature.ipAddress)}` : ''}
+  </p>
+  <img src="${signature.signature}" alt="חתימה" style="max-width: 300px; border-bottom: 1px solid #9ca3af;">
+  <p style="color: #6b7280; font-size: 12px;">דרך ההייטק בע״מ · hai.tech</p>
+</body>
+</html>`;
+}
+
+/**
+ * Accept the quote with an e-signature on the version the client viewed. The signature is
+ * recorded even when the PDF can't be rendered; the PDF is then simply missing.
+ */
+export async function signQuote(quoteId: string, input: QuoteSignatureInput) {
+  const quote = await prisma.quote.findUnique({ where: { id: quoteId }, select: { id: true, status: true } });
+  if (!quote) throw new AppError(404, 'הצעה לא נמצאה');
+  if (quote.status !== 'sent') throw new AppError(400, 'לא ניתן לענות על הצעה זו');
+
+  if (!SIGNATURE_DATA_URL.test(input.signature)) throw new AppError(400, 'חתימה לא תקינה');
+  if (Buffer.byteLength(input.signature) > MAX_SIGNATURE_BYTES) throw new AppError(400, 'קובץ החתימה גדול מדי');
+
+  const latest = await getLatestQuoteVersion(quoteId);
+  if ((latest?.versionNumber ?? null) !== input.versionNumber) {
+    throw new AppError(409, 'ההצעה עודכנה מאז שנפתחה — רעננו את הדף ועיינו בגרסה העדכנית');
+  }
+  // Sent before versioning existed — the client saw the live quote, so that is what they sign
+  const version = latest ?? await createQuoteVersion(quoteId);
+
+  const [signature, updated] = await prisma.$transaction([
+    prisma.quoteSignature.create({
+      data: {
+        quoteId,
+        versionId: version.id,
+        signerName: input.signerName,
+        signerRole: input.signerRole || null,
+        signature: input.signature,
+        ipAddress: input.ipAddress || null,
+        userAgent: input.userAgent || null,
+      },
+    }),
+    prisma.quote.update({
+      where: { id: quoteId },
+      data: { status: 'accepted', acceptedAt: new Date(), ...(input.clientNotes ? { clientNotes: input.clientNotes } : {}) },
+    }),
+  ]);
+  publishQuoteAccepted(updated, 'public_link');
+
+  const snapshot = version.snapshot as unknown as QuoteSnapshot;
+  const fileName = `הצעת מחיר ${snapshot.quoteNumber} - חתומה.pdf`.replace(/[\\/:*?"<>|]/g, '-');
+  try {
+    const pdf = await renderHtmlToPdf(fileName, renderSignedQuoteHtml(snapshot, version.versionNumber, signature));
+    const attachment = await storeAttachment({
+      entityType: 'quote',
+      entityId: quoteId,
+      originalName: fileName,
+      bytes: pdf,
+      label: 'הצעה חתומה',
+    });
+    await prisma.quoteSignature.update({ where: { id: signature.id }, data: { fileAttachmentId: attachment.id } });
+    return { quote: updated, signature: { ...signature, fileAttachmentId: attachment.id } };
+  } catch (error) {
+    console.error(`[QuoteSignature] Signed PDF not stored for quote ${quoteId}:`, error);
+    return { quote: updated, signature };
+  }
+}
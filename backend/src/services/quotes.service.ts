@@ -1,7 +1,13 @@
 import { prisma } from '../utils/prisma.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { Prisma } from '@prisma/client';
+import type { ActivityType, DayOfWeek } from '@prisma/client';
 import { generateQuoteAIContent } from './quote-ai.service.js';
+import { publishDomainEvent } from './domain-events.js';
+import { generateMeetingsForCycle, planMeetingsForCycle } from './cycle-meetings.js';
+import { checkInstructorConflicts, type InstructorConflict, type ScheduleSlot } from './instructor-conflicts.js';
+import { buildOrderBillingPlan } from './order-billing-plan.js';
+import { roundMoney } from '../utils/revenue.js';
 
 interface ListQuotesFilters {
   status?: string;
@@ -334,10 +340,18 @@ export async function updateQuote(id: string, data: {
     if (fields.aboutText !== undefined) updateData.aboutText = fields.aboutText || null;
     if (fields.cancellationTerms !== undefined) updateData.cancellationTerms = fields.cancellationTerms || null;
     if (fields.paymentTerms !== undefined) updateData.paymentTerms = fields.paymentTerms || null;
-    if (fields.validUntil !== undefined) updateData.validUntil = new Date(fields.validUntil);
+    if (fields.validUntil !== undefined) {
+      updateData.validUntil = new Date(fields.validUntil);
+      // A new validity date deserves its own before-expiry reminder
+      if (updateData.validUntil.getTime() !== existing.validUntil?.getTime()) updateData.expiryReminderSentAt = null;
+    }
     if (fields.notes !== undefined) updateData.notes = fields.notes;
     if (fields.content !== undefined) updateData.content = fields.content;
-    if (fields.status !== undefined) updateData.status = fields.status;
+    if (fields.status !== undefined) {
+      updateData.status = fields.status;
+      if (fields.status === 'sent' && !existing.sentAt) updateData.sentAt = new Date();
+      if (fields.status === 'accepted' && existing.status !== 'accepted') updateData.acceptedAt = new Date();
+    }
     if (data.discount !== undefined) updateData.discount = data.discount;
 
     // Recalculate finalAmount if items or discount changed
@@ -359,9 +373,37 @@ export async function updateQuote(id: string, data: {
     });
   });
 
+  if (quote.status === 'accepted' && existing.status !== 'accepted') {
+    publishQuoteAccepted(quote, 'crm');
+  }
+
   return quote;
 }
 
+/**
+ * Publish quote.accepted (payload documented as QuoteAcceptedEvent in the v1 OpenAPI spec).
+ * `acceptedVia` tells staff acceptance in the CRM apart from the client's public-link response.
+ */
+export function publishQuoteAccepted(
+  quote: Prisma.QuoteGetPayload<{}>,
+  acceptedVia: 'crm' | 'public_link',
+) {
+  publishDomainEvent('quote.accepted', {
+    id: quote.id,
+    quoteNumber: quote.quoteNumber,
+    institutionName: quote.institutionName,
+    contactName: quote.contactName,
+    contactEmail: quote.contactEmail,
+    customerId: quote.customerId,
+    branchId: quote.branchId,
+    totalAmount: Number(quote.totalAmount),
+    finalAmount: Number(quote.finalAmount),
+    includesVat: quote.includesVat,
+    acceptedVia,
+    clientNotes: quote.clientNotes,
+  });
+}
+
 export async function deleteQuote(id: string) {
   const quote = await prisma.quote.findUnique({ where: { id } });
   if (!quote) {
@@ -573,15 +615,122 @@ export async function buildOrderPreview(quoteId: string) {
       totalAmount: finalAmount,
       itemsCount: quote.items.length,
     },
+    // One cycle per group of each item can be created with the order (see convertToOrder)
+    items: quote.items.map((item) => ({
+      id: item.id,
+      courseId: item.courseId,
+      courseName: item.courseName,
+      groups: item.groups,
+      meetingsPerGroup: item.meetingsPerGroup,
+      meetingDuration: item.meetingDuration,
+      pricePerMeeting: Number(item.pricePerMeeting),
+    })),
     flags,
     canCreate: !flags.some((f) => f.level === 'error') || quote.status === 'converted',
     existingOrderId: quote.status === 'converted' ? quote.orderId : null,
   };
 }
 
+type QuoteWithItems = Prisma.QuoteGetPayload<{ include: { items: true } }>;
+type QuoteItem = QuoteWithItems['items'][number];
+
+/** Schedule for one group of a quote item, picked in the conversion wizard. */
+export interface ConvertCyclePlan {
+  quoteItemId: string;
+  instructorId: string;
+  dayOfWeek: DayOfWeek;
+  startTime: string; // HH:MM
+  startDate: string; // YYYY-MM-DD
+  activityType?: ActivityType;
+  location?: string | null;
+}
+
+function addMinutesToTime(time: string, minutes: number) {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = hours * 60 + mins + minutes;
+  return `${String(Math.floor(total / 60) % 24).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Turn the wizard's schedule into cycle rows: one institutional_fixed cycle per item group,
+ * with the item's meeting count and duration. The per-meeting revenue is the item's price
+ * with the quote's discount spread evenly, so the cycles add up to the quote's final amount.
+ */
+async function buildCycleDrafts(quote: QuoteWithItems, plans: ConvertCyclePlan[]) {
+  const itemsById = new Map<string, QuoteItem>(quote.items.map((item) => [item.id, item]));
+  const groupCounts = new Map<string, number>();
+  for (const plan of plans) {
+    const item = itemsById.get(plan.quoteItemId);
+    if (!item) throw new AppError(400, 'Cycle plan refers to an item that is not part of this quote');
+    if (!item.courseId) throw new AppError(400, `Quote item "${item.courseName}" is not linked to a course`);
+    const count = (groupCounts.get(item.id) ?? 0) + 1;
+    if (count > item.groups) throw new AppError(400, `Quote item "${item.courseName}" has only ${item.groups} groups`);
+    groupCounts.set(item.id, count);
+  }
+
+  const instructorIds = [...new Set(plans.map((plan) => plan.instructorId))];
+  const instructors = await prisma.instructor.findMany({ where: { id: { in: instructorIds } }, select: { id: true } });
+  if (instructors.length !== instructorIds.length) throw new AppError(404, 'Instructor not found');
+
+  const branch = await prisma.branch.findUnique({ where: { id: quote.branchId! }, select: { type: true } });
+
+  const totalAmount = Number(quote.totalAmount);
+  const discountRatio = totalAmount > 0 ? Number(quote.finalAmount) / totalAmount : 1;
+  const groupNumbers = new Map<string, number>();
+
+  return Promise.all(plans.map(async (plan) => {
+    const item = itemsById.get(plan.quoteItemId)!;
+    const groupNumber = (groupNumbers.get(item.id) ?? 0) + 1;
+    groupNumbers.set(item.id, groupNumber);
+
+    const data = {
+      name: item.groups > 1
+        ? `${item.courseName} — ${quote.institutionName} (קבוצה ${groupNumber})`
+        : `${item.courseName} — ${quote.institutionName}`,
+      courseId: item.courseId as string,
+      branchId: quote.branchId as string,
+      instructorId: plan.instructorId,
+      type: 'institutional_fixed' as const,
+      startDate: new Date(plan.startDate),
+      endDate: new Date(plan.startDate),
+      dayOfWeek: plan.dayOfWeek,
+      startTime: new Date(`1970-01-01T${plan.startTime}:00Z`),
+      endTime: new Date(`1970-01-01T${addMinutesToTime(plan.startTime, item.meetingDuration)}:00Z`),
+      durationMinutes: item.meetingDuration,
+      totalMeetings: item.meetingsPerGroup,
+      remainingMeetings: item.meetingsPerGroup,
+      meetingRevenue: roundMoney(Number(item.pricePerMeeting) * discountRatio),
+      revenueIncludesVat: quote.includesVat,
+      isOnline: plan.activityType === 'online',
+      activityType: plan.activityType ?? 'frontal',
+      location: plan.location ?? null,
+    };
+
+    const planned = await planMeetingsForCycle({ ...data, branch, meetings: [] });
+    if (planned.length > 0) data.endDate = planned[planned.length - 1].scheduledDate;
+    return { data, planned };
+  }));
+}
+
+/** A step that failed after the order was committed, with the endpoint that retries it. */
+export interface ConvertSetupFailure {
+  step: 'meetings' | 'billing_plan';
+  cycleId?: string;
+  retry: string;
+  error: string;
+}
+
+/**
+ * Create the institutional order for a quote. When `cycles` is given, the order also gets one
+ * cycle per scheduled item group with its meetings generated, and a projected monthly billing
+ * plan built from those meetings. The whole schedule is checked for instructor double-booking
+ * before anything is written (pass allowConflicts to create it anyway). Meeting generation and
+ * the billing plan run after the commit; if either fails the order still stands and the failure
+ * is returned in `setupFailures` with its retry endpoint.
+ */
 export async function convertToOrder(
   quoteId: string,
-  options: { allowNonAccepted?: boolean } = {}
+  options: { allowNonAccepted?: boolean; cycles?: ConvertCyclePlan[]; allowConflicts?: boolean } = {}
 ) {
   const quote = await prisma.quote.findUnique({
     where: { id: quoteId },
@@ -604,6 +753,15 @@ export async function convertToOrder(
     throw new AppError(400, 'Quote must be linked to a branch before converting to order');
   }
 
+  const cycleDrafts = options.cycles?.length ? await buildCycleDrafts(quote, options.cycles) : [];
+  const plannedSlots: ScheduleSlot[] = cycleDrafts.flatMap((draft) => draft.planned);
+  const conflictWarnings: InstructorConflict[] = plannedSlots.length > 0
+    ? await checkInstructorConflicts(plannedSlots, options.allowConflicts)
+    : [];
+
+  const plannedDates = plannedSlots.map((slot) => slot.scheduledDate.getTime());
+  const cycleStartDates = cycleDrafts.map((draft) => draft.data.startDate.getTime());
+
   const result = await prisma.$transaction(async (tx) => {
     const totalMeetings = quote.items.reduce((sum, item) => sum + item.groups * item.meetingsPerGroup, 0);
     const finalAmount = Number(quote.finalAmount);
@@ -614,8 +772,10 @@ export async function convertToOrder(
         branchId: quote.branchId!,
         orderName: quote.institutionName,
         orderDate: new Date(),
-        startDate: new Date(),
-        endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+        startDate: cycleStartDates.length > 0 ? new Date(Math.min(...cycleStartDates)) : new Date(),
+        endDate: plannedDates.length > 0
+          ? new Date(Math.max(...plannedDates))
+          : new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
         pricePerMeeting: avgPricePerMeeting,
         estimatedMeetings: totalMeetings,
         estimatedTotal: finalAmount,
@@ -629,6 +789,13 @@ export async function convertToOrder(
       },
     });
 
+    const cycles = [];
+    for (const draft of cycleDrafts) {
+      cycles.push(await tx.cycle.create({
+        data: { ...draft.data, institutionalOrderId: order.id },
+      }));
+    }
+
     const updatedQuote = await tx.quote.update({
       where: { id: quoteId },
       data: {
@@ -642,8 +809,42 @@ export async function convertToOrder(
       },
     });
 
-    return { quote: updatedQuote, order };
+    return { quote: updatedQuote, order, cycles };
   });
 
-  return result;
+  // Meetings are generated outside the transaction (holiday lookups, curriculum assignment);
+  // the schedule was already checked as a whole above.
+  const setupFailures: ConvertSetupFailure[] = [];
+  for (const cycle of result.cycles) {
+    try {
+      await generateMeetingsForCycle(cycle.id, undefined, undefined, { allowConflicts: true });
+    } catch (error) {
+      console.error(`[Quotes] Meetings not generated for cycle ${cycle.id} of order ${result.order.id}:`, error);
+      setupFailures.push({
+        step: 'meetings',
+        cycleId: cycle.id,
+        retry: `/api/cycles/${cycle.id}/generate-meetings`,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    publishDomainEvent('cycle.created', cycle);
+  }
+
+  // The plan is projected from the meetings, so it waits until every cycle has them
+  let billingPlan: Awaited<ReturnType<typeof buildOrderBillingPlan>> = [];
+  if (result.cycles.length > 0) {
+    const retry = `/api/institutional-orders/${result.order.id}/billing-plan/rebuild`;
+    if (setupFailures.length > 0) {
+      setupFailures.push({ step: 'billing_plan', retry, error: 'Waiting for the missing meetings to be generated' });
+    } else {
+      try {
+        billingPlan = await buildOrderBillingPlan(result.order.id);
+      } catch (error) {
+        console.error(`[Quotes] Billing plan not built for order ${result.order.id}:`, error);
+        setupFailures.push({ step: 'billing_plan', retry, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return { ...result, billingPlan, conflictWarnings, setupFailures };
 }
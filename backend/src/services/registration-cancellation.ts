@@ -0,0 +1,86 @@
+import { prisma } from '../utils/prisma.js';
+import { deleteMeeting as deleteZoomMeeting } from './zoom.js';
+
+/**
+ * Check if a cycle has no active registrations left after a cancellation.
+ * If so: cancel the cycle, cancel future meetings, delete their Zoom links.
+ */
+export async function handleCycleCascadeOnCancellation(cycleId: string): Promise<void> {
+  const activeCount = await prisma.registration.count({
+    where: {
+      cycleId,
+      status: { in: ['registered', 'active'] },
+    },
+  });
+
+  if (activeCount > 0) return;
+
+  // Families waiting for a seat keep the cycle alive
+  const waitlisted = await prisma.waitlistEntry.count({
+    where: { cycleId, status: { in: ['waiting', 'offered'] } },
+  });
+  if (waitlisted > 0) return;
+
+  console.log(`[CANCEL CASCADE] Cycle ${cycleId} has 0 active registrations — cancelling cycle`);
+
+  // Cancel the cycle and clear its Zoom data
+  const cycle = await prisma.cycle.findUnique({ where: { id: cycleId }, select: { zoomMeetingId: true } });
+  await prisma.cycle.update({
+    where: { id: cycleId },
+    data: {
+      status: 'cancelled',
+      zoomMeetingId: null,
+      zoomJoinUrl: null,
+      zoomHostEmail: null,
+      zoomHostKey: null,
+      zoomPassword: null,
+    },
+  });
+
+  // Delete cycle-level Zoom meeting
+  if (cycle?.zoomMeetingId) {
+    try {
+      await deleteZoomMeeting(cycle.zoomMeetingId);
+      console.log(`[CANCEL CASCADE] Deleted cycle Zoom meeting ${cycle.zoomMeetingId}`);
+    } catch (err) {
+      console.error(`[CANCEL CASCADE] Failed to delete cycle Zoom:`, err);
+    }
+  }
+
+  // Get future scheduled meetings
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const futureMeetings = await prisma.meeting.findMany({
+    where: {
+      cycleId,
+      status: 'scheduled',
+      scheduledDate: { gte: today },
+    },
+  });
+
+  // Cancel future meetings and delete their Zoom
+  for (const meeting of futureMeetings) {
+    await prisma.meeting.update({
+      where: { id: meeting.id },
+      data: {
+        status: 'cancelled',
+        zoomMeetingId: null,
+        zoomJoinUrl: null,
+        zoomStartUrl: null,
+      },
+    });
+
+    // Delete Zoom meeting if exists
+    if (meeting.zoomMeetingId) {
+      try {
+        await deleteZoomMeeting(meeting.zoomMeetingId);
+        console.log(`[CANCEL CASCADE] Deleted Zoom meeting ${meeting.zoomMeetingId}`);
+      } catch (err) {
+        console.error(`[CANCEL CASCADE] Failed to delete Zoom ${meeting.zoomMeetingId}:`, err);
+      }
+    }
+  }
+
+  console.log(`[CANCEL CASCADE] Cancelled ${futureMeetings.length} future meetings for cycle ${cycleId}`);
+}
@@ -12,11 +12,12 @@
 import { prisma } from '../utils/prisma.js';
 import { zoomService, getIsraelOffset } from './zoom.js';
 import { googleMeetService } from './google-meet.js';
-import { isHoliday, isShabbat } from '../utils/holidays.js';
+import { getClosedDays, isShabbat } from '../utils/holidays.js';
 import { sendWhatsAppMessage } from './notifications.js';
 import { calculateInstructorPayment } from './instructor-payment.js';
 import { meetingRevenueForCycle } from '../utils/revenue.js';
 import { syncCycleEndDate } from '../utils/cycle-sync.js';
+import { notifyCycleParents } from './parent-notifications.js';
 
 const ADMIN_PHONE = process.env.ADMIN_PHONE || '0528746137';
 
@@ -41,7 +42,7 @@ export async function addReplacementMeeting(postponedMeetingId: string, _actorUs
   const postponed = await prisma.meeting.findUnique({
     where: { id: postponedMeetingId },
     include: {
-      cycle: true,
+      cycle: { include: { branch: { select: { type: true } } } },
     },
   });
 
@@ -65,10 +66,15 @@ export async function addReplacementMeeting(postponedMeetingId: string, _actorUs
   let newDate = new Date(baseDate);
   newDate.setDate(newDate.getDate() + 7);
 
+  // Holidays, organization closures and the branch's blackout days, over the whole lookahead window
+  const lookaheadEnd = new Date(newDate);
+  lookaheadEnd.setDate(lookaheadEnd.getDate() + 52 * 7);
+  const closedDays = await getClosedDays(newDate, lookaheadEnd, cycle.branch?.type, cycle.branchId);
+
   // Keep skipping weeks until we land on a non-holiday, non-Shabbat date
   let attempts = 0;
   while (attempts < 52) { // max 52 weeks = 1 year lookahead
-    const holiday = await isHoliday(newDate);
+    const holiday = closedDays.has(newDate.toISOString().split('T')[0]);
     const shabbat = isShabbat(newDate);
     if (!holiday && !shabbat) break;
     console.log(`[ReplacementMeeting] ${newDate.toISOString().split('T')[0]} is a holiday/Shabbat — skipping to next week`);
@@ -95,7 +101,7 @@ export async function addReplacementMeeting(postponedMeetingId: string, _actorUs
   const revenue = meetingRevenueForCycle({
     ...cycle,
     registrations: cycleWithReg?.registrations ?? [],
-  });
+  }, newDate);
 
   const instructorPayment = calculateInstructorPayment(cycle, instructor, {
     instructorId,
@@ -134,6 +140,14 @@ export async function addReplacementMeeting(postponedMeetingId: string, _actorUs
   // The replacement always lands at the end of the cycle — extend the cycle's end date.
   await syncCycleEndDate(cycle.id);
 
+  await notifyCycleParents(cycle.id, {
+    type: 'replacement_scheduled',
+    title: 'נקבע שיעור חלופי',
+    body: `במקום השיעור ב${cycle.name} מ-${postponed.scheduledDate.toLocaleDateString('he-IL', { timeZone: 'UTC' })} ייערך שיעור חלופי ב-${newDate.toLocaleDateString('he-IL', { timeZone: 'UTC' })}`,
+    meetingId: replacement.id,
+    data: { postponedMeetingId, scheduledDate: newDate.toISOString().split('T')[0] },
+  });
+
   // Note: totalMeetings and remainingMeetings are NOT modified here.
   // When a meeting is postponed, remainingMeetings is not decremented in the existing code,
   // so we balance by also not incrementing when adding the replacement.
@@ -0,0 +1,106 @@
+/**
+ * Messenger / Instagram DMs
+ *
+ * Both channels keep their threads in raw SQL tables (messenger_* / instagram_*) keyed by the
+ * page-scoped sender id. Sending and storing lives here so the channel routes and the unified
+ * inbox reply the same way.
+ */
+
+import axios from 'axios';
+import { prisma } from '../utils/prisma.js';
+
+export type DmChannel = 'messenger' | 'instagram';
+
+const GRAPH_URL = 'https://graph.facebook.com/v19.0';
+
+function pageAccessToken(channel: DmChannel) {
+  return (channel === 'messenger'
+    ? process.env.MESSENGER_PAGE_ACCESS_TOKEN
+    : process.env.INSTAGRAM_PAGE_ACCESS_TOKEN) || '';
+}
+
+export function instagramUserId() {
+  return process.env.INSTAGRAM_USER_ID || '17841413820029937';
+}
+
+export function isDmChannelConfigured(channel: DmChannel) {
+  return !!pageAccessToken(channel);
+}
+
+/** Send a text DM; returns the platform message id, or null when it could not be sent. */
+export async function sendDmText(channel: DmChannel, recipientId: string, text: string): Promise<string | null> {
+  const label = channel === 'messenger' ? '[Messenger]' : '[Instagram]';
+  const token = pageAccessToken(channel);
+  if (!token) {
+    console.warn(`${label} No PAGE_ACCESS_TOKEN configured`);
+    return null;
+  }
+  const sender = channel === 'messenger' ? 'me' : instagramUserId();
+  try {
+    const res = await axios.post(
+      `${GRAPH_URL}/${sender}/messages?access_token=${token}`,
+      { recipient: { id: recipientId }, message: { text } }
+    );
+    return res.data?.message_id || null;
+  } catch (err: any) {
+    console.error(`${label} Send error:`, err.response?.data || err.message);
+    return null;
+  }
+}
+
+export async function saveDmMessage(
+  channel: DmChannel,
+  convId: string,
+  direction: 'inbound' | 'outbound',
+  content: string,
+  msgId?: string,
+  isAi = false,
+) {
+  const rows = channel === 'messenger'
+    ? await prisma.$queryRaw<any[]>`
+        INSERT INTO messenger_messages (conversation_id, direction, content, msg_id, is_ai_generated)
+        VALUES (${convId}::uuid, ${direction}, ${content}, ${msgId || null}, ${isAi})
+        ON CONFLICT (msg_id) DO NOTHING
+        RETURNING *
+      `
+    : await prisma.$queryRaw<any[]>`
+        INSERT INTO instagram_messages (conversation_id, direction, content, msg_id, is_ai_generated)
+        VALUES (${convId}::uuid, ${direction}, ${content}, ${msgId || null}, ${isAi})
+        ON CONFLICT (msg_id) DO NOTHING
+        RETURNING *
+      `;
+  return rows[0];
+}
+
+export async function touchDmConversation(channel: DmChannel, convId: string, preview: string) {
+  if (channel === 'messenger') {
+    await prisma.$queryRaw`
+      UPDATE messenger_conversations SET last_message = ${preview}, last_message_at = NOW(), updated_at = NOW()
+      WHERE id = ${convId}::uuid
+    `;
+  } else {
+    await prisma.$queryRaw`
+      UPDATE instagram_conversations SET last_message = ${preview}, last_message_at = NOW(), updated_at = NOW()
+      WHERE id = ${convId}::uuid
+    `;
+  }
+}
+
+/**
+ * Staff reply on an existing thread. Returns null when the thread doesn't exist and throws when
+ * the page token is configured but the platform rejected the message.
+ */
+export async function sendDmReply(channel: DmChannel, convId: string, text: string) {
+  const rows = channel === 'messenger'
+    ? await prisma.$queryRaw<{ recipient: string }[]>`SELECT psid AS recipient FROM messenger_conversations WHERE id = ${convId}::uuid`
+    : await prisma.$queryRaw<{ recipient: string }[]>`SELECT igsid AS recipient FROM instagram_conversations WHERE id = ${convId}::uuid`;
+  if (!rows[0]) return null;
+
+  const msgId = await sendDmText(channel, rows[0].recipient, text);
+  if (!msgId && isDmChannelConfigured(channel)) {
+    throw new Error(`Failed to send ${channel} message`);
+  }
+  const msg = await saveDmMessage(channel, convId, 'outbound', text, msgId || undefined, false);
+  await touchDmConversation(channel, convId, text);
+  return msg || { ok: true };
+}
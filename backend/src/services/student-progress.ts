@@ -0,0 +1,583 @@
+/**
+ * Student Progress & Report Cards
+ *
+ * Per-student learning record on top of attendance:
+ * - Each course defines skills (rated 1–5) and milestones (achieved / not yet) — CourseSkill.
+ * - After a meeting the instructor rates the students of the cycle on those skills — StudentSkillRating.
+ * - getStudentProgress() merges attendance, meeting topics and ratings into a timeline per cycle.
+ * - When a cycle completes, handleCycleCompletion calls generateCycleReportCards(): each student
+ *   who finished gets a Hebrew RTL report card, rendered to PDF through Google Docs, kept as a
+ *   FileAttachment on the student, emailed to the parent and announced in the parent app.
+ * A report card is still recorded (with its summary) when the PDF can't be rendered, so the
+ * parent app and the CRM always have something to show.
+ */
+
+import type { AttendanceStatus, CourseSkill, CourseSkillKind, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { sendEmail } from './email/sender.js';
+import { renderHtmlToPdf } from './google-drive.js';
+import { deleteAttachment, storeAttachment } from './file-attachments.js';
+import { createParentNotification } from './parent-notifications.js';
+
+export const SKILL_SCORE_MAX = 5;
+
+/** Registrations that take part in meetings and get rated. */
+const RATED_REGISTRATION_STATUSES = ['registered', 'active', 'completed'] as const;
+
+export interface SkillRatingInput {
+  studentId: string;
+  skillId: string;
+  /** 1–5 for skills; 1 (achieved) or 0 (clear) for milestones. */
+  score: number;
+  note?: string | null;
+}
+
+export interface SkillSummary {
+  skillId: string;
+  name: string;
+  kind: CourseSkillKind;
+  ratings: number;
+  firstScore: number | null;
+  latestScore: number | null;
+  average: number | null;
+  achievedAt: string | null;
+}
+
+export interface ReportCardSummary {
+  studentName: string;
+  cycleName: string;
+  courseName: string;
+  instructorName: string;
+  branchName: string;
+  startDate: string;
+  endDate: string;
+  attendance: { present: number; late: number; absent: number; total: number; rate: number };
+  skills: SkillSummary[];
+  milestones: SkillSummary[];
+  notes: string[];
+}
+
+// ===================
+// Course skills
+// ===================
+
+export function listCourseSkills(courseId: string, includeInactive = false) {
+  return prisma.courseSkill.findMany({
+    where: { courseId, ...(!includeInactive && { isActive: true }) },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+// ===================
+// Meeting ratings
+// ===================
+
+async function loadMeetingWithCycle(meetingId: string) {
+  const meeting = await prisma.meeting.findFirst({
+    where: { id: meetingId, deletedAt: null },
+    select: {
+      id: true,
+      cycleId: true,
+      instructorId: true,
+      scheduledDate: true,
+      topic: true,
+      status: true,
+      cycle: { select: { id: true, name: true, courseId: true } },
+    },
+  });
+  if (!meeting) throw new AppError(404, 'Meeting not found');
+  return meeting;
+}
+
+/** Instructors may only rate students in their own meetings. */
+export async function assertCanRateMeeting(meetingId: string, user: { userId: string; role: string }) {
+  const meeting = await loadMeetingWithCycle(meetingId);
+  if (user.role === 'instructor') {
+    const instructor = await prisma.instructor.findUnique({ where: { userId: user.userId }, select: { id: true } });
+    if (!instructor || instructor.id !== meeting.instructorId) {
+      throw new AppError(403, 'ניתן לדרג רק תלמידים במפגשים שלך');
+    }
+  }
+  return meeting;
+}
+
+/** Instructors may only see the progress of students in cycles they teach (or substitute in). */
+export async function assertCanViewStudentProgress(studentId: string, user: { userId: string; role: string }) {
+  if (user.role !== 'instructor') return;
+  const instructor = await prisma.instructor.findUnique({ where: { userId: user.userId }, select: { id: true } });
+  const registration = instructor && await prisma.registration.findFirst({
+    where: {
+      studentId,
+      deletedAt: null,
+      cycle: {
+        OR: [
+          { instructorId: instructor.id },
+          { meetings: { some: { instructorId: instructor.id, deletedAt: null } } },
+        ],
+      },
+    },
+    select: { id: true },
+  });
+  if (!registration) throw new AppError(403, 'ניתן לצפות רק בתלמידים במחזורים שלך');
+}
+
+/** Everything the rating form needs: the course's skills, the cycle's students and saved ratings. */
+export async function getMeetingRatingSheet(meetingId: string) {
+  const meeting = await loadMeetingWithCycle(meetingId);
+
+  const [skills, registrations, attendance, ratings] = await Promise.all([
+    listCourseSkills(meeting.cycle.courseId),
+    prisma.registration.findMany({
+      where: { cycleId: meeting.cycleId, status: { in: [...RATED_REGISTRATION_STATUSES] } },
+      select: { student: { select: { id: true, name: true } } },
+      orderBy: { student: { name: 'asc' } },
+    }),
+    prisma.attendance.findMany({
+      where: { meetingId },
+      select: { studentId: true, registration: { select: { studentId: true } }, status: true },
+    }),
+    prisma.studentSkillRating.findMany({
+      where: { meetingId },
+      select: { studentId: true, skillId: true, score: true, note: true },
+    }),
+  ]);
+
+  const attendanceByStudent = new Map<string, AttendanceStatus>();
+  for (const record of attendance) {
+    const studentId = record.studentId ?? record.registration?.studentId;
+    if (studentId) attendanceByStudent.set(studentId, record.status);
+  }
+
+  return {
+    meeting: {
+      id: meeting.id,
+      cycleId: meeting.cycleId,
+      cycleName: meeting.cycle.name,
+      scheduledDate: meeting.scheduledDate,
+      topic: meeting.topic,
+      status: meeting.status,
+    },
+    skills,
+    students: registrations.map(({ student }) => ({
+      id: student.id,
+      name: student.name,
+      attendance: attendanceByStudent.get(student.id) ?? null,
+    })),
+    ratings,
+  };
+}
+
+/**
+ * Save the instructor's ratings for a meeting. Scores are upserted per student + skill;
+ * a milestone scored 0 clears its rating.
+ */
+export async function saveMeetingRatings(meetingId: string, inputs: SkillRatingInput[], ratedById: string | null) {
+  const meeting = await loadMeetingWithCycle(meetingId);
+
+  const [skills, registrations] = await Promise.all([
+    listCourseSkills(meeting.cycle.courseId),
+    prisma.registration.findMany({
+      where: { cycleId: meeting.cycleId, status: { in: [...RATED_REGISTRATION_STATUSES] } },
+      select: { studentId: true },
+    }),
+  ]);
+  const skillById = new Map(skills.map(skill => [skill.id, skill]));
+  const studentIds = new Set(registrations.map(r => r.studentId));
+
+  for (const input of inputs) {
+    const skill = skillById.get(input.skillId);
+    if (!skill) throw new AppError(400, 'המיומנות אינה שייכת לקורס של המחזור');
+    if (!studentIds.has(input.studentId)) throw new AppError(400, 'התלמיד אינו רשום למחזור');
+    const max = skill.kind === 'milestone' ? 1 : SKILL_SCORE_MAX;
+    const min = skill.kind === 'milestone' ? 0 : 1;
+    if (!Number.isInteger(input.score) || input.score < min || input.score > max) {
+      throw new AppError(400, `ציון לא תקין עבור "${skill.name}"`);
+    }
+  }
+
+  await prisma.$transaction(inputs.map(input => {
+    const key = { meetingId, studentId: input.studentId, skillId: input.skillId };
+    if (skillById.get(input.skillId)!.kind === 'milestone' && input.score === 0) {
+      return prisma.studentSkillRating.deleteMany({ where: key });
+    }
+    return prisma.studentSkillRating.upsert({
+      where: { meetingId_studentId_skillId: key },
+      create: {
+        meetingId,
+        studentId: input.studentId,
+        skillId: input.skillId,
+        score: input.score,
+        note: input.note || null,
+        ratedById,
+      },
+      update: { score: input.score, note: input.note || null, ratedById },
+    });
+  }));
+
+  return prisma.studentSkillRating.findMany({
+    where: { meetingId },
+    select: { studentId: true, skillId: true, score: true, note: true },
+  });
+}
+
+// ===================
+// Progress timeline
+// ===================
+
+type RatingWithMeeting = { skillId: string; score: number; meeting: { scheduledDate: Date } };
+
+/**
+ * Roll ratings up per skill, in chronological order. Milestones count as achieved from the
+ * first meeting they were marked in.
+ */
+export function summarizeSkills(skills: Pick<CourseSkill, 'id' | 'name' | 'kind'>[], ratings: RatingWithMeeting[]): SkillSummary[] {
+  return skills.map(skill => {
+    const scores = ratings
+      .filter(r => r.skillId === skill.id)
+      .sort((a, b) => a.meeting.scheduledDate.getTime() - b.meeting.scheduledDate.getTime());
+    const total = scores.reduce((sum, r) => sum + r.score, 0);
+    const achieved = skill.kind === 'milestone' ? scores.find(r => r.score > 0) : undefined;
+    return {
+      skillId: skill.id,
+      name: skill.name,
+      kind: skill.kind,
+      ratings: scores.length,
+      firstScore: scores[0]?.score ?? null,
+      latestScore: scores.at(-1)?.score ?? null,
+      average: scores.length > 0 ? Math.round((total / scores.length) * 10) / 10 : null,
+      achievedAt: achieved ? achieved.meeting.scheduledDate.toISOString().split('T')[0] : null,
+    };
+  });
+}
+
+/** Timeline of a student's cycles: per meeting — date, topic, attendance and ratings. */
+export async function getStudentProgress(studentId: string) {
+  const student = await prisma.student.findFirst({
+    where: { id: studentId, deletedAt: null },
+    select: { id: true, name: true },
+  });
+  if (!student) throw new AppError(404, 'Student not found');
+
+  const registrations = await prisma.registration.findMany({
+    where: { studentId },
+    select: {
+      id: true,
+      status: true,
+      cycle: {
+        select: {
+          id: true,
+          name: true,
+          startDate: true,
+          endDate: true,
+          status: true,
+          course: { select: { id: true, name: true } },
+          meetings: {
+            where: { deletedAt: null, status: 'completed' },
+            select: { id: true, scheduledDate: true, topic: true },
+            orderBy: { scheduledDate: 'asc' },
+          },
+        },
+      },
+      reportCard: { select: { id: true, fileAttachmentId: true, generatedAt: true, sentAt: true } },
+    },
+    orderBy: { cycle: { startDate: 'desc' } },
+  });
+
+  const cycleIds = registrations.map(r => r.cycle.id);
+  const courseIds = [...new Set(registrations.map(r => r.cycle.course.id))];
+  const [skills, ratings, attendance] = await Promise.all([
+    prisma.courseSkill.findMany({
+      where: { courseId: { in: courseIds }, isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.studentSkillRating.findMany({
+      where: { studentId, meeting: { cycleId: { in: cycleIds } } },
+      select: {
+        meetingId: true,
+        skillId: true,
+        score: true,
+        note: true,
+        meeting: { select: { cycleId: true, scheduledDate: true } },
+      },
+    }),
+    prisma.attendance.findMany({
+      where: {
+        meeting: { cycleId: { in: cycleIds } },
+        OR: [{ studentId }, { registration: { studentId } }],
+      },
+      select: { meetingId: true, status: true, notes: true },
+    }),
+  ]);
+
+  const attendanceByMeeting = new Map(attendance.map(a => [a.meetingId, a]));
+
+  return {
+    student,
+    cycles: registrations.map(reg => {
+      const courseSkills = skills.filter(s => s.courseId === reg.cycle.course.id);
+      const cycleRatings = ratings.filter(r => r.meeting.cycleId === reg.cycle.id);
+      return {
+        registrationId: reg.id,
+        registrationStatus: reg.status,
+        cycle: {
+          id: reg.cycle.id,
+          name: reg.cycle.name,
+          startDate: reg.cycle.startDate,
+          endDate: reg.cycle.endDate,
+          status: reg.cycle.status,
+        },
+        course: reg.cycle.course,
+        skills: summarizeSkills(courseSkills, cycleRatings),
+        timeline: reg.cycle.meetings.map(meeting => ({
+          meetingId: meeting.id,
+          date: meeting.scheduledDate,
+          topic: meeting.topic,
+          attendance: attendanceByMeeting.get(meeting.id)?.status ?? null,
+          ratings: cycleRatings
+            .filter(r => r.meetingId === meeting.id)
+            .map(r => ({ skillId: r.skillId, score: r.score, note: r.note })),
+        })),
+        reportCard: reg.reportCard,
+      };
+    }),
+  };
+}
+
+// ===================
+// Report cards
+// ===================
+
+const dateLabel = (date: Date) => date.toLocaleDateString('he-IL', { timeZone: 'Asia/Jerusalem' });
+
+export async function buildReportCardSummary(registrationId: string): Promise<ReportCardSummary & { studentId: string; cycleId: string; customerId: string }> {
+  const registration = await prisma.registration.findUnique({
+    where: { id: registrationId },
+    select: {
+      studentId: true,
+      cycleId: true,
+      student: { select: { name: true, customerId: true } },
+      cycle: {
+        select: {
+          name: true,
+          startDate: true,
+          endDate: true,
+          course: { select: { id: true, name: true } },
+          instructor: { select: { name: true } },
+          branch: { select: { name: true } },
+          meetings: { where: { deletedAt: null, status: 'completed' }, select: { id: true } },
+        },
+      },
+    },
+  });
+  if (!registration) throw new AppError(404, 'Registration not found');
+
+  const meetingIds = registration.cycle.meetings.map(m => m.id);
+  const [skills, ratings, attendance] = await Promise.all([
+    listCourseSkills(registration.cycle.course.id),
+    prisma.studentSkillRating.findMany({
+      where: { studentId: registration.studentId, meetingId: { in: meetingIds } },
+      select: { skillId: true, score: true, note: true, meeting: { select: { scheduledDate: true } } },
+    }),
+    prisma.attendance.findMany({
+      where: {
+        meetingId: { in: meetingIds },
+        OR: [{ registrationId }, { studentId: registration.studentId }],
+      },
+      select: { status: true },
+    }),
+  ]);
+
+  const present = attendance.filter(a => a.status === 'present').length;
+  const late = attendance.filter(a => a.status === 'late').length;
+  const absent = attendance.filter(a => a.status === 'absent').length;
+  const total = meetingIds.length;
+  const summaries = summarizeSkills(skills, ratings);
+  const notes = ratings
+    .filter(r => r.note?.trim())
+    .sort((a, b) => a.meeting.scheduledDate.getTime() - b.meeting.scheduledDate.getTime())
+    .map(r => r.note!.trim());
+
+  return {
+    studentId: registration.studentId,
+    cycleId: registration.cycleId,
+    customerId: registration.student.customerId,
+    studentName: registration.student.name,
+    cycleName: registration.cycle.name,
+    courseName: registration.cycle.course.name,
+    instructorName: registration.cycle.instructor.name,
+    branchName: registration.cycle.branch.name,
+    startDate: dateLabel(registration.cycle.startDate),
+    endDate: dateLabel(registration.cycle.endDate),
+    attendance: {
+      present,
+      late,
+      absent,
+      total,
+      rate: total > 0 ? Math.round(((present + late) / total) * 100) : 0,
+    },
+    skills: summaries.filter(s => s.kind === 'skill'),
+    milestones: summaries.filter(s => s.kind === 'milestone'),
+    notes: [...new Set(notes)].slice(-5),
+  };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const stars = (score: number | null) =>
+  score === null ? '—' : '★'.repeat(Math.round(score)) + '☆'.repeat(SKILL_SCORE_MAX - Math.round(score));
+
+/** Hebrew RTL report card; the same HTML is the PDF source and the email body. */
+export function renderReportCardHtml(summary: ReportCardSummary): string {
+  const cell = 'padding: 8px; border: 1px solid #e5e7eb; text-align: right;';
+  const skillRows = summary.skills.map(s => `
+        <tr>
+          <td style="${cell}">${escapeHtml(s.name)}</td>
+          <td style="${cell} color: #f59e0b;">${stars(s.latestScore)}</td>
+          <td style="${cell}">${s.firstScore !== null && s.latestScore !== null && s.latestScore > s.firstScore ? `שיפור מ-${s.firstScore} ל-${s.latestScore}` : ''}</td>
+        </tr>`).join('');
+  const milestoneRows = summary.milestones.map(m => `
+        <li>${m.achievedAt ? '✅' : '⬜'} ${escapeHtml(m.name)}${m.achievedAt ? ` <span style="color: #6b7280;">(${dateLabel(new Date(m.achievedAt))})</span>` : ''}</li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="he" dir="rtl">
+<head><meta charset="utf-8"><title>תעודת סיום — ${escapeHtml(summary.studentName)}</title></head>
+<body dir="rtl" style="font-family: Arial, sans-serif; direction: rtl; text-align: right; color: #111827;">
+  <h1 style="color: #2563eb; text-align: center;">🎓 תעודת סיום</h1>
+  <h2 style="text-align: center;">${escapeHtml(summary.studentName)}</h2>
+  <p style="text-align: center;">
+    סיים/ה בהצלחה את הקורס <strong>${escapeHtml(summary.courseName)}</strong><br>
+    ${escapeHtml(summary.cycleName)} · ${escapeHtml(summary.branchName)} · ${summary.startDate} – ${summary.endDate}
+  </p>
+
+  <h3>נוכחות</h3>
+  <p>השתתפות ב-${summary.attendance.present + summary.attendance.late} מתוך ${summary.attendance.total} מפגשים (${summary.attendance.rate}%)</p>
+${summary.skills.length > 0 ? `
+  <h3>מיומנויות</h3>
+  <table style="border-collapse: collapse; width: 100%;" dir="rtl">
+    <tr style="background: #f3f4f6;"><th style="${cell}">מיומנות</th><th style="${cell}">רמה</th><th style="${cell}">התקדמות</th></tr>${skillRows}
+  </table>` : ''}
+${summary.milestones.length > 0 ? `
+  <h3>אבני דרך</h3>
+  <ul style="list-style: none; padding: 0;">${milestoneRows}
+  </ul>` : ''}
+${summary.notes.length > 0 ? `
+  <h3>מהמדריך/ה</h3>
+  ${summary.notes.map(note => `<p>“${escapeHtml(note)}”</p>`).join('\n  ')}` : ''}
+
+  <p style="margin-top: 32px;">המדריך/ה: ${escapeHtml(summary.instructorName)}</p>
+  <p style="color: #6b7280; font-size: 12px;">HaiTech · ${dateLabel(new Date())}</p>
+</body>
+</html>`;
+}
+
+/**
+ * Build, render, store and send the report card for one registration. Re-running replaces the
+ * stored summary and PDF (e.g. after late ratings) and deletes the superseded PDF; sending is
+ * skipped with `send: false`.
+ */
+export async function generateReportCard(registrationId: string, options: { send?: boolean; generatedById?: string | null } = {}) {
+  const { studentId, cycleId, customerId, ...summary } = await buildReportCardSummary(registrationId);
+  const html = renderReportCardHtml(summary);
+  const fileName = `תעודת סיום - ${summary.studentName} - ${summary.cycleName}.pdf`.replace(/[\\/:*?"<>|]/g, '-');
+
+  let pdf: Buffer | null = null;
+  let fileAttachmentId: string | null = null;
+  try {
+    pdf = await renderHtmlToPdf(fileName, html);
+    const attachment = await storeAttachment({
+      entityType: 'student',
+      entityId: studentId,
+      originalName: fileName,
+      bytes: pdf,
+      label: 'תעודה',
+      uploadedById: options.generatedById ?? null,
+    });
+    fileAttachmentId = attachment.id;
+  } catch (error) {
+    console.error(`[ReportCards] PDF not stored for registration ${registrationId}:`, error);
+  }
+
+  const previous = await prisma.studentReportCard.findUnique({
+    where: { registrationId },
+    select: { fileAttachmentId: true },
+  });
+  const reportCard = await prisma.studentReportCard.upsert({
+    where: { registrationId },
+    create: { registrationId, studentId, cycleId, summary: summary as unknown as Prisma.InputJsonValue, fileAttachmentId },
+    update: {
+      summary: summary as unknown as Prisma.InputJsonValue,
+      fileAttachmentId: fileAttachmentId ?? previous?.fileAttachmentId ?? null,
+      generatedAt: new Date(),
+    },
+  });
+
+  if (fileAttachmentId && previous?.fileAttachmentId && previous.fileAttachmentId !== fileAttachmentId) {
+    const stale = await prisma.fileAttachment.findUnique({
+      where: { id: previous.fileAttachmentId },
+      select: { id: true, storage: true, filePath: true },
+    });
+    if (stale) {
+      await deleteAttachment(stale).catch((error) =>
+        console.error(`[ReportCards] Previous PDF not deleted for registration ${registrationId}:`, error));
+    }
+  }
+
+  if (options.send === false) return reportCard;
+
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: { email: true, emailUnsubscribed: true },
+  });
+  let sentTo: string | null = null;
+  if (customer?.email && !customer.emailUnsubscribed) {
+    const result = await sendEmail({
+      to: customer.email,
+      subject: `🎓 תעודת סיום — ${summary.studentName} · ${summary.courseName}`,
+      html,
+      ...(pdf && { attachments: [{ filename: fileName, content: pdf, contentType: 'application/pdf' }] }),
+    });
+    if (result.success) sentTo = customer.email;
+  }
+
+  await createParentNotification(customerId, {
+    type: 'report_card',
+    title: 'תעודת סיום מוכנה',
+    body: `תעודת הסיום של ${summary.studentName} בקורס ${summary.courseName} זמינה לצפייה`,
+    studentId,
+    cycleId,
+    data: { reportCardId: reportCard.id },
+  });
+
+  return prisma.studentReportCard.update({
+    where: { id: reportCard.id },
+    data: { sentAt: new Date(), sentTo },
+  });
+}
+
+/** Report cards for everyone who finished the cycle. One failure doesn't stop the others. */
+export async function generateCycleReportCards(cycleId: string, options: { send?: boolean; generatedById?: string | null } = {}) {
+  const registrations = await prisma.registration.findMany({
+    where: { cycleId, status: 'completed', deletedAt: null },
+    select: { id: true },
+  });
+
+  let generated = 0;
+  let failed = 0;
+  for (const registration of registrations) {
+    try {
+      await generateReportCard(registration.id, options);
+      generated++;
+    } catch (error) {
+      failed++;
+      console.error(`[ReportCards] Failed for registration ${registration.id}:`, error);
+    }
+  }
+  return { generated, failed };
+}
@@ -0,0 +1,329 @@
+/**
+ * Instructor availability + substitute finder.
+ *
+ * Instructors declare weekly availability slots and specific unavailable dates. When an
+ * instructor asks for a replacement (MeetingChangeRequest type "replacement"), ops can ask
+ * for a ranked list of active instructors who could take the meeting instead of phoning
+ * around, and reassign it on approval.
+ *
+ * Ranking signals (see SCORE): declared availability in the slot, existing meetings at the
+ * same time, past cycles of the same course, the cost of the meeting at the candidate's
+ * rate for the activity type, and (for frontal meetings) the candidate's city vs. the
+ * cycle's location.
+ */
+
+import type { DayOfWeek } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { calculateInstructorPayment, recalculateDailyInstructorPaymentsForMeeting } from './instructor-payment.js';
+import { checkAndSendNegativeProfitAlert } from './negative-profit-alert.js';
+import { sendWhatsAppMessage } from './notifications.js';
+import { publishMeetingUpdated } from './domain-events.js';
+import { checkInstructorConflicts } from './instructor-conflicts.js';
+import type { InstructorAvailabilityInput, InstructorUnavailableDateInput } from '../types/schemas.js';
+
+const DAYS: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const SCORE = {
+  available: 40,
+  availabilityUnknown: 10, // declared no slots at all
+  outsideAvailability: -30,
+  unavailableDate: -100,
+  conflict: -100,
+  perPastCycle: 10,
+  maxFamiliarity: 30,
+  sameCity: 20,
+  missingRate: -10,
+  maxRateBonus: 10,
+  maxRatePenalty: -20,
+};
+
+// Meetings in these statuses don't occupy the instructor's time
+const NON_BLOCKING_STATUSES = ['cancelled', 'postponed'] as const;
+
+export type SubstituteAvailability = 'available' | 'outside_hours' | 'unavailable_date' | 'unknown';
+
+export type SubstituteCandidate = {
+  instructorId: string;
+  name: string;
+  phone: string;
+  city: string | null;
+  score: number;
+  availability: SubstituteAvailability;
+  unavailableReason: string | null;
+  conflicts: { meetingId: string; cycleName: string; startTime: string; endTime: string }[];
+  pastCyclesOfCourse: number;
+  estimatedPayment: number;
+  sameCity: boolean | null;
+};
+
+const toTime = (hhmm: string) => new Date(`1970-01-01T${hhmm}:00Z`);
+
+const minutesOf = (value: Date) => value.getUTCHours() * 60 + value.getUTCMinutes();
+
+const formatTime = (value: Date) => value.toISOString().substring(11, 16);
+
+const normalizeCity = (value: string | null | undefined) => (value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+export async function getInstructorAvailability(instructorId: string) {
+  const today = new Date(new Date().toISOString().split('T')[0]);
+  const [slots, unavailableDates] = await Promise.all([
+    prisma.instructorAvailability.findMany({
+      where: { instructorId },
+      orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+    }),
+    prisma.instructorUnavailableDate.findMany({
+      where: { instructorId, date: { gte: today } },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+  return {
+    slots: slots.map((slot) => ({
+      id: slot.id,
+      dayOfWeek: slot.dayOfWeek,
+      startTime: formatTime(slot.startTime),
+      endTime: formatTime(slot.endTime),
+    })),
+    unavailableDates: unavailableDates.map((row) => ({
+      id: row.id,
+      date: row.date.toISOString().split('T')[0],
+      reason: row.reason,
+    })),
+  };
+}
+
+/** Replace the instructor's weekly slots with the given set. */
+export async function replaceInstructorAvailability(instructorId: string, input: InstructorAvailabilityInput) {
+  await prisma.$transaction(async (tx) => {
+    await tx.instructorAvailability.deleteMany({ where: { instructorId } });
+    if (input.slots.length > 0) {
+      await tx.instructorAvailability.createMany({
+        data: input.slots.map((slot) => ({
+          instructorId,
+          dayOfWeek: slot.dayOfWeek,
+          startTime: toTime(slot.startTime),
+          endTime: toTime(slot.endTime),
+        })),
+      });
+    }
+  });
+  return getInstructorAvailability(instructorId);
+}
+
+export async function addUnavailableDate(instructorId: string, input: InstructorUnavailableDateInput) {
+  const date = new Date(input.date);
+  return prisma.instructorUnavailableDate.upsert({
+    where: { instructorId_date: { instructorId, date } },
+    create: { instructorId, date, reason: input.reason ?? null },
+    update: { reason: input.reason ?? null },
+  });
+}
+
+export async function removeUnavailableDate(instructorId: string, id: string) {
+  const { count } = await prisma.instructorUnavailableDate.deleteMany({ where: { id, instructorId } });
+  if (count === 0) {
+    throw new AppError(404, 'Unavailable date not found');
+  }
+}
+
+async function loadMeeting(meetingId: string) {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    include: {
+      instructor: true,
+      cycle: { include: { course: { select: { id: true, name: true } } } },
+    },
+  });
+  if (!meeting || meeting.deletedAt) {
+    throw new AppError(404, 'Meeting not found');
+  }
+  return meeting;
+}
+
+/**
+ * Rank active instructors (other than the meeting's current one) as substitutes for a
+ * meeting. Blocked candidates (clashing meeting / unavailable that day) are kept at the
+ * bottom of the list so ops can still see them.
+ */
+export async function findSubstitutes(meetingId: string, limit = 10) {
+  const meeting = await loadMeeting(meetingId);
+  const { cycle } = meeting;
+  const dayOfWeek = DAYS[meeting.scheduledDate.getUTCDay()];
+  const start = minutesOf(meeting.startTime);
+  const end = minutesOf(meeting.endTime);
+  const activityType = meeting.activityType ?? cycle.activityType;
+
+  const instructors = await prisma.instructor.findMany({
+    where: { isActive: true, kind: 'instructor', id: { not: meeting.instructorId } },
+    include: {
+      availability: { where: { dayOfWeek } },
+      unavailableDates: { where: { date: meeting.scheduledDate } },
+      _count: { select: { availability: true } },
+    },
+  });
+  const ids = instructors.map((instructor) => instructor.id);
+
+  const [sameDayMeetings, courseCycles] = await Promise.all([
+    prisma.meeting.findMany({
+      where: {
+        instructorId: { in: ids },
+        scheduledDate: meeting.scheduledDate,
+        deletedAt: null,
+        status: { notIn: [...NON_BLOCKING_STATUSES] },
+      },
+      select: { id: true, instructorId: true, startTime: true, endTime: true, cycle: { select: { name: true } } },
+    }),
+    prisma.cycle.findMany({
+      where: { courseId: cycle.courseId, instructorId: { in: ids }, deletedAt: null, id: { not: cycle.id } },
+      select: { instructorId: true },
+    }),
+  ]);
+
+  const currentPayment = calculateInstructorPayment(cycle, meeting.instructor, meeting);
+  const cycleCity = normalizeCity(cycle.location);
+
+  const candidates: SubstituteCandidate[] = instructors.map((instructor) => {
+    let score = 0;
+
+    let availability: SubstituteAvailability;
+    const unavailable = instructor.unavailableDates[0];
+    if (unavailable) {
+      availability = 'unavailable_date';
+      score += SCORE.unavailableDate;
+    } else if (instructor._count.availability === 0) {
+      availability = 'unknown';
+      score += SCORE.availabilityUnknown;
+    } else if (instructor.availability.some((slot) => minutesOf(slot.startTime) <= start && minutesOf(slot.endTime) >= end)) {
+      availability = 'available';
+      score += SCORE.available;
+    } else {
+      availability = 'outside_hours';
+      score += SCORE.outsideAvailability;
+    }
+
+    const conflicts = sameDayMeetings
+      .filter((other) => other.instructorId === instructor.id
+        && minutesOf(other.startTime) < end && minutesOf(other.endTime) > start)
+      .map((other) => ({
+        meetingId: other.id,
+        cycleName: other.cycle.name,
+        startTime: formatTime(other.startTime),
+        endTime: formatTime(other.endTime),
+      }));
+    if (conflicts.length > 0) score += SCORE.conflict;
+
+    const pastCyclesOfCourse = courseCycles.filter((row) => row.instructorId === instructor.id).length;
+    score += Math.min(SCORE.maxFamiliarity, pastCyclesOfCourse * SCORE.perPastCycle);
+
+    const estimatedPayment = calculateInstructorPayment(cycle, instructor, { ...meeting, instructorId: instructor.id });
+    if (estimatedPayment === 0) {
+      score += SCORE.missingRate;
+    } else if (currentPayment > 0) {
+      const saving = (currentPayment - estimatedPayment) / currentPayment;
+      score += Math.max(SCORE.maxRatePenalty, Math.min(SCORE.maxRateBonus, Math.round(saving * 20)));
+    }
+
+    let sameCity: boolean | null = null;
+    if (activityType === 'frontal' && cycleCity && instructor.city) {
+      sameCity = normalizeCity(instructor.city) === cycleCity;
+      if (sameCity) score += SCORE.sameCity;
+    }
+
+    return {
+      instructorId: instructor.id,
+      name: instructor.name,
+      phone: instructor.phone,
+      city: instructor.city,
+      score,
+      availability,
+      unavailableReason: unavailable?.reason ?? null,
+      conflicts,
+      pastCyclesOfCourse,
+      estimatedPayment,
+      sameCity,
+    };
+  });
+
+  candidates.sort((a, b) => (
+    b.score - a.score
+    || a.estimatedPayment - b.estimatedPayment
+    || a.name.localeCompare(b.name, 'he')
+  ));
+
+  return {
+    meeting: {
+      id: meeting.id,
+      scheduledDate: meeting.scheduledDate.toISOString().split('T')[0],
+      startTime: formatTime(meeting.startTime),
+      endTime: formatTime(meeting.endTime),
+      activityType,
+      cycleName: cycle.name,
+      courseName: cycle.course.name,
+      location: cycle.location,
+      currentInstructorId: meeting.instructorId,
+      currentPayment,
+    },
+    candidates: candidates.slice(0, limit),
+  };
+}
+
+/**
+ * Move a meeting to another instructor and recalculate its instructorPayment/profit at the
+ * new instructor's rate. A substitute who is already booked in the slot is refused with
+ * 409 unless `allowConflicts` is set. The substitute gets a WhatsApp heads-up (best effort).
+ */
+export async function reassignMeetingInstructor(meetingId: string, instructorId: string, allowConflicts = false) {
+  const meeting = await loadMeeting(meetingId);
+  if (meeting.instructorId === instructorId) {
+    throw new AppError(400, 'המדריך המחליף זהה למדריך הנוכחי');
+  }
+
+  const substitute = await prisma.instructor.findUnique({ where: { id: instructorId } });
+  if (!substitute || !substitute.isActive) {
+    throw new AppError(400, 'המדריך המחליף אינו פעיל');
+  }
+
+  const conflictWarnings = await checkInstructorConflicts([{
+    meetingId,
+    instructorId,
+    scheduledDate: meeting.scheduledDate,
+    startTime: meeting.startTime,
+    endTime: meeting.endTime,
+    activityType: meeting.activityType ?? meeting.cycle.activityType,
+    location: meeting.cycle.location,
+    cycleName: meeting.cycle.name,
+  }], allowConflicts);
+
+  const expenses = await prisma.meetingExpense.findMany({
+    where: { meetingId, status: 'approved' },
+    select: { amount: true },
+  });
+  const expensesTotal = expenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
+  const instructorPayment = calculateInstructorPayment(meeting.cycle, substitute, { ...meeting, instructorId });
+
+  const updated = await prisma.meeting.update({
+    where: { id: meetingId },
+    data: {
+      instructorId,
+      instructorPayment,
+      profit: Number(meeting.revenue) - instructorPayment - expensesTotal,
+    },
+  });
+
+  // Daily-rate cycles pay once per instructor per day — rebalance both instructors' days.
+  await recalculateDailyInstructorPaymentsForMeeting(meeting);
+  await recalculateDailyInstructorPaymentsForMeeting(updated);
+  await checkAndSendNegativeProfitAlert(meetingId, 'substitute-reassign');
+  publishMeetingUpdated(updated, meeting.status);
+
+  const date = meeting.scheduledDate.toLocaleDateString('he-IL', { timeZone: 'UTC' });
+  sendWhatsAppMessage(
+    substitute.phone,
+    `שלום ${substitute.name},\nשובצת כמדריך מחליף ב${meeting.cycle.name} (${meeting.cycle.course.name})\n📅 ${date} בשעה ${formatTime(meeting.startTime)}-${formatTime(meeting.endTime)}${meeting.cycle.location ? `\n📍 ${meeting.cycle.location}` : ''}`,
+  ).catch((error: unknown) => {
+    console.error('[SubstituteFinder] Failed to notify substitute:', error);
+  });
+
+  return { ...updated, conflictWarnings };
+}
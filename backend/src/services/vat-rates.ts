@@ -0,0 +1,219 @@
+/**
+ * VAT Rates
+ *
+ * Effective-dated VAT rates (vat_rates). A rate applies from its effectiveFrom date until
+ * the next rate starts. The table is loaded into utils/revenue.ts at startup and after every
+ * change, so the synchronous net/gross helpers there always use the rate in force on the
+ * meeting's scheduledDate or the document date.
+ *
+ * Adding a rate does not rewrite stored meeting revenue. That is a separate, explicit step —
+ * recalculateMeetingsForVatRate() — which defaults to a dry run and only touches meetings
+ * whose revenue was derived from VAT-inclusive registration amounts, scheduled inside the
+ * rate's period, and not part of an issued billing period.
+ */
+
+import type { VatRate } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  isVatInclusive,
+  meetingRevenueFromRegistrations,
+  roundMoney,
+  setVatRates,
+  type VatRatePeriod,
+} from '../utils/revenue.js';
+import { checkAndSendNegativeProfitAlert } from './negative-profit-alert.js';
+
+/** Meetings whose stored revenue is worth re-deriving (cancelled/postponed carry none). */
+const RECALCULATED_MEETING_STATUSES = ['scheduled', 'completed'] as const;
+
+/** How many changed meetings a recalculation preview lists. */
+const PREVIEW_LIMIT = 50;
+
+export interface VatRateInput {
+  rate: number;
+  /** YYYY-MM-DD */
+  effectiveFrom: string;
+  note?: string | null;
+}
+
+export interface VatRecalculationResult {
+  rate: number;
+  from: string;
+  until: string | null;
+  applied: boolean;
+  meetings: number;
+  revenueBefore: number;
+  revenueAfter: number;
+  changes: Array<{ meetingId: string; cycleName: string; scheduledDate: string; before: number; after: number }>;
+  // Private cycles left alone because their meetingRevenue is an explicit net amount
+  skippedCycles: Array<{ cycleId: string; cycleName: string; meetingRevenue: number; meetings: number }>;
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toPeriod(rate: Pick<VatRate, 'rate' | 'effectiveFrom'>): VatRatePeriod {
+  return { effectiveFrom: dayKey(rate.effectiveFrom), rate: Number(rate.rate) };
+}
+
+export function listVatRates() {
+  return prisma.vatRate.findMany({ orderBy: { effectiveFrom: 'desc' } });
+}
+
+/** Push the DB table into the revenue helpers. Called at startup and after every change. */
+export async function loadVatRates(): Promise<VatRatePeriod[]> {
+  const rates = await prisma.vatRate.findMany({ select: { rate: true, effectiveFrom: true } });
+  const periods = rates.map(toPeriod);
+  setVatRates(periods);
+  return periods;
+}
+
+// ===================
+// Editing
+// ===================
+
+export async function createVatRate(input: VatRateInput, createdById?: string): Promise<VatRate> {
+  const effectiveFrom = new Date(`${input.effectiveFrom}T00:00:00.000Z`);
+  const existing = await prisma.vatRate.findUnique({ where: { effectiveFrom } });
+  if (existing) throw new AppError(409, `A VAT rate already starts on ${input.effectiveFrom}`);
+
+  const rate = await prisma.vatRate.create({
+    data: { rate: input.rate, effectiveFrom, note: input.note ?? null, createdById },
+  });
+  await loadVatRates();
+  return rate;
+}
+
+/**
+ * Only a rate that is not yet in force and was never applied to meetings can be removed —
+ * anything else has already been used for documents and stored revenue.
+ */
+export async function deleteVatRate(id: string): Promise<VatRate> {
+  const rate = await prisma.vatRate.findUnique({ where: { id } });
+  if (!rate) throw new AppError(404, 'VAT rate not found');
+  if (rate.recalculatedAt) throw new AppError(409, 'This VAT rate was already applied to meeting revenue');
+  if (dayKey(rate.effectiveFrom) <= dayKey(new Date())) {
+    throw new AppError(409, 'This VAT rate is already in effect and cannot be deleted');
+  }
+
+  await prisma.vatRate.delete({ where: { id } });
+  await loadVatRates();
+  return rate;
+}
+
+// ===================
+// Recalculation
+// ===================
+
+/**
+ * Re-derive the revenue of meetings scheduled in the rate's period (from its effectiveFrom
+ * up to the next rate) at that rate. Guarded to meetings whose revenue comes from gross
+ * registration amounts — VAT-inclusive cycles without an explicit meetingRevenue — that
+ * already carry revenue and are not in an issued billing period. Profit moves by the same
+ * delta as revenue. Dry run unless `apply` is set.
+ */
+export async function recalculateMeetingsForVatRate(
+  id: string,
+  options: { apply?: boolean } = {},
+): Promise<VatRecalculationResult> {
+  const rate = await prisma.vatRate.findUnique({ where: { id } });
+  if (!rate) throw new AppError(404, 'VAT rate not found');
+
+  const next = await prisma.vatRate.findFirst({
+    where: { effectiveFrom: { gt: rate.effectiveFrom } },
+    orderBy: { effectiveFrom: 'asc' },
+    select: { effectiveFrom: true },
+  });
+
+  const meetings = await prisma.meeting.findMany({
+    where: {
+      deletedAt: null,
+      nature: 'regular',
+      status: { in: [...RECALCULATED_MEETING_STATUSES] },
+      revenue: { gt: 0 },
+      scheduledDate: { gte: rate.effectiveFrom, ...(next ? { lt: next.effectiveFrom } : {}) },
+      cycle: { deletedAt: null, type: { in: ['private', 'trial_private'] } },
+      billingPeriodMeetings: { none: { billingPeriod: { status: 'issued' } } },
+    },
+    orderBy: { scheduledDate: 'asc' },
+    select: {
+      id: true,
+      scheduledDate: true,
+      revenue: true,
+      profit: true,
+      cycle: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          meetingRevenue: true,
+          totalMeetings: true,
+          registrations: { select: { amount: true, status: true, deletedAt: true } },
+        },
+      },
+    },
+  });
+
+  const skipped = new Map<string, VatRecalculationResult['skippedCycles'][number]>();
+  const changed = meetings.flatMap((meeting) => {
+    const { cycle } = meeting;
+    if (!isVatInclusive(cycle.type)) return [];
+    // An explicit per-meeting revenue on the cycle is net already — VAT doesn't enter into it
+    if (Number(cycle.meetingRevenue ?? 0) > 0) {
+      const entry = skipped.get(cycle.id)
+        ?? { cycleId: cycle.id, cycleName: cycle.name, meetingRevenue: Number(cycle.meetingRevenue), meetings: 0 };
+      entry.meetings += 1;
+      skipped.set(cycle.id, entry);
+      return [];
+    }
+
+    const before = Number(meeting.revenue);
+    const after = meetingRevenueFromRegistrations(
+      cycle.registrations,
+      Number(cycle.totalMeetings) || 1,
+      cycle.type,
+      meeting.scheduledDate,
+    );
+    if (after <= 0 || after === before) return [];
+    return [{ meeting, before, after }];
+  });
+
+  const result: VatRecalculationResult = {
+    rate: Number(rate.rate),
+    from: dayKey(rate.effectiveFrom),
+    until: next ? dayKey(next.effectiveFrom) : null,
+    applied: false,
+    meetings: changed.length,
+    revenueBefore: roundMoney(changed.reduce((sum, c) => sum + c.before, 0)),
+    revenueAfter: roundMoney(changed.reduce((sum, c) => sum + c.after, 0)),
+    changes: changed.slice(0, PREVIEW_LIMIT).map(({ meeting, before, after }) => ({
+      meetingId: meeting.id,
+      cycleName: meeting.cycle.name,
+      scheduledDate: dayKey(meeting.scheduledDate),
+      before,
+      after,
+    })),
+    skippedCycles: [...skipped.values()].slice(0, PREVIEW_LIMIT),
+  };
+
+  if (!options.apply) return result;
+
+  await prisma.$transaction([
+    ...changed.map(({ meeting, before, after }) =>
+      prisma.meeting.update({
+        where: { id: meeting.id },
+        data: { revenue: after, profit: roundMoney(Number(meeting.profit) + after - before) },
+      }),
+    ),
+    prisma.vatRate.update({ where: { id }, data: { recalculatedAt: new Date() } }),
+  ]);
+
+  for (const { meeting, after, before } of changed) {
+    if (after < before) await checkAndSendNegativeProfitAlert(meeting.id, 'vat-rate-recalc');
+  }
+
+  console.log(`[vat-rates] ${result.from} @ ${result.rate}: ${changed.length} meetings recalculated`);
+  return { ...result, applied: true };
+}
@@ -0,0 +1,323 @@
+/**
+ * WhatsApp inbox workflow
+ *
+ * - Assignment: new (or re-opened) inbound threads are handed out round-robin to active users
+ *   in WA_INBOX_ASSIGNEE_ROLES — whoever was assigned a conversation least recently goes next.
+ * - SLA timers: `awaitingReplySince` marks the first inbound message a human hasn't answered yet
+ *   (bot replies don't count); `openedAt` starts the resolution clock until the thread is closed.
+ *   A scheduler alerts the assignee (or the operations group when nobody owns the thread) once
+ *   per breach.
+ * - Canned replies: {{placeholders}} are filled from the customer matched by phone, their
+ *   first student and that student's latest active registration.
+ * - Staff replies: free-text sends through the Cloud API, shared by the WhatsApp inbox and the
+ *   unified inbox.
+ */
+
+import axios from 'axios';
+import cron, { ScheduledTask } from 'node-cron';
+import type { Prisma, UserRole, WaConversation } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../config.js';
+import { replacePlaceholders, sendWhatsApp, formatTimeForDisplay } from './messaging.js';
+import { sendOperationsWhatsApp } from './operations-notifications.js';
+import { broadcastWaSSE } from './wa-events.js';
+
+const TZ = 'Asia/Jerusalem';
+const MINUTE_MS = 60 * 1000;
+
+let scheduledTask: ScheduledTask | null = null;
+
+const dayLabels: Record<string, string> = {
+  sunday: 'ראשון',
+  monday: 'שני',
+  tuesday: 'שלישי',
+  wednesday: 'רביעי',
+  thursday: 'חמישי',
+  friday: 'שישי',
+  saturday: 'שבת',
+};
+
+export function firstResponseSlaMinutes() {
+  return Number(process.env.WA_FIRST_RESPONSE_SLA_MINUTES) || 30;
+}
+
+export function resolutionSlaHours() {
+  return Number(process.env.WA_RESOLUTION_SLA_HOURS) || 24;
+}
+
+function assigneeRoles(): UserRole[] {
+  return (process.env.WA_INBOX_ASSIGNEE_ROLES || 'sales')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean) as UserRole[];
+}
+
+function conversationUrl(id: string) {
+  const base = config.frontendUrl && config.frontendUrl !== '*' ? config.frontendUrl : 'https://crm.orma-ai.com';
+  return `${base}/whatsapp?conv=${id}`;
+}
+
+type SlaFields = Pick<WaConversation, 'status' | 'awaitingReplySince' | 'openedAt'>;
+
+/** Deadlines and breach flags for display in the inbox. */
+export function getSlaState(conv: SlaFields, now = new Date()) {
+  const firstResponseDueAt = conv.awaitingReplySince
+    ? new Date(conv.awaitingReplySince.getTime() + firstResponseSlaMinutes() * MINUTE_MS)
+    : null;
+  const resolutionDueAt = conv.openedAt && conv.status !== 'closed'
+    ? new Date(conv.openedAt.getTime() + resolutionSlaHours() * 60 * MINUTE_MS)
+    : null;
+  return {
+    firstResponseDueAt,
+    firstResponseBreached: !!firstResponseDueAt && firstResponseDueAt <= now,
+    resolutionDueAt,
+    resolutionBreached: !!resolutionDueAt && resolutionDueAt <= now,
+  };
+}
+
+/** The eligible user who was handed a conversation least recently (never-assigned users first). */
+export async function pickNextAssignee() {
+  const users = await prisma.user.findMany({
+    where: { isActive: true, role: { in: assigneeRoles() } },
+    select: { id: true, name: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (users.length === 0) return null;
+
+  const lastAssigned = await prisma.waConversation.groupBy({
+    by: ['assignedToId'],
+    where: { assignedToId: { in: users.map((user) => user.id) } },
+    _max: { assignedAt: true },
+  });
+  const lastAt = new Map(lastAssigned.map((row) => [row.assignedToId, row._max.assignedAt?.getTime() ?? 0]));
+
+  return users.reduce((best, user) => ((lastAt.get(user.id) ?? 0) < (lastAt.get(best.id) ?? 0) ? user : best));
+}
+
+export async function assignConversation(conversationId: string, userId: string | null) {
+  const conv = await prisma.waConversation.update({
+    where: { id: conversationId },
+    data: { assignedToId: userId, assignedAt: userId ? new Date() : null },
+    include: { assignedTo: { select: { id: true, name: true } } },
+  });
+  broadcastWaSSE('conversation_updated', conv);
+  return conv;
+}
+
+/**
+ * Inbound message bookkeeping: re-opens closed threads, starts the first-response clock and
+ * hands unowned threads to the next user in the rotation.
+ */
+export async function trackInboundMessage(conv: WaConversation, at = new Date()) {
+  const data: Prisma.WaConversationUpdateInput = {};
+  if (conv.status === 'closed') {
+    Object.assign(data, { status: 'open', ...statusTimerUpdate('closed', 'open', at) });
+  } else if (!conv.openedAt) {
+    data.openedAt = at;
+  }
+  if (!conv.awaitingReplySince) {
+    Object.assign(data, { awaitingReplySince: at, firstResponseAlertedAt: null });
+  }
+  if (Object.keys(data).length > 0) {
+    const updated = await prisma.waConversation.update({ where: { id: conv.id }, data });
+    if (conv.status === 'closed') broadcastWaSSE('conversation_updated', updated);
+  }
+
+  if (!conv.assignedToId) {
+    const assignee = await pickNextAssignee();
+    if (assignee) await assignConversation(conv.id, assignee.id);
+  }
+}
+
+/** A staff reply (not the bot) stops the first-response clock. */
+export async function trackStaffReply(conversationId: string, at = new Date()) {
+  const conv = await prisma.waConversation.findUnique({
+    where: { id: conversationId },
+    select: { awaitingReplySince: true, firstResponseAt: true },
+  });
+  if (!conv?.awaitingReplySince) return;
+  await prisma.waConversation.update({
+    where: { id: conversationId },
+    data: { awaitingReplySince: null, firstResponseAt: conv.firstResponseAt ?? at },
+  });
+}
+
+/** Free-text message through the WhatsApp Cloud API; returns Meta's message id. */
+export async function sendWhatsAppCloudText(phone: string, text: string, phoneNumberId?: string | null): Promise<string | null> {
+  const fromId = phoneNumberId || process.env.WA_PHONE_NUMBER_ID;
+  try {
+    const res = await axios.post(
+      `https://graph.facebook.com/v19.0/${fromId}/messages`,
+      {
+        messaging_product: 'whatsapp',
+        to: phone,
+        type: 'text',
+        text: { body: text }
+      },
+      { headers: { Authorization: `Bearer ${process.env.WA_ACCESS_TOKEN}`, 'Content-Type': 'application/json' } }
+    );
+    return res.data?.messages?.[0]?.id || null;
+  } catch (err: any) {
+    console.error('[WA] Send error:', err.response?.data || err.message);
+    return null;
+  }
+}
+
+/** Send and store a staff reply; null when the conversation doesn't exist. */
+export async function sendWaTextReply(conversationId: string, text: string) {
+  const conv = await prisma.waConversation.findUnique({ where: { id: conversationId } });
+  if (!conv) return null;
+
+  const waId = await sendWhatsAppCloudText(conv.phone, text, conv.phoneNumberId);
+  const msg = await prisma.waMessage.create({
+    data: {
+      conversationId,
+      direction: 'outbound',
+      content: text,
+      waMessageId: waId || undefined,
+      status: 'sent',
+      isAiGenerated: false,
+    },
+  });
+
+  await prisma.waConversation.update({
+    where: { id: conversationId },
+    data: { lastMessageAt: new Date(), lastMessagePreview: text.slice(0, 100), updatedAt: new Date() },
+  });
+
+  await trackStaffReply(conversationId);
+  broadcastWaSSE('new_message', { conversationId, message: msg });
+  return msg;
+}
+
+/** Status changes: closing stops both clocks, re-opening a closed thread restarts resolution. */
+export function statusTimerUpdate(from: string, to: string, at = new Date()) {
+  if (from === to) return {};
+  if (to === 'closed') return { resolvedAt: at, awaitingReplySince: null };
+  if (from === 'closed') return { openedAt: at, resolvedAt: null, resolutionAlertedAt: null };
+  return {};
+}
+
+async function sendSlaAlert(
+  conv: WaConversation & { assignedTo: { name: string; phone: string | null } | null },
+  message: string,
+) {
+  if (conv.assignedTo?.phone) {
+    await sendWhatsApp({ phone: conv.assignedTo.phone, message });
+  } else {
+    await sendOperationsWhatsApp(message);
+  }
+}
+
+/** Alert once per breached first-response / resolution SLA. One failed alert doesn't stop the others. */
+export async function checkWaSlaBreaches(now = new Date()) {
+  const firstResponseCutoff = new Date(now.getTime() - firstResponseSlaMinutes() * MINUTE_MS);
+  const resolutionCutoff = new Date(now.getTime() - resolutionSlaHours() * 60 * MINUTE_MS);
+  const include = { assignedTo: { select: { name: true, phone: true } } };
+
+  const [unanswered, unresolved] = await Promise.all([
+    prisma.waConversation.findMany({
+      where: { awaitingReplySince: { lte: firstResponseCutoff }, firstResponseAlertedAt: null, status: { not: 'closed' } },
+      include,
+    }),
+    prisma.waConversation.findMany({
+      where: { openedAt: { lte: resolutionCutoff }, resolutionAlertedAt: null, status: { not: 'closed' } },
+      include,
+    }),
+  ]);
+
+  let firstResponse = 0;
+  for (const conv of unanswered) {
+    try {
+      const name = conv.contactName || conv.phone;
+      await sendSlaAlert(conv, `⏰ ${name} מחכה לתשובה כבר יותר מ-${firstResponseSlaMinutes()} דקות\n${conversationUrl(conv.id)}`);
+      await prisma.waConversation.update({ where: { id: conv.id }, data: { firstResponseAlertedAt: now } });
+      broadcastWaSSE('sla_breached', { conversationId: conv.id, type: 'first_response' });
+      firstResponse++;
+    } catch (error) {
+      console.error(`[WaInbox] first-response SLA alert for conversation ${conv.id} failed:`, error);
+    }
+  }
+
+  let resolution = 0;
+  for (const conv of unresolved) {
+    try {
+      const name = conv.contactName || conv.phone;
+      await sendSlaAlert(conv, `⚠️ השיחה עם ${name} פתוחה יותר מ-${resolutionSlaHours()} שעות ועדיין לא נסגרה\n${conversationUrl(conv.id)}`);
+      await prisma.waConversation.update({ where: { id: conv.id }, data: { resolutionAlertedAt: now } });
+      broadcastWaSSE('sla_breached', { conversationId: conv.id, type: 'resolution' });
+      resolution++;
+    } catch (error) {
+      console.error(`[WaInbox] resolution SLA alert for conversation ${conv.id} failed:`, error);
+    }
+  }
+
+  return { firstResponse, resolution };
+}
+
+/** Placeholder values for a conversation's linked customer, student and cycle. */
+export async function getCannedReplyData(conversationId: string, agentName = '') {
+  const conv = await prisma.waConversation.findUnique({
+    where: { id: conversationId },
+    select: { phone: true, contactName: true, leadName: true, childName: true },
+  });
+  if (!conv) return null;
+
+  const last9 = conv.phone.replace(/\D/g, '').slice(-9);
+  const customer = last9.length === 9
+    ? await prisma.customer.findFirst({
+        where: { phone: { endsWith: last9 }, deletedAt: null },
+        include: {
+          students: {
+            where: { deletedAt: null },
+            orderBy: { createdAt: 'asc' },
+            take: 1,
+            include: {
+              registrations: {
+                where: { deletedAt: null, status: { in: ['registered', 'active'] } },
+                orderBy: { createdAt: 'desc' },
+                take: 1,
+                include: { cycle: { include: { course: true, branch: true } } },
+              },
+            },
+          },
+        },
+      })
+    : null;
+
+  const student = customer?.students[0];
+  const cycle = student?.registrations[0]?.cycle;
+  const customerName = customer?.name || conv.leadName || conv.contactName || '';
+
+  return {
+    customer_name: customerName,
+    first_name: customerName.split(' ')[0] || '',
+    student_name: student?.name || conv.childName || '',
+    cycle_name: cycle?.name || '',
+    course_name: cycle?.course?.name || '',
+    branch_name: cycle?.branch?.name || '',
+    meeting_day: cycle ? dayLabels[cycle.dayOfWeek] || '' : '',
+    meeting_time: cycle ? formatTimeForDisplay(cycle.startTime) : '',
+    agent_name: agentName,
+  };
+}
+
+export async function renderCannedReply(conversationId: string, body: string, agentName?: string) {
+  const data = await getCannedReplyData(conversationId, agentName);
+  return data ? replacePlaceholders(body, data) : null;
+}
+
+export function initWaInboxScheduler() {
+  if (scheduledTask) scheduledTask.stop();
+  scheduledTask = cron.schedule('*/5 * * * *', () => {
+    checkWaSlaBreaches().catch((error) => {
+      console.error('[WaInbox] SLA check failed:', error);
+    });
+  }, { timezone: TZ });
+  console.log(`   ✓ WhatsApp inbox SLA: every 5 min → first response ${firstResponseSlaMinutes()}m, resolution ${resolutionSlaHours()}h`);
+}
+
+export function stopWaInboxScheduler() {
+  scheduledTask?.stop();
+  scheduledTask = null;
+}
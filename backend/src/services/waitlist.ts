@@ -0,0 +1,368 @@
+/**
+ * Cycle Waitlist
+ *
+ * Ordered waitlist for cycles that reached Cycle.maxStudents:
+ *  - A released seat (registration.cancelled) is offered to the next family in line
+ *    over WhatsApp, with a public link that is valid for WAITLIST_OFFER_HOURS
+ *  - Accepting places the child in the cycle (creating the student for leads that
+ *    do not have one yet); declining, removal or expiry moves on to the next family
+ *  - Outstanding offers hold their seat, so a freed seat is not double-booked
+ * Cycles without maxStudents have no capacity and never send offers.
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { randomBytes } from 'crypto';
+import type { RegistrationStatus, WaitlistStatus } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { config } from '../config.js';
+import { recalcMeetingRevenue } from '../utils/recalcMeetingRevenue.js';
+import { defaultRegistrationAmountForCycle } from '../utils/registration-amount.js';
+import { sendWhatsAppMessage } from './notifications.js';
+import { publishDomainEvent, subscribeDomainEvents } from './domain-events.js';
+import type { AddWaitlistEntryInput } from '../types/schemas.js';
+
+const TZ = 'Asia/Jerusalem';
+const SEAT_STATUSES: RegistrationStatus[] = ['registered', 'active', 'trial', 'pending_cancellation'];
+const OPEN_STATUSES: WaitlistStatus[] = ['waiting', 'offered'];
+const DEFAULT_OFFER_HOURS = 24;
+
+let scheduledTask: ScheduledTask | null = null;
+
+const entryInclude = {
+  customer: { select: { id: true, name: true, phone: true } },
+  student: { select: { id: true, name: true } },
+  cycle: { select: { id: true, name: true, maxStudents: true, course: { select: { name: true } } } },
+} as const;
+
+function offerHours(): number {
+  const hours = Number(process.env.WAITLIST_OFFER_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_OFFER_HOURS;
+}
+
+function offerUrl(token: string): string {
+  const base = config.frontendUrl && config.frontendUrl !== '*' ? config.frontendUrl : 'https://crm.orma-ai.com';
+  return `${base}/public/waitlist/${token}`;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString('he-IL', { timeZone: TZ, day: 'numeric', month: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Seats left in a cycle after registrations and outstanding offers, or null when
+ * the cycle has no capacity limit.
+ */
+export async function availableSeats(cycleId: string): Promise<number | null> {
+  const cycle = await prisma.cycle.findUnique({ where: { id: cycleId }, select: { maxStudents: true } });
+  if (!cycle?.maxStudents) return null;
+
+  const [registered, offered] = await Promise.all([
+    prisma.registration.count({ where: { cycleId, deletedAt: null, status: { in: SEAT_STATUSES } } }),
+    prisma.waitlistEntry.count({ where: { cycleId, status: 'offered' } }),
+  ]);
+  return Math.max(cycle.maxStudents - registered - offered, 0);
+}
+
+/** Open (waiting or offered) entries of a cycle, in line order. */
+export async function listCycleWaitlist(cycleId: string, includeClosed = false) {
+  return prisma.waitlistEntry.findMany({
+    where: { cycleId, ...(!includeClosed && { status: { in: OPEN_STATUSES } }) },
+    include: entryInclude,
+    orderBy: [{ position: 'asc' }, { joinedAt: 'asc' }],
+  });
+}
+
+/** Put a family at the end of a cycle's waitlist. */
+export async function addToWaitlist(cycleId: string, input: AddWaitlistEntryInput, createdById?: string | null) {
+  const cycle = await prisma.cycle.findFirst({ where: { id: cycleId, deletedAt: null }, select: { id: true, status: true } });
+  if (!cycle) throw new AppError(404, 'Cycle not found');
+  if (cycle.status !== 'active') throw new AppError(400, 'Only active cycles have a waitlist');
+
+  const customer = await prisma.customer.findFirst({ where: { id: input.customerId, deletedAt: null }, select: { id: true } });
+  if (!customer) throw new AppError(404, 'Customer not found');
+
+  if (input.studentId) {
+    const student = await prisma.student.findFirst({
+      where: { id: input.studentId, customerId: input.customerId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!student) throw new AppError(400, 'Student does not belong to this customer');
+
+    const registration = await prisma.registration.findFirst({
+      where: { studentId: input.studentId, cycleId, deletedAt: null, status: { in: SEAT_STATUSES } },
+      select: { id: true },
+    });
+    if (registration) throw new AppError(409, 'Student is already registered for this cycle');
+  }
+
+  const duplicate = await prisma.waitlistEntry.findFirst({
+    where: {
+      cycleId,
+      status: { in: OPEN_STATUSES },
+      ...(input.studentId
+        ? { studentId: input.studentId }
+        : { customerId: input.customerId, childName: input.childName }),
+    },
+    select: { id: true },
+  });
+  if (duplicate) throw new AppError(409, 'Already on the waitlist for this cycle');
+
+  const last = await prisma.waitlistEntry.findFirst({
+    where: { cycleId },
+    orderBy: { position: 'desc' },
+    select: { position: true },
+  });
+
+  const entry = await prisma.waitlistEntry.create({
+    data: {
+      cycleId,
+      customerId: input.customerId,
+      studentId: input.studentId ?? null,
+      childName: input.childName ?? null,
+      notes: input.notes ?? null,
+      position: (last?.position ?? 0) + 1,
+      createdById: createdById ?? null,
+    },
+    include: entryInclude,
+  });
+
+  // A seat may already be free (e.g. a cancellation before anyone was waiting)
+  await offerNextSeats(cycleId);
+  return entry;
+}
+
+/** Send the time-limited WhatsApp offer to a waiting entry. */
+async function sendOffer(entryId: string) {
+  const expiresAt = new Date(Date.now() + offerHours() * 60 * 60 * 1000);
+  const entry = await prisma.waitlistEntry.update({
+    where: { id: entryId },
+    data: {
+      status: 'offered',
+      offerToken: randomBytes(24).toString('hex'),
+      offeredAt: new Date(),
+      offerExpiresAt: expiresAt,
+    },
+    include: entryInclude,
+  });
+
+  const childName = entry.student?.name ?? entry.childName ?? '';
+  const courseName = entry.cycle.course?.name ?? entry.cycle.name;
+  if (entry.customer.phone) {
+    await sendWhatsAppMessage(
+      entry.customer.phone,
+      `שלום ${entry.customer.name}! 🎉\n` +
+      `התפנה מקום ל${childName} בקורס ${courseName} (${entry.cycle.name}).\n` +
+      `לשריון המקום יש לאשר עד ${formatDateTime(expiresAt)}:\n${offerUrl(entry.offerToken!)}\n\n` +
+      'אם לא נקבל אישור עד אז, המקום יוצע למשפחה הבאה ברשימת ההמתנה.',
+    );
+  } else {
+    console.warn(`[Waitlist] Customer ${entry.customer.id} has no phone — offer ${entry.id} needs a manual follow-up`);
+  }
+  return entry;
+}
+
+/**
+ * Offer every free seat in the cycle to the next families in line.
+ * Returns the number of offers sent.
+ */
+export async function offerNextSeats(cycleId: string): Promise<number> {
+  let offered = 0;
+  for (;;) {
+    const seats = await availableSeats(cycleId);
+    if (seats === null || seats <= 0) break;
+
+    const next = await prisma.waitlistEntry.findFirst({
+      where: { cycleId, status: 'waiting' },
+      orderBy: [{ position: 'asc' }, { joinedAt: 'asc' }],
+      select: { id: true },
+    });
+    if (!next) break;
+
+    await sendOffer(next.id);
+    offered++;
+  }
+  if (offered > 0) console.log(`[Waitlist] Sent ${offered} offer(s) for cycle ${cycleId}`);
+  return offered;
+}
+
+/** Offer the seat to a specific waiting family now, regardless of their place in line. */
+export async function offerWaitlistEntry(entryId: string) {
+  const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId }, select: { id: true, status: true } });
+  if (!entry) throw new AppError(404, 'Waitlist entry not found');
+  if (entry.status !== 'waiting') throw new AppError(400, 'Only waiting entries can be offered a seat');
+  return sendOffer(entry.id);
+}
+
+/**
+ * Place the child of a waitlist entry in the cycle: creates the student when the
+ * entry is for a lead, then creates (or reactivates) the registration.
+ */
+export async function placeWaitlistEntry(entryId: string) {
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { id: entryId },
+    include: { cycle: { select: { id: true, name: true, status: true, defaultRegistrationAmount: true } } },
+  });
+  if (!entry) throw new AppError(404, 'Waitlist entry not found');
+  if (!OPEN_STATUSES.includes(entry.status)) throw new AppError(400, 'This waitlist entry is no longer open');
+  if (entry.cycle.status !== 'active') throw new AppError(400, 'The cycle is no longer active');
+  // An offered entry already holds its seat; a waiting one needs a free seat
+  if (entry.status === 'waiting') {
+    const seats = await availableSeats(entry.cycleId);
+    if (seats !== null && seats <= 0) throw new AppError(409, 'Cycle is full', { code: 'CYCLE_FULL' });
+  }
+
+  const { registration, created } = await prisma.$transaction(async (tx) => {
+    let studentId = entry.studentId;
+    if (!studentId) {
+      const childName = entry.childName?.trim() || 'ילד/ה';
+      const existing = await tx.student.findFirst({
+        where: { customerId: entry.customerId, deletedAt: null, name: childName },
+        select: { id: true },
+      });
+      studentId = existing?.id ?? (await tx.student.create({
+        data: { customerId: entry.customerId, name: childName, notes: 'נוצר מרשימת המתנה' },
+        select: { id: true },
+      })).id;
+    }
+
+    const current = await tx.registration.findUnique({
+      where: { studentId_cycleId: { studentId, cycleId: entry.cycleId } },
+    });
+    let registration = current;
+    let created = false;
+    if (!current) {
+      registration = await tx.registration.create({
+        data: {
+          studentId,
+          cycleId: entry.cycleId,
+          status: 'registered',
+          paymentStatus: 'unpaid',
+          amount: defaultRegistrationAmountForCycle(entry.cycle),
+          notes: 'שובץ מרשימת המתנה',
+        },
+      });
+      created = true;
+    } else if (current.status === 'cancelled' || current.deletedAt) {
+      registration = await tx.registration.update({
+        where: { id: current.id },
+        data: {
+          status: 'registered',
+          registrationDate: new Date(),
+          paymentStatus: 'unpaid',
+          amount: defaultRegistrationAmountForCycle(entry.cycle),
+          cancellationDate: null,
+          cancellationReason: null,
+          refundAmount: null,
+          refundDate: null,
+          deletedAt: null,
+          deletedBy: null,
+        },
+      });
+      created = true;
+    }
+
+    await tx.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { status: 'placed', studentId, registrationId: registration!.id, respondedAt: new Date() },
+    });
+    return { registration: registration!, created };
+  });
+
+  if (created) {
+    publishDomainEvent('registration.created', registration);
+    recalcMeetingRevenue(entry.cycleId)
+      .catch(err => console.error('[Waitlist] failed to recalculate cycle revenue:', err));
+  }
+  return registration;
+}
+
+/** Close an entry (declined by the family or removed by staff) and pass its seat on. */
+export async function closeWaitlistEntry(entryId: string, status: 'declined' | 'removed') {
+  const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId }, select: { id: true, cycleId: true, status: true } });
+  if (!entry) throw new AppError(404, 'Waitlist entry not found');
+  if (!OPEN_STATUSES.includes(entry.status)) throw new AppError(400, 'This waitlist entry is no longer open');
+
+  const updated = await prisma.waitlistEntry.update({
+    where: { id: entry.id },
+    data: { status, respondedAt: new Date() },
+    include: entryInclude,
+  });
+  if (entry.status === 'offered') await offerNextSeats(entry.cycleId);
+  return updated;
+}
+
+/** Move an open entry to a new (1-based) place in line and renumber the rest. */
+export async function moveWaitlistEntry(entryId: string, position: number) {
+  const entry = await prisma.waitlistEntry.findUnique({ where: { id: entryId }, select: { id: true, cycleId: true, status: true } });
+  if (!entry) throw new AppError(404, 'Waitlist entry not found');
+  if (!OPEN_STATUSES.includes(entry.status)) throw new AppError(400, 'This waitlist entry is no longer open');
+
+  const open = await prisma.waitlistEntry.findMany({
+    where: { cycleId: entry.cycleId, status: { in: OPEN_STATUSES } },
+    orderBy: [{ position: 'asc' }, { joinedAt: 'asc' }],
+    select: { id: true },
+  });
+  const ids = open.map(e => e.id).filter(id => id !== entry.id);
+  ids.splice(Math.min(position, ids.length + 1) - 1, 0, entry.id);
+
+  await prisma.$transaction(ids.map((id, index) =>
+    prisma.waitlistEntry.update({ where: { id }, data: { position: index + 1 } }),
+  ));
+  return prisma.waitlistEntry.findUnique({ where: { id: entry.id }, include: entryInclude });
+}
+
+/** Offer details for the public accept/decline page. */
+export async function getWaitlistOffer(token: string) {
+  const entry = await prisma.waitlistEntry.findUnique({ where: { offerToken: token }, include: entryInclude });
+  if (!entry) throw new AppError(404, 'Offer not found');
+  return entry;
+}
+
+/** The family's answer from the public offer page. */
+export async function respondToWaitlistOffer(token: string, accept: boolean) {
+  const entry = await getWaitlistOffer(token);
+  if (entry.status !== 'offered') throw new AppError(400, 'This offer is no longer open');
+  if (entry.offerExpiresAt && entry.offerExpiresAt < new Date()) throw new AppError(410, 'This offer has expired');
+
+  if (accept) return placeWaitlistEntry(entry.id);
+  await closeWaitlistEntry(entry.id, 'declined');
+  return null;
+}
+
+/** Expire overdue offers and offer their seats to the next families. Returns the number expired. */
+export async function expireWaitlistOffers(now = new Date()): Promise<number> {
+  const overdue = await prisma.waitlistEntry.findMany({
+    where: { status: 'offered', offerExpiresAt: { lte: now } },
+    select: { id: true, cycleId: true },
+  });
+  if (overdue.length === 0) return 0;
+
+  await prisma.waitlistEntry.updateMany({
+    where: { id: { in: overdue.map(e => e.id) } },
+    data: { status: 'expired' },
+  });
+  for (const cycleId of new Set(overdue.map(e => e.cycleId))) {
+    await offerNextSeats(cycleId);
+  }
+  return overdue.length;
+}
+
+/** Offer released seats as soon as a registration is cancelled. Called once at startup. */
+export function initWaitlistSubscribers(): () => void {
+  return subscribeDomainEvents(async (event, data) => {
+    if (event !== 'registration.cancelled') return;
+    const cycleId = data.cycleId ?? data.cycle?.id;
+    if (cycleId) await offerNextSeats(cycleId);
+  });
+}
+
+export function initWaitlistScheduler() {
+  if (scheduledTask) scheduledTask.stop();
+  scheduledTask = cron.schedule('*/15 * * * *', () => {
+    expireWaitlistOffers().catch((error) => {
+      console.error('[Waitlist] expiry failed:', error);
+    });
+  }, { timezone: TZ });
+  console.log('   ✓ Waitlist offers: every 15 min → expire + offer next in line');
+}
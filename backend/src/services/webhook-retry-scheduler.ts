@@ -0,0 +1,36 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { webhooksService } from '../api/v1/services/webhooks.service.js';
+
+const TZ = 'Asia/Jerusalem';
+
+let scheduledTask: ScheduledTask | null = null;
+let running = false;
+
+/**
+ * Retry failed v1 webhook deliveries whose nextRetryAt has passed.
+ * Skips a tick if the previous run is still sending (slow endpoints can take 30s each).
+ */
+export async function processWebhookRetries() {
+  if (running) return 0;
+  running = true;
+  try {
+    return await webhooksService.processDueRetries();
+  } finally {
+    running = false;
+  }
+}
+
+export function initWebhookRetryScheduler() {
+  if (scheduledTask) scheduledTask.stop();
+  scheduledTask = cron.schedule('* * * * *', () => {
+    processWebhookRetries().catch((error) => {
+      console.error('[WebhookRetry] scheduler failed:', error);
+    });
+  }, { timezone: TZ });
+  console.log('   ✓ Webhook retries: every 1 min → exponential backoff');
+}
+
+export function stopWebhookRetryScheduler() {
+  scheduledTask?.stop();
+  scheduledTask = null;
+}
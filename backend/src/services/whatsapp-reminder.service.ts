@@ -10,6 +10,7 @@ import { prisma } from '../utils/prisma.js';
 import { meetingRevenueForMeeting } from '../utils/revenue.js';
 import { syncCycleProgress } from '../utils/cycle-sync.js';
 import { handleCycleCompletion } from './cycle-completion.js';
+import { publishMeetingUpdated } from './domain-events.js';
 import { generateMeetingMagicLink } from './instructor-reminder.service.js';
 import { reminderEligibleMeetingWhereForDate } from './reminder-eligibility.js';
 import {
@@ -90,8 +91,9 @@ function toMinutes(dt: Date | string | null): number {
 
 /**
  * Optional context block appended to a meeting message:
- * how many lessons remain in the cycle and a summary of the previous lesson.
- * Both fields are optional — only rendered when the caller provides them.
+ * how many lessons remain in the cycle, the curriculum lesson planned for the meeting
+ * and a summary of the previous lesson.
+ * All fields are optional — only rendered when the caller provides them.
  */
 type MeetingExtras = {
   remaining?: number;
@@ -99,6 +101,7 @@ type MeetingExtras = {
   lessonNumber?: number;
   totalMeetings?: number;
   lastSummary?: string | null;
+  lesson?: { title: string; objectives: string | null; materialLinks: string[]; durationMinutes: number | null };
 };
 
 export function formatLessonProgress(extras?: MeetingExtras, compact = false): string {
@@ -123,11 +126,23 @@ export function formatLessonProgress(extras?: MeetingExtras, compact = false): s
   return '';
 }
 
+function formatPlannedLesson(extras?: MeetingExtras): string {
+  const lesson = extras?.lesson;
+  if (!lesson) return '';
+  const lines = [`🎯 נושא השיעור: ${lesson.title}${lesson.durationMinutes ? ` (${lesson.durationMinutes} דק')` : ''}`];
+  const objectives = (lesson.objectives || '').trim();
+  if (objectives) lines.push(`מטרות:\n${objectives}`);
+  for (const link of lesson.materialLinks) lines.push(`📎 ${link}`);
+  return lines.join('\n');
+}
+
 function buildExtrasBlock(extras?: MeetingExtras): string {
   if (!extras) return '';
   const parts: string[] = [];
   const progress = formatLessonProgress(extras);
   if (progress) parts.push(progress);
+  const planned = formatPlannedLesson(extras);
+  if (planned) parts.push(planned);
   if (extras.lastSummary !== undefined) {
     const trimmed = (extras.lastSummary || '').trim();
     parts.push(trimmed
@@ -141,9 +156,18 @@ export async function getMeetingProgressExtras(meeting: any, options: { includeL
   const totalMeetings = typeof meeting.cycle?.totalMeetings === 'number'
     ? meeting.cycle.totalMeetings
     : undefined;
+  // Callers include the meeting's curriculum lesson when they want it in the message
+  const lesson = meeting.lesson
+    ? {
+      title: meeting.lesson.title,
+      objectives: meeting.lesson.objectives ?? null,
+      materialLinks: meeting.lesson.materialLinks ?? [],
+      durationMinutes: meeting.lesson.durationMinutes ?? null,
+    }
+    : undefined;
 
   if (typeof totalMeetings !== 'number') {
-    return undefined;
+    return lesson ? { lesson } : undefined;
   }
 
   const completedBefore = await prisma.meeting.count({
@@ -165,6 +189,7 @@ export async function getMeetingProgressExtras(meeting: any, options: { includeL
     totalMeetings,
     remainingAfter,
     remaining: Math.max(0, totalMeetings - completedBefore),
+    lesson,
   };
 
   if (options.includeLastSummary) {
@@ -216,8 +241,10 @@ function buildMorningMessage(instructorName: string, meetings: any[], meetingLin
     const hostKey = m.zoomHostKey ? ` | קוד מנהל: ${m.zoomHostKey}` : '';
     const progress = formatLessonProgress(meetingExtras?.get(m.id), true);
     const progressText = progress ? ` | 📊 ${progress}` : '';
+    const lessonTitle = meetingExtras?.get(m.id)?.lesson?.title;
+    const lessonText = lessonTitle ? ` | 🎯 ${lessonTitle}` : '';
     const link = meetingLinks?.get(m.id) ? `\n📋 ${meetingLinks.get(m.id)}` : '';
-    lines.push(`\n📚 ${m.cycle?.name || ''} | 🏫 ${m.cycle?.branch?.name || ''} | 🕐 ${time}${progressText}${zoom}${hostKey}${link}`);
+    lines.push(`\n📚 ${m.cycle?.name || ''} | 🏫 ${m.cycle?.branch?.name || ''} | 🕐 ${time}${progressText}${lessonText}${zoom}${hostKey}${link}`);
   }
   lines.push('\nבהצלחה! 🙂');
   return lines.join('');
@@ -230,8 +257,10 @@ function buildMorningScheduleText(meetings: any[], meetingLinks?: Map<string, st
     const hostKey = m.zoomHostKey ? ` | קוד מנהל: ${m.zoomHostKey}` : '';
     const progress = formatLessonProgress(meetingExtras?.get(m.id), true);
     const progressText = progress ? ` | ${progress}` : '';
+    const lessonTitle = meetingExtras?.get(m.id)?.lesson?.title;
+    const lessonText = lessonTitle ? ` | נושא: ${lessonTitle}` : '';
     const link = meetingLinks?.get(m.id) ? ` | דיווח: ${meetingLinks.get(m.id)}` : '';
-    return `${time} - ${m.cycle?.name || 'שיעור'} | ${m.cycle?.branch?.name || 'אונליין'}${progressText}${zoom}${hostKey}${link}`;
+    return `${time} - ${m.cycle?.name || 'שיעור'} | ${m.cycle?.branch?.name || 'אונליין'}${progressText}${lessonText}${zoom}${hostKey}${link}`;
   }).join('\n');
 }
 
@@ -243,7 +272,8 @@ function buildMeetingTitle(meeting: any): string {
 
 function buildMeetingTitleWithProgress(meeting: any, extras?: MeetingExtras): string {
   const progress = formatLessonProgress(extras, true);
-  return progress ? `${buildMeetingTitle(meeting)} | ${progress}` : buildMeetingTitle(meeting);
+  const title = progress ? `${buildMeetingTitle(meeting)} | ${progress}` : buildMeetingTitle(meeting);
+  return extras?.lesson ? `${title} | ${extras.lesson.title}` : title;
 }
 
 export function isPreMeetingReminderDue(nowMin: number, meetMin: number): boolean {
@@ -346,6 +376,7 @@ export async function sendMorningWhatsAppReminders(): Promise<void> {
       include: {
         cycle: { include: { branch: true, course: true } },
         instructor: true,
+        lesson: true,
       },
       orderBy: { startTime: 'asc' },
     });
@@ -479,6 +510,7 @@ export async function sendPreMeetingReminders(): Promise<void> {
       include: {
         cycle: { include: { branch: true, course: true } },
         instructor: true,
+        lesson: true,
       },
     });
 
@@ -627,7 +659,7 @@ export async function handleStatusReply(phone: string, isYes: boolean): Promise<
     const reminders = await prisma.$queryRaw<any[]>`
       SELECT wsr.id, wsr.meeting_id, wsr.instructor_id,
              i.name as instructor_name, c.name as cycle_name,
-             m.notes as meeting_notes, m.cycle_id
+             m.notes as meeting_notes, m.status as meeting_status, m.cycle_id
       FROM whatsapp_status_reminders wsr
       JOIN meetings m ON m.id = wsr.meeting_id
       JOIN instructors i ON i.id = wsr.instructor_id
@@ -657,10 +689,11 @@ export async function handleStatusReply(phone: string, isYes: boolean): Promise<
       const currentNotes = r.meeting_notes || '';
       const newNotes = (currentNotes + '\n[אוטומטי] מדריך דיווח שהשיעור התקיים דרך וואטסאפ. לא מילא עצמאית.').trim();
 
-      await prisma.meeting.update({
+      const completedMeeting = await prisma.meeting.update({
         where: { id: r.meeting_id },
         data: { status: 'completed', notes: newNotes },
       });
+      publishMeetingUpdated(completedMeeting, r.meeting_status);
 
       await recalculateCompletedMeetingFinancials(r.meeting_id);
 
@@ -683,10 +716,11 @@ export async function handleStatusReply(phone: string, isYes: boolean): Promise<
       const currentNotes = r.meeting_notes || '';
       const cancelNotes = (currentNotes + '\n[אוטומטי] מדריך דיווח שהשיעור לא התקיים דרך וואטסאפ.').trim();
 
-      await prisma.meeting.update({
+      const cancelledMeeting = await prisma.meeting.update({
         where: { id: r.meeting_id },
         data: { status: 'cancelled', notes: cancelNotes },
       });
+      publishMeetingUpdated(cancelledMeeting, r.meeting_status);
 
       await syncCycleProgress(r.cycle_id);
 
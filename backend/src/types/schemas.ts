@@ -69,6 +69,31 @@ export const createCourseSchema = z.object({
 
 export const updateCourseSchema = createCourseSchema.partial();
 
+export const courseSkillSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  description: z.string().optional().nullable(),
+  kind: z.enum(['skill', 'milestone']).default('skill'),
+  sortOrder: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+});
+
+export const updateCourseSkillSchema = courseSkillSchema.partial();
+
+export const courseLessonSchema = z.object({
+  title: z.string().trim().min(2, 'Title must be at least 2 characters'),
+  objectives: z.string().optional().nullable(),
+  materialLinks: z.array(z.string().trim().url('Invalid material link')).max(20).default([]),
+  durationMinutes: z.number().int().positive().max(600).optional().nullable(),
+  // Inserted at this position (1-based), shifting later lessons; appended when omitted
+  lessonNumber: z.number().int().positive().optional(),
+});
+
+export const updateCourseLessonSchema = courseLessonSchema.omit({ lessonNumber: true }).partial();
+
+export const reorderCourseLessonsSchema = z.object({
+  lessonIds: z.array(z.string().uuid()).min(1),
+});
+
 // Branch schemas
 export const createBranchSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -83,6 +108,17 @@ export const createBranchSchema = z.object({
 
 export const updateBranchSchema = createBranchSchema.partial();
 
+// Branch blackout (single day: omit endDate)
+export const createBranchBlackoutSchema = z.object({
+  reason: z.string().min(2, 'Reason must be at least 2 characters'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional().nullable(),
+  apply: z.boolean().default(true),
+}).refine(
+  (data) => !data.endDate || data.endDate >= data.startDate,
+  { message: 'End date must be on or after start date', path: ['endDate'] }
+);
+
 // Instructor schemas
 export const createInstructorSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -106,6 +142,25 @@ export const createInstructorSchema = z.object({
 
 export const updateInstructorSchema = createInstructorSchema.partial();
 
+// Instructor availability (routes/instructors.ts) — feeds the substitute finder
+const availabilitySlotSchema = z.object({
+  dayOfWeek: z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
+}).refine((data) => data.startTime < data.endTime, {
+  message: 'End time must be after start time',
+  path: ['endTime'],
+});
+
+export const instructorAvailabilitySchema = z.object({
+  slots: z.array(availabilitySlotSchema).max(50),
+});
+
+export const instructorUnavailableDateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  reason: z.string().max(500).optional().nullable(),
+});
+
 // Institutional Order schemas
 export const createInstitutionalOrderSchema = z.object({
   branchId: z.string().min(1, 'Invalid branch ID'),
@@ -131,7 +186,24 @@ export const createInstitutionalOrderSchema = z.object({
 
 export const updateInstitutionalOrderSchema = createInstitutionalOrderSchema.partial().omit({ branchId: true });
 
-// Cycle schemas
+// Organization closure schemas (holiday calendar overrides)
+const closureBaseSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  kind: z.enum(['vacation', 'strike', 'ministry_calendar', 'other']).default('other'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  branchTypes: z.array(z.enum(['school', 'community_center', 'frontal', 'online'])).default([]),
+  closed: z.boolean().default(true),
+  notes: z.string().optional().nullable(),
+});
+
+export const createClosureSchema = closureBaseSchema.refine(
+  (data) => data.endDate >= data.startDate,
+  { message: 'End date must be on or after start date', path: ['endDate'] }
+);
+
+export const updateClosureSchema = closureBaseSchema.partial();
+
 const cycleBaseSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   courseId: z.string().min(1, 'Course ID is required'),
@@ -167,6 +239,11 @@ const cycleBaseSchema = z.object({
   zoomPassword: z.string().optional().nullable(),
 });
 
+// Opt-in override for the instructor double-booking check (409 INSTRUCTOR_CONFLICT)
+export const allowConflictsSchema = z.object({
+  allowConflicts: z.boolean().optional(),
+});
+
 // Location is mandatory for frontal cycles; online/private lessons don't have a physical location.
 const requireLocationForFrontal = (
   data: { activityType?: string; location?: string | null },
@@ -199,10 +276,11 @@ const requireOrderForInstitutional = (
 };
 
 export const createCycleSchema = cycleBaseSchema
+  .merge(allowConflictsSchema)
   .superRefine(requireLocationForFrontal)
   .superRefine(requireOrderForInstitutional);
 
-export const updateCycleSchema = cycleBaseSchema.partial().extend({
+export const updateCycleSchema = cycleBaseSchema.partial().merge(allowConflictsSchema).extend({
   status: z.enum(['active', 'completed', 'cancelled', 'frozen', 'retainer']).optional(),
   completedMeetings: z.number().int().nonnegative().optional(),
   remainingMeetings: z.number().int().nonnegative().optional(),
@@ -227,6 +305,45 @@ export const updateRegistrationSchema = createRegistrationSchema.partial().omit(
   creditInvoiceLink: z.string().url().optional().nullable(),
 });
 
+// Parent app self-service requests (routes/parent-app.ts) and their review (routes/parent-requests.ts)
+export const parentAbsenceRequestSchema = z.object({
+  registrationId: z.string().min(1, 'Registration ID is required'),
+  meetingId: z.string().min(1, 'Meeting ID is required'),
+  reason: z.string().max(500).optional().nullable(),
+});
+
+export const parentMakeupRequestSchema = z.object({
+  registrationId: z.string().min(1, 'Registration ID is required'),
+  makeupMeetingId: z.string().min(1, 'Make-up meeting ID is required'),
+  meetingId: z.string().min(1).optional().nullable(),
+  reason: z.string().max(500).optional().nullable(),
+});
+
+export const parentCancellationRequestSchema = z.object({
+  registrationId: z.string().min(1, 'Registration ID is required'),
+  reason: z.string().min(2, 'Please tell us why you are cancelling').max(1000),
+});
+
+export const reviewParentRequestSchema = z.object({
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+// Cycle waitlist (routes/cycles.ts adds entries, routes/waitlist.ts manages them)
+export const addWaitlistEntrySchema = z.object({
+  customerId: z.string().min(1, 'Customer ID is required'),
+  studentId: z.string().min(1).optional().nullable(),
+  childName: z.string().trim().min(1).max(100).optional().nullable(),
+  notes: z.string().max(1000).optional().nullable(),
+}).refine((data) => data.studentId || data.childName, {
+  message: 'Student or child name is required',
+  path: ['studentId'],
+});
+
+export const updateWaitlistEntrySchema = z.object({
+  position: z.number().int().positive().optional(),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
 // Meeting schemas
 export const meetingNatureEnum = z.enum(['regular', 'no_revenue']);
 export const videoMeetingProviderEnum = z.enum(['zoom', 'google_meet']);
@@ -273,6 +390,7 @@ export const updateMeetingSchema = z.object({
   zoomHostEmail: z.string().email().optional().nullable().transform(lowercase),
   googleMeetSpaceName: z.string().optional().nullable(),
   googleCalendarEventId: z.string().optional().nullable(),
+  allowConflicts: z.boolean().optional(),
 });
 
 export const postponeMeetingSchema = z.object({
@@ -325,6 +443,54 @@ export const bulkUpdateCyclesSchema = z.object({
   ),
 });
 
+// Drip campaign schemas
+export const dripTriggerEnum = z.enum(['audience', 'facebook_lead', 'cycle_completed', 'trial_not_registered']);
+export const dripExitConditionEnum = z.enum(['registered', 'replied', 'unsubscribed']);
+
+export const campaignDripSettingsSchema = z.object({
+  type: z.enum(['one_shot', 'drip']).optional(),
+  trigger: dripTriggerEnum.optional().nullable(),
+  exitConditions: z.array(dripExitConditionEnum).optional(),
+});
+
+export const campaignStepsSchema = z.object({
+  steps: z.array(z.object({
+    delayMinutes: z.number().int().min(0).max(60 * 24 * 365),
+    channel: z.enum(['email', 'whatsapp', 'both']),
+    condition: z.enum(['always', 'opened', 'not_opened', 'clicked', 'not_clicked']).optional().default('always'),
+    subject: z.string().optional().nullable(),
+    contentHtml: z.string().optional().nullable(),
+    contentWa: z.string().optional().nullable(),
+  }).refine(
+    (step) => (step.channel === 'whatsapp' || (step.subject && step.contentHtml)) && (step.channel === 'email' || step.contentWa),
+    { message: 'Each step needs content for its channel' }
+  )).max(20, 'A sequence can have at most 20 steps'),
+});
+
+// A/B test schemas
+export const campaignVariantsSchema = z.object({
+  variants: z.array(z.object({
+    subject: z.string().optional().nullable(),
+    contentHtml: z.string().optional().nullable(),
+    contentWa: z.string().optional().nullable(),
+  })).max(5, 'A campaign can have at most 5 variants'),
+  abTestPercent: z.number().int().min(2).max(90).optional(),
+  abWinnerMetric: z.enum(['open', 'click']).optional(),
+  abWindowHours: z.number().int().min(1).max(168).optional(),
+}).refine((data) => data.variants.length !== 1, { message: 'An A/B test needs at least two variants' });
+
+export const campaignAttributionQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  windowDays: z.coerce.number().int().min(1).max(365).optional(),
+});
+
+export const audienceSegmentSchema = z.object({
+  name: z.string().min(1, 'Segment name is required'),
+  description: z.string().optional().nullable(),
+  filters: z.record(z.unknown()),
+});
+
 // Export types
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
@@ -336,14 +502,28 @@ export type CreateCourseInput = z.infer<typeof createCourseSchema>;
 export type UpdateCourseInput = z.infer<typeof updateCourseSchema>;
 export type CreateBranchInput = z.infer<typeof createBranchSchema>;
 export type UpdateBranchInput = z.infer<typeof updateBranchSchema>;
+export type CreateBranchBlackoutInput = z.infer<typeof createBranchBlackoutSchema>;
+export type CreateClosureInput = z.infer<typeof createClosureSchema>;
+export type UpdateClosureInput = z.infer<typeof updateClosureSchema>;
 export type CreateInstructorInput = z.infer<typeof createInstructorSchema>;
 export type UpdateInstructorInput = z.infer<typeof updateInstructorSchema>;
+export type InstructorAvailabilityInput = z.infer<typeof instructorAvailabilitySchema>;
+export type InstructorUnavailableDateInput = z.infer<typeof instructorUnavailableDateSchema>;
 export type CreateCycleInput = z.infer<typeof createCycleSchema>;
 export type UpdateCycleInput = z.infer<typeof updateCycleSchema>;
 export type CreateRegistrationInput = z.infer<typeof createRegistrationSchema>;
 export type UpdateRegistrationInput = z.infer<typeof updateRegistrationSchema>;
+export type ParentAbsenceRequestInput = z.infer<typeof parentAbsenceRequestSchema>;
+export type ParentMakeupRequestInput = z.infer<typeof parentMakeupRequestSchema>;
+export type ParentCancellationRequestInput = z.infer<typeof parentCancellationRequestSchema>;
+export type AddWaitlistEntryInput = z.infer<typeof addWaitlistEntrySchema>;
+export type UpdateWaitlistEntryInput = z.infer<typeof updateWaitlistEntrySchema>;
 export type CreateMeetingInput = z.infer<typeof createMeetingSchema>;
 export type UpdateMeetingInput = z.infer<typeof updateMeetingSchema>;
 export type CreateAttendanceInput = z.infer<typeof createAttendanceSchema>;
 export type BulkAttendanceInput = z.infer<typeof bulkAttendanceSchema>;
 export type BulkUpdateCyclesInput = z.infer<typeof bulkUpdateCyclesSchema>;
+export type CampaignDripSettingsInput = z.infer<typeof campaignDripSettingsSchema>;
+export type CampaignStepsInput = z.infer<typeof campaignStepsSchema>;
+export type CampaignVariantsInput = z.infer<typeof campaignVariantsSchema>;
+export type AudienceSegmentInput = z.infer<typeof audienceSegmentSchema>;
@@ -0,0 +1,147 @@
+/**
+ * Tests for the offline holiday calendar and organization closures.
+ * Hebrew-calendar dates are checked against the published Israeli calendar.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockFindMany = vi.hoisted(() => vi.fn());
+const mockBlackoutFindMany = vi.hoisted(() => vi.fn());
+
+vi.mock('../prisma.js', () => ({
+  prisma: {
+    organizationClosure: { findMany: mockFindMany },
+    branchBlackout: { findMany: mockBlackoutFindMany },
+  },
+}));
+
+import { getIsraeliHolidays, hebrewToGregorian, HEBREW_MONTHS, isHebrewLeapYear } from '../hebrew-calendar.js';
+import { getClosedDays, calculateCycleEndDate } from '../holidays.js';
+
+function dateOf(year: number, key: string): string[] {
+  return getIsraeliHolidays(year).filter((h) => h.key === key).map((h) => h.date);
+}
+
+function closure(overrides: Record<string, unknown>) {
+  return {
+    id: 'closure-1',
+    name: 'שביתה',
+    kind: 'strike',
+    startDate: new Date('2026-11-02T00:00:00.000Z'),
+    endDate: new Date('2026-11-03T00:00:00.000Z'),
+    branchTypes: [],
+    closed: true,
+    notes: null,
+    ...overrides,
+  };
+}
+
+describe('hebrew calendar', () => {
+  it('converts Hebrew dates to Gregorian', () => {
+    expect(hebrewToGregorian(5786, HEBREW_MONTHS.TISHREI, 1).toISOString()).toBe('2025-09-23T00:00:00.000Z');
+    expect(hebrewToGregorian(5786, HEBREW_MONTHS.NISAN, 15).toISOString()).toBe('2026-04-02T00:00:00.000Z');
+    expect(isHebrewLeapYear(5784)).toBe(true);
+    expect(isHebrewLeapYear(5786)).toBe(false);
+  });
+
+  it('computes the 2026 holidays', () => {
+    expect(dateOf(2026, 'purim')).toEqual(['2026-03-03']);
+    expect(dateOf(2026, 'pesach_1')).toEqual(['2026-04-02']);
+    expect(dateOf(2026, 'shavuot')).toEqual(['2026-05-22']);
+    expect(dateOf(2026, 'rosh_hashana_1')).toEqual(['2026-09-12']);
+    expect(dateOf(2026, 'yom_kippur')).toEqual(['2026-09-21']);
+    expect(dateOf(2026, 'chanukah_1')).toEqual(['2026-12-05']);
+  });
+
+  it('moves Yom HaAtzmaut and Tisha BAv off Shabbat', () => {
+    // 5 Iyar 5785 fell on Friday → celebrated Thursday
+    expect(dateOf(2025, 'yom_haatzmaut')).toEqual(['2025-05-01']);
+    expect(dateOf(2025, 'yom_hazikaron')).toEqual(['2025-04-30']);
+    // 9 Av 5785 fell on Shabbat → observed Sunday
+    expect(dateOf(2025, 'tisha_bav')).toEqual(['2025-08-03']);
+  });
+
+  it('uses Adar II for Purim in a leap year', () => {
+    expect(dateOf(2024, 'purim')).toEqual(['2024-03-24']);
+  });
+});
+
+describe('getClosedDays', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFindMany.mockResolvedValue([]);
+    mockBlackoutFindMany.mockResolvedValue([]);
+  });
+
+  it('returns built-in holidays without any closures', async () => {
+    const days = await getClosedDays(new Date('2026-09-20'), new Date('2026-09-22'));
+
+    expect(Array.from(days.keys())).toEqual(['2026-09-20', '2026-09-21']);
+    expect(days.get('2026-09-21')).toMatchObject({ name: 'יום כיפור', source: 'holiday' });
+  });
+
+  it('adds closures only for the branch types they apply to', async () => {
+    mockFindMany.mockResolvedValue([closure({ branchTypes: ['school'] })]);
+
+    const forSchool = await getClosedDays(new Date('2026-11-01'), new Date('2026-11-05'), 'school');
+    const forOnline = await getClosedDays(new Date('2026-11-01'), new Date('2026-11-05'), 'online');
+
+    expect(Array.from(forSchool.keys())).toEqual(['2026-11-02', '2026-11-03']);
+    expect(forSchool.get('2026-11-02')).toMatchObject({ source: 'closure', kind: 'strike', closureId: 'closure-1' });
+    expect(forOnline.size).toBe(0);
+  });
+
+  it('lets an open-day override remove a built-in holiday', async () => {
+    mockFindMany.mockResolvedValue([
+      closure({
+        name: 'פעילות בחנוכה',
+        kind: 'ministry_calendar',
+        startDate: new Date('2026-12-05T00:00:00.000Z'),
+        endDate: new Date('2026-12-12T00:00:00.000Z'),
+        branchTypes: ['community_center'],
+        closed: false,
+      }),
+    ]);
+
+    const center = await getClosedDays(new Date('2026-12-05'), new Date('2026-12-12'), 'community_center');
+    const school = await getClosedDays(new Date('2026-12-05'), new Date('2026-12-12'), 'school');
+
+    expect(center.size).toBe(0);
+    expect(school.size).toBe(8);
+  });
+
+  it('adds the branch blackout days only when a branch is given', async () => {
+    mockBlackoutFindMany.mockResolvedValue([{
+      id: 'blackout-1',
+      reason: 'שבוע מבחנים',
+      startDate: new Date('2026-11-09T00:00:00.000Z'),
+      endDate: new Date('2026-11-10T00:00:00.000Z'),
+    }]);
+
+    const withBranch = await getClosedDays(new Date('2026-11-08'), new Date('2026-11-12'), 'school', 'branch-1');
+    const withoutBranch = await getClosedDays(new Date('2026-11-08'), new Date('2026-11-12'), 'school');
+
+    expect(mockBlackoutFindMany).toHaveBeenCalledTimes(1);
+    expect(mockBlackoutFindMany.mock.calls[0][0].where.branchId).toBe('branch-1');
+    expect(Array.from(withBranch.values())).toEqual([
+      { date: '2026-11-09', name: 'שבוע מבחנים', source: 'blackout', blackoutId: 'blackout-1' },
+      { date: '2026-11-10', name: 'שבוע מבחנים', source: 'blackout', blackoutId: 'blackout-1' },
+    ]);
+    expect(withoutBranch.size).toBe(0);
+  });
+
+  it('skips closed days when calculating a cycle end date', async () => {
+    mockFindMany.mockResolvedValue([
+      closure({ startDate: new Date('2026-11-03T00:00:00.000Z'), endDate: new Date('2026-11-03T00:00:00.000Z') }),
+    ]);
+
+    // Tuesdays from 2026-10-27; 2026-11-03 is closed
+    const result = await calculateCycleEndDate(new Date('2026-10-27T00:00:00.000Z'), 2, 3, 'school');
+
+    expect(result.meetingDates.map((d) => d.toISOString().split('T')[0])).toEqual([
+      '2026-10-27',
+      '2026-11-10',
+      '2026-11-17',
+    ]);
+  });
+});
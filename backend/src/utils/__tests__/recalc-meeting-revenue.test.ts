@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  cycle: { findUnique: vi.fn(), update: vi.fn() },
+  meeting: { findMany: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('../prisma.js', () => ({ prisma: prismaMock }));
+vi.mock('../../services/negative-profit-alert.js', () => ({ checkAndSendNegativeProfitAlert: vi.fn() }));
+
+import { recalcMeetingRevenue } from '../recalcMeetingRevenue.js';
+
+describe('recalcMeetingRevenue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.meeting.findMany.mockResolvedValue([]);
+  });
+
+  it('does not store revenue derived from registrations as the cycle meeting revenue', async () => {
+    prismaMock.cycle.findUnique.mockResolvedValue({
+      type: 'private',
+      pricePerStudent: null,
+      meetingRevenue: null,
+      totalMeetings: 10,
+      registrations: [{ amount: 1180 }, { amount: 1180 }],
+    });
+
+    await recalcMeetingRevenue('cycle-1');
+
+    expect(prismaMock.cycle.update).toHaveBeenCalledWith({ where: { id: 'cycle-1' }, data: { studentCount: 2 } });
+  });
+
+  it('keeps storing per-child institutional revenue', async () => {
+    prismaMock.cycle.findUnique.mockResolvedValue({
+      type: 'institutional_per_child',
+      pricePerStudent: 30,
+      meetingRevenue: 60,
+      totalMeetings: 10,
+      registrations: [{ amount: null }, { amount: null }, { amount: null }],
+    });
+
+    await recalcMeetingRevenue('cycle-1');
+
+    expect(prismaMock.cycle.update).toHaveBeenCalledWith({
+      where: { id: 'cycle-1' },
+      data: { studentCount: 3, meetingRevenue: 90 },
+    });
+  });
+});
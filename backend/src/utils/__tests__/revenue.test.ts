@@ -1,9 +1,14 @@
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it } from 'vitest';
 import {
+  DEFAULT_VAT_RATES,
+  grossFromNet,
   meetingRevenueForCycle,
   meetingRevenueForMeeting,
   meetingRevenueFromRegistrations,
+  netAmount,
   revenueRegistrationCount,
+  setVatRates,
+  vatRateOn,
 } from '../revenue.js';
 
 describe('revenue helpers', () => {
@@ -99,4 +104,29 @@ describe('revenue helpers', () => {
       nature: 'regular',
     })).toBe(250);
   });
+
+  describe('effective-dated VAT', () => {
+    afterEach(() => setVatRates(DEFAULT_VAT_RATES));
+
+    it('uses the rate in force on the date', () => {
+      expect(vatRateOn('2024-12-31')).toBe(0.17);
+      expect(vatRateOn(new Date('2025-01-01T00:00:00.000Z'))).toBe(0.18);
+      expect(vatRateOn('2010-06-01')).toBe(0.17);
+      expect(netAmount(1170, 'private', '2024-06-01')).toBeCloseTo(1000);
+      expect(netAmount(1180, 'private', '2025-06-01')).toBeCloseTo(1000);
+      expect(grossFromNet(100, '2024-06-01')).toBeCloseTo(117);
+    });
+
+    it('splits private registrations at the meeting date rate', () => {
+      const cycle = { type: 'private', totalMeetings: 10, registrations: [{ status: 'active', amount: 1170 }] };
+      expect(meetingRevenueForMeeting(cycle, { nature: 'regular', scheduledDate: '2024-11-10' })).toBe(100);
+      expect(meetingRevenueForMeeting(cycle, { nature: 'regular', scheduledDate: '2025-02-10' })).toBe(99.15);
+    });
+
+    it('picks up a newly added rate from its start date only', () => {
+      setVatRates([...DEFAULT_VAT_RATES, { effectiveFrom: '2027-01-01', rate: 0.19 }]);
+      expect(vatRateOn('2026-12-31')).toBe(0.18);
+      expect(vatRateOn('2027-01-01')).toBe(0.19);
+    });
+  });
 });
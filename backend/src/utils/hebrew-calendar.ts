@@ -0,0 +1,180 @@
+// Offline Hebrew calendar — arithmetic rules from Calendrical Calculations
+// (Reingold & Dershowitz). No network access: Israeli holidays are computed locally.
+
+/** Hebrew months, numbered from Nisan as in the Bible; Adar II only exists in leap years. */
+export const HEBREW_MONTHS = {
+  NISAN: 1,
+  IYAR: 2,
+  SIVAN: 3,
+  TAMMUZ: 4,
+  AV: 5,
+  ELUL: 6,
+  TISHREI: 7,
+  HESHVAN: 8,
+  KISLEV: 9,
+  TEVET: 10,
+  SHEVAT: 11,
+  ADAR: 12, // Adar I in a leap year
+  ADAR_II: 13,
+} as const;
+
+const HEBREW_EPOCH_RD = -1373427; // R.D. of 1 Tishrei AM 1
+const UNIX_EPOCH_RD = 719163; // R.D. of 1970-01-01
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function isHebrewLeapYear(year: number): boolean {
+  return ((7 * year + 1) % 19) < 7;
+}
+
+function lastMonthOfYear(year: number): number {
+  return isHebrewLeapYear(year) ? HEBREW_MONTHS.ADAR_II : HEBREW_MONTHS.ADAR;
+}
+
+/** Days from the epoch to the molad of Tishrei, with the "molad zaken" / weekday postponement. */
+function elapsedDays(year: number): number {
+  const monthsElapsed = Math.floor((235 * year - 234) / 19);
+  const partsElapsed = 12084 + 13753 * monthsElapsed;
+  const days = 29 * monthsElapsed + Math.floor(partsElapsed / 25920);
+  return ((3 * (days + 1)) % 7) < 3 ? days + 1 : days;
+}
+
+/** Postponement that keeps year lengths within the allowed 353–355 / 383–385 days. */
+function yearLengthCorrection(year: number): number {
+  const ny0 = elapsedDays(year - 1);
+  const ny1 = elapsedDays(year);
+  const ny2 = elapsedDays(year + 1);
+  if (ny2 - ny1 === 356) return 2;
+  if (ny1 - ny0 === 382) return 1;
+  return 0;
+}
+
+function newYearRd(year: number): number {
+  return HEBREW_EPOCH_RD + elapsedDays(year) + yearLengthCorrection(year);
+}
+
+export function daysInHebrewYear(year: number): number {
+  return newYearRd(year + 1) - newYearRd(year);
+}
+
+export function daysInHebrewMonth(year: number, month: number): number {
+  switch (month) {
+    case HEBREW_MONTHS.IYAR:
+    case HEBREW_MONTHS.TAMMUZ:
+    case HEBREW_MONTHS.ELUL:
+    case HEBREW_MONTHS.TEVET:
+    case HEBREW_MONTHS.ADAR_II:
+      return 29;
+    case HEBREW_MONTHS.ADAR:
+      return isHebrewLeapYear(year) ? 30 : 29;
+    case HEBREW_MONTHS.HESHVAN:
+      return daysInHebrewYear(year) % 10 === 5 ? 30 : 29;
+    case HEBREW_MONTHS.KISLEV:
+      return daysInHebrewYear(year) % 10 === 3 ? 29 : 30;
+    default:
+      return 30;
+  }
+}
+
+function hebrewToRd(year: number, month: number, day: number): number {
+  let days = newYearRd(year) + day - 1;
+  if (month < HEBREW_MONTHS.TISHREI) {
+    for (let m = HEBREW_MONTHS.TISHREI; m <= lastMonthOfYear(year); m++) days += daysInHebrewMonth(year, m);
+    for (let m = HEBREW_MONTHS.NISAN; m < month; m++) days += daysInHebrewMonth(year, m);
+  } else {
+    for (let m = HEBREW_MONTHS.TISHREI; m < month; m++) days += daysInHebrewMonth(year, m);
+  }
+  return days;
+}
+
+/**
+ * Gregorian date (UTC midnight) of a Hebrew date. `month` uses {@link HEBREW_MONTHS};
+ * in a common year Adar II maps to Adar.
+ */
+export function hebrewToGregorian(year: number, month: number, day: number): Date {
+  const m = month === HEBREW_MONTHS.ADAR_II && !isHebrewLeapYear(year) ? HEBREW_MONTHS.ADAR : month;
+  return new Date((hebrewToRd(year, m, day) - UNIX_EPOCH_RD) * MS_PER_DAY);
+}
+
+export interface HebrewHoliday {
+  date: string; // YYYY-MM-DD
+  key: string; // stable identifier, e.g. 'pesach_1', 'sukkot_chol_hamoed'
+  name: string; // Hebrew display name
+}
+
+function toDateKey(d: Date): string {
+  return d.toISOString().split('T')[0];
+}
+
+function addDays(d: Date, days: number): Date {
+  return new Date(d.getTime() + days * MS_PER_DAY);
+}
+
+/** Israeli holidays (and the eves/chol-hamoed days classes don't run on) of one Hebrew year. */
+function holidaysOfHebrewYear(year: number): HebrewHoliday[] {
+  const { NISAN, IYAR, SIVAN, AV, TISHREI, KISLEV, ADAR_II } = HEBREW_MONTHS;
+  const out: HebrewHoliday[] = [];
+  const push = (d: Date, key: string, name: string) => out.push({ date: toDateKey(d), key, name });
+
+  const roshHashana = hebrewToGregorian(year, TISHREI, 1);
+  push(addDays(roshHashana, -1), 'erev_rosh_hashana', 'ערב ראש השנה');
+  push(roshHashana, 'rosh_hashana_1', 'ראש השנה');
+  push(addDays(roshHashana, 1), 'rosh_hashana_2', 'ראש השנה (יום ב׳)');
+  push(hebrewToGregorian(year, TISHREI, 9), 'erev_yom_kippur', 'ערב יום כיפור');
+  push(hebrewToGregorian(year, TISHREI, 10), 'yom_kippur', 'יום כיפור');
+  push(hebrewToGregorian(year, TISHREI, 14), 'erev_sukkot', 'ערב סוכות');
+  push(hebrewToGregorian(year, TISHREI, 15), 'sukkot_1', 'סוכות');
+  for (let day = 16; day <= 21; day++) {
+    push(hebrewToGregorian(year, TISHREI, day), 'sukkot_chol_hamoed', day === 21 ? 'הושענא רבה' : 'חול המועד סוכות');
+  }
+  push(hebrewToGregorian(year, TISHREI, 22), 'shmini_atzeret', 'שמיני עצרת / שמחת תורה');
+
+  const chanukah = hebrewToGregorian(year, KISLEV, 25);
+  for (let i = 0; i < 8; i++) push(addDays(chanukah, i), `chanukah_${i + 1}`, `חנוכה (יום ${i + 1})`);
+
+  push(hebrewToGregorian(year, ADAR_II, 14), 'purim', 'פורים');
+
+  push(hebrewToGregorian(year, NISAN, 14), 'erev_pesach', 'ערב פסח');
+  push(hebrewToGregorian(year, NISAN, 15), 'pesach_1', 'פסח');
+  for (let day = 16; day <= 20; day++) push(hebrewToGregorian(year, NISAN, day), 'pesach_chol_hamoed', 'חול המועד פסח');
+  push(hebrewToGregorian(year, NISAN, 21), 'pesach_7', 'שביעי של פסח');
+
+  // Yom HaZikaron / Yom HaAtzma'ut move to avoid Shabbat desecration (Knesset rules since 2004).
+  let atzmaut = hebrewToGregorian(year, IYAR, 5);
+  const weekday = atzmaut.getUTCDay();
+  if (weekday === 5) atzmaut = addDays(atzmaut, -1); // Friday → Thursday
+  else if (weekday === 6) atzmaut = addDays(atzmaut, -2); // Shabbat → Thursday
+  else if (weekday === 1) atzmaut = addDays(atzmaut, 1); // Monday → Tuesday (Zikaron off Motzei Shabbat)
+  push(addDays(atzmaut, -1), 'yom_hazikaron', 'יום הזיכרון');
+  push(atzmaut, 'yom_haatzmaut', 'יום העצמאות');
+
+  push(hebrewToGregorian(year, SIVAN, 5), 'erev_shavuot', 'ערב שבועות');
+  push(hebrewToGregorian(year, SIVAN, 6), 'shavuot', 'שבועות');
+
+  let tishaBav = hebrewToGregorian(year, AV, 9);
+  if (tishaBav.getUTCDay() === 6) tishaBav = addDays(tishaBav, 1); // נדחה
+  push(tishaBav, 'tisha_bav', 'תשעה באב');
+
+  return out;
+}
+
+const yearCache = new Map<number, HebrewHoliday[]>();
+
+/**
+ * All Israeli holidays falling in a Gregorian year, sorted by date. Pure and cached —
+ * a Gregorian year spans two Hebrew years (AM = year + 3760 / + 3761).
+ */
+export function getIsraeliHolidays(gregorianYear: number): HebrewHoliday[] {
+  const cached = yearCache.get(gregorianYear);
+  if (cached) return cached;
+
+  const prefix = `${gregorianYear}-`;
+  const holidays = [
+    ...holidaysOfHebrewYear(gregorianYear + 3760),
+    ...holidaysOfHebrewYear(gregorianYear + 3761),
+  ]
+    .filter((h) => h.date.startsWith(prefix))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  yearCache.set(gregorianYear, holidays);
+  return holidays;
+}
@@ -1,77 +1,119 @@
-// Israeli holidays utility using Hebcal API
-
-interface HebcalItem {
-  title: string;
-  date: string;
-  category: string;
+// Israeli holidays utility — offline Hebrew calendar + organization closures from the DB
+import type { BranchType, ClosureKind } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { getIsraeliHolidays } from './hebrew-calendar.js';
+
+export interface ClosedDay {
+  date: string; // YYYY-MM-DD
+  name: string;
+  source: 'holiday' | 'closure' | 'blackout';
+  kind?: ClosureKind;
+  closureId?: string;
+  blackoutId?: string;
 }
 
-interface HebcalResponse {
-  items: HebcalItem[];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function toDateKey(d: Date): string {
+  return d.toISOString().split('T')[0];
 }
 
-// Cache holidays by year
-const holidayCache: Map<number, Set<string>> = new Map();
+function closureAppliesTo(branchTypes: BranchType[], branchType?: BranchType | null): boolean {
+  if (branchTypes.length === 0) return true;
+  return !!branchType && branchTypes.includes(branchType);
+}
 
 /**
- * Fetch Israeli holidays for a given year from Hebcal API
+ * Every day between `start` and `end` (inclusive, by date) on which classes don't run:
+ * built-in Hebrew-calendar holidays, minus explicit open days, plus organization closures
+ * that apply to the given branch type, plus the branch's own blackout days when `branchId`
+ * is given. Closures restricted to branch types are skipped when no branch type is known.
  */
-export async function fetchHolidays(year: number): Promise<Set<string>> {
-  // Check cache first
-  if (holidayCache.has(year)) {
-    return holidayCache.get(year)!;
+export async function getClosedDays(
+  start: Date,
+  end: Date,
+  branchType?: BranchType | null,
+  branchId?: string | null,
+): Promise<Map<string, ClosedDay>> {
+  const from = toDateKey(start);
+  const to = toDateKey(end);
+  const days = new Map<string, ClosedDay>();
+
+  for (let year = start.getUTCFullYear(); year <= end.getUTCFullYear(); year++) {
+    for (const h of getIsraeliHolidays(year)) {
+      if (h.date >= from && h.date <= to && !days.has(h.date)) {
+        days.set(h.date, { date: h.date, name: h.name, source: 'holiday' });
+      }
+    }
   }
 
-  try {
-    const response = await fetch(
-      `https://www.hebcal.com/hebcal?v=1&cfg=json&maj=on&min=off&mod=off&nx=off&year=${year}&month=x&ss=off&mf=off&c=off&geo=none`
-    );
-    
-    if (!response.ok) {
-      console.error(`Failed to fetch holidays for ${year}`);
-      return new Set();
+  const closures = await prisma.organizationClosure.findMany({
+    where: {
+      startDate: { lte: new Date(`${to}T00:00:00.000Z`) },
+      endDate: { gte: new Date(`${from}T00:00:00.000Z`) },
+    },
+    orderBy: { startDate: 'asc' },
+  });
+
+  // Open-day overrides first, so a closure that also covers the day still wins.
+  const ordered = [...closures.filter((c) => !c.closed), ...closures.filter((c) => c.closed)];
+  for (const closure of ordered) {
+    if (!closureAppliesTo(closure.branchTypes, branchType)) continue;
+    for (let t = closure.startDate.getTime(); t <= closure.endDate.getTime(); t += MS_PER_DAY) {
+      const date = toDateKey(new Date(t));
+      if (date < from || date > to) continue;
+      if (closure.closed) {
+        days.set(date, { date, name: closure.name, source: 'closure', kind: closure.kind, closureId: closure.id });
+      } else if (days.get(date)?.source === 'holiday') {
+        days.delete(date);
+      }
     }
+  }
 
-    const data = await response.json() as HebcalResponse;
-    
-    // Filter for major holidays that would cancel classes
-    const majorHolidays = [
-      'Rosh Hashana', 'Yom Kippur', 'Sukkot', 'Shmini Atzeret', 'Simchat Torah',
-      'Pesach', 'Shavuot', 'Yom HaAtzma\'ut', 'Yom HaZikaron',
-      'Purim', 'Chanukah', 'Tish\'a B\'Av'
-    ];
-
-    const holidays = new Set<string>();
-    
-    for (const item of data.items) {
-      // Add all major holidays
-      const isHoliday = majorHolidays.some(h => item.title.includes(h)) ||
-                       item.title.includes('Erev') ||
-                       item.category === 'holiday';
-      
-      if (isHoliday) {
-        holidays.add(item.date);
+  if (branchId) {
+    const blackouts = await prisma.branchBlackout.findMany({
+      where: {
+        branchId,
+        startDate: { lte: new Date(`${to}T00:00:00.000Z`) },
+        endDate: { gte: new Date(`${from}T00:00:00.000Z`) },
+      },
+    });
+    for (const blackout of blackouts) {
+      for (let t = blackout.startDate.getTime(); t <= blackout.endDate.getTime(); t += MS_PER_DAY) {
+        const date = toDateKey(new Date(t));
+        if (date < from || date > to) continue;
+        days.set(date, { date, name: blackout.reason, source: 'blackout', blackoutId: blackout.id });
       }
     }
-
-    // Cache the result
-    holidayCache.set(year, holidays);
-    
-    return holidays;
-  } catch (error) {
-    console.error(`Error fetching holidays for ${year}:`, error);
-    return new Set();
   }
+
+  return new Map([...days.entries()].sort(([a], [b]) => a.localeCompare(b)));
 }
 
 /**
- * Check if a date is a holiday
+ * Closed dates (YYYY-MM-DD) for a given year — holidays plus applicable organization closures.
+ * Computed locally; a DB error propagates instead of silently scheduling on closed days.
  */
-export async function isHoliday(date: Date): Promise<boolean> {
-  const year = date.getFullYear();
-  const holidays = await fetchHolidays(year);
-  const dateStr = date.toISOString().split('T')[0];
-  return holidays.has(dateStr);
+export async function fetchHolidays(
+  year: number,
+  branchType?: BranchType | null,
+  branchId?: string | null,
+): Promise<Set<string>> {
+  const days = await getClosedDays(
+    new Date(Date.UTC(year, 0, 1)),
+    new Date(Date.UTC(year, 11, 31)),
+    branchType,
+    branchId,
+  );
+  return new Set(days.keys());
+}
+
+/**
+ * Check if a date is a holiday or organization closure
+ */
+export async function isHoliday(date: Date, branchType?: BranchType | null, branchId?: string | null): Promise<boolean> {
+  const days = await getClosedDays(date, date, branchType, branchId);
+  return days.has(toDateKey(date));
 }
 
 /**
@@ -89,7 +131,9 @@ export function isShabbat(date: Date): boolean {
 export async function calculateCycleEndDate(
   startDate: Date,
   dayOfWeek: number, // 0 = Sunday, 1 = Monday, etc.
-  totalMeetings: number
+  totalMeetings: number,
+  branchType?: BranchType | null,
+  branchId?: string | null
 ): Promise<{ endDate: Date; meetingDates: Date[] }> {
   const meetingDates: Date[] = [];
   let currentDate = new Date(startDate);
@@ -99,15 +143,16 @@ export async function calculateCycleEndDate(
     currentDate.setDate(currentDate.getDate() + 1);
   }
 
-  // Fetch holidays for relevant years
+  // Load closed days for the relevant years once (assume cycles don't span more than a year)
   const startYear = currentDate.getFullYear();
-  const endYear = startYear + 1; // Assume cycles don't span more than a year
-  await Promise.all([fetchHolidays(startYear), fetchHolidays(endYear)]);
+  const holidays = new Set([
+    ...(await fetchHolidays(startYear, branchType, branchId)),
+    ...(await fetchHolidays(startYear + 1, branchType, branchId)),
+  ]);
 
   while (meetingDates.length < totalMeetings) {
     const dateStr = currentDate.toISOString().split('T')[0];
-    const holidays = await fetchHolidays(currentDate.getFullYear());
-    
+
     // Check if this date is valid (not a holiday, not Shabbat)
     if (!holidays.has(dateStr) && !isShabbat(currentDate)) {
       meetingDates.push(new Date(currentDate));
@@ -142,20 +187,12 @@ export function dayNameToNumber(dayName: string): number {
 /**
  * Get holidays between two dates
  */
-export async function getHolidaysBetween(startDate: Date, endDate: Date): Promise<string[]> {
-  const holidays: string[] = [];
-  const startYear = startDate.getFullYear();
-  const endYear = endDate.getFullYear();
-  
-  for (let year = startYear; year <= endYear; year++) {
-    const yearHolidays = await fetchHolidays(year);
-    for (const holiday of yearHolidays) {
-      const holidayDate = new Date(holiday);
-      if (holidayDate >= startDate && holidayDate <= endDate) {
-        holidays.push(holiday);
-      }
-    }
-  }
-  
-  return holidays.sort();
+export async function getHolidaysBetween(
+  startDate: Date,
+  endDate: Date,
+  branchType?: BranchType | null,
+  branchId?: string | null,
+): Promise<string[]> {
+  const days = await getClosedDays(startDate, endDate, branchType, branchId);
+  return [...days.keys()];
 }
@@ -25,6 +25,8 @@ export async function recalcMeetingRevenue(cycleId: string): Promise<void> {
   if (cycle.type === 'institutional_fixed') return; // fixed revenue, unchanged
 
   let newRevenue = 0;
+  // Revenue derived from gross registration amounts depends on each meeting's VAT rate
+  let derivedFromRegistrations = false;
 
   if (cycle.type === 'institutional_per_child') {
     // pricePerStudent × active students
@@ -40,18 +42,21 @@ export async function recalcMeetingRevenue(cycleId: string): Promise<void> {
         Number(cycle.totalMeetings) || 1,
         cycle.type
       );
+      derivedFromRegistrations = true;
     }
   }
 
   if (newRevenue <= 0) return;
 
-  // Update cycle's student_count and meeting_revenue to reflect current state
+  // Update cycle's student_count and meeting_revenue to reflect current state. Revenue
+  // derived from registrations is not stored: meetingRevenue on a private cycle means an
+  // explicit net amount, and the derived figure depends on each meeting's VAT rate.
   const activeCount = cycle.registrations.length;
   await prisma.cycle.update({
     where: { id: cycleId },
     data: {
       studentCount: activeCount,
-      meetingRevenue: newRevenue,
+      ...(!derivedFromRegistrations && { meetingRevenue: newRevenue }),
     },
   });
 
@@ -65,16 +70,19 @@ export async function recalcMeetingRevenue(cycleId: string): Promise<void> {
       scheduledDate: { gte: today },
       nature: 'regular',
     },
-    select: { id: true, instructorPayment: true, expenses: true },
+    select: { id: true, scheduledDate: true, instructorPayment: true, expenses: true },
   });
 
   for (const m of futureMeetings) {
+    const revenue = derivedFromRegistrations
+      ? meetingRevenueFromRegistrations(cycle.registrations, Number(cycle.totalMeetings) || 1, cycle.type, m.scheduledDate)
+      : newRevenue;
     const totalExpenses = Number(m.expenses ?? 0);
     const instructorPayment = Number(m.instructorPayment ?? 0);
-    const newProfit = newRevenue - instructorPayment - totalExpenses;
+    const newProfit = revenue - instructorPayment - totalExpenses;
     await prisma.meeting.update({
       where: { id: m.id },
-      data: { revenue: newRevenue, profit: newProfit },
+      data: { revenue, profit: newProfit },
     });
     await checkAndSendNegativeProfitAlert(m.id, 'meeting-revenue-recalc');
   }
@@ -3,12 +3,59 @@
  * registrations, applying the right VAT treatment.
  *
  * B2C cycles (`private` / `trial_private`) are billed gross (the price the
- * parent pays includes 18% VAT). Our actual revenue is the net amount, so
- * we strip VAT before dividing by totalMeetings. Institutional cycles are
+ * parent pays includes VAT). Our actual revenue is the net amount, so we
+ * strip VAT before dividing by totalMeetings. Institutional cycles are
  * already net.
+ *
+ * VAT is effective-dated: every conversion uses the rate in force on the
+ * meeting's scheduledDate (or the document date), never simply today's rate.
+ * The rate table lives in the vat_rates table; services/vat-rates.ts loads it
+ * into this module at startup and after every change, so the helpers here can
+ * stay synchronous. Until then the built-in Israeli rates below apply.
+ */
+
+export interface VatRatePeriod {
+  /** First day (YYYY-MM-DD) the rate applies. */
+  effectiveFrom: string;
+  rate: number;
+}
+
+export const DEFAULT_VAT_RATES: VatRatePeriod[] = [
+  { effectiveFrom: '2015-10-01', rate: 0.17 },
+  { effectiveFrom: '2025-01-01', rate: 0.18 },
+];
+
+// Sorted newest first so lookups stop at the first period that started on or before the date
+let vatRates: VatRatePeriod[] = sortVatRates(DEFAULT_VAT_RATES);
+
+function sortVatRates(rates: VatRatePeriod[]): VatRatePeriod[] {
+  return [...rates].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+}
+
+/** Replace the rate table (called by services/vat-rates.ts). An empty table keeps the defaults. */
+export function setVatRates(rates: VatRatePeriod[]): void {
+  vatRates = sortVatRates(rates.length > 0 ? rates : DEFAULT_VAT_RATES);
+}
+
+/** YYYY-MM-DD of a date-only value (Prisma @db.Date comes back as UTC midnight). */
+function dayKey(date: Date | string): string {
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+/**
+ * VAT rate in force on the given date (defaults to today). Dates before the
+ * first known period get the oldest rate.
  */
+export function vatRateOn(date?: Date | string | null): number {
+  const key = dayKey(date ?? new Date());
+  const period = vatRates.find((r) => r.effectiveFrom <= key) ?? vatRates[vatRates.length - 1];
+  return period.rate;
+}
 
-export const VAT_RATE = 0.18;
+/** Net amount + VAT at the rate in force on the date. */
+export function grossFromNet(net: number, date?: Date | string | null): number {
+  return Number(net) * (1 + vatRateOn(date));
+}
 
 /**
  * Round a money amount to 2 decimal places (agorot). Money must never be
@@ -27,15 +74,16 @@ export function isVatInclusive(cycleType: string | null | undefined): boolean {
 
 /**
  * Convert a customer-facing (gross) amount to the net amount we recognize as
- * revenue. For private cycles we divide out the 18% VAT; otherwise the input
- * is already net.
+ * revenue. For private cycles we divide out the VAT in force on `date`
+ * (today when omitted); otherwise the input is already net.
  */
 export function netAmount(
   grossAmount: number,
-  cycleType: string | null | undefined
+  cycleType: string | null | undefined,
+  date?: Date | string | null
 ): number {
   if (!grossAmount || grossAmount <= 0) return 0;
-  return isVatInclusive(cycleType) ? grossAmount / (1 + VAT_RATE) : grossAmount;
+  return isVatInclusive(cycleType) ? grossAmount / (1 + vatRateOn(date)) : grossAmount;
 }
 
 // Accept Prisma's Decimal alongside number/string — anything we can pass to Number().
@@ -56,6 +104,7 @@ type CycleRevenueLike = {
 
 type MeetingRevenueLike = {
   nature?: string | null;
+  scheduledDate?: Date | string | null;
 };
 
 export function isRevenueRegistration(registration: RegistrationLike): boolean {
@@ -75,23 +124,25 @@ export function revenueRegistrationCount(registrations: RegistrationLike[]): num
  * Sum revenue-bearing registration amounts and return the net per-meeting revenue.
  * Completed registrations still count because cycle completion marks paid/active
  * children as completed before the last replacement lesson may be recalculated.
- * `totalMeetings` of 0 (or missing) yields 0.
+ * `totalMeetings` of 0 (or missing) yields 0. `date` is the meeting's
+ * scheduledDate, which decides the VAT rate.
  */
 export function meetingRevenueFromRegistrations(
   registrations: RegistrationLike[],
   totalMeetings: number,
-  cycleType: string | null | undefined
+  cycleType: string | null | undefined,
+  date?: Date | string | null
 ): number {
   if (!totalMeetings || totalMeetings <= 0) return 0;
   const gross = revenueRegistrations(registrations).reduce(
     (sum, r) => sum + (r.amount ? Number(r.amount) : 0),
     0
   );
-  const net = netAmount(gross, cycleType);
+  const net = netAmount(gross, cycleType, date);
   return roundMoney(net / totalMeetings);
 }
 
-export function meetingRevenueForCycle(cycle: CycleRevenueLike): number {
+export function meetingRevenueForCycle(cycle: CycleRevenueLike, date?: Date | string | null): number {
   const type = String(cycle.type || '');
   const registrations = revenueRegistrations(cycle.registrations ?? []);
 
@@ -114,6 +165,7 @@ export function meetingRevenueForCycle(cycle: CycleRevenueLike): number {
       registrations,
       Number(cycle.totalMeetings) || 0,
       type,
+      date,
     );
   }
 
@@ -125,5 +177,5 @@ export function meetingRevenueForMeeting(
   meeting: MeetingRevenueLike | null | undefined,
 ): number {
   if (meeting?.nature === 'no_revenue') return 0;
-  return meetingRevenueForCycle(cycle);
+  return meetingRevenueForCycle(cycle, meeting?.scheduledDate);
 }
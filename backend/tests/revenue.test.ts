@@ -4,7 +4,7 @@ import {
   meetingRevenueFromRegistrations,
   isVatInclusive,
   roundMoney,
-  VAT_RATE,
+  vatRateOn,
 } from '../src/utils/revenue.js';
 
 describe('revenue helpers', () => {
@@ -42,8 +42,9 @@ describe('revenue helpers', () => {
       expect(netAmount(-10, 'private')).toBe(0);
     });
 
-    it('VAT_RATE is 0.18', () => {
-      expect(VAT_RATE).toBe(0.18);
+    it('VAT rate in force since 2025 is 0.18', () => {
+      expect(vatRateOn('2025-01-01')).toBe(0.18);
+      expect(vatRateOn()).toBe(0.18);
     });
   });
 
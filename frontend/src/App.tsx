@@ -10,6 +10,7 @@ import CustomerDetail from './pages/CustomerDetail';
 import Students from './pages/Students';
 import Courses from './pages/Courses';
 import Branches from './pages/Branches';
+import Closures from './pages/Closures';
 import Instructors from './pages/Instructors';
 import Cycles from './pages/Cycles';
 import CycleDetail from './pages/CycleDetail';
@@ -34,6 +35,7 @@ import QuoteDetail from './pages/QuoteDetail';
 import QuoteEdit from './pages/QuoteEdit';
 import PublicQuoteView from './pages/PublicQuoteView';
 import PublicCancelForm from './pages/PublicCancelForm';
+import PublicWaitlistOffer from './pages/PublicWaitlistOffer';
 import LeadAppointments from './pages/LeadAppointments';
 import InstitutionalOrders from './pages/InstitutionalOrders';
 import InstitutionalOrderDetail from './pages/InstitutionalOrderDetail';
@@ -43,6 +45,7 @@ import BillingPeriodDetail from './pages/BillingPeriodDetail';
 import SystemUsers from './pages/SystemUsers';
 import WhatsAppInbox from './pages/WhatsAppInbox';
 import MessengerInbox from './pages/MessengerInbox';
+import Inbox from './pages/Inbox';
 import InstagramInbox from './pages/InstagramInbox';
 import Campaigns from './pages/Campaigns';
 import FacebookLeads from './pages/FacebookLeads';
@@ -158,6 +161,7 @@ function AppRoutes() {
       <Route path="/public/quote/:id" element={<PublicQuoteView />} />
       <Route path="/cancel/:token" element={<PublicCancelForm />} />
       <Route path="/public/cancel/:token" element={<PublicCancelForm />} />
+      <Route path="/public/waitlist/:token" element={<PublicWaitlistOffer />} />
       <Route path="/campaign/:campaignId" element={<CampaignLanding />} />
       <Route path="/pay/:token" element={<PayPage />} />
       <Route path="/m/:meetingId/:token" element={<MeetingStatus />} />
@@ -203,11 +207,13 @@ function AppRoutes() {
             <Route path="whatsapp" element={<WhatsAppInbox />} />
             <Route path="messenger" element={<AdminManagerRoute><MessengerInbox /></AdminManagerRoute>} />
             <Route path="instagram" element={<AdminManagerRoute><InstagramInbox /></AdminManagerRoute>} />
+            <Route path="inbox" element={<AdminManagerRoute><Inbox /></AdminManagerRoute>} />
 
             {/* Admin/Manager only routes — sales gets redirected to /whatsapp */}
             <Route path="students" element={<ManagementRoute><Students /></ManagementRoute>} />
             <Route path="courses" element={<ManagementRoute><Courses /></ManagementRoute>} />
             <Route path="branches" element={<ManagementRoute><Branches /></ManagementRoute>} />
+            <Route path="closures" element={<ManagementRoute><Closures /></ManagementRoute>} />
             <Route path="instructors" element={<ManagementRoute><Instructors /></ManagementRoute>} />
             <Route path="cycles" element={<CycleRosterRoute><Cycles /></CycleRosterRoute>} />
             <Route path="cycles/:id" element={<CycleRosterRoute><CycleDetail /></CycleRosterRoute>} />
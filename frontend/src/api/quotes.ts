@@ -1,4 +1,5 @@
 import api from './client';
+import type { DayOfWeek, InstructorConflict } from '../types';
 
 export interface QuoteItem {
   id?: string;
@@ -14,7 +15,7 @@ export interface QuoteItem {
 export interface Quote {
   id: string;
   quoteNumber: string;
-  status: 'draft' | 'sent' | 'accepted' | 'rejected';
+  status: 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired';
   institutionName: string;
   contactName: string;
   contactPhone?: string;
@@ -37,6 +38,11 @@ export interface Quote {
   sentAt?: string;
   acceptedAt?: string;
   rejectedAt?: string;
+  validUntil?: string | null;
+  firstViewedAt?: string | null;
+  lastViewedAt?: string | null;
+  viewCount?: number;
+  videoWatchedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -91,11 +97,91 @@ export interface OrderPreview {
     totalAmount: number;
     itemsCount: number;
   };
+  items: OrderPreviewItem[];
   flags: OrderConvertFlag[];
   canCreate: boolean;
   existingOrderId?: string | null;
 }
 
+export interface OrderPreviewItem {
+  id: string;
+  courseId: string | null;
+  courseName: string;
+  groups: number;
+  meetingsPerGroup: number;
+  meetingDuration: number;
+  pricePerMeeting: number;
+}
+
+/** Schedule for one group of a quote item — becomes a cycle of the new order. */
+export interface ConvertCyclePlan {
+  quoteItemId: string;
+  instructorId: string;
+  dayOfWeek: DayOfWeek;
+  startTime: string;
+  startDate: string;
+  activityType: 'online' | 'frontal';
+  location?: string | null;
+}
+
+export interface BillingPlanMonth {
+  month: string;
+  expectedMeetings: number;
+  expectedAmount: number;
+}
+
+export interface QuotePipelineBucket {
+  key: string;
+  label: string;
+  count: number;
+  amount: number;
+  won: number;
+  wonAmount: number;
+  lost: number;
+  winRate: number | null;
+  avgDaysToAccept: number | null;
+  viewed: number;
+  videoWatched: number;
+}
+
+export interface QuotePipelineReport {
+  totals: QuotePipelineBucket;
+  byStatus: QuotePipelineBucket[];
+  bySalesperson: QuotePipelineBucket[];
+  byClientType: QuotePipelineBucket[];
+  byMonth: QuotePipelineBucket[];
+}
+
+export interface QuoteVersion {
+  id: string;
+  versionNumber: number;
+  finalAmount: number | string;
+  sentTo: string | null;
+  createdAt: string;
+  signature: {
+    id: string;
+    signerName: string;
+    signerRole: string | null;
+    signedAt: string;
+    ipAddress: string | null;
+    fileAttachmentId: string | null;
+  } | null;
+}
+
+export interface QuoteFieldChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface QuoteVersionDiff {
+  from: number;
+  to: number;
+  fields: QuoteFieldChange[];
+  items: Array<{ change: 'added' | 'removed' | 'changed'; courseName: string; fields: QuoteFieldChange[] }>;
+}
+
 export const quotesApi = {
   list: async (params?: { status?: string; search?: string }) => {
     const searchParams = new URLSearchParams();
@@ -134,6 +220,16 @@ export const quotesApi = {
     return res.data;
   },
 
+  versions: async (id: string) => {
+    const res = await api.get<QuoteVersion[]>(`/quotes/${id}/versions`);
+    return res.data;
+  },
+
+  versionDiff: async (id: string, to: number, from?: number) => {
+    const res = await api.get<QuoteVersionDiff>(`/quotes/${id}/versions/diff`, { params: { to, from } });
+    return res.data;
+  },
+
   accept: async (id: string) => {
     const res = await api.post<Quote>(`/quotes/${id}/accept`);
     return res.data;
@@ -144,8 +240,23 @@ export const quotesApi = {
     return res.data;
   },
 
-  convertToOrder: async (id: string, allowNonAccepted = false) => {
-    const res = await api.post<{ quote: Quote; order: { id: string } }>(`/quotes/${id}/convert`, { allowNonAccepted });
+  convertToOrder: async (
+    id: string,
+    options: { allowNonAccepted?: boolean; allowConflicts?: boolean; cycles?: ConvertCyclePlan[] } = {},
+  ) => {
+    const res = await api.post<{
+      quote: Quote;
+      order: { id: string };
+      cycles: { id: string; name: string }[];
+      billingPlan: BillingPlanMonth[];
+      conflictWarnings: InstructorConflict[];
+      setupFailures: { step: 'meetings' | 'billing_plan'; cycleId?: string; retry: string; error: string }[];
+    }>(`/quotes/${id}/convert`, options);
+    return res.data;
+  },
+
+  pipeline: async (params: { from?: string; to?: string }) => {
+    const res = await api.get<QuotePipelineReport>('/quotes/pipeline', { params });
     return res.data;
   },
 
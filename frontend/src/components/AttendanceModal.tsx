@@ -214,6 +214,11 @@ export default function AttendanceModal({
                           ניסיון
                         </span>
                       )}
+                      {record.isMakeup && (
+                        <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded">
+                          השלמה
+                        </span>
+                      )}
                       {record.grade && (
                         <span className="text-xs text-gray-500">כיתה {record.grade}</span>
                       )}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { CalendarX, Trash2, AlertTriangle, CheckCircle } from 'lucide-react';
+import Modal from './ui/Modal';
+import { useBranchBlackouts, useBranchBlackoutPreview, useCreateBranchBlackout, useDeleteBranchBlackout } from '../hooks/useApi';
+import type { Branch, BlackoutApplyResult } from '../types';
+
+interface BranchBlackoutsModalProps {
+  branch: Branch | null;
+  onClose: () => void;
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('he-IL', { timeZone: 'UTC' });
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+export default function BranchBlackoutsModal({ branch, onClose }: BranchBlackoutsModalProps) {
+  const branchId = branch?.id ?? '';
+  const [form, setForm] = useState({ reason: '', startDate: '', endDate: '' });
+  const [result, setResult] = useState<BlackoutApplyResult | null>(null);
+
+  const { data: blackouts } = useBranchBlackouts(branchId);
+  const { data: preview, isFetching: previewLoading } = useBranchBlackoutPreview(branchId, form.startDate, form.endDate || undefined);
+  const createBlackout = useCreateBranchBlackout();
+  const deleteBlackout = useDeleteBranchBlackout();
+
+  const handleClose = () => {
+    setForm({ reason: '', startDate: '', endDate: '' });
+    setResult(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const affected = preview?.length ?? 0;
+    if (affected > 0 && !confirm(`${affected} פגישות יידחו ויתווספו פגישות חלופיות בסוף המחזורים. להמשיך?`)) return;
+    try {
+      const response = await createBlackout.mutateAsync({
+        branchId,
+        data: { reason: form.reason, startDate: form.startDate, endDate: form.endDate || undefined },
+      });
+      setResult(response.result);
+      setForm({ reason: '', startDate: '', endDate: '' });
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בהוספת ימי הסגירה'));
+    }
+  };
+
+  const handleDelete = async (blackoutId: string) => {
+    if (!confirm('להסיר את ימי הסגירה? פגישות שכבר נדחו יישארו דחויות.')) return;
+    try { await deleteBlackout.mutateAsync({ branchId, blackoutId }); }
+    catch (error) { alert(errorMessage(error, 'שגיאה במחיקת ימי הסגירה')); }
+  };
+
+  return (
+    <Modal isOpen={!!branch} onClose={handleClose} title={`ימי סגירה — ${branch?.name ?? ''}`} size="lg">
+      <div className="p-6 space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label className="form-label">סיבה *</label>
+              <input type="text" value={form.reason} onChange={(e) => setForm({ ...form, reason: e.target.value })} className="form-input" placeholder="לדוגמה: טיול שנתי, שבוע מבחנים" required />
+            </div>
+            <div>
+              <label className="form-label">מתאריך *</label>
+              <input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} className="form-input" required />
+            </div>
+            <div>
+              <label className="form-label">עד תאריך (כולל)</label>
+              <input type="date" value={form.endDate} min={form.startDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} className="form-input" />
+            </div>
+          </div>
+
+          {form.startDate && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm">
+              {previewLoading ? (
+                <span className="text-gray-500">בודק פגישות מושפעות...</span>
+              ) : preview && preview.length > 0 ? (
+                <>
+                  <p className="flex items-center gap-2 font-medium text-amber-800 mb-2">
+                    <AlertTriangle size={16} /> {preview.length} פגישות יידחו
+                  </p>
+                  <ul className="space-y-1 text-amber-900 max-h-40 overflow-auto">
+                    {preview.map((meeting) => (
+                      <li key={meeting.id}>
+                        {formatDate(meeting.scheduledDate)} · {meeting.cycle.name}{meeting.instructor ? ` · ${meeting.instructor.name}` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <span className="text-gray-600">אין פגישות מתוכננות בתאריכים אלה</span>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button type="submit" className="btn btn-primary" disabled={createBlackout.isPending}>
+              <CalendarX size={16} /> {createBlackout.isPending ? 'דוחה פגישות...' : 'הוסף ודחה פגישות'}
+            </button>
+          </div>
+        </form>
+
+        {result && (
+          <div className="rounded-lg border border-green-200 bg-green-50 p-3 text-sm text-green-800 space-y-1">
+            <p className="flex items-center gap-2 font-medium"><CheckCircle size={16} /> {result.postponed.length} פגישות נדחו</p>
+            {result.replacementFailures > 0 && (
+              <p className="text-red-700">{result.replacementFailures} פגישות חלופיות לא נוצרו — נשלחה התראה למנהל</p>
+            )}
+            <p>נשלחו הודעות ל-{result.instructorsNotified} מדריכים ול-{result.parentsNotified} הורים</p>
+          </div>
+        )}
+
+        <div>
+          <h4 className="font-medium text-gray-700 mb-2">ימי סגירה קיימים</h4>
+          {blackouts && blackouts.length > 0 ? (
+            <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+              {blackouts.map((blackout) => (
+                <li key={blackout.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-900">{blackout.reason}</span>
+                    <span className="text-gray-500 mr-2">
+                      {formatDate(blackout.startDate)}{blackout.endDate !== blackout.startDate && ` – ${formatDate(blackout.endDate)}`}
+                    </span>
+                    {blackout.postponedCount > 0 && <span className="text-xs text-gray-400 mr-2">({blackout.postponedCount} פגישות נדחו)</span>}
+                  </div>
+                  <button onClick={() => handleDelete(blackout.id)} className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="הסר"><Trash2 size={15} /></button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">לא הוגדרו ימי סגירה לסניף</p>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Trophy } from 'lucide-react';
+import { api } from '../api/client';
+
+interface VariantStats {
+  id: string;
+  label: string;
+  subject: string | null;
+  contentWa: string | null;
+  isWinner: boolean;
+  recipients: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  openRate: number;
+  clickRate: number;
+}
+
+interface AbCampaign {
+  id: string;
+  status: string;
+  abTestPercent: number | null;
+  abWinnerMetric: 'open' | 'click' | null;
+  abWindowHours: number | null;
+  abTestSentAt: string | null;
+  abDecidedAt: string | null;
+  variants: VariantStats[];
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+/** Per-variant delivery / open / click stats of a campaign's A/B test. */
+export default function CampaignAbResults({ campaignId }: { campaignId: string }) {
+  const qc = useQueryClient();
+  const [deciding, setDeciding] = useState(false);
+
+  const { data: campaign, isLoading } = useQuery<AbCampaign>({
+    queryKey: ['campaign', campaignId],
+    queryFn: async () => (await api.get(`/campaigns/${campaignId}`)).data,
+    refetchInterval: 60_000,
+  });
+
+  if (isLoading || !campaign) {
+    return <div className="flex justify-center py-8"><Loader2 className="animate-spin text-gray-400" /></div>;
+  }
+
+  const decideNow = async () => {
+    if (!window.confirm('לבחור עכשיו את הגרסה המובילה ולשלוח אותה לשאר הקהל?')) return;
+    setDeciding(true);
+    try {
+      await api.post(`/campaigns/${campaignId}/ab-decide`);
+      qc.invalidateQueries({ queryKey: ['campaign', campaignId] });
+      qc.invalidateQueries({ queryKey: ['campaigns'] });
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בבחירת הגרסה המנצחת'));
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  const metric = campaign.abWinnerMetric === 'click' ? 'אחוז הקלקה' : 'אחוז פתיחה';
+  const decideAt = campaign.abTestSentAt && campaign.abWindowHours
+    ? new Date(new Date(campaign.abTestSentAt).getTime() + campaign.abWindowHours * 3_600_000)
+    : null;
+
+  return (
+    <div className="space-y-4" dir="rtl">
+      <div className="text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2">
+        {campaign.abTestPercent}% מהקהל בקבוצת הבדיקה · מנצח לפי {metric}
+        {campaign.abDecidedAt
+          ? ` · הוכרע ב-${new Date(campaign.abDecidedAt).toLocaleString('he-IL')}`
+          : decideAt && ` · הכרעה אוטומטית ב-${decideAt.toLocaleString('he-IL')}`}
+      </div>
+
+      <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+        <thead className="bg-gray-50 border-b border-gray-200">
+          <tr>
+            <th className="text-right px-3 py-2 font-medium text-gray-600">גרסה</th>
+            <th className="text-right px-3 py-2 font-medium text-gray-600">נשלחו</th>
+            <th className="text-right px-3 py-2 font-medium text-gray-600">פתיחות</th>
+            <th className="text-right px-3 py-2 font-medium text-gray-600">הקלקות</th>
+          </tr>
+        </thead>
+        <tbody>
+          {campaign.variants.map(variant => (
+            <tr key={variant.id} className={`border-b border-gray-100 ${variant.isWinner ? 'bg-green-50' : ''}`}>
+              <td className="px-3 py-2">
+                <div className="flex items-center gap-1.5 font-medium text-gray-900">
+                  {variant.isWinner && <Trophy size={14} className="text-green-600" />}
+                  {variant.label}
+                </div>
+                <div className="text-xs text-gray-400 truncate max-w-xs">{variant.subject || variant.contentWa?.slice(0, 60)}</div>
+              </td>
+              <td className="px-3 py-2 text-gray-600">{variant.sent}/{variant.recipients}</td>
+              <td className="px-3 py-2">{variant.opened} <span className="text-xs text-gray-400">({variant.openRate}%)</span></td>
+              <td className="px-3 py-2">{variant.clicked} <span className="text-xs text-gray-400">({variant.clickRate}%)</span></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {campaign.status === 'ab_testing' && (
+        <div className="flex justify-end">
+          <button
+            onClick={decideNow}
+            disabled={deciding}
+            className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+          >
+            {deciding ? 'שולח...' : 'בחר מנצח ושלח עכשיו'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { api } from '../api/client';
+
+interface AttributionRow {
+  key: string;
+  platform: 'crm' | 'ads';
+  campaignId: string | null;
+  name: string;
+  source: string;
+  reached: number;
+  convertedCustomers: number;
+  registrations: number;
+  registrationValue: number;
+  revenue: number;
+  paymentLinkRevenue: number;
+  cost: number | null;
+  costPerRegistration: number | null;
+  conversionRate: number;
+}
+
+interface AttributionReport {
+  windowDays: number;
+  spendAvailable: boolean;
+  campaigns: AttributionRow[];
+  totals: { registrations: number; revenue: number; cost: number };
+}
+
+const SOURCE_LABEL: Record<string, string> = {
+  crm: 'קמפיין CRM',
+  facebook: 'פייסבוק',
+  website: 'אתר',
+};
+
+const PERIODS = [30, 90, 180, 365];
+const WINDOWS = [7, 14, 30, 60, 90];
+
+const formatMoney = (value: number) => `₪${value.toLocaleString('he-IL', { maximumFractionDigits: 0 })}`;
+
+/** Registrations and revenue credited to each campaign (last touch within the window). */
+export default function CampaignAttribution() {
+  const [periodDays, setPeriodDays] = useState(90);
+  const [windowDays, setWindowDays] = useState<number | null>(null);
+
+  const { data: report, isLoading } = useQuery<AttributionReport>({
+    queryKey: ['campaign-attribution', periodDays, windowDays],
+    queryFn: async () => {
+      const from = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString();
+      const params = windowDays ? { from, windowDays } : { from };
+      return (await api.get('/campaigns/attribution', { params })).data;
+    },
+  });
+
+  return (
+    <div className="space-y-4" dir="rtl">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <span className="text-gray-600">תקופה</span>
+          <select
+            value={periodDays}
+            onChange={e => setPeriodDays(Number(e.target.value))}
+            className="border border-gray-300 rounded-lg px-2 py-1"
+          >
+            {PERIODS.map(days => <option key={days} value={days}>{days} ימים אחרונים</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-gray-600">חלון ייחוס</span>
+          <select
+            value={windowDays ?? report?.windowDays ?? ''}
+            onChange={e => setWindowDays(Number(e.target.value))}
+            className="border border-gray-300 rounded-lg px-2 py-1"
+          >
+            {WINDOWS.map(days => <option key={days} value={days}>{days} ימים</option>)}
+          </select>
+        </label>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="flex justify-center py-8"><Loader2 className="animate-spin text-gray-400" /></div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-gray-50 rounded-lg px-3 py-2">
+              <div className="text-xs text-gray-500">הרשמות מיוחסות</div>
+              <div className="text-lg font-semibold text-gray-900">{report.totals.registrations}</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg px-3 py-2">
+              <div className="text-xs text-gray-500">הכנסות</div>
+              <div className="text-lg font-semibold text-gray-900">{formatMoney(report.totals.revenue)}</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg px-3 py-2">
+              <div className="text-xs text-gray-500">הוצאות פרסום</div>
+              <div className="text-lg font-semibold text-gray-900">
+                {report.spendAvailable ? formatMoney(report.totals.cost) : 'לא זמין'}
+              </div>
+            </div>
+          </div>
+
+          {report.campaigns.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">אין נתוני ייחוס בתקופה</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm border border-gray-200 rounded-lg overflow-hidden">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="text-right px-3 py-2 font-medium text-gray-600">קמפיין</th>
+                    <th className="text-right px-3 py-2 font-medium text-gray-600">נחשפו</th>
+                    <th className="text-right px-3 py-2 font-medium text-gray-600">הרשמות</th>
+                    <th className="text-right px-3 py-2 font-medium text-gray-600">הכנסות</th>
+                    <th className="text-right px-3 py-2 font-medium text-gray-600">עלות</th>
+                    <th className="text-right px-3 py-2 font-medium text-gray-600">עלות להרשמה</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.campaigns.map(row => (
+                    <tr key={row.key} className="border-b border-gray-100">
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{row.name}</div>
+                        <div className="text-xs text-gray-400">{SOURCE_LABEL[row.source] ?? row.source}</div>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {row.reached} <span className="text-xs text-gray-400">({row.conversionRate}% המירו)</span>
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.registrations}
+                        {row.registrationValue > 0 && (
+                          <span className="text-xs text-gray-400"> ({formatMoney(row.registrationValue)})</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        {formatMoney(row.revenue)}
+                        {row.paymentLinkRevenue > 0 && (
+                          <div className="text-xs text-gray-400">מזה {formatMoney(row.paymentLinkRevenue)} בלינק תשלום</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{row.cost !== null ? formatMoney(row.cost) : '—'}</td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {row.costPerRegistration !== null ? formatMoney(row.costPerRegistration) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Save, Trash2 } from 'lucide-react';
+import { api } from '../api/client';
+
+interface AudienceRules {
+  leadStatuses?: string[];
+  sources?: string[];
+  cities?: string[];
+  attendedWithinDays?: number;
+  notAttendedForDays?: number;
+  upsellStatuses?: string[];
+  unpaidRegistrations?: boolean;
+  completedCourseIds?: string[];
+  waConversationStatuses?: string[];
+  excludeSegmentIds?: string[];
+  excludeCampaignIds?: string[];
+  excludePhones?: string[];
+}
+
+interface Segment {
+  id: string;
+  name: string;
+  description: string | null;
+  filters: Record<string, unknown>;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+type ListKey = 'leadStatuses' | 'sources' | 'cities' | 'upsellStatuses' | 'completedCourseIds' | 'waConversationStatuses' | 'excludeSegmentIds' | 'excludeCampaignIds';
+
+const LEAD_STATUS_LABEL: Record<string, string> = {
+  new: '🆕 חדש',
+  contacted: '📞 נוצר קשר',
+  in_progress: '⏳ בטיפול',
+  converted: '✅ הומר',
+  closed: '❌ נסגר',
+  waiting_placement: '🧩 מחכה לשיבוץ',
+};
+
+const UPSELL_STATUS_LABEL: Record<string, string> = {
+  new: 'חדש',
+  contacted: 'נוצר קשר',
+  converted: 'הומר',
+  dismissed: 'לא רלוונטי',
+};
+
+const WA_STATUS_LABEL: Record<string, string> = {
+  open: 'פתוחה',
+  pending: 'ממתינה',
+  closed: 'סגורה',
+};
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+interface Props<T extends AudienceRules> {
+  filters: T;
+  onChange: (patch: Partial<AudienceRules>) => void;
+  onLoadSegment: (filters: T) => void;
+  courses: Option[];
+  campaigns: Option[];
+}
+
+/** CRM-based audience rules, exclusion lists and saved segments for the campaign builder. */
+export default function CampaignAudienceRules<T extends AudienceRules>({ filters, onChange, onLoadSegment, courses, campaigns }: Props<T>) {
+  const qc = useQueryClient();
+  const [segmentId, setSegmentId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data: options } = useQuery<{ sources: string[]; cities: string[] }>({
+    queryKey: ['campaign-audience-options'],
+    queryFn: async () => (await api.get('/campaigns/audience-options')).data,
+  });
+
+  const { data: segments = [] } = useQuery<Segment[]>({
+    queryKey: ['audience-segments'],
+    queryFn: async () => (await api.get('/campaigns/segments')).data,
+  });
+
+  const selectedSegment = segments.find(s => s.id === segmentId);
+
+  const toggle = (key: ListKey, value: string) => {
+    const current = filters[key] ?? [];
+    const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    onChange({ [key]: next.length ? next : undefined });
+  };
+
+  const chips = (key: ListKey, values: Record<string, string>) => (
+    <div className="flex flex-wrap gap-1.5">
+      {Object.entries(values).map(([value, label]) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => toggle(key, value)}
+          className={`px-2.5 py-1 rounded-full border text-xs transition-colors ${
+            filters[key]?.includes(value)
+              ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+              : 'border-gray-200 text-gray-600 hover:border-gray-300'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const checklist = (key: ListKey, items: Option[], empty: string) => (
+    <div className="border border-gray-200 rounded-lg p-2 max-h-32 overflow-y-auto space-y-1">
+      {items.map(item => (
+        <label key={item.id} className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 px-2 py-1 rounded">
+          <input
+            type="checkbox"
+            checked={filters[key]?.includes(item.id) || false}
+            onChange={() => toggle(key, item.id)}
+            className="rounded accent-indigo-600"
+          />
+          <span className="text-sm">{item.name}</span>
+        </label>
+      ))}
+      {items.length === 0 && <p className="text-sm text-gray-400 px-2 py-1">{empty}</p>}
+    </div>
+  );
+
+  const days = (key: 'attendedWithinDays' | 'notAttendedForDays', label: string) => (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="text-gray-600">{label}</span>
+      <input
+        type="number"
+        min={1}
+        value={filters[key] ?? ''}
+        onChange={e => onChange({ [key]: e.target.value ? parseInt(e.target.value) : undefined })}
+        className="w-20 border border-gray-300 rounded-lg px-2 py-1"
+        placeholder="—"
+      />
+      <span className="text-gray-500">ימים</span>
+    </label>
+  );
+
+  const saveSegment = async (asNew: boolean) => {
+    const name = asNew ? window.prompt('שם הסגמנט') : selectedSegment?.name;
+    if (!name) return;
+    // Segments keep rules only — an uploaded file list is per-campaign
+    const rules: AudienceRules & { fileRecipients?: unknown } = { ...filters };
+    delete rules.fileRecipients;
+    setSaving(true);
+    try {
+      const payload = { name, description: selectedSegment?.description ?? null, filters: rules };
+      const res = asNew || !selectedSegment
+        ? await api.post('/campaigns/segments', payload)
+        : await api.put(`/campaigns/segments/${selectedSegment.id}`, payload);
+      setSegmentId(res.data.id);
+      qc.invalidateQueries({ queryKey: ['audience-segments'] });
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בשמירת הסגמנט'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSegment = async () => {
+    if (!selectedSegment || !window.confirm(`למחוק את הסגמנט "${selectedSegment.name}"?`)) return;
+    await api.delete(`/campaigns/segments/${selectedSegment.id}`);
+    setSegmentId('');
+    qc.invalidateQueries({ queryKey: ['audience-segments'] });
+  };
+
+  const toOptions = (values: string[] = []) => values.map(value => ({ id: value, name: value }));
+
+  return (
+    <div className="space-y-4">
+      {/* Saved segments */}
+      <div className="flex flex-wrap items-center gap-2 bg-gray-50 rounded-lg p-3">
+        <span className="text-sm font-medium text-gray-700">סגמנט שמור</span>
+        <select
+          value={segmentId}
+          onChange={e => {
+            setSegmentId(e.target.value);
+            const segment = segments.find(s => s.id === e.target.value);
+            if (segment) onLoadSegment(segment.filters as T);
+          }}
+          className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+        >
+          <option value="">— בחר לטעינה —</option>
+          {segments.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => saveSegment(true)}
+          disabled={saving}
+          className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+        >
+          <Save size={14} /> שמור כסגמנט חדש
+        </button>
+        {selectedSegment && (
+          <>
+            <button
+              type="button"
+              onClick={() => saveSegment(false)}
+              disabled={saving}
+              className="text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              עדכן את "{selectedSegment.name}"
+            </button>
+            <button type="button" onClick={deleteSegment} className="text-red-500 hover:text-red-700" title="מחק סגמנט">
+              <Trash2 size={14} />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">סטטוס ליד</label>
+        {chips('leadStatuses', LEAD_STATUS_LABEL)}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">מקור ליד</label>
+          {checklist('sources', toOptions(options?.sources), 'אין מקורות')}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">עיר</label>
+          {checklist('cities', toOptions(options?.cities), 'אין ערים')}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">נוכחות אחרונה</label>
+        <div className="flex flex-wrap gap-4">
+          {days('attendedWithinDays', 'השתתף בשיעור ב-')}
+          {days('notAttendedForDays', 'לא השתתף בשיעור ב-')}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">סיים בעבר את הקורסים</label>
+        {checklist('completedCourseIds', courses, 'אין קורסים')}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">ליד אפסייל</label>
+          {chips('upsellStatuses', UPSELL_STATUS_LABEL)}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">שיחת וואטסאפ</label>
+          {chips('waConversationStatuses', WA_STATUS_LABEL)}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={filters.unpaidRegistrations === true}
+          onChange={e => onChange({ unpaidRegistrations: e.target.checked ? true : undefined })}
+          className="rounded accent-indigo-600"
+        />
+        <span className="text-sm">💳 יש הרשמה שלא שולמה במלואה</span>
+      </label>
+
+      {/* Exclusions */}
+      <div className="border-t border-gray-200 pt-4 space-y-3">
+        <h4 className="text-sm font-semibold text-gray-900">החרגות</h4>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">מי שקיבל את הקמפיינים</label>
+            {checklist('excludeCampaignIds', campaigns, 'אין קמפיינים')}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">מי שבסגמנטים</label>
+            {checklist('excludeSegmentIds', segments, 'אין סגמנטים שמורים')}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">טלפונים להחרגה (אחד בשורה)</label>
+          <textarea
+            value={(filters.excludePhones ?? []).join('\n')}
+            onChange={e => {
+              const phones = e.target.value.split(/[\n,]/).map(p => p.trim());
+              onChange({ excludePhones: phones.some(Boolean) ? phones : undefined });
+            }}
+            rows={3}
+            dir="ltr"
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronDown, ChevronUp, Loader2, Pause, Play, Plus, Trash2 } from 'lucide-react';
+import { api } from '../api/client';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface SequenceStep {
+  id?: string;
+  position?: number;
+  delayMinutes: number;
+  channel: string;
+  condition: string;
+  subject?: string | null;
+  contentHtml?: string | null;
+  contentWa?: string | null;
+}
+
+interface SequenceCampaign {
+  id: string;
+  name: string;
+  status: string;
+  trigger: string | null;
+  exitConditions: string[];
+  steps: SequenceStep[];
+}
+
+interface Enrollment {
+  id: string;
+  recipientName: string | null;
+  phone: string | null;
+  email: string | null;
+  trigger: string;
+  status: string;
+  exitReason: string | null;
+  currentStep: number;
+  nextRunAt: string | null;
+  createdAt: string;
+  customer: { id: string; name: string } | null;
+  recipients: { id: string; stepId: string | null; status: string; openedAt: string | null; clickCount: number }[];
+}
+
+interface EnrollmentsResponse {
+  enrollments: Enrollment[];
+  counts: Record<string, number>;
+  total: number;
+}
+
+interface SequenceDraft {
+  trigger: string;
+  exitConditions: string[];
+  steps: SequenceStep[];
+}
+
+// ─── Labels ───────────────────────────────────────────────────────────────────
+
+const TRIGGER_LABEL: Record<string, string> = {
+  audience: 'קהל היעד של הקמפיין (בהפעלה)',
+  facebook_lead: 'ליד חדש מפייסבוק',
+  cycle_completed: 'סיום מחזור',
+  trial_not_registered: 'הגיע/ה לשיעור ניסיון ולא נרשם/ה',
+};
+
+const EXIT_LABEL: Record<string, string> = {
+  registered: 'נרשם/ה למחזור',
+  replied: 'ענה/תה בוואטסאפ',
+  unsubscribed: 'הסיר/ה מרשימת התפוצה',
+};
+
+const CONDITION_LABEL: Record<string, string> = {
+  always: 'תמיד',
+  opened: 'רק אם פתח/ה הודעה קודמת',
+  not_opened: 'רק אם לא פתח/ה',
+  clicked: 'רק אם לחץ/ה על קישור',
+  not_clicked: 'רק אם לא לחץ/ה',
+};
+
+const ENROLLMENT_STATUS_LABEL: Record<string, string> = {
+  active: 'ברצף',
+  completed: 'סיים/ה',
+  exited: 'יצא/ה',
+};
+
+const ENROLLMENT_STATUS_CLASS: Record<string, string> = {
+  active: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  exited: 'bg-gray-100 text-gray-600',
+};
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+function formatDelay(minutes: number) {
+  if (minutes === 0) return 'מיד';
+  if (minutes % 1440 === 0) return `${minutes / 1440} ימים`;
+  if (minutes % 60 === 0) return `${minutes / 60} שעות`;
+  return `${minutes} דקות`;
+}
+
+const EMPTY_STEP: SequenceStep = { delayMinutes: 1440, channel: 'whatsapp', condition: 'always', subject: '', contentHtml: '', contentWa: '' };
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/** Drip campaign settings (trigger, exit conditions, steps) and each recipient's progress. */
+export default function CampaignSequence({ campaignId }: { campaignId: string }) {
+  const qc = useQueryClient();
+  const [draft, setDraft] = useState<SequenceDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const { data: campaign, isLoading } = useQuery<SequenceCampaign>({
+    queryKey: ['campaign', campaignId],
+    queryFn: async () => (await api.get(`/campaigns/${campaignId}`)).data,
+  });
+
+  const { data: progress } = useQuery<EnrollmentsResponse>({
+    queryKey: ['campaign-enrollments', campaignId],
+    queryFn: async () => (await api.get(`/campaigns/${campaignId}/enrollments?limit=100`)).data,
+    refetchInterval: 60_000,
+  });
+
+  if (isLoading || !campaign) {
+    return <div className="flex justify-center py-8"><Loader2 className="animate-spin text-gray-400" /></div>;
+  }
+
+  const value: SequenceDraft = draft ?? {
+    trigger: campaign.trigger ?? '',
+    exitConditions: campaign.exitConditions,
+    steps: campaign.steps,
+  };
+  const isActive = campaign.status === 'active';
+
+  const change = (patch: Partial<SequenceDraft>) => setDraft({ ...value, ...patch });
+  const changeStep = (index: number, patch: Partial<SequenceStep>) => {
+    change({ steps: value.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) });
+  };
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const steps = [...value.steps];
+    [steps[index], steps[index + direction]] = [steps[index + direction], steps[index]];
+    change({ steps });
+  };
+
+  const refresh = () => {
+    qc.invalidateQueries({ queryKey: ['campaign', campaignId] });
+    qc.invalidateQueries({ queryKey: ['campaign-enrollments', campaignId] });
+    qc.invalidateQueries({ queryKey: ['campaigns'] });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await api.put(`/campaigns/${campaignId}`, {
+        trigger: value.trigger || null,
+        exitConditions: value.exitConditions,
+      });
+      await api.put(`/campaigns/${campaignId}/steps`, {
+        steps: value.steps.map(({ delayMinutes, channel, condition, subject, contentHtml, contentWa }) => ({
+          delayMinutes, channel, condition, subject, contentHtml, contentWa,
+        })),
+      });
+      setDraft(null);
+      refresh();
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בשמירת הרצף'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async () => {
+    if (draft) return alert('יש לשמור את השינויים לפני הפעלה');
+    if (!isActive && !window.confirm(
+      campaign.trigger === 'audience'
+        ? 'להפעיל את הרצף? כל קהל היעד יצורף לרצף עכשיו.'
+        : 'להפעיל את הרצף? נמענים יצורפו מעכשיו בכל פעם שהטריגר מתרחש.',
+    )) return;
+    try {
+      const res = await api.post(`/campaigns/${campaignId}/${isActive ? 'pause' : 'activate'}`);
+      if (res.data.enrolled) alert(`✅ ${res.data.enrolled} נמענים צורפו לרצף`);
+      refresh();
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בעדכון הרצף'));
+    }
+  };
+
+  const stepCount = campaign.steps.length;
+
+  return (
+    <div className="space-y-6" dir="rtl">
+      {/* Trigger + exit conditions */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">טריגר כניסה לרצף</label>
+          <select
+            value={value.trigger}
+            onChange={e => change({ trigger: e.target.value })}
+            className="form-input w-full"
+          >
+            <option value="">בחר טריגר...</option>
+            {Object.entries(TRIGGER_LABEL).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">יציאה מהרצף כאשר</label>
+          <div className="flex flex-wrap gap-3 pt-1">
+            {Object.entries(EXIT_LABEL).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={value.exitConditions.includes(key)}
+                  onChange={e => change({
+                    exitConditions: e.target.checked
+                      ? [...value.exitConditions, key]
+                      : value.exitConditions.filter(c => c !== key),
+                  })}
+                  className="rounded accent-indigo-600"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Steps */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-gray-900">שלבי הרצף</h3>
+          <button
+            type="button"
+            onClick={() => change({ steps: [...value.steps, { ...EMPTY_STEP }] })}
+            className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            <Plus size={14} />
+            הוסף שלב
+          </button>
+        </div>
+        {value.steps.length === 0 ? (
+          <p className="text-sm text-gray-500">אין שלבים עדיין.</p>
+        ) : (
+          <div className="space-y-3">
+            {value.steps.map((step, index) => (
+              <div key={step.id ?? `new-${index}`} className="border border-gray-200 rounded-xl p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-semibold text-indigo-700">שלב {index + 1}</span>
+                  <span className="text-xs text-gray-500">המתנה (דקות) {index === 0 ? 'מהכניסה' : 'מהשלב הקודם'}:</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={step.delayMinutes}
+                    onChange={e => changeStep(index, { delayMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                    className="form-input w-24"
+                  />
+                  <span className="text-xs text-gray-400">({formatDelay(step.delayMinutes)})</span>
+                  <select
+                    value={step.channel}
+                    onChange={e => changeStep(index, { channel: e.target.value })}
+                    className="form-input w-32"
+                  >
+                    <option value="whatsapp">💬 WhatsApp</option>
+                    <option value="email">📧 מייל</option>
+                    <option value="both">📧💬 שניהם</option>
+                  </select>
+                  {index > 0 && (
+                    <select
+                      value={step.condition}
+                      onChange={e => changeStep(index, { condition: e.target.value })}
+                      className="form-input w-44"
+                    >
+                      {Object.entries(CONDITION_LABEL).map(([key, label]) => (
+                        <option key={key} value={key}>{label}</option>
+                      ))}
+                    </select>
+                  )}
+                  <div className="flex items-center gap-1 mr-auto">
+                    <button type="button" disabled={index === 0} onClick={() => moveStep(index, -1)} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                      <ChevronUp size={16} />
+                    </button>
+                    <button type="button" disabled={index === value.steps.length - 1} onClick={() => moveStep(index, 1)} className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30">
+                      <ChevronDown size={16} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => change({ steps: value.steps.filter((_, i) => i !== index) })}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="הסר שלב"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+                {step.channel !== 'whatsapp' && (
+                  <>
+                    <input
+                      type="text"
+                      value={step.subject ?? ''}
+                      onChange={e => changeStep(index, { subject: e.target.value })}
+                      placeholder="נושא המייל"
+                      className="form-input w-full"
+                    />
+                    <textarea
+                      value={step.contentHtml ?? ''}
+                      onChange={e => changeStep(index, { contentHtml: e.target.value })}
+                      rows={4}
+                      placeholder="תוכן המייל (HTML) — {שם_הורה}, {utm_link}"
+                      className="form-input w-full font-mono text-xs"
+                      dir="ltr"
+                    />
+                  </>
+                )}
+                {step.channel !== 'email' && (
+                  <textarea
+                    value={step.contentWa ?? ''}
+                    onChange={e => changeStep(index, { contentWa: e.target.value })}
+                    rows={3}
+                    placeholder="הודעת WhatsApp — {שם_הורה}, {utm_link}"
+                    className="form-input w-full"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={toggleActive}
+          className={`flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium ${
+            isActive ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200' : 'bg-green-600 text-white hover:bg-green-700'
+          }`}
+        >
+          {isActive ? <Pause size={16} /> : <Play size={16} />}
+          {isActive ? 'השהה רצף' : 'הפעל רצף'}
+        </button>
+        {draft && (
+          <button
+            type="button"
+            onClick={save}
+            disabled={saving}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+          >
+            {saving ? 'שומר...' : 'שמור רצף'}
+          </button>
+        )}
+      </div>
+
+      {/* Enrollment progress */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-gray-900">התקדמות נמענים</h3>
+          {progress && (
+            <div className="flex gap-2 text-xs">
+              {Object.entries(ENROLLMENT_STATUS_LABEL).map(([key, label]) => (
+                <span key={key} className={`px-2 py-0.5 rounded-full ${ENROLLMENT_STATUS_CLASS[key]}`}>
+                  {label}: {progress.counts[key] ?? 0}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+        {!progress || progress.enrollments.length === 0 ? (
+          <p className="text-sm text-gray-500">אף נמען לא נכנס לרצף עדיין.</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="text-right px-3 py-2 font-medium text-gray-600">נמען</th>
+                  <th className="text-right px-3 py-2 font-medium text-gray-600">סטטוס</th>
+                  <th className="text-right px-3 py-2 font-medium text-gray-600">שלבים</th>
+                  <th className="text-right px-3 py-2 font-medium text-gray-600">השלב הבא</th>
+                </tr>
+              </thead>
+              <tbody>
+                {progress.enrollments.map(enrollment => (
+                  <tr key={enrollment.id} className="border-b border-gray-100">
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{enrollment.customer?.name || enrollment.recipientName || '—'}</div>
+                      <div className="text-xs text-gray-400" dir="ltr">{enrollment.phone || enrollment.email}</div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${ENROLLMENT_STATUS_CLASS[enrollment.status] || 'bg-gray-100 text-gray-600'}`}>
+                        {ENROLLMENT_STATUS_LABEL[enrollment.status] || enrollment.status}
+                      </span>
+                      {enrollment.exitReason && (
+                        <div className="text-xs text-gray-500 mt-0.5">{EXIT_LABEL[enrollment.exitReason] || enrollment.exitReason}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-1">
+                        {campaign.steps.map(step => {
+                          const sent = enrollment.recipients.find(r => r.stepId === step.id);
+                          const done = (step.position ?? 0) < enrollment.currentStep;
+                          const color = sent
+                            ? sent.clickCount > 0 ? 'bg-blue-500' : sent.openedAt ? 'bg-green-500' : sent.status === 'failed' ? 'bg-red-400' : 'bg-indigo-300'
+                            : done ? 'bg-gray-300' : 'bg-gray-100 border border-gray-300';
+                          const title = sent
+                            ? `שלב ${step.position}: ${sent.clickCount > 0 ? 'לחץ/ה' : sent.openedAt ? 'נפתח' : sent.status === 'failed' ? 'נכשל' : 'נשלח'}`
+                            : `שלב ${step.position}: ${done ? 'דולג' : 'טרם נשלח'}`;
+                          return <span key={step.id} title={title} className={`w-3 h-3 rounded-full ${color}`} />;
+                        })}
+                        <span className="text-xs text-gray-500 mr-1">
+                          {Math.min(enrollment.currentStep - 1, stepCount)}/{stepCount}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-gray-500">
+                      {enrollment.status === 'active' && enrollment.nextRunAt
+                        ? new Date(enrollment.nextRunAt).toLocaleString('he-IL')
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {progress.total > progress.enrollments.length && (
+              <p className="text-xs text-gray-400 px-3 py-2">מוצגים {progress.enrollments.length} מתוך {progress.total}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
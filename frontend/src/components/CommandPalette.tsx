@@ -0,0 +1,152 @@
+/**
+ * CommandPalette — חיפוש גלובלי (Ctrl/⌘+K)
+ * מעבר מהיר לעמודים וחיפוש בלקוחות, תלמידים, מדריכים, מחזורים, הזמנות, הצעות מחיר, משימות, לידים והודעות WhatsApp
+ */
+import { useState, useEffect, useRef } from 'react';
+import type { ComponentType } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, CornerDownLeft, RefreshCw } from 'lucide-react';
+import api from '../api/client';
+
+export interface PaletteNavItem {
+  path: string;
+  label: string;
+  icon: ComponentType<{ size?: number; className?: string }>;
+}
+
+interface SearchResult {
+  type: string;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  url: string;
+}
+
+interface Props {
+  navItems: PaletteNavItem[];
+  searchEnabled: boolean;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  customer: 'לקוח',
+  student: 'תלמיד',
+  instructor: 'מדריך',
+  cycle: 'מחזור',
+  branch: 'סניף',
+  institutional_order: 'הזמנה מוסדית',
+  paying_body: 'גוף משלם',
+  quote: 'הצעת מחיר',
+  task: 'משימה',
+  lead_appointment: 'ליד',
+  wa_message: 'WhatsApp',
+};
+
+export default function CommandPalette({ navItems, searchEnabled, onClose }: Props) {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const q = query.trim();
+
+  useEffect(() => {
+    if (!searchEnabled || q.length < 2) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const { data } = await api.get<{ results: SearchResult[] }>('/search', { params: { q } });
+        if (!cancelled) setResults(data.results);
+      } catch {
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [q, searchEnabled]);
+
+  const pages = navItems
+    .filter((item, i, all) => all.findIndex(other => other.path === item.path) === i)
+    .filter(item => !q || item.label.toLowerCase().includes(q.toLowerCase()))
+    .slice(0, q ? 5 : 8);
+  const hits = q.length >= 2 ? results : [];
+  const entries = [
+    ...pages.map(p => ({ key: `page:${p.path}`, url: p.path, title: p.label, subtitle: null as string | null, label: 'עמוד', Icon: p.icon })),
+    ...hits.map(r => ({ key: `${r.type}:${r.id}`, url: r.url, title: r.title, subtitle: r.subtitle, label: TYPE_LABELS[r.type] ?? r.type, Icon: null })),
+  ];
+  const activeIndex = Math.min(active, Math.max(entries.length - 1, 0));
+
+  const open = (url: string) => {
+    onClose();
+    navigate(url);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const next = (activeIndex + (e.key === 'ArrowDown' ? 1 : -1) + entries.length) % Math.max(entries.length, 1);
+      setActive(next);
+      listRef.current?.querySelector(`[data-index="${next}"]`)?.scrollIntoView({ block: 'nearest' });
+    } else if (e.key === 'Enter' && entries[activeIndex]) {
+      e.preventDefault();
+      open(entries[activeIndex].url);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-[60] flex items-start justify-center pt-[12vh] px-4" onClick={onClose} dir="rtl">
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+        data-testid="command-palette"
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-gray-200">
+          <Search size={18} className="text-gray-400 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={e => { setQuery(e.target.value); setActive(0); }}
+            onKeyDown={onKeyDown}
+            placeholder={searchEnabled ? 'חיפוש לקוח, טלפון, מחזור, הצעת מחיר או עמוד...' : 'מעבר לעמוד...'}
+            autoFocus
+            className="flex-1 py-3.5 text-sm text-gray-800 focus:outline-none"
+          />
+          {loading && <RefreshCw size={14} className="text-gray-400 animate-spin" />}
+          <kbd className="text-[10px] text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-1">
+          {entries.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-8">
+              {q.length >= 2 && !loading ? 'לא נמצאו תוצאות' : 'התחל להקליד לחיפוש'}
+            </p>
+          ) : entries.map((entry, i) => (
+            <button
+              key={entry.key}
+              data-index={i}
+              onClick={() => open(entry.url)}
+              onMouseEnter={() => setActive(i)}
+              className={`w-full flex items-center gap-3 px-4 py-2 text-right ${i === activeIndex ? 'bg-blue-50' : ''}`}
+            >
+              {entry.Icon ? <entry.Icon size={16} className="text-gray-400 flex-shrink-0" /> : <Search size={16} className="text-gray-300 flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-800 truncate">{entry.title}</p>
+                {entry.subtitle && <p className="text-xs text-gray-400 truncate">{entry.subtitle}</p>}
+              </div>
+              <span className="text-[10px] text-gray-500 bg-gray-100 rounded-full px-2 py-0.5 flex-shrink-0">{entry.label}</span>
+              {i === activeIndex && <CornerDownLeft size={12} className="text-gray-400 flex-shrink-0" />}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Clock, Edit, Link as LinkIcon, Plus, Trash2 } from 'lucide-react';
+import {
+  useCourseLessons,
+  useCreateCourseLesson,
+  useDeleteCourseLesson,
+  useReorderCourseLessons,
+  useUpdateCourseLesson,
+} from '../hooks/useApi';
+import type { CourseLesson, CourseLessonPayload } from '../hooks/useApi';
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+function LessonForm({ lesson, submitLabel, isPending, onSubmit, onCancel }: {
+  lesson?: CourseLesson;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (data: CourseLessonPayload) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [title, setTitle] = useState(lesson?.title ?? '');
+  const [objectives, setObjectives] = useState(lesson?.objectives ?? '');
+  const [links, setLinks] = useState((lesson?.materialLinks ?? []).join('\n'));
+  const [duration, setDuration] = useState(lesson?.durationMinutes ? String(lesson.durationMinutes) : '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    await onSubmit({
+      title: title.trim(),
+      objectives: objectives.trim() || null,
+      materialLinks: links.split('\n').map(l => l.trim()).filter(Boolean),
+      durationMinutes: duration ? Number(duration) : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="כותרת השיעור, לדוגמה: משתנים ותנאים"
+          className="form-input flex-1 text-sm"
+        />
+        <input
+          type="number"
+          min={1}
+          value={duration}
+          onChange={(e) => setDuration(e.target.value)}
+          placeholder="דקות"
+          className="form-input w-24 text-sm"
+        />
+      </div>
+      <textarea
+        value={objectives}
+        onChange={(e) => setObjectives(e.target.value)}
+        placeholder="מטרות השיעור"
+        rows={2}
+        className="form-input w-full text-sm"
+      />
+      <textarea
+        value={links}
+        onChange={(e) => setLinks(e.target.value)}
+        placeholder="קישורים לחומרים (קישור בכל שורה)"
+        rows={2}
+        dir="ltr"
+        className="form-input w-full text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && <button type="button" onClick={onCancel} className="btn btn-secondary text-sm">ביטול</button>}
+        <button type="submit" disabled={isPending || !title.trim()} className="btn btn-primary text-sm">
+          <Plus size={16} />
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** Ordered lessons of a course — meeting N of every cycle of the course gets lesson N. */
+export default function CourseLessonsEditor({ courseId }: { courseId: string }) {
+  const { data: lessons = [], isLoading } = useCourseLessons(courseId);
+  const createLesson = useCreateCourseLesson(courseId);
+  const updateLesson = useUpdateCourseLesson(courseId);
+  const reorderLessons = useReorderCourseLessons(courseId);
+  const deleteLesson = useDeleteCourseLesson(courseId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formKey, setFormKey] = useState(0);
+
+  const handleCreate = async (data: CourseLessonPayload) => {
+    try {
+      await createLesson.mutateAsync(data);
+      setFormKey(k => k + 1);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בהוספת השיעור'));
+    }
+  };
+
+  const handleUpdate = async (lesson: CourseLesson, data: CourseLessonPayload) => {
+    try {
+      await updateLesson.mutateAsync({ id: lesson.id, data });
+      setEditingId(null);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בעדכון השיעור'));
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const ids = lessons.map(l => l.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    try {
+      await reorderLessons.mutateAsync(ids);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בשינוי סדר השיעורים'));
+    }
+  };
+
+  const handleDelete = async (lesson: CourseLesson) => {
+    if (!window.confirm(`למחוק את שיעור ${lesson.lessonNumber} "${lesson.title}"? השיעורים שאחריו יוקדמו במספור.`)) return;
+    try {
+      await deleteLesson.mutateAsync(lesson.id);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה במחיקת השיעור'));
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-gray-500">
+        כל מפגש במחזור מקבל את השיעור לפי מספרו במחזור (מפגשים שבוטלו או נדחו מדלגים). המדריך רואה את השיעור בתזכורת ובלינק הדיווח.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">טוען...</p>
+      ) : lessons.length === 0 ? (
+        <p className="text-sm text-gray-400">עדיין לא הוגדרה תוכנית לימודים לקורס</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {lessons.map((lesson, index) => (
+            <div key={lesson.id} className="p-3">
+              {editingId === lesson.id ? (
+                <LessonForm
+                  lesson={lesson}
+                  submitLabel="שמור"
+                  isPending={updateLesson.isPending}
+                  onSubmit={(data) => handleUpdate(lesson, data)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex items-start gap-3">
+                  <span className="w-7 h-7 rounded-full bg-indigo-50 text-indigo-700 text-sm font-medium flex items-center justify-center shrink-0">
+                    {lesson.lessonNumber}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm">{lesson.title}</p>
+                    {lesson.objectives && <p className="text-xs text-gray-500 whitespace-pre-line">{lesson.objectives}</p>}
+                    <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-400">
+                      {lesson.durationMinutes && <span className="flex items-center gap-1"><Clock size={12} />{lesson.durationMinutes} דק'</span>}
+                      {lesson.materialLinks.map(link => (
+                        <a key={link} href={link} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-blue-600 hover:underline">
+                          <LinkIcon size={12} />
+                          חומר
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0 || reorderLessons.isPending}
+                      className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                      title="הזז למעלה"
+                    >
+                      <ArrowUp size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === lessons.length - 1 || reorderLessons.isPending}
+                      className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                      title="הזז למטה"
+                    >
+                      <ArrowDown size={16} />
+                    </button>
+                    <button
+                      onClick={() => setEditingId(lesson.id)}
+                      className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                      title="עריכה"
+                    >
+                      <Edit size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(lesson)}
+                      disabled={deleteLesson.isPending}
+                      className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                      title="מחק"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="border-t pt-4">
+        <p className="text-sm font-medium text-gray-700 mb-2">שיעור {lessons.length + 1}</p>
+        <LessonForm key={formKey} submitLabel="הוסף שיעור" isPending={createLesson.isPending} onSubmit={handleCreate} />
+      </div>
+    </div>
+  );
+}
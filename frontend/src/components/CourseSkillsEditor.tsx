@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Award, Plus, Star, Trash2 } from 'lucide-react';
+import { useCourseSkills, useCreateCourseSkill, useDeleteCourseSkill, useUpdateCourseSkill } from '../hooks/useApi';
+import type { CourseSkill, CourseSkillKind } from '../hooks/useApi';
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+const KIND_LABELS: Record<CourseSkillKind, string> = {
+  skill: 'מיומנות (1–5)',
+  milestone: 'אבן דרך',
+};
+
+/** Skills and milestones of a course — what instructors rate students on after each meeting. */
+export default function CourseSkillsEditor({ courseId }: { courseId: string }) {
+  const { data: skills = [], isLoading } = useCourseSkills(courseId);
+  const createSkill = useCreateCourseSkill(courseId);
+  const updateSkill = useUpdateCourseSkill(courseId);
+  const deleteSkill = useDeleteCourseSkill(courseId);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<CourseSkillKind>('skill');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      await createSkill.mutateAsync({ name: name.trim(), kind, sortOrder: skills.length });
+      setName('');
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בהוספת המיומנות'));
+    }
+  };
+
+  const handleRename = async (skill: CourseSkill, value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed || trimmed === skill.name) return;
+    try {
+      await updateSkill.mutateAsync({ id: skill.id, data: { name: trimmed } });
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בעדכון המיומנות'));
+    }
+  };
+
+  const handleDelete = async (skill: CourseSkill) => {
+    if (!window.confirm(`להסיר את "${skill.name}"? דירוגים קיימים יישמרו בהיסטוריה.`)) return;
+    try {
+      await deleteSkill.mutateAsync(skill.id);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בהסרת המיומנות'));
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-gray-500">
+        המדריכים מדרגים כל תלמיד במיומנויות אלו אחרי כל מפגש. הדירוגים מרכיבים את ציר ההתקדמות ואת תעודת הסיום.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">טוען...</p>
+      ) : skills.length === 0 ? (
+        <p className="text-sm text-gray-400">עדיין לא הוגדרו מיומנויות לקורס</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {skills.map(skill => (
+            <div key={skill.id} className="flex items-center gap-3 p-3">
+              {skill.kind === 'milestone'
+                ? <Award size={16} className="text-purple-500 shrink-0" />
+                : <Star size={16} className="text-amber-500 shrink-0" />}
+              <input
+                defaultValue={skill.name}
+                onBlur={(e) => handleRename(skill, e.target.value)}
+                className="form-input flex-1 text-sm"
+              />
+              <span className="text-xs text-gray-500 shrink-0">{KIND_LABELS[skill.kind]}</span>
+              <button
+                onClick={() => handleDelete(skill)}
+                disabled={deleteSkill.isPending}
+                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                title="הסר"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2 border-t pt-4">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="לדוגמה: שימוש בלולאות"
+          className="form-input flex-1 text-sm"
+        />
+        <select value={kind} onChange={(e) => setKind(e.target.value as CourseSkillKind)} className="form-input w-36 text-sm">
+          <option value="skill">{KIND_LABELS.skill}</option>
+          <option value="milestone">{KIND_LABELS.milestone}</option>
+        </select>
+        <button type="submit" disabled={createSkill.isPending || !name.trim()} className="btn btn-primary text-sm">
+          <Plus size={16} />
+          הוסף
+        </button>
+      </form>
+    </div>
+  );
+}
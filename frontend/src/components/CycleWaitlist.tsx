@@ -0,0 +1,137 @@
+import { ChevronDown, ChevronUp, Clock, Send, Trash2, UserCheck } from 'lucide-react';
+import { useCycleWaitlist, useMoveWaitlistEntry, useWaitlistAction } from '../hooks/useApi';
+import { waitlistStatusHebrew } from '../types';
+import type { WaitlistEntry } from '../types';
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString('he-IL', { day: 'numeric', month: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/** Ordered waitlist of a full cycle: reorder, send the WhatsApp seat offer, place or remove. */
+export default function CycleWaitlist({ cycleId, maxStudents }: { cycleId: string; maxStudents?: number | null }) {
+  const { data } = useCycleWaitlist(cycleId);
+  const action = useWaitlistAction();
+  const move = useMoveWaitlistEntry();
+  const entries = data?.entries ?? [];
+
+  if (!maxStudents && entries.length === 0) return null;
+
+  const run = async (entry: WaitlistEntry, kind: 'offer' | 'place' | 'remove') => {
+    const name = entry.student?.name ?? entry.childName ?? '';
+    const prompts = {
+      offer: `לשלוח ל${entry.customer?.name ?? 'משפחה'} הצעה בוואטסאפ למקום עבור ${name}?`,
+      place: `לשבץ את ${name} במחזור עכשיו?`,
+      remove: `להסיר את ${name} מרשימת ההמתנה?`,
+    };
+    if (!window.confirm(prompts[kind])) return;
+    try {
+      await action.mutateAsync({ id: entry.id, cycleId, action: kind });
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בעדכון רשימת ההמתנה'));
+    }
+  };
+
+  const handleMove = async (entry: WaitlistEntry, index: number) => {
+    try {
+      await move.mutateAsync({ id: entry.id, cycleId, position: index + 1 });
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בשינוי הסדר'));
+    }
+  };
+
+  const busy = action.isPending || move.isPending;
+
+  return (
+    <div className="card mt-4" data-testid="cycle-waitlist">
+      <div className="card-header flex items-center justify-between">
+        <h2 className="font-semibold">רשימת המתנה ({entries.length})</h2>
+        {data?.availableSeats !== null && data?.availableSeats !== undefined && (
+          <span className="text-sm text-gray-500">
+            {data.availableSeats > 0 ? `${data.availableSeats} מקומות פנויים` : 'המחזור מלא'}
+          </span>
+        )}
+      </div>
+      {entries.length > 0 ? (
+        <div className="divide-y">
+          {entries.map((entry, index) => (
+            <div key={entry.id} className="p-4 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="w-7 h-7 shrink-0 rounded-full bg-gray-100 text-gray-600 text-sm font-medium flex items-center justify-center">
+                  {index + 1}
+                </span>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{entry.student?.name ?? entry.childName}</p>
+                    <span className={`badge text-xs ${entry.status === 'offered' ? 'badge-warning' : 'badge-info'}`}>
+                      {waitlistStatusHebrew[entry.status]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500 truncate">
+                    {entry.customer?.name}{entry.customer?.phone ? ` · ${entry.customer.phone}` : ''}
+                  </p>
+                  {entry.status === 'offered' && entry.offerExpiresAt && (
+                    <p className="text-xs text-amber-700 flex items-center gap-1 mt-0.5">
+                      <Clock size={12} />
+                      ההצעה בתוקף עד {formatDateTime(entry.offerExpiresAt)}
+                    </p>
+                  )}
+                  {entry.notes && <p className="text-xs text-gray-400 mt-0.5">{entry.notes}</p>}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => handleMove(entry, index - 1)}
+                  disabled={busy || index === 0}
+                  className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                  title="הקדם בתור"
+                >
+                  <ChevronUp size={16} />
+                </button>
+                <button
+                  onClick={() => handleMove(entry, index + 1)}
+                  disabled={busy || index === entries.length - 1}
+                  className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                  title="הזז אחורה בתור"
+                >
+                  <ChevronDown size={16} />
+                </button>
+                {entry.status === 'waiting' && (
+                  <button
+                    onClick={() => run(entry, 'offer')}
+                    disabled={busy}
+                    className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg"
+                    title="שלח הצעה בוואטסאפ"
+                  >
+                    <Send size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => run(entry, 'place')}
+                  disabled={busy}
+                  className="p-1.5 text-blue-500 hover:bg-blue-50 rounded-lg"
+                  title="שבץ במחזור"
+                >
+                  <UserCheck size={16} />
+                </button>
+                <button
+                  onClick={() => run(entry, 'remove')}
+                  disabled={busy}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                  title="הסר מרשימת ההמתנה"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="p-4 text-sm text-gray-500">אין ממתינים. כשהמחזור מלא, תלמידים חדשים יתווספו לרשימה לפי הסדר.</p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useRef, useState, useCallback } from 'react';
-import { Upload, File, FileText, Image, Trash2, Download, Tag, Loader2, X } from 'lucide-react';
+import { Upload, File, FileText, Image, Trash2, Download, Tag, Loader2, X, Eye } from 'lucide-react';
 import {
   useFileAttachments,
+  useFileUsage,
   useUploadFile,
   useDeleteFile,
   useUpdateFileLabel,
@@ -9,13 +10,27 @@ import {
 } from '../hooks/useApi';
 
 interface FileAttachmentsProps {
-  entityType: 'instructor' | 'quote' | 'institutional-order' | 'task';
+  entityType:
+    | 'customer'
+    | 'student'
+    | 'instructor'
+    | 'cycle'
+    | 'meeting'
+    | 'quote'
+    | 'institutional-order'
+    | 'billing-period'
+    | 'task';
   entityId: string;
   canDelete?: boolean; // admin/manager can delete
   className?: string;
 }
 
 const LABEL_SUGGESTIONS: Record<FileAttachmentsProps['entityType'], string[]> = {
+  customer: ['תעודת זהות', 'הסכם', 'אישור תשלום', 'מסמך רפואי', 'אחר'],
+  student: ['הצהרת בריאות', 'אישור הורים', 'תעודה', 'עבודה', 'אחר'],
+  cycle: ['סילבוס', 'מערך שיעור', 'רשימת נוכחות', 'אישור מוסד', 'אחר'],
+  meeting: ['מערך שיעור', 'צילום מהשיעור', 'רשימת נוכחות', 'אחר'],
+  'billing-period': ['חשבונית', 'קבלה', 'אישור תשלום', 'דוח שעות', 'אחר'],
   instructor: ['חוזה', 'קורות חיים', 'תעודת זהות', 'תעודות הסמכה', 'אחר'],
   quote: ['הצעת מחיר חתומה', 'חוזה', 'אישור הזמנה', 'קבלה', 'אחר'],
   'institutional-order': ['הזמנת רכש', 'חוזה', 'הצעת מחיר חתומה', 'חשבונית', 'קבלה', 'אחר'],
@@ -28,6 +43,9 @@ const formatFileSize = (bytes: number): string => {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
 
+// Served inline by /api/files/preview — same list as PREVIEWABLE_MIME_TYPES on the server
+const PREVIEWABLE = ['application/pdf', 'image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
 const getFileIcon = (mimeType: string) => {
   if (mimeType.startsWith('image/')) return <Image size={20} className="text-blue-500" />;
   if (mimeType === 'application/pdf') return <FileText size={20} className="text-red-500" />;
@@ -39,6 +57,7 @@ const formatDate = (dateStr: string) =>
 
 export default function FileAttachments({ entityType, entityId, canDelete = false, className = '' }: FileAttachmentsProps) {
   const { data: files, isLoading } = useFileAttachments(entityType, entityId);
+  const { data: usage } = useFileUsage(entityType, entityId);
   const uploadFile = useUploadFile(entityType, entityId);
   const deleteFile = useDeleteFile(entityType, entityId);
   const updateLabel = useUpdateFileLabel(entityType, entityId);
@@ -49,6 +68,7 @@ export default function FileAttachments({ entityType, entityId, canDelete = fals
   const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
   const [editingLabelValue, setEditingLabelValue] = useState('');
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [previewFile, setPreviewFile] = useState<FileAttachment | null>(null);
 
   const handleFiles = useCallback(async (fileList: FileList) => {
     const files = Array.from(fileList);
@@ -94,6 +114,11 @@ export default function FileAttachments({ entityType, entityId, canDelete = fals
     return `/api/files/download/${file.id}?token=${encodeURIComponent(token)}`;
   };
 
+  const previewUrl = (file: FileAttachment) => {
+    const token = localStorage.getItem('accessToken') || '';
+    return `/api/files/preview/${file.id}?token=${encodeURIComponent(token)}`;
+  };
+
   const suggestions = LABEL_SUGGESTIONS[entityType];
 
   return (
@@ -116,7 +141,7 @@ export default function FileAttachments({ entityType, entityId, canDelete = fals
           multiple
           className="hidden"
           onChange={(e) => e.target.files && handleFiles(e.target.files)}
-          accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.ppt,.pptx,.jpg,.jpeg,.png,.gif,.webp,.heic,.heif,.txt,.rtf,.zip,.rar"
+          accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.ppt,.pptx,.jpg,.jpeg,.png,.gif,.webp,.heic,.heif,.txt,.rtf"
         />
         {uploadFile.isPending ? (
           <div className="flex items-center justify-center gap-2 text-blue-600">
@@ -127,7 +152,20 @@ export default function FileAttachments({ entityType, entityId, canDelete = fals
           <>
             <Upload size={32} className="mx-auto mb-2 text-gray-400" />
             <p className="text-sm text-gray-600 font-medium">גרור קובץ לכאן או לחץ להעלאה</p>
-            <p className="text-xs text-gray-400 mt-1">PDF, Word, Excel, מצגות, CSV, תמונות — עד 20MB</p>
+            <p className="text-xs text-gray-400 mt-1">PDF, Word, Excel, מצגות, CSV, תמונות — עד 20MB (ללא קבצים דחוסים ומאקרו)</p>
+            {usage && (
+              <div className="mt-3 max-w-xs mx-auto" title="נפח אחסון בשימוש">
+                <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${usage.usedBytes / usage.quotaBytes > 0.9 ? 'bg-red-500' : 'bg-blue-500'}`}
+                    style={{ width: `${Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100)}%` }}
+                  />
+                </div>
+                <p className="text-[11px] text-gray-400 mt-1">
+                  {formatFileSize(usage.usedBytes)} מתוך {formatFileSize(usage.quotaBytes)}
+                </p>
+              </div>
+            )}
           </>
         )}
       </div>
@@ -176,8 +214,19 @@ export default function FileAttachments({ entityType, entityId, canDelete = fals
               key={file.id}
               className="bg-white border border-gray-100 rounded-xl p-3 flex items-center gap-3 shadow-sm"
             >
-              {/* Icon */}
-              <div className="shrink-0">{getFileIcon(file.mimeType)}</div>
+              {/* Thumbnail / icon */}
+              {file.mimeType.startsWith('image/') && PREVIEWABLE.includes(file.mimeType) ? (
+                <button onClick={() => setPreviewFile(file)} className="shrink-0" title="תצוגה מקדימה">
+                  <img
+                    src={previewUrl(file)}
+                    alt={file.originalName}
+                    loading="lazy"
+                    className="w-10 h-10 rounded-lg object-cover border border-gray-100"
+                  />
+                </button>
+              ) : (
+                <div className="shrink-0">{getFileIcon(file.mimeType)}</div>
+              )}
 
               {/* Info */}
               <div className="flex-1 min-w-0">
@@ -224,6 +273,15 @@ export default function FileAttachments({ entityType, entityId, canDelete = fals
 
               {/* Actions */}
               <div className="flex items-center gap-1 shrink-0">
+                {PREVIEWABLE.includes(file.mimeType) && (
+                  <button
+                    onClick={() => setPreviewFile(file)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors rounded-lg hover:bg-blue-50"
+                    title="תצוגה מקדימה"
+                  >
+                    <Eye size={16} />
+                  </button>
+                )}
                 <a
                   href={downloadUrl(file)}
                   target="_blank"
@@ -266,6 +324,32 @@ export default function FileAttachments({ entityType, entityId, canDelete = fals
           ))}
         </div>
       )}
+
+      {/* Preview modal */}
+      {previewFile && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={() => setPreviewFile(null)}>
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <p className="text-sm font-medium text-gray-800 truncate">{previewFile.originalName}</p>
+              <div className="flex items-center gap-1">
+                <a href={downloadUrl(previewFile)} className="p-2 text-gray-400 hover:text-blue-600 rounded-lg hover:bg-blue-50" title="הורד">
+                  <Download size={16} />
+                </a>
+                <button onClick={() => setPreviewFile(null)} className="p-2 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100">
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+            <div className="flex-1 bg-gray-50 flex items-center justify-center min-h-0">
+              {previewFile.mimeType === 'application/pdf' ? (
+                <iframe src={previewUrl(previewFile)} title={previewFile.originalName} className="w-full h-full" />
+              ) : (
+                <img src={previewUrl(previewFile)} alt={previewFile.originalName} className="max-w-full max-h-full object-contain" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+
+const POLL_MS = 30000;
+
+/** Combined WhatsApp / Messenger / Instagram unread counter for the unified inbox nav item. */
+export default function InboxUnreadBadge({ compact = false }: { compact?: boolean }) {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    const fetchCount = async () => {
+      try {
+        const token = localStorage.getItem('accessToken') || '';
+        const res = await fetch('/api/inbox/unread-count', { headers: { Authorization: `Bearer ${token}` } });
+        if (res.ok) setCount((await res.json()).total ?? 0);
+      } catch {
+        // keep the last known count
+      }
+    };
+    fetchCount();
+    const interval = setInterval(fetchCount, POLL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (count === 0) return null;
+  return (
+    <span
+      className={`bg-red-500 text-white rounded-full font-semibold leading-none ${
+        compact ? 'absolute top-1 left-1 w-2 h-2' : 'mr-auto text-[10px] px-1.5 py-0.5'
+      }`}
+      data-testid="inbox-unread-badge"
+    >
+      {compact ? '' : count > 99 ? '99+' : count}
+    </span>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { CalendarOff, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  useAddInstructorUnavailableDate,
+  useInstructorAvailability,
+  useRemoveInstructorUnavailableDate,
+  useUpdateInstructorAvailability,
+} from '../hooks/useApi';
+import { dayOfWeekHebrew } from '../types';
+import type { DayOfWeek, InstructorAvailabilitySlot } from '../types';
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+const DAYS = Object.keys(dayOfWeekHebrew) as DayOfWeek[];
+
+/** Weekly availability slots + unavailable dates; ops use them to find substitutes. */
+export default function InstructorAvailabilityEditor({ instructorId }: { instructorId: string }) {
+  const { data, isLoading } = useInstructorAvailability(instructorId);
+  const updateAvailability = useUpdateInstructorAvailability();
+  const addDate = useAddInstructorUnavailableDate();
+  const removeDate = useRemoveInstructorUnavailableDate();
+
+  // Local edits; null until the user changes something
+  const [draft, setDraft] = useState<InstructorAvailabilitySlot[] | null>(null);
+  const [newDate, setNewDate] = useState('');
+  const [newReason, setNewReason] = useState('');
+
+  const slots = draft ?? data?.slots ?? [];
+
+  const changeSlot = (index: number, patch: Partial<InstructorAvailabilitySlot>) => {
+    setDraft(slots.map((slot, i) => (i === index ? { ...slot, ...patch } : slot)));
+  };
+
+  const addSlot = () => {
+    setDraft([...slots, { dayOfWeek: 'sunday', startTime: '14:00', endTime: '19:00' }]);
+  };
+
+  const removeSlot = (index: number) => {
+    setDraft(slots.filter((_, i) => i !== index));
+  };
+
+  const saveSlots = async () => {
+    try {
+      await updateAvailability.mutateAsync({
+        instructorId,
+        slots: slots.map(({ dayOfWeek, startTime, endTime }) => ({ dayOfWeek, startTime, endTime })),
+      });
+      setDraft(null);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בשמירת הזמינות'));
+    }
+  };
+
+  const handleAddDate = async () => {
+    if (!newDate) return;
+    try {
+      await addDate.mutateAsync({ instructorId, data: { date: newDate, reason: newReason || undefined } });
+      setNewDate('');
+      setNewReason('');
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בהוספת התאריך'));
+    }
+  };
+
+  if (isLoading) {
+    return <div className="flex justify-center py-6"><Loader2 className="animate-spin text-gray-400" /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-medium text-gray-800">זמינות שבועית</h3>
+          <button type="button" onClick={addSlot} className="btn btn-secondary text-sm flex items-center gap-1">
+            <Plus size={14} />
+            הוסף חלון זמן
+          </button>
+        </div>
+        {slots.length === 0 ? (
+          <p className="text-sm text-gray-500">לא הוגדרה זמינות. המדריך/ה יופיע/ו בחיפוש מחליפים כ"זמינות לא ידועה".</p>
+        ) : (
+          <div className="space-y-2">
+            {slots.map((slot, index) => (
+              <div key={slot.id ?? `new-${index}`} className="flex items-center gap-2">
+                <select
+                  value={slot.dayOfWeek}
+                  onChange={(e) => changeSlot(index, { dayOfWeek: e.target.value as DayOfWeek })}
+                  className="form-input w-32"
+                >
+                  {DAYS.map((day) => (
+                    <option key={day} value={day}>{dayOfWeekHebrew[day]}</option>
+                  ))}
+                </select>
+                <input
+                  type="time"
+                  value={slot.startTime}
+                  onChange={(e) => changeSlot(index, { startTime: e.target.value })}
+                  className="form-input w-28"
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="time"
+                  value={slot.endTime}
+                  onChange={(e) => changeSlot(index, { endTime: e.target.value })}
+                  className="form-input w-28"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeSlot(index)}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                  title="הסר"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {draft && (
+          <div className="flex justify-end mt-3">
+            <button
+              type="button"
+              onClick={saveSlots}
+              disabled={updateAvailability.isPending}
+              className="btn btn-primary text-sm"
+            >
+              {updateAvailability.isPending ? 'שומר...' : 'שמור זמינות'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-800 mb-2 flex items-center gap-1.5">
+          <CalendarOff size={16} className="text-gray-500" />
+          תאריכים בהם לא זמין/ה
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} className="form-input w-40" />
+          <input
+            type="text"
+            value={newReason}
+            onChange={(e) => setNewReason(e.target.value)}
+            placeholder="סיבה (אופציונלי)"
+            className="form-input flex-1 min-w-[10rem]"
+          />
+          <button
+            type="button"
+            onClick={handleAddDate}
+            disabled={!newDate || addDate.isPending}
+            className="btn btn-secondary text-sm"
+          >
+            הוסף
+          </button>
+        </div>
+        {data?.unavailableDates.length ? (
+          <div className="divide-y border rounded-lg">
+            {data.unavailableDates.map((row) => (
+              <div key={row.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span>
+                  {new Date(row.date).toLocaleDateString('he-IL', { weekday: 'short', day: 'numeric', month: 'numeric', year: 'numeric' })}
+                  {row.reason && <span className="text-gray-500"> · {row.reason}</span>}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeDate.mutate({ instructorId, dateId: row.id })}
+                  disabled={removeDate.isPending}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                  title="הסר"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">אין תאריכים עתידיים.</p>
+        )}
+      </div>
+    </div>
+  );
+}
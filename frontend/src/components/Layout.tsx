@@ -3,6 +3,8 @@ import { NavLink, Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import OnlineUsers from './OnlineUsers';
 import VersionBadge from './VersionBadge';
+import InboxUnreadBadge from './InboxUnreadBadge';
+import CommandPalette from './CommandPalette';
 import {
   LayoutDashboard,
   Users,
@@ -40,6 +42,9 @@ import {
   ListTodo,
   Activity,
   ClipboardList,
+  CalendarOff,
+  Inbox,
+  Search,
 } from 'lucide-react';
 
 // Admin/Manager navigation — grouped
@@ -53,6 +58,7 @@ const adminNavGroups = [
       { path: '/students', icon: GraduationCap, label: 'תלמידים', testId: 'nav-students' },
       { path: '/courses', icon: BookOpen, label: 'קורסים', testId: 'nav-courses' },
       { path: '/branches', icon: Building2, label: 'סניפים', testId: 'nav-branches' },
+      { path: '/closures', icon: CalendarOff, label: 'ימי חג וסגירה', testId: 'nav-closures' },
       { path: '/instructors', icon: UserCheck, label: 'מדריכים', testId: 'nav-instructors' },
       { path: '/cycles', icon: RefreshCcw, label: 'מחזורים', testId: 'nav-cycles' },
       { path: '/meetings', icon: Calendar, label: 'פגישות', testId: 'nav-meetings' },
@@ -71,6 +77,7 @@ const adminNavGroups = [
     label: '📣 שיווק',
     items: [
       { path: '/lead-appointments', icon: PhoneCall, label: 'יומן לידים', testId: 'nav-lead-appointments' },
+      { path: '/inbox', icon: Inbox, label: 'תיבה מאוחדת', testId: 'nav-inbox' },
       { path: '/whatsapp', icon: MessageCircle, label: 'WhatsApp', testId: 'nav-whatsapp' },
       { path: '/messenger', icon: MessagesSquare, label: 'Messenger', testId: 'nav-messenger' },
       { path: '/instagram', icon: Camera, label: 'Instagram DMs', testId: 'nav-instagram' },
@@ -145,6 +152,7 @@ const operationsManagerNavGroups = [
       { path: '/students', icon: GraduationCap, label: 'תלמידים', testId: 'nav-students' },
       { path: '/courses', icon: BookOpen, label: 'קורסים', testId: 'nav-courses' },
       { path: '/branches', icon: Building2, label: 'סניפים', testId: 'nav-branches' },
+      { path: '/closures', icon: CalendarOff, label: 'ימי חג וסגירה', testId: 'nav-closures' },
       { path: '/instructors', icon: UserCheck, label: 'מדריכים', testId: 'nav-instructors' },
       { path: '/cycles', icon: RefreshCcw, label: 'מחזורים', testId: 'nav-cycles' },
       { path: '/meetings', icon: Calendar, label: 'פגישות', testId: 'nav-meetings' },
@@ -164,6 +172,7 @@ export default function Layout() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
   // Collapsed sections state — persisted in localStorage
   const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>(() => {
@@ -182,6 +191,18 @@ export default function Layout() {
     });
   };
 
+  // Command palette — Ctrl/⌘+K from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   // Close mobile sidebar on route change
   useEffect(() => {
     setMobileSidebarOpen(false);
@@ -211,6 +232,11 @@ export default function Layout() {
           ? operationsControlNavItems
           : [];
 
+  // Every page the user can reach from the sidebar, for the command palette
+  const paletteNavItems = isAdmin || isOperationsManager
+    ? (isOperationsManager ? operationsManagerNavGroups : adminNavGroups).flatMap(group => group.items)
+    : flatNavItems;
+
   const renderNavItem = (item: { path: string; icon: any; label: string; testId: string }) => {
     return (
       <NavLink
@@ -218,7 +244,7 @@ export default function Layout() {
         to={item.path}
         data-testid={item.testId}
         className={({ isActive }) =>
-          `flex items-center gap-3 px-4 py-2.5 mx-2 rounded-lg transition-colors min-h-[40px] ${
+          `relative flex items-center gap-3 px-4 py-2.5 mx-2 rounded-lg transition-colors min-h-[40px] ${
             isActive
               ? 'bg-blue-600 text-white'
               : 'text-slate-300 hover:bg-slate-700 hover:text-white'
@@ -227,6 +253,7 @@ export default function Layout() {
       >
         <item.icon size={20} className="flex-shrink-0" />
         {sidebarOpen && <span className="text-sm">{item.label}</span>}
+        {item.path === '/inbox' && <InboxUnreadBadge compact={!sidebarOpen} />}
       </NavLink>
     );
   };
@@ -256,6 +283,22 @@ export default function Layout() {
         </button>
       </div>
 
+      {/* Global search */}
+      <button
+        onClick={() => setPaletteOpen(true)}
+        className="flex items-center gap-3 px-4 py-2 mx-2 mt-2 rounded-lg text-slate-400 bg-slate-700/50 hover:bg-slate-700 hover:text-white transition-colors"
+        data-testid="open-command-palette"
+        title="חיפוש (Ctrl+K)"
+      >
+        <Search size={18} className="flex-shrink-0" />
+        {sidebarOpen && (
+          <>
+            <span className="text-sm flex-1 text-right">חיפוש...</span>
+            <kbd className="text-[10px] border border-slate-600 rounded px-1.5 py-0.5" dir="ltr">Ctrl K</kbd>
+          </>
+        )}
+      </button>
+
       {/* Navigation */}
       <nav className="flex-1 py-2 overflow-y-auto" data-testid="main-nav">
         {isAdmin || isOperationsManager ? (
@@ -388,6 +431,14 @@ export default function Layout() {
         <Outlet />
       </main>
 
+      {paletteOpen && (
+        <CommandPalette
+          navItems={paletteNavItems}
+          searchEnabled={isAdmin || isOperationsManager}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+
       {/* DEV branch indicator — only in development mode */}
       {import.meta.env.DEV && (
         <div style={{
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Award, Save, Star } from 'lucide-react';
+import { useMeetingRatings, useSaveMeetingRatings } from '../hooks/useApi';
+import type { MeetingRatingSheet, SkillRating } from '../hooks/useApi';
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+const key = (studentId: string, skillId: string) => `${studentId}:${skillId}`;
+
+/** Post-meeting rating grid: every student of the cycle × the course's skills and milestones. */
+export default function MeetingSkillRatings({ meetingId }: { meetingId: string }) {
+  const { data, isLoading } = useMeetingRatings(meetingId);
+
+  if (isLoading) return <p className="text-sm text-gray-400">טוען...</p>;
+  if (!data || data.skills.length === 0) {
+    return <p className="text-sm text-gray-400">לא הוגדרו מיומנויות לקורס (ניתן להגדיר בעמוד הקורסים)</p>;
+  }
+  if (data.students.length === 0) return <p className="text-sm text-gray-400">אין תלמידים רשומים במחזור</p>;
+
+  // Remount when the saved ratings change so the draft starts from the server state
+  return <RatingGrid key={data.ratings.map(r => `${key(r.studentId, r.skillId)}=${r.score}`).join(',')} meetingId={meetingId} sheet={data} />;
+}
+
+function RatingGrid({ meetingId, sheet }: { meetingId: string; sheet: MeetingRatingSheet }) {
+  const save = useSaveMeetingRatings(meetingId);
+  const [draft, setDraft] = useState<Map<string, SkillRating>>(
+    () => new Map(sheet.ratings.map(r => [key(r.studentId, r.skillId), r])),
+  );
+  const [dirty, setDirty] = useState(false);
+
+  const setScore = (studentId: string, skillId: string, score: number) => {
+    setDraft(prev => new Map(prev).set(key(studentId, skillId), { studentId, skillId, score, note: prev.get(key(studentId, skillId))?.note }));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      await save.mutateAsync([...draft.values()]);
+      setDirty(false);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בשמירת הדירוגים'));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <thead>
+            <tr>
+              <th className="text-right">תלמיד</th>
+              {sheet.skills.map(skill => (
+                <th key={skill.id} className="text-center whitespace-nowrap">
+                  <span className="inline-flex items-center gap-1">
+                    {skill.kind === 'milestone' ? <Award size={12} className="text-purple-500" /> : <Star size={12} className="text-amber-500" />}
+                    {skill.name}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.students.map(student => (
+              <tr key={student.id} className={student.attendance === 'absent' ? 'opacity-50' : ''}>
+                <td className="font-medium whitespace-nowrap">
+                  {student.name}
+                  {student.attendance === 'absent' && <span className="text-xs text-gray-400 mr-1">(נעדר/ת)</span>}
+                </td>
+                {sheet.skills.map(skill => {
+                  const score = draft.get(key(student.id, skill.id))?.score ?? 0;
+                  return (
+                    <td key={skill.id} className="text-center">
+                      {skill.kind === 'milestone' ? (
+                        <input
+                          type="checkbox"
+                          checked={score > 0}
+                          onChange={(e) => setScore(student.id, skill.id, e.target.checked ? 1 : 0)}
+                          title="הושג"
+                        />
+                      ) : (
+                        <div className="inline-flex" dir="ltr">
+                          {[1, 2, 3, 4, 5].map(value => (
+                            <button
+                              key={value}
+                              type="button"
+                              onClick={() => setScore(student.id, skill.id, value)}
+                              className={value <= score ? 'text-amber-500' : 'text-gray-300 hover:text-amber-300'}
+                              title={`${value}`}
+                            >
+                              <Star size={14} fill={value <= score ? 'currentColor' : 'none'} />
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-end">
+        <button onClick={handleSave} disabled={!dirty || save.isPending} className="btn btn-primary text-sm">
+          <Save size={16} />
+          {save.isPending ? 'שומר...' : 'שמור דירוגים'}
+        </button>
+      </div>
+    </div>
+  );
+}
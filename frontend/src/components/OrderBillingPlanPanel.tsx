@@ -0,0 +1,86 @@
+import { RefreshCcw } from 'lucide-react';
+import { useOrderBillingPlan, useRebuildOrderBillingPlan } from '../hooks/useApi';
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+const formatMonth = (date: string) => new Date(date).toLocaleDateString('he-IL', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+const formatMoney = (amount: number) => `₪${Number(amount).toLocaleString('he-IL', { maximumFractionDigits: 2 })}`;
+
+const periodLabel = (start: string, end: string) =>
+  start.slice(0, 7) === end.slice(0, 7) ? formatMonth(start) : `${formatMonth(start)} – ${formatMonth(end)}`;
+
+/**
+ * Projected monthly billing built from the order's scheduled meetings, next to the billing
+ * periods generated so far and how far each one landed from its projection.
+ */
+export default function OrderBillingPlanPanel({ orderId }: { orderId: string }) {
+  const { data: plan, isLoading } = useOrderBillingPlan(orderId);
+  const rebuild = useRebuildOrderBillingPlan();
+
+  const handleRebuild = async () => {
+    if (!window.confirm('לבנות מחדש את תוכנית החיוב לפי המפגשים המתוכננים כעת?')) return;
+    try {
+      await rebuild.mutateAsync(orderId);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בבניית תוכנית החיוב'));
+    }
+  };
+
+  if (isLoading) return <p className="text-sm text-gray-400">טוען...</p>;
+  if (!plan) return null;
+
+  return (
+    <div className="space-y-4">
+      {plan.months.length === 0 ? (
+        <p className="text-sm text-gray-400">אין תוכנית חיוב להזמנה</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+          {plan.months.map(month => (
+            <div key={month.id} className="px-3 py-2 rounded-lg border border-gray-200">
+              <p className="text-xs text-gray-500">{formatMonth(month.month)}</p>
+              <p className="text-sm font-medium">{formatMoney(month.expectedAmount)}</p>
+              <p className="text-xs text-gray-400">{month.expectedMeetings} מפגשים</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {plan.periods.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-right">תקופת חיוב</th>
+              <th className="text-right">בפועל</th>
+              <th className="text-right">צפוי</th>
+              <th className="text-right">פער</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.periods.map(period => (
+              <tr key={period.id}>
+                <td>{periodLabel(period.monthStart, period.monthEnd)}</td>
+                <td>{formatMoney(period.totalAmount)}</td>
+                <td className="text-gray-500">{period.plannedAmount == null ? '—' : formatMoney(period.plannedAmount)}</td>
+                <td className={period.variance == null || period.variance === 0 ? 'text-gray-500' : period.variance < 0 ? 'text-red-600' : 'text-green-700'}>
+                  {period.variance == null ? '—' : formatMoney(period.variance)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-500">
+          צפוי {formatMoney(plan.plannedTotal)} · חויב {formatMoney(plan.billedTotal)}
+        </span>
+        <button onClick={handleRebuild} disabled={rebuild.isPending} className="btn btn-secondary text-sm">
+          <RefreshCcw size={14} />
+          בנה מחדש
+        </button>
+      </div>
+    </div>
+  );
+}
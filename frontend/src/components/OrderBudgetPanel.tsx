@@ -0,0 +1,79 @@
+import { useOrderBudget } from '../hooks/useApi';
+
+const formatMoney = (amount: number) => `₪${Number(amount).toLocaleString('he-IL', { maximumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('he-IL', { timeZone: 'UTC' });
+
+const LEVEL_STYLES = {
+  ok: { bar: 'bg-green-500', badge: 'badge-success', label: 'בתקציב' },
+  warning: { bar: 'bg-amber-500', badge: 'badge-warning', label: 'מתקרב לסוף ההזמנה' },
+  exhausted: { bar: 'bg-red-500', badge: 'badge-danger', label: 'ההזמנה נוצלה' },
+} as const;
+
+/**
+ * How much of the order has been used — meetings held and amount billed against the
+ * order — and whether the meetings already scheduled fit in what is left.
+ */
+export default function OrderBudgetPanel({ orderId }: { orderId: string }) {
+  const { data: budget, isLoading } = useOrderBudget(orderId);
+
+  if (isLoading) return <p className="text-sm text-gray-400">טוען...</p>;
+  if (!budget) return null;
+  if (budget.budget == null && budget.estimatedMeetings == null) {
+    return <p className="text-sm text-gray-400">לא הוגדרו סכום או מספר מפגשים להזמנה</p>;
+  }
+
+  const style = LEVEL_STYLES[budget.level];
+  const percent = budget.consumedPercent ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-1 text-sm">
+          <span className="font-medium">נוצל {percent}%</span>
+          <span className={`badge ${style.badge}`}>{style.label}</span>
+        </div>
+        <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+          <div className={`h-full ${style.bar}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+        {budget.estimatedMeetings != null && (
+          <div className="px-3 py-2 rounded-lg border border-gray-200">
+            <p className="text-xs text-gray-500">מפגשים</p>
+            <p className="font-medium">{budget.heldMeetings} / {budget.estimatedMeetings}</p>
+          </div>
+        )}
+        {budget.budget != null && (
+          <div className="px-3 py-2 rounded-lg border border-gray-200">
+            <p className="text-xs text-gray-500">נוצל מתוך ההזמנה</p>
+            <p className="font-medium">{formatMoney(budget.consumedAmount)} / {formatMoney(budget.budget)}</p>
+          </div>
+        )}
+        <div className="px-3 py-2 rounded-lg border border-gray-200">
+          <p className="text-xs text-gray-500">חויב</p>
+          <p className="font-medium">{formatMoney(budget.billedAmount)}</p>
+        </div>
+        {budget.remainingBudget != null && (
+          <div className="px-3 py-2 rounded-lg border border-gray-200">
+            <p className="text-xs text-gray-500">יתרה</p>
+            <p className={`font-medium ${budget.remainingBudget < 0 ? 'text-red-600' : ''}`}>{formatMoney(budget.remainingBudget)}</p>
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {budget.scheduledMeetings} מפגשים מתוכננים ({formatMoney(budget.scheduledAmount)})
+        {budget.projectedExhaustionDate && ` · ההזמנה צפויה להיגמר ב-${formatDate(budget.projectedExhaustionDate)}`}
+      </p>
+
+      {budget.unfundedMeetings > 0 && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+          {budget.unfundedMeetings} מפגשים מתוכננים אינם מכוסים בהזמנה
+          {budget.overrunAmount > 0 && ` (${formatMoney(budget.overrunAmount)})`}
+          {' '}— יש לבקש הגדלת הזמנה מהמוסד.
+        </div>
+      )}
+    </div>
+  );
+}
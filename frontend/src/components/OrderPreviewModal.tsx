@@ -1,9 +1,12 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { AlertTriangle, AlertOctagon, ShoppingCart, Loader2, ArrowLeft } from 'lucide-react';
+import { AlertTriangle, AlertOctagon, ShoppingCart, Loader2, ArrowLeft, ArrowRight, CalendarPlus } from 'lucide-react';
 import Modal from './ui/Modal';
 import Loading from './ui/Loading';
-import { quotesApi, type OrderPreview } from '../api/quotes';
+import { quotesApi, type ConvertCyclePlan, type OrderPreview } from '../api/quotes';
+import { useInstructors } from '../hooks/useApi';
+import { dayOfWeekHebrew, type DayOfWeek } from '../types';
+import { saveWithConflictCheck } from '../utils/instructorConflicts';
 
 interface OrderPreviewModalProps {
   quoteId: string;
@@ -18,6 +21,33 @@ interface OrderPreviewModalProps {
 const currency = (n: number) =>
   `₪${Number(n || 0).toLocaleString('he-IL', { maximumFractionDigits: 2 })}`;
 
+const DAYS = Object.keys(dayOfWeekHebrew) as DayOfWeek[];
+
+/** A wizard row: one group of a quote item, opened as a cycle unless excluded. */
+type CycleRow = ConvertCyclePlan & { key: string; label: string; include: boolean };
+
+function initialCycleRows(preview: OrderPreview): CycleRow[] {
+  return preview.items
+    .filter((item) => item.courseId)
+    .flatMap((item) =>
+      Array.from({ length: item.groups }, (_, i) => ({
+        key: `${item.id}-${i}`,
+        label: item.groups > 1 ? `${item.courseName} — קבוצה ${i + 1}` : item.courseName,
+        include: true,
+        quoteItemId: item.id,
+        instructorId: '',
+        dayOfWeek: 'sunday' as DayOfWeek,
+        startTime: '',
+        startDate: '',
+        activityType: 'frontal' as const,
+        location: '',
+      })),
+    );
+}
+
+const isRowComplete = (row: CycleRow) =>
+  Boolean(row.instructorId && row.startTime && row.startDate && (row.activityType === 'online' || row.location?.trim()));
+
 export default function OrderPreviewModal({
   quoteId,
   initialPreview,
@@ -27,6 +57,9 @@ export default function OrderPreviewModal({
 }: OrderPreviewModalProps) {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // null = summary step; an array = the cycle scheduling step
+  const [cycleRows, setCycleRows] = useState<CycleRow[] | null>(null);
+  const { data: instructors = [] } = useInstructors({ isActive: true });
 
   const { data: fetched, isLoading } = useQuery({
     queryKey: ['order-preview', quoteId],
@@ -36,11 +69,41 @@ export default function OrderPreviewModal({
 
   const preview = initialPreview ?? fetched;
 
+  const updateRow = (key: string, patch: Partial<CycleRow>) =>
+    setCycleRows((rows) => rows && rows.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+
+  const selectedRows = (cycleRows ?? []).filter((row) => row.include);
+  const rowsReady = selectedRows.every(isRowComplete);
+
   const handleCreate = async () => {
     setSubmitting(true);
     setError(null);
     try {
-      const result = await quotesApi.convertToOrder(quoteId, allowNonAccepted);
+      const cycles: ConvertCyclePlan[] = selectedRows.map((row) => ({
+        quoteItemId: row.quoteItemId,
+        instructorId: row.instructorId,
+        dayOfWeek: row.dayOfWeek,
+        startTime: row.startTime,
+        startDate: row.startDate,
+        activityType: row.activityType,
+        location: row.activityType === 'frontal' ? row.location : null,
+      }));
+      const result = await saveWithConflictCheck((allowConflicts) =>
+        quotesApi.convertToOrder(quoteId, { allowNonAccepted, allowConflicts, cycles }),
+      );
+      if (!result) {
+        setSubmitting(false);
+        return;
+      }
+      // The order is saved even when meetings or the billing plan failed — they can be redone from the order
+      if (result.setupFailures.length > 0) {
+        const missingMeetings = result.setupFailures.filter((f) => f.step === 'meetings').length;
+        alert([
+          'ההזמנה נוצרה, אך חלק מההגדרה לא הושלם:',
+          ...(missingMeetings > 0 ? [`• לא נוצרו מפגשים ל-${missingMeetings} מחזורים — יש ליצור אותם ממסך המחזור`] : []),
+          ...(result.setupFailures.some((f) => f.step === 'billing_plan') ? ['• תוכנית החיוב לא נבנתה — יש לבנות אותה מחדש ממסך ההזמנה'] : []),
+        ].join('\n'));
+      }
       onCreated(result.order.id);
     } catch (err: any) {
       setError(err?.response?.data?.message || err?.response?.data?.error || 'יצירת ההזמנה נכשלה.');
@@ -69,6 +132,102 @@ export default function OrderPreviewModal({
               </button>
             </div>
           </div>
+        ) : cycleRows ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              כל קבוצה נפתחת כמחזור של ההזמנה עם המפגשים שלה (מדלגים על חגים), ותוכנית חיוב חודשית נבנית מהמפגשים.
+              קבוצות שלא סומנו אפשר לפתוח ידנית בהמשך.
+            </p>
+
+            <div className="space-y-3 max-h-[55vh] overflow-y-auto">
+              {cycleRows.map((row) => (
+                <div key={row.key} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                  <label className="flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="checkbox"
+                      checked={row.include}
+                      onChange={(e) => updateRow(row.key, { include: e.target.checked })}
+                    />
+                    {row.label}
+                  </label>
+                  {row.include && (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      <select
+                        value={row.instructorId}
+                        onChange={(e) => updateRow(row.key, { instructorId: e.target.value })}
+                        className="form-input text-sm"
+                      >
+                        <option value="">מדריך...</option>
+                        {instructors.map((instructor) => (
+                          <option key={instructor.id} value={instructor.id}>{instructor.name}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={row.dayOfWeek}
+                        onChange={(e) => updateRow(row.key, { dayOfWeek: e.target.value as DayOfWeek })}
+                        className="form-input text-sm"
+                      >
+                        {DAYS.map((day) => (
+                          <option key={day} value={day}>{dayOfWeekHebrew[day]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="time"
+                        value={row.startTime}
+                        onChange={(e) => updateRow(row.key, { startTime: e.target.value })}
+                        className="form-input text-sm"
+                      />
+                      <input
+                        type="date"
+                        value={row.startDate}
+                        onChange={(e) => updateRow(row.key, { startDate: e.target.value })}
+                        className="form-input text-sm"
+                        title="תאריך התחלה"
+                      />
+                      <select
+                        value={row.activityType}
+                        onChange={(e) => updateRow(row.key, { activityType: e.target.value as CycleRow['activityType'] })}
+                        className="form-input text-sm"
+                      >
+                        <option value="frontal">פרונטלי</option>
+                        <option value="online">אונליין</option>
+                      </select>
+                      {row.activityType === 'frontal' && (
+                        <input
+                          value={row.location ?? ''}
+                          onChange={(e) => updateRow(row.key, { location: e.target.value })}
+                          placeholder="מיקום / עיר"
+                          className="form-input text-sm"
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {error && (
+              <div className="rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-800">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-between gap-2 pt-1">
+              <button onClick={() => setCycleRows(null)} className="btn btn-secondary" disabled={submitting}>
+                <ArrowRight size={16} />
+                חזרה
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={submitting || !rowsReady}
+                className="btn btn-primary"
+                title={!rowsReady ? 'יש להשלים מדריך, יום, שעה, תאריך ומיקום לכל קבוצה מסומנת' : undefined}
+              >
+                {submitting ? <Loader2 size={16} className="animate-spin" /> : <ShoppingCart size={16} />}
+                {selectedRows.length > 0 ? `צור הזמנה ו-${selectedRows.length} מחזורים` : 'צור הזמנה'}
+              </button>
+            </div>
+          </div>
         ) : (
           <>
             {/* Flags */}
@@ -128,6 +287,16 @@ export default function OrderPreviewModal({
               <button onClick={onClose} className="btn btn-secondary" disabled={submitting}>
                 ביטול
               </button>
+              {preview.items.some((item) => item.courseId) && (
+                <button
+                  onClick={() => setCycleRows(initialCycleRows(preview))}
+                  disabled={submitting || !preview.canCreate}
+                  className="btn btn-secondary"
+                >
+                  <CalendarPlus size={16} />
+                  פתיחת מחזורים
+                </button>
+              )}
               <button
                 onClick={handleCreate}
                 disabled={submitting || !preview.canCreate}
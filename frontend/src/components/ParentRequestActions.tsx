@@ -0,0 +1,67 @@
+import { Check, X } from 'lucide-react';
+import { useReviewParentRequest } from '../hooks/useApi';
+import { parentRequestTypeHebrew } from '../types';
+import type { TaskParentRequest } from '../types';
+
+const STATUS_LABELS: Record<TaskParentRequest['status'], string> = {
+  pending: 'ממתין לאישור',
+  approved: 'אושר',
+  rejected: 'נדחה',
+};
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+/** Approve/reject buttons for a task opened by a parent-app request. */
+export default function ParentRequestActions({ request }: { request: TaskParentRequest }) {
+  const review = useReviewParentRequest();
+  const label = parentRequestTypeHebrew[request.type];
+
+  const handleReview = async (decision: 'approve' | 'reject') => {
+    const prompt = decision === 'approve'
+      ? `לאשר את ה${label}? ההורה יקבל עדכון באפליקציה.`
+      : `לדחות את ה${label}? אפשר לצרף הסבר להורה:`;
+    const notes = window.prompt(prompt, '');
+    if (notes === null) return;
+    try {
+      await review.mutateAsync({ id: request.id, decision, notes: notes.trim() || undefined });
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בעדכון הבקשה'));
+    }
+  };
+
+  if (request.status !== 'pending') {
+    return (
+      <div className="text-xs text-gray-500">
+        {label} · {STATUS_LABELS[request.status]}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2 rounded-md bg-indigo-50 px-2 py-1.5">
+      <span className="text-xs font-medium text-indigo-800">{label} מהורה</span>
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => handleReview('approve')}
+          disabled={review.isPending}
+          className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50"
+        >
+          <Check size={13} />
+          אישור
+        </button>
+        <button
+          type="button"
+          onClick={() => handleReview('reject')}
+          disabled={review.isPending}
+          className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-white text-red-600 border border-red-200 hover:bg-red-50 disabled:opacity-50"
+        >
+          <X size={13} />
+          דחייה
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { useState, type ReactNode } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { AlertCircle, Check, X, ChevronDown, ChevronUp, Loader2, Ban, CalendarX, RefreshCw, AlertTriangle } from 'lucide-react';
+import { AlertCircle, Check, X, ChevronDown, ChevronUp, Loader2, Ban, CalendarX, RefreshCw, AlertTriangle, UserSearch } from 'lucide-react';
 import { api } from '../api/client';
+import Modal from './ui/Modal';
+import SubstituteFinder from './SubstituteFinder';
 import type { MeetingChangeRequest } from '../hooks/useApi';
+import type { InstructorConflict } from '../types';
+import { saveWithConflictCheck } from '../utils/instructorConflicts';
 
 interface MeetingRequestRisk {
   instructorId: string;
@@ -30,8 +34,13 @@ async function fetchRiskSummary(): Promise<MeetingRequestRisk[]> {
   return res.data.risks ?? [];
 }
 
-async function approveRequest(id: string) {
-  const res = await api.put(`/meeting-requests/${id}/approve`);
+async function approveRequest(
+  id: string,
+  substituteInstructorId?: string,
+  reviewNotes?: string,
+  allowConflicts?: boolean,
+): Promise<MeetingChangeRequest & { conflictWarnings?: InstructorConflict[] }> {
+  const res = await api.put(`/meeting-requests/${id}/approve`, { substituteInstructorId, reviewNotes, allowConflicts });
   return res.data;
 }
 
@@ -71,6 +80,7 @@ export default function PendingMeetingRequests({
   const [expanded, setExpanded] = useState(true);
   const [adminNotes, setAdminNotes] = useState<Record<string, string>>({});
   const [processing, setProcessing] = useState<string | null>(null);
+  const [substituteFor, setSubstituteFor] = useState<MeetingChangeRequest | null>(null);
 
   const { data: requests = [], isLoading } = useQuery({
     queryKey: ['pending-meeting-requests'],
@@ -87,7 +97,12 @@ export default function PendingMeetingRequests({
   });
 
   const approveMutation = useMutation({
-    mutationFn: (id: string) => approveRequest(id),
+    mutationFn: ({ id, substituteInstructorId, reviewNotes, allowConflicts }: {
+      id: string;
+      substituteInstructorId?: string;
+      reviewNotes?: string;
+      allowConflicts?: boolean;
+    }) => approveRequest(id, substituteInstructorId, reviewNotes, allowConflicts),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['pending-meeting-requests'] });
       queryClient.invalidateQueries({ queryKey: ['meetings'] });
@@ -105,7 +120,27 @@ export default function PendingMeetingRequests({
   const handleApprove = async (id: string) => {
     setProcessing(id + 'approve');
     try {
-      await approveMutation.mutateAsync(id);
+      await approveMutation.mutateAsync({ id });
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const handleApproveWithSubstitute = async (instructorId: string, name: string) => {
+    if (!substituteFor || !window.confirm(`לשבץ את ${name} במקום ${substituteFor.instructor?.name ?? 'המדריך'} ולאשר את הבקשה?`)) return;
+    setProcessing(substituteFor.id + 'approve');
+    try {
+      const request = substituteFor;
+      const result = await saveWithConflictCheck((allowConflicts) => approveMutation.mutateAsync({
+        id: request.id,
+        substituteInstructorId: instructorId,
+        reviewNotes: adminNotes[request.id] || `שובץ מחליף: ${name}`,
+        allowConflicts,
+      }));
+      if (!result) return;
+      setSubstituteFor(null);
+    } catch (error) {
+      alert((error as { response?: { data?: { message?: string } } })?.response?.data?.message || 'שגיאה בשיבוץ המחליף');
     } finally {
       setProcessing(null);
     }
@@ -237,6 +272,16 @@ export default function PendingMeetingRequests({
                         className="flex-1 text-sm px-3 py-1.5 border border-gray-200 rounded-lg focus:border-blue-400 outline-none"
                       />
                       <div className="flex gap-2">
+                        {req.type === 'replacement' && (
+                          <button
+                            onClick={() => setSubstituteFor(req)}
+                            disabled={!!processing}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-500 hover:bg-blue-600 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                          >
+                            <UserSearch size={14} />
+                            מצא מחליף
+                          </button>
+                        )}
                         <button
                           onClick={() => handleApprove(req.id)}
                           disabled={!!processing}
@@ -268,6 +313,21 @@ export default function PendingMeetingRequests({
       )}
       </div>
       )}
+
+      <Modal
+        isOpen={!!substituteFor}
+        onClose={() => setSubstituteFor(null)}
+        title="מדריכים מחליפים מומלצים"
+        size="lg"
+      >
+        {substituteFor && (
+          <SubstituteFinder
+            requestId={substituteFor.id}
+            onSelect={handleApproveWithSubstitute}
+            isSubmitting={approveMutation.isPending}
+          />
+        )}
+      </Modal>
     </div>
   );
 }
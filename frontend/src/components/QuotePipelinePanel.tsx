@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { quotesApi } from '../api/quotes';
+import type { QuotePipelineBucket } from '../api/quotes';
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: 'טיוטה',
+  sent: 'נשלחה',
+  accepted: 'אושרה',
+  rejected: 'נדחתה',
+  expired: 'פג תוקף',
+  converted: 'הומרה להזמנה',
+};
+
+const formatMoney = (amount: number) => `₪${Number(amount).toLocaleString('he-IL', { maximumFractionDigits: 0 })}`;
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate}%`);
+const formatDays = (days: number | null) => (days === null ? '—' : `${days} ימים`);
+
+function BucketTable({ title, buckets, labelOf }: {
+  title: string;
+  buckets: QuotePipelineBucket[];
+  labelOf?: (bucket: QuotePipelineBucket) => string;
+}) {
+  if (buckets.length === 0) return null;
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-700 mb-1">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-right font-medium" />
+            <th className="text-right font-medium">הצעות</th>
+            <th className="text-right font-medium">סכום</th>
+            <th className="text-right font-medium">נסגרו</th>
+            <th className="text-right font-medium">אחוז זכייה</th>
+            <th className="text-right font-medium">זמן לאישור</th>
+          </tr>
+        </thead>
+        <tbody>
+          {buckets.map(bucket => (
+            <tr key={bucket.key} className="border-t border-gray-100">
+              <td className="py-1">{labelOf ? labelOf(bucket) : bucket.label}</td>
+              <td>{bucket.count}</td>
+              <td>{formatMoney(bucket.amount)}</td>
+              <td>{bucket.won} · {formatMoney(bucket.wonAmount)}</td>
+              <td>{formatRate(bucket.winRate)}</td>
+              <td>{formatDays(bucket.avgDaysToAccept)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/** Quote pipeline by status, salesperson, client type and month — win rate counts decided quotes only. */
+export default function QuotePipelinePanel() {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['quote-pipeline', from, to],
+    queryFn: () => quotesApi.pipeline({ from: from || undefined, to: to || undefined }),
+  });
+
+  return (
+    <div className="p-6 space-y-5">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label className="form-label">נוצרו מ-</label>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="form-input text-sm" />
+        </div>
+        <div>
+          <label className="form-label">עד</label>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="form-input text-sm" />
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <p className="text-sm text-gray-400">טוען...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat label="הצעות" value={`${report.totals.count} · ${formatMoney(report.totals.amount)}`} />
+            <Stat label="אחוז זכייה" value={formatRate(report.totals.winRate)} />
+            <Stat label="זמן ממוצע לאישור" value={formatDays(report.totals.avgDaysToAccept)} />
+            <Stat label="נצפו / צפו בסרטון" value={`${report.totals.viewed} / ${report.totals.videoWatched}`} />
+          </div>
+
+          <BucketTable title="לפי סטטוס" buckets={report.byStatus} labelOf={(b) => STATUS_LABELS[b.key] || b.key} />
+          <BucketTable title="לפי איש מכירות" buckets={report.bySalesperson} />
+          <BucketTable title="לפי סוג לקוח" buckets={report.byClientType} />
+          <BucketTable title="לפי חודש" buckets={report.byMonth} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 px-3 py-2">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-sm font-semibold">{value}</p>
+    </div>
+  );
+}
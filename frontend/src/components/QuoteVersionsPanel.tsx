@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FileSignature, GitCompare } from 'lucide-react';
+import { quotesApi } from '../api/quotes';
+import type { QuoteFieldChange } from '../api/quotes';
+
+const ITEM_CHANGE_LABELS = { added: 'נוסף', removed: 'הוסר', changed: 'עודכן' } as const;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'כן' : 'לא';
+  if (typeof value === 'number') return value.toLocaleString('he-IL');
+  if (typeof value === 'object') return 'תוכן מעוצב';
+  const text = String(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+function ChangeRows({ changes }: { changes: QuoteFieldChange[] }) {
+  return (
+    <>
+      {changes.map(change => (
+        <li key={change.field} className="text-xs">
+          <span className="text-gray-500">{change.label}: </span>
+          <span className="line-through text-red-500">{formatValue(change.before)}</span>
+          {' ← '}
+          <span className="text-green-700">{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </>
+  );
+}
+
+function VersionDiff({ quoteId, versionNumber }: { quoteId: string; versionNumber: number }) {
+  const { data: diff, isLoading } = useQuery({
+    queryKey: ['quote-version-diff', quoteId, versionNumber],
+    queryFn: () => quotesApi.versionDiff(quoteId, versionNumber),
+  });
+
+  if (isLoading) return <p className="text-xs text-gray-400">טוען...</p>;
+  if (!diff) return null;
+  if (diff.fields.length === 0 && diff.items.length === 0) {
+    return <p className="text-xs text-gray-400">אין שינויים מול גרסה {diff.from}</p>;
+  }
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 rounded-lg space-y-2">
+      <p className="text-xs font-medium text-gray-600">שינויים מול גרסה {diff.from}</p>
+      {diff.fields.length > 0 && <ul className="space-y-1"><ChangeRows changes={diff.fields} /></ul>}
+      {diff.items.map(item => (
+        <div key={`${item.change}-${item.courseName}`}>
+          <p className="text-xs font-medium">{ITEM_CHANGE_LABELS[item.change]}: {item.courseName}</p>
+          {item.change === 'changed' && <ul className="space-y-1 pr-3"><ChangeRows changes={item.fields} /></ul>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Versions frozen on each send, the client's e-signature and a diff against the previous version. */
+export default function QuoteVersionsPanel({ quoteId }: { quoteId: string }) {
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['quote-versions', quoteId],
+    queryFn: () => quotesApi.versions(quoteId),
+  });
+  const [openDiff, setOpenDiff] = useState<number | null>(null);
+
+  if (isLoading) return <p className="text-sm text-gray-400">טוען...</p>;
+  if (versions.length === 0) return <p className="text-sm text-gray-400">ההצעה עוד לא נשלחה ללקוח</p>;
+
+  const token = localStorage.getItem('accessToken') || '';
+
+  return (
+    <div className="divide-y">
+      {versions.map(version => (
+        <div key={version.id} className="py-3">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <p className="text-sm font-medium">גרסה {version.versionNumber}</p>
+              <p className="text-xs text-gray-500">
+                {new Date(version.createdAt).toLocaleString('he-IL')} · ₪{Number(version.finalAmount).toLocaleString()}
+                {version.sentTo && ` · ${version.sentTo}`}
+              </p>
+            </div>
+            {version.versionNumber > 1 && (
+              <button
+                onClick={() => setOpenDiff(openDiff === version.versionNumber ? null : version.versionNumber)}
+                className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                title="השוואה לגרסה הקודמת"
+              >
+                <GitCompare size={16} />
+              </button>
+            )}
+          </div>
+
+          {version.signature && (
+            <div className="mt-2 flex items-center gap-2 text-xs text-green-700">
+              <FileSignature size={14} />
+              <span>
+                נחתמה ע״י {version.signature.signerName}
+                {version.signature.signerRole && ` (${version.signature.signerRole})`}
+                {' · '}{new Date(version.signature.signedAt).toLocaleString('he-IL')}
+                {version.signature.ipAddress && ` · IP ${version.signature.ipAddress}`}
+              </span>
+              {version.signature.fileAttachmentId && (
+                <a
+                  href={`/api/files/preview/${version.signature.fileAttachmentId}?token=${encodeURIComponent(token)}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  PDF חתום
+                </a>
+              )}
+            </div>
+          )}
+
+          {openDiff === version.versionNumber && <VersionDiff quoteId={quoteId} versionNumber={version.versionNumber} />}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Award, CheckCircle, FileText, Star, XCircle } from 'lucide-react';
+import { useStudentProgress } from '../hooks/useApi';
+import type { SkillSummary } from '../hooks/useApi';
+
+const ATTENDANCE_LABELS = { present: 'נכח/ה', late: 'איחר/ה', absent: 'נעדר/ת' } as const;
+
+function SkillBar({ skill }: { skill: SkillSummary }) {
+  if (skill.kind === 'milestone') {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        {skill.achievedAt ? <CheckCircle size={14} className="text-green-600" /> : <XCircle size={14} className="text-gray-300" />}
+        <span className={skill.achievedAt ? '' : 'text-gray-400'}>{skill.name}</span>
+        {skill.achievedAt && <span className="text-xs text-gray-400">{new Date(skill.achievedAt).toLocaleDateString('he-IL')}</span>}
+      </div>
+    );
+  }
+  return (
+    <div className="text-sm">
+      <div className="flex items-center justify-between">
+        <span>{skill.name}</span>
+        <span className="text-xs text-gray-500">
+          {skill.latestScore !== null ? `${skill.latestScore}/5` : 'לא דורג'}
+          {skill.firstScore !== null && skill.latestScore !== null && skill.latestScore !== skill.firstScore && ` (התחיל ב-${skill.firstScore})`}
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mt-1">
+        <div className="h-full bg-amber-400 rounded-full" style={{ width: `${((skill.latestScore ?? 0) / 5) * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+/** Learning record of one student: skill levels, per-meeting timeline and report cards, per cycle. */
+export default function StudentProgressPanel({ studentId }: { studentId: string }) {
+  const { data, isLoading } = useStudentProgress(studentId);
+
+  if (isLoading) return <p className="p-6 text-sm text-gray-400">טוען...</p>;
+  if (!data || data.cycles.length === 0) return <p className="p-6 text-sm text-gray-400">התלמיד/ה עוד לא השתתף/ה במחזורים</p>;
+
+  const token = localStorage.getItem('accessToken') || '';
+
+  return (
+    <div className="p-6 space-y-6">
+      {data.cycles.map(entry => (
+        <section key={entry.registrationId} className="border rounded-xl">
+          <div className="flex items-center justify-between px-4 py-3 border-b bg-gray-50 rounded-t-xl">
+            <div>
+              <p className="font-medium">{entry.cycle.name}</p>
+              <p className="text-xs text-gray-500">
+                {entry.course.name} · {new Date(entry.cycle.startDate).toLocaleDateString('he-IL')} – {new Date(entry.cycle.endDate).toLocaleDateString('he-IL')}
+              </p>
+            </div>
+            {entry.reportCard?.fileAttachmentId && (
+              <a
+                href={`/api/files/preview/${entry.reportCard.fileAttachmentId}?token=${encodeURIComponent(token)}`}
+                target="_blank"
+                rel="noreferrer"
+                className="btn btn-secondary text-sm"
+              >
+                <FileText size={16} />
+                תעודת סיום
+              </a>
+            )}
+          </div>
+
+          <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-gray-700 flex items-center gap-1"><Star size={14} />מיומנויות ואבני דרך</h4>
+              {entry.skills.length === 0
+                ? <p className="text-sm text-gray-400">לא הוגדרו מיומנויות לקורס</p>
+                : entry.skills.map(skill => <SkillBar key={skill.skillId} skill={skill} />)}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 flex items-center gap-1 mb-3"><Award size={14} />ציר התקדמות</h4>
+              {entry.timeline.length === 0 ? (
+                <p className="text-sm text-gray-400">אין מפגשים שהושלמו</p>
+              ) : (
+                <ol className="border-r-2 border-gray-100 pr-4 space-y-3 max-h-72 overflow-y-auto">
+                  {entry.timeline.map(item => (
+                    <li key={item.meetingId} className="text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500">{new Date(item.date).toLocaleDateString('he-IL')}</span>
+                        {item.attendance && (
+                          <span className={`text-xs ${item.attendance === 'absent' ? 'text-red-500' : 'text-green-600'}`}>
+                            {ATTENDANCE_LABELS[item.attendance]}
+                          </span>
+                        )}
+                      </div>
+                      {item.topic && <p className="text-gray-700">{item.topic}</p>}
+                      {item.ratings.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {item.ratings.map(r => {
+                            const skill = entry.skills.find(s => s.skillId === r.skillId);
+                            if (!skill) return null;
+                            return skill.kind === 'milestone' ? `✓ ${skill.name}` : `${skill.name}: ${r.score}/5`;
+                          }).filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
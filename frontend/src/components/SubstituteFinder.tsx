@@ -0,0 +1,97 @@
+import { AlertTriangle, BookOpen, Loader2, MapPin, UserCheck } from 'lucide-react';
+import { useMeetingRequestSubstitutes } from '../hooks/useApi';
+import { substituteAvailabilityHebrew } from '../types';
+import type { SubstituteAvailability } from '../types';
+
+const availabilityColor: Record<SubstituteAvailability, string> = {
+  available: 'bg-green-100 text-green-700',
+  unknown: 'bg-gray-100 text-gray-600',
+  outside_hours: 'bg-amber-100 text-amber-700',
+  unavailable_date: 'bg-red-100 text-red-700',
+};
+
+interface SubstituteFinderProps {
+  requestId: string;
+  onSelect: (instructorId: string, name: string) => void;
+  isSubmitting?: boolean;
+}
+
+/** Ranked list of instructors who could take over a meeting from a replacement request. */
+export default function SubstituteFinder({ requestId, onSelect, isSubmitting }: SubstituteFinderProps) {
+  const { data, isLoading, error } = useMeetingRequestSubstitutes(requestId);
+
+  if (isLoading) {
+    return <div className="flex justify-center py-8"><Loader2 className="animate-spin text-gray-400" /></div>;
+  }
+  if (error || !data) {
+    return <p className="p-6 text-sm text-red-600">שגיאה בטעינת מדריכים מחליפים</p>;
+  }
+
+  const { meeting, candidates } = data;
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2">
+        {meeting.cycleName} ({meeting.courseName}) ·{' '}
+        {new Date(meeting.scheduledDate).toLocaleDateString('he-IL', { weekday: 'short', day: 'numeric', month: 'numeric' })}{' '}
+        {meeting.startTime}-{meeting.endTime}
+        {meeting.location && ` · ${meeting.location}`}
+        {' · '}עלות נוכחית ₪{meeting.currentPayment}
+      </div>
+
+      {candidates.length === 0 ? (
+        <p className="text-sm text-gray-500">לא נמצאו מדריכים פעילים אחרים.</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {candidates.map((candidate) => {
+            const blocked = candidate.conflicts.length > 0 || candidate.availability === 'unavailable_date';
+            return (
+              <div key={candidate.instructorId} className={`p-3 flex items-center justify-between gap-3 ${blocked ? 'bg-gray-50' : ''}`}>
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-gray-900">{candidate.name}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${availabilityColor[candidate.availability]}`}>
+                      {substituteAvailabilityHebrew[candidate.availability]}
+                      {candidate.unavailableReason && ` (${candidate.unavailableReason})`}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 flex items-center gap-3 flex-wrap">
+                    <span>₪{candidate.estimatedPayment}</span>
+                    {candidate.pastCyclesOfCourse > 0 && (
+                      <span className="flex items-center gap-1">
+                        <BookOpen size={12} />
+                        {candidate.pastCyclesOfCourse} מחזורים בקורס
+                      </span>
+                    )}
+                    {candidate.city && (
+                      <span className={`flex items-center gap-1 ${candidate.sameCity ? 'text-green-700' : ''}`}>
+                        <MapPin size={12} />
+                        {candidate.city}
+                      </span>
+                    )}
+                    <span dir="ltr">{candidate.phone}</span>
+                  </div>
+                  {candidate.conflicts.map((conflict) => (
+                    <div key={conflict.meetingId} className="text-xs text-red-600 flex items-center gap-1">
+                      <AlertTriangle size={12} />
+                      משובץ/ת ב{conflict.cycleName} {conflict.startTime}-{conflict.endTime}
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onSelect(candidate.instructorId, candidate.name)}
+                  disabled={isSubmitting}
+                  className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 bg-green-500 hover:bg-green-600 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+                >
+                  <UserCheck size={14} />
+                  שבץ ואשר
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
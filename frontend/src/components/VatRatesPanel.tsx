@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Calculator, Plus, Trash2 } from 'lucide-react';
+import { useCreateVatRate, useDeleteVatRate, useRecalculateVatRate, useVatRates } from '../hooks/useApi';
+import type { VatRate, VatRecalculation } from '../hooks/useApi';
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('he-IL');
+const formatMoney = (amount: number) => `₪${amount.toLocaleString('he-IL', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Effective-dated VAT rates. Adding a rate changes conversions from its start date on;
+ * stored meeting revenue only changes through the explicit preview → apply recalculation.
+ */
+export default function VatRatesPanel({ canEdit }: { canEdit: boolean }) {
+  const { data: rates = [], isLoading } = useVatRates();
+  const createRate = useCreateVatRate();
+  const deleteRate = useDeleteVatRate();
+  const recalculate = useRecalculateVatRate();
+  const [percent, setPercent] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [preview, setPreview] = useState<{ rateId: string; result: VatRecalculation } | null>(null);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await createRate.mutateAsync({ rate: Number(percent) / 100, effectiveFrom, note: `מע״מ ${percent}%` });
+      setPercent('');
+      setEffectiveFrom('');
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בהוספת שיעור המע״מ'));
+    }
+  };
+
+  const handleDelete = async (rate: VatRate) => {
+    if (!window.confirm(`למחוק את שיעור המע״מ שמתחיל ב-${formatDate(rate.effectiveFrom)}?`)) return;
+    try {
+      await deleteRate.mutateAsync(rate.id);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה במחיקת שיעור המע״מ'));
+    }
+  };
+
+  const handleRecalculate = async (rateId: string, apply: boolean) => {
+    if (apply && !window.confirm('לעדכן את ההכנסות של המפגשים ברשימה? הפעולה נרשמת ביומן הפעולות.')) return;
+    try {
+      const result = await recalculate.mutateAsync({ id: rateId, apply });
+      setPreview(apply ? null : { rateId, result });
+      if (apply) alert(`עודכנו ${result.meetings} מפגשים`);
+    } catch (error) {
+      alert(errorMessage(error, 'שגיאה בחישוב מחדש'));
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-gray-500">
+        כל המרה בין נטו לברוטו משתמשת בשיעור שבתוקף בתאריך המפגש או המסמך. הוספת שיעור חדש לא משנה הכנסות שכבר נשמרו —
+        לשם כך יש להריץ חישוב מחדש, שנוגע רק במפגשים פרטיים מתאריך התחולה ואילך ולא בחשבונות שהופקו.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-400">טוען...</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-right">בתוקף מ-</th>
+              <th className="text-right">שיעור</th>
+              <th className="text-right">חישוב מחדש</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rates.map(rate => (
+              <tr key={rate.id}>
+                <td>{formatDate(rate.effectiveFrom)}</td>
+                <td>{Math.round(Number(rate.rate) * 10000) / 100}%</td>
+                <td className="text-gray-500">{rate.recalculatedAt ? formatDate(rate.recalculatedAt) : '—'}</td>
+                <td className="text-left">
+                  {canEdit && (
+                    <div className="flex items-center justify-end gap-1">
+                      <button
+                        onClick={() => handleRecalculate(rate.id, false)}
+                        disabled={recalculate.isPending}
+                        className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                        title="תצוגה מקדימה של חישוב מחדש"
+                      >
+                        <Calculator size={16} />
+                      </button>
+                      {rate.effectiveFrom.slice(0, 10) > today && !rate.recalculatedAt && (
+                        <button
+                          onClick={() => handleDelete(rate)}
+                          disabled={deleteRate.isPending}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg"
+                          title="מחק"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {preview && (
+        <div className="border rounded-lg p-3 space-y-2 bg-gray-50">
+          <p className="text-sm font-medium">
+            {preview.result.meetings === 0
+              ? 'אין מפגשים שההכנסה שלהם תשתנה'
+              : `${preview.result.meetings} מפגשים: ${formatMoney(preview.result.revenueBefore)} ← ${formatMoney(preview.result.revenueAfter)}`}
+          </p>
+          {preview.result.changes.length > 0 && (
+            <ul className="text-xs text-gray-600 max-h-48 overflow-y-auto space-y-0.5">
+              {preview.result.changes.map(change => (
+                <li key={change.meetingId}>
+                  {formatDate(change.scheduledDate)} · {change.cycleName}: {formatMoney(change.before)} ← {formatMoney(change.after)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {preview.result.skippedCycles.length > 0 && (
+            <div className="text-xs text-amber-700">
+              <p>מחזורים עם הכנסה קבועה למפגש לא יעודכנו:</p>
+              <ul className="max-h-32 overflow-y-auto space-y-0.5">
+                {preview.result.skippedCycles.map(cycle => (
+                  <li key={cycle.cycleId}>
+                    {cycle.cycleName}: {formatMoney(cycle.meetingRevenue)} למפגש ({cycle.meetings} מפגשים)
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setPreview(null)} className="btn btn-secondary text-sm">סגור</button>
+            {preview.result.meetings > 0 && (
+              <button
+                onClick={() => handleRecalculate(preview.rateId, true)}
+                disabled={recalculate.isPending}
+                className="btn btn-primary text-sm"
+              >
+                עדכן הכנסות
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleCreate} className="border-t pt-4 flex flex-wrap items-end gap-2">
+          <div>
+            <label className="form-label">שיעור (%)</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step="0.01"
+              value={percent}
+              onChange={(e) => setPercent(e.target.value)}
+              className="form-input w-28 text-sm"
+            />
+          </div>
+          <div>
+            <label className="form-label">בתוקף מ-</label>
+            <input
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              className="form-input text-sm"
+            />
+          </div>
+          <button type="submit" disabled={!percent || !effectiveFrom || createRate.isPending} className="btn btn-primary text-sm">
+            <Plus size={16} />
+            הוסף שיעור
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+/**
+ * WaCannedReplies — ספריית תשובות מוכנות ל-Inbox
+ * משתנים כמו {{customer_name}} מתמלאים מהלקוח / התלמיד / המחזור המקושרים לשיחה
+ */
+import { useState, useEffect } from 'react';
+import { X, Plus, Pencil, Trash2, RefreshCw, Zap } from 'lucide-react';
+
+interface CannedReply {
+  id: string;
+  title: string;
+  body: string;
+  shortcut?: string | null;
+}
+
+interface Props {
+  conversationId: string;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}
+
+const PLACEHOLDERS = ['customer_name', 'first_name', 'student_name', 'course_name', 'cycle_name', 'branch_name', 'meeting_day', 'meeting_time', 'agent_name'];
+
+function authHeaders() {
+  const token = localStorage.getItem('accessToken');
+  return { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' };
+}
+async function api(path: string, opts?: RequestInit) {
+  const res = await fetch(`/api/wa${path}`, { headers: authHeaders(), ...opts });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json();
+}
+
+export default function WaCannedReplies({ conversationId, onInsert, onClose }: Props) {
+  const [replies, setReplies] = useState<CannedReply[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<Partial<CannedReply> | null>(null);
+  const [inserting, setInserting] = useState<string | null>(null);
+
+  const load = () => {
+    setLoading(true);
+    api('/canned-replies').then(setReplies).catch(() => {}).finally(() => setLoading(false));
+  };
+
+  useEffect(load, []);
+
+  const insert = async (reply: CannedReply) => {
+    setInserting(reply.id);
+    try {
+      const { text } = await api(`/canned-replies/${reply.id}/render`, {
+        method: 'POST',
+        body: JSON.stringify({ conversationId }),
+      });
+      onInsert(text);
+      onClose();
+    } catch {
+      alert('שגיאה במילוי התשובה');
+    } finally {
+      setInserting(null);
+    }
+  };
+
+  const save = async () => {
+    if (!editing?.title?.trim() || !editing.body?.trim()) return;
+    try {
+      await api(editing.id ? `/canned-replies/${editing.id}` : '/canned-replies', {
+        method: editing.id ? 'PUT' : 'POST',
+        body: JSON.stringify({ title: editing.title, body: editing.body, shortcut: editing.shortcut || null }),
+      });
+      setEditing(null);
+      load();
+    } catch (e) {
+      let msg = 'שגיאה בשמירה';
+      try { msg = JSON.parse((e as Error).message)?.error || msg; } catch { /* not a JSON error body */ }
+      alert(msg);
+    }
+  };
+
+  const remove = async (reply: CannedReply) => {
+    if (!window.confirm(`למחוק את "${reply.title}"?`)) return;
+    await api(`/canned-replies/${reply.id}`, { method: 'DELETE' });
+    setReplies(prev => prev.filter(r => r.id !== reply.id));
+  };
+
+  const q = search.trim().toLowerCase();
+  const visible = replies.filter(r =>
+    !q || r.title.toLowerCase().includes(q) || r.body.toLowerCase().includes(q) || r.shortcut?.toLowerCase().includes(q)
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4" dir="rtl">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <Zap size={18} className="text-amber-500" />
+            <h3 className="font-bold text-gray-800">תשובות מוכנות</h3>
+          </div>
+          <div className="flex items-center gap-1">
+            {!editing && (
+              <button onClick={() => setEditing({ title: '', body: '' })} className="flex items-center gap-1 text-xs text-blue-500 hover:text-blue-700 font-medium px-2">
+                <Plus size={14} /> חדשה
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 hover:bg-gray-100 rounded-full">
+              <X size={18} className="text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        {editing ? (
+          <div className="p-4 space-y-3 overflow-y-auto">
+            <input
+              value={editing.title ?? ''}
+              onChange={e => setEditing(d => ({ ...d, title: e.target.value }))}
+              placeholder="כותרת"
+              className="w-full border border-gray-200 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+            />
+            <input
+              value={editing.shortcut ?? ''}
+              onChange={e => setEditing(d => ({ ...d, shortcut: e.target.value }))}
+              placeholder="קיצור (אופציונלי, למשל /שעות)"
+              className="w-full border border-gray-200 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+            />
+            <textarea
+              value={editing.body ?? ''}
+              onChange={e => setEditing(d => ({ ...d, body: e.target.value }))}
+              placeholder="היי {{first_name}}, ..."
+              rows={5}
+              className="w-full border border-gray-200 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-300 resize-none"
+            />
+            <div className="flex flex-wrap gap-1">
+              {PLACEHOLDERS.map(p => (
+                <button
+                  key={p}
+                  onClick={() => setEditing(d => ({ ...d, body: `${d?.body ?? ''}{{${p}}}` }))}
+                  className="text-xs bg-orange-50 text-orange-600 border border-orange-200 rounded px-2 py-0.5 hover:bg-orange-100"
+                  dir="ltr"
+                >
+                  {`{{${p}}}`}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setEditing(null)} className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-xl">ביטול</button>
+              <button
+                onClick={save}
+                disabled={!editing.title?.trim() || !editing.body?.trim()}
+                className="px-4 py-2 text-sm bg-blue-500 hover:bg-blue-600 disabled:bg-gray-200 text-white rounded-xl"
+              >
+                שמור
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="px-4 py-2 border-b border-gray-100">
+              <input
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="חיפוש תשובה..."
+                autoFocus
+                className="w-full border border-gray-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {loading ? (
+                <div className="flex items-center justify-center p-6 text-gray-400 gap-2">
+                  <RefreshCw size={16} className="animate-spin" /> טוען...
+                </div>
+              ) : visible.length === 0 ? (
+                <p className="text-center text-sm text-gray-400 p-6">אין תשובות מוכנות</p>
+              ) : visible.map(reply => (
+                <div key={reply.id} className="group border-b border-gray-100 px-4 py-3 hover:bg-gray-50 flex items-start gap-2">
+                  <button onClick={() => insert(reply)} disabled={inserting === reply.id} className="flex-1 min-w-0 text-right">
+                    <p className="text-sm font-medium text-gray-800 flex items-center gap-2">
+                      {reply.title}
+                      {reply.shortcut && <span className="text-xs text-gray-400 font-mono">{reply.shortcut}</span>}
+                      {inserting === reply.id && <RefreshCw size={12} className="animate-spin text-gray-400" />}
+                    </p>
+                    <p className="text-xs text-gray-500 line-clamp-2 whitespace-pre-wrap">{reply.body}</p>
+                  </button>
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => setEditing(reply)} className="p-1 text-gray-400 hover:text-gray-700" title="עריכה"><Pencil size={14} /></button>
+                    <button onClick={() => remove(reply)} className="p-1 text-gray-400 hover:text-red-600" title="מחיקה"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
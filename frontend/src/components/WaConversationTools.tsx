@@ -0,0 +1,175 @@
+/**
+ * WaConversationTools — שיוך נציג, תגיות והערות פנימיות לשיחת WhatsApp
+ * ההערות נשמרות ב-CRM בלבד ולא נשלחות ללקוח
+ */
+import { useState, useEffect } from 'react';
+import { StickyNote, Tag, UserCheck, X, Send } from 'lucide-react';
+
+interface Assignee {
+  id: string;
+  name: string;
+}
+
+interface Note {
+  id: string;
+  body: string;
+  createdAt: string;
+  author?: { id: string; name: string } | null;
+}
+
+interface Props {
+  conversation: { id: string; assignedToId?: string | null; tags?: string[] };
+  onUpdated: (patch: Record<string, unknown>) => void;
+}
+
+function authHeaders() {
+  const token = localStorage.getItem('accessToken');
+  return { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' };
+}
+async function api(path: string, opts?: RequestInit) {
+  const res = await fetch(`/api/wa${path}`, { headers: authHeaders(), ...opts });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json();
+}
+
+export default function WaConversationTools({ conversation, onUpdated }: Props) {
+  const [assignees, setAssignees] = useState<Assignee[]>([]);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [showNotes, setShowNotes] = useState(false);
+  const [noteText, setNoteText] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const tags = conversation.tags ?? [];
+
+  useEffect(() => {
+    api('/assignees').then(setAssignees).catch(() => {});
+  }, []);
+
+  // Mounted with key={conversation.id}, so local state starts fresh per conversation
+  useEffect(() => {
+    api(`/conversations/${conversation.id}/notes`).then(setNotes).catch(() => {});
+  }, [conversation.id]);
+
+  const assign = async (userId: string) => {
+    try {
+      const updated = await api(`/conversations/${conversation.id}/assignee`, {
+        method: 'PUT',
+        body: JSON.stringify({ userId: userId || null }),
+      });
+      onUpdated({ assignedToId: updated.assignedToId, assignedTo: updated.assignedTo });
+    } catch {
+      alert('שגיאה בשיוך השיחה');
+    }
+  };
+
+  const saveTags = async (next: string[]) => {
+    try {
+      const updated = await api(`/conversations/${conversation.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ tags: next }),
+      });
+      onUpdated({ tags: updated.tags });
+    } catch {
+      alert('שגיאה בעדכון התגיות');
+    }
+  };
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    setTagInput('');
+    if (tag && !tags.includes(tag)) saveTags([...tags, tag]);
+  };
+
+  const addNote = async () => {
+    if (!noteText.trim()) return;
+    try {
+      const note = await api(`/conversations/${conversation.id}/notes`, {
+        method: 'POST',
+        body: JSON.stringify({ body: noteText }),
+      });
+      setNotes(prev => [...prev, note]);
+      setNoteText('');
+    } catch {
+      alert('שגיאה בשמירת ההערה');
+    }
+  };
+
+  return (
+    <div className="bg-white border-b border-gray-200 flex-shrink-0">
+      <div className="px-3 md:px-4 py-2 flex flex-wrap items-center gap-2 text-xs">
+        <label className="flex items-center gap-1 text-gray-500">
+          <UserCheck size={14} />
+          <select
+            value={conversation.assignedToId ?? ''}
+            onChange={e => assign(e.target.value)}
+            className="border border-gray-200 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-green-300"
+          >
+            <option value="">ללא נציג</option>
+            {assignees.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </label>
+
+        <div className="flex flex-wrap items-center gap-1">
+          <Tag size={14} className="text-gray-400" />
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 bg-blue-50 text-blue-700 rounded-full px-2 py-0.5">
+              {tag}
+              <button onClick={() => saveTags(tags.filter(t => t !== tag))} className="hover:text-blue-900" aria-label={`הסר תגית ${tag}`}>
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+          <input
+            value={tagInput}
+            onChange={e => setTagInput(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); addTag(); } }}
+            placeholder="+ תגית"
+            className="w-20 border border-transparent hover:border-gray-200 focus:border-gray-300 rounded-lg px-2 py-0.5 text-xs focus:outline-none"
+          />
+        </div>
+
+        <button
+          onClick={() => setShowNotes(v => !v)}
+          className={`mr-auto flex items-center gap-1 px-2 py-1 rounded-full font-medium transition-colors ${
+            showNotes ? 'bg-amber-100 text-amber-800' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+          }`}
+        >
+          <StickyNote size={12} /> הערות פנימיות ({notes.length})
+        </button>
+      </div>
+
+      {showNotes && (
+        <div className="bg-amber-50 border-t border-amber-200 px-3 md:px-4 py-2 space-y-2">
+          <p className="text-xs text-amber-700">🔒 ההערות גלויות לצוות בלבד ולא נשלחות ללקוח</p>
+          <div className="max-h-40 overflow-y-auto space-y-1.5">
+            {notes.length === 0 && <p className="text-xs text-amber-600">אין הערות עדיין</p>}
+            {notes.map(note => (
+              <div key={note.id} className="bg-white border border-amber-200 rounded-lg px-3 py-1.5 text-sm">
+                <p className="whitespace-pre-wrap text-gray-800">{note.body}</p>
+                <p className="text-xs text-gray-400 mt-0.5">
+                  {note.author?.name || 'משתמש'} · {new Date(note.createdAt).toLocaleString('he-IL', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                </p>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-end gap-2">
+            <textarea
+              value={noteText}
+              onChange={e => setNoteText(e.target.value)}
+              placeholder="הערה לצוות..."
+              rows={2}
+              className="flex-1 resize-none border border-amber-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-amber-300"
+            />
+            <button
+              onClick={addNote}
+              disabled={!noteText.trim()}
+              className="w-9 h-9 bg-amber-500 hover:bg-amber-600 disabled:bg-gray-200 text-white rounded-full flex items-center justify-center flex-shrink-0"
+              title="שמור הערה"
+            >
+              <Send size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
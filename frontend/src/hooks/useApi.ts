@@ -5,14 +5,27 @@ import type {
   Student,
   Course,
   Branch,
+  BranchType,
+  OrganizationClosure,
+  ClosedDay,
+  BranchBlackout,
+  BlackoutMeetingPreview,
+  BlackoutApplyResult,
   PayingBody,
   MorningClientResult,
   PayingBodyMorningCompare,
   PayingBodySyncDirection,
   Instructor,
+  InstructorAvailability,
+  InstructorAvailabilitySlot,
+  InstructorUnavailableDate,
+  SubstituteSearch,
+  InstructorConflict,
   Cycle,
   Meeting,
   Registration,
+  WaitlistEntry,
+  CycleWaitlist,
   DailySummary,
   Task,
   TaskPriority,
@@ -319,6 +332,101 @@ export const useDeleteBranch = () => {
   });
 };
 
+export const useBranchBlackouts = (branchId: string) => {
+  return useQuery({
+    queryKey: ['branch-blackouts', branchId],
+    queryFn: () => fetchData<BranchBlackout[]>(`/branches/${branchId}/blackouts`),
+    enabled: !!branchId,
+  });
+};
+
+export const useBranchBlackoutPreview = (branchId: string, startDate: string, endDate?: string) => {
+  const queryParams = new URLSearchParams({ startDate });
+  if (endDate) queryParams.append('endDate', endDate);
+  return useQuery({
+    queryKey: ['branch-blackouts', branchId, 'preview', startDate, endDate],
+    queryFn: () => fetchData<BlackoutMeetingPreview[]>(`/branches/${branchId}/blackouts/preview?${queryParams.toString()}`),
+    enabled: !!branchId && !!startDate,
+  });
+};
+
+export const useCreateBranchBlackout = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ branchId, data }: { branchId: string; data: { reason: string; startDate: string; endDate?: string; apply?: boolean } }) =>
+      mutateData<{ blackout: BranchBlackout; result: BlackoutApplyResult | null }, typeof data>(`/branches/${branchId}/blackouts`, 'post', data),
+    onSuccess: (_, { branchId }) => {
+      queryClient.invalidateQueries({ queryKey: ['branch-blackouts', branchId] });
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+      queryClient.invalidateQueries({ queryKey: ['cycles'] });
+    },
+  });
+};
+
+export const useDeleteBranchBlackout = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ branchId, blackoutId }: { branchId: string; blackoutId: string }) =>
+      api.delete(`/branches/${branchId}/blackouts/${blackoutId}`),
+    onSuccess: (_, { branchId }) => {
+      queryClient.invalidateQueries({ queryKey: ['branch-blackouts', branchId] });
+    },
+  });
+};
+
+// ==================== Closures (ימי חג וסגירה) ====================
+export const useClosures = (params?: { from?: string; to?: string }) => {
+  const queryParams = new URLSearchParams();
+  if (params?.from) queryParams.append('from', params.from);
+  if (params?.to) queryParams.append('to', params.to);
+  const queryString = queryParams.toString() ? `?${queryParams.toString()}` : '';
+  return useQuery({
+    queryKey: ['closures', params],
+    queryFn: () => fetchData<OrganizationClosure[]>(`/closures${queryString}`),
+  });
+};
+
+export const useClosedDaysCalendar = (params: { from: string; to: string; branchType?: BranchType }) => {
+  const queryParams = new URLSearchParams({ from: params.from, to: params.to });
+  if (params.branchType) queryParams.append('branchType', params.branchType);
+  return useQuery({
+    queryKey: ['closures', 'calendar', params],
+    queryFn: () => fetchData<ClosedDay[]>(`/closures/calendar?${queryParams.toString()}`),
+  });
+};
+
+export const useCreateClosure = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: Partial<OrganizationClosure>) =>
+      mutateData<OrganizationClosure, Partial<OrganizationClosure>>('/closures', 'post', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['closures'] });
+    },
+  });
+};
+
+export const useUpdateClosure = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<OrganizationClosure> }) =>
+      mutateData<OrganizationClosure, Partial<OrganizationClosure>>(`/closures/${id}`, 'put', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['closures'] });
+    },
+  });
+};
+
+export const useDeleteClosure = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/closures/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['closures'] });
+    },
+  });
+};
+
 // ==================== Paying Bodies (גוף משלם) ====================
 export const usePayingBodies = () => {
   return useQuery({
@@ -460,6 +568,48 @@ export const useBulkUpdateInstructors = () => {
   });
 };
 
+// Instructor availability (weekly slots + unavailable dates)
+export const useInstructorAvailability = (instructorId: string | undefined) => {
+  return useQuery({
+    queryKey: ['instructor-availability', instructorId],
+    queryFn: () => fetchData<InstructorAvailability>(`/instructors/${instructorId}/availability`),
+    enabled: !!instructorId,
+  });
+};
+
+export const useUpdateInstructorAvailability = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ instructorId, slots }: { instructorId: string; slots: InstructorAvailabilitySlot[] }) =>
+      mutateData<InstructorAvailability, { slots: InstructorAvailabilitySlot[] }>(`/instructors/${instructorId}/availability`, 'put', { slots }),
+    onSuccess: (_, { instructorId }) => {
+      queryClient.invalidateQueries({ queryKey: ['instructor-availability', instructorId] });
+    },
+  });
+};
+
+export const useAddInstructorUnavailableDate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ instructorId, data }: { instructorId: string; data: { date: string; reason?: string } }) =>
+      mutateData<InstructorUnavailableDate, typeof data>(`/instructors/${instructorId}/unavailable-dates`, 'post', data),
+    onSuccess: (_, { instructorId }) => {
+      queryClient.invalidateQueries({ queryKey: ['instructor-availability', instructorId] });
+    },
+  });
+};
+
+export const useRemoveInstructorUnavailableDate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ instructorId, dateId }: { instructorId: string; dateId: string }) =>
+      mutateData<void, undefined>(`/instructors/${instructorId}/unavailable-dates/${dateId}`, 'delete'),
+    onSuccess: (_, { instructorId }) => {
+      queryClient.invalidateQueries({ queryKey: ['instructor-availability', instructorId] });
+    },
+  });
+};
+
 // ==================== Cycles ====================
 export const useCycles = (params?: { branchId?: string; instructorId?: string; courseId?: string; status?: string; dayOfWeek?: string; search?: string; limit?: number; startDateFrom?: string; startDateTo?: string }) => {
   const searchParams = new URLSearchParams();
@@ -520,10 +670,16 @@ export const useCycle = (id: string) => {
   });
 };
 
+// Schedule-changing saves answer 409 (code INSTRUCTOR_CONFLICT) when the instructor is
+// double-booked, unless allowConflicts is set; see utils/instructorConflicts.ts
+type ConflictOverride = { allowConflicts?: boolean };
+type WithConflictWarnings<T> = T & { conflictWarnings?: InstructorConflict[] };
+
 export const useCreateCycle = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (data: Partial<Cycle>) => mutateData<Cycle, Partial<Cycle>>('/cycles', 'post', data),
+    mutationFn: (data: Partial<Cycle> & ConflictOverride) =>
+      mutateData<WithConflictWarnings<Cycle>, Partial<Cycle> & ConflictOverride>('/cycles', 'post', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['cycles'] });
     },
@@ -555,12 +711,13 @@ export const useDeleteCycle = () => {
 export const useGenerateMeetings = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (cycleId: string) =>
-      mutateData<{ message: string; generated: number; total: number }, undefined>(
+    mutationFn: ({ cycleId, allowConflicts }: { cycleId: string } & ConflictOverride) =>
+      mutateData<WithConflictWarnings<{ message: string; generated: number; total: number }>, ConflictOverride>(
         `/cycles/${cycleId}/generate-meetings`,
-        'post'
+        'post',
+        { allowConflicts }
       ),
-    onSuccess: (_, cycleId) => {
+    onSuccess: (_, { cycleId }) => {
       queryClient.invalidateQueries({ queryKey: ['cycles'] });
       queryClient.invalidateQueries({ queryKey: ['cycle', cycleId] });
       queryClient.invalidateQueries({ queryKey: ['cycle-meetings', cycleId] });
@@ -642,18 +799,68 @@ export const useCycleRegistrations = (cycleId: string) => {
   });
 };
 
+// A full cycle answers 409 (code CYCLE_FULL) unless joinWaitlist or overCapacity is set
+type CreateRegistrationData = Partial<Registration> & { joinWaitlist?: boolean; overCapacity?: boolean };
+
 export const useCreateRegistration = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: ({ cycleId, data }: { cycleId: string; data: Partial<Registration> }) =>
-      mutateData<Registration, Partial<Registration>>(`/cycles/${cycleId}/registrations`, 'post', data),
+    mutationFn: ({ cycleId, data }: { cycleId: string; data: CreateRegistrationData }) =>
+      mutateData<Registration | { waitlisted: true; entry: WaitlistEntry }, CreateRegistrationData>(`/cycles/${cycleId}/registrations`, 'post', data),
+    onSuccess: (_, { cycleId }) => {
+      queryClient.invalidateQueries({ queryKey: ['cycle-registrations', cycleId] });
+      queryClient.invalidateQueries({ queryKey: ['cycle', cycleId] });
+      queryClient.invalidateQueries({ queryKey: ['cycle-waitlist', cycleId] });
+    },
+  });
+};
+
+// Cycle waitlist
+export const useCycleWaitlist = (cycleId: string) => {
+  return useQuery({
+    queryKey: ['cycle-waitlist', cycleId],
+    queryFn: () => fetchData<CycleWaitlist>(`/cycles/${cycleId}/waitlist`),
+    enabled: !!cycleId,
+  });
+};
+
+export const useAddToWaitlist = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ cycleId, data }: { cycleId: string; data: { customerId: string; studentId?: string; childName?: string; notes?: string } }) =>
+      mutateData<WaitlistEntry, typeof data>(`/cycles/${cycleId}/waitlist`, 'post', data),
+    onSuccess: (_, { cycleId }) => {
+      queryClient.invalidateQueries({ queryKey: ['cycle-waitlist', cycleId] });
+    },
+  });
+};
+
+export const useWaitlistAction = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, action }: { id: string; cycleId: string; action: 'offer' | 'place' | 'remove' }) =>
+      action === 'remove'
+        ? mutateData<void, undefined>(`/waitlist/${id}`, 'delete')
+        : mutateData<unknown, undefined>(`/waitlist/${id}/${action}`, 'post'),
     onSuccess: (_, { cycleId }) => {
+      queryClient.invalidateQueries({ queryKey: ['cycle-waitlist', cycleId] });
       queryClient.invalidateQueries({ queryKey: ['cycle-registrations', cycleId] });
       queryClient.invalidateQueries({ queryKey: ['cycle', cycleId] });
     },
   });
 };
 
+export const useMoveWaitlistEntry = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, position }: { id: string; cycleId: string; position: number }) =>
+      mutateData<WaitlistEntry, { position: number }>(`/waitlist/${id}`, 'patch', { position }),
+    onSuccess: (_, { cycleId }) => {
+      queryClient.invalidateQueries({ queryKey: ['cycle-waitlist', cycleId] });
+    },
+  });
+};
+
 export const useUpdateRegistration = () => {
   const queryClient = useQueryClient();
   return useMutation({
@@ -736,8 +943,8 @@ export const useCreateMeeting = () => {
 export const useUpdateMeeting = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<Meeting> }) =>
-      mutateData<Meeting, Partial<Meeting>>(`/meetings/${id}`, 'put', data),
+    mutationFn: ({ id, data }: { id: string; data: Partial<Meeting> & ConflictOverride }) =>
+      mutateData<WithConflictWarnings<Meeting>, Partial<Meeting> & ConflictOverride>(`/meetings/${id}`, 'put', data),
     onSuccess: (data, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['meetings'] });
       queryClient.invalidateQueries({ queryKey: ['meeting', id] });
@@ -826,11 +1033,14 @@ export const useBulkUpdateMeetingStatus = () => {
 export const useBulkUpdateMeetings = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: ({ ids, data }: { ids: string[]; data: Record<string, any> }) =>
-      mutateData<{ success: boolean; updated: number; errors?: string[] }, { ids: string[]; data: Record<string, any> }>(
+    mutationFn: ({ ids, data, allowConflicts }: { ids: string[]; data: Record<string, any> } & ConflictOverride) =>
+      mutateData<
+        WithConflictWarnings<{ success: boolean; updated: number; errors?: string[] }>,
+        { ids: string[]; data: Record<string, any> } & ConflictOverride
+      >(
         '/meetings/bulk-update',
         'post',
-        { ids, data }
+        { ids, data, allowConflicts }
       ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['meetings'] });
@@ -868,6 +1078,7 @@ export interface AttendanceRecord {
   grade: string | null;
   status: 'present' | 'absent' | 'late' | null;
   isTrial: boolean;
+  isMakeup: boolean;
   notes: string | null;
   attendanceId: string | null;
 }
@@ -1460,10 +1671,12 @@ export interface MeetingChangeRequest {
   reviewedBy: string | null;
   reviewedAt: string | null;
   reviewNotes: string | null;
+  substituteInstructorId?: string | null;
   createdAt: string;
   updatedAt: string;
   meeting?: Meeting;
   instructor?: Instructor;
+  substituteInstructor?: { id: string; name: string } | null;
 }
 
 export const useMeetingChangeRequests = (params?: { meetingId?: string; status?: string }) => {
@@ -1501,6 +1714,15 @@ export const useApproveMeetingChangeRequest = () => {
   });
 };
 
+// Ranked substitute instructors for a replacement request
+export const useMeetingRequestSubstitutes = (requestId: string | null) => {
+  return useQuery({
+    queryKey: ['meeting-request-substitutes', requestId],
+    queryFn: () => fetchData<SubstituteSearch>(`/meeting-requests/${requestId}/substitutes`),
+    enabled: !!requestId,
+  });
+};
+
 export const useRejectMeetingChangeRequest = () => {
   const queryClient = useQueryClient();
   return useMutation({
@@ -1630,6 +1852,18 @@ export const useUpdateTask = () => {
   });
 };
 
+export const useReviewParentRequest = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, decision, notes }: { id: string; decision: 'approve' | 'reject'; notes?: string }) =>
+      mutateData<unknown, { notes?: string }>(`/parent-requests/${id}/${decision}`, 'post', { notes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['cycle-registrations'] });
+    },
+  });
+};
+
 export const useDeleteTask = () => {
   const queryClient = useQueryClient();
   return useMutation({
@@ -1653,12 +1887,18 @@ export interface FileAttachment {
   mimeType: string;
   fileSize: number;
   filePath: string;
+  storage?: 'local' | 's3';
   label?: string | null;
   uploadedById?: string | null;
   createdAt: string;
   uploadedBy?: { id: string; name: string } | null;
 }
 
+export interface FileUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
 export const uploadFileAttachment = async (
   entityType: string,
   entityId: string,
@@ -1681,6 +1921,15 @@ export const useFileAttachments = (entityType: string, entityId: string | undefi
   });
 };
 
+// Nested under ['files', type, id] so upload/delete invalidation refreshes it too
+export const useFileUsage = (entityType: string, entityId: string | undefined) => {
+  return useQuery({
+    queryKey: ['files', entityType, entityId, 'usage'],
+    queryFn: () => fetchData<FileUsage>(`/files/${entityType}/${entityId}/usage`),
+    enabled: !!entityId,
+  });
+};
+
 export const useUploadFile = (entityType: string, entityId: string) => {
   const queryClient = useQueryClient();
   return useMutation({
@@ -1712,6 +1961,276 @@ export const useUpdateFileLabel = (entityType: string, entityId: string) => {
   });
 };
 
+// ==================== Course Curriculum ====================
+export interface CourseLesson {
+  id: string;
+  courseId: string;
+  lessonNumber: number;
+  title: string;
+  objectives: string | null;
+  materialLinks: string[];
+  durationMinutes: number | null;
+}
+
+export type CourseLessonPayload = Pick<CourseLesson, 'title'> & Partial<Pick<CourseLesson, 'objectives' | 'materialLinks' | 'durationMinutes' | 'lessonNumber'>>;
+
+export const useCourseLessons = (courseId: string | undefined) => {
+  return useQuery({
+    queryKey: ['course-lessons', courseId],
+    queryFn: () => fetchData<CourseLesson[]>(`/courses/${courseId}/lessons`),
+    enabled: !!courseId,
+  });
+};
+
+export const useCreateCourseLesson = (courseId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CourseLessonPayload) => mutateData<CourseLesson, CourseLessonPayload>(`/courses/${courseId}/lessons`, 'post', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['course-lessons', courseId] });
+    },
+  });
+};
+
+export const useUpdateCourseLesson = (courseId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Omit<CourseLessonPayload, 'lessonNumber'>> }) =>
+      mutateData<CourseLesson, Partial<Omit<CourseLessonPayload, 'lessonNumber'>>>(`/courses/${courseId}/lessons/${id}`, 'put', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['course-lessons', courseId] });
+    },
+  });
+};
+
+export const useReorderCourseLessons = (courseId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (lessonIds: string[]) =>
+      mutateData<CourseLesson[], { lessonIds: string[] }>(`/courses/${courseId}/lessons/order`, 'put', { lessonIds }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['course-lessons', courseId] });
+    },
+  });
+};
+
+export const useDeleteCourseLesson = (courseId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/courses/${courseId}/lessons/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['course-lessons', courseId] });
+    },
+  });
+};
+
+// ==================== Student Progress ====================
+export type CourseSkillKind = 'skill' | 'milestone';
+
+export interface CourseSkill {
+  id: string;
+  courseId: string;
+  name: string;
+  description: string | null;
+  kind: CourseSkillKind;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export type CourseSkillPayload = Pick<CourseSkill, 'name' | 'kind'> & Partial<Pick<CourseSkill, 'description' | 'sortOrder' | 'isActive'>>;
+
+export interface SkillRating {
+  studentId: string;
+  skillId: string;
+  /** 1–5 for skills; 1 = achieved (0 clears) for milestones */
+  score: number;
+  note?: string | null;
+}
+
+export interface MeetingRatingSheet {
+  meeting: { id: string; cycleId: string; cycleName: string; scheduledDate: string; topic: string | null; status: string };
+  skills: CourseSkill[];
+  students: { id: string; name: string; attendance: 'present' | 'absent' | 'late' | null }[];
+  ratings: SkillRating[];
+}
+
+export interface SkillSummary {
+  skillId: string;
+  name: string;
+  kind: CourseSkillKind;
+  ratings: number;
+  firstScore: number | null;
+  latestScore: number | null;
+  average: number | null;
+  achievedAt: string | null;
+}
+
+export interface StudentProgress {
+  student: { id: string; name: string };
+  cycles: {
+    registrationId: string;
+    registrationStatus: string;
+    cycle: { id: string; name: string; startDate: string; endDate: string; status: string };
+    course: { id: string; name: string };
+    skills: SkillSummary[];
+    timeline: {
+      meetingId: string;
+      date: string;
+      topic: string | null;
+      attendance: 'present' | 'absent' | 'late' | null;
+      ratings: SkillRating[];
+    }[];
+    reportCard: { id: string; fileAttachmentId: string | null; generatedAt: string; sentAt: string | null } | null;
+  }[];
+}
+
+export const useCourseSkills = (courseId: string | undefined, includeInactive = false) => {
+  return useQuery({
+    queryKey: ['course-skills', courseId, { includeInactive }],
+    queryFn: () => fetchData<CourseSkill[]>(`/courses/${courseId}/skills${includeInactive ? '?includeInactive=true' : ''}`),
+    enabled: !!courseId,
+  });
+};
+
+export const useCreateCourseSkill = (courseId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: CourseSkillPayload) => mutateData<CourseSkill, CourseSkillPayload>(`/courses/${courseId}/skills`, 'post', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['course-skills', courseId] });
+    },
+  });
+};
+
+export const useUpdateCourseSkill = (courseId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CourseSkillPayload> }) =>
+      mutateData<CourseSkill, Partial<CourseSkillPayload>>(`/courses/${courseId}/skills/${id}`, 'put', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['course-skills', courseId] });
+    },
+  });
+};
+
+export const useDeleteCourseSkill = (courseId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/courses/${courseId}/skills/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['course-skills', courseId] });
+    },
+  });
+};
+
+export const useMeetingRatings = (meetingId: string | undefined) => {
+  return useQuery({
+    queryKey: ['meeting-ratings', meetingId],
+    queryFn: () => fetchData<MeetingRatingSheet>(`/progress/meetings/${meetingId}/ratings`),
+    enabled: !!meetingId,
+  });
+};
+
+export const useSaveMeetingRatings = (meetingId: string) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (ratings: SkillRating[]) =>
+      mutateData<SkillRating[], { ratings: SkillRating[] }>(`/progress/meetings/${meetingId}/ratings`, 'put', { ratings }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['meeting-ratings', meetingId] });
+      queryClient.invalidateQueries({ queryKey: ['student-progress'] });
+    },
+  });
+};
+
+export const useStudentProgress = (studentId: string | undefined) => {
+  return useQuery({
+    queryKey: ['student-progress', studentId],
+    queryFn: () => fetchData<StudentProgress>(`/progress/students/${studentId}`),
+    enabled: !!studentId,
+  });
+};
+
+export const useGenerateCycleReportCards = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ cycleId, send }: { cycleId: string; send: boolean }) =>
+      mutateData<{ generated: number; failed: number }, { send: boolean }>(`/progress/cycles/${cycleId}/report-cards`, 'post', { send }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student-progress'] });
+      queryClient.invalidateQueries({ queryKey: ['files', 'student'] });
+    },
+  });
+};
+
+// ==================== VAT Rates ====================
+export interface VatRate {
+  id: string;
+  rate: number | string;
+  effectiveFrom: string;
+  note: string | null;
+  recalculatedAt: string | null;
+}
+
+export interface VatRatePayload {
+  rate: number;
+  effectiveFrom: string;
+  note?: string | null;
+}
+
+export interface VatRecalculation {
+  rate: number;
+  from: string;
+  until: string | null;
+  applied: boolean;
+  meetings: number;
+  revenueBefore: number;
+  revenueAfter: number;
+  changes: Array<{ meetingId: string; cycleName: string; scheduledDate: string; before: number; after: number }>;
+  skippedCycles: Array<{ cycleId: string; cycleName: string; meetingRevenue: number; meetings: number }>;
+}
+
+export const useVatRates = () => {
+  return useQuery({
+    queryKey: ['vat-rates'],
+    queryFn: () => fetchData<VatRate[]>('/vat-rates'),
+  });
+};
+
+export const useCreateVatRate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: VatRatePayload) => mutateData<VatRate, VatRatePayload>('/vat-rates', 'post', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vat-rates'] });
+    },
+  });
+};
+
+export const useDeleteVatRate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => api.delete(`/vat-rates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vat-rates'] });
+    },
+  });
+};
+
+/** Preview (apply=false) or apply the meeting revenue recalculation for a rate. */
+export const useRecalculateVatRate = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, apply }: { id: string; apply: boolean }) =>
+      mutateData<VatRecalculation, { apply: boolean }>(`/vat-rates/${id}/recalculate`, 'post', { apply }),
+    onSuccess: (result) => {
+      if (!result.applied) return;
+      queryClient.invalidateQueries({ queryKey: ['vat-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+    },
+  });
+};
+
 // ==================== Institutional Orders ====================
 export interface InstitutionalOrderData {
   branchId?: string | null;
@@ -1784,6 +2303,7 @@ export const useUpdateInstitutionalOrder = () => {
     onSuccess: (_res, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['institutional-orders'] });
       queryClient.invalidateQueries({ queryKey: ['institutional-order', id] });
+      queryClient.invalidateQueries({ queryKey: ['order-budget', id] });
     },
   });
 };
@@ -1798,6 +2318,66 @@ export const useDeleteInstitutionalOrder = () => {
   });
 };
 
+export interface OrderBillingPlan {
+  months: { id: string; month: string; expectedMeetings: number; expectedAmount: number }[];
+  periods: {
+    id: string;
+    monthStart: string;
+    monthEnd: string;
+    status: string;
+    totalAmount: number;
+    plannedAmount: number | null;
+    variance: number | null;
+  }[];
+  plannedTotal: number;
+  billedTotal: number;
+}
+
+export const useOrderBillingPlan = (orderId: string) =>
+  useQuery({
+    queryKey: ['order-billing-plan', orderId],
+    queryFn: () => fetchData<OrderBillingPlan>(`/institutional-orders/${orderId}/billing-plan`),
+    enabled: !!orderId,
+  });
+
+export const useRebuildOrderBillingPlan = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (orderId: string) =>
+      mutateData<OrderBillingPlan, Record<string, never>>(`/institutional-orders/${orderId}/billing-plan/rebuild`, 'post', {}),
+    onSuccess: (_res, orderId) => {
+      queryClient.invalidateQueries({ queryKey: ['order-billing-plan', orderId] });
+    },
+  });
+};
+
+export interface OrderBudget {
+  budget: number | null;
+  estimatedMeetings: number | null;
+  heldMeetings: number;
+  heldAmount: number;
+  billedAmount: number;
+  consumedAmount: number;
+  remainingBudget: number | null;
+  remainingMeetings: number | null;
+  consumedPercent: number | null;
+  scheduledMeetings: number;
+  scheduledAmount: number;
+  projectedAmount: number;
+  projectedMeetings: number;
+  projectedExhaustionDate: string | null;
+  unfundedMeetings: number;
+  overrunAmount: number;
+  level: 'ok' | 'warning' | 'exhausted';
+}
+
+export const useOrderBudget = (orderId: string) =>
+  useQuery({
+    queryKey: ['order-budget', orderId],
+    queryFn: () => fetchData<OrderBudget>(`/institutional-orders/${orderId}/budget`),
+    enabled: !!orderId,
+  });
+
 // ==================== Quotes (delete hook) ====================
 export const useDeleteQuote = () => {
   const queryClient = useQueryClient();
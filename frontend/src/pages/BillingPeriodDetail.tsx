@@ -1,8 +1,9 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { ArrowRight, Plus, Trash2, Eye, Send, AlertCircle, CheckCircle2, ExternalLink, X, MessageCircle, Wallet, FileCheck2, Unlock } from 'lucide-react';
+import { ArrowRight, Plus, Trash2, Eye, Send, AlertCircle, CheckCircle2, ExternalLink, X, MessageCircle, Wallet, FileCheck2, Unlock, Paperclip } from 'lucide-react';
 import { api } from '../api/client';
 import PageHeader from '../components/ui/PageHeader';
+import FileAttachments from '../components/FileAttachments';
 import { useAuth } from '../context/AuthContext';
 
 interface Line {
@@ -1158,6 +1159,15 @@ export default function BillingPeriodDetail() {
         </section>
       )}
 
+      {/* ── Attached documents ────────────────────────────────────────── */}
+      <section className="bg-white rounded-xl border p-5 space-y-4">
+        <div className="flex items-center gap-2">
+          <Paperclip size={18} className="text-gray-600" />
+          <h2 className="font-semibold text-gray-900">מסמכים מצורפים</h2>
+        </div>
+        <FileAttachments entityType="billing-period" entityId={period.id} canDelete={true} />
+      </section>
+
       {/* ── Tax invoice + receipt (320) preview & edit modal ──────────────── */}
       {showTaxModal && period && (() => {
         const documentGross = chargedTotalDue(period);
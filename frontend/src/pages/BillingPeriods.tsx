@@ -1,8 +1,11 @@
 import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, ExternalLink, RefreshCcw, AlertCircle, X, Search, ChevronDown, ChevronLeft } from 'lucide-react';
+import { Plus, ExternalLink, RefreshCcw, AlertCircle, X, Search, ChevronDown, ChevronLeft, Percent } from 'lucide-react';
 import { api } from '../api/client';
 import PageHeader from '../components/ui/PageHeader';
+import Modal from '../components/ui/Modal';
+import VatRatesPanel from '../components/VatRatesPanel';
+import { useAuth } from '../context/AuthContext';
 
 interface BillingPeriod {
   id: string;
@@ -75,6 +78,8 @@ const ILS = (n: number) => n.toLocaleString('he-IL', { style: 'currency', curren
 const displayAmount = (p: BillingPeriod) => Number(p.chargedAmount ?? p.totalAmount);
 
 export default function BillingPeriods() {
+  const { user } = useAuth();
+  const [showVatRates, setShowVatRates] = useState(false);
   const [periods, setPeriods] = useState<BillingPeriod[]>([]);
   const [orders, setOrders] = useState<InstitutionalOrder[]>([]);
   const [loading, setLoading] = useState(true);
@@ -212,8 +217,18 @@ export default function BillingPeriods() {
       <PageHeader
         title="חשבונות חודשיים — לקוחות מוסדיים"
         subtitle="ייצור drafts לפי הפגישות שהתקיימו, עריכה, אישור והפקה למורנינג"
+        actions={
+          <button onClick={() => setShowVatRates(true)} className="btn btn-secondary">
+            <Percent size={18} />
+            שיעורי מע״מ
+          </button>
+        }
       />
 
+      <Modal isOpen={showVatRates} onClose={() => setShowVatRates(false)} title="שיעורי מע״מ" size="lg">
+        <VatRatesPanel canEdit={user?.role === 'admin'} />
+      </Modal>
+
       <section className="bg-white rounded-xl border p-5 space-y-3">
         <h2 className="font-semibold text-gray-900">צור draft חדש</h2>
         <form onSubmit={generate} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
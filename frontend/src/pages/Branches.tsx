@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
-import { Plus, Building2, MapPin, Phone, Mail, RefreshCcw, FileText, Search, Edit2, LayoutGrid, List, ChevronUp, ChevronDown, ChevronsUpDown, Trash2, CheckSquare, Square, X, Download } from 'lucide-react';
+import { Plus, Building2, MapPin, Phone, Mail, RefreshCcw, FileText, Search, Edit2, LayoutGrid, List, ChevronUp, ChevronDown, ChevronsUpDown, Trash2, CheckSquare, Square, X, Download, CalendarX } from 'lucide-react';
 import { useBranches, useCreateBranch, useUpdateBranch, useDeleteBranch } from '../hooks/useApi';
 import PageHeader from '../components/ui/PageHeader';
 import { SkeletonCardGrid } from '../components/ui/Loading';
@@ -9,6 +9,7 @@ import Modal from '../components/ui/Modal';
 import ConfirmDeleteModal from '../components/ui/ConfirmDeleteModal';
 import { branchTypeHebrew } from '../types';
 import ViewSelector from '../components/ViewSelector';
+import BranchBlackoutsModal from '../components/BranchBlackoutsModal';
 import type { Branch, BranchType } from '../types';
 
 type SortConfig = { key: string; direction: 'asc' | 'desc' } | null;
@@ -44,6 +45,7 @@ export default function Branches() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<Branch | null>(null);
+  const [blackoutBranch, setBlackoutBranch] = useState<Branch | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [searchFilter, setSearchFilter] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>(() =>
@@ -185,6 +187,7 @@ export default function Branches() {
                   branch={branch}
                   onEdit={() => setEditingBranch(branch)}
                   onDelete={() => setDeleteConfirm(branch)}
+                  onBlackouts={() => setBlackoutBranch(branch)}
                   isSelected={selectedIds.has(branch.id)}
                   onToggleSelect={() => toggleSelect(branch.id)}
                 />
@@ -245,6 +248,7 @@ export default function Branches() {
                       <td className="p-3">
                         <div className="flex items-center gap-1">
                           <button onClick={() => setEditingBranch(branch)} className="p-1.5 hover:bg-blue-100 rounded transition-colors text-blue-600" title="עריכה"><Edit2 size={14} /></button>
+                          <button onClick={() => setBlackoutBranch(branch)} className="p-1.5 hover:bg-amber-100 rounded transition-colors text-amber-600" title="ימי סגירה"><CalendarX size={14} /></button>
                           <button onClick={() => setDeleteConfirm(branch)} className="p-1.5 hover:bg-red-100 rounded transition-colors text-red-500" title="מחיקה"><Trash2 size={14} /></button>
                         </div>
                       </td>
@@ -279,15 +283,17 @@ export default function Branches() {
         warningText={(deleteConfirm?._count?.cycles || 0) > 0 ? `לסניף זה יש ${deleteConfirm?._count?.cycles} מחזורים פעילים. לא ניתן למחוק.` : undefined}
         isLoading={deleteBranch.isPending}
       />
+      <BranchBlackoutsModal branch={blackoutBranch} onClose={() => setBlackoutBranch(null)} />
     </>
   );
 }
 
 // Branch Card
-function BranchCard({ branch, onEdit, onDelete, isSelected, onToggleSelect }: {
+function BranchCard({ branch, onEdit, onDelete, onBlackouts, isSelected, onToggleSelect }: {
   branch: Branch;
   onEdit: () => void;
   onDelete: () => void;
+  onBlackouts: () => void;
   isSelected: boolean;
   onToggleSelect: () => void;
 }) {
@@ -311,6 +317,7 @@ function BranchCard({ branch, onEdit, onDelete, isSelected, onToggleSelect }: {
               {isSelected ? <CheckSquare size={18} className="text-blue-600" /> : <Square size={18} className="text-gray-300 hover:text-gray-500" />}
             </button>
             <button onClick={onEdit} className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200" title="ערוך סניף"><Edit2 size={16} /></button>
+            <button onClick={onBlackouts} className="p-2 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-all duration-200" title="ימי סגירה"><CalendarX size={16} /></button>
             <button onClick={onDelete} className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200" title="מחק סניף"><Trash2 size={16} /></button>
             <span className={`badge ${branch.isActive ? 'badge-success' : 'badge-gray'}`}>{branch.isActive ? 'פעיל' : 'לא פעיל'}</span>
           </div>
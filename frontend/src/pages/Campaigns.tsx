@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import {
   Megaphone,
   Plus,
@@ -17,6 +17,11 @@ import {
   X,
 } from 'lucide-react';
 import { api } from '../api/client';
+import Modal from '../components/ui/Modal';
+import CampaignSequence from '../components/CampaignSequence';
+import CampaignAbResults from '../components/CampaignAbResults';
+import CampaignAttribution from '../components/CampaignAttribution';
+import CampaignAudienceRules from '../components/CampaignAudienceRules';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -25,6 +30,7 @@ interface Campaign {
   name: string;
   description?: string;
   channel: string;
+  type: 'one_shot' | 'drip';
   status: string;
   recipientCount: number;
   deliveredCount: number;
@@ -39,6 +45,7 @@ interface Campaign {
   sentTodayCount: number;
   landingUrl?: string;
   totalClicks?: number;
+  _count?: { steps: number; enrollments: number; variants: number };
 }
 
 interface FileRecipient {
@@ -58,6 +65,18 @@ interface AudienceFilters {
   hasEmail?: boolean;
   hasPhone?: boolean;
   fileRecipients?: FileRecipient[];
+  leadStatuses?: string[];
+  sources?: string[];
+  cities?: string[];
+  attendedWithinDays?: number;
+  notAttendedForDays?: number;
+  upsellStatuses?: string[];
+  unpaidRegistrations?: boolean;
+  completedCourseIds?: string[];
+  waConversationStatuses?: string[];
+  excludeSegmentIds?: string[];
+  excludeCampaignIds?: string[];
+  excludePhones?: string[];
 }
 
 interface ContentVariant {
@@ -91,6 +110,9 @@ const STATUS_LABEL: Record<string, string> = {
   sending: 'בשליחה',
   completed: 'הושלם',
   failed: 'נכשל',
+  active: 'רצף פעיל',
+  paused: 'מושהה',
+  ab_testing: 'בדיקת A/B',
 };
 
 const STATUS_CLASS: Record<string, string> = {
@@ -99,6 +121,9 @@ const STATUS_CLASS: Record<string, string> = {
   sending: 'bg-yellow-100 text-yellow-700',
   completed: 'bg-green-100 text-green-700',
   failed: 'bg-red-100 text-red-700',
+  active: 'bg-indigo-100 text-indigo-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+  ab_testing: 'bg-purple-100 text-purple-700',
 };
 
 const CHANNEL_LABEL: Record<string, string> = {
@@ -117,6 +142,9 @@ const STEPS = [
   { label: 'אישור', icon: '✅' },
 ];
 
+// Drip campaigns only use the basic + audience steps; content and timing live in the sequence
+const DRIP_STEPS = STEPS.slice(0, 2);
+
 // ─── Main Component ──────────────────────────────────────────────────────────
 
 export default function Campaigns() {
@@ -124,12 +152,14 @@ export default function Campaigns() {
   const [builderOpen, setBuilderOpen] = useState(false);
   const [editCampaign, setEditCampaign] = useState<Campaign | null>(null);
   const [step, setStep] = useState(0);
+  const [sequenceCampaignId, setSequenceCampaignId] = useState<string | null>(null);
 
   // Form state
   const [form, setForm] = useState({
     name: '',
     description: '',
     channel: 'email',
+    type: 'one_shot' as Campaign['type'],
   });
   const [filters, setFilters] = useState<AudienceFilters>({
     cycleIds: [],
@@ -155,8 +185,7 @@ export default function Campaigns() {
   const [workingId, setWorkingId] = useState<string | null>(null);
 
   // Audience preview
-  const [audienceCount, setAudienceCount] = useState<number | null>(null);
-  const [audienceLoading, setAudienceLoading] = useState(false);
+  const [debouncedFilters, setDebouncedFilters] = useState<AudienceFilters>(filters);
 
   // AI variants
   const [variants, setVariants] = useState<ContentVariant[]>([]);
@@ -168,6 +197,13 @@ export default function Campaigns() {
   const [landingUrl, setLandingUrl] = useState('');
   const [selectedVariant, setSelectedVariant] = useState<number | null>(null);
 
+  // A/B test: the main content is variant A, extraVariants are B, C...
+  const [abEnabled, setAbEnabled] = useState(false);
+  const [extraVariants, setExtraVariants] = useState<ContentVariant[]>([]);
+  const [abSettings, setAbSettings] = useState({ abTestPercent: 20, abWinnerMetric: 'open' as 'open' | 'click', abWindowHours: 4 });
+  const [abResultsId, setAbResultsId] = useState<string | null>(null);
+  const [attributionOpen, setAttributionOpen] = useState(false);
+
   // ─── Data queries ──────────────────────────────────────────────────────────
 
   const { data: campaigns = [], isLoading } = useQuery<Campaign[]>({
@@ -208,14 +244,16 @@ export default function Campaigns() {
     setEditCampaign(null);
     setWorkingId(null);
     setStep(0);
-    setForm({ name: '', description: '', channel: 'email' });
+    setForm({ name: '', description: '', channel: 'email', type: 'one_shot' });
     setFilters({ cycleIds: [], courseIds: [], branchIds: [], cycleStatus: 'all', registrationStatus: 'all' });
     setCycleSearch('');
     setContent({ subject: '', contentHtml: '', contentWa: '' });
     setSchedule({ type: 'now', scheduledAt: '' });
-    setAudienceCount(null);
     setVariants([]);
     setSelectedVariant(null);
+    setAbEnabled(false);
+    setExtraVariants([]);
+    setAbSettings({ abTestPercent: 20, abWinnerMetric: 'open', abWindowHours: 4 });
     setAiContext('');
     setLandingUrl('');
     setTestRecipient('');
@@ -275,7 +313,6 @@ export default function Campaigns() {
           return;
         }
         setFilters(f => ({ ...f, fileRecipients: recipients }));
-        setAudienceCount(recipients.length);
       } catch {
         setFileParseError('שגיאה בקריאת הקובץ');
       }
@@ -287,7 +324,7 @@ export default function Campaigns() {
     setEditCampaign(c);
     setWorkingId(c.id);
     setStep(0);
-    setForm({ name: c.name, description: c.description || '', channel: c.channel });
+    setForm({ name: c.name, description: c.description || '', channel: c.channel, type: c.type });
     setLandingUrl(c.landingUrl || '');
     setTestRecipient('');
     setTestResult('');
@@ -296,6 +333,8 @@ export default function Campaigns() {
 
   // ─── Step navigation ───────────────────────────────────────────────────────
 
+  const builderSteps = form.type === 'drip' ? DRIP_STEPS : STEPS;
+
   const nextStep = async () => {
     if (step === 0) {
       // Save basic info
@@ -313,11 +352,20 @@ export default function Campaigns() {
     if (step === 1 && workingId) {
       // Save filters
       await api.put(`/campaigns/${workingId}`, { audienceFilters: filters });
+      if (form.type === 'drip') {
+        // Continue in the sequence editor
+        qc.invalidateQueries({ queryKey: ['campaigns'] });
+        setBuilderOpen(false);
+        setSequenceCampaignId(workingId);
+        return;
+      }
     }
     if (step === 2 && workingId) {
       // Save content + landing URL
       const effectiveLandingUrl = landingUrl || `https://crm.orma-ai.com/campaign/${workingId}`;
       await api.put(`/campaigns/${workingId}`, { ...content, landingUrl: effectiveLandingUrl });
+      const abVariants = abEnabled && extraVariants.length > 0 ? [content, ...extraVariants] : [];
+      await api.put(`/campaigns/${workingId}/variants`, { variants: abVariants, ...abSettings });
     }
     setStep(s => Math.min(s + 1, STEPS.length - 1));
   };
@@ -326,15 +374,20 @@ export default function Campaigns() {
 
   // ─── Audience preview ──────────────────────────────────────────────────────
 
-  const previewAudience = async () => {
-    setAudienceLoading(true);
-    try {
-      const res = await api.post('/campaigns/preview-audience', { filters });
-      setAudienceCount(res.data.count);
-    } finally {
-      setAudienceLoading(false);
-    }
-  };
+  // Counts refresh live while the rules are edited
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedFilters(filters), 400);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const fileMode = (filters.fileRecipients?.length ?? 0) > 0;
+  const { data: audiencePreview, isFetching: audienceLoading } = useQuery<{ count: number }>({
+    queryKey: ['campaign-audience-preview', debouncedFilters],
+    queryFn: async () => (await api.post('/campaigns/preview-audience', { filters: debouncedFilters })).data,
+    enabled: builderOpen && step === 1 && !fileMode,
+    placeholderData: keepPreviousData,
+  });
+  const audienceCount = fileMode ? filters.fileRecipients!.length : audiencePreview?.count ?? null;
 
   // ─── AI generation ─────────────────────────────────────────────────────────
 
@@ -357,6 +410,18 @@ export default function Campaigns() {
     setContent({ subject: v.subject, contentHtml: v.contentHtml, contentWa: v.contentWa });
   };
 
+  const applyVariantsToAbTest = () => {
+    const [first, ...rest] = variants;
+    setContent({ subject: first.subject, contentHtml: first.contentHtml, contentWa: first.contentWa });
+    setExtraVariants(rest.slice(0, 4));
+    setSelectedVariant(0);
+    setAbEnabled(true);
+  };
+
+  const changeExtraVariant = (index: number, patch: Partial<ContentVariant>) => {
+    setExtraVariants(list => list.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+  };
+
   // ─── Send campaign ─────────────────────────────────────────────────────────
 
   const handleTestSend = async () => {
@@ -384,9 +449,13 @@ export default function Campaigns() {
       body.scheduledAt = schedule.scheduledAt;
     }
     if (dailyLimit && dailyLimit > 0) body.dailyLimit = dailyLimit;
-    await api.post(`/campaigns/${workingId}/send`, body);
+    const res = await api.post(`/campaigns/${workingId}/send`, body);
     qc.invalidateQueries({ queryKey: ['campaigns'] });
     setBuilderOpen(false);
+    if (res.data.status === 'ab_testing') {
+      alert(`🧪 בדיקת A/B הופעלה: ${res.data.testSize} נמענים בקבוצת הבדיקה, הגרסה המנצחת תישלח ל-${res.data.remainder} הנותרים`);
+      return;
+    }
     alert(schedule.type === 'now' ? `✅ הקמפיין הופעל! נשלחים עד ${dailyLimit} הודעות` : '📅 הקמפיין תוזמן לשליחה!');
   };
 
@@ -403,13 +472,21 @@ export default function Campaigns() {
             <p className="text-sm text-gray-500">שלח מיילים וWA לקהל יעד ממוקד</p>
           </div>
         </div>
-        <button
-          onClick={openNew}
-          className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-colors"
-        >
-          <Plus size={18} />
-          קמפיין חדש
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setAttributionOpen(true)}
+            className="flex items-center gap-2 border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg transition-colors"
+          >
+            📈 הרשמות והכנסות
+          </button>
+          <button
+            onClick={openNew}
+            className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            <Plus size={18} />
+            קמפיין חדש
+          </button>
+        </div>
       </div>
 
       {/* Campaigns table */}
@@ -443,12 +520,19 @@ export default function Campaigns() {
               {campaigns.map(c => (
                 <tr key={c.id} className="border-b border-gray-100 hover:bg-gray-50">
                   <td className="px-4 py-3">
-                    <div className="font-medium text-gray-900">{c.name}</div>
+                    <div className="font-medium text-gray-900">
+                      {c.name}
+                      {c.type === 'drip' && (
+                        <span className="mr-2 text-xs bg-indigo-50 text-indigo-700 px-1.5 py-0.5 rounded">
+                          🔁 רצף · {c._count?.steps ?? 0} שלבים
+                        </span>
+                      )}
+                    </div>
                     {c.description && (
                       <div className="text-xs text-gray-400 truncate max-w-xs">{c.description}</div>
                     )}
                   </td>
-                  <td className="px-4 py-3 text-gray-600">{CHANNEL_LABEL[c.channel] || c.channel}</td>
+                  <td className="px-4 py-3 text-gray-600">{c.type === 'drip' ? 'לפי שלב' : CHANNEL_LABEL[c.channel] || c.channel}</td>
                   <td className="px-4 py-3">
                     <span
                       className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${STATUS_CLASS[c.status] || 'bg-gray-100 text-gray-600'}`}
@@ -517,7 +601,23 @@ export default function Campaigns() {
                           ערוך
                         </button>
                       )}
-                      {c.pendingCount > 0 && c.status !== 'sending' && (
+                      {c.type === 'drip' && (
+                        <button
+                          onClick={() => setSequenceCampaignId(c.id)}
+                          className="text-indigo-600 hover:text-indigo-800 text-xs font-medium"
+                        >
+                          🔁 רצף והתקדמות
+                        </button>
+                      )}
+                      {(c._count?.variants ?? 0) >= 2 && (
+                        <button
+                          onClick={() => setAbResultsId(c.id)}
+                          className="text-purple-600 hover:text-purple-800 text-xs font-medium"
+                        >
+                          📊 A/B
+                        </button>
+                      )}
+                      {c.type !== 'drip' && c.pendingCount > 0 && c.status !== 'sending' && c.status !== 'ab_testing' && (
                         <button
                           onClick={async () => {
                             const limit = window.prompt(`שלח אצווה הבאה מ-"${c.name}"\nכמה הודעות לשלוח? (ממתינים: ${c.pendingCount})`, '1500');
@@ -550,6 +650,48 @@ export default function Campaigns() {
         )}
       </div>
 
+      {/* ─── Drip sequence ──────────────────────────────────────────────────── */}
+      <Modal
+        isOpen={!!sequenceCampaignId}
+        onClose={() => setSequenceCampaignId(null)}
+        title="רצף הודעות"
+        size="xl"
+      >
+        {sequenceCampaignId && (
+          <div className="p-6">
+            <CampaignSequence campaignId={sequenceCampaignId} />
+          </div>
+        )}
+      </Modal>
+
+      {/* ─── A/B results ────────────────────────────────────────────────────── */}
+      <Modal
+        isOpen={!!abResultsId}
+        onClose={() => setAbResultsId(null)}
+        title="תוצאות בדיקת A/B"
+        size="lg"
+      >
+        {abResultsId && (
+          <div className="p-6">
+            <CampaignAbResults campaignId={abResultsId} />
+          </div>
+        )}
+      </Modal>
+
+      {/* ─── Attribution ────────────────────────────────────────────────────── */}
+      <Modal
+        isOpen={attributionOpen}
+        onClose={() => setAttributionOpen(false)}
+        title="ייחוס הרשמות והכנסות לקמפיינים"
+        size="xl"
+      >
+        {attributionOpen && (
+          <div className="p-6">
+            <CampaignAttribution />
+          </div>
+        )}
+      </Modal>
+
       {/* ─── Builder Modal ───────────────────────────────────────────────────── */}
       {builderOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" dir="rtl">
@@ -566,7 +708,7 @@ export default function Campaigns() {
 
             {/* Steps indicator */}
             <div className="flex items-center justify-center gap-1 px-6 py-3 bg-gray-50 border-b border-gray-200">
-              {STEPS.map((s, i) => (
+              {builderSteps.map((s, i) => (
                 <div key={i} className="flex items-center">
                   <button
                     onClick={() => i < step || workingId ? setStep(i) : undefined}
@@ -581,7 +723,7 @@ export default function Campaigns() {
                     <span>{s.icon}</span>
                     <span>{s.label}</span>
                   </button>
-                  {i < STEPS.length - 1 && (
+                  {i < builderSteps.length - 1 && (
                     <ChevronLeft size={14} className="text-gray-300 mx-1" />
                   )}
                 </div>
@@ -615,20 +757,20 @@ export default function Campaigns() {
                     />
                   </div>
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">ערוץ שליחה</label>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">סוג קמפיין</label>
                     <div className="flex gap-3">
                       {[
-                        { value: 'email', icon: <Mail size={18} />, label: '📧 מייל' },
-                        { value: 'whatsapp', icon: <MessageCircle size={18} />, label: '💬 WhatsApp' },
-                        { value: 'both', icon: null, label: '📧💬 שניהם' },
+                        { value: 'one_shot' as const, label: '📨 שליחה חד-פעמית' },
+                        { value: 'drip' as const, label: '🔁 רצף הודעות (טריגרים ושלבים)' },
                       ].map(opt => (
                         <button
                           key={opt.value}
-                          onClick={() => setForm(f => ({ ...f, channel: opt.value }))}
-                          className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border-2 font-medium transition-colors ${
-                            form.channel === opt.value
+                          disabled={!!workingId}
+                          onClick={() => setForm(f => ({ ...f, type: opt.value }))}
+                          className={`flex-1 py-2 rounded-lg border-2 font-medium transition-colors disabled:cursor-not-allowed ${
+                            form.type === opt.value
                               ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
-                              : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                              : 'border-gray-200 text-gray-600 hover:border-gray-300 disabled:opacity-50'
                           }`}
                         >
                           {opt.label}
@@ -636,6 +778,34 @@ export default function Campaigns() {
                       ))}
                     </div>
                   </div>
+                  {form.type === 'one_shot' ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">ערוץ שליחה</label>
+                      <div className="flex gap-3">
+                        {[
+                          { value: 'email', icon: <Mail size={18} />, label: '📧 מייל' },
+                          { value: 'whatsapp', icon: <MessageCircle size={18} />, label: '💬 WhatsApp' },
+                          { value: 'both', icon: null, label: '📧💬 שניהם' },
+                        ].map(opt => (
+                          <button
+                            key={opt.value}
+                            onClick={() => setForm(f => ({ ...f, channel: opt.value }))}
+                            className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border-2 font-medium transition-colors ${
+                              form.channel === opt.value
+                                ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                                : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                            }`}
+                          >
+                            {opt.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 bg-indigo-50 rounded-lg px-3 py-2">
+                      ברצף, לכל שלב ערוץ ותוכן משלו. אחרי בחירת קהל היעד ממשיכים להגדרת הטריגר, השלבים ותנאי היציאה.
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -810,6 +980,18 @@ export default function Campaigns() {
                     </div>
                   </div>
 
+                  {/* CRM rules, exclusions and saved segments */}
+                  <div className="border-t border-gray-200 pt-4">
+                    <h4 className="text-sm font-semibold text-gray-900 mb-3">סינון לפי נתוני CRM</h4>
+                    <CampaignAudienceRules
+                      filters={filters}
+                      onChange={patch => setFilters(f => ({ ...f, ...patch }))}
+                      onLoadSegment={segment => setFilters({ cycleIds: [], courseIds: [], branchIds: [], cycleStatus: 'all', registrationStatus: 'all', ...segment })}
+                      courses={courses}
+                      campaigns={campaigns.filter(c => c.id !== workingId)}
+                    />
+                  </div>
+
                   {/* Contact filters */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">פרטי קשר</label>
@@ -865,7 +1047,6 @@ export default function Campaigns() {
                         onClick={() => {
                           setFilters(f => ({ ...f, fileRecipients: undefined }));
                           setFileName('');
-                          setAudienceCount(null);
                         }}
                         className="mt-2 text-xs text-red-500 hover:text-red-700"
                       >
@@ -880,21 +1061,13 @@ export default function Campaigns() {
                     )}
                   </div>
 
-                  {/* Preview button */}
-                  <button
-                    onClick={previewAudience}
-                    disabled={audienceLoading || (filters.fileRecipients !== undefined && filters.fileRecipients.length > 0)}
-                    className="flex items-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg transition-colors disabled:opacity-40"
-                  >
-                    <Users size={16} />
-                    {audienceLoading ? 'מחשב...' : 'חשב קהל'}
-                  </button>
-
+                  {/* Live audience count */}
                   {audienceCount !== null && (
                     <div className="flex items-center gap-2 p-3 bg-indigo-50 border border-indigo-200 rounded-lg">
                       <Users className="text-indigo-600" size={18} />
                       <span className="font-semibold text-indigo-700 text-lg">{audienceCount}</span>
                       <span className="text-indigo-600">לקוחות בקהל היעד</span>
+                      {audienceLoading && <span className="text-xs text-indigo-400">מתעדכן...</span>}
                     </div>
                   )}
                 </div>
@@ -931,7 +1104,14 @@ export default function Campaigns() {
                   {/* AI Variants */}
                   {variants.length > 0 && (
                     <div className="space-y-2">
-                      <p className="text-sm text-gray-600 font-medium">בחר גרסה:</p>
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-gray-600 font-medium">בחר גרסה:</p>
+                        {variants.length > 1 && (
+                          <button onClick={applyVariantsToAbTest} className="text-xs text-purple-700 hover:underline">
+                            🧪 השתמש בכל הגרסאות לבדיקת A/B
+                          </button>
+                        )}
+                      </div>
                       <div className="grid gap-2">
                         {variants.map((v, i) => (
                           <button
@@ -1009,6 +1189,115 @@ export default function Campaigns() {
                     </div>
                   )}
 
+                  {/* A/B test */}
+                  <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 space-y-3">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-purple-800 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={abEnabled}
+                        onChange={e => {
+                          setAbEnabled(e.target.checked);
+                          if (e.target.checked && extraVariants.length === 0) {
+                            setExtraVariants([{ subject: content.subject, contentHtml: content.contentHtml, contentWa: content.contentWa }]);
+                          }
+                        }}
+                        className="rounded accent-purple-600"
+                      />
+                      🧪 בדיקת A/B — התוכן שלמעלה הוא גרסה A
+                    </label>
+                    {abEnabled && (
+                      <>
+                        {extraVariants.map((v, i) => (
+                          <div key={i} className="bg-white border border-purple-100 rounded-lg p-3 space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm font-semibold text-purple-700">גרסה {'BCDE'[i]}</span>
+                              <button
+                                onClick={() => setExtraVariants(list => list.filter((_, j) => j !== i))}
+                                className="text-gray-400 hover:text-red-600"
+                              >
+                                <Trash2 size={14} />
+                              </button>
+                            </div>
+                            {(form.channel === 'email' || form.channel === 'both') && (
+                              <>
+                                <input
+                                  type="text"
+                                  value={v.subject}
+                                  onChange={e => changeExtraVariant(i, { subject: e.target.value })}
+                                  placeholder="נושא מייל"
+                                  className="w-full border border-gray-300 rounded-lg px-3 py-1.5 text-sm"
+                                />
+                                <textarea
+                                  value={v.contentHtml}
+                                  onChange={e => changeExtraVariant(i, { contentHtml: e.target.value })}
+                                  rows={3}
+                                  placeholder="תוכן HTML..."
+                                  className="w-full border border-gray-300 rounded-lg px-3 py-1.5 font-mono text-xs"
+                                />
+                              </>
+                            )}
+                            {(form.channel === 'whatsapp' || form.channel === 'both') && (
+                              <textarea
+                                value={v.contentWa}
+                                onChange={e => changeExtraVariant(i, { contentWa: e.target.value })}
+                                rows={3}
+                                placeholder="הודעת WhatsApp..."
+                                className="w-full border border-gray-300 rounded-lg px-3 py-1.5 text-sm"
+                              />
+                            )}
+                          </div>
+                        ))}
+                        {extraVariants.length < 4 && (
+                          <button
+                            onClick={() => setExtraVariants(list => [...list, { subject: '', contentHtml: '', contentWa: '' }])}
+                            className="flex items-center gap-1 text-sm text-purple-700 hover:underline"
+                          >
+                            <Plus size={14} />
+                            הוסף גרסה
+                          </button>
+                        )}
+                        <div className="grid grid-cols-3 gap-3 text-sm">
+                          <label className="space-y-1">
+                            <span className="block text-purple-800">% מהקהל לבדיקה</span>
+                            <input
+                              type="number"
+                              min={2}
+                              max={90}
+                              value={abSettings.abTestPercent}
+                              onChange={e => setAbSettings(a => ({ ...a, abTestPercent: Number(e.target.value) }))}
+                              className="w-full border border-purple-200 rounded-lg px-2 py-1.5 bg-white"
+                            />
+                          </label>
+                          <label className="space-y-1">
+                            <span className="block text-purple-800">מנצח לפי</span>
+                            <select
+                              value={abSettings.abWinnerMetric}
+                              onChange={e => setAbSettings(a => ({ ...a, abWinnerMetric: e.target.value as 'open' | 'click' }))}
+                              className="w-full border border-purple-200 rounded-lg px-2 py-1.5 bg-white"
+                            >
+                              <option value="open">אחוז פתיחה</option>
+                              <option value="click">אחוז הקלקה</option>
+                            </select>
+                          </label>
+                          <label className="space-y-1">
+                            <span className="block text-purple-800">חלון בדיקה (שעות)</span>
+                            <input
+                              type="number"
+                              min={1}
+                              max={168}
+                              value={abSettings.abWindowHours}
+                              onChange={e => setAbSettings(a => ({ ...a, abWindowHours: Number(e.target.value) }))}
+                              className="w-full border border-purple-200 rounded-lg px-2 py-1.5 bg-white"
+                            />
+                          </label>
+                        </div>
+                        <p className="text-xs text-purple-600">
+                          כל גרסה נשלחת לחלק אקראי מקבוצת הבדיקה. בתום החלון הגרסה המנצחת נשלחת אוטומטית לשאר הקהל.
+                        </p>
+                      </>
+                    )}
+                  </div>
+
                   {/* Unsubscribe notice */}
                   {(form.channel === 'email' || form.channel === 'both') && (
                     <div className="flex items-start gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
@@ -1145,6 +1434,14 @@ export default function Campaigns() {
                         <span className="font-medium truncate max-w-xs">{content.subject}</span>
                       </div>
                     )}
+                    {abEnabled && extraVariants.length > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">בדיקת A/B</span>
+                        <span className="font-medium text-purple-700">
+                          {extraVariants.length + 1} גרסאות · {abSettings.abTestPercent}% מהקהל · {abSettings.abWindowHours} שעות
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-gray-500">שליחה</span>
                       <span className="font-medium">
@@ -1179,14 +1476,14 @@ export default function Campaigns() {
                 הקודם
               </button>
               <span className="text-sm text-gray-400">
-                שלב {step + 1} מתוך {STEPS.length}
+                שלב {step + 1} מתוך {builderSteps.length}
               </span>
-              {step < STEPS.length - 1 ? (
+              {step < builderSteps.length - 1 || form.type === 'drip' ? (
                 <button
                   onClick={nextStep}
                   className="flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg transition-colors"
                 >
-                  הבא
+                  {step === builderSteps.length - 1 ? 'המשך להגדרת הרצף' : 'הבא'}
                   <ChevronLeft size={18} />
                 </button>
               ) : (
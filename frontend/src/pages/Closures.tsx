@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { Plus, CalendarOff, CalendarCheck, Edit2, Trash2, ChevronRight, ChevronLeft } from 'lucide-react';
+import { useClosures, useClosedDaysCalendar, useCreateClosure, useUpdateClosure, useDeleteClosure } from '../hooks/useApi';
+import PageHeader from '../components/ui/PageHeader';
+import { SkeletonTable } from '../components/ui/Loading';
+import EmptyState from '../components/ui/EmptyState';
+import Modal from '../components/ui/Modal';
+import ConfirmDeleteModal from '../components/ui/ConfirmDeleteModal';
+import { branchTypeHebrew, closureKindHebrew } from '../types';
+import type { BranchType, ClosureKind, OrganizationClosure } from '../types';
+
+const BRANCH_TYPES = Object.keys(branchTypeHebrew) as BranchType[];
+
+const kindColors: Record<ClosureKind, string> = {
+  vacation: 'bg-blue-50 text-blue-700 border-blue-200',
+  strike: 'bg-red-50 text-red-700 border-red-200',
+  ministry_calendar: 'bg-purple-50 text-purple-700 border-purple-200',
+  other: 'bg-gray-50 text-gray-700 border-gray-200',
+};
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('he-IL', { timeZone: 'UTC' });
+}
+
+function formatRange(closure: OrganizationClosure) {
+  const start = formatDate(closure.startDate);
+  const end = formatDate(closure.endDate);
+  return start === end ? start : `${start} – ${end}`;
+}
+
+export default function Closures() {
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [branchType, setBranchType] = useState<BranchType | ''>('');
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [editingClosure, setEditingClosure] = useState<OrganizationClosure | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<OrganizationClosure | null>(null);
+
+  const from = `${year}-01-01`;
+  const to = `${year}-12-31`;
+  const { data: closures, isLoading } = useClosures({ from, to });
+  const { data: closedDays, isLoading: calendarLoading } = useClosedDaysCalendar({ from, to, branchType: branchType || undefined });
+
+  const createClosure = useCreateClosure();
+  const updateClosure = useUpdateClosure();
+  const deleteClosure = useDeleteClosure();
+
+  const handleAddClosure = async (data: Partial<OrganizationClosure>) => {
+    try { await createClosure.mutateAsync(data); setShowAddModal(false); }
+    catch (error) { alert(errorMessage(error, 'שגיאה בשמירת הסגירה')); }
+  };
+
+  const handleEditClosure = async (data: Partial<OrganizationClosure>) => {
+    if (!editingClosure) return;
+    try { await updateClosure.mutateAsync({ id: editingClosure.id, data }); setEditingClosure(null); }
+    catch (error) { alert(errorMessage(error, 'שגיאה בשמירת הסגירה')); }
+  };
+
+  const handleDeleteClosure = async () => {
+    if (!deleteConfirm) return;
+    try { await deleteClosure.mutateAsync(deleteConfirm.id); setDeleteConfirm(null); }
+    catch (error) { alert(errorMessage(error, 'שגיאה במחיקת הסגירה')); }
+  };
+
+  return (
+    <>
+      <PageHeader
+        title="ימי חג וסגירה"
+        subtitle="חגי ישראל מחושבים אוטומטית. כאן מוסיפים חופשות, שביתות וימים פתוחים — מחזורים, פגישות חלופיות והתחזית מדלגים עליהם."
+        actions={
+          <button onClick={() => setShowAddModal(true)} className="btn btn-primary">
+            <Plus size={18} /> סגירה חדשה
+          </button>
+        }
+      />
+
+      <div className="flex-1 p-6 overflow-auto space-y-6">
+        <div className="flex flex-wrap gap-3 items-center">
+          <div className="flex items-center gap-1 rounded-lg border border-gray-200 bg-white">
+            <button onClick={() => setYear(year - 1)} className="p-2 hover:bg-gray-50 text-gray-500" title="שנה קודמת"><ChevronRight size={16} /></button>
+            <span className="px-2 font-semibold text-gray-800">{year}</span>
+            <button onClick={() => setYear(year + 1)} className="p-2 hover:bg-gray-50 text-gray-500" title="שנה הבאה"><ChevronLeft size={16} /></button>
+          </div>
+          <select value={branchType} onChange={(e) => setBranchType(e.target.value as BranchType | '')} className="form-input w-auto">
+            <option value="">כל סוגי הסניפים</option>
+            {BRANCH_TYPES.map((type) => <option key={type} value={type}>{branchTypeHebrew[type]}</option>)}
+          </select>
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-gray-100 font-semibold text-gray-800">סגירות ארגוניות</div>
+          {isLoading ? (
+            <SkeletonTable rows={3} columns={5} />
+          ) : closures && closures.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-100">
+                <tr>
+                  <th className="p-3 text-right font-medium text-gray-600">שם</th>
+                  <th className="p-3 text-right font-medium text-gray-600">תאריכים</th>
+                  <th className="p-3 text-right font-medium text-gray-600">סוג</th>
+                  <th className="p-3 text-right font-medium text-gray-600">חל על</th>
+                  <th className="p-3 text-center font-medium text-gray-600">מצב</th>
+                  <th className="p-3 text-right font-medium text-gray-600">פעולות</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-50">
+                {closures.map((closure) => (
+                  <tr key={closure.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="p-3">
+                      <span className="font-medium text-gray-900">{closure.name}</span>
+                      {closure.notes && <p className="text-xs text-gray-500 mt-0.5">{closure.notes}</p>}
+                    </td>
+                    <td className="p-3 text-gray-600">{formatRange(closure)}</td>
+                    <td className="p-3">
+                      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium border ${kindColors[closure.kind]}`}>
+                        {closureKindHebrew[closure.kind]}
+                      </span>
+                    </td>
+                    <td className="p-3 text-gray-600">
+                      {closure.branchTypes.length === 0 ? 'כל הסניפים' : closure.branchTypes.map((t) => branchTypeHebrew[t]).join(', ')}
+                    </td>
+                    <td className="p-3 text-center">
+                      {closure.closed ? (
+                        <span className="inline-flex items-center gap-1 text-red-600 text-xs font-medium"><CalendarOff size={14} /> סגור</span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 text-green-600 text-xs font-medium"><CalendarCheck size={14} /> פתוח (עוקף חג)</span>
+                      )}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-1">
+                        <button onClick={() => setEditingClosure(closure)} className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors" title="עריכה"><Edit2 size={15} /></button>
+                        <button onClick={() => setDeleteConfirm(closure)} className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="מחיקה"><Trash2 size={15} /></button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <EmptyState
+              variant="compact"
+              icon={<CalendarOff size={32} />}
+              title={`אין סגירות ב-${year}`}
+              description="חגי ישראל כבר נלקחים בחשבון. הוסף כאן רק ימים נוספים או ימים פתוחים."
+            />
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+          <div className="p-4 border-b border-gray-100 flex items-center justify-between">
+            <span className="font-semibold text-gray-800">ימים סגורים בפועל</span>
+            <span className="text-sm text-gray-500">{closedDays?.length ?? 0} ימים</span>
+          </div>
+          {calendarLoading ? (
+            <SkeletonTable rows={5} columns={3} />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 p-4">
+              {closedDays?.map((day) => (
+                <div key={day.date} className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-gray-100 text-sm">
+                  <span className="text-gray-500 shrink-0">{formatDate(day.date)}</span>
+                  <span className={`truncate ${day.source === 'closure' ? 'text-red-700 font-medium' : 'text-gray-800'}`}>{day.name}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Modal isOpen={showAddModal} onClose={() => setShowAddModal(false)} title="סגירה חדשה" size="lg">
+        <ClosureForm onSubmit={handleAddClosure} onCancel={() => setShowAddModal(false)} isLoading={createClosure.isPending} />
+      </Modal>
+      <Modal isOpen={!!editingClosure} onClose={() => setEditingClosure(null)} title="עריכת סגירה" size="lg">
+        {editingClosure && <ClosureForm closure={editingClosure} onSubmit={handleEditClosure} onCancel={() => setEditingClosure(null)} isLoading={updateClosure.isPending} />}
+      </Modal>
+      <ConfirmDeleteModal
+        isOpen={!!deleteConfirm}
+        onClose={() => setDeleteConfirm(null)}
+        onConfirm={handleDeleteClosure}
+        title="מחיקת סגירה"
+        itemName={deleteConfirm?.name}
+        isLoading={deleteClosure.isPending}
+      />
+    </>
+  );
+}
+
+// Closure Form
+interface ClosureFormProps {
+  closure?: OrganizationClosure;
+  onSubmit: (data: Partial<OrganizationClosure>) => void;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+function ClosureForm({ closure, onSubmit, onCancel, isLoading }: ClosureFormProps) {
+  const [formData, setFormData] = useState({
+    name: closure?.name || '',
+    kind: closure?.kind || ('vacation' as ClosureKind),
+    startDate: closure?.startDate.split('T')[0] || '',
+    endDate: closure?.endDate.split('T')[0] || '',
+    branchTypes: closure?.branchTypes || ([] as BranchType[]),
+    closed: closure?.closed ?? true,
+    notes: closure?.notes || '',
+  });
+
+  const toggleBranchType = (type: BranchType) => {
+    const branchTypes = formData.branchTypes.includes(type)
+      ? formData.branchTypes.filter((t) => t !== type)
+      : [...formData.branchTypes, type];
+    setFormData({ ...formData, branchTypes });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ ...formData, endDate: formData.endDate || formData.startDate, notes: formData.notes || null });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="col-span-2">
+          <label className="form-label">שם *</label>
+          <input type="text" value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} className="form-input" placeholder="לדוגמה: חופשת חנוכה בבתי ספר" required />
+        </div>
+        <div>
+          <label className="form-label">מתאריך *</label>
+          <input type="date" value={formData.startDate} onChange={(e) => setFormData({ ...formData, startDate: e.target.value })} className="form-input" required />
+        </div>
+        <div>
+          <label className="form-label">עד תאריך (כולל)</label>
+          <input type="date" value={formData.endDate} min={formData.startDate} onChange={(e) => setFormData({ ...formData, endDate: e.target.value })} className="form-input" />
+        </div>
+        <div>
+          <label className="form-label">סוג</label>
+          <select value={formData.kind} onChange={(e) => setFormData({ ...formData, kind: e.target.value as ClosureKind })} className="form-input">
+            {(Object.keys(closureKindHebrew) as ClosureKind[]).map((kind) => <option key={kind} value={kind}>{closureKindHebrew[kind]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="form-label">מצב</label>
+          <select value={formData.closed ? 'closed' : 'open'} onChange={(e) => setFormData({ ...formData, closed: e.target.value === 'closed' })} className="form-input">
+            <option value="closed">סגור — אין פעילות</option>
+            <option value="open">פתוח — פעילות למרות חג</option>
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className="form-label">חל על סוגי סניפים</label>
+        <div className="flex flex-wrap gap-3 mt-1">
+          {BRANCH_TYPES.map((type) => (
+            <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={formData.branchTypes.includes(type)} onChange={() => toggleBranchType(type)} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+              {branchTypeHebrew[type]}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">ללא בחירה — חל על כל הסניפים</p>
+      </div>
+      <div>
+        <label className="form-label">הערות</label>
+        <textarea value={formData.notes} onChange={(e) => setFormData({ ...formData, notes: e.target.value })} className="form-input" rows={2} />
+      </div>
+      <div className="flex justify-end gap-3 pt-4 border-t">
+        <button type="button" onClick={onCancel} className="btn btn-secondary">ביטול</button>
+        <button type="submit" className="btn btn-primary" disabled={isLoading}>{isLoading ? 'שומר...' : 'שמור'}</button>
+      </div>
+    </form>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
-import { Plus, BookOpen, RefreshCcw, Search, LayoutGrid, List, ChevronUp, ChevronDown, ChevronsUpDown, Edit, Trash2, CheckSquare, Square, X, Download, FolderOpen } from 'lucide-react';
+import { Plus, BookOpen, RefreshCcw, Search, LayoutGrid, List, ChevronUp, ChevronDown, ChevronsUpDown, Edit, Trash2, CheckSquare, Square, X, Download, FolderOpen, Star, ListOrdered } from 'lucide-react';
 import { CourseMaterials } from '../components/CourseMaterials';
+import CourseSkillsEditor from '../components/CourseSkillsEditor';
+import CourseLessonsEditor from '../components/CourseLessonsEditor';
 import { useCourses, useCreateCourse, useUpdateCourse, useDeleteCourse } from '../hooks/useApi';
 import PageHeader from '../components/ui/PageHeader';
 import Loading from '../components/ui/Loading';
@@ -39,6 +41,8 @@ export default function Courses() {
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<Course | null>(null);
   const [viewMaterialsCourse, setViewMaterialsCourse] = useState<Course | null>(null);
+  const [skillsCourse, setSkillsCourse] = useState<Course | null>(null);
+  const [lessonsCourse, setLessonsCourse] = useState<Course | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [searchFilter, setSearchFilter] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>(() =>
@@ -184,6 +188,8 @@ export default function Courses() {
                   isSelected={selectedIds.has(course.id)}
                   onToggleSelect={() => toggleSelect(course.id)}
                   onViewMaterials={() => setViewMaterialsCourse(course)}
+                  onEditSkills={() => setSkillsCourse(course)}
+                  onEditLessons={() => setLessonsCourse(course)}
                 />
               ))}
             </div>
@@ -240,6 +246,8 @@ export default function Courses() {
                           {course.materialsFolderId && (
                             <button onClick={() => setViewMaterialsCourse(course)} className="p-1.5 hover:bg-yellow-100 rounded transition-colors text-yellow-600" title="חומרי לימוד"><FolderOpen size={14} /></button>
                           )}
+                          <button onClick={() => setLessonsCourse(course)} className="p-1.5 hover:bg-indigo-100 rounded transition-colors text-indigo-600" title="תוכנית לימודים"><ListOrdered size={14} /></button>
+                          <button onClick={() => setSkillsCourse(course)} className="p-1.5 hover:bg-amber-100 rounded transition-colors text-amber-600" title="מיומנויות ואבני דרך"><Star size={14} /></button>
                           <button onClick={() => setEditingCourse(course)} className="p-1.5 hover:bg-blue-100 rounded transition-colors text-blue-600" title="עריכה"><Edit size={14} /></button>
                           <button onClick={() => setDeleteConfirm(course)} className="p-1.5 hover:bg-red-100 rounded transition-colors text-red-500" title="מחיקה"><Trash2 size={14} /></button>
                         </div>
@@ -286,18 +294,35 @@ export default function Courses() {
           </div>
         )}
       </Modal>
+      <Modal
+        isOpen={!!skillsCourse}
+        onClose={() => setSkillsCourse(null)}
+        title={`מיומנויות ואבני דרך — ${skillsCourse?.name}`}
+      >
+        {skillsCourse && <CourseSkillsEditor courseId={skillsCourse.id} />}
+      </Modal>
+      <Modal
+        isOpen={!!lessonsCourse}
+        onClose={() => setLessonsCourse(null)}
+        title={`תוכנית לימודים — ${lessonsCourse?.name}`}
+        size="lg"
+      >
+        {lessonsCourse && <CourseLessonsEditor courseId={lessonsCourse.id} />}
+      </Modal>
     </>
   );
 }
 
 // Course Card
-function CourseCard({ course, onEdit, onDelete, isSelected, onToggleSelect, onViewMaterials }: {
+function CourseCard({ course, onEdit, onDelete, isSelected, onToggleSelect, onViewMaterials, onEditSkills, onEditLessons }: {
   course: Course;
   onEdit: () => void;
   onDelete: () => void;
   isSelected: boolean;
   onToggleSelect: () => void;
   onViewMaterials: () => void;
+  onEditSkills: () => void;
+  onEditLessons: () => void;
 }) {
   return (
     <div className={`card hover:shadow-md transition-shadow relative ${isSelected ? 'ring-2 ring-blue-400' : ''}`}>
@@ -329,6 +354,8 @@ function CourseCard({ course, onEdit, onDelete, isSelected, onToggleSelect, onVi
                 <FolderOpen size={14} />
               </button>
             )}
+            <button onClick={onEditLessons} className="p-1.5 hover:bg-indigo-100 rounded transition-colors text-indigo-600" title="תוכנית לימודים"><ListOrdered size={14} /></button>
+            <button onClick={onEditSkills} className="p-1.5 hover:bg-amber-100 rounded transition-colors text-amber-600" title="מיומנויות ואבני דרך"><Star size={14} /></button>
             <button onClick={onEdit} className="p-1.5 hover:bg-blue-100 rounded transition-colors text-blue-600" title="עריכה"><Edit size={14} /></button>
             <button onClick={onDelete} className="p-1.5 hover:bg-red-100 rounded transition-colors text-red-500" title="מחיקה"><Trash2 size={14} /></button>
           </div>
@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { ArrowRight, Phone, Mail, MapPin, Plus, Edit, Pencil, User, Trash2, BookOpen, MessageCircle, Send, Clock, CreditCard, FileText, GitMerge } from 'lucide-react';
+import { ArrowRight, Phone, Mail, MapPin, Plus, Edit, Pencil, User, Trash2, BookOpen, MessageCircle, Send, Clock, CreditCard, FileText, GitMerge, Paperclip, TrendingUp } from 'lucide-react';
 import { useCustomer, useStudents, useCreateStudent, useUpdateCustomer, useUpdateStudent, useDeleteStudent, useDeleteCustomer, useCycles, useCreateRegistration, useSendWhatsApp, useSendEmail, useCourses, useBranches, useInstructors, useCreateCycle } from '../hooks/useApi';
 import api from '../api/client';
 import PageHeader from '../components/ui/PageHeader';
@@ -12,7 +12,10 @@ import EmptyState from '../components/ui/EmptyState';
 import WooPayModal from '../components/WooPayModal';
 import CustomerWhatsAppPanel from '../components/CustomerWhatsAppPanel';
 import MergeCustomerModal from '../components/MergeCustomerModal';
+import FileAttachments from '../components/FileAttachments';
+import StudentProgressPanel from '../components/StudentProgressPanel';
 import type { Customer, Student, Cycle, PaymentStatus, PaymentMethod } from '../types';
+import { saveWithConflictCheck } from '../utils/instructorConflicts';
 
 type ApiValidationDetail = {
   field?: string;
@@ -70,6 +73,7 @@ export default function CustomerDetail() {
   const [showAddStudentModal, setShowAddStudentModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
+  const [progressStudent, setProgressStudent] = useState<Student | null>(null);
   const [showWhatsAppModal, setShowWhatsAppModal] = useState(false);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [showPayModal, setShowPayModal] = useState(false);
@@ -435,6 +439,13 @@ export default function CustomerDetail() {
                         <td className="text-gray-500">{student.notes || '-'}</td>
                         <td>
                           <div className="flex items-center gap-1">
+                            <button
+                              onClick={() => setProgressStudent(student)}
+                              className="p-1.5 text-amber-500 hover:bg-amber-50 rounded-lg transition-colors"
+                              title="התקדמות ותעודות"
+                            >
+                              <TrendingUp size={16} />
+                            </button>
                             <button
                               onClick={() => handleEditStudent(student)}
                               className="p-1.5 text-blue-500 hover:bg-blue-50 rounded-lg transition-colors"
@@ -472,6 +483,16 @@ export default function CustomerDetail() {
 
           {/* Payment History */}
           <PaymentHistory customerId={customer.id} />
+
+          {/* File Attachments */}
+          <div className="lg:col-span-3 card">
+            <div className="card-header">
+              <h2 className="font-semibold flex items-center gap-2"><Paperclip size={18} />מסמכים מצורפים</h2>
+            </div>
+            <div className="card-body">
+              <FileAttachments entityType="customer" entityId={customer.id} canDelete={true} />
+            </div>
+          </div>
         </div>
       </div>
 
@@ -522,6 +543,22 @@ export default function CustomerDetail() {
             onCycleCreated={() => refetchCycles()}
           />
         )}
+        {editingStudent && (
+          <div className="px-6 pb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2"><Paperclip size={16} />מסמכי התלמיד</h3>
+            <FileAttachments entityType="student" entityId={editingStudent.id} canDelete={true} />
+          </div>
+        )}
+      </Modal>
+
+      {/* Student Progress Modal */}
+      <Modal
+        isOpen={!!progressStudent}
+        onClose={() => setProgressStudent(null)}
+        title={`התקדמות — ${progressStudent?.name ?? ''}`}
+        size="lg"
+      >
+        {progressStudent && <StudentProgressPanel studentId={progressStudent.id} />}
       </Modal>
 
       {/* WhatsApp Modal */}
@@ -1938,13 +1975,15 @@ function QuickCycleForm({ onClose, onCreated }: QuickCycleFormProps) {
       const [endHour, endMin] = formData.endTime.split(':').map(Number);
       const durationMinutes = (endHour * 60 + endMin) - (startHour * 60 + startMin);
 
-      const result = await createCycle.mutateAsync({
+      const result = await saveWithConflictCheck((allowConflicts) => createCycle.mutateAsync({
         ...formData,
         status: 'active',
         type: formData.cycleType,
         durationMinutes,
         activityType: formData.activityType,
-      });
+        allowConflicts,
+      }));
+      if (!result) return;
       onCreated(result as Cycle);
     } catch (error) {
       console.error('Failed to create cycle:', error);
@@ -31,9 +31,13 @@ import {
   CalendarX,
   FileText,
   Download,
+  Paperclip,
+  Star,
+  Award,
 } from 'lucide-react';
 import MeetingExpenses from '../components/MeetingExpenses';
 import MeetingsExportModal from '../components/MeetingsExportModal';
+import CycleWaitlist from '../components/CycleWaitlist';
 import {
   useCycle,
   useCycleMeetings,
@@ -56,6 +60,7 @@ import {
   useGenerateMeetings,
   useSyncCycleProgress,
   useCreateMeeting,
+  useGenerateCycleReportCards,
   useInstitutionalOrders,
   api,
 } from '../hooks/useApi';
@@ -65,6 +70,9 @@ import EmptyState from '../components/ui/EmptyState';
 import Modal from '../components/ui/Modal';
 import AttendanceModal from '../components/AttendanceModal';
 import CycleExpenses from '../components/CycleExpenses';
+import FileAttachments from '../components/FileAttachments';
+import MeetingSkillRatings from '../components/MeetingSkillRatings';
+import StudentProgressPanel from '../components/StudentProgressPanel';
 import { useCycleExpenses } from '../hooks/useExpenses';
 import type { CycleExpense } from '../hooks/useExpenses';
 import {
@@ -76,6 +84,7 @@ import {
 import type { Meeting, MeetingStatus, MeetingNature, Registration, RegistrationStatus, PaymentStatus, PaymentMethod, ActivityType, Cycle, Course, Branch, Instructor, CycleStatus, CycleType, DayOfWeek, InstructorPaymentMode } from '../types';
 import { paymentStatusHebrew, activityTypeHebrew, meetingNatureHebrew } from '../types';
 import { exportCycleMeetingsToExcel } from '../utils/meetingsExcel';
+import { saveWithConflictCheck } from '../utils/instructorConflicts';
 
 // Add Student Modal with search + create new
 function AddStudentModal({
@@ -363,6 +372,7 @@ export default function CycleDetail() {
   const generateMeetings = useGenerateMeetings();
   const syncCycleProgress = useSyncCycleProgress();
   const createMeeting = useCreateMeeting();
+  const generateReportCards = useGenerateCycleReportCards();
 
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [showFreezeModal, setShowFreezeModal] = useState(false);
@@ -595,6 +605,17 @@ export default function CycleDetail() {
     }
   };
 
+  const handleGenerateReportCards = async () => {
+    if (!confirm('להפיק מחדש את תעודות הסיום ולשלוח אותן להורים?')) return;
+    try {
+      const result = await generateReportCards.mutateAsync({ cycleId: id!, send: true });
+      alert(`הופקו ${result.generated} תעודות${result.failed ? `, ${result.failed} נכשלו` : ''}`);
+    } catch (error) {
+      console.error('Failed to generate report cards:', error);
+      alert('שגיאה בהפקת תעודות הסיום');
+    }
+  };
+
   const handleBulkRecalculate = async () => {
     try {
       const result = await bulkRecalculateMeetings.mutateAsync({ ids: Array.from(selectedMeetingIds), force: true });
@@ -622,7 +643,7 @@ export default function CycleDetail() {
     }
   };
 
-  const handleAddStudent = async (studentId: string) => {
+  const handleAddStudent = async (studentId: string, capacity?: { joinWaitlist?: boolean; overCapacity?: boolean }) => {
     try {
       await createRegistration.mutateAsync({
         cycleId: id!,
@@ -630,10 +651,21 @@ export default function CycleDetail() {
           studentId,
           status: 'active',
           registrationDate: new Date().toISOString().split('T')[0],
+          ...capacity,
         },
       });
       setShowAddStudentModal(false);
     } catch (error) {
+      const response = (error as { response?: { status?: number; data?: { data?: { code?: string } } } }).response;
+      if (!capacity && response?.status === 409 && response.data?.data?.code === 'CYCLE_FULL') {
+        if (window.confirm('המחזור מלא. להוסיף את התלמיד לרשימת ההמתנה?')) {
+          return handleAddStudent(studentId, { joinWaitlist: true });
+        }
+        if (window.confirm('לרשום את התלמיד בכל זאת, מעבר לקיבולת המחזור?')) {
+          return handleAddStudent(studentId, { overCapacity: true });
+        }
+        return;
+      }
       console.error('Failed to register student:', error);
       alert('שגיאה בהרשמת התלמיד');
     }
@@ -707,10 +739,11 @@ export default function CycleDetail() {
 
   const handleUpdateMeetingData = async (meetingId: string, data: { status?: MeetingStatus; nature?: MeetingNature; instructorId?: string; registrationId?: string | null; topic?: string; notes?: string; scheduledDate?: string; startTime?: string; endTime?: string; activityType?: ActivityType; zoomJoinUrl?: string | null; zoomMeetingId?: string | null; zoomHostKey?: string | null }) => {
     try {
-      await updateMeeting.mutateAsync({
+      const updated = await saveWithConflictCheck((allowConflicts) => updateMeeting.mutateAsync({
         id: meetingId,
-        data: data as any,
-      });
+        data: { ...data, allowConflicts } as any,
+      }));
+      if (!updated) return;
       setSelectedMeeting(null);
     } catch (error) {
       console.error('Failed to update meeting:', error);
@@ -866,6 +899,16 @@ export default function CycleDetail() {
                         ▶️ חדש
                       </button>
                     )}
+                    {isAdmin && cycle.status === 'completed' && (
+                      <button
+                        onClick={handleGenerateReportCards}
+                        disabled={generateReportCards.isPending}
+                        className="btn btn-sm text-xs px-2 py-1 bg-purple-50 text-purple-600 hover:bg-purple-100 border border-purple-200 rounded-lg"
+                        title="הפקה מחדש של תעודות הסיום ושליחה להורים"
+                      >
+                        <Award size={12} /> {generateReportCards.isPending ? 'מפיק...' : 'תעודות סיום'}
+                      </button>
+                    )}
                   </div>
                 </div>
                 {/* Frozen info */}
@@ -1239,6 +1282,8 @@ export default function CycleDetail() {
               )}
             </div>
 
+            <CycleWaitlist cycleId={id!} maxStudents={cycle.maxStudents} />
+
             {/* Cycle Expenses */}
             <div className="card mt-4" data-testid="cycle-expenses">
               <div className="card-header">
@@ -1254,6 +1299,16 @@ export default function CycleDetail() {
                 />
               </div>
             </div>
+
+            {/* File Attachments */}
+            <div className="card mt-4" data-testid="cycle-files">
+              <div className="card-header">
+                <h2 className="font-semibold flex items-center gap-2"><Paperclip size={18} />מסמכים מצורפים</h2>
+              </div>
+              <div className="p-4">
+                <FileAttachments entityType="cycle" entityId={id!} canDelete={isAdmin} />
+              </div>
+            </div>
           </div>
 
           {/* Meetings */}
@@ -1277,8 +1332,10 @@ export default function CycleDetail() {
                       onClick={async () => {
                         if (confirm(`האם ליצור ${cycle.totalMeetings - (meetings?.length || 0)} פגישות חדשות?`)) {
                           try {
-                            const result = await generateMeetings.mutateAsync(id!);
-                            alert(result.message);
+                            const result = await saveWithConflictCheck((allowConflicts) =>
+                              generateMeetings.mutateAsync({ cycleId: id!, allowConflicts })
+                            );
+                            if (result) alert(result.message);
                           } catch (error: any) {
                             alert(error.message || 'שגיאה ביצירת פגישות');
                           }
@@ -1636,6 +1693,20 @@ export default function CycleDetail() {
               </div>
             )}
 
+            {/* Student ratings */}
+            {viewingMeeting.status === 'completed' && (
+              <div className="border-t pt-4">
+                <h4 className="font-medium text-gray-700 mb-4 flex items-center gap-2"><Star size={16} />דירוג תלמידים</h4>
+                <MeetingSkillRatings meetingId={viewingMeeting.id} />
+              </div>
+            )}
+
+            {/* Meeting files */}
+            <div className="border-t pt-4">
+              <h4 className="font-medium text-gray-700 mb-4 flex items-center gap-2"><Paperclip size={16} />קבצי המפגש</h4>
+              <FileAttachments entityType="meeting" entityId={viewingMeeting.id} canDelete={isAdmin} />
+            </div>
+
             {/* Actions */}
             <div className="flex justify-between pt-4 border-t">
               <div>
@@ -1948,6 +2019,14 @@ export default function CycleDetail() {
               </div>
             </div>
 
+            {/* Progress */}
+            {viewingRegistration.studentId && (
+              <div className="border-t pt-4 -mx-6">
+                <h4 className="font-medium text-gray-700 px-6 flex items-center gap-2"><Star size={16} />התקדמות</h4>
+                <StudentProgressPanel studentId={viewingRegistration.studentId} />
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex justify-between pt-4 border-t">
               <button
@@ -14,6 +14,7 @@ import { cycleStatusHebrew, cycleTypeHebrew, dayOfWeekHebrew } from '../types';
 import type { Cycle, CycleType, CycleStatus, DayOfWeek, ActivityType, InstructorPaymentMode } from '../types';
 import { activityTypeHebrew } from '../types';
 import { exportMeetingsToExcel } from '../utils/meetingsExcel';
+import { saveWithConflictCheck } from '../utils/instructorConflicts';
 
 export default function Cycles() {
   const { user } = useAuth();
@@ -315,7 +316,8 @@ export default function Cycles() {
 
   const handleAddCycle = async (data: Partial<Cycle>) => {
     try {
-      await createCycle.mutateAsync(data);
+      const created = await saveWithConflictCheck((allowConflicts) => createCycle.mutateAsync({ ...data, allowConflicts }));
+      if (!created) return;
       setShowAddModal(false);
     } catch (error) {
       console.error('Failed to create cycle:', error);
@@ -0,0 +1,458 @@
+/**
+ * Unified Inbox — WhatsApp / Messenger / Instagram בתיבה אחת
+ * שיחות של אותו לקוח מכל הערוצים מאוחדות, והתשובה נשלחת בערוץ שממנו הגיעה השיחה
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Inbox as InboxIcon, Send, Bot, RefreshCw, User, Search, Link2, X } from 'lucide-react';
+
+const API = '/api/inbox';
+
+type Channel = 'whatsapp' | 'messenger' | 'instagram';
+
+interface Thread {
+  channel: Channel;
+  threadId: string;
+  name: string;
+  unreadCount: number;
+  lastMessageAt: string | null;
+}
+
+interface Contact {
+  key: string;
+  name: string;
+  customer: { id: string; name: string; phone: string | null; email: string | null } | null;
+  unreadCount: number;
+  lastMessageAt: string | null;
+  lastMessagePreview: string | null;
+  lastChannel: Channel;
+  threads: Thread[];
+}
+
+interface Message {
+  id: string;
+  channel: Channel;
+  threadId: string;
+  direction: 'inbound' | 'outbound';
+  content: string;
+  isAiGenerated: boolean;
+  createdAt: string;
+}
+
+interface SearchHit {
+  id: string;
+  channel: Channel;
+  name: string;
+  content: string;
+  createdAt: string;
+  contactKey: string;
+}
+
+interface CustomerOption {
+  id: string;
+  name: string;
+  phone: string | null;
+}
+
+const CHANNELS: Record<Channel, { label: string; badge: string; bubble: string }> = {
+  whatsapp: { label: 'WhatsApp', badge: 'bg-green-100 text-green-700', bubble: 'bg-green-500 text-white' },
+  messenger: { label: 'Messenger', badge: 'bg-blue-100 text-blue-700', bubble: 'bg-blue-500 text-white' },
+  instagram: { label: 'Instagram', badge: 'bg-pink-100 text-pink-700', bubble: 'bg-pink-500 text-white' },
+};
+
+function formatTime(iso: string | null) {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const now = new Date();
+  const isToday = d.toDateString() === now.toDateString();
+  if (isToday) return d.toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' });
+  return d.toLocaleDateString('he-IL', { day: '2-digit', month: '2-digit' });
+}
+
+function getHeaders() {
+  const token = localStorage.getItem('accessToken');
+  return { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' };
+}
+
+async function api(path: string, opts?: RequestInit) {
+  const res = await fetch(path, { headers: getHeaders(), ...opts });
+  if (!res.ok) throw new Error(await res.text());
+  return res.json();
+}
+
+function ChannelBadge({ channel }: { channel: Channel }) {
+  return (
+    <span className={`text-[10px] font-medium rounded-full px-1.5 py-0.5 ${CHANNELS[channel].badge}`}>
+      {CHANNELS[channel].label}
+    </span>
+  );
+}
+
+function CustomerLinker({ thread, onLinked }: { thread: Thread; onLinked: () => void }) {
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<CustomerOption[]>([]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) return;
+    const timer = setTimeout(() => {
+      api(`/api/customers?search=${encodeURIComponent(query.trim())}&limit=10`)
+        .then(res => setOptions(res.data ?? []))
+        .catch(() => setOptions([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const link = async (customerId: string) => {
+    try {
+      await api(`${API}/threads/${thread.channel}/${thread.threadId}/customer`, {
+        method: 'PUT',
+        body: JSON.stringify({ customerId }),
+      });
+      onLinked();
+    } catch {
+      alert('שגיאה בקישור ללקוח');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="חיפוש לקוח לקישור..."
+        autoFocus
+        className="w-56 border border-gray-200 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-300"
+      />
+      {query.trim().length >= 2 && options.length > 0 && (
+        <div className="absolute z-10 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+          {options.map(c => (
+            <button key={c.id} onClick={() => link(c.id)} className="w-full text-right px-3 py-1.5 text-xs hover:bg-gray-50">
+              <span className="font-medium text-gray-800">{c.name}</span>
+              {c.phone && <span className="text-gray-400 mr-2" dir="ltr">{c.phone}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Inbox() {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [channelFilter, setChannelFilter] = useState<Channel | ''>('');
+  const [search, setSearch] = useState('');
+  const [searchHits, setSearchHits] = useState<SearchHit[] | null>(null);
+  const [replyChannel, setReplyChannel] = useState<string>('');
+  const [replyText, setReplyText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [linking, setLinking] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const selected = contacts.find(c => c.key === selectedKey) ?? null;
+  // Reply goes to the chosen thread, defaulting to the channel the contact last wrote on
+  const replyThread = selected
+    ? selected.threads.find(t => `${t.channel}:${t.threadId}` === replyChannel)
+      ?? selected.threads.find(t => t.channel === selected.lastChannel)
+      ?? selected.threads[0]
+    : undefined;
+
+  const fetchContacts = useCallback(async (quiet = false) => {
+    if (!quiet) setLoading(true);
+    else setRefreshing(true);
+    try {
+      const data = await api(`${API}/contacts${channelFilter ? `?channel=${channelFilter}` : ''}`);
+      setContacts(Array.isArray(data) ? data : []);
+    } catch {
+      // keep the current list on a failed poll
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [channelFilter]);
+
+  const fetchMessages = useCallback(async (key: string) => {
+    const data = await api(`${API}/contacts/${encodeURIComponent(key)}/messages`);
+    setMessages(Array.isArray(data) ? data : []);
+  }, []);
+
+  useEffect(() => { fetchContacts(); }, [fetchContacts]);
+
+  // Poll for new messages every 15s
+  useEffect(() => {
+    const interval = setInterval(() => fetchContacts(true), 15000);
+    return () => clearInterval(interval);
+  }, [fetchContacts]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const selectContact = async (key: string) => {
+    setSelectedKey(key);
+    setReplyChannel('');
+    setLinking(false);
+    setSearchHits(null);
+    await fetchMessages(key);
+    setContacts(prev => prev.map(c => c.key === key
+      ? { ...c, unreadCount: 0, threads: c.threads.map(t => ({ ...t, unreadCount: 0 })) }
+      : c));
+  };
+
+  const runSearch = async () => {
+    const q = search.trim();
+    if (q.length < 2) {
+      setSearchHits(null);
+      return;
+    }
+    try {
+      setSearchHits(await api(`${API}/search?q=${encodeURIComponent(q)}`));
+    } catch {
+      setSearchHits([]);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!replyText.trim() || !replyThread || !selected) return;
+    setSending(true);
+    try {
+      await api(`${API}/threads/${replyThread.channel}/${replyThread.threadId}/reply`, {
+        method: 'POST',
+        body: JSON.stringify({ text: replyText }),
+      });
+      setReplyText('');
+      await fetchMessages(selected.key);
+      fetchContacts(true);
+    } catch (e) {
+      let msg = 'שגיאה בשליחה';
+      try { msg = JSON.parse((e as Error).message)?.error || msg; } catch { /* not a JSON error body */ }
+      alert(msg);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const onLinked = async () => {
+    setLinking(false);
+    await fetchContacts(true);
+    // The contact key changes to customer:<id> once linked — reselect by thread
+    setSelectedKey(null);
+    setMessages([]);
+  };
+
+  const totalUnread = contacts.reduce((sum, c) => sum + c.unreadCount, 0);
+  const q = search.trim().toLowerCase();
+  const visibleContacts = contacts.filter(c =>
+    !q || c.name.toLowerCase().includes(q) || c.customer?.phone?.includes(q) || c.threads.some(t => t.name.toLowerCase().includes(q))
+  );
+
+  return (
+    <div className="flex h-[calc(100vh-64px)] bg-gray-50 overflow-hidden" dir="rtl">
+      {/* Sidebar — contacts list */}
+      <div className="w-80 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <InboxIcon className="w-5 h-5 text-indigo-600" />
+              <h2 className="font-semibold text-gray-800">תיבה מאוחדת</h2>
+              {totalUnread > 0 && (
+                <span className="bg-red-500 text-white text-xs rounded-full px-1.5 py-0.5">{totalUnread}</span>
+              )}
+            </div>
+            <button
+              onClick={() => fetchContacts(true)}
+              className={`p-1.5 rounded hover:bg-gray-100 text-gray-500 transition-colors ${refreshing ? 'animate-spin' : ''}`}
+              title="רענן"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute right-2 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={e => { setSearch(e.target.value); if (!e.target.value.trim()) setSearchHits(null); }}
+              onKeyDown={e => { if (e.key === 'Enter') runSearch(); }}
+              placeholder="חיפוש איש קשר, Enter לחיפוש בהודעות"
+              className="w-full border border-gray-200 rounded-lg pr-8 pl-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-300"
+            />
+          </div>
+          <div className="flex gap-1 text-xs">
+            {(['', 'whatsapp', 'messenger', 'instagram'] as const).map(ch => (
+              <button
+                key={ch || 'all'}
+                onClick={() => setChannelFilter(ch)}
+                className={`px-2 py-1 rounded-full transition-colors ${
+                  channelFilter === ch ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {ch ? CHANNELS[ch].label : 'הכל'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {searchHits ? (
+            <>
+              <div className="flex items-center justify-between px-4 py-2 text-xs text-gray-500 bg-gray-50 border-b border-gray-100">
+                <span>{searchHits.length} הודעות נמצאו</span>
+                <button onClick={() => setSearchHits(null)} className="hover:text-gray-800"><X className="w-3.5 h-3.5" /></button>
+              </div>
+              {searchHits.map(hit => (
+                <div
+                  key={`${hit.channel}:${hit.id}`}
+                  onClick={() => selectContact(hit.contactKey)}
+                  className="p-3 border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+                >
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="text-sm font-medium text-gray-800 truncate">{hit.name}</span>
+                    <ChannelBadge channel={hit.channel} />
+                  </div>
+                  <p className="text-xs text-gray-500 line-clamp-2 mt-0.5">{hit.content}</p>
+                  <p className="text-[10px] text-gray-400 mt-0.5">{formatTime(hit.createdAt)}</p>
+                </div>
+              ))}
+            </>
+          ) : loading ? (
+            <div className="flex items-center justify-center py-12 text-gray-400 text-sm">טוען שיחות...</div>
+          ) : visibleContacts.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-gray-400 gap-2">
+              <InboxIcon className="w-8 h-8 opacity-40" />
+              <span className="text-sm">אין שיחות</span>
+            </div>
+          ) : (
+            visibleContacts.map(contact => (
+              <div
+                key={contact.key}
+                onClick={() => selectContact(contact.key)}
+                className={`p-4 border-b border-gray-100 cursor-pointer hover:bg-gray-50 transition-colors ${
+                  selectedKey === contact.key ? 'bg-indigo-50 border-r-2 border-r-indigo-500' : ''
+                }`}
+              >
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-full bg-indigo-100 flex items-center justify-center flex-shrink-0">
+                    <User className="w-5 h-5 text-indigo-600" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-1">
+                      <span className="font-medium text-gray-800 text-sm truncate">{contact.name}</span>
+                      <span className="text-xs text-gray-400 flex-shrink-0">{formatTime(contact.lastMessageAt)}</span>
+                    </div>
+                    <div className="flex items-center justify-between gap-1 mt-0.5">
+                      <p className="text-xs text-gray-500 truncate">{contact.lastMessagePreview || 'שיחה חדשה'}</p>
+                      {contact.unreadCount > 0 && (
+                        <span className="bg-indigo-500 text-white text-xs rounded-full px-1.5 py-0.5 flex-shrink-0">
+                          {contact.unreadCount}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {Array.from(new Set(contact.threads.map(t => t.channel))).map(ch => <ChannelBadge key={ch} channel={ch} />)}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Main — merged timeline */}
+      {selected ? (
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="bg-white border-b border-gray-200 px-6 py-3 flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="w-9 h-9 rounded-full bg-indigo-100 flex items-center justify-center flex-shrink-0">
+                <User className="w-5 h-5 text-indigo-600" />
+              </div>
+              <div className="min-w-0">
+                <p className="font-medium text-gray-800 truncate">{selected.name}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {selected.customer
+                    ? <Link to={`/customers/${selected.customer.id}`} className="text-indigo-600 hover:underline">כרטיס לקוח</Link>
+                    : 'לא מקושר ללקוח'}
+                </p>
+              </div>
+            </div>
+            {!selected.customer && replyThread && (
+              linking
+                ? <CustomerLinker thread={replyThread} onLinked={onLinked} />
+                : (
+                  <button
+                    onClick={() => setLinking(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  >
+                    <Link2 className="w-3.5 h-3.5" /> קשר ללקוח
+                  </button>
+                )
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {messages.map(msg => (
+              <div key={`${msg.channel}:${msg.id}`} className={`flex ${msg.direction === 'outbound' ? 'justify-start' : 'justify-end'}`}>
+                <div
+                  className={`max-w-[70%] rounded-2xl px-4 py-2 text-sm shadow-sm ${
+                    msg.direction === 'outbound'
+                      ? msg.isAiGenerated ? 'bg-purple-100 text-purple-900' : CHANNELS[msg.channel].bubble
+                      : 'bg-white text-gray-800 border border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-center gap-1 mb-1">
+                    <ChannelBadge channel={msg.channel} />
+                    {msg.isAiGenerated && <span className="flex items-center gap-1 text-xs text-purple-600"><Bot className="w-3 h-3" /> AI</span>}
+                  </div>
+                  <p style={{ direction: 'rtl', unicodeBidi: 'plaintext' }} className="whitespace-pre-wrap">{msg.content}</p>
+                  <p className="text-xs mt-1 opacity-60">{formatTime(msg.createdAt)}</p>
+                </div>
+              </div>
+            ))}
+            <div ref={messagesEndRef} />
+          </div>
+
+          <div className="bg-white border-t border-gray-200 p-4">
+            <div className="flex items-end gap-2">
+              <select
+                value={replyThread ? `${replyThread.channel}:${replyThread.threadId}` : ''}
+                onChange={e => setReplyChannel(e.target.value)}
+                className="border border-gray-200 rounded-xl px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-300"
+                title="ערוץ התשובה"
+              >
+                {selected.threads.map(t => (
+                  <option key={`${t.channel}:${t.threadId}`} value={`${t.channel}:${t.threadId}`}>
+                    {CHANNELS[t.channel].label} · {t.name}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                value={replyText}
+                onChange={e => setReplyText(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); } }}
+                placeholder={replyThread ? `תשובה ב-${CHANNELS[replyThread.channel].label}...` : ''}
+                rows={2}
+                className="flex-1 resize-none border border-gray-200 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-300"
+              />
+              <button
+                onClick={handleSend}
+                disabled={sending || !replyText.trim()}
+                className="w-10 h-10 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 text-white rounded-full flex items-center justify-center flex-shrink-0"
+              >
+                {sending ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-400 gap-3">
+          <InboxIcon className="w-12 h-12 opacity-30" />
+          <p className="text-sm">בחר שיחה מהרשימה</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ import {
   RefreshCcw,
   Calendar,
   Banknote,
+  CalendarRange,
+  Wallet,
 } from 'lucide-react';
 import {
   useInstitutionalOrderById,
@@ -30,6 +32,8 @@ import Modal from '../components/ui/Modal';
 import ConfirmDeleteModal from '../components/ui/ConfirmDeleteModal';
 import FileAttachments from '../components/FileAttachments';
 import OrderForm from '../components/OrderForm';
+import OrderBillingPlanPanel from '../components/OrderBillingPlanPanel';
+import OrderBudgetPanel from '../components/OrderBudgetPanel';
 
 const statusLabels: Record<string, string> = {
   draft: 'טיוטה',
@@ -314,6 +318,26 @@ export default function InstitutionalOrderDetail() {
             </div>
           </div>
 
+          {/* Budget consumption */}
+          <div className="card lg:col-span-3">
+            <div className="card-header">
+              <h2 className="font-semibold flex items-center gap-2"><Wallet size={18} />ניצול ההזמנה</h2>
+            </div>
+            <div className="card-body">
+              <OrderBudgetPanel orderId={order.id} />
+            </div>
+          </div>
+
+          {/* Billing plan */}
+          <div className="card lg:col-span-3">
+            <div className="card-header">
+              <h2 className="font-semibold flex items-center gap-2"><CalendarRange size={18} />תוכנית חיוב</h2>
+            </div>
+            <div className="card-body">
+              <OrderBillingPlanPanel orderId={order.id} />
+            </div>
+          </div>
+
           {/* Notes */}
           {order.notes && (
             <div className="card lg:col-span-3">
@@ -17,7 +17,8 @@ import {
   ExternalLink,
   CalendarX,
   Ban,
-  BarChart3
+  BarChart3,
+  BookOpen
 } from 'lucide-react';
 import Loading from '../components/ui/Loading';
 import type { MeetingStatus } from '../types';
@@ -50,6 +51,13 @@ interface MeetingData {
     branchName?: string;
     activityType?: string;
     zoomJoinUrl?: string;
+    lesson?: {
+      lessonNumber: number;
+      title: string;
+      objectives: string | null;
+      materialLinks: string[];
+      durationMinutes: number | null;
+    } | null;
   };
   instructor: {
     id: string;
@@ -105,7 +113,8 @@ export default function InstructorMagicMeeting() {
         
         setData(result);
         setStatus(result.meeting.status);
-        setTopic(result.meeting.topic || '');
+        // The curriculum lesson is the default answer to "what did you learn today"
+        setTopic(result.meeting.topic || result.meeting.lesson?.title || '');
         setAttendance(result.attendance);
       } catch (err) {
         setError('שגיאה בחיבור לשרת');
@@ -296,6 +305,43 @@ export default function InstructorMagicMeeting() {
           </div>
         )}
 
+        {meeting.lesson && (
+          <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-indigo-50 text-indigo-600 flex items-center justify-center flex-shrink-0">
+                <BookOpen size={20} />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-medium text-gray-500">
+                  נושא השיעור לפי התוכנית (שיעור {meeting.lesson.lessonNumber})
+                  {meeting.lesson.durationMinutes && ` · ${meeting.lesson.durationMinutes} דק'`}
+                </p>
+                <p className="text-lg font-bold text-gray-900">{meeting.lesson.title}</p>
+              </div>
+            </div>
+            {meeting.lesson.objectives && (
+              <p className="text-sm text-gray-600 mt-3 whitespace-pre-line">{meeting.lesson.objectives}</p>
+            )}
+            {meeting.lesson.materialLinks.length > 0 && (
+              <div className="mt-3 space-y-1">
+                {meeting.lesson.materialLinks.map((link) => (
+                  <a
+                    key={link}
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-sm text-blue-600 hover:underline break-all"
+                    dir="ltr"
+                  >
+                    <ExternalLink size={14} className="flex-shrink-0" />
+                    {link}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Status Selection */}
         <div>
           <h2 className="text-sm font-medium text-gray-700 mb-3">סטטוס השיעור</h2>
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
-import { Plus, UserCheck, Phone, Mail, MapPin, RefreshCcw, Calendar, Send, Copy, Check, MessageCircle, Search, KeyRound, Trash2, AlertTriangle, Edit, CheckSquare, Paperclip, LayoutGrid, List, ChevronUp, ChevronDown, ChevronsUpDown, Landmark } from 'lucide-react';
+import { Plus, UserCheck, Phone, Mail, MapPin, RefreshCcw, Calendar, Send, Copy, Check, MessageCircle, Search, KeyRound, Trash2, AlertTriangle, Edit, CheckSquare, Paperclip, LayoutGrid, List, ChevronUp, ChevronDown, ChevronsUpDown, Landmark, CalendarClock } from 'lucide-react';
 import { useInstructors, useCreateInstructor, useUpdateInstructor, useDeleteInstructor, useSendInstructorInvite, useResetInstructorPassword, useBulkUpdateInstructors } from '../hooks/useApi';
 import PageHeader from '../components/ui/PageHeader';
 import FileAttachments from '../components/FileAttachments';
+import InstructorAvailabilityEditor from '../components/InstructorAvailabilityEditor';
 import { SkeletonCardGrid } from '../components/ui/Loading';
 import EmptyState from '../components/ui/EmptyState';
 import Modal from '../components/ui/Modal';
@@ -15,7 +16,7 @@ export default function Instructors() {
   const [searchParams, setSearchParams] = useSearchParams();
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingInstructor, setEditingInstructor] = useState<Instructor | null>(null);
-  const [editingInstructorInitialTab, setEditingInstructorInitialTab] = useState<'details' | 'files'>('details');
+  const [editingInstructorInitialTab, setEditingInstructorInitialTab] = useState<'details' | 'files' | 'availability'>('details');
   const [inviteModal, setInviteModal] = useState<{ instructor: Instructor; url: string } | null>(null);
   const [resetPasswordModal, setResetPasswordModal] = useState<{ instructor: Instructor; url: string } | null>(null);
   const [messageInstructor, setMessageInstructor] = useState<Instructor | null>(null);
@@ -995,14 +996,14 @@ function ResetPasswordModalContent({ instructor, resetUrl, onClose }: ResetPassw
 // Instructor Form
 interface InstructorFormProps {
   instructor?: Instructor;
-  initialTab?: 'details' | 'files';
+  initialTab?: 'details' | 'files' | 'availability';
   onSubmit: (data: Partial<Instructor>) => void;
   onCancel: () => void;
   isLoading?: boolean;
 }
 
 function InstructorForm({ instructor, initialTab = 'details', onSubmit, onCancel, isLoading }: InstructorFormProps) {
-  const [activeTab, setActiveTab] = useState<'details' | 'files'>(instructor?.id ? initialTab : 'details');
+  const [activeTab, setActiveTab] = useState<'details' | 'files' | 'availability'>(instructor?.id ? initialTab : 'details');
 
   // Sync with initialTab when modal is reopened with different tab
   useEffect(() => {
@@ -1061,6 +1062,24 @@ function InstructorForm({ instructor, initialTab = 'details', onSubmit, onCancel
             <Paperclip size={14} />
             מסמכים
           </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab('availability')}
+            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors -mb-px flex items-center gap-1 ${activeTab === 'availability' ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            <CalendarClock size={14} />
+            זמינות
+          </button>
+        </div>
+      )}
+
+      {/* Availability Tab */}
+      {instructor?.id && activeTab === 'availability' && (
+        <div className="p-6">
+          <InstructorAvailabilityEditor instructorId={instructor.id} />
+          <div className="flex justify-end pt-4 border-t mt-4">
+            <button type="button" onClick={onCancel} className="btn btn-secondary">סגור</button>
+          </div>
         </div>
       )}
 
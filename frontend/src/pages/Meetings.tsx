@@ -32,6 +32,7 @@ import ViewSelector from '../components/ViewSelector';
 import PendingMeetingRequests from '../components/PendingMeetingRequests';
 import { meetingStatusHebrew } from '../types';
 import type { Meeting, MeetingStatus } from '../types';
+import { saveWithConflictCheck } from '../utils/instructorConflicts';
 
 export default function Meetings() {
   const { user } = useAuth();
@@ -376,7 +377,8 @@ export default function Meetings() {
 
   // Handle edit meeting save
   const handleEditSave = async (id: string, data: Partial<Meeting>) => {
-    await updateMeeting.mutateAsync({ id, data });
+    const updated = await saveWithConflictCheck((allowConflicts) => updateMeeting.mutateAsync({ id, data: { ...data, allowConflicts } }));
+    if (!updated) return;
     setEditingMeeting(null);
     refetch();
   };
@@ -410,10 +412,12 @@ export default function Meetings() {
     if (selectedIds.size === 0) return;
 
     try {
-      const result = await bulkUpdateMeetings.mutateAsync({
+      const result = await saveWithConflictCheck((allowConflicts) => bulkUpdateMeetings.mutateAsync({
         ids: Array.from(selectedIds),
         data,
-      });
+        allowConflicts,
+      }));
+      if (!result) return;
 
       if (result.errors && result.errors.length > 0) {
         alert(`עודכנו ${result.updated} פגישות. שגיאות: ${result.errors.join(', ')}`);
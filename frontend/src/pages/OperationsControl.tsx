@@ -28,7 +28,8 @@ type AlertType =
   | 'student_absence_risk'
   | 'instructor_change_risk'
   | 'cycle_churn_risk'
-  | 'low_enrollment';
+  | 'low_enrollment'
+  | 'instructor_conflict';
 type FreshnessStatus = 'fresh' | 'stale' | 'error';
 
 interface OperationsAlert {
@@ -136,6 +137,7 @@ const typeLabels: Record<AlertType, string> = {
   instructor_change_risk: 'ביטולי/דחיות מדריך',
   cycle_churn_risk: 'סיכון נטישה',
   low_enrollment: 'מתחת לסף מינימום',
+  instructor_conflict: 'התנגשות בלוח מדריך',
 };
 
 const statusLabels: Record<string, string> = {
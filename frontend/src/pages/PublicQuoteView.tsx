@@ -1,6 +1,7 @@
 import { useParams } from 'react-router-dom';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import axios from 'axios';
+import SignaturePad from '../components/SignaturePad';
 
 interface QuoteItem {
   id: string;
@@ -20,6 +21,7 @@ interface PublicQuote {
   contactName: string;
   contactPhone?: string;
   contactEmail?: string;
+  contactRole?: string;
   items: QuoteItem[];
   discount: number;
   totalAmount: number;
@@ -33,11 +35,24 @@ interface PublicQuote {
   content?: string;
   notes?: string;
   status: string;
+  validUntil?: string | null;
   videoPath?: string;
   createdAt: string;
+  versionNumber: number | null;
+  signature: { signerName: string; signerRole: string | null; signedAt: string } | null;
 }
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
+// Seconds of playback after which the marketing video counts as watched
+const VIDEO_WATCHED_SECONDS = 10;
+
+// Staff previewing the link while logged into the CRM send their token so the server can ignore them
+function postQuoteEvent(id: string, type: 'view' | 'video') {
+  const token = localStorage.getItem('accessToken');
+  axios
+    .post(`${API_BASE}/public/quotes/${id}/events`, { type }, token ? { headers: { Authorization: `Bearer ${token}` } } : undefined)
+    .catch(() => {});
+}
 
 export default function PublicQuoteView() {
   const { id } = useParams<{ id: string }>();
@@ -53,12 +68,40 @@ export default function PublicQuoteView() {
   const [responseStatus, setResponseStatus] = useState<'accepted' | 'rejected' | null>(null);
   const [responseError, setResponseError] = useState<string | null>(null);
 
+  // E-signature captured when accepting
+  const [showSignForm, setShowSignForm] = useState(false);
+  const [signerName, setSignerName] = useState('');
+  const [signerRole, setSignerRole] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+
+  // Engagement reported back to the salesperson — the video counts once per page load.
+  // It autoplays muted, so playback only counts from the moment the viewer unmutes it or
+  // resumes it after pausing.
+  const videoReported = useRef(false);
+  const videoEngagedAt = useRef<number | null>(null);
+  const videoPaused = useRef(false);
+  const vimeoSeconds = useRef(0);
+
+  const markVideoEngaged = useCallback((seconds: number) => {
+    if (videoEngagedAt.current === null) videoEngagedAt.current = seconds;
+  }, []);
+
+  const reportVideoProgress = useCallback((seconds: number, duration?: number) => {
+    if (!id || videoReported.current || videoEngagedAt.current === null) return;
+    const threshold = duration ? Math.min(VIDEO_WATCHED_SECONDS, duration * 0.9) : VIDEO_WATCHED_SECONDS;
+    if (seconds - videoEngagedAt.current < threshold) return;
+    videoReported.current = true;
+    postQuoteEvent(id, 'video');
+  }, [id]);
+
   useEffect(() => {
     if (!id) return;
     axios
       .get(`${API_BASE}/public/quotes/${id}`)
       .then((res) => {
         setQuote(res.data);
+        setSignerName(res.data.contactName || '');
+        setSignerRole(res.data.contactRole || '');
         if (res.data.videoPath) {
           if (res.data.videoPath.startsWith('https://player.vimeo.com/')) {
             setVimeoUrl(res.data.videoPath);
@@ -70,6 +113,11 @@ export default function PublicQuoteView() {
         } else if (res.data.status === 'rejected') {
           setResponseStatus('rejected');
         }
+        // PDF/print renders are not the client looking at the quote
+        const params = new URLSearchParams(window.location.search);
+        if (!params.has('pdf') && !params.has('print')) {
+          postQuoteEvent(id, 'view');
+        }
       })
       .catch(() => setError(true))
       .finally(() => setLoading(false));
@@ -87,6 +135,34 @@ export default function PublicQuoteView() {
     return () => window.clearTimeout(timeout);
   }, [quote]);
 
+  // The Vimeo player reports playback over postMessage once we subscribe to its events
+  useEffect(() => {
+    if (!vimeoUrl) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== 'https://player.vimeo.com') return;
+      let data = event.data;
+      if (typeof data === 'string') {
+        try {
+          data = JSON.parse(data);
+        } catch {
+          return;
+        }
+      }
+      if (data?.event === 'timeupdate' && data.data) {
+        vimeoSeconds.current = Number(data.data.seconds);
+        reportVideoProgress(vimeoSeconds.current, Number(data.data.duration) || undefined);
+      } else if (data?.event === 'volumechange' && data.data) {
+        if (Number(data.data.volume) > 0 && data.data.muted !== true) markVideoEngaged(vimeoSeconds.current);
+      } else if (data?.event === 'pause') {
+        videoPaused.current = true;
+      } else if (data?.event === 'play' && videoPaused.current) {
+        markVideoEngaged(vimeoSeconds.current);
+      }
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [vimeoUrl, reportVideoProgress, markVideoEngaged]);
+
   const handleResponse = async (action: 'accept' | 'reject') => {
     if (!id) return;
     setSubmitting(true);
@@ -95,6 +171,12 @@ export default function PublicQuoteView() {
       await axios.post(`${API_BASE}/public/quotes/${id}/respond`, {
         action,
         clientNotes: clientNotes.trim() || undefined,
+        ...(action === 'accept' && {
+          versionNumber: quote?.versionNumber ?? null,
+          signerName: signerName.trim(),
+          signerRole: signerRole.trim() || null,
+          signature,
+        }),
       });
       setResponseStatus(action === 'accept' ? 'accepted' : 'rejected');
     } catch (err: any) {
@@ -198,6 +280,12 @@ export default function PublicQuoteView() {
                   frameBorder="0"
                   allow="autoplay; fullscreen; picture-in-picture"
                   allowFullScreen
+                  onLoad={(e) => {
+                    const player = e.currentTarget.contentWindow;
+                    for (const value of ['timeupdate', 'volumechange', 'pause', 'play']) {
+                      player?.postMessage(JSON.stringify({ method: 'addEventListener', value }), 'https://player.vimeo.com');
+                    }
+                  }}
                 />
               </div>
             ) : (
@@ -208,6 +296,14 @@ export default function PublicQuoteView() {
                 muted
                 className="w-full"
                 style={{ maxHeight: 540 }}
+                onVolumeChange={(e) => {
+                  if (!e.currentTarget.muted && e.currentTarget.volume > 0) markVideoEngaged(e.currentTarget.currentTime);
+                }}
+                onPause={() => { videoPaused.current = true; }}
+                onPlay={(e) => {
+                  if (videoPaused.current) markVideoEngaged(e.currentTarget.currentTime);
+                }}
+                onTimeUpdate={(e) => reportVideoProgress(e.currentTarget.currentTime, e.currentTarget.duration || undefined)}
               />
             )}
           </div>
@@ -378,7 +474,16 @@ export default function PublicQuoteView() {
 
       {/* CTA / Response Section */}
       <section className="no-print max-w-5xl mx-auto px-4 pb-12 md:pb-16">
-        {alreadyResponded ? (
+        {quote.status === 'expired' ? (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 p-10 md:p-16 text-center">
+            <div className="text-6xl mb-4">⏳</div>
+            <h3 className="text-3xl md:text-4xl font-extrabold text-gray-800 mb-4">תוקף ההצעה פג</h3>
+            <p className="text-lg text-gray-600">
+              {quote.validUntil && `ההצעה הייתה בתוקף עד ${new Date(quote.validUntil).toLocaleDateString('he-IL')}. `}
+              נשמח לחדש אותה עבורכם — צרו איתנו קשר.
+            </p>
+          </div>
+        ) : alreadyResponded ? (
           <div className={`rounded-2xl p-10 md:p-16 text-center shadow-xl ${
             responseStatus === 'accepted'
               ? 'bg-gradient-to-bl from-green-500 to-emerald-600 text-white'
@@ -389,6 +494,13 @@ export default function PublicQuoteView() {
                 <div className="text-6xl mb-4">✅</div>
                 <h3 className="text-3xl md:text-4xl font-extrabold mb-4">ההצעה אושרה!</h3>
                 <p className="text-lg opacity-90">תודה רבה! ניצור אתכם קשר בהקדם להמשך התהליך.</p>
+                {quote.signature && (
+                  <p className="text-sm opacity-80 mt-4">
+                    נחתמה ע״י {quote.signature.signerName}
+                    {quote.signature.signerRole && ` (${quote.signature.signerRole})`}
+                    {' · '}{new Date(quote.signature.signedAt).toLocaleString('he-IL')}
+                  </p>
+                )}
               </>
             ) : (
               <>
@@ -423,14 +535,46 @@ export default function PublicQuoteView() {
               </div>
             )}
 
+            {/* Signature — accepting signs the quote as shown on this page */}
+            {showSignForm && (
+              <div className="mb-8 p-6 border border-green-200 bg-green-50/40 rounded-xl space-y-4">
+                <h4 className="text-lg font-bold text-gray-800">חתימה על ההצעה</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">שם מלא</label>
+                    <input
+                      value={signerName}
+                      onChange={(e) => setSignerName(e.target.value)}
+                      className="w-full border border-gray-300 rounded-xl p-3"
+                      disabled={submitting}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">תפקיד</label>
+                    <input
+                      value={signerRole}
+                      onChange={(e) => setSignerRole(e.target.value)}
+                      className="w-full border border-gray-300 rounded-xl p-3"
+                      disabled={submitting}
+                    />
+                  </div>
+                </div>
+                <SignaturePad onChange={setSignature} disabled={submitting} />
+                <p className="text-xs text-gray-500">
+                  בחתימה אני מאשר/ת את הצעת המחיר {quote.quoteNumber}
+                  {quote.versionNumber && ` (גרסה ${quote.versionNumber})`} כפי שהיא מוצגת בעמוד זה. מועד החתימה וכתובת ה-IP נשמרים.
+                </p>
+              </div>
+            )}
+
             {/* Action buttons */}
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <button
-                onClick={() => handleResponse('accept')}
-                disabled={submitting}
+                onClick={() => (showSignForm ? handleResponse('accept') : setShowSignForm(true))}
+                disabled={submitting || (showSignForm && (signerName.trim().length < 2 || !signature))}
                 className="bg-gradient-to-l from-green-500 to-emerald-600 text-white font-bold text-xl px-10 py-4 rounded-xl shadow-lg hover:shadow-xl hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {submitting ? '⏳ שולח...' : '✅ אשרו את ההצעה'}
+                {submitting ? '⏳ שולח...' : showSignForm ? '✍️ חתמו ואשרו' : '✅ אשרו את ההצעה'}
               </button>
               <button
                 onClick={() => {
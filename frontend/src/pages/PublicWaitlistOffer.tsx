@@ -0,0 +1,220 @@
+import { useParams } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import axios from 'axios';
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+interface WaitlistOfferData {
+  customerName: string;
+  childName: string | null;
+  courseName: string;
+  cycleName: string;
+  status: 'waiting' | 'offered' | 'placed' | 'expired' | 'declined' | 'removed';
+  offerExpiresAt: string | null;
+  expired: boolean;
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  return (error as { response?: { data?: { message?: string } } })?.response?.data?.message || fallback;
+}
+
+export default function PublicWaitlistOffer() {
+  const { token } = useParams<{ token: string }>();
+  const [data, setData] = useState<WaitlistOfferData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [answer, setAnswer] = useState<'placed' | 'declined' | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    axios
+      .get(`${API_BASE}/public/waitlist/${token}`)
+      .then((res) => {
+        setData(res.data);
+        setLoading(false);
+      })
+      .catch(() => {
+        setError('ההצעה לא נמצאה');
+        setLoading(false);
+      });
+  }, [token]);
+
+  const respond = async (accept: boolean) => {
+    if (!accept && !window.confirm('לוותר על המקום? הוא יוצע למשפחה הבאה ברשימת ההמתנה.')) return;
+    setSubmitting(true);
+    try {
+      await axios.post(`${API_BASE}/public/waitlist/${token}`, { accept });
+      setAnswer(accept ? 'placed' : 'declined');
+    } catch (err) {
+      alert(errorMessage(err, 'שגיאה בשליחת התשובה'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div style={styles.container}>
+        <div style={styles.card}>
+          <div style={styles.spinner} />
+          <p style={{ textAlign: 'center', color: '#6b7280' }}>טוען...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Message icon="❌" title={error || 'שגיאה'} color="#dc2626" />
+    );
+  }
+
+  const status = answer ?? data.status;
+
+  if (status === 'placed') {
+    return (
+      <Message
+        icon="🎉"
+        title="המקום שוריין!"
+        text={`${data.childName ?? ''} רשום/ה ל${data.courseName}. צוות Hai.Tech יצור איתכם קשר להשלמת ההרשמה.`}
+      />
+    );
+  }
+
+  if (status === 'declined' || status === 'removed') {
+    return <Message icon="👋" title="תודה על העדכון" text="המקום יוצע למשפחה הבאה ברשימת ההמתנה." />;
+  }
+
+  if (status !== 'offered' || data.expired) {
+    return (
+      <Message
+        icon="⌛"
+        title="תוקף ההצעה פג"
+        text="המקום הוצע למשפחה הבאה ברשימת ההמתנה. לשאלות ניתן לפנות לצוות Hai.Tech."
+        color="#92400e"
+      />
+    );
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <div style={styles.header}>
+          <h1 style={{ color: '#fff', margin: 0, fontSize: 24 }}>🎯 Hai.Tech</h1>
+          <p style={{ color: 'rgba(255,255,255,0.9)', margin: '8px 0 0', fontSize: 14 }}>התפנה מקום מרשימת ההמתנה</p>
+        </div>
+
+        <div style={{ padding: '30px 24px' }}>
+          <p style={{ margin: '0 0 16px', color: '#1f2937', fontSize: 16 }}>שלום {data.customerName},</p>
+          <div style={styles.infoBox}>
+            <p style={{ margin: '0 0 4px', fontWeight: 600, color: '#1f2937' }}>{data.childName}</p>
+            <p style={{ margin: 0, color: '#6b7280', fontSize: 14 }}>
+              קורס: {data.courseName} ({data.cycleName})
+            </p>
+          </div>
+
+          {data.offerExpiresAt && (
+            <p style={{ color: '#92400e', fontSize: 14, margin: '0 0 24px' }}>
+              המקום שמור עבורכם עד {new Date(data.offerExpiresAt).toLocaleString('he-IL', { day: 'numeric', month: 'numeric', hour: '2-digit', minute: '2-digit' })}
+            </p>
+          )}
+
+          <button
+            type="button"
+            onClick={() => respond(true)}
+            disabled={submitting}
+            style={{ ...styles.acceptBtn, opacity: submitting ? 0.6 : 1, cursor: submitting ? 'not-allowed' : 'pointer' }}
+          >
+            {submitting ? 'שולח...' : 'שריון המקום'}
+          </button>
+          <button
+            type="button"
+            onClick={() => respond(false)}
+            disabled={submitting}
+            style={{ ...styles.declineBtn, cursor: submitting ? 'not-allowed' : 'pointer' }}
+          >
+            לא מעוניינים, תודה
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Message({ icon, title, text, color = '#1f2937' }: { icon: string; title: string; text?: string; color?: string }) {
+  return (
+    <div style={styles.container}>
+      <div style={styles.card}>
+        <div style={{ textAlign: 'center', padding: '40px 20px' }}>
+          <div style={{ fontSize: 48, marginBottom: 16 }}>{icon}</div>
+          <h2 style={{ color, marginBottom: 12 }}>{title}</h2>
+          {text && <p style={{ color: '#6b7280', lineHeight: 1.6 }}>{text}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    minHeight: '100vh',
+    backgroundColor: '#f5f5f5',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    direction: 'rtl',
+    fontFamily: "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif",
+  },
+  card: {
+    maxWidth: 500,
+    width: '100%',
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    overflow: 'hidden',
+    boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+  },
+  header: {
+    background: 'linear-gradient(135deg, #2563eb 0%, #1d4ed8 100%)',
+    padding: '30px 24px',
+    textAlign: 'center' as const,
+  },
+  infoBox: {
+    backgroundColor: '#f0f9ff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  acceptBtn: {
+    width: '100%',
+    padding: '14px 24px',
+    background: 'linear-gradient(135deg, #16a34a 0%, #15803d 100%)',
+    color: '#fff',
+    border: 'none',
+    borderRadius: 8,
+    fontSize: 16,
+    fontWeight: 600,
+    fontFamily: 'inherit',
+    marginBottom: 12,
+  },
+  declineBtn: {
+    width: '100%',
+    padding: '12px 24px',
+    background: '#fff',
+    color: '#6b7280',
+    border: '1px solid #d1d5db',
+    borderRadius: 8,
+    fontSize: 14,
+    fontFamily: 'inherit',
+  },
+  spinner: {
+    width: 40,
+    height: 40,
+    border: '4px solid #e5e7eb',
+    borderTop: '4px solid #2563eb',
+    borderRadius: '50%',
+    margin: '0 auto 16px',
+    animation: 'spin 1s linear infinite',
+  },
+};
@@ -20,6 +20,7 @@ import {
   Film,
   Download,
   Paperclip,
+  History,
 } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { quotesApi, type Quote } from '../api/quotes';
@@ -29,12 +30,14 @@ import EmptyState from '../components/ui/EmptyState';
 import Modal from '../components/ui/Modal';
 import FileAttachments from '../components/FileAttachments';
 import OrderPreviewModal from '../components/OrderPreviewModal';
+import QuoteVersionsPanel from '../components/QuoteVersionsPanel';
 
 const statusHebrew: Record<string, string> = {
   draft: 'טיוטה',
   sent: 'נשלחה',
   accepted: 'אושרה',
   rejected: 'נדחתה',
+  expired: 'פג תוקף',
   converted: 'הומרה להזמנה',
 };
 
@@ -43,6 +46,7 @@ const statusBadgeClass: Record<string, string> = {
   sent: 'badge-info',
   accepted: 'badge-success',
   rejected: 'badge-danger',
+  expired: 'badge-gray',
   converted: 'badge-success',
 };
 
@@ -147,7 +151,11 @@ export default function QuoteDetail() {
 
   const sendQuote = useMutation({
     mutationFn: () => quotesApi.send(id!),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['quote', id] }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quote', id] });
+      queryClient.invalidateQueries({ queryKey: ['quote-versions', id] });
+    },
+    onError: (err: { response?: { data?: { error?: string } } }) => alert(err.response?.data?.error || 'שגיאה בשליחת ההצעה'),
   });
 
   const acceptQuote = useMutation({
@@ -241,10 +249,10 @@ export default function QuoteDetail() {
                 <button
                   onClick={() => {
                     if (quote.contactEmail) {
-                      sendQuote.mutateAsync();
+                      sendQuote.mutate();
                     } else {
                       if (confirm('לא הוגדר מייל לאיש הקשר. ההצעה תסומן כנשלחה ללא שליחת מייל. להמשיך?')) {
-                        sendQuote.mutateAsync();
+                        sendQuote.mutate();
                       }
                     }
                   }}
@@ -640,6 +648,35 @@ export default function QuoteDetail() {
               </div>
             )}
 
+            {/* Versions sent to the client */}
+            <div className="card">
+              <div className="card-header">
+                <h2 className="font-semibold flex items-center gap-2">
+                  <History size={18} />
+                  גרסאות וחתימה
+                </h2>
+              </div>
+              <div className="card-body">
+                {quote.status !== 'draft' && (
+                  <div className="mb-4 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                    {quote.validUntil && (
+                      <span>בתוקף עד {new Date(quote.validUntil).toLocaleDateString('he-IL', { timeZone: 'UTC' })}</span>
+                    )}
+                    {quote.firstViewedAt ? (
+                      <span>
+                        נצפתה {quote.viewCount} פעמים · לראשונה {new Date(quote.firstViewedAt).toLocaleString('he-IL')}
+                        {quote.lastViewedAt && ` · לאחרונה ${new Date(quote.lastViewedAt).toLocaleString('he-IL')}`}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">הלקוח עוד לא צפה בהצעה</span>
+                    )}
+                    {quote.videoWatchedAt && <span className="text-green-700">צפה בסרטון</span>}
+                  </div>
+                )}
+                <QuoteVersionsPanel quoteId={quote.id} />
+              </div>
+            </div>
+
             {/* File Attachments */}
             <div className="card">
               <div className="card-header">
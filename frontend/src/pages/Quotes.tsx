@@ -1,12 +1,15 @@
 import { useState, useMemo } from 'react';
 import { Link, useSearchParams, useNavigate } from 'react-router-dom';
-import { Plus, Search, X, FileText, Filter, LayoutGrid, List, ChevronUp, ChevronDown, ChevronsUpDown, Edit2, Trash2, CheckSquare, Square, Download } from 'lucide-react';
+import { Plus, Search, X, FileText, Filter, LayoutGrid, List, ChevronUp, ChevronDown, ChevronsUpDown, Edit2, Trash2, CheckSquare, Square, Download, BarChart3 } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { quotesApi, type Quote } from '../api/quotes';
 import PageHeader from '../components/ui/PageHeader';
 import { SkeletonTable } from '../components/ui/Loading';
 import EmptyState from '../components/ui/EmptyState';
 import ConfirmDeleteModal from '../components/ui/ConfirmDeleteModal';
+import Modal from '../components/ui/Modal';
+import QuotePipelinePanel from '../components/QuotePipelinePanel';
+import { useAuth } from '../context/AuthContext';
 
 const statusTabs = [
   { value: '', label: 'הכל' },
@@ -14,6 +17,7 @@ const statusTabs = [
   { value: 'sent', label: 'נשלחה' },
   { value: 'accepted', label: 'אושרה' },
   { value: 'rejected', label: 'נדחתה' },
+  { value: 'expired', label: 'פג תוקף' },
 ];
 
 const statusHebrew: Record<string, string> = {
@@ -21,6 +25,7 @@ const statusHebrew: Record<string, string> = {
   sent: 'נשלחה',
   accepted: 'אושרה',
   rejected: 'נדחתה',
+  expired: 'פג תוקף',
 };
 
 const statusBadgeClass: Record<string, string> = {
@@ -28,6 +33,7 @@ const statusBadgeClass: Record<string, string> = {
   sent: 'badge-info',
   accepted: 'badge-success',
   rejected: 'badge-danger',
+  expired: 'badge-gray',
 };
 
 export default function Quotes() {
@@ -35,6 +41,9 @@ export default function Quotes() {
   const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
   const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [showPipeline, setShowPipeline] = useState(false);
+  const { user } = useAuth();
+  const canViewPipeline = user?.role === 'admin' || user?.role === 'manager';
   const [deleteConfirm, setDeleteConfirm] = useState<Quote | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
@@ -131,13 +140,25 @@ export default function Quotes() {
         title="הצעות מחיר"
         subtitle={`${quotes?.length || 0} הצעות`}
         actions={
-          <button onClick={() => navigate('/quotes/new')} className="btn btn-primary">
-            <Plus size={18} />
-            הצעה חדשה
-          </button>
+          <div className="flex gap-2">
+            {canViewPipeline && (
+              <button onClick={() => setShowPipeline(true)} className="btn btn-secondary">
+                <BarChart3 size={18} />
+                פייפליין
+              </button>
+            )}
+            <button onClick={() => navigate('/quotes/new')} className="btn btn-primary">
+              <Plus size={18} />
+              הצעה חדשה
+            </button>
+          </div>
         }
       />
 
+      <Modal isOpen={showPipeline} onClose={() => setShowPipeline(false)} title="פייפליין הצעות מחיר" size="xl">
+        <QuotePipelinePanel />
+      </Modal>
+
       <div className="flex-1 p-6 overflow-auto">
         {/* Bulk Actions Bar */}
         {selectedIds.size > 0 && (
@@ -29,6 +29,7 @@ import Loading from '../components/ui/Loading';
 import EmptyState from '../components/ui/EmptyState';
 import SearchableSelect from '../components/ui/SearchableSelect';
 import FileAttachments from '../components/FileAttachments';
+import ParentRequestActions from '../components/ParentRequestActions';
 import type { Task, TaskPriority, TaskStatus } from '../types';
 
 const STATUSES: Array<{ value: TaskStatus; label: string; tone: string }> = [
@@ -138,6 +139,7 @@ function TaskCard({
       </div>
 
       <div className="mt-4 pt-3 border-t border-gray-100 space-y-3">
+        {task.parentRequest && <ParentRequestActions request={task.parentRequest} />}
         <div className="flex items-center gap-2 min-w-0 text-sm text-gray-700">
           <div className="w-7 h-7 rounded-full bg-blue-50 flex items-center justify-center text-blue-500">
             <UserRound size={15} />
@@ -555,6 +557,7 @@ export default function Tasks() {
                       <span className="font-medium text-gray-900">{task.title}</span>
                       {task.description && <p className="text-xs text-gray-500">{task.description}</p>}
                     </button>
+                    {task.parentRequest && <div className="mt-2"><ParentRequestActions request={task.parentRequest} /></div>}
                   </td>
                   <td>{STATUSES.find((status) => status.value === task.status)?.label}</td>
                   <td>
@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { MessageCircle, Send, Bot, User, RefreshCw, Check, CheckCheck, Clock, PhoneCall, X, FileText, ChevronDown, ChevronUp, ChevronRight, Search, PenSquare, Plus, CheckCircle, AlertCircle, CreditCard, Settings, Save } from 'lucide-react';
+import { MessageCircle, Send, Bot, User, RefreshCw, Check, CheckCheck, Clock, PhoneCall, X, FileText, ChevronDown, ChevronUp, ChevronRight, Search, PenSquare, Plus, CheckCircle, AlertCircle, CreditCard, Settings, Save, Zap } from 'lucide-react';
 import WaSendModal from '../components/WaSendModal';
 import WooPayModal from '../components/WooPayModal';
+import WaConversationTools from '../components/WaConversationTools';
+import WaCannedReplies from '../components/WaCannedReplies';
 import { useAuth } from '../context/AuthContext';
 
 // ─── Notification sound — singleton AudioContext ──────────────────────────────
@@ -69,6 +71,15 @@ interface WaConversation {
   aiEnabled: boolean;
   businessPhone?: string;
   phoneNumberId?: string;
+  assignedToId?: string | null;
+  assignedTo?: { id: string; name: string } | null;
+  tags?: string[];
+  sla?: {
+    firstResponseDueAt: string | null;
+    firstResponseBreached: boolean;
+    resolutionDueAt: string | null;
+    resolutionBreached: boolean;
+  };
   createdAt: string;
 }
 
@@ -159,6 +170,8 @@ export default function WhatsAppInbox() {
   const [selected, setSelected] = useState<WaConversation | null>(null);
   const [messages, setMessages] = useState<WaMessage[]>([]);
   const [channelFilter, setChannelFilter] = useState<'all' | 'meta' | 'green'>('all');
+  const [assigneeFilter, setAssigneeFilter] = useState<'all' | 'me' | 'unassigned'>('all');
+  const [showCannedReplies, setShowCannedReplies] = useState(false);
   const [input, setInput] = useState('');
   const [sending, setSending] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -230,14 +243,17 @@ export default function WhatsAppInbox() {
   // Load conversations
   const loadConversations = useCallback(async () => {
     try {
-      const data = await api('/conversations');
+      const data = await api(assigneeFilter === 'all' ? '/conversations' : `/conversations?assignee=${assigneeFilter}`);
       setConversations(data);
     } catch (e) {
       console.error('Failed to load conversations', e);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [assigneeFilter]);
+  // SSE handlers are bound once — reach the current filter through a ref
+  const loadConversationsRef = useRef(loadConversations);
+  useEffect(() => { loadConversationsRef.current = loadConversations; }, [loadConversations]);
 
   // Load messages for selected conversation
   const loadMessages = useCallback(async (convId: string) => {
@@ -277,7 +293,7 @@ export default function WhatsAppInbox() {
         const exists = prev.some(c => c.id === conversationId);
         if (!exists) {
           // New conversation arrived — reload full list
-          loadConversations();
+          loadConversationsRef.current();
           return prev;
         }
         const updated = prev.map(c => {
@@ -320,6 +336,11 @@ export default function WhatsAppInbox() {
       setCallbackPending(prev => prev + 1);
     });
 
+    // SLA flags are computed server-side — refresh the list to show the breach
+    es.addEventListener('sla_breached', () => {
+      loadConversationsRef.current();
+    });
+
     return () => es.close();
   }, []);
 
@@ -1355,6 +1376,19 @@ export default function WhatsAppInbox() {
             </button>
           </div>
         </div>
+        <div className="px-4 py-2 border-b border-gray-100 flex items-center gap-1.5">
+          {([['all', 'הכל'], ['me', 'שלי'], ['unassigned', 'לא משויכות']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setAssigneeFilter(value)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                assigneeFilter === value ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
 
         {/* List */}
         <div className="flex-1 overflow-y-auto">
@@ -1392,6 +1426,14 @@ export default function WhatsAppInbox() {
                     <p className="text-xs text-gray-500 truncate mt-0.5">
                       {conv.lastMessagePreview || 'שיחה חדשה'}
                     </p>
+                    {(conv.assignedTo || (conv.tags?.length ?? 0) > 0) && (
+                      <div className="flex flex-wrap items-center gap-1 mt-1">
+                        {conv.assignedTo && <span className="text-xs text-gray-400">👤 {conv.assignedTo.name}</span>}
+                        {conv.tags?.map(tag => (
+                          <span key={tag} className="text-xs bg-blue-50 text-blue-600 rounded-full px-1.5">{tag}</span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="flex flex-col items-end gap-1 flex-shrink-0">
                     {conv.lastMessageAt && (
@@ -1402,6 +1444,11 @@ export default function WhatsAppInbox() {
                         {conv.unreadCount}
                       </span>
                     )}
+                    {conv.sla?.firstResponseBreached ? (
+                      <span className="text-xs bg-red-100 text-red-700 rounded-full px-1.5" title="חרגה מזמן המענה הראשון">⏰ ממתין</span>
+                    ) : conv.sla?.resolutionBreached && (
+                      <span className="text-xs bg-orange-100 text-orange-700 rounded-full px-1.5" title="חרגה מזמן הטיפול">⚠️ פתוחה</span>
+                    )}
                   </div>
                 </div>
               </button>
@@ -1465,6 +1512,15 @@ export default function WhatsAppInbox() {
             </div>
           </div>
 
+          <WaConversationTools
+            key={selected.id}
+            conversation={selected}
+            onUpdated={patch => {
+              setSelected(s => s ? { ...s, ...patch } : s);
+              setConversations(prev => prev.map(c => c.id === selected.id ? { ...c, ...patch } : c));
+            }}
+          />
+
           {/* Lead info strip */}
           {(selected.leadName || selected.childName || selected.summary) && (
             <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-2 text-xs text-yellow-800 flex flex-wrap gap-3">
@@ -1593,6 +1649,14 @@ export default function WhatsAppInbox() {
               >
                 {loadingTemplates ? <RefreshCw size={16} className="animate-spin" /> : <FileText size={18} />}
               </button>
+              {/* Canned replies */}
+              <button
+                onClick={() => setShowCannedReplies(true)}
+                title="תשובות מוכנות"
+                className="w-10 h-10 bg-amber-50 hover:bg-amber-100 text-amber-500 rounded-full flex items-center justify-center transition-colors flex-shrink-0"
+              >
+                <Zap size={18} />
+              </button>
               {/* Payment link button */}
               <button
                 onClick={() => setShowPayModal(true)}
@@ -1839,6 +1903,13 @@ export default function WhatsAppInbox() {
     {/* close inbox view wrapper */}
 
     {/* Payment link modal */}
+    {showCannedReplies && selected && (
+      <WaCannedReplies
+        conversationId={selected.id}
+        onInsert={text => setInput(prev => (prev.trim() ? `${prev}\n${text}` : text))}
+        onClose={() => setShowCannedReplies(false)}
+      />
+    )}
     {showPayModal && selected && (
       <WooPayModal
         onClose={() => setShowPayModal(false)}
@@ -6,6 +6,7 @@ import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Sparkles, BookOpen, ChevronDown, Loader2, Copy, Check, AlertCircle, ExternalLink } from 'lucide-react';
 import api from '../../api/client';
+import { useCourseLessons } from '../../hooks/useApi';
 import type { Course } from '../../types';
 
 interface CoursesResponse {
@@ -18,6 +19,7 @@ interface GenerateRequest {
   ageGroup: string;
   cycleName?: string;
   topic?: string;
+  lessonNumber?: number;
 }
 
 interface GenerateResponse {
@@ -83,6 +85,7 @@ export default function MobileAiAssistant() {
   const [ageGroup, setAgeGroup] = useState('');
   const [cycleName, setCycleName] = useState('');
   const [topic, setTopic] = useState('');
+  const [lessonNumber, setLessonNumber] = useState('');
   const [result, setResult] = useState<GenerateResponse | null>(null);
   const [copied, setCopied] = useState(false);
 
@@ -97,6 +100,7 @@ export default function MobileAiAssistant() {
 
   const courses = coursesData?.data || [];
   const selectedCourse = courses.find(c => c.id === courseId);
+  const { data: lessons = [] } = useCourseLessons(courseId || undefined);
 
   const generateMutation = useMutation({
     mutationFn: async (req: GenerateRequest) => {
@@ -117,6 +121,7 @@ export default function MobileAiAssistant() {
       ageGroup,
       cycleName: cycleName || undefined,
       topic: topic || undefined,
+      lessonNumber: lessonNumber ? Number(lessonNumber) : undefined,
     });
   };
 
@@ -152,7 +157,7 @@ export default function MobileAiAssistant() {
             <div className="relative">
               <select
                 value={courseId}
-                onChange={e => setCourseId(e.target.value)}
+                onChange={e => { setCourseId(e.target.value); setLessonNumber(''); }}
                 className="w-full border border-gray-200 rounded-xl px-3 py-2.5 pr-8 text-sm bg-white appearance-none focus:outline-none focus:ring-2 focus:ring-blue-300"
                 disabled={coursesLoading}
               >
@@ -170,6 +175,24 @@ export default function MobileAiAssistant() {
             )}
           </div>
 
+          {/* Curriculum lesson */}
+          {lessons.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">שיעור בתוכנית הלימודים</label>
+              <div className="relative">
+                <select
+                  value={lessonNumber}
+                  onChange={e => setLessonNumber(e.target.value)}
+                  className="w-full border border-gray-200 rounded-xl px-3 py-2.5 pr-8 text-sm bg-white appearance-none focus:outline-none focus:ring-2 focus:ring-blue-300"
+                >
+                  <option value="">ללא שיעור ספציפי</option>
+                  {lessons.map(l => <option key={l.id} value={l.lessonNumber}>{l.lessonNumber}. {l.title}</option>)}
+                </select>
+                <ChevronDown size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
+              </div>
+            </div>
+          )}
+
           {/* Age group */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">גיל התלמידים *</label>
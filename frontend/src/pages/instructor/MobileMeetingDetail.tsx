@@ -18,6 +18,7 @@ import {
   CalendarX,
   CalendarClock,
   UserCog,
+  Star,
   X
 } from 'lucide-react';
 import { 
@@ -30,6 +31,7 @@ import {
   type AttendanceRecord
 } from '../../hooks/useApi';
 import Loading from '../../components/ui/Loading';
+import MeetingSkillRatings from '../../components/MeetingSkillRatings';
 import { meetingStatusHebrew } from '../../types';
 import type { MeetingStatus } from '../../types';
 
@@ -402,6 +404,11 @@ export default function MobileMeetingDetail() {
                           ניסיון
                         </span>
                       )}
+                      {record.isMakeup && (
+                        <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full">
+                          השלמה
+                        </span>
+                      )}
                     </div>
                     {record.grade && (
                       <span className="text-sm text-gray-500">כיתה {record.grade}</span>
@@ -462,6 +469,19 @@ export default function MobileMeetingDetail() {
             </div>
           )}
         </div>
+
+        {/* Skill ratings — after the meeting is reported as completed */}
+        {meeting.status === 'completed' && (
+          <div>
+            <h2 className="text-sm font-medium text-gray-700 flex items-center gap-2 mb-3">
+              <Star size={16} />
+              דירוג תלמידים
+            </h2>
+            <div className="bg-white rounded-2xl p-4 border border-gray-100">
+              <MeetingSkillRatings meetingId={meeting.id} />
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Fixed Save Button */}
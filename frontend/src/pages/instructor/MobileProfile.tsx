@@ -11,6 +11,7 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
 import { useMeetings } from '../../hooks/useApi';
+import InstructorAvailabilityEditor from '../../components/InstructorAvailabilityEditor';
 import { useMemo } from 'react';
 
 /**
@@ -109,6 +110,14 @@ export default function MobileProfile() {
         </div>
       </div>
 
+      {/* Availability — used by the office when looking for a substitute */}
+      {user?.instructor && (
+        <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 mb-6">
+          <h2 className="text-sm font-medium text-gray-500 mb-3">הזמינות שלי</h2>
+          <InstructorAvailabilityEditor instructorId={user.instructor.id} />
+        </div>
+      )}
+
       {/* Logout Button */}
       <button
         onClick={handleLogout}
@@ -1,6 +1,7 @@
 // Enums
 export type CourseCategory = 'programming' | 'ai' | 'robotics' | 'printing_3d';
 export type BranchType = 'school' | 'community_center' | 'frontal' | 'online';
+export type ClosureKind = 'vacation' | 'strike' | 'ministry_calendar' | 'other';
 export type OrderStatus = 'draft' | 'active' | 'completed' | 'cancelled';
 export type CycleType = 'private' | 'trial_private' | 'institutional_per_child' | 'institutional_fixed';
 export type CycleStatus = 'active' | 'completed' | 'cancelled' | 'frozen' | 'retainer';
@@ -61,8 +62,25 @@ export interface Task {
   createdBy?: TaskUser;
   assignee?: TaskUser | null;
   completedBy?: TaskUser | null;
+  parentRequest?: TaskParentRequest | null;
 }
 
+export type ParentRequestType = 'absence' | 'makeup' | 'cancellation';
+export type ParentRequestStatus = 'pending' | 'approved' | 'rejected';
+
+/** Parent-app self-service request that opened a task (approved/rejected from the task card). */
+export interface TaskParentRequest {
+  id: string;
+  type: ParentRequestType;
+  status: ParentRequestStatus;
+}
+
+export const parentRequestTypeHebrew: Record<ParentRequestType, string> = {
+  absence: 'דיווח היעדרות',
+  makeup: 'שיעור השלמה',
+  cancellation: 'בקשת ביטול',
+};
+
 export interface InternalZoomMeeting {
   id: string;
   title: string;
@@ -155,6 +173,65 @@ export interface Branch {
   };
 }
 
+// Organization closure — layered on top of the built-in Hebrew holiday calendar.
+// closed = false marks an open day overriding a holiday; empty branchTypes = all branches.
+export interface OrganizationClosure {
+  id: string;
+  name: string;
+  kind: ClosureKind;
+  startDate: string;
+  endDate: string;
+  branchTypes: BranchType[];
+  closed: boolean;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClosedDay {
+  date: string;
+  name: string;
+  source: 'holiday' | 'closure' | 'blackout';
+  kind?: ClosureKind;
+  closureId?: string;
+  blackoutId?: string;
+}
+
+// Branch-specific blackout (school trip, exam week). Applying it postpones the branch's meetings.
+export interface BranchBlackout {
+  id: string;
+  branchId: string;
+  reason: string;
+  startDate: string;
+  endDate: string;
+  appliedAt?: string | null;
+  postponedCount: number;
+  createdAt: string;
+}
+
+export interface BlackoutMeetingPreview {
+  id: string;
+  scheduledDate: string;
+  startTime: string;
+  cycle: { id: string; name: string };
+  instructor?: { id: string; name: string } | null;
+}
+
+export interface BlackoutApplyResult {
+  blackoutId: string;
+  postponed: {
+    meetingId: string;
+    cycleId: string;
+    cycleName: string;
+    scheduledDate: string;
+    replacementMeetingId: string | null;
+    replacementDate: string | null;
+  }[];
+  replacementFailures: number;
+  instructorsNotified: number;
+  parentsNotified: number;
+}
+
 // גוף משלם — a reusable payer that mirrors a client in Morning (Green Invoice).
 export interface PayingBody {
   id: string;
@@ -262,6 +339,81 @@ export interface Instructor {
   };
 }
 
+// Instructor availability (feeds the substitute finder for replacement requests)
+export interface InstructorAvailabilitySlot {
+  id?: string;
+  dayOfWeek: DayOfWeek;
+  startTime: string; // HH:MM
+  endTime: string;
+}
+
+export interface InstructorUnavailableDate {
+  id: string;
+  date: string; // YYYY-MM-DD
+  reason: string | null;
+}
+
+export interface InstructorAvailability {
+  slots: InstructorAvailabilitySlot[];
+  unavailableDates: InstructorUnavailableDate[];
+}
+
+export type SubstituteAvailability = 'available' | 'outside_hours' | 'unavailable_date' | 'unknown';
+
+export interface SubstituteCandidate {
+  instructorId: string;
+  name: string;
+  phone: string;
+  city: string | null;
+  score: number;
+  availability: SubstituteAvailability;
+  unavailableReason: string | null;
+  conflicts: { meetingId: string; cycleName: string; startTime: string; endTime: string }[];
+  pastCyclesOfCourse: number;
+  estimatedPayment: number;
+  sameCity: boolean | null;
+}
+
+export interface SubstituteSearch {
+  meeting: {
+    id: string;
+    scheduledDate: string;
+    startTime: string;
+    endTime: string;
+    activityType: ActivityType;
+    cycleName: string;
+    courseName: string;
+    location: string | null;
+    currentInstructorId: string;
+    currentPayment: number;
+  };
+  candidates: SubstituteCandidate[];
+}
+
+export const substituteAvailabilityHebrew: Record<SubstituteAvailability, string> = {
+  available: 'זמין/ה',
+  outside_hours: 'מחוץ לשעות הזמינות',
+  unavailable_date: 'לא זמין/ה בתאריך',
+  unknown: 'לא הוגדרה זמינות',
+};
+
+// Instructor double-booking / travel-gap conflicts (409 INSTRUCTOR_CONFLICT or conflictWarnings)
+export interface InstructorConflict {
+  type: 'overlap' | 'travel_gap';
+  severity: 'block' | 'warn';
+  instructorId: string;
+  date: string;
+  meetings: {
+    meetingId: string | null;
+    cycleName: string | null;
+    startTime: string;
+    endTime: string;
+    location: string | null;
+  }[];
+  gapMinutes: number | null;
+  message: string;
+}
+
 export interface Cycle {
   id: string;
   name: string;
@@ -389,6 +541,32 @@ export interface Registration {
   cycle?: Cycle;
 }
 
+export type WaitlistStatus = 'waiting' | 'offered' | 'placed' | 'expired' | 'declined' | 'removed';
+
+export interface WaitlistEntry {
+  id: string;
+  cycleId: string;
+  customerId: string;
+  studentId?: string | null;
+  childName?: string | null;
+  position: number;
+  status: WaitlistStatus;
+  notes?: string | null;
+  offeredAt?: string | null;
+  offerExpiresAt?: string | null;
+  respondedAt?: string | null;
+  registrationId?: string | null;
+  joinedAt: string;
+  customer?: { id: string; name: string; phone?: string | null };
+  student?: { id: string; name: string } | null;
+}
+
+export interface CycleWaitlist {
+  cycleId: string;
+  availableSeats: number | null;
+  entries: WaitlistEntry[];
+}
+
 export interface Attendance {
   id: string;
   meetingId: string;
@@ -475,6 +653,13 @@ export const branchTypeHebrew: Record<BranchType, string> = {
   online: 'אונליין',
 };
 
+export const closureKindHebrew: Record<ClosureKind, string> = {
+  vacation: 'חופשה',
+  strike: 'שביתה',
+  ministry_calendar: 'לוח משרד החינוך',
+  other: 'אחר',
+};
+
 export const categoryHebrew: Record<CourseCategory, string> = {
   programming: 'תכנות',
   ai: 'בינה מלאכותית',
@@ -488,6 +673,15 @@ export const paymentStatusHebrew: Record<PaymentStatus, string> = {
   paid: 'שולם',
 };
 
+export const waitlistStatusHebrew: Record<WaitlistStatus, string> = {
+  waiting: 'ממתין',
+  offered: 'נשלחה הצעה',
+  placed: 'שובץ',
+  expired: 'פג תוקף',
+  declined: 'ויתר',
+  removed: 'הוסר',
+};
+
 export const attendanceStatusHebrew: Record<AttendanceStatus, string> = {
   present: 'נוכח',
   absent: 'נעדר',
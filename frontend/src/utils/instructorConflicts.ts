@@ -0,0 +1,43 @@
+import type { InstructorConflict } from '../types';
+
+const MAX_LISTED = 5;
+
+type ConflictErrorResponse = {
+  response?: { status?: number; data?: { data?: { code?: string; conflicts?: InstructorConflict[] } } };
+};
+
+export const instructorConflictsFromError = (error: unknown): InstructorConflict[] | null => {
+  const response = (error as ConflictErrorResponse)?.response;
+  if (response?.status !== 409 || response.data?.data?.code !== 'INSTRUCTOR_CONFLICT') return null;
+  return response.data.data.conflicts ?? [];
+};
+
+const formatConflicts = (conflicts: InstructorConflict[]): string => {
+  const lines = conflicts.slice(0, MAX_LISTED).map((conflict) => `• ${conflict.message}`);
+  if (conflicts.length > MAX_LISTED) lines.push(`ועוד ${conflicts.length - MAX_LISTED}...`);
+  return lines.join('\n');
+};
+
+/**
+ * Run a save that may be rejected with 409 INSTRUCTOR_CONFLICT. On conflict the user is asked
+ * whether to save anyway (retried with allowConflicts); returns null if they decline. Travel-gap
+ * warnings on a clean save are shown once.
+ */
+export const saveWithConflictCheck = async <T extends { conflictWarnings?: InstructorConflict[] }>(
+  save: (allowConflicts: boolean) => Promise<T>,
+): Promise<T | null> => {
+  try {
+    const result = await save(false);
+    if (result?.conflictWarnings?.length) {
+      alert(`שימו לב:\n${formatConflicts(result.conflictWarnings)}`);
+    }
+    return result;
+  } catch (error) {
+    const conflicts = instructorConflictsFromError(error);
+    if (!conflicts) throw error;
+    if (!window.confirm(`המדריך כבר משובץ באותו זמן:\n${formatConflicts(conflicts)}\n\nלשמור בכל זאת?`)) {
+      return null;
+    }
+    return save(true);
+  }
+};